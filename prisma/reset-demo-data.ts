@@ -51,6 +51,7 @@ async function fullReset() {
     
     // Audit logs reference users
     await safeDelete("Audit logs", () => (prisma as ExtendedPrisma).auditLog.deleteMany({}));
+    await safeDelete("Audit checkpoints", () => (prisma as ExtendedPrisma).auditCheckpoint.deleteMany({}));
     
     // Join requests reference users and orgs
     await safeDelete("Join requests", () => (prisma as ExtendedPrisma).joinRequest.deleteMany({}));
@@ -0,0 +1,63 @@
+import "dotenv/config";
+import { Pool } from "pg";
+import { PrismaPg } from "@prisma/adapter-pg";
+import { PrismaClient } from "@prisma/client";
+
+const pool = new Pool({ connectionString: process.env.DATABASE_URL });
+const adapter = new PrismaPg(pool);
+const db = new PrismaClient({ adapter });
+
+/**
+ * ICAO / USOAP terminology with the French wording used across the
+ * programme's documents. Machine translators must use these verbatim.
+ */
+const GLOSSARY_TERMS: { termEn: string; termFr: string; notes?: string }[] = [
+  { termEn: "Air Navigation Service Provider", termFr: "fournisseur de services de navigation aérienne" },
+  { termEn: "ANSP", termFr: "FSNA" },
+  { termEn: "Corrective Action Plan", termFr: "plan d'action corrective" },
+  { termEn: "CAP", termFr: "PAC" },
+  { termEn: "Critical Element", termFr: "élément crucial", notes: "ICAO CE1–CE8" },
+  { termEn: "Protocol Question", termFr: "question de protocole" },
+  { termEn: "Safety Management System", termFr: "système de gestion de la sécurité" },
+  { termEn: "SMS", termFr: "SGS" },
+  { termEn: "Effective Implementation", termFr: "mise en œuvre effective" },
+  { termEn: "Peer Review", termFr: "revue par les pairs" },
+  { termEn: "Finding", termFr: "constatation" },
+  { termEn: "Non-conformity", termFr: "non-conformité" },
+  { termEn: "Air Traffic Management", termFr: "gestion du trafic aérien" },
+  { termEn: "Air Traffic Services", termFr: "services de la circulation aérienne" },
+  { termEn: "Aeronautical Information Management", termFr: "gestion de l'information aéronautique" },
+  { termEn: "Communications, Navigation and Surveillance", termFr: "communications, navigation et surveillance" },
+  { termEn: "Standards and Recommended Practices", termFr: "normes et pratiques recommandées" },
+  { termEn: "State Safety Programme", termFr: "programme national de sécurité" },
+  { termEn: "Hazard", termFr: "danger" },
+  { termEn: "Safety Risk", termFr: "risque de sécurité" },
+];
+
+async function seedGlossary() {
+  console.log("🔄 Seeding translation glossary...");
+
+  const systemUser = await db.user.findFirst({
+    where: { role: "SUPER_ADMIN" },
+  });
+
+  for (const term of GLOSSARY_TERMS) {
+    await db.glossaryTerm.upsert({
+      where: { termEn: term.termEn },
+      create: { ...term, createdById: systemUser?.id ?? null },
+      update: {},
+    });
+  }
+
+  console.log(`✅ ${GLOSSARY_TERMS.length} glossary terms seeded`);
+}
+
+seedGlossary()
+  .catch((error) => {
+    console.error("❌ Error seeding glossary:", error);
+    process.exit(1);
+  })
+  .finally(async () => {
+    await db.$disconnect();
+    await pool.end();
+  });
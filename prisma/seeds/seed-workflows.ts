@@ -34,7 +34,8 @@ async function seedWorkflows() {
       isDefault: true,
       createdById,
     },
-    update: { isActive: true, isDefault: true },
+    // Leave status alone: a later published version may have archived V1
+    update: {},
   });
 
   const capStates = [
@@ -312,7 +313,7 @@ async function seedWorkflows() {
       isDefault: true,
       createdById,
     },
-    update: { isActive: true, isDefault: true },
+    update: {},
   });
 
   const findingStates = [
@@ -467,7 +468,7 @@ async function seedWorkflows() {
       isDefault: true,
       createdById,
     },
-    update: { isActive: true, isDefault: true },
+    update: {},
   });
 
   const reviewStates = [
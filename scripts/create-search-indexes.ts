@@ -0,0 +1,43 @@
+/**
+ * Create the GIN expression indexes used by full-text search.
+ *
+ * `prisma db push` does not manage expression indexes, so run this after
+ * every push (the statements are idempotent).
+ *
+ * Run with: npx tsx scripts/create-search-indexes.ts
+ *           — or —  npm run db:search:indexes
+ */
+
+import "dotenv/config";
+import { Pool } from "pg";
+import { PrismaPg } from "@prisma/adapter-pg";
+import { PrismaClient } from "@prisma/client";
+import { searchIndexStatements } from "../src/server/services/search/documents";
+
+const connectionString = process.env.DATABASE_URL;
+if (!connectionString) {
+  throw new Error("DATABASE_URL environment variable is not set");
+}
+
+const pool = new Pool({ connectionString });
+const adapter = new PrismaPg(pool);
+const prisma = new PrismaClient({ adapter });
+
+async function main() {
+  const statements = searchIndexStatements();
+  for (const statement of statements) {
+    console.log(statement.split(" ON ")[0]);
+    await prisma.$executeRawUnsafe(statement);
+  }
+  console.log(`\n✅ ${statements.length} search indexes in place`);
+}
+
+main()
+  .catch((error) => {
+    console.error(error);
+    process.exit(1);
+  })
+  .finally(async () => {
+    await prisma.$disconnect();
+    await pool.end();
+  });
@@ -0,0 +1,81 @@
+/**
+ * PDF Annotation Geometry Tests
+ *
+ * Tests for highlight rectangles, excerpt extraction and the page
+ * reference written into findings.
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  MAX_EXCERPT_LENGTH,
+  formatPageReference,
+  rectFromDrag,
+  textInRect,
+  type PageTextItem,
+} from "@/lib/annotations/page-geometry";
+
+const PAGE = { width: 600, height: 800 };
+
+describe("rectFromDrag", () => {
+  it("normalises a drag in any direction to page fractions", () => {
+    const rect = rectFromDrag({ x: 300, y: 400 }, { x: 60, y: 80 }, PAGE);
+
+    expect(rect).toEqual({ x: 0.1, y: 0.1, width: 0.4, height: 0.4 });
+  });
+
+  it("clamps drags that leave the page", () => {
+    const rect = rectFromDrag({ x: 540, y: 720 }, { x: 700, y: 900 }, PAGE)!;
+
+    expect(rect.x).toBeCloseTo(0.9);
+    expect(rect.x + rect.width).toBe(1);
+    expect(rect.y + rect.height).toBe(1);
+  });
+
+  it("treats a tiny drag as a click", () => {
+    expect(rectFromDrag({ x: 100, y: 100 }, { x: 101, y: 150 }, PAGE)).toBeNull();
+  });
+});
+
+describe("textInRect", () => {
+  const items: PageTextItem[] = [
+    { text: "second line", rect: { x: 0.1, y: 0.2, width: 0.3, height: 0.02 } },
+    { text: "First", rect: { x: 0.1, y: 0.1, width: 0.1, height: 0.02 } },
+    { text: "line", rect: { x: 0.25, y: 0.1, width: 0.1, height: 0.02 } },
+    { text: "outside", rect: { x: 0.7, y: 0.5, width: 0.1, height: 0.02 } },
+  ];
+
+  it("returns covered text in reading order", () => {
+    const text = textInRect(items, { x: 0.05, y: 0.05, width: 0.5, height: 0.2 });
+
+    expect(text).toBe("First line second line");
+  });
+
+  it("caps long excerpts", () => {
+    const long: PageTextItem[] = [
+      { text: "word ".repeat(200), rect: { x: 0, y: 0, width: 1, height: 0.1 } },
+    ];
+    const text = textInRect(long, { x: 0, y: 0, width: 1, height: 1 });
+
+    expect(text.length).toBe(MAX_EXCERPT_LENGTH);
+    expect(text.endsWith("…")).toBe(true);
+  });
+});
+
+describe("formatPageReference", () => {
+  it("formats English and French references with an excerpt", () => {
+    const params = { documentName: "ATM Manual.pdf", pageNumber: 12, excerpt: " Shift handover " };
+
+    expect(formatPageReference({ ...params, locale: "en" })).toBe(
+      'ATM Manual.pdf, p. 12: "Shift handover"'
+    );
+    expect(formatPageReference({ ...params, locale: "fr" })).toBe(
+      "ATM Manual.pdf, p. 12 : « Shift handover »"
+    );
+  });
+
+  it("omits the excerpt when there is none", () => {
+    expect(
+      formatPageReference({ documentName: "SMS.pdf", pageNumber: 3, excerpt: "", locale: "en" })
+    ).toBe("SMS.pdf, p. 3");
+  });
+});
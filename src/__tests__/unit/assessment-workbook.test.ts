@@ -0,0 +1,135 @@
+/**
+ * Assessment Workbook Tests
+ *
+ * Tests for the Excel export of assessment responses and the re-import of
+ * workbooks completed offline.
+ */
+
+import { describe, it, expect } from "vitest";
+import * as XLSX from "xlsx";
+import {
+  buildAssessmentWorkbook,
+  parseAssessmentWorkbook,
+  parseWorkbookResponse,
+  type AssessmentWorkbookInput,
+  type AssessmentWorkbookRow,
+} from "@/lib/export/assessment-workbook";
+
+function row(
+  questionId: string,
+  category: string,
+  overrides: Partial<AssessmentWorkbookRow> = {}
+): AssessmentWorkbookRow {
+  return {
+    questionId,
+    pqNumber: questionId.toUpperCase(),
+    questionTextEn: `Question ${questionId}`,
+    questionTextFr: `Question ${questionId}`,
+    category,
+    responseValue: null,
+    maturityLevel: null,
+    score: null,
+    notes: null,
+    evidence: [],
+    respondedBy: null,
+    respondedAt: null,
+    ...overrides,
+  };
+}
+
+const ansInput: AssessmentWorkbookInput = {
+  assessment: {
+    id: "assessment-1",
+    title: "ANS Self-Assessment",
+    referenceNumber: "AAPRP-SA-001",
+    organizationName: "ASECNA",
+    questionnaireTitle: "ANS Protocol Questions",
+    type: "ANS_USOAP_CMA",
+    status: "DRAFT",
+    eiScore: 50,
+    overallScore: 50,
+    maturityLevel: null,
+  },
+  rows: [
+    row("q1", "Air Traffic Services", { responseValue: "SATISFACTORY", evidence: ["Manual.pdf"] }),
+    row("q2", "Air Traffic Services", { responseValue: "NOT_SATISFACTORY" }),
+    row("q3", "Aeronautical Information: Services/Charts"),
+  ],
+  includeNotes: true,
+  includeEvidence: true,
+};
+
+function readFile(file: Uint8Array) {
+  return XLSX.read(file, { type: "array" });
+}
+
+describe("buildAssessmentWorkbook", () => {
+  it("writes a summary and one sheet per category", () => {
+    const workbook = readFile(buildAssessmentWorkbook(ansInput));
+
+    expect(workbook.SheetNames).toEqual([
+      "Summary",
+      "Air Traffic Services",
+      "Aeronautical Information Servic",
+    ]);
+
+    const summary = workbook.Sheets.Summary;
+    expect(summary.B1.v).toBe("assessment-1");
+    expect(summary.B9).toMatchObject({ v: 0.5, w: "50.0%" });
+
+    const ats = XLSX.utils.sheet_to_json<Record<string, unknown>>(workbook.Sheets["Air Traffic Services"]);
+    expect(ats[0]).toMatchObject({ "Question ID": "q1", Response: "SATISFACTORY", Evidence: "Manual.pdf" });
+  });
+
+  it("adds a response dropdown to every category sheet", () => {
+    const file = buildAssessmentWorkbook(ansInput);
+    const zip = XLSX.CFB.read(file, { type: "buffer" });
+    const sheet = new TextDecoder().decode(XLSX.CFB.find(zip, "/xl/worksheets/sheet2.xml").content);
+
+    expect(sheet).toContain('<dataValidation type="list"');
+    expect(sheet).toContain('sqref="E2:E3"');
+    expect(sheet).toContain('"SATISFACTORY,NOT_SATISFACTORY,NOT_APPLICABLE,NOT_REVIEWED"');
+  });
+});
+
+describe("parseAssessmentWorkbook", () => {
+  it("round-trips a completed workbook into saveResponses input", () => {
+    const workbook = readFile(buildAssessmentWorkbook(ansInput));
+    const sheet = workbook.Sheets["Aeronautical Information Servic"];
+    XLSX.utils.sheet_add_aoa(sheet, [["Not Applicable"]], { origin: "E2" });
+    XLSX.utils.sheet_add_aoa(sheet, [["No ATS provided"]], { origin: "F2" });
+
+    const completed = XLSX.write(workbook, { type: "array", bookType: "xlsx" }) as ArrayBuffer;
+    const result = parseAssessmentWorkbook(completed, "ANS_USOAP_CMA");
+
+    expect(result.assessmentId).toBe("assessment-1");
+    expect(result.errors).toEqual([]);
+    expect(result.responses).toEqual([
+      { questionId: "q1", responseValue: "SATISFACTORY" },
+      { questionId: "q2", responseValue: "NOT_SATISFACTORY" },
+      { questionId: "q3", responseValue: "NOT_APPLICABLE", notes: "No ATS provided" },
+    ]);
+  });
+
+  it("reports unrecognised responses with their sheet and row", () => {
+    const workbook = readFile(buildAssessmentWorkbook(ansInput));
+    XLSX.utils.sheet_add_aoa(workbook.Sheets["Air Traffic Services"], [["Maybe"]], { origin: "E3" });
+
+    const completed = XLSX.write(workbook, { type: "array", bookType: "xlsx" }) as ArrayBuffer;
+    const result = parseAssessmentWorkbook(completed, "ANS_USOAP_CMA");
+
+    expect(result.errors).toEqual([
+      { sheet: "Air Traffic Services", row: 3, message: 'Unrecognised response "Maybe"' },
+    ]);
+    expect(result.responses.map((r) => r.questionId)).toEqual(["q1"]);
+  });
+});
+
+describe("parseWorkbookResponse", () => {
+  it("accepts common spellings", () => {
+    expect(parseWorkbookResponse("N/A", "ANS_USOAP_CMA")).toBe("NOT_APPLICABLE");
+    expect(parseWorkbookResponse("ns", "ANS_USOAP_CMA")).toBe("NOT_SATISFACTORY");
+    expect(parseWorkbookResponse("Level C", "SMS_CANSO_SOE")).toBe("C");
+    expect(parseWorkbookResponse("F", "SMS_CANSO_SOE")).toBeUndefined();
+  });
+});
@@ -0,0 +1,138 @@
+/**
+ * Audit Hash Chain Tests
+ *
+ * Tests for sealing, verifying and checkpointing the audit log chain.
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  AUDIT_CHAIN_GENESIS_HASH,
+  canonicalJson,
+  computeAuditEntryHash,
+  signCheckpoint,
+  verifyChainSegment,
+  verifyCheckpointSignature,
+  type ChainableAuditEntry,
+  type SealedAuditEntry,
+} from "@/lib/audit/hash-chain";
+
+function makeEntry(index: number): ChainableAuditEntry {
+  return {
+    id: `log-${index}`,
+    userId: "user-1",
+    action: "UPDATE",
+    entityType: "Finding",
+    entityId: `finding-${index}`,
+    previousState: { status: "OPEN" },
+    newState: { status: "CLOSED", severity: "MAJOR" },
+    metadata: null,
+    ipAddress: "10.0.0.1",
+    userAgent: null,
+    createdAt: new Date(Date.UTC(2026, 0, 1, 12, index)),
+  };
+}
+
+function sealChain(count: number): SealedAuditEntry[] {
+  const chain: SealedAuditEntry[] = [];
+  let previousHash = AUDIT_CHAIN_GENESIS_HASH;
+  for (let i = 1; i <= count; i++) {
+    const entry = makeEntry(i);
+    const hash = computeAuditEntryHash(entry, i, previousHash);
+    chain.push({ ...entry, sequence: i, previousHash, hash });
+    previousHash = hash;
+  }
+  return chain;
+}
+
+describe("canonicalJson", () => {
+  it("sorts keys at every level", () => {
+    expect(canonicalJson({ b: 1, a: { d: [2, { f: 1, e: 0 }], c: null } })).toBe(
+      '{"a":{"c":null,"d":[2,{"e":0,"f":1}]},"b":1}'
+    );
+  });
+
+  it("serialises dates as ISO strings and drops undefined fields", () => {
+    expect(canonicalJson({ at: new Date(Date.UTC(2026, 0, 1)), skip: undefined })).toBe(
+      '{"at":"2026-01-01T00:00:00.000Z"}'
+    );
+  });
+});
+
+describe("verifyChainSegment", () => {
+  it("accepts an intact chain", () => {
+    const chain = sealChain(5);
+    const result = verifyChainSegment(chain);
+
+    expect(result.break).toBeNull();
+    expect(result.checked).toBe(5);
+    expect(result.lastHash).toBe(chain[4].hash);
+  });
+
+  it("detects an edited entry", () => {
+    const chain = sealChain(5);
+    chain[2] = { ...chain[2], newState: { status: "OPEN", severity: "MAJOR" } };
+
+    const result = verifyChainSegment(chain);
+
+    expect(result.break).toMatchObject({ reason: "HASH_MISMATCH", sequence: 3 });
+    expect(result.checked).toBe(2);
+  });
+
+  it("detects a deleted entry", () => {
+    const chain = sealChain(5);
+    chain.splice(3, 1);
+
+    expect(verifyChainSegment(chain).break).toMatchObject({
+      reason: "SEQUENCE_GAP",
+      sequence: 5,
+      expectedSequence: 4,
+    });
+  });
+
+  it("detects an entry re-hashed to hide an edit", () => {
+    const chain = sealChain(4);
+    const edited = { ...chain[1], metadata: { note: "changed" } };
+    chain[1] = { ...edited, hash: computeAuditEntryHash(edited, 2, edited.previousHash) };
+
+    expect(verifyChainSegment(chain).break).toMatchObject({
+      reason: "PREVIOUS_HASH_MISMATCH",
+      sequence: 3,
+    });
+  });
+
+  it("continues from a previous segment", () => {
+    const chain = sealChain(6);
+    const first = verifyChainSegment(chain.slice(0, 3));
+    const second = verifyChainSegment(chain.slice(3), {
+      sequence: first.lastSequence + 1,
+      previousHash: first.lastHash,
+    });
+
+    expect(second.break).toBeNull();
+    expect(second.lastSequence).toBe(6);
+  });
+});
+
+describe("checkpoint signatures", () => {
+  const checkpoint = {
+    sequence: 42,
+    hash: "a".repeat(64),
+    entryCount: 42,
+    createdAt: new Date(Date.UTC(2026, 0, 2)),
+  };
+
+  it("verifies a checkpoint signed with the same key", () => {
+    const signature = signCheckpoint(checkpoint, "secret");
+
+    expect(verifyCheckpointSignature(checkpoint, signature, "secret")).toBe(true);
+    expect(verifyCheckpointSignature(checkpoint, signature, "other")).toBe(false);
+  });
+
+  it("rejects a checkpoint whose head was moved", () => {
+    const signature = signCheckpoint(checkpoint, "secret");
+
+    expect(
+      verifyCheckpointSignature({ ...checkpoint, sequence: 41 }, signature, "secret")
+    ).toBe(false);
+  });
+});
@@ -0,0 +1,205 @@
+/**
+ * Availability Recurrence Engine Tests
+ *
+ * Tests for RRULE parsing, occurrence expansion and the availability
+ * checks built on expanded occurrences.
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  parseRecurrenceRule,
+  formatRecurrenceRule,
+  expandRecurrence,
+  expandAvailabilitySlots,
+  hasBlockingAvailability,
+  isAvailableThroughout,
+} from "@/lib/availability/recurrence";
+import type { AvailabilityType } from "@prisma/client";
+
+const d = (value: string) => new Date(`${value}T00:00:00.000Z`);
+const keys = (ranges: { start: Date }[]) =>
+  ranges.map((r) => r.start.toISOString().split("T")[0]);
+
+const YEAR_2026 = { start: d("2026-01-01"), end: d("2026-12-31") };
+
+// =============================================================================
+// PARSING
+// =============================================================================
+
+describe("parseRecurrenceRule", () => {
+  it("parses all supported parts", () => {
+    const info = parseRecurrenceRule(
+      "FREQ=MONTHLY;INTERVAL=2;BYDAY=-1FR,MO;BYMONTHDAY=1,-1;COUNT=5;UNTIL=20261231;EXDATE=20260105"
+    );
+    expect(info).toMatchObject({
+      frequency: "MONTHLY",
+      interval: 2,
+      byDay: [{ day: 5, ordinal: -1 }, { day: 1, ordinal: undefined }],
+      byMonthDay: [1, -1],
+      count: 5,
+    });
+    expect(info?.until?.toISOString()).toBe("2026-12-31T23:59:59.999Z");
+    expect(info?.exceptions?.[0].toISOString()).toBe("2026-01-05T00:00:00.000Z");
+  });
+
+  it("reads legacy BIWEEKLY as a two-week interval", () => {
+    expect(parseRecurrenceRule("FREQ=BIWEEKLY;BYDAY=MO")).toMatchObject({
+      frequency: "WEEKLY",
+      interval: 2,
+    });
+  });
+
+  it("rejects invalid rules", () => {
+    expect(parseRecurrenceRule("")).toBeNull();
+    expect(parseRecurrenceRule("BYDAY=MO")).toBeNull();
+    expect(parseRecurrenceRule("FREQ=HOURLY")).toBeNull();
+    expect(parseRecurrenceRule("FREQ=WEEKLY;INTERVAL=0")).toBeNull();
+    expect(parseRecurrenceRule("FREQ=WEEKLY;BYDAY=XX")).toBeNull();
+    expect(parseRecurrenceRule("FREQ=WEEKLY;BYDAY=1MO")).toBeNull();
+    expect(parseRecurrenceRule("FREQ=MONTHLY;BYMONTHDAY=32")).toBeNull();
+    expect(parseRecurrenceRule("FREQ=DAILY;UNTIL=tomorrow")).toBeNull();
+  });
+
+  it("round-trips through formatRecurrenceRule", () => {
+    const rule = "FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,WE;UNTIL=20260331;EXDATE=20260216";
+    expect(formatRecurrenceRule(parseRecurrenceRule(rule)!)).toBe(rule);
+  });
+});
+
+// =============================================================================
+// EXPANSION
+// =============================================================================
+
+describe("expandRecurrence", () => {
+  it("expands weekly rules on the selected weekdays", () => {
+    // 2026-01-05 is a Monday
+    const result = expandRecurrence(
+      d("2026-01-05"),
+      d("2026-01-05"),
+      "FREQ=WEEKLY;BYDAY=MO,WE;COUNT=4",
+      YEAR_2026
+    );
+    expect(keys(result)).toEqual(["2026-01-05", "2026-01-07", "2026-01-12", "2026-01-14"]);
+  });
+
+  it("applies INTERVAL and UNTIL", () => {
+    const result = expandRecurrence(
+      d("2026-01-05"),
+      d("2026-01-05"),
+      "FREQ=WEEKLY;INTERVAL=2;UNTIL=20260202",
+      YEAR_2026
+    );
+    expect(keys(result)).toEqual(["2026-01-05", "2026-01-19", "2026-02-02"]);
+  });
+
+  it("counts EXDATEs towards COUNT but skips them", () => {
+    const result = expandRecurrence(
+      d("2026-03-01"),
+      d("2026-03-01"),
+      "FREQ=DAILY;COUNT=3;EXDATE=20260302",
+      YEAR_2026
+    );
+    expect(keys(result)).toEqual(["2026-03-01", "2026-03-03"]);
+  });
+
+  it("skips months without the day for BYMONTHDAY and supports negative days", () => {
+    const thirtyFirst = expandRecurrence(
+      d("2026-01-31"),
+      d("2026-01-31"),
+      "FREQ=MONTHLY;BYMONTHDAY=31;COUNT=3",
+      YEAR_2026
+    );
+    expect(keys(thirtyFirst)).toEqual(["2026-01-31", "2026-03-31", "2026-05-31"]);
+
+    const lastDay = expandRecurrence(
+      d("2026-01-31"),
+      d("2026-01-31"),
+      "FREQ=MONTHLY;BYMONTHDAY=-1;COUNT=2",
+      YEAR_2026
+    );
+    expect(keys(lastDay)).toEqual(["2026-01-31", "2026-02-28"]);
+  });
+
+  it("supports ordinal weekdays for monthly rules", () => {
+    // Last Friday of each month
+    const result = expandRecurrence(
+      d("2026-01-30"),
+      d("2026-01-30"),
+      "FREQ=MONTHLY;BYDAY=-1FR;COUNT=3",
+      YEAR_2026
+    );
+    expect(keys(result)).toEqual(["2026-01-30", "2026-02-27", "2026-03-27"]);
+  });
+
+  it("keeps the slot duration and returns only occurrences overlapping the window", () => {
+    const result = expandRecurrence(
+      d("2026-01-01"),
+      d("2026-01-03"),
+      "FREQ=MONTHLY",
+      { start: d("2026-03-02"), end: d("2026-04-30") }
+    );
+    expect(keys(result)).toEqual(["2026-03-01", "2026-04-01"]);
+    expect(result[0].end.toISOString()).toBe("2026-03-03T00:00:00.000Z");
+  });
+
+  it("treats invalid rules as a single range", () => {
+    const result = expandRecurrence(d("2026-02-01"), d("2026-02-02"), "FREQ=NEVER", YEAR_2026);
+    expect(keys(result)).toEqual(["2026-02-01"]);
+  });
+});
+
+// =============================================================================
+// AVAILABILITY CHECKS
+// =============================================================================
+
+function slot(
+  start: string,
+  end: string,
+  availabilityType: AvailabilityType,
+  recurrencePattern?: string
+) {
+  return {
+    startDate: d(start),
+    endDate: d(end),
+    availabilityType,
+    isRecurring: !!recurrencePattern,
+    recurrencePattern: recurrencePattern ?? null,
+  };
+}
+
+describe("availability checks", () => {
+  const review = { start: d("2026-06-08"), end: d("2026-06-12") };
+
+  it("expands series once and leaves plain slots untouched", () => {
+    const slots = [
+      slot("2026-06-01", "2026-06-30", "AVAILABLE"),
+      slot("2026-01-05", "2026-01-05", "UNAVAILABLE", "FREQ=WEEKLY;BYDAY=WE"),
+    ];
+    const expanded = expandAvailabilitySlots(slots, review);
+    expect(expanded).toHaveLength(2);
+    expect(expandAvailabilitySlots(expanded, review)).toHaveLength(2);
+  });
+
+  it("lets a recurring blackout block an otherwise available reviewer", () => {
+    const available = slot("2026-06-01", "2026-06-30", "AVAILABLE");
+    const weeklyBlackout = slot("2026-01-07", "2026-01-07", "UNAVAILABLE", "FREQ=WEEKLY;BYDAY=WE");
+
+    expect(isAvailableThroughout([available], review)).toBe(true);
+    expect(isAvailableThroughout([available, weeklyBlackout], review)).toBe(false);
+    expect(hasBlockingAvailability([available, weeklyBlackout], review)).toBe(true);
+  });
+
+  it("ignores blackouts whose series ended before the review", () => {
+    const available = slot("2026-06-01", "2026-06-30", "AVAILABLE");
+    const ended = slot("2026-01-07", "2026-01-07", "UNAVAILABLE", "FREQ=WEEKLY;UNTIL=20260501");
+
+    expect(isAvailableThroughout([available, ended], review)).toBe(true);
+    expect(hasBlockingAvailability([ended], review)).toBe(false);
+  });
+
+  it("counts recurring availability towards coverage", () => {
+    const weekdays = slot("2026-06-01", "2026-06-01", "AVAILABLE", "FREQ=WEEKLY;BYDAY=MO,TU,WE,TH,FR");
+    expect(isAvailableThroughout([weekdays], review)).toBe(true);
+    expect(isAvailableThroughout([weekdays], { start: d("2026-06-08"), end: d("2026-06-13") })).toBe(false);
+  });
+});
@@ -0,0 +1,127 @@
+/**
+ * iCalendar Tests
+ *
+ * Tests for ICS serialization of feed events and parsing of uploaded
+ * calendars into day ranges and recurrence patterns.
+ */
+
+import { describe, it, expect } from "vitest";
+import { buildCalendar, foldLine, parseCalendar } from "@/lib/calendar/ics";
+
+const d = (value: string) => new Date(`${value}T00:00:00.000Z`);
+
+describe("buildCalendar", () => {
+  const calendar = buildCalendar(
+    [
+      {
+        uid: "review-1@test",
+        summary: "Peer review REF-1, Accra; phase 1",
+        description: "Line one\nLine two",
+        start: d("2026-03-09"),
+        end: d("2026-03-13"),
+      },
+      {
+        uid: "availability-1@test",
+        summary: "Unavailable",
+        start: d("2026-01-05"),
+        end: d("2026-01-05"),
+        recurrencePattern: "FREQ=WEEKLY;BYDAY=MO;UNTIL=20260330;EXDATE=20260119",
+      },
+    ],
+    { name: "Test", generatedAt: new Date("2026-01-01T10:00:00.000Z") }
+  );
+
+  it("writes all-day events with an exclusive DTEND and escaped text", () => {
+    expect(calendar).toContain("DTSTART;VALUE=DATE:20260309\r\n");
+    expect(calendar).toContain("DTEND;VALUE=DATE:20260314\r\n");
+    expect(calendar).toContain("SUMMARY:Peer review REF-1\\, Accra\\; phase 1");
+    expect(calendar).toContain("DESCRIPTION:Line one\\nLine two");
+    expect(calendar).toContain("DTSTAMP:20260101T100000Z");
+  });
+
+  it("splits stored EXDATEs out of the RRULE", () => {
+    expect(calendar).toContain("RRULE:FREQ=WEEKLY;BYDAY=MO;UNTIL=20260330\r\n");
+    expect(calendar).toContain("EXDATE;VALUE=DATE:20260119\r\n");
+  });
+
+  it("round-trips through parseCalendar", () => {
+    const events = parseCalendar(calendar);
+    expect(events).toHaveLength(2);
+    expect(events[0]).toMatchObject({
+      uid: "review-1@test",
+      summary: "Peer review REF-1, Accra; phase 1",
+      description: "Line one\nLine two",
+      start: d("2026-03-09"),
+      end: d("2026-03-13"),
+    });
+    expect(events[1].recurrencePattern).toBe(
+      "FREQ=WEEKLY;BYDAY=MO;UNTIL=20260330;EXDATE=20260119"
+    );
+  });
+});
+
+describe("foldLine", () => {
+  it("folds long lines at 75 octets without splitting characters", () => {
+    const line = `SUMMARY:${"é".repeat(60)}`;
+    const folded = foldLine(line);
+    const encoder = new TextEncoder();
+
+    for (const part of folded.split("\r\n")) {
+      expect(encoder.encode(part).length).toBeLessThanOrEqual(75);
+    }
+    expect(folded.replace(/\r\n /g, "")).toBe(line);
+  });
+});
+
+describe("parseCalendar", () => {
+  it("handles folded lines, timed events and nested alarms", () => {
+    const events = parseCalendar(
+      [
+        "BEGIN:VCALENDAR",
+        "BEGIN:VEVENT",
+        "UID:abc",
+        "SUMMARY:Annual",
+        "  leave",
+        "DTSTART;TZID=\"Africa/Lagos\":20260504T090000",
+        "DTEND;TZID=\"Africa/Lagos\":20260506T170000",
+        "BEGIN:VALARM",
+        "SUMMARY:Reminder",
+        "END:VALARM",
+        "END:VEVENT",
+        "BEGIN:VEVENT",
+        "SUMMARY:Meeting",
+        "DTSTART:20260601T090000Z",
+        "DTEND:20260601T100000Z",
+        "END:VEVENT",
+        "END:VCALENDAR",
+      ].join("\n")
+    );
+
+    expect(events).toHaveLength(2);
+    expect(events[0]).toMatchObject({
+      summary: "Annual leave",
+      start: d("2026-05-04"),
+      end: d("2026-05-06"),
+    });
+    expect(events[1]).toMatchObject({ start: d("2026-06-01"), end: d("2026-06-01") });
+  });
+
+  it("skips cancelled events and flags unsupported recurrence", () => {
+    const events = parseCalendar(
+      [
+        "BEGIN:VEVENT",
+        "DTSTART;VALUE=DATE:20260701",
+        "STATUS:CANCELLED",
+        "END:VEVENT",
+        "BEGIN:VEVENT",
+        "DTSTART;VALUE=DATE:20260801",
+        "RRULE:FREQ=HOURLY",
+        "END:VEVENT",
+      ].join("\r\n")
+    );
+
+    expect(events).toHaveLength(1);
+    expect(events[0].unsupportedRecurrence).toBe(true);
+    expect(events[0].recurrencePattern).toBeUndefined();
+  });
+});
@@ -0,0 +1,103 @@
+/**
+ * CAP Effectiveness Review Tests
+ *
+ * Tests for scheduling effectiveness reviews, suggesting their outcome and
+ * summarising effectiveness rates.
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  effectivenessRecheckDate,
+  effectivenessReviewDate,
+  emptyEffectivenessChecklist,
+  suggestEffectivenessOutcome,
+  summarizeEffectiveness,
+  unansweredChecklistItems,
+  validateEffectivenessOutcome,
+  type EffectivenessAnswer,
+  type EffectivenessChecklistItem,
+  type EffectivenessChecklistKey,
+} from "@/lib/cap/effectiveness";
+
+function checklist(
+  answers: Partial<Record<EffectivenessChecklistKey, EffectivenessAnswer>> = {}
+): EffectivenessChecklistItem[] {
+  return emptyEffectivenessChecklist().map((item) => ({
+    ...item,
+    answer: answers[item.key] ?? "YES",
+  }));
+}
+
+describe("CAP effectiveness reviews", () => {
+  describe("effectivenessReviewDate", () => {
+    it("waits longer for less severe findings", () => {
+      const closedAt = new Date("2026-01-15T10:00:00Z");
+
+      expect(effectivenessReviewDate(closedAt, "CRITICAL").toISOString()).toBe(
+        "2026-04-15T10:00:00.000Z"
+      );
+      expect(effectivenessReviewDate(closedAt, "MAJOR").toISOString()).toBe(
+        "2026-07-15T10:00:00.000Z"
+      );
+      expect(effectivenessReviewDate(closedAt, "MINOR").toISOString()).toBe(
+        "2027-01-15T10:00:00.000Z"
+      );
+    });
+
+    it("clamps to the end of shorter months", () => {
+      expect(
+        effectivenessRecheckDate(new Date("2026-11-30T00:00:00Z")).toISOString()
+      ).toBe("2027-02-28T00:00:00.000Z");
+    });
+  });
+
+  describe("suggestEffectivenessOutcome", () => {
+    it("is effective when every check passes or does not apply", () => {
+      expect(suggestEffectivenessOutcome(checklist({ STAFF_TRAINED: "NA" }))).toBe("EFFECTIVE");
+    });
+
+    it("is partially effective when a supporting check fails", () => {
+      expect(suggestEffectivenessOutcome(checklist({ PROCEDURES_UPDATED: "NO" }))).toBe(
+        "PARTIALLY_EFFECTIVE"
+      );
+    });
+
+    it("is ineffective when the deficiency recurred", () => {
+      expect(
+        suggestEffectivenessOutcome(checklist({ NO_RECURRENCE: "NO", STAFF_TRAINED: "NO" }))
+      ).toBe("INEFFECTIVE");
+    });
+  });
+
+  describe("validateEffectivenessOutcome", () => {
+    it("requires every checklist item to be answered", () => {
+      const items = emptyEffectivenessChecklist();
+      items[0].answer = "YES";
+
+      expect(unansweredChecklistItems(items)).toHaveLength(5);
+      expect(validateEffectivenessOutcome(items, "EFFECTIVE")).toContain("not answered");
+    });
+
+    it("refuses an effective rating when actions are no longer in place", () => {
+      const items = checklist({ ACTIONS_IN_PLACE: "NO" });
+
+      expect(validateEffectivenessOutcome(items, "EFFECTIVE")).not.toBeNull();
+      expect(validateEffectivenessOutcome(items, "PARTIALLY_EFFECTIVE")).toBeNull();
+    });
+  });
+
+  describe("summarizeEffectiveness", () => {
+    it("counts outcomes and the share rated effective", () => {
+      expect(
+        summarizeEffectiveness(["EFFECTIVE", "EFFECTIVE", "PARTIALLY_EFFECTIVE", "INEFFECTIVE"])
+      ).toEqual({
+        completed: 4,
+        effective: 2,
+        partiallyEffective: 1,
+        ineffective: 1,
+        effectivenessRate: 50,
+      });
+      expect(summarizeEffectiveness([]).effectivenessRate).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,81 @@
+/**
+ * CAP Extension Tests
+ *
+ * Tests for extension request validation, status transitions and the
+ * day counts used to extend SLAs.
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  extensionDays,
+  isExtensionPending,
+  isValidExtensionTransition,
+  originalDueDate,
+  validateExtensionRequest,
+} from "@/lib/cap/extension";
+
+const d = (iso: string) => new Date(`${iso}T00:00:00Z`);
+
+describe("extensionDays", () => {
+  it("counts whole calendar days", () => {
+    expect(extensionDays(d("2026-03-01"), d("2026-03-31"))).toBe(30);
+    expect(extensionDays(new Date("2026-03-01T23:00:00Z"), new Date("2026-03-02T01:00:00Z"))).toBe(1);
+  });
+
+  it("is negative for an earlier date", () => {
+    expect(extensionDays(d("2026-03-10"), d("2026-03-01"))).toBe(-9);
+  });
+});
+
+describe("validateExtensionRequest", () => {
+  const cap = { status: "IN_PROGRESS" as const, dueDate: d("2026-03-01"), hasPendingExtension: false };
+
+  it("accepts a later date on an accepted CAP", () => {
+    expect(validateExtensionRequest(cap, d("2026-04-01"))).toBeNull();
+  });
+
+  it("rejects CAPs that are not accepted or already verified", () => {
+    expect(validateExtensionRequest({ ...cap, status: "SUBMITTED" }, d("2026-04-01"))).not.toBeNull();
+    expect(validateExtensionRequest({ ...cap, status: "CLOSED" }, d("2026-04-01"))).not.toBeNull();
+  });
+
+  it("rejects a second pending request", () => {
+    expect(
+      validateExtensionRequest({ ...cap, hasPendingExtension: true }, d("2026-04-01"))
+    ).toMatch(/already pending/);
+  });
+
+  it("rejects dates that do not move the deadline or move it too far", () => {
+    expect(validateExtensionRequest(cap, d("2026-03-01"))).toMatch(/after the current due date/);
+    expect(validateExtensionRequest(cap, d("2027-03-02"))).toMatch(/cannot exceed/);
+  });
+});
+
+describe("extension transitions", () => {
+  it("lets a coordinator decide an endorsed request", () => {
+    expect(isValidExtensionTransition("PENDING", "ENDORSED")).toBe(true);
+    expect(isValidExtensionTransition("ENDORSED", "APPROVED")).toBe(true);
+    expect(isValidExtensionTransition("ENDORSED", "REJECTED")).toBe(true);
+  });
+
+  it("treats decided requests as final", () => {
+    expect(isValidExtensionTransition("APPROVED", "REJECTED")).toBe(false);
+    expect(isValidExtensionTransition("WITHDRAWN", "PENDING")).toBe(false);
+    expect(isValidExtensionTransition("ENDORSED", "ENDORSED")).toBe(false);
+  });
+
+  it("suspends escalation only while awaiting a decision", () => {
+    expect(isExtensionPending("PENDING")).toBe(true);
+    expect(isExtensionPending("ENDORSED")).toBe(true);
+    expect(isExtensionPending("APPROVED")).toBe(false);
+  });
+});
+
+describe("originalDueDate", () => {
+  it("keeps the first committed date once extended", () => {
+    expect(originalDueDate({ dueDate: d("2026-05-01"), originalDueDate: d("2026-03-01") })).toEqual(
+      d("2026-03-01")
+    );
+    expect(originalDueDate({ dueDate: d("2026-05-01"), originalDueDate: null })).toEqual(d("2026-05-01"));
+  });
+});
@@ -0,0 +1,109 @@
+/**
+ * CAP Portfolio Tests
+ *
+ * Tests for the open-findings burndown and the Gantt timeline helpers.
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  buildFindingBurndown,
+  capGanttSpan,
+  ganttOffset,
+  ganttRange,
+  type BurndownFinding,
+} from "@/lib/cap/portfolio";
+
+const d = (iso: string) => new Date(`${iso}T00:00:00Z`);
+
+describe("buildFindingBurndown", () => {
+  const findings: BurndownFinding[] = [
+    { severity: "CRITICAL", identifiedAt: d("2026-01-01"), closedAt: d("2026-01-20") },
+    { severity: "MAJOR", identifiedAt: d("2026-01-05"), closedAt: null },
+    { severity: "MINOR", identifiedAt: d("2026-01-10"), closedAt: null },
+  ];
+
+  it("counts findings open at the end of each point by severity", () => {
+    const points = buildFindingBurndown(findings, d("2026-01-01"), d("2026-01-29"));
+
+    expect(points.map((p) => p.date)).toEqual([
+      "2026-01-01",
+      "2026-01-08",
+      "2026-01-15",
+      "2026-01-22",
+      "2026-01-29",
+    ]);
+    expect(points.map((p) => p.total)).toEqual([1, 2, 3, 2, 2]);
+    expect(points[2]).toMatchObject({ CRITICAL: 1, MAJOR: 1, MINOR: 1, OBSERVATION: 0 });
+    expect(points[3]).toMatchObject({ CRITICAL: 0, MAJOR: 1, MINOR: 1 });
+  });
+
+  it("counts a finding closed during a day as no longer open that day", () => {
+    const [point] = buildFindingBurndown(
+      [{ severity: "MAJOR", identifiedAt: d("2026-01-01"), closedAt: new Date("2026-01-10T15:00:00Z") }],
+      d("2026-01-10"),
+      d("2026-01-10")
+    );
+
+    expect(point.total).toBe(0);
+  });
+
+  it("widens the step to stay within 60 points", () => {
+    const points = buildFindingBurndown([], d("2020-01-01"), d("2026-01-01"));
+
+    expect(points.length).toBeLessThanOrEqual(60);
+    expect(points[points.length - 1].date).toBe("2026-01-01");
+  });
+
+  it("returns nothing for a reversed range", () => {
+    expect(buildFindingBurndown(findings, d("2026-02-01"), d("2026-01-01"))).toEqual([]);
+  });
+});
+
+describe("capGanttSpan", () => {
+  it("runs from acceptance to the due date", () => {
+    const span = capGanttSpan({
+      createdAt: d("2026-01-01"),
+      acceptedAt: d("2026-01-15"),
+      dueDate: d("2026-04-01"),
+      closedAt: null,
+    });
+
+    expect(span).toEqual({ start: d("2026-01-15"), end: d("2026-04-01") });
+  });
+
+  it("starts at creation before acceptance and extends to a late closure", () => {
+    const span = capGanttSpan({
+      createdAt: d("2026-01-01"),
+      acceptedAt: null,
+      dueDate: d("2026-03-01"),
+      closedAt: d("2026-05-01"),
+    });
+
+    expect(span).toEqual({ start: d("2026-01-01"), end: d("2026-05-01") });
+  });
+});
+
+describe("ganttRange and ganttOffset", () => {
+  const range = ganttRange(
+    [{ start: d("2026-01-15"), end: d("2026-02-10") }],
+    d("2026-01-20")
+  );
+
+  it("covers whole months", () => {
+    expect(range.start).toEqual(d("2026-01-01"));
+    expect(range.end).toEqual(d("2026-03-01"));
+    expect(range.months).toEqual([d("2026-01-01"), d("2026-02-01")]);
+  });
+
+  it("includes today even when no span reaches it", () => {
+    const withToday = ganttRange([{ start: d("2026-01-15"), end: d("2026-02-10") }], d("2026-06-03"));
+    expect(withToday.end).toEqual(d("2026-07-01"));
+  });
+
+  it("positions dates as a clamped percentage", () => {
+    expect(ganttOffset(d("2026-01-01"), range)).toBe(0);
+    expect(ganttOffset(d("2026-02-01"), range)).toBe(52.54);
+    expect(ganttOffset(d("2025-12-01"), range)).toBe(0);
+    expect(ganttOffset(d("2026-04-01"), range)).toBe(100);
+  });
+});
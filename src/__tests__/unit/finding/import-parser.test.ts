@@ -0,0 +1,158 @@
+/**
+ * Finding Import Parser Tests
+ *
+ * Tests for reading findings from spreadsheets and validating them against
+ * a review.
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  buildFindingImportTemplate,
+  parseFindingSpreadsheet,
+  validateFindingImportRow,
+  validateFindingImportRows,
+  type FindingImportContext,
+  type FindingImportRow,
+} from "@/lib/finding/import-parser";
+
+const context: FindingImportContext = {
+  areasInScope: ["ATS", "AIS"],
+  questions: new Map([
+    [
+      "ANS 3.045",
+      { id: "q1", pqNumber: "ANS 3.045", reviewArea: "ATS", criticalElement: "CE_4" },
+    ],
+  ]),
+};
+
+function row(patch: Partial<FindingImportRow> = {}): FindingImportRow {
+  return {
+    row: 2,
+    titleEn: "Controller licences not checked",
+    titleFr: "Licences des contrôleurs non vérifiées",
+    descriptionEn: "Licence validity is not verified before rostering controllers.",
+    descriptionFr: "La validité des licences n'est pas vérifiée avant la planification.",
+    findingType: "Non-conformity",
+    ...patch,
+  };
+}
+
+describe("finding import", () => {
+  describe("parseFindingSpreadsheet", () => {
+    it("reads French headings below a banner row", () => {
+      const csv = [
+        "Constatations - revue ANSP",
+        "Titre (EN),Titre (FR),Description (EN),Description (FR),Domaine,Élément critique,PQ,Gravité",
+        '"Licences, ATS",Licences ATS,Desc en,Desc fr,ATS,CE-4,ANS 3.045,Majeure',
+        ",,,,,,,",
+      ].join("\n");
+
+      const result = parseFindingSpreadsheet(csv);
+
+      expect(result.errors).toEqual([]);
+      expect(result.rows).toEqual([
+        {
+          row: 3,
+          titleEn: "Licences, ATS",
+          titleFr: "Licences ATS",
+          descriptionEn: "Desc en",
+          descriptionFr: "Desc fr",
+          reviewArea: "ATS",
+          criticalElement: "CE-4",
+          pqNumber: "ANS 3.045",
+          severity: "Majeure",
+        },
+      ]);
+    });
+
+    it("accepts its own template headings", () => {
+      const csv = buildFindingImportTemplate() + "A title,Un titre,Description,Description,,,,,,,\n";
+      const result = parseFindingSpreadsheet(csv);
+      expect(result.rows[0]).toMatchObject({ titleEn: "A title", titleFr: "Un titre" });
+    });
+
+    it("reports a file without a title or description column", () => {
+      const result = parseFindingSpreadsheet("Name,Value\nfoo,bar\n");
+      expect(result.rows).toEqual([]);
+      expect(result.errors).toHaveLength(1);
+    });
+  });
+
+  describe("validateFindingImportRow", () => {
+    it("takes the area and critical element from the PQ", () => {
+      const result = validateFindingImportRow(row({ pqNumber: "ans  3.045" }), context);
+
+      expect(result.errors).toEqual([]);
+      expect(result.finding).toMatchObject({
+        questionId: "q1",
+        reviewArea: "ATS",
+        criticalElement: "CE_4",
+        findingType: "NON_CONFORMITY",
+        severity: null,
+      });
+    });
+
+    it("normalises French severities and critical elements", () => {
+      const result = validateFindingImportRow(
+        row({ severity: "Critique", criticalElement: "ce 3", reviewArea: "ais" }),
+        context
+      );
+
+      expect(result.errors).toEqual([]);
+      expect(result.finding).toMatchObject({
+        severity: "CRITICAL",
+        criticalElement: "CE_3",
+        reviewArea: "AIS",
+      });
+    });
+
+    it("rejects unknown severities and critical elements", () => {
+      const result = validateFindingImportRow(
+        row({ severity: "Grave", criticalElement: "CE-9" }),
+        context
+      );
+
+      expect(result.finding).toBeNull();
+      expect(result.errors.map((e) => e.field)).toEqual(["criticalElement", "severity"]);
+    });
+
+    it("rejects areas outside the review scope and unknown PQs", () => {
+      const result = validateFindingImportRow(
+        row({ reviewArea: "MET", pqNumber: "ANS 9.999" }),
+        context
+      );
+
+      expect(result.finding).toBeNull();
+      expect(result.errors.map((e) => e.field)).toEqual(["pqNumber", "reviewArea"]);
+    });
+
+    it("rejects an area that contradicts the PQ", () => {
+      const result = validateFindingImportRow(
+        row({ reviewArea: "AIS", pqNumber: "ANS 3.045" }),
+        context
+      );
+      expect(result.errors[0].message).toContain("belongs to ATS");
+    });
+
+    it("requires bilingual titles and descriptions", () => {
+      const result = validateFindingImportRow(
+        row({ titleFr: undefined, descriptionEn: "Too short" }),
+        context
+      );
+      expect(result.errors.map((e) => e.field)).toEqual(["titleFr", "descriptionEn"]);
+    });
+  });
+
+  describe("validateFindingImportRows", () => {
+    it("warns about repeated titles and missing finding types", () => {
+      const results = validateFindingImportRows(
+        [row(), row({ row: 3, findingType: undefined })],
+        context
+      );
+
+      expect(results[0].warnings).toEqual([]);
+      expect(results[1].warnings).toHaveLength(2);
+      expect(results[1].finding?.findingType).toBe("OBSERVATION");
+    });
+  });
+});
@@ -0,0 +1,126 @@
+/**
+ * Recurring Finding Detection Tests
+ *
+ * Tests for matching findings against earlier occurrences and repeat rates.
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  buildPqChain,
+  isRecurrence,
+  scoreRecurrence,
+  summarizeRepeatRates,
+  textSimilarity,
+  type RecurrenceSubject,
+} from "@/lib/finding/recurrence";
+
+function subject(patch: Partial<RecurrenceSubject> = {}): RecurrenceSubject {
+  return {
+    questionId: null,
+    pqNumber: null,
+    criticalElement: null,
+    reviewArea: null,
+    titleEn: "",
+    descriptionEn: "",
+    ...patch,
+  };
+}
+
+describe("recurring finding detection", () => {
+  describe("textSimilarity", () => {
+    it("ignores case, accents, stop words and plurals", () => {
+      expect(
+        textSimilarity("The ATS Procedures are outdated", "ats procedure outdated")
+      ).toBe(1);
+      expect(textSimilarity("Régulation", "regulation")).toBe(1);
+    });
+
+    it("returns 0 for unrelated or empty texts", () => {
+      expect(textSimilarity("radar coverage gaps", "training records missing")).toBe(0);
+      expect(textSimilarity("", "training records")).toBe(0);
+    });
+  });
+
+  describe("buildPqChain", () => {
+    it("follows renumbering across editions in both directions", () => {
+      const questions = [
+        { pqNumber: "ATS 2.010", previousPqNumber: "ATS 1.010" },
+        { pqNumber: "ATS 3.005", previousPqNumber: "ATS 2.010" },
+        { pqNumber: "ATS 3.006", previousPqNumber: null },
+      ];
+
+      expect(buildPqChain("ATS 2.010", questions)).toEqual(
+        new Set(["ATS 1.010", "ATS 2.010", "ATS 3.005"])
+      );
+      expect(buildPqChain("ATS 3.006", questions)).toEqual(new Set(["ATS 3.006"]));
+    });
+  });
+
+  describe("scoreRecurrence", () => {
+    it("proposes findings against the same question", () => {
+      const match = scoreRecurrence(
+        subject({ questionId: "q1", reviewArea: "ATS" }),
+        subject({ questionId: "q1", reviewArea: "ATS" })
+      );
+
+      expect(match.reasons).toEqual(["SAME_QUESTION", "SAME_REVIEW_AREA"]);
+      expect(match.score).toBe(0.7);
+      expect(isRecurrence(match)).toBe(true);
+    });
+
+    it("matches an earlier edition's PQ through the chain", () => {
+      const match = scoreRecurrence(
+        subject({ questionId: "q2" }),
+        subject({ questionId: "q1", pqNumber: "ATS 1.010" }),
+        new Set(["ATS 1.010", "ATS 2.010"])
+      );
+
+      expect(match.reasons).toEqual(["PQ_CHAIN"]);
+      expect(isRecurrence(match)).toBe(true);
+    });
+
+    it("needs more than a shared area and critical element", () => {
+      const match = scoreRecurrence(
+        subject({ criticalElement: "CE_4", reviewArea: "AIS" }),
+        subject({ criticalElement: "CE_4", reviewArea: "AIS" })
+      );
+
+      expect(isRecurrence(match)).toBe(false);
+    });
+
+    it("combines similar wording with the critical element", () => {
+      const text = {
+        titleEn: "Controller licensing records incomplete",
+        descriptionEn: "Licence validity checks are not documented for controllers.",
+      };
+      const match = scoreRecurrence(
+        subject({ ...text, criticalElement: "CE_4" }),
+        subject({ ...text, criticalElement: "CE_4" })
+      );
+
+      expect(match.reasons).toEqual(["SAME_CRITICAL_ELEMENT", "SIMILAR_TEXT"]);
+      expect(match.textSimilarity).toBe(1);
+      expect(match.score).toBe(0.65);
+      expect(isRecurrence(match)).toBe(true);
+    });
+  });
+
+  describe("summarizeRepeatRates", () => {
+    it("computes the repeat share per group, highest first", () => {
+      const rates = summarizeRepeatRates([
+        { key: "ATS", isRepeat: true },
+        { key: "ATS", isRepeat: false },
+        { key: "AIS", isRepeat: false },
+        { key: "MET", isRepeat: true },
+        { key: "MET", isRepeat: true },
+        { key: "MET", isRepeat: false },
+      ]);
+
+      expect(rates).toEqual([
+        { key: "MET", total: 3, repeats: 2, rate: 66.7 },
+        { key: "ATS", total: 2, repeats: 1, rate: 50 },
+        { key: "AIS", total: 1, repeats: 0, rate: 0 },
+      ]);
+    });
+  });
+});
@@ -0,0 +1,120 @@
+/**
+ * Severity Rules Tests
+ *
+ * Tests for configurable severity rule sets and the suggestion they drive.
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  DEFAULT_SEVERITY_RULES,
+  parseSeverityRules,
+  resolveSeverityRules,
+  severityForScore,
+  severityRuleConfigSchema,
+  summarizeSeverityChanges,
+  type SeverityRuleConfig,
+} from "@/lib/finding/severity-rules";
+import { calculateSeveritySuggestion } from "@/lib/finding/severity-suggestion";
+
+function withRules(patch: Partial<SeverityRuleConfig>): SeverityRuleConfig {
+  return { ...DEFAULT_SEVERITY_RULES, ...patch };
+}
+
+describe("severity rules", () => {
+  describe("severityForScore", () => {
+    const rules = resolveSeverityRules(DEFAULT_SEVERITY_RULES);
+
+    it("maps scores to the default thresholds", () => {
+      expect(severityForScore(0, rules)).toBe("OBSERVATION");
+      expect(severityForScore(2, rules)).toBe("MINOR");
+      expect(severityForScore(5, rules)).toBe("MAJOR");
+      expect(severityForScore(8, rules)).toBe("CRITICAL");
+    });
+
+    it("raises the severity to the area minimum", () => {
+      const config = withRules({ areaOverrides: { ATS: { minimumSeverity: "MAJOR" } } });
+      expect(severityForScore(0, resolveSeverityRules(config, "ATS"))).toBe("MAJOR");
+      expect(severityForScore(9, resolveSeverityRules(config, "ATS"))).toBe("CRITICAL");
+      expect(severityForScore(0, resolveSeverityRules(config, "MET"))).toBe("OBSERVATION");
+    });
+  });
+
+  describe("resolveSeverityRules", () => {
+    it("merges area weights and thresholds over the base rules", () => {
+      const config = withRules({
+        areaOverrides: { SAR: { weights: { priorityPQ: 5 }, thresholds: { MAJOR: 4 } } },
+      });
+      const resolved = resolveSeverityRules(config, "SAR");
+
+      expect(resolved.weights.priorityPQ).toBe(5);
+      expect(resolved.weights.icaoStandard).toBe(DEFAULT_SEVERITY_RULES.weights.icaoStandard);
+      expect(resolved.thresholds).toEqual({ CRITICAL: 8, MAJOR: 4, MINOR: 2 });
+    });
+  });
+
+  describe("parseSeverityRules", () => {
+    it("accepts a valid stored config", () => {
+      const config = withRules({ thresholds: { CRITICAL: 10, MAJOR: 6, MINOR: 3 } });
+      expect(parseSeverityRules(JSON.parse(JSON.stringify(config)))).toEqual(config);
+    });
+
+    it("falls back to the defaults for invalid configs", () => {
+      expect(parseSeverityRules(null)).toBe(DEFAULT_SEVERITY_RULES);
+      expect(
+        parseSeverityRules(withRules({ thresholds: { CRITICAL: 2, MAJOR: 5, MINOR: 8 } }))
+      ).toBe(DEFAULT_SEVERITY_RULES);
+    });
+
+    it("rejects overrides for unknown review areas", () => {
+      const result = severityRuleConfigSchema.safeParse({
+        ...DEFAULT_SEVERITY_RULES,
+        areaOverrides: { XYZ: { minimumSeverity: "MAJOR" } },
+      });
+      expect(result.success).toBe(false);
+    });
+  });
+
+  describe("calculateSeveritySuggestion", () => {
+    const input = {
+      findingType: "NON_CONFORMITY" as const,
+      icaoReference: "Annex 11 Standard 2.27",
+      descriptionEn: "The procedure is not documented.",
+    };
+
+    it("matches the original calculator with the default rules", () => {
+      const suggestion = calculateSeveritySuggestion(input);
+      expect(suggestion.score).toBe(5);
+      expect(suggestion.suggested).toBe("MAJOR");
+    });
+
+    it("uses the weights and thresholds of the given rule set", () => {
+      const config = withRules({
+        weights: { ...DEFAULT_SEVERITY_RULES.weights, icaoStandard: 6 },
+      });
+      const suggestion = calculateSeveritySuggestion(input, config);
+      expect(suggestion.score).toBe(8);
+      expect(suggestion.suggested).toBe("CRITICAL");
+    });
+
+    it("adds the priority PQ factor", () => {
+      const suggestion = calculateSeveritySuggestion({ ...input, isPriorityPQ: true });
+      expect(suggestion.factors.some((f) => f.id === "priority_pq")).toBe(true);
+      expect(suggestion.score).toBe(7);
+    });
+  });
+
+  describe("summarizeSeverityChanges", () => {
+    it("counts raised, lowered and unchanged severities", () => {
+      const summary = summarizeSeverityChanges([
+        { from: "MINOR", to: "MAJOR" },
+        { from: "CRITICAL", to: "MAJOR" },
+        { from: "MINOR", to: "MINOR" },
+      ]);
+
+      expect(summary).toMatchObject({ total: 3, changed: 2, raised: 1, lowered: 1 });
+      expect(summary.transitions.MINOR.MAJOR).toBe(1);
+      expect(summary.transitions.MINOR.MINOR).toBe(1);
+      expect(summary.transitions.CRITICAL.MAJOR).toBe(1);
+    });
+  });
+});
@@ -0,0 +1,108 @@
+/**
+ * Cron Schedule Tests
+ *
+ * Tests for cron expression parsing, next/previous occurrences and the
+ * due and overdue checks used by the job scheduler.
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  dueOccurrence,
+  isJobOverdue,
+  isValidCron,
+  nextOccurrence,
+  parseCron,
+  previousOccurrence,
+} from "@/lib/jobs/cron";
+
+const utc = (iso: string) => new Date(`${iso}Z`);
+
+describe("parseCron", () => {
+  it("expands lists, ranges and steps", () => {
+    const schedule = parseCron("*/15 8-10 1,15 * 1-5");
+    expect([...schedule.minutes]).toEqual([0, 15, 30, 45]);
+    expect([...schedule.hours]).toEqual([8, 9, 10]);
+    expect([...schedule.daysOfMonth]).toEqual([1, 15]);
+    expect(schedule.months.size).toBe(12);
+    expect(schedule.dayOrWeekday).toBe(true);
+  });
+
+  it("treats 7 as Sunday", () => {
+    expect([...parseCron("0 0 * * 7").daysOfWeek]).toEqual([0]);
+  });
+
+  it("rejects malformed expressions", () => {
+    expect(isValidCron("0 8 * *")).toBe(false);
+    expect(isValidCron("60 * * * *")).toBe(false);
+    expect(isValidCron("*/0 * * * *")).toBe(false);
+    expect(isValidCron("0 10-8 * * *")).toBe(false);
+    expect(isValidCron("0 8 * * *")).toBe(true);
+  });
+});
+
+describe("occurrences", () => {
+  it("finds the next run strictly after a time", () => {
+    expect(nextOccurrence("0 8 * * *", utc("2026-03-01T08:00:00"))).toEqual(
+      utc("2026-03-02T08:00:00")
+    );
+    expect(nextOccurrence("*/5 * * * *", utc("2026-03-01T08:02:30"))).toEqual(
+      utc("2026-03-01T08:05:00")
+    );
+  });
+
+  it("finds the latest run at or before a time across month boundaries", () => {
+    expect(previousOccurrence("0 2 * * *", utc("2026-03-01T01:00:00"))).toEqual(
+      utc("2026-02-28T02:00:00")
+    );
+    expect(previousOccurrence("0 4 * * 0", utc("2026-03-04T12:00:00"))).toEqual(
+      utc("2026-03-01T04:00:00")
+    );
+  });
+
+  it("matches either day field when both are restricted", () => {
+    // 1st of the month or any Monday
+    expect(nextOccurrence("0 0 1 * 1", utc("2026-03-01T00:00:00"))).toEqual(
+      utc("2026-03-02T00:00:00")
+    );
+  });
+});
+
+describe("dueOccurrence", () => {
+  it("returns the latest occurrence only once", () => {
+    const now = utc("2026-03-01T08:03:00");
+    expect(dueOccurrence("0 8 * * *", null, now)).toEqual(utc("2026-03-01T08:00:00"));
+    expect(dueOccurrence("0 8 * * *", utc("2026-03-01T08:00:00"), now)).toBeNull();
+  });
+});
+
+describe("isJobOverdue", () => {
+  const base = {
+    schedule: "0 8 * * *",
+    registeredAt: utc("2026-01-01T00:00:00"),
+    graceMinutes: 30,
+  };
+
+  it("allows the current run its grace period", () => {
+    expect(
+      isJobOverdue({ ...base, lastSuccessAt: utc("2026-02-28T08:01:00"), now: utc("2026-03-01T08:20:00") })
+    ).toBe(false);
+  });
+
+  it("flags a job whose last success predates the expected run", () => {
+    expect(
+      isJobOverdue({ ...base, lastSuccessAt: utc("2026-02-28T08:01:00"), now: utc("2026-03-01T09:00:00") })
+    ).toBe(true);
+    expect(isJobOverdue({ ...base, lastSuccessAt: null, now: utc("2026-03-01T09:00:00") })).toBe(true);
+  });
+
+  it("expects nothing before the job was registered", () => {
+    expect(
+      isJobOverdue({
+        ...base,
+        registeredAt: utc("2026-03-01T09:00:00"),
+        lastSuccessAt: null,
+        now: utc("2026-03-01T12:00:00"),
+      })
+    ).toBe(false);
+  });
+});
@@ -0,0 +1,155 @@
+/**
+ * Join Request Token Tests
+ *
+ * Tests for the signed applicant status and form tokens, and the spam
+ * check on public application submissions (honeypot and form fill time).
+ */
+
+import { describe, it, expect, beforeAll } from "vitest";
+import {
+  createJoinFormToken,
+  createJoinRequestStatusToken,
+  isAutomatedSubmission,
+  MIN_FORM_FILL_MS,
+  verifyJoinFormToken,
+  verifyJoinRequestStatusToken,
+} from "@/server/services/join-request-token";
+import { joinApplicationSchema } from "@/lib/validations/join-request";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const now = new Date("2026-03-01T10:00:00Z");
+const later = (ms: number) => new Date(now.getTime() + ms);
+
+function tamper(token: string): string {
+  const [payload, signature] = token.split(".");
+  const decoded = JSON.parse(
+    Buffer.from(payload, "base64url").toString("utf8"),
+  );
+  const forged = Buffer.from(
+    JSON.stringify({ ...decoded, iat: 0, rid: "other" }),
+  ).toString("base64url");
+  return `${forged}.${signature}`;
+}
+
+beforeAll(() => {
+  process.env.AUTH_SECRET = "test-secret";
+});
+
+describe("status tokens", () => {
+  it("round-trips the join request id", () => {
+    const token = createJoinRequestStatusToken("jr-1", now);
+    expect(verifyJoinRequestStatusToken(token, later(DAY_MS))).toBe("jr-1");
+  });
+
+  it("expires after a year", () => {
+    const token = createJoinRequestStatusToken("jr-1", now);
+    expect(verifyJoinRequestStatusToken(token, later(366 * DAY_MS))).toBeNull();
+  });
+
+  it("rejects tampered and malformed tokens", () => {
+    const token = createJoinRequestStatusToken("jr-1", now);
+    expect(verifyJoinRequestStatusToken(tamper(token), now)).toBeNull();
+    expect(verifyJoinRequestStatusToken("not-a-token", now)).toBeNull();
+    expect(verifyJoinRequestStatusToken(`${token}.extra`, now)).toBeNull();
+  });
+
+  it("is not accepted as a form token", () => {
+    const token = createJoinRequestStatusToken("jr-1", now);
+    expect(verifyJoinFormToken(token, now)).toBeNull();
+  });
+});
+
+describe("form tokens", () => {
+  it("round-trips the time the form was opened", () => {
+    const token = createJoinFormToken(now);
+    expect(verifyJoinFormToken(token, later(60_000))).toBe(now.getTime());
+  });
+
+  it("expires after a day", () => {
+    const token = createJoinFormToken(now);
+    expect(verifyJoinFormToken(token, later(DAY_MS + 1))).toBeNull();
+  });
+
+  it("rejects tokens issued in the future or with a forged time", () => {
+    expect(
+      verifyJoinFormToken(createJoinFormToken(later(60_000)), now),
+    ).toBeNull();
+    expect(
+      verifyJoinFormToken(tamper(createJoinFormToken(now)), later(60_000)),
+    ).toBeNull();
+  });
+});
+
+describe("isAutomatedSubmission", () => {
+  const formToken = () => createJoinFormToken(now);
+
+  it("accepts a form filled by a person", () => {
+    expect(
+      isAutomatedSubmission(
+        { formToken: formToken() },
+        later(MIN_FORM_FILL_MS),
+      ),
+    ).toBe(false);
+    expect(
+      isAutomatedSubmission(
+        { website: "", formToken: formToken() },
+        later(60_000),
+      ),
+    ).toBe(false);
+  });
+
+  it("flags a filled honeypot", () => {
+    expect(
+      isAutomatedSubmission(
+        { website: "https://spam.example", formToken: formToken() },
+        later(60_000),
+      ),
+    ).toBe(true);
+  });
+
+  it("flags a form submitted too fast", () => {
+    expect(
+      isAutomatedSubmission(
+        { formToken: formToken() },
+        later(MIN_FORM_FILL_MS - 1),
+      ),
+    ).toBe(true);
+  });
+
+  it("flags a missing or forged form token", () => {
+    expect(isAutomatedSubmission({ formToken: "" }, later(60_000))).toBe(true);
+    expect(
+      isAutomatedSubmission({ formToken: tamper(formToken()) }, later(60_000)),
+    ).toBe(true);
+  });
+});
+
+describe("joinApplicationSchema honeypot", () => {
+  const application = {
+    organizationName: "Example ANSP",
+    organizationCountry: "Kenya",
+    contactName: "Jane Doe",
+    contactJobTitle: "Safety Manager",
+    contactEmail: "jane@example.org",
+    currentSmsMaturity: "C",
+    motivationStatement: "x".repeat(120),
+    proposedReviewerCount: 2,
+    preferredLanguage: "en",
+    formToken: "token",
+  };
+
+  it("accepts an empty honeypot", () => {
+    expect(
+      joinApplicationSchema.safeParse({ ...application, website: "" }).success,
+    ).toBe(true);
+  });
+
+  it("rejects a filled honeypot", () => {
+    expect(
+      joinApplicationSchema.safeParse({
+        ...application,
+        website: "https://spam.example",
+      }).success,
+    ).toBe(false);
+  });
+});
@@ -0,0 +1,111 @@
+/**
+ * Mentorship Lifecycle Tests
+ *
+ * Tests for mentorship status transitions, side resolution, plan
+ * agreement checks, milestone progress and the regional summary.
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  isValidMentorshipTransition,
+  mentorshipSide,
+  milestoneProgress,
+  summarizeByRegion,
+  validatePlanForAgreement,
+} from "@/lib/mentorship/lifecycle";
+
+describe("isValidMentorshipTransition", () => {
+  it("follows the lifecycle", () => {
+    expect(isValidMentorshipTransition("PENDING", "ACCEPTED")).toBe(true);
+    expect(isValidMentorshipTransition("PENDING", "DECLINED")).toBe(true);
+    expect(isValidMentorshipTransition("ACCEPTED", "ACTIVE")).toBe(true);
+    expect(isValidMentorshipTransition("ACTIVE", "COMPLETED")).toBe(true);
+    expect(isValidMentorshipTransition("ACTIVE", "CANCELLED")).toBe(true);
+  });
+
+  it("rejects skipped and terminal transitions", () => {
+    expect(isValidMentorshipTransition("PENDING", "ACTIVE")).toBe(false);
+    expect(isValidMentorshipTransition("ACCEPTED", "COMPLETED")).toBe(false);
+    expect(isValidMentorshipTransition("ACTIVE", "DECLINED")).toBe(false);
+    expect(isValidMentorshipTransition("COMPLETED", "CANCELLED")).toBe(false);
+    expect(isValidMentorshipTransition("DECLINED", "ACCEPTED")).toBe(false);
+  });
+});
+
+describe("mentorshipSide", () => {
+  const mentorship = { requestingOrgId: "org-mentee", targetOrgId: "org-mentor" };
+
+  it("resolves the organization's side", () => {
+    expect(mentorshipSide(mentorship, "org-mentor")).toBe("MENTOR");
+    expect(mentorshipSide(mentorship, "org-mentee")).toBe("MENTEE");
+    expect(mentorshipSide(mentorship, "org-other")).toBeNull();
+    expect(mentorshipSide(mentorship, null)).toBeNull();
+  });
+});
+
+describe("validatePlanForAgreement", () => {
+  const plan = {
+    planObjectives: "Implement safety reporting culture",
+    planStartDate: new Date("2026-03-01"),
+    planEndDate: new Date("2026-09-01"),
+    milestoneCount: 2,
+  };
+
+  it("accepts a complete plan", () => {
+    expect(validatePlanForAgreement(plan)).toBeNull();
+  });
+
+  it("requires objectives, ordered dates and milestones", () => {
+    expect(validatePlanForAgreement({ ...plan, planObjectives: "  " })).toMatch(/objectives/);
+    expect(validatePlanForAgreement({ ...plan, planEndDate: null })).toMatch(/start and end/);
+    expect(
+      validatePlanForAgreement({ ...plan, planEndDate: new Date("2026-02-01") })
+    ).toMatch(/after its start/);
+    expect(validatePlanForAgreement({ ...plan, milestoneCount: 0 })).toMatch(/milestone/);
+  });
+});
+
+describe("milestoneProgress", () => {
+  it("counts completed and overdue milestones", () => {
+    const now = new Date("2026-05-01");
+    const progress = milestoneProgress(
+      [
+        { dueDate: new Date("2026-04-01"), completedAt: new Date("2026-03-30") },
+        { dueDate: new Date("2026-04-15"), completedAt: null },
+        { dueDate: new Date("2026-06-01"), completedAt: null },
+        { dueDate: null, completedAt: null },
+      ],
+      now
+    );
+
+    expect(progress).toEqual({ total: 4, completed: 1, overdue: 1, percent: 25 });
+  });
+
+  it("reports no progress without milestones", () => {
+    expect(milestoneProgress([]).percent).toBe(0);
+  });
+});
+
+describe("summarizeByRegion", () => {
+  it("counts mentorships by mentee region", () => {
+    const summary = summarizeByRegion([
+      { status: "ACTIVE", menteeRegion: "WACAF", mentorRegion: "ESAF" },
+      { status: "ACTIVE", menteeRegion: "WACAF", mentorRegion: "WACAF" },
+      { status: "PENDING", menteeRegion: "WACAF", mentorRegion: "WACAF" },
+      { status: "DECLINED", menteeRegion: "WACAF", mentorRegion: "NORTHERN" },
+      { status: "COMPLETED", menteeRegion: "ESAF", mentorRegion: "NORTHERN" },
+    ]);
+
+    const wacaf = summary.find((r) => r.region === "WACAF");
+    expect(wacaf).toEqual({
+      region: "WACAF",
+      pending: 1,
+      planning: 0,
+      active: 2,
+      completed: 0,
+      crossRegional: 1,
+    });
+    expect(summary.find((r) => r.region === "ESAF")?.crossRegional).toBe(1);
+    expect(summary.find((r) => r.region === "NORTHERN")?.active).toBe(0);
+  });
+});
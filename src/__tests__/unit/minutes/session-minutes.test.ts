@@ -0,0 +1,101 @@
+/**
+ * Session Minutes Tests
+ *
+ * Tests for meeting templates, stored content parsing and the checks run
+ * before minutes are signed.
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  applyTemplateAgenda,
+  getMinutesTemplate,
+  parseAgenda,
+  parseDecisions,
+  validateMinutesForSigning,
+  type MinutesForSigning,
+} from "@/lib/minutes/session-minutes";
+
+describe("applyTemplateAgenda", () => {
+  it("provides templates for closing and debrief meetings only", () => {
+    expect(getMinutesTemplate("CLOSING")?.requiresHostAttendance).toBe(true);
+    expect(getMinutesTemplate("DEBRIEF")?.requiresHostAttendance).toBe(false);
+    expect(getMinutesTemplate("FIELDWORK")).toBeNull();
+  });
+
+  it("appends template items in the requested language", () => {
+    const agenda = applyTemplateAgenda([], "DEBRIEF", "fr");
+    expect(agenda[0]).toEqual({
+      title: "Synthèse des travaux sur le terrain par domaine",
+      notes: "",
+    });
+    expect(agenda).toHaveLength(getMinutesTemplate("DEBRIEF")!.agenda.length);
+  });
+
+  it("keeps existing items and skips duplicates", () => {
+    const existing = [
+      { title: "Local arrangements", notes: "Transport" },
+      { title: "closing remarks", notes: "" },
+    ];
+    const agenda = applyTemplateAgenda(existing, "CLOSING", "en");
+
+    expect(agenda.slice(0, 2)).toEqual(existing);
+    expect(agenda.filter((item) => /closing remarks/i.test(item.title))).toHaveLength(1);
+    expect(applyTemplateAgenda(existing, "REMOTE", "en")).toBe(existing);
+  });
+});
+
+describe("parseAgenda / parseDecisions", () => {
+  it("drops malformed entries", () => {
+    expect(parseAgenda([{ title: "Opening" }, { notes: "orphan" }, "text", null])).toEqual([
+      { title: "Opening", notes: "" },
+    ]);
+    expect(parseAgenda({})).toEqual([]);
+    expect(parseDecisions(["Agreed", 3, null])).toEqual(["Agreed"]);
+  });
+});
+
+describe("validateMinutesForSigning", () => {
+  const minutes: MinutesForSigning = {
+    sessionType: "CLOSING",
+    sessionStatus: "COMPLETED",
+    sessionDate: new Date("2026-05-14T15:00:00Z"),
+    agenda: [{ title: "Presentation of preliminary findings", notes: "" }],
+    attendees: [
+      { side: "REVIEW_TEAM", isPresent: true },
+      { side: "HOST_ORGANIZATION", isPresent: true },
+    ],
+    actionItems: [{ dueDate: new Date("2026-05-14T00:00:00Z") }],
+  };
+
+  it("accepts complete minutes", () => {
+    expect(validateMinutesForSigning(minutes)).toBeNull();
+  });
+
+  it("requires an ended session, attendance and an agenda", () => {
+    expect(validateMinutesForSigning({ ...minutes, sessionStatus: "ACTIVE" })).toMatch(/ended/);
+    expect(
+      validateMinutesForSigning({
+        ...minutes,
+        attendees: minutes.attendees.map((a) => ({ ...a, isPresent: false })),
+      })
+    ).toMatch(/present/);
+    expect(validateMinutesForSigning({ ...minutes, agenda: [{ title: " ", notes: "" }] })).toMatch(
+      /agenda/
+    );
+  });
+
+  it("requires host attendance for closing meetings only", () => {
+    const teamOnly = { ...minutes, attendees: [{ side: "REVIEW_TEAM" as const, isPresent: true }] };
+    expect(validateMinutesForSigning(teamOnly)).toMatch(/host ANSP/);
+    expect(validateMinutesForSigning({ ...teamOnly, sessionType: "DEBRIEF" })).toBeNull();
+  });
+
+  it("rejects action items due before the meeting", () => {
+    expect(
+      validateMinutesForSigning({
+        ...minutes,
+        actionItems: [{ dueDate: new Date("2026-05-13T23:00:00Z") }],
+      })
+    ).toMatch(/due dates/);
+  });
+});
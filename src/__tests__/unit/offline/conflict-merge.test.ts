@@ -0,0 +1,103 @@
+/**
+ * Offline Conflict Merge Tests
+ *
+ * Tests for field-level diff and merge of conflicted offline records.
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  defaultChoices,
+  diffFields,
+  isServerOnly,
+  mergeFields,
+  type ServerVersion,
+} from "@/lib/offline/conflict-merge";
+import type { OfflineDraftFinding } from "@/lib/offline/types";
+
+// =============================================================================
+// TEST DATA FACTORIES
+// =============================================================================
+
+function draft(overrides: Partial<OfflineDraftFinding> = {}): OfflineDraftFinding {
+  return {
+    id: "draft-1",
+    reviewId: "review-1",
+    title: "Runway lights unserviceable",
+    description: "Edge lights on RWY 09 not working",
+    severity: "MAJOR",
+    areaCode: "AGA",
+    questionId: null,
+    evidenceIds: [],
+    gpsLatitude: null,
+    gpsLongitude: null,
+    createdAt: new Date("2026-03-01T08:00:00Z"),
+    updatedAt: new Date("2026-03-01T09:00:00Z"),
+    syncStatus: "conflict",
+    ...overrides,
+  };
+}
+
+function serverVersion(fields: Record<string, unknown>): ServerVersion {
+  return { exists: true, updatedAt: new Date("2026-03-01T10:00:00Z"), fields };
+}
+
+// =============================================================================
+// TESTS
+// =============================================================================
+
+describe("diffFields", () => {
+  it("reports only the mergeable fields that differ", () => {
+    const diffs = diffFields(
+      "draftFinding",
+      draft(),
+      serverVersion({
+        title: "Runway lights unserviceable ",
+        description: "Edge lights on RWY 09 and 27 not working",
+        severity: "MAJOR",
+      })
+    );
+
+    expect(diffs.map((d) => [d.field, d.differs])).toEqual([
+      ["title", false],
+      ["description", true],
+      ["severity", false],
+    ]);
+  });
+
+  it("treats fields the server does not report as unchanged", () => {
+    const diffs = diffFields("draftFinding", draft(), serverVersion({ severity: "CRITICAL" }));
+    expect(diffs.filter((d) => d.differs).map((d) => d.field)).toEqual(["severity"]);
+  });
+});
+
+describe("mergeFields", () => {
+  const server = serverVersion({
+    title: "Runway edge lights unserviceable",
+    description: "Edge lights on RWY 09 and 27 not working",
+    severity: "CRITICAL",
+  });
+
+  it("keeps offline edits by default", () => {
+    const diffs = diffFields("draftFinding", draft(), server);
+    expect(mergeFields("draftFinding", draft(), server, defaultChoices(diffs))).toEqual({});
+  });
+
+  it("takes the server value for each field chosen from the server", () => {
+    const updates = mergeFields("draftFinding", draft(), server, {
+      title: "local",
+      description: "server",
+      severity: "server",
+    });
+
+    expect(updates).toEqual({
+      description: "Edge lights on RWY 09 and 27 not working",
+      severity: "CRITICAL",
+    });
+  });
+
+  it("detects when every differing field comes from the server", () => {
+    const diffs = diffFields("draftFinding", draft(), server);
+    expect(isServerOnly(diffs, { title: "server", description: "server", severity: "server" })).toBe(true);
+    expect(isServerOnly(diffs, { title: "local", description: "server", severity: "server" })).toBe(false);
+  });
+});
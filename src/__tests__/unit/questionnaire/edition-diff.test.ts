@@ -0,0 +1,127 @@
+/**
+ * Questionnaire Edition Diff Tests
+ *
+ * Tests for classifying PQ amendments between editions and mapping
+ * responses across one or more editions.
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  buildQuestionMigrationMap,
+  composeMigrationMaps,
+  diffEditions,
+  mergeMigratedResponses,
+  parsePreviousPqNumbers,
+  type EditionQuestion,
+} from "@/lib/questionnaire/edition-diff";
+
+function pq(
+  id: string,
+  pqNumber: string,
+  overrides: Partial<EditionQuestion> = {}
+): EditionQuestion {
+  return {
+    id,
+    pqNumber,
+    previousPqNumber: null,
+    pqStatus: "NO_CHANGE",
+    questionTextEn: `Text ${pqNumber}`,
+    questionTextFr: `Texte ${pqNumber}`,
+    isActive: true,
+    ...overrides,
+  };
+}
+
+const edition1 = [
+  pq("a1", "7.001"),
+  pq("a2", "7.003"),
+  pq("a3", "7.005"),
+  pq("a4", "7.007"),
+  pq("a5", "7.009"),
+];
+
+const edition2 = [
+  pq("b1", "7.001"),
+  pq("b2", "7.003", { pqStatus: "REVISED", questionTextEn: "Amended text" }),
+  pq("b3", "7.004", { pqStatus: "MERGED", previousPqNumber: "7.005; 7.007" }),
+  pq("b4", "7.011", { pqStatus: "NEW" }),
+  pq("b5", "7.009", { pqStatus: "DELETED", isActive: false }),
+];
+
+describe("parsePreviousPqNumbers", () => {
+  it("splits lists on commas and semicolons", () => {
+    expect(parsePreviousPqNumbers("7.005; 7.007,7.008")).toEqual(["7.005", "7.007", "7.008"]);
+    expect(parsePreviousPqNumbers(null)).toEqual([]);
+  });
+});
+
+describe("diffEditions", () => {
+  it("classifies added, revised, merged, deleted and unchanged PQs", () => {
+    const { changes, counts } = diffEditions(edition1, edition2);
+
+    expect(counts).toEqual({ ADDED: 1, REVISED: 1, MERGED: 1, DELETED: 1, UNCHANGED: 1 });
+    expect(changes.find((c) => c.type === "MERGED")).toMatchObject({
+      pqNumber: "7.004",
+      previousPqNumbers: ["7.005", "7.007"],
+    });
+    expect(changes.find((c) => c.type === "REVISED")).toMatchObject({
+      textChanged: true,
+      previousTextEn: "Text 7.003",
+    });
+    expect(changes.find((c) => c.type === "DELETED")?.pqNumber).toBe("7.009");
+  });
+
+  it("treats a renumbered PQ as revised", () => {
+    const { changes } = diffEditions(
+      [pq("a1", "7.001")],
+      [pq("b1", "7.101", { previousPqNumber: "7.001" })]
+    );
+    expect(changes).toHaveLength(1);
+    expect(changes[0].type).toBe("REVISED");
+  });
+});
+
+describe("migration maps", () => {
+  it("maps questions to their successors and drops deleted ones", () => {
+    const map = buildQuestionMigrationMap(edition1, edition2);
+
+    expect(map.get("a1")).toBe("b1");
+    expect(map.get("a3")).toBe("b3");
+    expect(map.get("a4")).toBe("b3");
+    expect(map.has("a5")).toBe(false);
+  });
+
+  it("follows chains across several editions", () => {
+    const edition3 = [
+      pq("c1", "7.101", { previousPqNumber: "7.001" }),
+      pq("c2", "7.004"),
+    ];
+    const composed = composeMigrationMaps([
+      buildQuestionMigrationMap(edition1, edition2),
+      buildQuestionMigrationMap(edition2, edition3),
+    ]);
+
+    expect(composed.get("a1")).toBe("c1");
+    expect(composed.get("a3")).toBe("c2");
+    // 7.003 was not carried into the third edition
+    expect(composed.has("a2")).toBe(false);
+  });
+});
+
+describe("mergeMigratedResponses", () => {
+  it("keeps the most conservative answer", () => {
+    expect(
+      mergeMigratedResponses([
+        { questionId: "a3", responseValue: "SATISFACTORY", maturityLevel: null },
+        { questionId: "a4", responseValue: "NOT_SATISFACTORY", maturityLevel: null },
+      ]).questionId
+    ).toBe("a4");
+
+    expect(
+      mergeMigratedResponses([
+        { questionId: "a3", responseValue: null, maturityLevel: "LEVEL_D" },
+        { questionId: "a4", responseValue: null, maturityLevel: "LEVEL_B" },
+      ]).maturityLevel
+    ).toBe("LEVEL_B");
+  });
+});
@@ -0,0 +1,89 @@
+/**
+ * Questionnaire Workbook Parser Tests
+ *
+ * Tests for reading multi-sheet questionnaire workbooks into JSON import
+ * data.
+ */
+
+import { describe, it, expect } from "vitest";
+import * as XLSX from "xlsx";
+import { parseQuestionnaireWorkbook } from "@/lib/questionnaire/workbook-parser";
+import { parseANSImport, parseSMSImport } from "@/lib/questionnaire/import-parser";
+
+function workbook(sheets: Record<string, unknown[][]>): ArrayBuffer {
+  const wb = XLSX.utils.book_new();
+  for (const [name, rows] of Object.entries(sheets)) {
+    XLSX.utils.book_append_sheet(wb, XLSX.utils.aoa_to_sheet(rows), name);
+  }
+  return XLSX.write(wb, { type: "array", bookType: "xlsx" }) as ArrayBuffer;
+}
+
+describe("parseQuestionnaireWorkbook", () => {
+  it("reads one sheet per audit area with banner rows and mapped headers", () => {
+    const file = workbook({
+      Readme: [["Instructions for focal points"]],
+      Questionnaire: [
+        ["Code", "ANS-PQ-2026"],
+        ["Version", 2026],
+        ["Title EN", "ANS Protocol Questions"],
+        ["Title FR", "Questions de protocole ANS"],
+        ["Effective Date", "2026-01-01"],
+      ],
+      "ANS - Air Navigation": [
+        ["ICAO USOAP CMA Protocol Questions"],
+        [],
+        ["PQ No.", "Question (EN)", "Question (FR)", "CE", "PPQ", "Amendment Status"],
+        ["ANS-7.001", "Has the State...", "L'État a-t-il...", "CE-4", "Yes", "No change"],
+        ["ANS-7.003", "Does the ANSP...", "Le PSNA...", 5, "", "Revised"],
+      ],
+    });
+
+    const result = parseQuestionnaireWorkbook(file, "ANS_USOAP_CMA");
+
+    expect(result.errors).toEqual([]);
+    expect(result.sheets.map((s) => [s.name, s.kind, s.rows])).toEqual([
+      ["Readme", "IGNORED", 0],
+      ["Questionnaire", "METADATA", 5],
+      ["ANS - Air Navigation", "QUESTIONS", 2],
+    ]);
+    expect(result.data.questions[0]).toMatchObject({
+      pqNumber: "ANS-7.001",
+      auditArea: "ANS",
+      criticalElement: "CE-4",
+      isPriorityPQ: true,
+      pqStatus: "NO_CHANGE",
+      sortOrder: 1,
+    });
+
+    const parsed = parseANSImport(result.data);
+    expect(parsed.errors).toEqual([]);
+    expect(parsed.questionnaire).toMatchObject({ code: "ANS-PQ-2026", version: "2026" });
+    expect(parsed.questions.map((q) => q.criticalElement)).toEqual(["CE_4", "CE_5"]);
+    expect(parsed.questions[1].pqStatus).toBe("REVISED");
+  });
+
+  it("takes the SMS component from the sheet name", () => {
+    const file = workbook({
+      "Component 2 - Risk Management": [
+        ["Study Area", "Question Text EN", "Question Text FR"],
+        ["2.1", "Hazard identification", "Identification des dangers"],
+      ],
+    });
+
+    const result = parseQuestionnaireWorkbook(file, "SMS_CANSO_SOE");
+    const parsed = parseSMSImport(result.data);
+
+    expect(parsed.errors).toEqual([]);
+    expect(parsed.questions[0]).toMatchObject({
+      smsComponent: "SAFETY_RISK_MANAGEMENT",
+      studyArea: "SA_2_1",
+    });
+  });
+
+  it("fails when no sheet has question rows", () => {
+    const result = parseQuestionnaireWorkbook(workbook({ Sheet1: [["Hello"]] }), "ANS_USOAP_CMA");
+
+    expect(result.errors[0].message).toMatch(/does not contain any question rows/);
+    expect(result.warnings[0]).toMatch(/Sheet "Sheet1" was skipped/);
+  });
+});
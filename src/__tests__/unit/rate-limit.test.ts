@@ -0,0 +1,66 @@
+/**
+ * Rate Limiter Tests
+ *
+ * Tests for the fixed-window limiter on public endpoints and client IP
+ * resolution from proxy headers.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { checkRateLimit, getClientIp } from "@/lib/rate-limit";
+
+describe("checkRateLimit", () => {
+  const options = { limit: 3, windowMs: 60_000 };
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date("2026-03-01T10:00:00Z"));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("allows hits up to the limit", () => {
+    expect(checkRateLimit("limit:a", options)).toEqual({
+      allowed: true,
+      remaining: 2,
+      retryAfterMs: 0,
+    });
+    expect(checkRateLimit("limit:a", options).remaining).toBe(1);
+    expect(checkRateLimit("limit:a", options).remaining).toBe(0);
+  });
+
+  it("blocks further hits until the window resets", () => {
+    for (let i = 0; i < options.limit; i++) checkRateLimit("limit:b", options);
+
+    vi.advanceTimersByTime(20_000);
+    expect(checkRateLimit("limit:b", options)).toEqual({
+      allowed: false,
+      remaining: 0,
+      retryAfterMs: 40_000,
+    });
+
+    vi.advanceTimersByTime(40_000);
+    expect(checkRateLimit("limit:b", options).allowed).toBe(true);
+  });
+
+  it("counts keys separately", () => {
+    for (let i = 0; i < options.limit; i++) checkRateLimit("limit:c", options);
+    expect(checkRateLimit("limit:c", options).allowed).toBe(false);
+    expect(checkRateLimit("limit:d", options).allowed).toBe(true);
+  });
+});
+
+describe("getClientIp", () => {
+  it("takes the first forwarded address", () => {
+    const headers = new Headers({ "x-forwarded-for": "203.0.113.7, 10.0.0.1" });
+    expect(getClientIp(headers)).toBe("203.0.113.7");
+  });
+
+  it("falls back to x-real-ip, then unknown", () => {
+    expect(getClientIp(new Headers({ "x-real-ip": "198.51.100.2" }))).toBe(
+      "198.51.100.2",
+    );
+    expect(getClientIp(new Headers())).toBe("unknown");
+  });
+});
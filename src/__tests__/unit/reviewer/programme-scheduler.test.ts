@@ -0,0 +1,152 @@
+/**
+ * Programme Team Scheduler Tests
+ *
+ * Tests for staffing several concurrent reviews from one reviewer pool.
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  scheduleProgrammeTeams,
+  type ProgrammeCandidate,
+  type ProgrammeReview,
+} from "@/lib/reviewer/programme-scheduler";
+
+// =============================================================================
+// TEST DATA FACTORIES
+// =============================================================================
+
+function review(id: string, overrides: Partial<ProgrammeReview> = {}): ProgrammeReview {
+  return {
+    reviewId: id,
+    referenceNumber: id.toUpperCase(),
+    hostOrganizationId: `org_${id}`,
+    startDate: new Date("2027-03-01"),
+    endDate: new Date("2027-03-05"),
+    requiredExpertise: ["ATS"],
+    requiredLanguages: ["EN"],
+    teamSize: 2,
+    ...overrides,
+  };
+}
+
+function candidate(id: string, overrides: Partial<ProgrammeCandidate> = {}): ProgrammeCandidate {
+  return {
+    reviewerProfileId: id,
+    userId: `user_${id}`,
+    fullName: id,
+    expertise: ["ATS"],
+    languages: ["EN"],
+    isLeadQualified: false,
+    existingLoad: 0,
+    exclusions: {},
+    ...overrides,
+  };
+}
+
+function teamOf(schedule: ReturnType<typeof scheduleProgrammeTeams>, reviewId: string) {
+  return schedule.plans
+    .find((p) => p.review.reviewId === reviewId)!
+    .team.map((m) => `${m.reviewerProfileId}:${m.role}`);
+}
+
+// =============================================================================
+// TESTS
+// =============================================================================
+
+describe("scheduleProgrammeTeams", () => {
+  it("never books a reviewer on two overlapping reviews", () => {
+    const schedule = scheduleProgrammeTeams(
+      [review("r1"), review("r2")],
+      [
+        candidate("lead1", { isLeadQualified: true }),
+        candidate("lead2", { isLeadQualified: true }),
+        candidate("a"),
+        candidate("b"),
+      ],
+      { maxReviewsPerReviewer: 3 }
+    );
+
+    const all = schedule.plans.flatMap((p) => p.team.map((m) => m.reviewerProfileId));
+    expect(new Set(all).size).toBe(4);
+    expect(schedule.plans.every((p) => p.hasLead && p.unmet.length === 0)).toBe(true);
+  });
+
+  it("staffs the review with the scarcest lead first", () => {
+    const schedule = scheduleProgrammeTeams(
+      [review("r1"), review("r2")],
+      [
+        candidate("lead1", { isLeadQualified: true }),
+        candidate("lead2", { isLeadQualified: true, exclusions: { r1: "COI" } }),
+        candidate("a"),
+        candidate("b"),
+      ],
+      { maxReviewsPerReviewer: 3 }
+    );
+
+    expect(teamOf(schedule, "r1")).toContain("lead1:LEAD_REVIEWER");
+    expect(teamOf(schedule, "r2")).toContain("lead2:LEAD_REVIEWER");
+  });
+
+  it("spreads load with the fairness cap", () => {
+    const schedule = scheduleProgrammeTeams(
+      [
+        review("r1", { startDate: new Date("2027-01-10"), endDate: new Date("2027-01-14") }),
+        review("r2", { startDate: new Date("2027-05-10"), endDate: new Date("2027-05-14") }),
+      ],
+      [
+        candidate("star", { isLeadQualified: true, expertise: ["ATS", "CNS"] }),
+        candidate("lead2", { isLeadQualified: true, existingLoad: 1 }),
+        candidate("a"),
+        candidate("b"),
+      ],
+      { maxReviewsPerReviewer: 1 }
+    );
+
+    expect(schedule.summary.maxLoad).toBe(1);
+    expect(schedule.loads.find((l) => l.reviewerProfileId === "star")!.reviewIds).toHaveLength(1);
+    const blocked = schedule.plans.find((p) => !p.hasLead)!;
+    expect(blocked.unmet[0]).toMatchObject({
+      code: "NO_LEAD",
+      blockedBy: { FAIRNESS_CAP: 2 },
+    });
+  });
+
+  it("moves a lead-qualified member to free a lead slot", () => {
+    // r1 has the fewest candidates and is staffed first, taking lead2 as a
+    // member; r2 only gets a lead once lead2 is swapped out for "c"
+    const schedule = scheduleProgrammeTeams(
+      [review("r1"), review("r2")],
+      [
+        candidate("lead1", { isLeadQualified: true, exclusions: { r2: "UNAVAILABLE" } }),
+        candidate("lead2", { isLeadQualified: true }),
+        candidate("c", { existingLoad: 2 }),
+        candidate("a", { exclusions: { r1: "COI" } }),
+        candidate("d", { exclusions: { r1: "COI" } }),
+      ],
+      { maxReviewsPerReviewer: 3 }
+    );
+
+    expect(teamOf(schedule, "r1")).toEqual(["lead1:LEAD_REVIEWER", "c:REVIEWER"]);
+    expect(teamOf(schedule, "r2")).toHaveLength(2);
+    expect(teamOf(schedule, "r2")[0]).toBe("lead2:LEAD_REVIEWER");
+    expect(schedule.summary.fullyStaffed).toBe(2);
+  });
+
+  it("explains coverage gaps the pool cannot fill", () => {
+    const schedule = scheduleProgrammeTeams(
+      [review("r1", { requiredExpertise: ["ATS", "SAR"], requiredLanguages: ["EN", "FR"] })],
+      [
+        candidate("lead1", { isLeadQualified: true }),
+        candidate("a"),
+        candidate("fr", { languages: ["FR"], exclusions: { r1: "UNAVAILABLE" } }),
+      ],
+      { maxReviewsPerReviewer: 3 }
+    );
+
+    const [plan] = schedule.plans;
+    expect(plan.isAssignable).toBe(true);
+    expect(plan.unmet.map((u) => u.code)).toEqual(["EXPERTISE_GAP", "LANGUAGE_GAP"]);
+    expect(plan.unmet[0].message).toBe("No reviewer in the pool covers SAR");
+    expect(plan.unmet[1]).toMatchObject({ missing: ["FR"], blockedBy: { UNAVAILABLE: 1 } });
+  });
+});
@@ -0,0 +1,138 @@
+/**
+ * Cross-Assessment Delta Tests
+ *
+ * Tests for question-level diffs between two assessments and their
+ * aggregation by audit area, critical element and SMS component.
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  diffAssessmentResponses,
+  summarizeDeltaBy,
+  summarizeDeltaTotals,
+  type DeltaResponseInput,
+} from "@/lib/assessment/score-delta";
+
+function response(
+  questionId: string,
+  overrides: Partial<DeltaResponseInput> = {}
+): DeltaResponseInput {
+  return {
+    questionId,
+    pqNumber: questionId.toUpperCase(),
+    questionTextEn: `Question ${questionId}`,
+    questionTextFr: `Question ${questionId}`,
+    auditArea: "ANS",
+    criticalElement: "CE_1",
+    smsComponent: null,
+    studyArea: null,
+    responseValue: "SATISFACTORY",
+    maturityLevel: null,
+    evidence: [],
+    ...overrides,
+  };
+}
+
+describe("diffAssessmentResponses", () => {
+  it("flags regressions, improvements and newly N/A answers", () => {
+    const deltas = diffAssessmentResponses(
+      [
+        response("q1"),
+        response("q2", { responseValue: "NOT_SATISFACTORY", criticalElement: "CE_2" }),
+        response("q3"),
+        response("q4"),
+      ],
+      [
+        response("q1", { responseValue: "NOT_SATISFACTORY" }),
+        response("q2", { responseValue: "SATISFACTORY", criticalElement: "CE_2" }),
+        response("q3", { responseValue: "NOT_APPLICABLE" }),
+        response("q4"),
+      ]
+    );
+
+    expect(deltas.map((d) => [d.questionId, d.direction])).toEqual([
+      ["q1", "REGRESSION"],
+      ["q2", "IMPROVEMENT"],
+      ["q3", "NEUTRAL"],
+    ]);
+    expect(deltas[2].newlyNotApplicable).toBe(true);
+    expect(deltas[0].before.responseValue).toBe("SATISFACTORY");
+    expect(deltas[0].after.responseValue).toBe("NOT_SATISFACTORY");
+  });
+
+  it("compares SMS maturity levels", () => {
+    const sms = {
+      auditArea: null,
+      criticalElement: null,
+      smsComponent: "SAFETY_POLICY_OBJECTIVES",
+      studyArea: "SA_1_1",
+      responseValue: null,
+    };
+    const deltas = diffAssessmentResponses(
+      [
+        response("q1", { ...sms, maturityLevel: "LEVEL_C" }),
+        response("q2", { ...sms, maturityLevel: "LEVEL_B" }),
+      ],
+      [
+        response("q1", { ...sms, maturityLevel: "LEVEL_B" }),
+        response("q2", { ...sms, maturityLevel: "LEVEL_D" }),
+      ]
+    );
+
+    expect(deltas.map((d) => d.direction)).toEqual(["REGRESSION", "IMPROVEMENT"]);
+  });
+
+  it("reports evidence changes even when the answer is unchanged", () => {
+    const deltas = diffAssessmentResponses(
+      [response("q1", { evidence: ["doc-1", "doc-2"] })],
+      [response("q1", { evidence: ["doc-2", "doc-3", "doc-4"] })]
+    );
+
+    expect(deltas).toHaveLength(1);
+    expect(deltas[0]).toMatchObject({
+      responseChanged: false,
+      evidenceChanged: true,
+      evidenceAdded: 2,
+      evidenceRemoved: 1,
+    });
+  });
+
+  it("treats questions missing from one assessment as unanswered", () => {
+    const deltas = diffAssessmentResponses([], [response("q1")]);
+
+    expect(deltas).toHaveLength(1);
+    expect(deltas[0].before).toEqual({ responseValue: null, maturityLevel: null });
+    expect(deltas[0].direction).toBe("NEUTRAL");
+  });
+});
+
+describe("summarizeDeltaBy", () => {
+  it("counts changes per group and overall", () => {
+    const deltas = diffAssessmentResponses(
+      [
+        response("q1"),
+        response("q2", { responseValue: "NOT_SATISFACTORY", criticalElement: "CE_2" }),
+        response("q3", { criticalElement: "CE_2" }),
+      ],
+      [
+        response("q1", { responseValue: "NOT_SATISFACTORY" }),
+        response("q2", { responseValue: "SATISFACTORY", criticalElement: "CE_2" }),
+        response("q3", { criticalElement: "CE_2", evidence: ["doc-1"] }),
+      ]
+    );
+
+    const byElement = summarizeDeltaBy(deltas, "criticalElement");
+    expect(byElement.CE_1).toMatchObject({ changed: 1, regressions: 1, improvements: 0 });
+    expect(byElement.CE_2).toMatchObject({ changed: 1, improvements: 1, evidenceChanged: 1 });
+    expect(summarizeDeltaBy(deltas, "studyArea")).toEqual({});
+
+    expect(summarizeDeltaTotals(deltas, 3)).toEqual({
+      compared: 3,
+      changed: 2,
+      regressions: 1,
+      improvements: 1,
+      newlyNotApplicable: 0,
+      evidenceChanged: 1,
+    });
+  });
+});
@@ -0,0 +1,125 @@
+/**
+ * Full-Text Search Tests
+ *
+ * Tests for query normalisation, snippet parsing, facets and the index
+ * expressions shared with the search queries.
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  HIGHLIGHT_END as E,
+  HIGHLIGHT_START as S,
+  buildFacets,
+  parseHighlight,
+  rankHits,
+  toPrefixTsQuery,
+  type SearchHit,
+} from "@/lib/search/full-text";
+import {
+  SEARCH_DOCUMENTS,
+  searchIndexStatements,
+  vectorExpression,
+} from "@/server/services/search/documents";
+
+// =============================================================================
+// TEST DATA FACTORIES
+// =============================================================================
+
+function hit(overrides: Partial<SearchHit> = {}): SearchHit {
+  return {
+    id: "h1",
+    type: "finding",
+    title: "Finding",
+    href: "/findings/h1",
+    rank: 0.5,
+    reviewId: "r1",
+    reviewReference: "REV-2025-001",
+    organizationId: "o1",
+    organizationName: "ASECNA",
+    severity: "MAJOR",
+    region: "WACAF",
+    date: new Date("2025-03-01"),
+    ...overrides,
+  };
+}
+
+// =============================================================================
+// TESTS
+// =============================================================================
+
+describe("toPrefixTsQuery", () => {
+  it("joins terms with AND and makes the last one a prefix", () => {
+    expect(toPrefixTsQuery("runway  incurs")).toBe("runway & incurs:*");
+  });
+
+  it("neutralises tsquery operators and keeps accented letters", () => {
+    expect(toPrefixTsQuery("sécurité & !(piste) | 'x'")).toBe("sécurité & piste & x:*");
+  });
+
+  it("returns null when nothing is searchable", () => {
+    expect(toPrefixTsQuery(" -- ** ")).toBeNull();
+  });
+});
+
+describe("parseHighlight", () => {
+  it("splits highlighted and plain segments", () => {
+    expect(parseHighlight(`the ${S}runway${E} lights`)).toEqual([
+      { text: "the ", match: false },
+      { text: "runway", match: true },
+      { text: " lights", match: false },
+    ]);
+  });
+
+  it("merges adjacent matches and tolerates an unterminated marker", () => {
+    expect(parseHighlight(`${S}a${E}${S}b${E} c ${S}d`)).toEqual([
+      { text: "ab", match: true },
+      { text: " c d", match: false },
+    ]);
+  });
+});
+
+describe("buildFacets and rankHits", () => {
+  it("counts facet values and skips missing ones", () => {
+    const facets = buildFacets([
+      hit(),
+      hit({ id: "h2", severity: "MINOR", date: new Date("2024-06-01") }),
+      hit({ id: "h3", type: "lesson", severity: null, organizationId: null, region: "ESAF" }),
+    ]);
+
+    expect(facets.type).toEqual([
+      { value: "finding", label: undefined, count: 2 },
+      { value: "lesson", label: undefined, count: 1 },
+    ]);
+    expect(facets.severity.map((b) => b.value)).toEqual(["MAJOR", "MINOR"]);
+    expect(facets.organization).toEqual([{ value: "o1", label: "ASECNA", count: 2 }]);
+    expect(facets.year.map((b) => b.value)).toEqual(["2025", "2024"]);
+  });
+
+  it("orders by rank, newest first on ties", () => {
+    const ranked = rankHits([
+      hit({ id: "old", rank: 1, date: new Date("2023-01-01") }),
+      hit({ id: "new", rank: 1, date: new Date("2025-01-01") }),
+      hit({ id: "top", rank: 2 }),
+    ]);
+    expect(ranked.map((h) => h.id)).toEqual(["top", "new", "old"]);
+  });
+});
+
+describe("search index expressions", () => {
+  it("weights titles above body text with the language configuration", () => {
+    expect(vectorExpression(SEARCH_DOCUMENTS.finding, "fr", "f")).toBe(
+      "(setweight(to_tsvector('french'::regconfig, coalesce(f.title_fr, '')), 'A') || " +
+        "setweight(to_tsvector('french'::regconfig, coalesce(f.description_fr, '') || ' ' || " +
+        "coalesce(f.evidence_fr, '')), 'B'))"
+    );
+  });
+
+  it("creates one index per table and language using the unaliased expression", () => {
+    const statements = searchIndexStatements();
+    expect(statements).toHaveLength(Object.keys(SEARCH_DOCUMENTS).length * 2);
+    expect(statements).toContain(
+      "CREATE INDEX IF NOT EXISTS corrective_action_plans_search_en_idx ON corrective_action_plans " +
+        `USING gin (${vectorExpression(SEARCH_DOCUMENTS.cap, "en")})`
+    );
+  });
+});
@@ -0,0 +1,94 @@
+/**
+ * Training Quiz Tests
+ *
+ * Tests for knowledge-check scoring, topic completion, the retake
+ * cooldown and certificate numbers.
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  certificateNumber,
+  quizRetakeAvailableAt,
+  scoreQuiz,
+  topicCompletion,
+  type QuizAnswerKey,
+} from "@/lib/training/quiz";
+
+const key: QuizAnswerKey[] = [
+  { id: "q1", correctOption: 0, relatedPQs: ["ATM-1.2"] },
+  { id: "q2", correctOption: 2, relatedPQs: ["ATM-10.1", "ATM-2.3"] },
+  { id: "q3", correctOption: 1, relatedPQs: ["ATM-2.3"] },
+];
+
+describe("scoreQuiz", () => {
+  it("passes when every answer is correct", () => {
+    expect(scoreQuiz(key, { q1: 0, q2: 2, q3: 1 }, 70)).toMatchObject({
+      correctCount: 3,
+      totalQuestions: 3,
+      score: 100,
+      passed: true,
+      missedPQs: [],
+    });
+  });
+
+  it("rounds the score down against the pass mark", () => {
+    const result = scoreQuiz(key, { q1: 0, q2: 2, q3: 0 }, 67);
+    expect(result.score).toBe(66);
+    expect(result.passed).toBe(false);
+    expect(result.incorrectQuestionIds).toEqual(["q3"]);
+  });
+
+  it("counts unanswered questions as missed and lists their PQs once", () => {
+    const result = scoreQuiz(key, { q1: 0, unknown: 1 }, 70);
+    expect(result.correctCount).toBe(1);
+    expect(result.missedPQs).toEqual(["ATM-2.3", "ATM-10.1"]);
+  });
+
+  it("never passes an empty quiz", () => {
+    expect(scoreQuiz([], {}, 0).passed).toBe(false);
+  });
+});
+
+describe("topicCompletion", () => {
+  it("reports completed topics of the module only", () => {
+    expect(topicCompletion(["a", "b", "c"], ["a", "x"])).toEqual({
+      completed: 1,
+      total: 3,
+      percent: 33,
+      allComplete: false,
+    });
+  });
+
+  it("treats a module without topics as complete", () => {
+    expect(topicCompletion([], []).allComplete).toBe(true);
+  });
+});
+
+describe("quizRetakeAvailableAt", () => {
+  const submittedAt = new Date("2026-03-01T10:00:00Z");
+
+  it("is available without attempts or after a pass", () => {
+    expect(quizRetakeAvailableAt(null)).toBeNull();
+    expect(quizRetakeAvailableAt({ passed: true, submittedAt }, submittedAt)).toBeNull();
+  });
+
+  it("holds a failed attempt for the cooldown", () => {
+    const now = new Date("2026-03-01T10:30:00Z");
+    expect(quizRetakeAvailableAt({ passed: false, submittedAt }, now, 60)).toEqual(
+      new Date("2026-03-01T11:00:00Z")
+    );
+  });
+
+  it("releases a failed attempt once the cooldown has elapsed", () => {
+    const now = new Date("2026-03-01T11:00:00Z");
+    expect(quizRetakeAvailableAt({ passed: false, submittedAt }, now, 60)).toBeNull();
+  });
+});
+
+describe("certificateNumber", () => {
+  it("combines the module code, year and attempt id", () => {
+    expect(certificateNumber("m3", new Date("2026-03-01T00:00:00Z"), "clx9abc-def12345")).toBe(
+      "AAPRP-M3-2026-DEF12345"
+    );
+  });
+});
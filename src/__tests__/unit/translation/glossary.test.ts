@@ -0,0 +1,102 @@
+/**
+ * Translation Glossary Tests
+ *
+ * Tests for translation-memory normalisation and glossary enforcement.
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  findGlossaryTerms,
+  findGlossaryViolations,
+  isSameText,
+  normalizeSourceText,
+  protectGlossaryTerms,
+  restoreProtectedText,
+  toGlossaryTsv,
+  type GlossaryEntry,
+} from "@/lib/translation/glossary";
+
+const GLOSSARY: GlossaryEntry[] = [
+  { termEn: "Corrective Action Plan", termFr: "plan d'action corrective" },
+  { termEn: "Corrective Action", termFr: "action corrective" },
+  { termEn: "Critical Element", termFr: "élément crucial" },
+  { termEn: "Protocol Question", termFr: "question de protocole" },
+];
+
+describe("translation memory keys", () => {
+  it("normalises whitespace and case", () => {
+    expect(normalizeSourceText("  Missing  SMS\nmanual ")).toBe("missing sms manual");
+  });
+
+  it("compares texts ignoring whitespace only", () => {
+    expect(isSameText("Plan  d'action", "Plan d'action ")).toBe(true);
+    expect(isSameText("Plan", "plan")).toBe(false);
+  });
+});
+
+describe("findGlossaryTerms", () => {
+  it("matches whole terms case-insensitively, longest first", () => {
+    const pairs = findGlossaryTerms(
+      "The corrective action plan does not address the critical element.",
+      GLOSSARY,
+      "en"
+    );
+
+    expect(pairs.map((p) => p.target)).toEqual([
+      "plan d'action corrective",
+      "action corrective",
+      "élément crucial",
+    ]);
+  });
+
+  it("ignores partial-word matches", () => {
+    expect(findGlossaryTerms("Critical Elements review", GLOSSARY, "en")).toEqual([]);
+  });
+});
+
+describe("protectGlossaryTerms", () => {
+  it("replaces terms with protected target terms and escapes HTML", () => {
+    const html = protectGlossaryTerms("Submit a Corrective Action Plan <now>", GLOSSARY, "en");
+
+    expect(html).toBe(
+      'Submit a <span translate="no">plan d\'action corrective</span> &lt;now&gt;'
+    );
+  });
+
+  it("round-trips through restoreProtectedText", () => {
+    const html = protectGlossaryTerms("Protocol Question & evidence", GLOSSARY, "en");
+
+    expect(restoreProtectedText(html)).toBe("question de protocole & evidence");
+  });
+});
+
+describe("findGlossaryViolations", () => {
+  it("reports source terms whose translation is missing", () => {
+    const violations = findGlossaryViolations(
+      "Protocol Question 4.1 and the Critical Element",
+      "La question de protocole 4.1 et l'élément critique",
+      GLOSSARY,
+      "en"
+    );
+
+    expect(violations).toEqual([{ source: "Critical Element", target: "élément crucial" }]);
+  });
+
+  it("works in the French to English direction", () => {
+    expect(
+      findGlossaryViolations("Élément crucial manquant", "Missing Critical Element", GLOSSARY, "fr")
+    ).toEqual([]);
+  });
+});
+
+describe("toGlossaryTsv", () => {
+  it("emits one tab-separated pair per line without duplicate sources", () => {
+    const tsv = toGlossaryTsv(
+      [...GLOSSARY, { termEn: "critical element", termFr: "élément critique" }],
+      "en"
+    );
+
+    expect(tsv.split("\n")).toHaveLength(4);
+    expect(tsv).toContain("Protocol Question\tquestion de protocole");
+  });
+});
@@ -0,0 +1,175 @@
+/**
+ * Workflow Definition Tests
+ *
+ * Tests for the static checks run before a workflow version is published,
+ * condition validation, version codes and the designer graph layout.
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  layoutWorkflowGraph,
+  validateConditions,
+  validateWorkflowGraph,
+  versionCode,
+  type WorkflowGraph,
+  type WorkflowGraphState,
+  type WorkflowGraphTransition,
+} from "@/lib/workflow/definition";
+
+const state = (code: string, stateType: WorkflowGraphState["stateType"] = "INTERMEDIATE"): WorkflowGraphState => ({
+  code,
+  labelEn: code,
+  labelFr: code,
+  stateType,
+  color: null,
+  icon: null,
+  defaultSLADays: null,
+});
+
+const transition = (code: string, from: string, to: string): WorkflowGraphTransition => ({
+  code,
+  labelEn: code,
+  labelFr: code,
+  fromStateCode: from,
+  toStateCode: to,
+  trigger: "MANUAL",
+  allowedRoles: [],
+  conditions: null,
+  onTransitionActions: null,
+  buttonVariant: null,
+  confirmRequired: false,
+  confirmMessageEn: null,
+  confirmMessageFr: null,
+});
+
+const linear: WorkflowGraph = {
+  states: [state("DRAFT", "INITIAL"), state("SUBMITTED"), state("CLOSED", "TERMINAL")],
+  transitions: [transition("SUBMIT", "DRAFT", "SUBMITTED"), transition("CLOSE", "SUBMITTED", "CLOSED")],
+  escalationRules: [],
+};
+
+const codes = (graph: WorkflowGraph) =>
+  validateWorkflowGraph(graph, "CAP").map((i) => `${i.severity}:${i.code}${i.stateCode ? `:${i.stateCode}` : ""}`);
+
+describe("validateWorkflowGraph", () => {
+  it("accepts a path from the initial to a terminal state", () => {
+    expect(codes(linear)).toEqual([]);
+  });
+
+  it("reports unreachable states and dead ends", () => {
+    const graph = { ...linear, states: [...linear.states, state("ORPHAN")] };
+    expect(codes(graph)).toEqual(["error:UNREACHABLE_STATE:ORPHAN", "error:DEAD_END:ORPHAN"]);
+  });
+
+  it("requires exactly one initial and at least one terminal state", () => {
+    expect(
+      codes({ ...linear, states: [state("DRAFT", "INITIAL"), state("SUBMITTED"), state("CLOSED")] })
+    ).toContain("error:NO_TERMINAL_STATE");
+    expect(codes({ ...linear, states: [state("DRAFT"), ...linear.states.slice(1)] })).toContain(
+      "error:NO_INITIAL_STATE"
+    );
+  });
+
+  it("warns when a loop cannot reach a terminal state", () => {
+    const graph: WorkflowGraph = {
+      ...linear,
+      states: [...linear.states, state("A"), state("B")],
+      transitions: [
+        ...linear.transitions,
+        transition("TO_A", "SUBMITTED", "A"),
+        transition("TO_B", "A", "B"),
+        transition("BACK", "B", "A"),
+      ],
+    };
+    expect(codes(graph)).toEqual(["warning:NO_PATH_TO_TERMINAL:A", "warning:NO_PATH_TO_TERMINAL:B"]);
+  });
+
+  it("reports transitions to unknown states and duplicate codes", () => {
+    const graph: WorkflowGraph = {
+      ...linear,
+      transitions: [...linear.transitions, transition("SUBMIT", "DRAFT", "MISSING")],
+    };
+    expect(codes(graph)).toEqual([
+      "error:DUPLICATE_TRANSITION_CODE:DRAFT",
+      "error:UNKNOWN_STATE:DRAFT",
+    ]);
+  });
+
+  it("warns about escalation actions the entity type ignores", () => {
+    const graph: WorkflowGraph = {
+      ...linear,
+      escalationRules: [
+        {
+          stateCode: "SUBMITTED",
+          nameEn: "Close",
+          nameFr: "Clôturer",
+          triggerAfterDays: 5,
+          action: "AUTO_CLOSE",
+          actionConfig: null,
+          repeatIntervalDays: null,
+          maxRepeats: null,
+          isActive: true,
+        },
+      ],
+    };
+    expect(codes(graph)).toEqual(["warning:ESCALATION_ACTION_UNSUPPORTED:SUBMITTED"]);
+  });
+});
+
+describe("validateConditions", () => {
+  it("accepts nested groups the evaluator understands", () => {
+    expect(
+      validateConditions({
+        logic: "AND",
+        rules: [
+          { field: "relations.documents.count", operator: "gte", value: 1 },
+          {
+            logic: "OR",
+            conditions: [
+              { field: "data.severity", operator: "in", value: ["CRITICAL", "MAJOR"] },
+              { field: "data.rootCauseEn", operator: "exists", value: true },
+            ],
+          },
+        ],
+      })
+    ).toEqual([]);
+  });
+
+  it("rejects mismatched values and empty groups", () => {
+    expect(
+      validateConditions({
+        rules: [
+          { field: "data.severity", operator: "in", value: "CRITICAL" },
+          { field: "relations.documents.count", operator: "gt", value: "1" },
+          { field: "data.rootCauseEn", operator: "regex", value: "(" },
+          { logic: "AND", conditions: [] },
+        ],
+      })
+    ).toHaveLength(4);
+  });
+});
+
+describe("versionCode", () => {
+  it("replaces the version suffix", () => {
+    expect(versionCode("CAP_WORKFLOW_V1", 2)).toBe("CAP_WORKFLOW_V2");
+    expect(versionCode("CUSTOM", 3)).toBe("CUSTOM_V3");
+  });
+});
+
+describe("layoutWorkflowGraph", () => {
+  it("places states in columns by distance from the initial state", () => {
+    const layout = layoutWorkflowGraph({
+      ...linear,
+      states: [...linear.states, state("ORPHAN")],
+      transitions: [...linear.transitions, transition("REJECT", "SUBMITTED", "DRAFT")],
+    });
+    expect(layout.positions).toEqual({
+      DRAFT: { column: 0, row: 0 },
+      SUBMITTED: { column: 1, row: 0 },
+      CLOSED: { column: 2, row: 0 },
+      ORPHAN: { column: 3, row: 0 },
+    });
+    expect(layout.columns).toBe(4);
+    expect(layout.rows).toBe(1);
+  });
+});
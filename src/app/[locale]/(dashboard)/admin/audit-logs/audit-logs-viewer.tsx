@@ -8,6 +8,7 @@
  * - Search functionality
  * - CSV export for compliance
  * - Diff viewing for state changes
+ * - Hash chain verification and signed checkpoints
  */
 
 import { useState } from "react";
@@ -61,6 +62,7 @@ import { Calendar as CalendarComponent } from "@/components/ui/calendar";
 import { trpc } from "@/lib/trpc/client";
 import { cn } from "@/lib/utils";
 import { AuditAction } from "@/types/prisma-enums";
+import { ChainIntegrityPanel } from "./chain-integrity-panel";
 
 // Helper to format dates
 function formatDateForDisplay(date: Date, locale: string): string {
@@ -563,6 +565,9 @@ export function AuditLogsViewer({ locale }: AuditLogsViewerProps) {
         )}
       </div>
 
+      {/* Hash Chain Integrity */}
+      <ChainIntegrityPanel locale={locale} />
+
       {/* Filters */}
       <Card>
         <CardHeader className="pb-3">
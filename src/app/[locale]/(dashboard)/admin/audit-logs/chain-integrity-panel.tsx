@@ -0,0 +1,246 @@
+"use client";
+
+/**
+ * Chain Integrity Panel
+ *
+ * Verifies the audit log hash chain on demand, pinpoints the first
+ * broken link, and manages signed checkpoints.
+ */
+
+import { useTranslations } from "next-intl";
+import {
+  AlertTriangle,
+  CheckCircle2,
+  Download,
+  Link2,
+  Loader2,
+  ShieldCheck,
+  Stamp,
+} from "lucide-react";
+import { toast } from "sonner";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { trpc } from "@/lib/trpc/client";
+import type { ChainEntrySummary } from "@/server/services/audit/audit-chain";
+
+function formatDateTime(date: Date | string, locale: string): string {
+  return new Intl.DateTimeFormat(locale === "fr" ? "fr-FR" : "en-US", {
+    dateStyle: "medium",
+    timeStyle: "medium",
+  }).format(new Date(date));
+}
+
+function shortHash(hash: string): string {
+  return `${hash.slice(0, 12)}…${hash.slice(-6)}`;
+}
+
+function EntryRow({ label, entry, locale }: { label: string; entry: ChainEntrySummary; locale: string }) {
+  return (
+    <div className="rounded border bg-background p-2 text-sm">
+      <p className="text-xs text-muted-foreground">{label}</p>
+      <p className="font-medium">
+        #{entry.sequence ?? "—"} · {entry.action.replace(/_/g, " ")} · {entry.entityType}{" "}
+        <span className="font-mono text-xs">{entry.entityId}</span>
+      </p>
+      <p className="text-xs text-muted-foreground">
+        {entry.user.firstName} {entry.user.lastName} · {formatDateTime(entry.createdAt, locale)} ·{" "}
+        <span className="font-mono">{entry.id}</span>
+      </p>
+    </div>
+  );
+}
+
+export function ChainIntegrityPanel({ locale }: { locale: string }) {
+  const t = useTranslations("auditLogs.chain");
+  const utils = trpc.useUtils();
+
+  const { data: checkpoints } = trpc.audit.getCheckpoints.useQuery({ limit: 5 });
+
+  const verifyMutation = trpc.audit.verifyChain.useMutation({
+    onError: (error) => toast.error(error.message),
+  });
+
+  const checkpointMutation = trpc.audit.createCheckpoint.useMutation({
+    onSuccess: ({ checkpoint }) => {
+      toast.success(
+        checkpoint
+          ? t("checkpointCreated", { sequence: checkpoint.sequence })
+          : t("checkpointUpToDate")
+      );
+      utils.audit.getCheckpoints.invalidate();
+    },
+    onError: (error) => toast.error(error.message),
+  });
+
+  const exportMutation = trpc.audit.exportCheckpoints.useMutation({
+    onSuccess: (json) => {
+      const blob = new Blob([json], { type: "application/json" });
+      const link = document.createElement("a");
+      const url = URL.createObjectURL(blob);
+      link.setAttribute("href", url);
+      link.setAttribute(
+        "download",
+        `audit-checkpoints-${new Date().toISOString().split("T")[0]}.json`
+      );
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+    },
+    onError: (error) => toast.error(error.message),
+  });
+
+  const result = verifyMutation.data;
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div>
+          <CardTitle className="text-base flex items-center gap-2">
+            <Link2 className="h-4 w-4" />
+            {t("title")}
+          </CardTitle>
+          <CardDescription>{t("description")}</CardDescription>
+        </div>
+        <div className="flex flex-wrap gap-2">
+          <Button
+            size="sm"
+            onClick={() => verifyMutation.mutate()}
+            disabled={verifyMutation.isPending}
+          >
+            {verifyMutation.isPending ? (
+              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            ) : (
+              <ShieldCheck className="h-4 w-4 mr-2" />
+            )}
+            {t("verify")}
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => checkpointMutation.mutate()}
+            disabled={checkpointMutation.isPending}
+          >
+            <Stamp className="h-4 w-4 mr-2" />
+            {t("createCheckpoint")}
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => exportMutation.mutate()}
+            disabled={exportMutation.isPending}
+          >
+            <Download className="h-4 w-4 mr-2" />
+            {t("exportCheckpoints")}
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {result && (
+          <div
+            className={
+              result.isValid
+                ? "rounded-lg border border-green-200 bg-green-50 p-4 text-green-900"
+                : "rounded-lg border border-red-200 bg-red-50 p-4 text-red-900"
+            }
+          >
+            <div className="flex items-center gap-2 font-medium">
+              {result.isValid ? (
+                <CheckCircle2 className="h-5 w-5" />
+              ) : (
+                <AlertTriangle className="h-5 w-5" />
+              )}
+              {result.isValid ? t("valid") : t("invalid")}
+            </div>
+            <p className="mt-1 text-sm">
+              {t("summary", {
+                checked: result.checkedEntries,
+                head: result.headSequence,
+                checkpoints: result.checkpoints.total,
+              })}
+              {result.unsealedEntries > 0 && ` ${t("unsealed", { count: result.unsealedEntries })}`}
+            </p>
+            {result.headSequence > 0 && (
+              <p className="mt-1 font-mono text-xs">
+                {t("headHash")}: {shortHash(result.headHash)}
+              </p>
+            )}
+
+            {result.break && (
+              <div className="mt-4 space-y-2">
+                <p className="text-sm font-medium">
+                  {t(`reasons.${result.break.reason}`, {
+                    sequence: result.break.sequence,
+                    expected: result.break.expectedSequence,
+                  })}
+                </p>
+                <div className="grid gap-2 md:grid-cols-2">
+                  {result.break.previousEntry && (
+                    <EntryRow
+                      label={t("lastIntactEntry")}
+                      entry={result.break.previousEntry}
+                      locale={locale}
+                    />
+                  )}
+                  {result.break.entry && (
+                    <EntryRow label={t("brokenEntry")} entry={result.break.entry} locale={locale} />
+                  )}
+                </div>
+                <div className="grid gap-1 font-mono text-xs">
+                  <span>
+                    {t("expectedHash")}: {result.break.expectedHash}
+                  </span>
+                  <span>
+                    {t("actualHash")}: {result.break.actualHash}
+                  </span>
+                </div>
+              </div>
+            )}
+
+            {result.checkpoints.issues.length > 0 && (
+              <ul className="mt-4 list-inside list-disc text-sm">
+                {result.checkpoints.issues.map((issue) => (
+                  <li key={`${issue.checkpointId}-${issue.reason}`}>
+                    {t(`checkpointIssues.${issue.reason}`, {
+                      sequence: issue.sequence,
+                      date: formatDateTime(issue.createdAt, locale),
+                    })}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        )}
+
+        <div>
+          <p className="mb-2 text-sm font-medium">{t("recentCheckpoints")}</p>
+          {checkpoints && checkpoints.length > 0 ? (
+            <div className="space-y-1">
+              {checkpoints.map((checkpoint) => (
+                <div
+                  key={checkpoint.id}
+                  className="flex flex-wrap items-center justify-between gap-2 text-sm"
+                >
+                  <div className="flex items-center gap-2">
+                    <Badge variant="outline">#{checkpoint.sequence}</Badge>
+                    <span className="font-mono text-xs">{shortHash(checkpoint.hash)}</span>
+                  </div>
+                  <span className="text-xs text-muted-foreground">
+                    {formatDateTime(checkpoint.createdAt, locale)} ·{" "}
+                    {checkpoint.createdBy
+                      ? `${checkpoint.createdBy.firstName} ${checkpoint.createdBy.lastName}`
+                      : t("scheduled")}
+                  </span>
+                </div>
+              ))}
+            </div>
+          ) : (
+            <p className="text-sm text-muted-foreground">{t("noCheckpoints")}</p>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+export default ChainIntegrityPanel;
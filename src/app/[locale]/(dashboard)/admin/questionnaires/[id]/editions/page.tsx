@@ -0,0 +1,56 @@
+import { redirect } from "next/navigation";
+import Link from "next/link";
+import { getTranslations } from "next-intl/server";
+import { auth } from "@/lib/auth";
+import { Button } from "@/components/ui/button";
+import { ChevronLeft } from "lucide-react";
+import { QuestionnaireEditions } from "@/components/features/admin/questionnaire-editions";
+
+interface EditionsPageProps {
+  params: Promise<{
+    locale: string;
+    id: string;
+  }>;
+}
+
+// Admin roles that can access this page
+const ADMIN_ROLES = ["SUPER_ADMIN", "SYSTEM_ADMIN", "PROGRAMME_COORDINATOR"];
+
+export async function generateMetadata({ params }: EditionsPageProps) {
+  const { locale } = await params;
+  const t = await getTranslations({ locale, namespace: "admin.questionnaires.editions" });
+
+  return {
+    title: t("title"),
+  };
+}
+
+export default async function QuestionnaireEditionsPage({ params }: EditionsPageProps) {
+  const { locale, id } = await params;
+  const session = await auth();
+
+  // Check authentication
+  if (!session?.user) {
+    redirect(`/${locale}/login`);
+  }
+
+  // Check authorization
+  if (!ADMIN_ROLES.includes(session.user.role)) {
+    redirect(`/${locale}/unauthorized`);
+  }
+
+  const t = await getTranslations({ locale, namespace: "admin.import" });
+
+  return (
+    <div className="container mx-auto py-6 px-4 max-w-6xl">
+      <Button variant="ghost" asChild className="mb-4">
+        <Link href={`/${locale}/admin/questionnaires`}>
+          <ChevronLeft className="h-4 w-4 mr-2" />
+          {t("backToList")}
+        </Link>
+      </Button>
+
+      <QuestionnaireEditions questionnaireId={id} locale={locale} />
+    </div>
+  );
+}
@@ -10,6 +10,9 @@ interface ImportPageProps {
   params: Promise<{
     locale: string;
   }>;
+  searchParams: Promise<{
+    previousEdition?: string;
+  }>;
 }
 
 // Admin roles that can access this page
@@ -25,8 +28,9 @@ export async function generateMetadata({ params }: ImportPageProps) {
   };
 }
 
-export default async function ImportPage({ params }: ImportPageProps) {
+export default async function ImportPage({ params, searchParams }: ImportPageProps) {
   const { locale } = await params;
+  const { previousEdition } = await searchParams;
   const session = await auth();
 
   // Check authentication
@@ -58,7 +62,7 @@ export default async function ImportPage({ params }: ImportPageProps) {
       </div>
 
       {/* Import Wizard */}
-      <QuestionnaireImportWizard locale={locale} />
+      <QuestionnaireImportWizard locale={locale} previousEditionId={previousEdition} />
     </div>
   );
 }
@@ -47,6 +47,7 @@ import {
   Hash,
   RefreshCw,
   Settings,
+  GitBranch,
 } from "lucide-react";
 import { trpc } from "@/lib/trpc/client";
 
@@ -272,6 +273,14 @@ export function QuestionnaireListContent({
                             <Edit className="h-4 w-4 mr-2" />
                             {t("actions.edit")}
                           </DropdownMenuItem>
+                          <DropdownMenuItem
+                            onClick={() =>
+                              router.push(`/${locale}/admin/questionnaires/${q.id}/editions`)
+                            }
+                          >
+                            <GitBranch className="h-4 w-4 mr-2" />
+                            {t("actions.editions")}
+                          </DropdownMenuItem>
                           <DropdownMenuSeparator />
                           <DropdownMenuItem
                             onClick={() => handleDelete(q.id, false)}
@@ -0,0 +1,41 @@
+import { redirect } from "next/navigation";
+import { getTranslations, setRequestLocale } from "next-intl/server";
+import { auth } from "@/lib/auth";
+import { UserRole } from "@/types/prisma-enums";
+import { SeverityRulesAdminClient } from "@/components/features/finding/severity-rules-admin";
+
+interface AdminSeverityRulesPageProps {
+  params: Promise<{ locale: string }>;
+}
+
+export async function generateMetadata({ params }: AdminSeverityRulesPageProps) {
+  const { locale } = await params;
+  const t = await getTranslations({ locale, namespace: "admin.severityRules" });
+  return {
+    title: t("title"),
+    description: t("description"),
+  };
+}
+
+export default async function AdminSeverityRulesPage({ params }: AdminSeverityRulesPageProps) {
+  const { locale } = await params;
+  setRequestLocale(locale);
+
+  const session = await auth();
+
+  if (!session?.user) {
+    redirect(`/${locale}/login`);
+  }
+
+  const userRole = session.user.role as UserRole;
+
+  if (!["SUPER_ADMIN", "SYSTEM_ADMIN", "PROGRAMME_COORDINATOR"].includes(userRole)) {
+    redirect(`/${locale}/dashboard`);
+  }
+
+  return (
+    <div className="container py-6">
+      <SeverityRulesAdminClient locale={locale} />
+    </div>
+  );
+}
@@ -163,6 +163,12 @@ export function SLADashboardClient() {
                       {(100 - capStats.breachRate).toFixed(1)}%
                     </span>
                   </div>
+                  <div className="flex justify-between">
+                    <span className="text-muted-foreground">
+                      {t("extended")}
+                    </span>
+                    <span className="font-medium">{capStats.extended}</span>
+                  </div>
                 </CardContent>
               </Card>
             </div>
@@ -0,0 +1,41 @@
+import { redirect } from "next/navigation";
+import { getTranslations, setRequestLocale } from "next-intl/server";
+import { auth } from "@/lib/auth";
+import { UserRole } from "@/types/prisma-enums";
+import { TranslationAdminClient } from "@/components/features/translation/translation-admin";
+
+interface AdminTranslationsPageProps {
+  params: Promise<{ locale: string }>;
+}
+
+export async function generateMetadata({ params }: AdminTranslationsPageProps) {
+  const { locale } = await params;
+  const t = await getTranslations({ locale, namespace: "admin.translations" });
+  return {
+    title: t("title"),
+    description: t("description"),
+  };
+}
+
+export default async function AdminTranslationsPage({ params }: AdminTranslationsPageProps) {
+  const { locale } = await params;
+  setRequestLocale(locale);
+
+  const session = await auth();
+
+  if (!session?.user) {
+    redirect(`/${locale}/login`);
+  }
+
+  const userRole = session.user.role as UserRole;
+
+  if (!["SUPER_ADMIN", "SYSTEM_ADMIN", "PROGRAMME_COORDINATOR"].includes(userRole)) {
+    redirect(`/${locale}/dashboard`);
+  }
+
+  return (
+    <div className="container py-6">
+      <TranslationAdminClient locale={locale} />
+    </div>
+  );
+}
@@ -726,6 +726,31 @@ export function AnalyticsDashboard({ locale, embedded = false }: AnalyticsDashbo
                     </p>
                   </div>
                 </div>
+                <div className="grid grid-cols-2 gap-4">
+                  <div className="p-4 bg-muted rounded-lg text-center">
+                    <p className="text-sm font-medium text-muted-foreground">
+                      {t("extendedCount")}
+                    </p>
+                    <p className="text-3xl font-bold">
+                      {capStats?.extendedCount || 0}
+                    </p>
+                  </div>
+                  <div className="p-4 bg-muted rounded-lg text-center">
+                    <p className="text-sm font-medium text-muted-foreground">
+                      {t("overdueAgainstOriginal")}
+                    </p>
+                    <p
+                      className={cn(
+                        "text-3xl font-bold",
+                        (capStats?.overdueAgainstOriginalCount || 0) > 0
+                          ? "text-red-600"
+                          : "text-green-600"
+                      )}
+                    >
+                      {capStats?.overdueAgainstOriginalCount || 0}
+                    </p>
+                  </div>
+                </div>
               </CardContent>
             </Card>
 
@@ -757,6 +782,7 @@ export function AnalyticsDashboard({ locale, embedded = false }: AnalyticsDashbo
                         <TableHead>{t("findingReference")}</TableHead>
                         <TableHead>{t("organization")}</TableHead>
                         <TableHead>{t("dueDate")}</TableHead>
+                        <TableHead>{t("originalDueDate")}</TableHead>
                         <TableHead className="text-right">{t("daysOverdue")}</TableHead>
                         <TableHead>{t("status")}</TableHead>
                       </TableRow>
@@ -771,10 +797,22 @@ export function AnalyticsDashboard({ locale, embedded = false }: AnalyticsDashbo
                           <TableCell>
                             {new Date(cap.dueDate).toLocaleDateString()}
                           </TableCell>
+                          <TableCell className="text-muted-foreground">
+                            {cap.originalDueDate
+                              ? new Date(cap.originalDueDate).toLocaleDateString()
+                              : "—"}
+                          </TableCell>
                           <TableCell className="text-right">
                             <span className="text-red-600 font-bold">
                               {cap.daysOverdue}
                             </span>
+                            {cap.originalDueDate && (
+                              <span className="block text-xs text-muted-foreground">
+                                {t("daysOverdueAgainstOriginal", {
+                                  count: cap.daysOverdueAgainstOriginal,
+                                })}
+                              </span>
+                            )}
                           </TableCell>
                           <TableCell>
                             <Badge variant="secondary">{cap.status}</Badge>
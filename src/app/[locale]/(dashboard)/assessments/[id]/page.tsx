@@ -21,6 +21,8 @@ import { trpc } from "@/lib/trpc/client";
 import { format } from "date-fns";
 import { fr, enUS } from "date-fns/locale";
 import { AssessmentScoreSummary } from "@/components/features/assessment/assessment-score-summary";
+import { AssessmentWorkbookActions } from "@/components/features/assessment/assessment-workbook-actions";
+import { AssessmentDeltaView } from "@/components/features/scoring";
 import type { AssessmentStatus } from "@/types/prisma-enums";
 
 interface PageProps {
@@ -99,7 +101,12 @@ export default function AssessmentDetailPage({ params }: PageProps) {
             <p className="text-muted-foreground mt-1">{questionnaireTitle}</p>
           </div>
         </div>
-        <div className="flex gap-2">
+        <div className="flex flex-wrap gap-2">
+          <AssessmentWorkbookActions
+            assessmentId={assessment.id}
+            type={assessment.questionnaire.type as "ANS_USOAP_CMA" | "SMS_CANSO_SOE"}
+            isEditable={isEditable}
+          />
           {isEditable && (
             <Button asChild>
               <Link href={`/assessments/${assessment.id}/take`}>
@@ -219,6 +226,12 @@ export default function AssessmentDetailPage({ params }: PageProps) {
               completedAt: assessment.completedAt,
             }}
           />
+          <div className="mt-6">
+            <AssessmentDeltaView
+              assessmentId={assessment.id}
+              type={assessment.questionnaire.type as "ANS_USOAP_CMA" | "SMS_CANSO_SOE"}
+            />
+          </div>
         </motion.div>
       )}
 
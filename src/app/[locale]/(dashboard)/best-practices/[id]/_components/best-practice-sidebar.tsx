@@ -115,6 +115,7 @@ export function BestPracticeSidebar({
           <CardContent>
             <RequestMentorship
               bestPracticeId={practice.id}
+              locale={locale}
               targetOrgName={orgName}
               isOwnOrg={isOwnOrg}
               userRole={userRole}
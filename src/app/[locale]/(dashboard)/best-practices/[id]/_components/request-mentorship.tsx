@@ -1,6 +1,7 @@
 "use client";
 
 import { useState } from "react";
+import Link from "next/link";
 import { useTranslations } from "next-intl";
 import { trpc } from "@/lib/trpc/client";
 import { Button } from "@/components/ui/button";
@@ -33,6 +34,7 @@ import type { UserRole } from "@/types/prisma-enums";
 
 interface RequestMentorshipProps {
   bestPracticeId: string;
+  locale: string;
   targetOrgName: string;
   isOwnOrg: boolean;
   userRole?: string;
@@ -41,12 +43,14 @@ interface RequestMentorshipProps {
 
 export function RequestMentorship({
   bestPracticeId,
+  locale,
   targetOrgName,
   isOwnOrg,
   userRole,
   userOrgId,
 }: RequestMentorshipProps) {
   const t = useTranslations("bestPractices.detail.mentorship");
+  const utils = trpc.useUtils();
   const [dialogOpen, setDialogOpen] = useState(false);
   const [message, setMessage] = useState("");
 
@@ -60,6 +64,7 @@ export function RequestMentorship({
       toast.success(t("requestSent"));
       setDialogOpen(false);
       setMessage("");
+      utils.bestPractice.getMentorshipStatus.invalidate({ bestPracticeId });
     },
     onError: (error) => {
       toast.error(error.message);
@@ -105,6 +110,9 @@ export function RequestMentorship({
         <p className="text-xs text-muted-foreground">
           {t("programmeHint")}
         </p>
+        <Button variant="outline" size="sm" className="w-full" asChild>
+          <Link href={`/${locale}/best-practices/mentorships`}>{t("viewProgramme")}</Link>
+        </Button>
       </div>
     );
   }
@@ -118,9 +126,11 @@ export function RequestMentorship({
           <div className="space-y-2">
             <p className="text-sm text-muted-foreground">{t("ownOrgMessage")}</p>
             {(status?.pendingRequests || 0) > 0 && (
-              <Badge variant="secondary">
-                {t("viewRequests", { count: status?.pendingRequests || 0 })}
-              </Badge>
+              <Link href={`/${locale}/best-practices/mentorships`}>
+                <Badge variant="secondary">
+                  {t("viewRequests", { count: status?.pendingRequests || 0 })}
+                </Badge>
+              </Link>
             )}
           </div>
         </div>
@@ -138,6 +148,25 @@ export function RequestMentorship({
     );
   }
 
+  // Request accepted: mentorship under way
+  if (status?.hasOpenMentorship && !status.hasPendingRequest) {
+    return (
+      <div className="bg-primary/5 rounded-lg p-4 border border-primary/20">
+        <div className="flex items-start gap-3">
+          <GraduationCap className="h-5 w-5 text-primary mt-0.5" />
+          <div className="space-y-2">
+            <p className="text-sm text-muted-foreground">{t("mentorshipUnderway")}</p>
+            <Button variant="outline" size="sm" asChild>
+              <Link href={`/${locale}/best-practices/mentorships/${status.lastRequest?.id}`}>
+                {t("viewMentorship")}
+              </Link>
+            </Button>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
   // Already has pending request
   if (status?.hasPendingRequest) {
     return (
@@ -0,0 +1,616 @@
+"use client";
+
+/**
+ * Mentorship Detail — request, agreed plan with milestones, session log
+ * and outcome of one mentorship, with the actions open to the user's side.
+ */
+
+import { useState } from "react";
+import Link from "next/link";
+import { useTranslations } from "next-intl";
+import {
+  ArrowLeft,
+  ArrowRight,
+  CheckCircle2,
+  Circle,
+  Clock,
+  Pencil,
+  Plus,
+  Star,
+  Trash2,
+} from "lucide-react";
+import { toast } from "sonner";
+import { trpc } from "@/lib/trpc/client";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Progress } from "@/components/ui/progress";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  OPEN_MENTORSHIP_STATUSES,
+  PLAN_EDITABLE_STATUSES,
+  SESSION_STATUSES,
+} from "@/lib/mentorship/lifecycle";
+import { MENTORSHIP_STATUS_VARIANTS } from "../../_components/mentorships-client";
+import {
+  CancelMentorshipDialog,
+  CompleteMentorshipDialog,
+  MilestoneDialog,
+  RespondDialog,
+  SessionDialog,
+  toDateInput,
+  type MilestoneFormValue,
+} from "./mentorship-dialogs";
+
+interface MentorshipDetailProps {
+  id: string;
+  locale: string;
+  userId: string;
+}
+
+export function MentorshipDetail({ id, locale, userId }: MentorshipDetailProps) {
+  const t = useTranslations("bestPractices.mentorships");
+  const utils = trpc.useUtils();
+
+  const [respondAccept, setRespondAccept] = useState<boolean | null>(null);
+  const [cancelOpen, setCancelOpen] = useState(false);
+  const [completeOpen, setCompleteOpen] = useState(false);
+  const [sessionOpen, setSessionOpen] = useState(false);
+  const [milestone, setMilestone] = useState<MilestoneFormValue | null>(null);
+  const [editingPlan, setEditingPlan] = useState(false);
+  const [plan, setPlan] = useState({ objectives: "", startDate: "", endDate: "" });
+
+  const { data: mentorship, isLoading, error } = trpc.mentorship.getById.useQuery({ id });
+
+  const invalidate = () => {
+    utils.mentorship.getById.invalidate({ id });
+    utils.mentorship.list.invalidate();
+  };
+  const onError = (err: { message: string }) => toast.error(err.message);
+
+  const updatePlan = trpc.mentorship.updatePlan.useMutation({
+    onSuccess: () => {
+      toast.success(t("plan.saved"));
+      setEditingPlan(false);
+      invalidate();
+    },
+    onError,
+  });
+  const agreePlan = trpc.mentorship.agreePlan.useMutation({
+    onSuccess: () => {
+      toast.success(t("plan.agreed"));
+      invalidate();
+    },
+    onError,
+  });
+  const deleteMilestone = trpc.mentorship.deleteMilestone.useMutation({
+    onSuccess: invalidate,
+    onError,
+  });
+  const setMilestoneComplete = trpc.mentorship.setMilestoneComplete.useMutation({
+    onSuccess: invalidate,
+    onError,
+  });
+  const deleteSession = trpc.mentorship.deleteSession.useMutation({
+    onSuccess: invalidate,
+    onError,
+  });
+
+  const formatDate = (date: Date | string) =>
+    new Intl.DateTimeFormat(locale === "fr" ? "fr-FR" : "en-US", { dateStyle: "medium" }).format(
+      new Date(date)
+    );
+  const name = (org: { nameEn: string; nameFr: string }) =>
+    locale === "fr" ? org.nameFr : org.nameEn;
+  const person = (user: { firstName: string; lastName: string } | null | undefined) =>
+    user ? `${user.firstName} ${user.lastName}` : "—";
+
+  if (isLoading) {
+    return (
+      <div className="space-y-4">
+        <Skeleton className="h-24" />
+        <Skeleton className="h-48" />
+        <Skeleton className="h-48" />
+      </div>
+    );
+  }
+
+  if (error || !mentorship) {
+    return (
+      <Card>
+        <CardContent className="py-12 text-center text-muted-foreground">
+          {error?.message ?? t("notFound")}
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const { side, canManage, status } = mentorship;
+  const planEditable = !!side && PLAN_EDITABLE_STATUSES.includes(status);
+  const ownAgreedAt = side === "MENTOR" ? mentorship.mentorAgreedAt : mentorship.menteeAgreedAt;
+
+  const startEditingPlan = () => {
+    setPlan({
+      objectives: mentorship.planObjectives ?? "",
+      startDate: toDateInput(mentorship.planStartDate),
+      endDate: toDateInput(mentorship.planEndDate),
+    });
+    setEditingPlan(true);
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div>
+        <Button variant="ghost" size="sm" asChild className="mb-2 -ml-2">
+          <Link href={`/${locale}/best-practices/mentorships`}>
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            {t("backToList")}
+          </Link>
+        </Button>
+        <div className="flex flex-wrap items-start justify-between gap-4">
+          <div className="space-y-1">
+            <div className="flex items-center gap-2">
+              <Badge variant={MENTORSHIP_STATUS_VARIANTS[status]}>{t(`status.${status}`)}</Badge>
+              {side && <Badge variant="outline">{t(`sides.${side}`)}</Badge>}
+            </div>
+            <h1 className="text-2xl font-bold tracking-tight">
+              <Link
+                href={`/${locale}/best-practices/${mentorship.bestPractice.id}`}
+                className="hover:underline"
+              >
+                {locale === "fr" ? mentorship.bestPractice.titleFr : mentorship.bestPractice.titleEn}
+              </Link>
+            </h1>
+            <p className="flex items-center gap-2 text-sm text-muted-foreground">
+              {t("menteeLabel", { org: name(mentorship.requestingOrg) })}
+              <ArrowRight className="h-3 w-3" />
+              {t("mentorLabel", { org: name(mentorship.targetOrg) })}
+            </p>
+          </div>
+
+          {canManage && (
+            <div className="flex flex-wrap gap-2">
+              {side === "MENTOR" && status === "PENDING" && (
+                <>
+                  <Button onClick={() => setRespondAccept(true)}>{t("actions.accept")}</Button>
+                  <Button variant="outline" onClick={() => setRespondAccept(false)}>
+                    {t("actions.decline")}
+                  </Button>
+                </>
+              )}
+              {side === "MENTEE" && status === "ACTIVE" && (
+                <Button onClick={() => setCompleteOpen(true)}>{t("actions.complete")}</Button>
+              )}
+              {OPEN_MENTORSHIP_STATUSES.includes(status) && (
+                <Button variant="outline" onClick={() => setCancelOpen(true)}>
+                  {t("actions.cancel")}
+                </Button>
+              )}
+            </div>
+          )}
+        </div>
+      </div>
+
+      {/* Request */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-base">{t("request.title")}</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4 text-sm">
+          <div>
+            <p className="text-muted-foreground">
+              {t("request.requestedBy", {
+                name: person(mentorship.requester),
+                date: formatDate(mentorship.createdAt),
+              })}
+            </p>
+            <p className="mt-1 whitespace-pre-wrap">{mentorship.message}</p>
+          </div>
+          {mentorship.respondedAt && (
+            <div>
+              <p className="text-muted-foreground">
+                {t("request.respondedBy", {
+                  name: person(mentorship.respondedBy),
+                  date: formatDate(mentorship.respondedAt),
+                })}
+              </p>
+              {mentorship.responseMessage && (
+                <p className="mt-1 whitespace-pre-wrap">{mentorship.responseMessage}</p>
+              )}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {status !== "PENDING" && status !== "DECLINED" && (
+        <>
+          {/* Plan */}
+          <Card>
+            <CardHeader className="flex flex-row items-center justify-between space-y-0">
+              <CardTitle className="text-base">{t("plan.title")}</CardTitle>
+              {planEditable && !editingPlan && (
+                <Button variant="outline" size="sm" onClick={startEditingPlan}>
+                  <Pencil className="h-4 w-4 mr-2" />
+                  {t("plan.edit")}
+                </Button>
+              )}
+            </CardHeader>
+            <CardContent className="space-y-4 text-sm">
+              {editingPlan ? (
+                <div className="space-y-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="plan-objectives">{t("plan.objectives")}</Label>
+                    <Textarea
+                      id="plan-objectives"
+                      value={plan.objectives}
+                      onChange={(e) => setPlan({ ...plan, objectives: e.target.value })}
+                      rows={5}
+                    />
+                  </div>
+                  <div className="grid grid-cols-2 gap-4">
+                    <div className="space-y-2">
+                      <Label htmlFor="plan-start">{t("plan.startDate")}</Label>
+                      <Input
+                        id="plan-start"
+                        type="date"
+                        value={plan.startDate}
+                        onChange={(e) => setPlan({ ...plan, startDate: e.target.value })}
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="plan-end">{t("plan.endDate")}</Label>
+                      <Input
+                        id="plan-end"
+                        type="date"
+                        value={plan.endDate}
+                        onChange={(e) => setPlan({ ...plan, endDate: e.target.value })}
+                      />
+                    </div>
+                  </div>
+                  <p className="text-xs text-muted-foreground">{t("plan.resetHint")}</p>
+                  <div className="flex justify-end gap-2">
+                    <Button variant="outline" onClick={() => setEditingPlan(false)}>
+                      {t("dialogs.cancel")}
+                    </Button>
+                    <Button
+                      disabled={
+                        plan.objectives.trim().length < 10 ||
+                        !plan.startDate ||
+                        !plan.endDate ||
+                        updatePlan.isPending
+                      }
+                      onClick={() =>
+                        updatePlan.mutate({
+                          mentorshipId: mentorship.id,
+                          planObjectives: plan.objectives.trim(),
+                          planStartDate: new Date(plan.startDate),
+                          planEndDate: new Date(plan.endDate),
+                        })
+                      }
+                    >
+                      {t("dialogs.save")}
+                    </Button>
+                  </div>
+                </div>
+              ) : mentorship.planObjectives ? (
+                <>
+                  <p className="whitespace-pre-wrap">{mentorship.planObjectives}</p>
+                  {mentorship.planStartDate && mentorship.planEndDate && (
+                    <p className="text-muted-foreground">
+                      {t("plan.period", {
+                        start: formatDate(mentorship.planStartDate),
+                        end: formatDate(mentorship.planEndDate),
+                      })}
+                    </p>
+                  )}
+                </>
+              ) : (
+                <p className="text-muted-foreground">{t("plan.empty")}</p>
+              )}
+
+              {/* Agreement */}
+              <div className="flex flex-wrap items-center gap-4 border-t pt-4">
+                {(["MENTOR", "MENTEE"] as const).map((agreeSide) => {
+                  const agreedAt =
+                    agreeSide === "MENTOR" ? mentorship.mentorAgreedAt : mentorship.menteeAgreedAt;
+                  return (
+                    <span key={agreeSide} className="flex items-center gap-1.5">
+                      {agreedAt ? (
+                        <CheckCircle2 className="h-4 w-4 text-green-600" />
+                      ) : (
+                        <Circle className="h-4 w-4 text-muted-foreground" />
+                      )}
+                      {agreedAt
+                        ? t("plan.agreedBy", {
+                            side: t(`sides.${agreeSide}`),
+                            date: formatDate(agreedAt),
+                          })
+                        : t("plan.notAgreedBy", { side: t(`sides.${agreeSide}`) })}
+                    </span>
+                  );
+                })}
+                {planEditable && canManage && !ownAgreedAt && !editingPlan && (
+                  <Button
+                    size="sm"
+                    className="ml-auto"
+                    disabled={agreePlan.isPending}
+                    onClick={() => agreePlan.mutate({ mentorshipId: mentorship.id })}
+                  >
+                    {t("plan.agree")}
+                  </Button>
+                )}
+              </div>
+            </CardContent>
+          </Card>
+
+          {/* Milestones */}
+          <Card>
+            <CardHeader className="flex flex-row items-center justify-between space-y-0">
+              <div className="space-y-1">
+                <CardTitle className="text-base">{t("milestones.title")}</CardTitle>
+                {mentorship.progress.total > 0 && (
+                  <p className="text-xs text-muted-foreground">
+                    {t("progress", {
+                      completed: mentorship.progress.completed,
+                      total: mentorship.progress.total,
+                    })}
+                  </p>
+                )}
+              </div>
+              {planEditable && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setMilestone({ title: "", description: null, dueDate: null })}
+                >
+                  <Plus className="h-4 w-4 mr-2" />
+                  {t("milestones.add")}
+                </Button>
+              )}
+            </CardHeader>
+            <CardContent className="space-y-3">
+              {mentorship.progress.total > 0 && (
+                <Progress value={mentorship.progress.percent} className="h-2" />
+              )}
+              {mentorship.milestones.length === 0 ? (
+                <p className="text-sm text-muted-foreground">{t("milestones.empty")}</p>
+              ) : (
+                <ul className="divide-y">
+                  {mentorship.milestones.map((m) => {
+                    const isOverdue =
+                      !m.completedAt && m.dueDate && new Date(m.dueDate) < new Date();
+                    return (
+                      <li key={m.id} className="flex items-start gap-3 py-3">
+                        <Checkbox
+                          checked={!!m.completedAt}
+                          disabled={status !== "ACTIVE" || !side || setMilestoneComplete.isPending}
+                          onCheckedChange={(checked) =>
+                            setMilestoneComplete.mutate({ id: m.id, completed: checked === true })
+                          }
+                          className="mt-0.5"
+                        />
+                        <div className="flex-1 min-w-0 text-sm">
+                          <p className={m.completedAt ? "line-through text-muted-foreground" : "font-medium"}>
+                            {m.title}
+                          </p>
+                          {m.description && (
+                            <p className="text-muted-foreground">{m.description}</p>
+                          )}
+                          <p className="text-xs text-muted-foreground">
+                            {m.dueDate && (
+                              <span className={isOverdue ? "text-destructive" : undefined}>
+                                <Clock className="inline h-3 w-3 mr-1" />
+                                {formatDate(m.dueDate)}
+                              </span>
+                            )}
+                            {m.completedAt &&
+                              ` · ${t("milestones.completedBy", {
+                                name: person(m.completedBy),
+                                date: formatDate(m.completedAt),
+                              })}`}
+                          </p>
+                        </div>
+                        {planEditable && (
+                          <div className="flex gap-1">
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() =>
+                                setMilestone({
+                                  id: m.id,
+                                  title: m.title,
+                                  description: m.description,
+                                  dueDate: m.dueDate,
+                                })
+                              }
+                            >
+                              <Pencil className="h-4 w-4" />
+                              <span className="sr-only">{t("milestones.edit")}</span>
+                            </Button>
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              disabled={deleteMilestone.isPending}
+                              onClick={() => {
+                                if (confirm(t("milestones.deleteConfirm"))) {
+                                  deleteMilestone.mutate({ id: m.id });
+                                }
+                              }}
+                            >
+                              <Trash2 className="h-4 w-4" />
+                              <span className="sr-only">{t("milestones.delete")}</span>
+                            </Button>
+                          </div>
+                        )}
+                      </li>
+                    );
+                  })}
+                </ul>
+              )}
+            </CardContent>
+          </Card>
+
+          {/* Sessions */}
+          <Card>
+            <CardHeader className="flex flex-row items-center justify-between space-y-0">
+              <CardTitle className="text-base">{t("sessions.title")}</CardTitle>
+              {side && SESSION_STATUSES.includes(status) && (
+                <Button variant="outline" size="sm" onClick={() => setSessionOpen(true)}>
+                  <Plus className="h-4 w-4 mr-2" />
+                  {t("sessions.log")}
+                </Button>
+              )}
+            </CardHeader>
+            <CardContent>
+              {mentorship.sessions.length === 0 ? (
+                <p className="text-sm text-muted-foreground">{t("sessions.empty")}</p>
+              ) : (
+                <ul className="divide-y">
+                  {mentorship.sessions.map((session) => (
+                    <li key={session.id} className="space-y-1 py-3 text-sm">
+                      <div className="flex items-center justify-between gap-2">
+                        <p className="font-medium">
+                          {formatDate(session.sessionDate)} ·{" "}
+                          {t("sessions.duration", { minutes: session.durationMinutes })} ·{" "}
+                          {t(`sessionFormats.${session.format}`)}
+                        </p>
+                        {session.loggedBy.id === userId && SESSION_STATUSES.includes(status) && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            disabled={deleteSession.isPending}
+                            onClick={() => {
+                              if (confirm(t("sessions.deleteConfirm"))) {
+                                deleteSession.mutate({ id: session.id });
+                              }
+                            }}
+                          >
+                            <Trash2 className="h-4 w-4" />
+                            <span className="sr-only">{t("sessions.delete")}</span>
+                          </Button>
+                        )}
+                      </div>
+                      <p>{session.topics}</p>
+                      {session.notes && (
+                        <p className="whitespace-pre-wrap text-muted-foreground">{session.notes}</p>
+                      )}
+                      {session.actionItems && (
+                        <div>
+                          <p className="text-xs font-medium uppercase text-muted-foreground">
+                            {t("sessions.actionItems")}
+                          </p>
+                          <p className="whitespace-pre-wrap">{session.actionItems}</p>
+                        </div>
+                      )}
+                      <p className="text-xs text-muted-foreground">
+                        {t("sessions.loggedBy", { name: person(session.loggedBy) })}
+                      </p>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </CardContent>
+          </Card>
+        </>
+      )}
+
+      {/* Outcome / closure */}
+      {status === "COMPLETED" && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-base">{t("outcome.title")}</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-3 text-sm">
+            <p className="whitespace-pre-wrap">{mentorship.outcomeSummary}</p>
+            {mentorship.outcomeRating && (
+              <p className="flex items-center gap-1">
+                {Array.from({ length: 5 }).map((_, i) => (
+                  <Star
+                    key={i}
+                    className={`h-4 w-4 ${
+                      i < mentorship.outcomeRating! ? "fill-amber-400 text-amber-400" : "text-muted"
+                    }`}
+                  />
+                ))}
+              </p>
+            )}
+            {mentorship.adoption?.implementationStatus && (
+              <p>
+                {t("outcome.adoption")}{" "}
+                <Badge variant="secondary">
+                  {t(`implementationStatus.${mentorship.adoption.implementationStatus}`)}
+                </Badge>
+              </p>
+            )}
+            {mentorship.closedAt && (
+              <p className="text-muted-foreground">
+                {t("outcome.closedBy", {
+                  name: person(mentorship.closedBy),
+                  date: formatDate(mentorship.closedAt),
+                })}
+              </p>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      {status === "CANCELLED" && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-base">{t("cancellation.title")}</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-2 text-sm">
+            <p className="whitespace-pre-wrap">{mentorship.closureReason}</p>
+            {mentorship.closedAt && (
+              <p className="text-muted-foreground">
+                {t("outcome.closedBy", {
+                  name: person(mentorship.closedBy),
+                  date: formatDate(mentorship.closedAt),
+                })}
+              </p>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Dialogs */}
+      {respondAccept !== null && (
+        <RespondDialog
+          mentorshipId={mentorship.id}
+          accept={respondAccept}
+          open
+          onOpenChange={(open) => !open && setRespondAccept(null)}
+        />
+      )}
+      <CancelMentorshipDialog
+        mentorshipId={mentorship.id}
+        open={cancelOpen}
+        onOpenChange={setCancelOpen}
+      />
+      <CompleteMentorshipDialog
+        mentorshipId={mentorship.id}
+        open={completeOpen}
+        onOpenChange={setCompleteOpen}
+      />
+      <SessionDialog
+        mentorshipId={mentorship.id}
+        open={sessionOpen}
+        onOpenChange={setSessionOpen}
+      />
+      {milestone && (
+        <MilestoneDialog
+          key={milestone.id ?? "new"}
+          mentorshipId={mentorship.id}
+          milestone={milestone}
+          open
+          onOpenChange={(open) => !open && setMilestone(null)}
+        />
+      )}
+    </div>
+  );
+}
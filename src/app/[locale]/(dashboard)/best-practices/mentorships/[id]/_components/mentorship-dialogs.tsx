@@ -0,0 +1,492 @@
+"use client";
+
+/**
+ * Mentorship action dialogs: respond to a request, cancel, complete with
+ * the outcome report, edit a milestone and log a session.
+ */
+
+import { useState } from "react";
+import { useTranslations } from "next-intl";
+import { Loader2 } from "lucide-react";
+import { toast } from "sonner";
+import { trpc } from "@/lib/trpc/client";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Textarea } from "@/components/ui/textarea";
+import { MentorshipSessionFormat } from "@/types/prisma-enums";
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+interface DialogProps {
+  mentorshipId: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export interface MilestoneFormValue {
+  id?: string;
+  title: string;
+  description: string | null;
+  dueDate: Date | null;
+}
+
+const IMPLEMENTATION_STATUSES = ["PLANNED", "IN_PROGRESS", "COMPLETED"] as const;
+type ImplementationStatus = (typeof IMPLEMENTATION_STATUSES)[number];
+
+/** yyyy-mm-dd for date inputs */
+export function toDateInput(date: Date | string | null | undefined): string {
+  return date ? new Date(date).toISOString().split("T")[0] : "";
+}
+
+function useInvalidate() {
+  const utils = trpc.useUtils();
+  return () => {
+    utils.mentorship.getById.invalidate();
+    utils.mentorship.list.invalidate();
+  };
+}
+
+// =============================================================================
+// RESPOND
+// =============================================================================
+
+export function RespondDialog({
+  mentorshipId,
+  open,
+  onOpenChange,
+  accept,
+}: DialogProps & { accept: boolean }) {
+  const t = useTranslations("bestPractices.mentorships.dialogs");
+  const invalidate = useInvalidate();
+  const [message, setMessage] = useState("");
+
+  const respond = trpc.mentorship.respond.useMutation({
+    onSuccess: () => {
+      toast.success(accept ? t("accepted") : t("declined"));
+      setMessage("");
+      onOpenChange(false);
+      invalidate();
+    },
+    onError: (error) => toast.error(error.message),
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{accept ? t("acceptTitle") : t("declineTitle")}</DialogTitle>
+          <DialogDescription>
+            {accept ? t("acceptDescription") : t("declineDescription")}
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-2">
+          <Label htmlFor="response-message">{t("responseMessage")}</Label>
+          <Textarea
+            id="response-message"
+            value={message}
+            onChange={(e) => setMessage(e.target.value)}
+            rows={4}
+          />
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            {t("cancel")}
+          </Button>
+          <Button
+            variant={accept ? "default" : "destructive"}
+            disabled={respond.isPending}
+            onClick={() =>
+              respond.mutate({ mentorshipId, accept, message: message.trim() || undefined })
+            }
+          >
+            {respond.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            {accept ? t("accept") : t("decline")}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+// =============================================================================
+// CANCEL
+// =============================================================================
+
+export function CancelMentorshipDialog({ mentorshipId, open, onOpenChange }: DialogProps) {
+  const t = useTranslations("bestPractices.mentorships.dialogs");
+  const invalidate = useInvalidate();
+  const [reason, setReason] = useState("");
+
+  const cancel = trpc.mentorship.cancel.useMutation({
+    onSuccess: () => {
+      toast.success(t("cancelled"));
+      setReason("");
+      onOpenChange(false);
+      invalidate();
+    },
+    onError: (error) => toast.error(error.message),
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{t("cancelTitle")}</DialogTitle>
+          <DialogDescription>{t("cancelDescription")}</DialogDescription>
+        </DialogHeader>
+        <div className="space-y-2">
+          <Label htmlFor="cancel-reason">{t("reason")}</Label>
+          <Textarea
+            id="cancel-reason"
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+            rows={4}
+          />
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            {t("cancel")}
+          </Button>
+          <Button
+            variant="destructive"
+            disabled={reason.trim().length < 10 || cancel.isPending}
+            onClick={() => cancel.mutate({ mentorshipId, reason: reason.trim() })}
+          >
+            {cancel.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            {t("confirmCancel")}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+// =============================================================================
+// COMPLETE
+// =============================================================================
+
+export function CompleteMentorshipDialog({ mentorshipId, open, onOpenChange }: DialogProps) {
+  const t = useTranslations("bestPractices.mentorships.dialogs");
+  const tAdoption = useTranslations("bestPractices.mentorships.implementationStatus");
+  const invalidate = useInvalidate();
+  const [summary, setSummary] = useState("");
+  const [rating, setRating] = useState("4");
+  const [implementationStatus, setImplementationStatus] =
+    useState<ImplementationStatus>("IN_PROGRESS");
+
+  const complete = trpc.mentorship.complete.useMutation({
+    onSuccess: () => {
+      toast.success(t("completed"));
+      onOpenChange(false);
+      invalidate();
+    },
+    onError: (error) => toast.error(error.message),
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{t("completeTitle")}</DialogTitle>
+          <DialogDescription>{t("completeDescription")}</DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="outcome-summary">{t("outcomeSummary")}</Label>
+            <Textarea
+              id="outcome-summary"
+              value={summary}
+              onChange={(e) => setSummary(e.target.value)}
+              placeholder={t("outcomeSummaryPlaceholder")}
+              rows={5}
+            />
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>{t("outcomeRating")}</Label>
+              <Select value={rating} onValueChange={setRating}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {[5, 4, 3, 2, 1].map((value) => (
+                    <SelectItem key={value} value={String(value)}>
+                      {t(`ratings.${value}`)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>{t("implementationStatus")}</Label>
+              <Select
+                value={implementationStatus}
+                onValueChange={(v) => setImplementationStatus(v as ImplementationStatus)}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {IMPLEMENTATION_STATUSES.map((status) => (
+                    <SelectItem key={status} value={status}>
+                      {tAdoption(status)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <p className="text-xs text-muted-foreground">{t("adoptionHint")}</p>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            {t("cancel")}
+          </Button>
+          <Button
+            disabled={summary.trim().length < 20 || complete.isPending}
+            onClick={() =>
+              complete.mutate({
+                mentorshipId,
+                outcomeSummary: summary.trim(),
+                outcomeRating: Number(rating),
+                implementationStatus,
+              })
+            }
+          >
+            {complete.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            {t("confirmComplete")}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+// =============================================================================
+// MILESTONE
+// =============================================================================
+
+export function MilestoneDialog({
+  mentorshipId,
+  open,
+  onOpenChange,
+  milestone,
+}: DialogProps & { milestone: MilestoneFormValue | null }) {
+  const t = useTranslations("bestPractices.mentorships.dialogs");
+  const invalidate = useInvalidate();
+  const [title, setTitle] = useState(milestone?.title ?? "");
+  const [description, setDescription] = useState(milestone?.description ?? "");
+  const [dueDate, setDueDate] = useState(toDateInput(milestone?.dueDate));
+
+  const save = trpc.mentorship.saveMilestone.useMutation({
+    onSuccess: () => {
+      toast.success(t("milestoneSaved"));
+      onOpenChange(false);
+      invalidate();
+    },
+    onError: (error) => toast.error(error.message),
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{milestone?.id ? t("editMilestone") : t("addMilestone")}</DialogTitle>
+          <DialogDescription>{t("milestoneDescription")}</DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="milestone-title">{t("milestoneTitle")}</Label>
+            <Input id="milestone-title" value={title} onChange={(e) => setTitle(e.target.value)} />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="milestone-description">{t("milestoneDetails")}</Label>
+            <Textarea
+              id="milestone-description"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              rows={3}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="milestone-due">{t("dueDate")}</Label>
+            <Input
+              id="milestone-due"
+              type="date"
+              value={dueDate}
+              onChange={(e) => setDueDate(e.target.value)}
+            />
+          </div>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            {t("cancel")}
+          </Button>
+          <Button
+            disabled={title.trim().length < 3 || save.isPending}
+            onClick={() =>
+              save.mutate({
+                mentorshipId,
+                id: milestone?.id,
+                title: title.trim(),
+                description: description.trim() || undefined,
+                dueDate: dueDate ? new Date(dueDate) : null,
+              })
+            }
+          >
+            {save.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            {t("save")}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+// =============================================================================
+// SESSION
+// =============================================================================
+
+export function SessionDialog({ mentorshipId, open, onOpenChange }: DialogProps) {
+  const t = useTranslations("bestPractices.mentorships.dialogs");
+  const tFormat = useTranslations("bestPractices.mentorships.sessionFormats");
+  const invalidate = useInvalidate();
+  const [sessionDate, setSessionDate] = useState(toDateInput(new Date()));
+  const [durationMinutes, setDurationMinutes] = useState("60");
+  const [format, setFormat] = useState<MentorshipSessionFormat>("VIRTUAL");
+  const [topics, setTopics] = useState("");
+  const [notes, setNotes] = useState("");
+  const [actionItems, setActionItems] = useState("");
+
+  const logSession = trpc.mentorship.logSession.useMutation({
+    onSuccess: () => {
+      toast.success(t("sessionLogged"));
+      setTopics("");
+      setNotes("");
+      setActionItems("");
+      onOpenChange(false);
+      invalidate();
+    },
+    onError: (error) => toast.error(error.message),
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{t("logSession")}</DialogTitle>
+          <DialogDescription>{t("sessionDescription")}</DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="grid grid-cols-3 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="session-date">{t("sessionDate")}</Label>
+              <Input
+                id="session-date"
+                type="date"
+                value={sessionDate}
+                onChange={(e) => setSessionDate(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="session-duration">{t("duration")}</Label>
+              <Input
+                id="session-duration"
+                type="number"
+                min={15}
+                step={15}
+                value={durationMinutes}
+                onChange={(e) => setDurationMinutes(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>{t("format")}</Label>
+              <Select
+                value={format}
+                onValueChange={(v) => setFormat(v as MentorshipSessionFormat)}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.values(MentorshipSessionFormat).map((value) => (
+                    <SelectItem key={value} value={value}>
+                      {tFormat(value)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="session-topics">{t("topics")}</Label>
+            <Textarea
+              id="session-topics"
+              value={topics}
+              onChange={(e) => setTopics(e.target.value)}
+              rows={2}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="session-notes">{t("notes")}</Label>
+            <Textarea
+              id="session-notes"
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              rows={3}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="session-actions">{t("actionItems")}</Label>
+            <Textarea
+              id="session-actions"
+              value={actionItems}
+              onChange={(e) => setActionItems(e.target.value)}
+              rows={3}
+            />
+          </div>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            {t("cancel")}
+          </Button>
+          <Button
+            disabled={!sessionDate || topics.trim().length < 5 || logSession.isPending}
+            onClick={() =>
+              logSession.mutate({
+                mentorshipId,
+                sessionDate: new Date(sessionDate),
+                durationMinutes: Number(durationMinutes),
+                format,
+                topics: topics.trim(),
+                notes: notes.trim() || undefined,
+                actionItems: actionItems.trim() || undefined,
+              })
+            }
+          >
+            {logSession.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            {t("save")}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
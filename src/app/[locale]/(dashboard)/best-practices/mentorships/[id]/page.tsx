@@ -0,0 +1,30 @@
+import { redirect } from "next/navigation";
+import { getTranslations, setRequestLocale } from "next-intl/server";
+import { auth } from "@/lib/auth";
+import { MentorshipDetail } from "./_components/mentorship-detail";
+
+interface MentorshipDetailPageProps {
+  params: Promise<{ locale: string; id: string }>;
+}
+
+export async function generateMetadata({ params }: MentorshipDetailPageProps) {
+  const { locale } = await params;
+  const t = await getTranslations({ locale, namespace: "bestPractices.mentorships" });
+  return { title: t("detailTitle") };
+}
+
+export default async function MentorshipDetailPage({ params }: MentorshipDetailPageProps) {
+  const { locale, id } = await params;
+  setRequestLocale(locale);
+
+  const session = await auth();
+  if (!session?.user) {
+    redirect(`/${locale}/auth/login`);
+  }
+
+  return (
+    <div className="container mx-auto py-6">
+      <MentorshipDetail id={id} locale={locale} userId={session.user.id} />
+    </div>
+  );
+}
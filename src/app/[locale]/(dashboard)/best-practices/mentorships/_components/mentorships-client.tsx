@@ -0,0 +1,341 @@
+"use client";
+
+/**
+ * Mentorships — the user's organization's mentorships (as mentor or
+ * mentee) and, for programme roles, every mentorship with a regional
+ * overview.
+ */
+
+import { useState } from "react";
+import Link from "next/link";
+import { useTranslations } from "next-intl";
+import { ArrowLeft, Clock, GraduationCap, Star, Users } from "lucide-react";
+import { trpc } from "@/lib/trpc/client";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Progress } from "@/components/ui/progress";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { AfricanRegion, MentorshipStatus } from "@/types/prisma-enums";
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+interface MentorshipsClientProps {
+  locale: string;
+  canViewProgramme: boolean;
+  hasOrganization: boolean;
+}
+
+type Scope = "organization" | "programme";
+
+export const MENTORSHIP_STATUS_VARIANTS: Record<
+  MentorshipStatus,
+  "default" | "secondary" | "outline" | "destructive"
+> = {
+  PENDING: "outline",
+  ACCEPTED: "secondary",
+  ACTIVE: "default",
+  COMPLETED: "secondary",
+  DECLINED: "destructive",
+  CANCELLED: "destructive",
+};
+
+const ALL = "ALL";
+
+// =============================================================================
+// MAIN COMPONENT
+// =============================================================================
+
+export function MentorshipsClient({
+  locale,
+  canViewProgramme,
+  hasOrganization,
+}: MentorshipsClientProps) {
+  const t = useTranslations("bestPractices.mentorships");
+  const defaultScope: Scope = hasOrganization || !canViewProgramme ? "organization" : "programme";
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <Button variant="ghost" size="sm" asChild className="mb-2 -ml-2">
+          <Link href={`/${locale}/knowledge?tab=bestPractices`}>
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            {t("back")}
+          </Link>
+        </Button>
+        <h1 className="text-2xl font-bold tracking-tight">{t("title")}</h1>
+        <p className="text-muted-foreground">{t("description")}</p>
+      </div>
+
+      {canViewProgramme ? (
+        <Tabs defaultValue={defaultScope} className="space-y-6">
+          <TabsList>
+            {hasOrganization && (
+              <TabsTrigger value="organization">{t("tabs.organization")}</TabsTrigger>
+            )}
+            <TabsTrigger value="programme">{t("tabs.programme")}</TabsTrigger>
+          </TabsList>
+          {hasOrganization && (
+            <TabsContent value="organization">
+              <MentorshipTable locale={locale} scope="organization" />
+            </TabsContent>
+          )}
+          <TabsContent value="programme" className="space-y-6">
+            <ProgrammeOverview />
+            <MentorshipTable locale={locale} scope="programme" />
+          </TabsContent>
+        </Tabs>
+      ) : (
+        <MentorshipTable locale={locale} scope="organization" />
+      )}
+    </div>
+  );
+}
+
+// =============================================================================
+// PROGRAMME OVERVIEW
+// =============================================================================
+
+function ProgrammeOverview() {
+  const t = useTranslations("bestPractices.mentorships");
+  const { data, isLoading } = trpc.mentorship.getProgrammeOverview.useQuery();
+
+  if (isLoading || !data) {
+    return (
+      <div className="grid gap-4 md:grid-cols-3">
+        {Array.from({ length: 3 }).map((_, i) => (
+          <Skeleton key={i} className="h-36" />
+        ))}
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap gap-6 text-sm">
+        <span className="flex items-center gap-2">
+          <Users className="h-4 w-4 text-muted-foreground" />
+          {t("overview.sessions", { count: data.sessionCount, hours: data.sessionHours })}
+        </span>
+        {data.averageOutcomeRating !== null && (
+          <span className="flex items-center gap-2">
+            <Star className="h-4 w-4 text-muted-foreground" />
+            {t("overview.averageRating", { rating: data.averageOutcomeRating.toFixed(1) })}
+          </span>
+        )}
+      </div>
+
+      <div className="grid gap-4 md:grid-cols-3">
+        {data.regions.map((region) => (
+          <Card key={region.region}>
+            <CardHeader className="pb-2">
+              <CardTitle className="text-base">{t(`regions.${region.region}`)}</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <dl className="grid grid-cols-2 gap-2 text-sm">
+                <dt className="text-muted-foreground">{t("overview.active")}</dt>
+                <dd className="text-right font-semibold">{region.active}</dd>
+                <dt className="text-muted-foreground">{t("overview.planning")}</dt>
+                <dd className="text-right">{region.planning}</dd>
+                <dt className="text-muted-foreground">{t("overview.pending")}</dt>
+                <dd className="text-right">{region.pending}</dd>
+                <dt className="text-muted-foreground">{t("overview.completed")}</dt>
+                <dd className="text-right">{region.completed}</dd>
+                <dt className="text-muted-foreground">{t("overview.crossRegional")}</dt>
+                <dd className="text-right">{region.crossRegional}</dd>
+              </dl>
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+// =============================================================================
+// MENTORSHIP TABLE
+// =============================================================================
+
+function MentorshipTable({ locale, scope }: { locale: string; scope: Scope }) {
+  const t = useTranslations("bestPractices.mentorships");
+  const [status, setStatus] = useState<MentorshipStatus | typeof ALL>(ALL);
+  const [region, setRegion] = useState<AfricanRegion | typeof ALL>(ALL);
+
+  const { data: mentorships, isLoading } = trpc.mentorship.list.useQuery({
+    scope,
+    status: status === ALL ? undefined : status,
+    region: region === ALL ? undefined : region,
+  });
+
+  const formatDate = (date: Date | string) =>
+    new Intl.DateTimeFormat(locale === "fr" ? "fr-FR" : "en-US", { dateStyle: "medium" }).format(
+      new Date(date)
+    );
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between gap-4 space-y-0">
+        <CardTitle className="text-base">
+          {scope === "programme" ? t("allMentorships") : t("ourMentorships")}
+        </CardTitle>
+        <div className="flex gap-2">
+          {scope === "programme" && (
+            <Select value={region} onValueChange={(v) => setRegion(v as AfricanRegion | typeof ALL)}>
+              <SelectTrigger className="w-40">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>{t("filters.allRegions")}</SelectItem>
+                {Object.values(AfricanRegion).map((r) => (
+                  <SelectItem key={r} value={r}>
+                    {t(`regions.${r}`)}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+          <Select value={status} onValueChange={(v) => setStatus(v as MentorshipStatus | typeof ALL)}>
+            <SelectTrigger className="w-40">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>{t("filters.allStatuses")}</SelectItem>
+              {Object.values(MentorshipStatus).map((s) => (
+                <SelectItem key={s} value={s}>
+                  {t(`status.${s}`)}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </CardHeader>
+      <CardContent className="p-0">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>{t("columns.practice")}</TableHead>
+              <TableHead>{scope === "programme" ? t("columns.mentee") : t("columns.partner")}</TableHead>
+              <TableHead>
+                {scope === "programme" ? t("columns.mentor") : t("columns.ourRole")}
+              </TableHead>
+              <TableHead>{t("columns.status")}</TableHead>
+              <TableHead className="w-40">{t("columns.milestones")}</TableHead>
+              <TableHead>{t("columns.sessions")}</TableHead>
+              <TableHead>{t("columns.requested")}</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {isLoading ? (
+              Array.from({ length: 3 }).map((_, i) => (
+                <TableRow key={i}>
+                  {Array.from({ length: 7 }).map((_, j) => (
+                    <TableCell key={j}>
+                      <Skeleton className="h-5 w-full" />
+                    </TableCell>
+                  ))}
+                </TableRow>
+              ))
+            ) : mentorships?.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={7} className="py-12 text-center text-muted-foreground">
+                  <GraduationCap className="mx-auto mb-2 h-8 w-8 opacity-50" />
+                  {t("empty")}
+                </TableCell>
+              </TableRow>
+            ) : (
+              mentorships?.map((m) => {
+                const name = (org: { nameEn: string; nameFr: string }) =>
+                  locale === "fr" ? org.nameFr : org.nameEn;
+                const partner = m.side === "MENTOR" ? m.requestingOrg : m.targetOrg;
+
+                return (
+                  <TableRow key={m.id}>
+                    <TableCell>
+                      <Link
+                        href={`/${locale}/best-practices/mentorships/${m.id}`}
+                        className="font-medium hover:underline"
+                      >
+                        {locale === "fr" ? m.bestPractice.titleFr : m.bestPractice.titleEn}
+                      </Link>
+                      <p className="text-xs text-muted-foreground">{m.bestPractice.referenceNumber}</p>
+                    </TableCell>
+                    {scope === "programme" ? (
+                      <>
+                        <TableCell className="text-sm">
+                          {name(m.requestingOrg)}
+                          <p className="text-xs text-muted-foreground">
+                            {t(`regions.${m.requestingOrg.region}`)}
+                          </p>
+                        </TableCell>
+                        <TableCell className="text-sm">
+                          {name(m.targetOrg)}
+                          <p className="text-xs text-muted-foreground">
+                            {t(`regions.${m.targetOrg.region}`)}
+                          </p>
+                        </TableCell>
+                      </>
+                    ) : (
+                      <>
+                        <TableCell className="text-sm">{name(partner)}</TableCell>
+                        <TableCell>
+                          {m.side && <Badge variant="outline">{t(`sides.${m.side}`)}</Badge>}
+                        </TableCell>
+                      </>
+                    )}
+                    <TableCell>
+                      <Badge variant={MENTORSHIP_STATUS_VARIANTS[m.status]}>
+                        {t(`status.${m.status}`)}
+                      </Badge>
+                    </TableCell>
+                    <TableCell>
+                      {m.progress.total > 0 ? (
+                        <div className="space-y-1">
+                          <Progress value={m.progress.percent} className="h-1.5" />
+                          <p className="text-xs text-muted-foreground">
+                            {t("progress", {
+                              completed: m.progress.completed,
+                              total: m.progress.total,
+                            })}
+                            {m.progress.overdue > 0 && (
+                              <span className="ml-1 text-destructive">
+                                <Clock className="inline h-3 w-3" /> {m.progress.overdue}
+                              </span>
+                            )}
+                          </p>
+                        </div>
+                      ) : (
+                        <span className="text-xs text-muted-foreground">—</span>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-sm">{m._count.sessions}</TableCell>
+                    <TableCell className="text-sm text-muted-foreground">
+                      {formatDate(m.createdAt)}
+                    </TableCell>
+                  </TableRow>
+                );
+              })
+            )}
+          </TableBody>
+        </Table>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,39 @@
+import { redirect } from "next/navigation";
+import { getTranslations, setRequestLocale } from "next-intl/server";
+import { auth } from "@/lib/auth";
+import { isOversightRole } from "@/lib/permissions";
+import { UserRole } from "@/types/prisma-enums";
+import { MentorshipsClient } from "./_components/mentorships-client";
+
+interface MentorshipsPageProps {
+  params: Promise<{ locale: string }>;
+}
+
+export async function generateMetadata({ params }: MentorshipsPageProps) {
+  const { locale } = await params;
+  const t = await getTranslations({ locale, namespace: "bestPractices.mentorships" });
+  return {
+    title: t("title"),
+    description: t("description"),
+  };
+}
+
+export default async function MentorshipsPage({ params }: MentorshipsPageProps) {
+  const { locale } = await params;
+  setRequestLocale(locale);
+
+  const session = await auth();
+  if (!session?.user) {
+    redirect(`/${locale}/auth/login`);
+  }
+
+  return (
+    <div className="container mx-auto py-6">
+      <MentorshipsClient
+        locale={locale}
+        canViewProgramme={isOversightRole(session.user.role as UserRole)}
+        hasOrganization={!!session.user.organizationId}
+      />
+    </div>
+  );
+}
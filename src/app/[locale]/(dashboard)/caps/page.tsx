@@ -1,5 +1,8 @@
 import { Metadata } from "next";
 import { getTranslations } from "next-intl/server";
+import Link from "next/link";
+import { LayoutDashboard } from "lucide-react";
+import { Button } from "@/components/ui/button";
 import { CAPsClient } from "./caps-client";
 
 export async function generateMetadata(): Promise<Metadata> {
@@ -10,7 +13,12 @@ export async function generateMetadata(): Promise<Metadata> {
   };
 }
 
-export default async function CAPsPage() {
+interface CAPsPageProps {
+  params: Promise<{ locale: string }>;
+}
+
+export default async function CAPsPage({ params }: CAPsPageProps) {
+  const { locale } = await params;
   const t = await getTranslations("cap");
 
   return (
@@ -20,6 +28,12 @@ export default async function CAPsPage() {
           <h1 className="text-2xl font-bold tracking-tight">{t("title")}</h1>
           <p className="text-muted-foreground">{t("pageDescription")}</p>
         </div>
+        <Button variant="outline" asChild>
+          <Link href={`/${locale}/caps/portfolio`}>
+            <LayoutDashboard className="mr-2 h-4 w-4" />
+            {t("portfolio.title")}
+          </Link>
+        </Button>
       </div>
       <CAPsClient />
     </div>
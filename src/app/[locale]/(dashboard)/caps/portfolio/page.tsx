@@ -0,0 +1,51 @@
+/**
+ * CAP Portfolio Page
+ *
+ * Organization-wide CAP portfolio: timeline, burndown, bulk actions and
+ * board status pack. Host organization staff see their own organization.
+ */
+
+import { Metadata } from "next";
+import { redirect } from "next/navigation";
+import { getTranslations } from "next-intl/server";
+import { auth } from "@/lib/auth";
+import { CAPPortfolio } from "@/components/features/cap/cap-portfolio";
+
+interface CAPPortfolioPageProps {
+  params: Promise<{
+    locale: string;
+  }>;
+}
+
+export async function generateMetadata({
+  params,
+}: CAPPortfolioPageProps): Promise<Metadata> {
+  const { locale } = await params;
+  const t = await getTranslations({ locale, namespace: "cap.portfolio" });
+
+  return {
+    title: t("title"),
+    description: t("description"),
+  };
+}
+
+export default async function CAPPortfolioPage({ params }: CAPPortfolioPageProps) {
+  const { locale } = await params;
+
+  const session = await auth();
+  if (!session?.user) {
+    redirect(`/${locale}/login`);
+  }
+
+  const t = await getTranslations({ locale, namespace: "cap.portfolio" });
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-2xl font-bold tracking-tight">{t("title")}</h1>
+        <p className="text-muted-foreground">{t("description")}</p>
+      </div>
+      <CAPPortfolio userRole={session.user.role} />
+    </div>
+  );
+}
@@ -0,0 +1,169 @@
+"use client";
+
+/**
+ * Repeat Findings Card
+ *
+ * Earlier occurrences of this finding's deficiency in previous reviews of
+ * the organisation, with the matcher's proposals for the team to confirm
+ * or dismiss, and later findings confirmed as repeats of this one.
+ */
+
+import Link from "next/link";
+import { useLocale, useTranslations } from "next-intl";
+import { format } from "date-fns";
+import { Check, Loader2, Repeat, ScanSearch, X } from "lucide-react";
+import { toast } from "sonner";
+import { trpc } from "@/lib/trpc/client";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { FindingSeverityBadge } from "@/components/features/finding/finding-severity-badge";
+import type { RecurrenceReason } from "@/lib/finding/recurrence";
+
+interface LinkedFinding {
+  id: string;
+  referenceNumber: string;
+  titleEn: string;
+  titleFr: string;
+  severity: "CRITICAL" | "MAJOR" | "MINOR" | "OBSERVATION";
+  createdAt: Date;
+  review: { id: string; referenceNumber: string };
+}
+
+function LinkedFindingRow({ finding }: { finding: LinkedFinding }) {
+  const locale = useLocale();
+
+  return (
+    <div className="space-y-1">
+      <div className="flex flex-wrap items-center gap-2">
+        <Link
+          href={`/${locale}/findings/${finding.id}`}
+          className="font-mono text-xs text-primary hover:underline"
+        >
+          {finding.referenceNumber}
+        </Link>
+        <FindingSeverityBadge severity={finding.severity} />
+      </div>
+      <p className="line-clamp-2">{locale === "fr" ? finding.titleFr : finding.titleEn}</p>
+      <p className="text-xs text-muted-foreground">
+        {finding.review.referenceNumber} · {format(new Date(finding.createdAt), "MMM yyyy")}
+      </p>
+    </div>
+  );
+}
+
+export function RepeatFindingsCard({ findingId }: { findingId: string }) {
+  const t = useTranslations("findings.recurrence");
+  const utils = trpc.useUtils();
+
+  const { data } = trpc.finding.getRecurrences.useQuery({ findingId });
+
+  const onChanged = () => {
+    utils.finding.getRecurrences.invalidate({ findingId });
+    utils.finding.getById.invalidate({ id: findingId });
+  };
+
+  const reviewMutation = trpc.finding.reviewRecurrence.useMutation({
+    onSuccess: (link) => {
+      toast.success(link.status === "CONFIRMED" ? t("confirmed") : t("dismissed"));
+      onChanged();
+    },
+    onError: (error) => toast.error(error.message),
+  });
+
+  const detectMutation = trpc.finding.detectRecurrences.useMutation({
+    onSuccess: ({ proposed }) => {
+      toast.success(t("detected", { count: proposed }));
+      onChanged();
+    },
+    onError: (error) => toast.error(error.message),
+  });
+
+  const priors = data?.priors ?? [];
+  const later = data?.later ?? [];
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
+        <CardTitle className="text-lg flex items-center gap-2">
+          <Repeat className="h-5 w-5" />
+          {t("title")}
+        </CardTitle>
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={() => detectMutation.mutate({ findingId })}
+          disabled={detectMutation.isPending}
+          title={t("detect")}
+        >
+          {detectMutation.isPending ? (
+            <Loader2 className="h-4 w-4 animate-spin" />
+          ) : (
+            <ScanSearch className="h-4 w-4" />
+          )}
+          <span className="sr-only">{t("detect")}</span>
+        </Button>
+      </CardHeader>
+      <CardContent className="space-y-4 text-sm">
+        {priors.length === 0 && later.length === 0 && (
+          <p className="text-muted-foreground">{t("none")}</p>
+        )}
+
+        {priors.map((link) => (
+          <div key={link.id} className="space-y-2 rounded-lg border p-3">
+            <LinkedFindingRow finding={link.priorFinding} />
+            <div className="flex flex-wrap gap-1">
+              <Badge variant="secondary">
+                {t("matchScore", { score: Math.round(link.score * 100) })}
+              </Badge>
+              {link.reasons.map((reason) => (
+                <Badge key={reason} variant="outline">
+                  {t(`reasons.${reason as RecurrenceReason}`)}
+                </Badge>
+              ))}
+            </div>
+            {link.status === "PROPOSED" ? (
+              <div className="flex gap-2">
+                <Button
+                  size="sm"
+                  variant="outline"
+                  disabled={reviewMutation.isPending}
+                  onClick={() => reviewMutation.mutate({ id: link.id, status: "CONFIRMED" })}
+                >
+                  <Check className="h-4 w-4 mr-1" />
+                  {t("confirm")}
+                </Button>
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  disabled={reviewMutation.isPending}
+                  onClick={() => reviewMutation.mutate({ id: link.id, status: "DISMISSED" })}
+                >
+                  <X className="h-4 w-4 mr-1" />
+                  {t("dismiss")}
+                </Button>
+              </div>
+            ) : (
+              <p className="text-xs text-muted-foreground">
+                {t("confirmedBy", {
+                  name: link.reviewedBy
+                    ? `${link.reviewedBy.firstName} ${link.reviewedBy.lastName}`
+                    : "—",
+                })}
+              </p>
+            )}
+          </div>
+        ))}
+
+        {later.length > 0 && (
+          <div className="space-y-3">
+            <p className="font-medium">{t("repeatedLater")}</p>
+            {later.map((link) => (
+              <LinkedFindingRow key={link.id} finding={link.finding} />
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -51,6 +51,8 @@ import {
   ExternalLink,
 } from "lucide-react";
 import { PublishBestPracticeButton } from "./_components/publish-best-practice-button";
+import { RepeatFindingsCard } from "./_components/repeat-findings-card";
+import { RepeatFindingBadge } from "@/components/features/finding/repeat-finding-badge";
 import { WorkflowTransitionButtons } from "@/components/features/workflow/workflow-transition-buttons";
 import { WorkflowHistory } from "@/components/features/workflow/workflow-history";
 import { SLAIndicator } from "@/components/features/workflow/sla-indicator";
@@ -273,6 +275,7 @@ export function FindingDetailClient({ findingId }: FindingDetailClientProps) {
                     <Badge {...SEVERITY_STYLES[finding.severity as FindingSeverity]}>
                       {t(`severity.${finding.severity}`)}
                     </Badge>
+                    <RepeatFindingBadge isRepeat={finding.isRepeat} />
                   </div>
                   <CardTitle className="text-xl">{title}</CardTitle>
                 </div>
@@ -402,6 +405,9 @@ export function FindingDetailClient({ findingId }: FindingDetailClientProps) {
 
         {/* Right column - Sidebar */}
         <div className="space-y-6">
+          {/* Earlier occurrences in previous reviews */}
+          <RepeatFindingsCard findingId={findingId} />
+
           {/* Review Info */}
           <Card>
             <CardHeader>
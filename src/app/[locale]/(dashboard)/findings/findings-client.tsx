@@ -59,6 +59,7 @@ import {
 } from "lucide-react";
 import { format } from "date-fns";
 import { cn } from "@/lib/utils";
+import { RepeatFindingBadge } from "@/components/features/finding/repeat-finding-badge";
 // Local types to avoid @prisma/client in client component
 const FindingStatus = {
   OPEN: "OPEN",
@@ -307,6 +308,8 @@ interface Finding {
     firstName: string;
     lastName: string;
   } | null;
+  isRepeat: boolean;
+  _count: { recurrences: number };
 }
 
 // Finding Card Component
@@ -374,6 +377,10 @@ function FindingCard({ finding, locale }: { finding: Finding; locale: string })
         <div className="flex items-center gap-2 flex-wrap">
           <SeverityBadge severity={finding.severity} />
           <StatusBadge status={finding.status} />
+          <RepeatFindingBadge
+            isRepeat={finding.isRepeat}
+            pendingProposals={finding._count.recurrences}
+          />
         </div>
 
         <div className="flex items-center justify-between text-xs text-muted-foreground pt-2 border-t">
@@ -694,7 +701,13 @@ export function FindingsClient() {
                     <FindingTypeBadge type={finding.findingType} />
                   </TableCell>
                   <TableCell>
-                    <SeverityBadge severity={finding.severity} />
+                    <div className="flex items-center gap-1 flex-wrap">
+                      <SeverityBadge severity={finding.severity} />
+                      <RepeatFindingBadge
+                        isRepeat={finding.isRepeat}
+                        pendingProposals={finding._count.recurrences}
+                      />
+                    </div>
                   </TableCell>
                   <TableCell>
                     <StatusBadge status={finding.status} />
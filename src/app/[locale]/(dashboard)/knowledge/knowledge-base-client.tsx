@@ -12,7 +12,7 @@
 import { useTranslations } from "next-intl";
 import { useSearchParams } from "next/navigation";
 import Link from "next/link";
-import { Lightbulb, BookOpen, Bookmark, Plus } from "lucide-react";
+import { Lightbulb, BookOpen, Bookmark, GraduationCap, Plus } from "lucide-react";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Button } from "@/components/ui/button";
 import { BestPracticesContent } from "../best-practices/_components/best-practices-content";
@@ -58,14 +58,22 @@ export function KnowledgeBaseClient({
           <h1 className="text-2xl font-bold tracking-tight">{t("title")}</h1>
           <p className="text-muted-foreground">{t("subtitle")}</p>
         </div>
-        {canSubmitBP && (
-          <Button asChild>
-            <Link href={`/${locale}/best-practices/new`}>
-              <Plus className="h-4 w-4 mr-2" />
-              {t("submitBestPractice")}
+        <div className="flex gap-2">
+          <Button variant="outline" asChild>
+            <Link href={`/${locale}/best-practices/mentorships`}>
+              <GraduationCap className="h-4 w-4 mr-2" />
+              {t("mentorships")}
             </Link>
           </Button>
-        )}
+          {canSubmitBP && (
+            <Button asChild>
+              <Link href={`/${locale}/best-practices/new`}>
+                <Plus className="h-4 w-4 mr-2" />
+                {t("submitBestPractice")}
+              </Link>
+            </Button>
+          )}
+        </div>
       </div>
 
       {/* Tabs */}
@@ -86,11 +86,18 @@ const typeIcons: Partial<Record<NotificationType, string>> = {
   CAP_OVERDUE: "🚨",
   CAP_VERIFIED: "✔️",
   CAP_CLOSED: "📁",
+  CAP_EFFECTIVENESS_REVIEW_DUE: "🔎",
+  CAP_EXTENSION_REQUESTED: "📅",
+  CAP_EXTENSION_DECIDED: "🗓️",
   REPORT_DRAFT_READY: "📄",
   REPORT_SUBMITTED: "📤",
   REPORT_APPROVED: "✅",
   SYSTEM_ANNOUNCEMENT: "📢",
   REMINDER: "🔔",
+  SCHEDULED_JOB_ALERT: "⚙️",
+  MENTORSHIP_REQUESTED: "🤝",
+  MENTORSHIP_UPDATED: "🤝",
+  SESSION_MINUTES_SIGNED: "📝",
 };
 
 const typeLabels: Partial<Record<NotificationType, string>> = {
@@ -115,11 +122,18 @@ const typeLabels: Partial<Record<NotificationType, string>> = {
   CAP_OVERDUE: "Overdue",
   CAP_VERIFIED: "Verified",
   CAP_CLOSED: "Closed",
+  CAP_EFFECTIVENESS_REVIEW_DUE: "Effectiveness Review Due",
+  CAP_EXTENSION_REQUESTED: "Extension Requested",
+  CAP_EXTENSION_DECIDED: "Extension Decision",
   REPORT_DRAFT_READY: "Draft Ready",
   REPORT_SUBMITTED: "Report Submitted",
   REPORT_APPROVED: "Report Approved",
   SYSTEM_ANNOUNCEMENT: "Announcement",
   REMINDER: "Reminder",
+  SCHEDULED_JOB_ALERT: "Background Job Alert",
+  MENTORSHIP_REQUESTED: "Mentorship Requested",
+  MENTORSHIP_UPDATED: "Mentorship Updated",
+  SESSION_MINUTES_SIGNED: "Minutes Signed",
 };
 
 // Helper to get locale-specific field
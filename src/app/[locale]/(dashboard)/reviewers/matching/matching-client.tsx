@@ -29,6 +29,7 @@ import {
   AlertCircle,
   Users,
   CheckCircle2,
+  CalendarRange,
 } from "lucide-react";
 import { ReviewerMatcher } from "@/components/features/reviewer/reviewer-matcher";
 import type { MatchResult } from "@/lib/reviewer/matching";
@@ -147,6 +148,12 @@ export function MatchingPageClient({ locale }: MatchingPageClientProps) {
             <p className="text-muted-foreground">{t("criteriaDescription")}</p>
           </div>
         </div>
+        <Button variant="outline" asChild>
+          <Link href={`/${locale}/reviewers/programme-planning`}>
+            <CalendarRange className="h-4 w-4 mr-2" />
+            {t("planProgramme")}
+          </Link>
+        </Button>
       </div>
 
       {/* Organization Selection */}
@@ -0,0 +1,37 @@
+import { getTranslations, setRequestLocale } from "next-intl/server";
+import { auth } from "@/lib/auth";
+import { redirect } from "next/navigation";
+import { ProgrammePlanningClient } from "./programme-planning-client";
+
+// Roles that can plan reviewer teams across the programme
+const COORDINATOR_ROLES = [
+  "SUPER_ADMIN",
+  "SYSTEM_ADMIN",
+  "PROGRAMME_COORDINATOR",
+  "REVIEW_COORDINATOR",
+];
+
+interface ProgrammePlanningPageProps {
+  params: Promise<{ locale: string }>;
+}
+
+export async function generateMetadata({ params }: ProgrammePlanningPageProps) {
+  const { locale } = await params;
+  const t = await getTranslations({ locale, namespace: "reviewer.programme" });
+  return {
+    title: t("title"),
+    description: t("description"),
+  };
+}
+
+export default async function ProgrammePlanningPage({ params }: ProgrammePlanningPageProps) {
+  const { locale } = await params;
+  setRequestLocale(locale);
+  const session = await auth();
+
+  if (!session?.user?.role || !COORDINATOR_ROLES.includes(session.user.role)) {
+    redirect(`/${locale}/reviewers`);
+  }
+
+  return <ProgrammePlanningClient locale={locale} />;
+}
@@ -0,0 +1,300 @@
+"use client";
+
+/**
+ * Programme Planning Client Component
+ *
+ * Plans reviewer teams for every unstaffed PLANNING review at once and
+ * applies the teams the coordinator accepts.
+ */
+
+import { useState } from "react";
+import { useTranslations } from "next-intl";
+import Link from "next/link";
+import { toast } from "sonner";
+import { trpc } from "@/lib/trpc/client";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  ArrowLeft,
+  AlertTriangle,
+  CalendarRange,
+  CheckCircle2,
+  Loader2,
+  Sparkles,
+  Star,
+} from "lucide-react";
+import { REVIEWER_CAPACITY } from "@/lib/reviewer/constants";
+import type { BlockReason } from "@/lib/reviewer/programme-scheduler";
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+interface ProgrammePlanningClientProps {
+  locale: string;
+}
+
+// =============================================================================
+// COMPONENT
+// =============================================================================
+
+export function ProgrammePlanningClient({ locale }: ProgrammePlanningClientProps) {
+  const t = useTranslations("reviewer.programme");
+  const utils = trpc.useUtils();
+
+  const [teamSize, setTeamSize] = useState<number>(REVIEWER_CAPACITY.IDEAL_TEAM_SIZE);
+  const [maxReviews, setMaxReviews] = useState<number>(REVIEWER_CAPACITY.MAX_REVIEWS_PER_REVIEWER);
+
+  const planMutation = trpc.reviewer.planProgrammeTeams.useMutation({
+    onError: (error) => toast.error(t("planError"), { description: error.message }),
+  });
+
+  const applyMutation = trpc.reviewer.applyProgrammeTeams.useMutation({
+    onSuccess: (result) => {
+      toast.success(t("applySuccess", { count: result.applied.length }));
+      for (const rejection of result.rejected) {
+        toast.warning(rejection.reason);
+      }
+      utils.review.invalidate();
+      planMutation.mutate({ teamSize, maxReviewsPerReviewer: maxReviews });
+    },
+    onError: (error) => toast.error(t("applyError"), { description: error.message }),
+  });
+
+  const schedule = planMutation.data;
+  const assignablePlans = schedule?.plans.filter((p) => p.isAssignable) ?? [];
+
+  const formatDate = (date: Date | string) =>
+    new Date(date).toLocaleDateString(locale, { day: "numeric", month: "short", year: "numeric" });
+
+  const formatBlocks = (blockedBy: Partial<Record<BlockReason, number>>) =>
+    (Object.entries(blockedBy) as [BlockReason, number][])
+      .filter(([, count]) => count > 0)
+      .map(([reason, count]) => t(`blockReasons.${reason}`, { count }))
+      .join(", ");
+
+  const handleApply = () => {
+    applyMutation.mutate({
+      teams: assignablePlans.map((plan) => ({
+        reviewId: plan.review.reviewId,
+        members: plan.team.map((m) => ({
+          userId: m.userId,
+          reviewerProfileId: m.reviewerProfileId,
+          role: m.role,
+        })),
+      })),
+    });
+  };
+
+  return (
+    <div className="w-full max-w-[1920px] mx-auto px-4 lg:px-6 py-6 space-y-6">
+      {/* Header */}
+      <div className="flex items-center gap-4">
+        <Button variant="ghost" size="icon" asChild>
+          <Link href={`/${locale}/reviewers/matching`}>
+            <ArrowLeft className="h-5 w-5" />
+          </Link>
+        </Button>
+        <div>
+          <h1 className="text-3xl font-bold">{t("title")}</h1>
+          <p className="text-muted-foreground">{t("description")}</p>
+        </div>
+      </div>
+
+      {/* Options */}
+      <Card>
+        <CardContent className="pt-6 flex flex-col sm:flex-row sm:items-end gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="teamSize">{t("teamSize")}</Label>
+            <Input
+              id="teamSize"
+              type="number"
+              className="w-32"
+              min={REVIEWER_CAPACITY.MIN_TEAM_SIZE}
+              max={REVIEWER_CAPACITY.MAX_TEAM_SIZE}
+              value={teamSize}
+              onChange={(e) => setTeamSize(Number(e.target.value))}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="maxReviews">{t("maxReviews")}</Label>
+            <Input
+              id="maxReviews"
+              type="number"
+              className="w-32"
+              min={1}
+              max={12}
+              value={maxReviews}
+              onChange={(e) => setMaxReviews(Number(e.target.value))}
+            />
+          </div>
+          <Button
+            onClick={() => planMutation.mutate({ teamSize, maxReviewsPerReviewer: maxReviews })}
+            disabled={planMutation.isPending}
+          >
+            {planMutation.isPending ? (
+              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            ) : (
+              <Sparkles className="h-4 w-4 mr-2" />
+            )}
+            {t("generate")}
+          </Button>
+          {assignablePlans.length > 0 && (
+            <Button variant="outline" onClick={handleApply} disabled={applyMutation.isPending}>
+              {applyMutation.isPending ? (
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+              ) : (
+                <CheckCircle2 className="h-4 w-4 mr-2" />
+              )}
+              {t("apply", { count: assignablePlans.length })}
+            </Button>
+          )}
+        </CardContent>
+      </Card>
+
+      {schedule && (
+        <>
+          {/* Summary */}
+          <p className="text-sm text-muted-foreground">
+            {t("summary", {
+              reviews: schedule.summary.reviews,
+              fullyStaffed: schedule.summary.fullyStaffed,
+              assignable: schedule.summary.assignable,
+              maxLoad: schedule.summary.maxLoad,
+            })}
+          </p>
+
+          {schedule.skipped.length > 0 && (
+            <Alert>
+              <AlertTriangle className="h-4 w-4" />
+              <AlertDescription>
+                <ul className="text-sm space-y-0.5">
+                  {schedule.skipped.map((s) => (
+                    <li key={s.reviewId}>
+                      {t(`skipped.${s.reason}`, { reference: s.referenceNumber })}
+                    </li>
+                  ))}
+                </ul>
+              </AlertDescription>
+            </Alert>
+          )}
+
+          {schedule.plans.length === 0 && (
+            <p className="text-muted-foreground">{t("noReviews")}</p>
+          )}
+
+          {/* Teams */}
+          <div className="grid gap-4 lg:grid-cols-2">
+            {schedule.plans.map((plan) => (
+              <Card key={plan.review.reviewId}>
+                <CardHeader className="pb-3">
+                  <CardTitle className="flex items-center justify-between text-lg">
+                    <Link
+                      href={`/${locale}/reviews/${plan.review.reviewId}`}
+                      className="hover:underline"
+                    >
+                      {plan.review.referenceNumber}
+                    </Link>
+                    {plan.unmet.length === 0 ? (
+                      <Badge variant="secondary">{t("status.complete")}</Badge>
+                    ) : plan.isAssignable ? (
+                      <Badge variant="outline">{t("status.partial")}</Badge>
+                    ) : (
+                      <Badge variant="destructive">{t("status.blocked")}</Badge>
+                    )}
+                  </CardTitle>
+                  <CardDescription className="flex items-center gap-1">
+                    <CalendarRange className="h-4 w-4" />
+                    {formatDate(plan.review.startDate)} – {formatDate(plan.review.endDate)}
+                  </CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-3">
+                  <ul className="space-y-1 text-sm">
+                    {plan.team.map((member) => (
+                      <li key={member.reviewerProfileId} className="flex items-center gap-2">
+                        {member.role === "LEAD_REVIEWER" && (
+                          <Star className="h-4 w-4 text-amber-500" aria-label={t("lead")} />
+                        )}
+                        <span className="font-medium">{member.fullName}</span>
+                        <span className="text-muted-foreground">
+                          {[...member.expertiseContribution, ...member.languageContribution].join(", ")}
+                        </span>
+                        {member.coiWarning && (
+                          <Badge variant="outline" className="text-amber-700">
+                            {t("softCoi")}
+                          </Badge>
+                        )}
+                      </li>
+                    ))}
+                  </ul>
+
+                  {plan.unmet.length > 0 && (
+                    <ul className="space-y-1 text-sm text-destructive">
+                      {plan.unmet.map((constraint) => (
+                        <li key={constraint.code} className="flex gap-2">
+                          <AlertTriangle className="h-4 w-4 shrink-0 mt-0.5" />
+                          <span>
+                            {t(`unmet.${constraint.code}`, {
+                              missing: constraint.missing.join(", "),
+                              assigned: plan.team.length,
+                              required: plan.review.teamSize,
+                            })}
+                            {formatBlocks(constraint.blockedBy) &&
+                              ` (${formatBlocks(constraint.blockedBy)})`}
+                          </span>
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+
+          {/* Reviewer load */}
+          {schedule.loads.length > 0 && (
+            <Card>
+              <CardHeader>
+                <CardTitle>{t("loads.title")}</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>{t("loads.reviewer")}</TableHead>
+                      <TableHead className="text-right">{t("loads.existing")}</TableHead>
+                      <TableHead className="text-right">{t("loads.planned")}</TableHead>
+                      <TableHead className="text-right">{t("loads.total")}</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {schedule.loads.map((load) => (
+                      <TableRow key={load.reviewerProfileId}>
+                        <TableCell>{load.fullName}</TableCell>
+                        <TableCell className="text-right">{load.existingLoad}</TableCell>
+                        <TableCell className="text-right">{load.reviewIds.length}</TableCell>
+                        <TableCell className="text-right">{load.total}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </CardContent>
+            </Card>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
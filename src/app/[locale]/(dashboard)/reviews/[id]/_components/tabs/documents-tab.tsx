@@ -19,6 +19,7 @@ import { trpc } from "@/lib/trpc/client";
 import { toast } from "sonner";
 import { DocumentList } from "./documents/document-list";
 import { UploadDialog } from "./documents/upload-dialog";
+import { PdfAnnotationViewer } from "@/components/features/document";
 import { useFocusTracker } from "@/hooks/use-focus-tracker";
 import type { ReviewData } from "../../_lib/fetch-review-data";
 
@@ -42,6 +43,10 @@ export function DocumentsTab({ review, userId, userName }: DocumentsTabProps) {
     id: string;
     name: string;
   } | null>(null);
+  const [annotateDoc, setAnnotateDoc] = useState<{
+    id: string;
+    name: string;
+  } | null>(null);
 
   // Fetch full document details
   const { data: documentsData, isLoading } = trpc.document.getByReview.useQuery(
@@ -70,8 +75,11 @@ export function DocumentsTab({ review, userId, userName }: DocumentsTabProps) {
     }
   };
 
-  const handleView = (doc: { url?: string; name: string }) => {
-    if (doc.url) {
+  const handleView = (doc: { id: string; url?: string; name: string; mimeType: string }) => {
+    // PDFs open in the annotation viewer; other files in a new tab
+    if (doc.mimeType === "application/pdf") {
+      setAnnotateDoc({ id: doc.id, name: doc.name });
+    } else if (doc.url) {
       window.open(doc.url, "_blank");
     }
   };
@@ -154,6 +162,18 @@ export function DocumentsTab({ review, userId, userName }: DocumentsTabProps) {
         onUploadComplete={handleUploadComplete}
       />
 
+      {/* PDF Annotation Viewer */}
+      {annotateDoc && (
+        <PdfAnnotationViewer
+          open={!!annotateDoc}
+          onOpenChange={(open) => !open && setAnnotateDoc(null)}
+          documentId={annotateDoc.id}
+          documentName={annotateDoc.name}
+          reviewId={review.id}
+          userId={userId}
+        />
+      )}
+
       {/* Delete Confirmation */}
       <AlertDialog open={!!deleteDoc} onOpenChange={() => setDeleteDoc(null)}>
         <AlertDialogContent>
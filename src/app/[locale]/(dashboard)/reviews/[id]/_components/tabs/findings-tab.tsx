@@ -3,7 +3,7 @@
 import { useState } from "react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
-import { Plus, Loader2, AlertTriangle } from "lucide-react";
+import { Plus, Loader2, AlertTriangle, FileUp } from "lucide-react";
 import { useTranslations, useLocale } from "next-intl";
 import { trpc } from "@/lib/trpc/client";
 import { toast } from "sonner";
@@ -11,6 +11,7 @@ import { FindingList } from "./findings/finding-list";
 import { FindingDetail } from "./findings/finding-detail";
 import { CreateFindingDialog } from "@/components/findings/create-finding-dialog";
 import { EditFindingDialog } from "@/components/findings/edit-finding-dialog";
+import { ImportFindingsDialog } from "@/components/findings/import-findings-dialog";
 import { useFocusTracker } from "@/hooks/use-focus-tracker";
 import { useEditLock } from "@/hooks/use-edit-lock";
 import type { ReviewData } from "../../_lib/fetch-review-data";
@@ -55,6 +56,7 @@ export function FindingsTab({ review, userId, userName }: FindingsTabProps) {
   );
   const [editingFindingId, setEditingFindingId] = useState<string | null>(null);
   const [showCreateDialog, setShowCreateDialog] = useState(false);
+  const [showImportDialog, setShowImportDialog] = useState(false);
 
   // Fetch full findings data via tRPC
   const { data: findingsData, isLoading } = trpc.finding.getByReview.useQuery(
@@ -192,10 +194,16 @@ export function FindingsTab({ review, userId, userName }: FindingsTabProps) {
             })}
           </p>
         </div>
-        <Button onClick={() => setShowCreateDialog(true)}>
-          <Plus className="h-4 w-4 mr-2" />
-          {t("addFinding")}
-        </Button>
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={() => setShowImportDialog(true)}>
+            <FileUp className="h-4 w-4 mr-2" />
+            {t("importFindings")}
+          </Button>
+          <Button onClick={() => setShowCreateDialog(true)}>
+            <Plus className="h-4 w-4 mr-2" />
+            {t("addFinding")}
+          </Button>
+        </div>
       </div>
 
       {/* Loading State */}
@@ -239,6 +247,16 @@ export function FindingsTab({ review, userId, userName }: FindingsTabProps) {
           utils.finding.getByReview.invalidate({ reviewId: review.id });
         }}
       />
+
+      <ImportFindingsDialog
+        open={showImportDialog}
+        onOpenChange={setShowImportDialog}
+        reviewId={review.id}
+        onImported={() => {
+          setShowImportDialog(false);
+          utils.finding.getByReview.invalidate({ reviewId: review.id });
+        }}
+      />
     </div>
   );
 }
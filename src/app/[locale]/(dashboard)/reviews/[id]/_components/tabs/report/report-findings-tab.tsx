@@ -42,6 +42,7 @@ import {
   TableHeader,
   TableRow,
 } from "@/components/ui/table";
+import { RepeatFindingBadge } from "@/components/features/finding/repeat-finding-badge";
 
 
 import type { ReportContent, FindingDetail } from "@/types/report";
@@ -337,6 +338,9 @@ function FindingRow({ finding }: { finding: FindingDetail }) {
       >
         <TableCell className="font-mono text-sm">
           {finding.reference}
+          {finding.isRepeat && (
+            <RepeatFindingBadge isRepeat className="ml-2 font-sans" />
+          )}
         </TableCell>
         <TableCell className="max-w-[200px]">
           <span className="truncate block" title={finding.title}>
@@ -418,6 +422,14 @@ function FindingRow({ finding }: { finding: FindingDetail }) {
                   <p>{finding.icaoReference}</p>
                 </div>
               )}
+              {finding.repeatOf && finding.repeatOf.length > 0 && (
+                <div>
+                  <p className="font-medium text-xs text-muted-foreground mb-1">
+                    {t("repeatOf")}
+                  </p>
+                  <p className="font-mono">{finding.repeatOf.join(", ")}</p>
+                </div>
+              )}
               {finding.criticalElement && (
                 <div>
                   <p className="font-medium text-xs text-muted-foreground mb-1">
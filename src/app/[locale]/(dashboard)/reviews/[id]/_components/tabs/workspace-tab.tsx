@@ -10,6 +10,7 @@ import {
   CheckSquare,
   AlertTriangle,
   Upload,
+  NotebookPen,
 } from "lucide-react";
 import { useTranslations } from "next-intl";
 import { trpc } from "@/lib/trpc/client";
@@ -20,6 +21,7 @@ import { DiscussionsList } from "./workspace/discussions-list";
 import { TasksBoard } from "./workspace/tasks-board";
 import { NewDiscussionDialog } from "./workspace/new-discussion-dialog";
 import { NewTaskDialog } from "./workspace/new-task-dialog";
+import { SessionMinutesPanel } from "./workspace/session-minutes";
 import { LiveCursors } from "@/components/collaboration/live-cursors";
 
 interface WorkspaceTabProps {
@@ -166,6 +168,10 @@ export function WorkspaceTab({ review, userId, userName, userRole, locale = "en"
                 </Badge>
               )}
             </TabsTrigger>
+            <TabsTrigger value="minutes" className="gap-1.5">
+              <NotebookPen className="h-3.5 w-3.5" />
+              {t("minutesTab")}
+            </TabsTrigger>
           </TabsList>
 
           <TabsContent value="discussions" className="mt-3">
@@ -183,6 +189,10 @@ export function WorkspaceTab({ review, userId, userName, userRole, locale = "en"
               reviewId={review.id}
             />
           </TabsContent>
+
+          <TabsContent value="minutes" className="mt-3">
+            <SessionMinutesPanel reviewId={review.id} />
+          </TabsContent>
         </Tabs>
       </div>
 
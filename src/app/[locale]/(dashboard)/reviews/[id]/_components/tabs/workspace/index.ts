@@ -6,3 +6,5 @@ export { TasksBoard } from "./tasks-board";
 export { TaskForm } from "./task-form";
 export { TaskDetail } from "./task-detail";
 export { NewTaskDialog } from "./new-task-dialog";
+export { SessionMinutesPanel } from "./session-minutes";
+export { MinutesEditor } from "./minutes-editor";
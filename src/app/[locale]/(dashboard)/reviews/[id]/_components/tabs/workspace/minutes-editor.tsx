@@ -0,0 +1,957 @@
+"use client";
+
+/**
+ * Minutes of one review session: attendance, agenda, decisions and action
+ * items. Drafts are edited by the review team and signed by the session
+ * host or lead reviewer; signed minutes are read-only and downloadable.
+ */
+
+import { useState } from "react";
+import { useLocale, useTranslations } from "next-intl";
+import {
+  ArrowLeft,
+  Download,
+  FileSignature,
+  LayoutTemplate,
+  Loader2,
+  Pencil,
+  Plus,
+  Trash2,
+} from "lucide-react";
+import { toast } from "sonner";
+import { trpc } from "@/lib/trpc/client";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Switch } from "@/components/ui/switch";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Textarea } from "@/components/ui/textarea";
+import { MinutesAttendeeSide, TaskPriority } from "@/types/prisma-enums";
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+interface MinutesEditorProps {
+  reviewId: string;
+  sessionId: string;
+  onBack: () => void;
+}
+
+interface AgendaItem {
+  title: string;
+  notes: string;
+}
+
+interface AttendeeValue {
+  id?: string;
+  userId: string | null;
+  name: string;
+  organization: string | null;
+  position: string | null;
+  side: MinutesAttendeeSide;
+  isPresent: boolean;
+}
+
+interface ActionItemValue {
+  id?: string;
+  description: string;
+  ownerId: string;
+  dueDate: Date | string | null;
+  priority: TaskPriority;
+}
+
+interface AssignableUser {
+  id: string;
+  firstName: string;
+  lastName: string;
+}
+
+/** yyyy-mm-dd for date inputs */
+function toDateInput(date: Date | string | null | undefined): string {
+  return date ? new Date(date).toISOString().split("T")[0] : "";
+}
+
+function useInvalidate() {
+  const utils = trpc.useUtils();
+  return () => {
+    utils.sessionMinutes.getBySession.invalidate();
+    utils.sessionMinutes.listForReview.invalidate();
+  };
+}
+
+// =============================================================================
+// MAIN COMPONENT
+// =============================================================================
+
+export function MinutesEditor({ reviewId, sessionId, onBack }: MinutesEditorProps) {
+  const t = useTranslations("reviews.detail.workspace.minutes");
+  const locale = useLocale();
+  const minutesLocale = locale === "fr" ? "fr" : "en";
+  const invalidate = useInvalidate();
+
+  const [attendee, setAttendee] = useState<AttendeeValue | null>(null);
+  const [actionItem, setActionItem] = useState<ActionItemValue | null>(null);
+  const [showSign, setShowSign] = useState(false);
+
+  const { data, isLoading } = trpc.sessionMinutes.getBySession.useQuery({ sessionId });
+
+  const createMutation = trpc.sessionMinutes.create.useMutation({
+    onSuccess: () => {
+      toast.success(t("toast.created"));
+      invalidate();
+    },
+    onError: (error) => toast.error(error.message),
+  });
+
+  const templateMutation = trpc.sessionMinutes.applyTemplate.useMutation({
+    onSuccess: () => {
+      toast.success(t("toast.templateApplied"));
+      invalidate();
+    },
+    onError: (error) => toast.error(error.message),
+  });
+
+  const saveAttendeeMutation = trpc.sessionMinutes.saveAttendee.useMutation({
+    onSuccess: invalidate,
+    onError: (error) => toast.error(error.message),
+  });
+
+  const deleteAttendeeMutation = trpc.sessionMinutes.deleteAttendee.useMutation({
+    onSuccess: invalidate,
+    onError: (error) => toast.error(error.message),
+  });
+
+  const deleteActionMutation = trpc.sessionMinutes.deleteActionItem.useMutation({
+    onSuccess: invalidate,
+    onError: (error) => toast.error(error.message),
+  });
+
+  if (isLoading || !data) {
+    return (
+      <div className="space-y-4">
+        <Skeleton className="h-10 w-64" />
+        <Skeleton className="h-48 w-full" />
+      </div>
+    );
+  }
+
+  const { session, minutes, access, hasTemplate, assignableUsers } = data;
+  const editable = access.canEdit && minutes?.status === "DRAFT";
+
+  const formatDate = (date: Date | string, withTime = false) =>
+    new Intl.DateTimeFormat(locale === "fr" ? "fr-FR" : "en-US", {
+      dateStyle: "medium",
+      ...(withTime ? { timeStyle: "short" as const } : {}),
+    }).format(new Date(date));
+
+  const exportUrl = (format: "pdf" | "docx") =>
+    `/api/reviews/${reviewId}/sessions/${sessionId}/minutes?format=${format}&locale=${minutesLocale}`;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-start justify-between gap-4">
+        <div>
+          <Button variant="ghost" size="sm" className="mb-1 -ml-2" onClick={onBack}>
+            <ArrowLeft className="mr-2 h-4 w-4" />
+            {t("back")}
+          </Button>
+          <h3 className="text-lg font-semibold">
+            {session.title || t(`sessionTypes.${session.sessionType}`)}
+          </h3>
+          <p className="text-sm text-muted-foreground">
+            {t(`sessionTypes.${session.sessionType}`)} · {formatDate(session.startedAt, true)}
+            {session.endedAt && ` – ${formatDate(session.endedAt, true)}`}
+          </p>
+        </div>
+        {minutes && (
+          <div className="flex flex-wrap items-center gap-2">
+            <Badge variant={minutes.status === "SIGNED" ? "secondary" : "outline"}>
+              {t(`status.${minutes.status}`)}
+            </Badge>
+            {editable && hasTemplate && (
+              <Button
+                variant="outline"
+                size="sm"
+                disabled={templateMutation.isPending}
+                onClick={() =>
+                  templateMutation.mutate({ minutesId: minutes.id, locale: minutesLocale })
+                }
+              >
+                <LayoutTemplate className="mr-1.5 h-4 w-4" />
+                {t("applyTemplate")}
+              </Button>
+            )}
+            <Button variant="outline" size="sm" asChild>
+              <a href={exportUrl("pdf")}>
+                <Download className="mr-1.5 h-4 w-4" />
+                PDF
+              </a>
+            </Button>
+            <Button variant="outline" size="sm" asChild>
+              <a href={exportUrl("docx")}>
+                <Download className="mr-1.5 h-4 w-4" />
+                DOCX
+              </a>
+            </Button>
+            {minutes.status === "DRAFT" && access.canSign && (
+              <Button size="sm" onClick={() => setShowSign(true)}>
+                <FileSignature className="mr-1.5 h-4 w-4" />
+                {t("sign.action")}
+              </Button>
+            )}
+          </div>
+        )}
+      </div>
+
+      {!minutes ? (
+        <Card>
+          <CardContent className="py-10 text-center">
+            <p className="mb-4 text-muted-foreground">
+              {access.canEdit ? t("start.description") : t("start.notStarted")}
+            </p>
+            {access.canEdit && (
+              <Button
+                disabled={createMutation.isPending}
+                onClick={() => createMutation.mutate({ sessionId, locale: minutesLocale })}
+              >
+                {createMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                {t("start.action")}
+              </Button>
+            )}
+          </CardContent>
+        </Card>
+      ) : (
+        <>
+          {minutes.status === "SIGNED" && minutes.signedBy && minutes.signedAt && (
+            <Card>
+              <CardContent className="flex flex-wrap items-center justify-between gap-2 p-4 text-sm">
+                <span>
+                  {t("signedBy", {
+                    name: `${minutes.signedBy.firstName} ${minutes.signedBy.lastName}`,
+                    date: formatDate(minutes.signedAt, true),
+                  })}
+                </span>
+                <span className="text-muted-foreground">
+                  {[minutes.pdfDocument, minutes.docxDocument]
+                    .filter((doc) => doc !== null)
+                    .map((doc) => doc.name)
+                    .join(" · ")}
+                </span>
+              </CardContent>
+            </Card>
+          )}
+
+          <MinutesContent
+            key={`${minutes.id}-${new Date(minutes.updatedAt).getTime()}`}
+            minutesId={minutes.id}
+            summary={minutes.summary}
+            agenda={minutes.agenda}
+            decisions={minutes.decisions}
+            editable={editable}
+          />
+
+          {/* Attendance */}
+          <Card>
+            <CardHeader className="flex flex-row items-center justify-between space-y-0">
+              <CardTitle className="text-base">{t("attendance.title")}</CardTitle>
+              {editable && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() =>
+                    setAttendee({
+                      userId: null,
+                      name: "",
+                      organization: null,
+                      position: null,
+                      side: "HOST_ORGANIZATION",
+                      isPresent: true,
+                    })
+                  }
+                >
+                  <Plus className="mr-1.5 h-4 w-4" />
+                  {t("attendance.add")}
+                </Button>
+              )}
+            </CardHeader>
+            <CardContent className="p-0">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>{t("attendance.name")}</TableHead>
+                    <TableHead>{t("attendance.organization")}</TableHead>
+                    <TableHead>{t("attendance.side")}</TableHead>
+                    <TableHead>{t("attendance.present")}</TableHead>
+                    {editable && <TableHead className="w-24" />}
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {minutes.attendees.length === 0 ? (
+                    <TableRow>
+                      <TableCell colSpan={5} className="py-6 text-center text-muted-foreground">
+                        {t("attendance.empty")}
+                      </TableCell>
+                    </TableRow>
+                  ) : (
+                    minutes.attendees.map((a) => (
+                      <TableRow key={a.id}>
+                        <TableCell>
+                          <p className="font-medium">{a.name}</p>
+                          {a.position && (
+                            <p className="text-xs text-muted-foreground">{a.position}</p>
+                          )}
+                        </TableCell>
+                        <TableCell className="text-sm">{a.organization ?? "—"}</TableCell>
+                        <TableCell>
+                          <Badge variant="outline">{t(`sides.${a.side}`)}</Badge>
+                        </TableCell>
+                        <TableCell>
+                          {editable ? (
+                            <Switch
+                              checked={a.isPresent}
+                              onCheckedChange={(isPresent) =>
+                                saveAttendeeMutation.mutate({ ...a, isPresent })
+                              }
+                            />
+                          ) : (
+                            <span className="text-sm">
+                              {a.isPresent ? t("attendance.yes") : t("attendance.apologies")}
+                            </span>
+                          )}
+                        </TableCell>
+                        {editable && (
+                          <TableCell className="text-right">
+                            <Button variant="ghost" size="icon" onClick={() => setAttendee(a)}>
+                              <Pencil className="h-4 w-4" />
+                            </Button>
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              onClick={() =>
+                                deleteAttendeeMutation.mutate({ minutesId: minutes.id, id: a.id })
+                              }
+                            >
+                              <Trash2 className="h-4 w-4" />
+                            </Button>
+                          </TableCell>
+                        )}
+                      </TableRow>
+                    ))
+                  )}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+
+          {/* Action items */}
+          <Card>
+            <CardHeader className="flex flex-row items-center justify-between space-y-0">
+              <div>
+                <CardTitle className="text-base">{t("actions.title")}</CardTitle>
+                <p className="text-sm text-muted-foreground">{t("actions.description")}</p>
+              </div>
+              {editable && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() =>
+                    setActionItem({
+                      description: "",
+                      ownerId: "",
+                      dueDate: null,
+                      priority: "MEDIUM",
+                    })
+                  }
+                >
+                  <Plus className="mr-1.5 h-4 w-4" />
+                  {t("actions.add")}
+                </Button>
+              )}
+            </CardHeader>
+            <CardContent className="p-0">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>{t("actions.action")}</TableHead>
+                    <TableHead>{t("actions.owner")}</TableHead>
+                    <TableHead>{t("actions.dueDate")}</TableHead>
+                    <TableHead>{t("actions.priority")}</TableHead>
+                    {minutes.status === "SIGNED" && <TableHead>{t("actions.task")}</TableHead>}
+                    {editable && <TableHead className="w-24" />}
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {minutes.actionItems.length === 0 ? (
+                    <TableRow>
+                      <TableCell colSpan={6} className="py-6 text-center text-muted-foreground">
+                        {t("actions.empty")}
+                      </TableCell>
+                    </TableRow>
+                  ) : (
+                    minutes.actionItems.map((item) => (
+                      <TableRow key={item.id}>
+                        <TableCell className="text-sm">{item.description}</TableCell>
+                        <TableCell className="text-sm">
+                          {item.owner.firstName} {item.owner.lastName}
+                        </TableCell>
+                        <TableCell className="text-sm">{formatDate(item.dueDate)}</TableCell>
+                        <TableCell>
+                          <Badge variant="outline">{t(`priority.${item.priority}`)}</Badge>
+                        </TableCell>
+                        {minutes.status === "SIGNED" && (
+                          <TableCell>
+                            {item.task ? (
+                              <Badge variant="secondary">
+                                {t(`taskStatus.${item.task.status}`)}
+                              </Badge>
+                            ) : (
+                              "—"
+                            )}
+                          </TableCell>
+                        )}
+                        {editable && (
+                          <TableCell className="text-right">
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              onClick={() => setActionItem(item)}
+                            >
+                              <Pencil className="h-4 w-4" />
+                            </Button>
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              onClick={() =>
+                                deleteActionMutation.mutate({
+                                  minutesId: minutes.id,
+                                  id: item.id,
+                                })
+                              }
+                            >
+                              <Trash2 className="h-4 w-4" />
+                            </Button>
+                          </TableCell>
+                        )}
+                      </TableRow>
+                    ))
+                  )}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+
+          {attendee && (
+            <AttendeeDialog
+              minutesId={minutes.id}
+              value={attendee}
+              onClose={() => setAttendee(null)}
+            />
+          )}
+          {actionItem && (
+            <ActionItemDialog
+              minutesId={minutes.id}
+              value={actionItem}
+              users={assignableUsers}
+              onClose={() => setActionItem(null)}
+            />
+          )}
+          <SignDialog
+            minutesId={minutes.id}
+            actionCount={minutes.actionItems.length}
+            open={showSign}
+            onOpenChange={setShowSign}
+          />
+        </>
+      )}
+    </div>
+  );
+}
+
+// =============================================================================
+// SUMMARY, AGENDA AND DECISIONS
+// =============================================================================
+
+function MinutesContent({
+  minutesId,
+  summary: initialSummary,
+  agenda: initialAgenda,
+  decisions: initialDecisions,
+  editable,
+}: {
+  minutesId: string;
+  summary: string | null;
+  agenda: AgendaItem[];
+  decisions: string[];
+  editable: boolean;
+}) {
+  const t = useTranslations("reviews.detail.workspace.minutes");
+  const invalidate = useInvalidate();
+  const [summary, setSummary] = useState(initialSummary ?? "");
+  const [agenda, setAgenda] = useState<AgendaItem[]>(initialAgenda);
+  const [decisions, setDecisions] = useState<string[]>(initialDecisions);
+  const [dirty, setDirty] = useState(false);
+
+  const updateMutation = trpc.sessionMinutes.update.useMutation({
+    onSuccess: () => {
+      toast.success(t("toast.saved"));
+      setDirty(false);
+      invalidate();
+    },
+    onError: (error) => toast.error(error.message),
+  });
+
+  const editAgenda = (index: number, patch: Partial<AgendaItem>) => {
+    setAgenda((items) => items.map((item, i) => (i === index ? { ...item, ...patch } : item)));
+    setDirty(true);
+  };
+
+  const editDecision = (index: number, text: string) => {
+    setDecisions((items) => items.map((item, i) => (i === index ? text : item)));
+    setDirty(true);
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
+        <CardTitle className="text-base">{t("content.title")}</CardTitle>
+        {editable && (
+          <Button
+            size="sm"
+            disabled={!dirty || updateMutation.isPending}
+            onClick={() =>
+              updateMutation.mutate({
+                minutesId,
+                summary,
+                agenda,
+                decisions: decisions.map((d) => d.trim()).filter(Boolean),
+              })
+            }
+          >
+            {updateMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            {t("content.save")}
+          </Button>
+        )}
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="space-y-2">
+          <Label>{t("content.summary")}</Label>
+          {editable ? (
+            <Textarea
+              rows={3}
+              value={summary}
+              placeholder={t("content.summaryPlaceholder")}
+              onChange={(e) => {
+                setSummary(e.target.value);
+                setDirty(true);
+              }}
+            />
+          ) : (
+            <p className="whitespace-pre-wrap text-sm">{initialSummary || "—"}</p>
+          )}
+        </div>
+
+        <div className="space-y-2">
+          <Label>{t("content.agenda")}</Label>
+          {agenda.length === 0 && (
+            <p className="text-sm text-muted-foreground">{t("content.agendaEmpty")}</p>
+          )}
+          <ol className="space-y-3">
+            {agenda.map((item, index) => (
+              <li key={index} className="space-y-1">
+                {editable ? (
+                  <>
+                    <div className="flex items-center gap-2">
+                      <span className="w-6 text-sm text-muted-foreground">{index + 1}.</span>
+                      <Input
+                        value={item.title}
+                        placeholder={t("content.agendaItemPlaceholder")}
+                        onChange={(e) => editAgenda(index, { title: e.target.value })}
+                      />
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => {
+                          setAgenda((items) => items.filter((_, i) => i !== index));
+                          setDirty(true);
+                        }}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                    <Textarea
+                      className="ml-8 w-[calc(100%-2rem)]"
+                      rows={2}
+                      value={item.notes}
+                      placeholder={t("content.notesPlaceholder")}
+                      onChange={(e) => editAgenda(index, { notes: e.target.value })}
+                    />
+                  </>
+                ) : (
+                  <>
+                    <p className="text-sm font-medium">
+                      {index + 1}. {item.title}
+                    </p>
+                    {item.notes && (
+                      <p className="ml-5 whitespace-pre-wrap text-sm text-muted-foreground">
+                        {item.notes}
+                      </p>
+                    )}
+                  </>
+                )}
+              </li>
+            ))}
+          </ol>
+          {editable && (
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => {
+                setAgenda((items) => [...items, { title: "", notes: "" }]);
+                setDirty(true);
+              }}
+            >
+              <Plus className="mr-1.5 h-4 w-4" />
+              {t("content.addAgendaItem")}
+            </Button>
+          )}
+        </div>
+
+        <div className="space-y-2">
+          <Label>{t("content.decisions")}</Label>
+          {decisions.length === 0 && (
+            <p className="text-sm text-muted-foreground">{t("content.decisionsEmpty")}</p>
+          )}
+          <ol className="space-y-2">
+            {decisions.map((decision, index) => (
+              <li key={index} className="flex items-start gap-2">
+                <span className="w-6 pt-2 text-sm text-muted-foreground">{index + 1}.</span>
+                {editable ? (
+                  <>
+                    <Textarea
+                      rows={2}
+                      value={decision}
+                      onChange={(e) => editDecision(index, e.target.value)}
+                    />
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => {
+                        setDecisions((items) => items.filter((_, i) => i !== index));
+                        setDirty(true);
+                      }}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </>
+                ) : (
+                  <p className="pt-2 text-sm">{decision}</p>
+                )}
+              </li>
+            ))}
+          </ol>
+          {editable && (
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => {
+                setDecisions((items) => [...items, ""]);
+                setDirty(true);
+              }}
+            >
+              <Plus className="mr-1.5 h-4 w-4" />
+              {t("content.addDecision")}
+            </Button>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+// =============================================================================
+// DIALOGS
+// =============================================================================
+
+function AttendeeDialog({
+  minutesId,
+  value,
+  onClose,
+}: {
+  minutesId: string;
+  value: AttendeeValue;
+  onClose: () => void;
+}) {
+  const t = useTranslations("reviews.detail.workspace.minutes");
+  const invalidate = useInvalidate();
+  const [form, setForm] = useState(value);
+
+  const saveMutation = trpc.sessionMinutes.saveAttendee.useMutation({
+    onSuccess: () => {
+      invalidate();
+      onClose();
+    },
+    onError: (error) => toast.error(error.message),
+  });
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onClose()}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{value.id ? t("attendance.edit") : t("attendance.add")}</DialogTitle>
+          <DialogDescription>{t("attendance.dialogDescription")}</DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label>{t("attendance.name")}</Label>
+            <Input
+              value={form.name}
+              disabled={!!form.userId}
+              onChange={(e) => setForm({ ...form, name: e.target.value })}
+            />
+          </div>
+          <div className="grid gap-4 sm:grid-cols-2">
+            <div className="space-y-2">
+              <Label>{t("attendance.position")}</Label>
+              <Input
+                value={form.position ?? ""}
+                onChange={(e) => setForm({ ...form, position: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>{t("attendance.organization")}</Label>
+              <Input
+                value={form.organization ?? ""}
+                onChange={(e) => setForm({ ...form, organization: e.target.value })}
+              />
+            </div>
+          </div>
+          <div className="grid gap-4 sm:grid-cols-2">
+            <div className="space-y-2">
+              <Label>{t("attendance.side")}</Label>
+              <Select
+                value={form.side}
+                onValueChange={(side) => setForm({ ...form, side: side as MinutesAttendeeSide })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.values(MinutesAttendeeSide).map((side) => (
+                    <SelectItem key={side} value={side}>
+                      {t(`sides.${side}`)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="flex items-center gap-2 pt-7">
+              <Switch
+                id="attendee-present"
+                checked={form.isPresent}
+                onCheckedChange={(isPresent) => setForm({ ...form, isPresent })}
+              />
+              <Label htmlFor="attendee-present">{t("attendance.present")}</Label>
+            </div>
+          </div>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>
+            {t("cancel")}
+          </Button>
+          <Button
+            disabled={form.name.trim().length < 2 || saveMutation.isPending}
+            onClick={() => saveMutation.mutate({ minutesId, ...form })}
+          >
+            {saveMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            {t("save")}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function ActionItemDialog({
+  minutesId,
+  value,
+  users,
+  onClose,
+}: {
+  minutesId: string;
+  value: ActionItemValue;
+  users: AssignableUser[];
+  onClose: () => void;
+}) {
+  const t = useTranslations("reviews.detail.workspace.minutes");
+  const invalidate = useInvalidate();
+  const [description, setDescription] = useState(value.description);
+  const [ownerId, setOwnerId] = useState(value.ownerId);
+  const [dueDate, setDueDate] = useState(toDateInput(value.dueDate));
+  const [priority, setPriority] = useState<TaskPriority>(value.priority);
+
+  const saveMutation = trpc.sessionMinutes.saveActionItem.useMutation({
+    onSuccess: () => {
+      invalidate();
+      onClose();
+    },
+    onError: (error) => toast.error(error.message),
+  });
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onClose()}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{value.id ? t("actions.edit") : t("actions.add")}</DialogTitle>
+          <DialogDescription>{t("actions.dialogDescription")}</DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label>{t("actions.action")}</Label>
+            <Textarea
+              rows={3}
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label>{t("actions.owner")}</Label>
+            <Select value={ownerId} onValueChange={setOwnerId}>
+              <SelectTrigger>
+                <SelectValue placeholder={t("actions.selectOwner")} />
+              </SelectTrigger>
+              <SelectContent>
+                {users.map((u) => (
+                  <SelectItem key={u.id} value={u.id}>
+                    {u.firstName} {u.lastName}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="grid gap-4 sm:grid-cols-2">
+            <div className="space-y-2">
+              <Label>{t("actions.dueDate")}</Label>
+              <Input type="date" value={dueDate} onChange={(e) => setDueDate(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label>{t("actions.priority")}</Label>
+              <Select value={priority} onValueChange={(p) => setPriority(p as TaskPriority)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.values(TaskPriority).map((p) => (
+                    <SelectItem key={p} value={p}>
+                      {t(`priority.${p}`)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>
+            {t("cancel")}
+          </Button>
+          <Button
+            disabled={
+              description.trim().length < 3 || !ownerId || !dueDate || saveMutation.isPending
+            }
+            onClick={() =>
+              saveMutation.mutate({
+                minutesId,
+                id: value.id,
+                description,
+                ownerId,
+                dueDate: new Date(dueDate),
+                priority,
+              })
+            }
+          >
+            {saveMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            {t("save")}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function SignDialog({
+  minutesId,
+  actionCount,
+  open,
+  onOpenChange,
+}: {
+  minutesId: string;
+  actionCount: number;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}) {
+  const t = useTranslations("reviews.detail.workspace.minutes");
+  const locale = useLocale();
+  const utils = trpc.useUtils();
+  const invalidate = useInvalidate();
+
+  const signMutation = trpc.sessionMinutes.sign.useMutation({
+    onSuccess: () => {
+      toast.success(t("toast.signed"));
+      invalidate();
+      utils.reviewTask.invalidate();
+      onOpenChange(false);
+    },
+    onError: (error) => toast.error(error.message),
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{t("sign.title")}</DialogTitle>
+          <DialogDescription>{t("sign.description", { count: actionCount })}</DialogDescription>
+        </DialogHeader>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            {t("cancel")}
+          </Button>
+          <Button
+            disabled={signMutation.isPending}
+            onClick={() =>
+              signMutation.mutate({ minutesId, locale: locale === "fr" ? "fr" : "en" })
+            }
+          >
+            {signMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            {t("sign.confirm")}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,101 @@
+"use client";
+
+/**
+ * Session minutes — the review's sessions with the status of their
+ * minutes; selecting a session opens its minutes.
+ */
+
+import { useState } from "react";
+import { useLocale, useTranslations } from "next-intl";
+import { ChevronRight, FileSignature, NotebookPen } from "lucide-react";
+import { trpc } from "@/lib/trpc/client";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent } from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+import { MinutesEditor } from "./minutes-editor";
+
+interface SessionMinutesPanelProps {
+  reviewId: string;
+}
+
+export function SessionMinutesPanel({ reviewId }: SessionMinutesPanelProps) {
+  const t = useTranslations("reviews.detail.workspace.minutes");
+  const locale = useLocale();
+  const [selectedSessionId, setSelectedSessionId] = useState<string | null>(null);
+
+  const { data: sessions, isLoading } = trpc.sessionMinutes.listForReview.useQuery({ reviewId });
+
+  if (selectedSessionId) {
+    return (
+      <MinutesEditor
+        reviewId={reviewId}
+        sessionId={selectedSessionId}
+        onBack={() => setSelectedSessionId(null)}
+      />
+    );
+  }
+
+  if (isLoading) {
+    return (
+      <div className="space-y-2">
+        {Array.from({ length: 3 }).map((_, i) => (
+          <Skeleton key={i} className="h-16 w-full" />
+        ))}
+      </div>
+    );
+  }
+
+  if (!sessions?.length) {
+    return (
+      <div className="py-12 text-center text-muted-foreground">
+        <NotebookPen className="mx-auto mb-2 h-8 w-8 opacity-50" />
+        <p className="font-medium">{t("empty.title")}</p>
+        <p className="text-sm">{t("empty.description")}</p>
+      </div>
+    );
+  }
+
+  const formatDate = (date: Date | string) =>
+    new Intl.DateTimeFormat(locale === "fr" ? "fr-FR" : "en-US", {
+      dateStyle: "medium",
+      timeStyle: "short",
+    }).format(new Date(date));
+
+  return (
+    <div className="space-y-2">
+      {sessions.map((session) => (
+        <Card
+          key={session.id}
+          className="cursor-pointer transition-colors hover:bg-muted/50"
+          onClick={() => setSelectedSessionId(session.id)}
+        >
+          <CardContent className="flex items-center justify-between gap-4 p-4">
+            <div className="min-w-0">
+              <p className="truncate font-medium">
+                {session.title || t(`sessionTypes.${session.sessionType}`)}
+              </p>
+              <p className="text-sm text-muted-foreground">
+                {t(`sessionTypes.${session.sessionType}`)} · {formatDate(session.startedAt)} ·{" "}
+                {session.startedBy.firstName} {session.startedBy.lastName}
+              </p>
+            </div>
+            <div className="flex shrink-0 items-center gap-2">
+              {session.status === "ACTIVE" && <Badge>{t("sessionLive")}</Badge>}
+              {session.minutes ? (
+                <Badge variant={session.minutes.status === "SIGNED" ? "secondary" : "outline"}>
+                  {session.minutes.status === "SIGNED" && (
+                    <FileSignature className="mr-1 h-3 w-3" />
+                  )}
+                  {t(`status.${session.minutes.status}`)}
+                </Badge>
+              ) : (
+                <span className="text-sm text-muted-foreground">{t("noMinutes")}</span>
+              )}
+              <ChevronRight className="h-4 w-4 text-muted-foreground" />
+            </div>
+          </CardContent>
+        </Card>
+      ))}
+    </div>
+  );
+}
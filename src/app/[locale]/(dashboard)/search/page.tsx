@@ -0,0 +1,24 @@
+import { getTranslations, setRequestLocale } from "next-intl/server";
+import { SearchClient } from "./search-client";
+
+interface SearchPageProps {
+  params: Promise<{ locale: string }>;
+  searchParams: Promise<{ q?: string }>;
+}
+
+export async function generateMetadata({ params }: SearchPageProps) {
+  const { locale } = await params;
+  const t = await getTranslations({ locale, namespace: "search" });
+  return {
+    title: t("title"),
+    description: t("description"),
+  };
+}
+
+export default async function SearchPage({ params, searchParams }: SearchPageProps) {
+  const { locale } = await params;
+  const { q } = await searchParams;
+  setRequestLocale(locale);
+
+  return <SearchClient locale={locale} initialQuery={q ?? ""} />;
+}
@@ -0,0 +1,362 @@
+"use client";
+
+/**
+ * Search Client Component
+ *
+ * Full-text search page with facet filters, highlighted snippets and
+ * pagination. The query is kept in `?q=` so results can be shared.
+ */
+
+import { useState } from "react";
+import { useTranslations } from "next-intl";
+import { useRouter } from "next/navigation";
+import Link from "next/link";
+import { trpc } from "@/lib/trpc/client";
+import { useDebounce } from "@/hooks/use-debounce";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { EmptyState } from "@/components/ui/empty-state";
+import { ChevronLeft, ChevronRight, Loader2, Search, X } from "lucide-react";
+import type { AfricanRegion, FindingSeverity } from "@prisma/client";
+import {
+  parseHighlight,
+  type FacetBucket,
+  type SearchEntityType,
+} from "@/lib/search/full-text";
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+interface SearchClientProps {
+  locale: string;
+  initialQuery: string;
+}
+
+interface SelectedFilters {
+  types: SearchEntityType[];
+  severities: FindingSeverity[];
+  regions: AfricanRegion[];
+  reviewId?: string;
+  organizationId?: string;
+  year?: string;
+}
+
+const PAGE_SIZE = 20;
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+function toggle<T>(values: T[], value: T): T[] {
+  return values.includes(value) ? values.filter((v) => v !== value) : [...values, value];
+}
+
+function Highlighted({ snippet }: { snippet: string }) {
+  return (
+    <>
+      {parseHighlight(snippet).map((segment, i) =>
+        segment.match ? (
+          <mark key={i} className="bg-yellow-200 dark:bg-yellow-800 rounded-sm px-0.5">
+            {segment.text}
+          </mark>
+        ) : (
+          <span key={i}>{segment.text}</span>
+        )
+      )}
+    </>
+  );
+}
+
+// =============================================================================
+// COMPONENT
+// =============================================================================
+
+export function SearchClient({ locale, initialQuery }: SearchClientProps) {
+  const t = useTranslations("search");
+  const tPalette = useTranslations("commandPalette");
+  const router = useRouter();
+
+  const [query, setQuery] = useState(initialQuery);
+  const [page, setPage] = useState(1);
+  const [selected, setSelected] = useState<SelectedFilters>({
+    types: [],
+    severities: [],
+    regions: [],
+  });
+  const debouncedQuery = useDebounce(query.trim(), 300);
+
+  const { data, isFetching } = trpc.search.query.useQuery(
+    {
+      query: debouncedQuery,
+      locale: locale === "fr" ? "fr" : "en",
+      filters: {
+        types: selected.types,
+        severities: selected.severities,
+        regions: selected.regions,
+        reviewId: selected.reviewId,
+        organizationId: selected.organizationId,
+        dateFrom: selected.year ? new Date(`${selected.year}-01-01T00:00:00Z`) : undefined,
+        dateTo: selected.year ? new Date(`${selected.year}-12-31T23:59:59Z`) : undefined,
+      },
+      page,
+      pageSize: PAGE_SIZE,
+    },
+    { enabled: debouncedQuery.length >= 2, placeholderData: (previous) => previous }
+  );
+
+  const updateFilters = (update: Partial<SelectedFilters>) => {
+    setSelected((prev) => ({ ...prev, ...update }));
+    setPage(1);
+  };
+
+  const handleQueryChange = (value: string) => {
+    setQuery(value);
+    setPage(1);
+    router.replace(`/${locale}/search${value ? `?q=${encodeURIComponent(value)}` : ""}`, {
+      scroll: false,
+    });
+  };
+
+  const hasFilters =
+    selected.types.length > 0 ||
+    selected.severities.length > 0 ||
+    selected.regions.length > 0 ||
+    !!selected.reviewId ||
+    !!selected.organizationId ||
+    !!selected.year;
+
+  const formatDate = (date: Date | string) =>
+    new Date(date).toLocaleDateString(locale, { day: "numeric", month: "short", year: "numeric" });
+
+  const renderCheckboxFacet = <T extends string>(
+    title: string,
+    buckets: FacetBucket[],
+    values: T[],
+    onToggle: (value: T) => void,
+    label: (bucket: FacetBucket) => string
+  ) =>
+    buckets.length > 0 && (
+      <div className="space-y-2">
+        <h3 className="text-sm font-medium">{title}</h3>
+        {buckets.map((bucket) => (
+          <label key={bucket.value} className="flex items-center gap-2 text-sm cursor-pointer">
+            <Checkbox
+              checked={values.includes(bucket.value as T)}
+              onCheckedChange={() => onToggle(bucket.value as T)}
+            />
+            <span className="flex-1 truncate">{label(bucket)}</span>
+            <span className="text-muted-foreground">{bucket.count}</span>
+          </label>
+        ))}
+      </div>
+    );
+
+  const renderSingleFacet = (
+    title: string,
+    buckets: FacetBucket[],
+    value: string | undefined,
+    onSelect: (value: string | undefined) => void
+  ) =>
+    buckets.length > 0 && (
+      <div className="space-y-1">
+        <h3 className="text-sm font-medium">{title}</h3>
+        {buckets.map((bucket) => (
+          <button
+            key={bucket.value}
+            type="button"
+            className={`flex w-full items-center gap-2 rounded px-1 py-0.5 text-sm text-left hover:bg-accent ${
+              value === bucket.value ? "bg-accent font-medium" : ""
+            }`}
+            onClick={() => onSelect(value === bucket.value ? undefined : bucket.value)}
+          >
+            <span className="flex-1 truncate">{bucket.label ?? bucket.value}</span>
+            <span className="text-muted-foreground">{bucket.count}</span>
+          </button>
+        ))}
+      </div>
+    );
+
+  return (
+    <div className="w-full max-w-[1920px] mx-auto px-4 lg:px-6 py-6 space-y-6">
+      {/* Header */}
+      <div>
+        <h1 className="text-3xl font-bold">{t("title")}</h1>
+        <p className="text-muted-foreground">{t("description")}</p>
+      </div>
+
+      {/* Query */}
+      <div className="relative max-w-2xl">
+        <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+        <Input
+          value={query}
+          onChange={(e) => handleQueryChange(e.target.value)}
+          placeholder={t("placeholder")}
+          className="pl-9 h-11"
+          autoFocus
+        />
+        {isFetching && (
+          <Loader2 className="absolute right-3 top-1/2 -translate-y-1/2 h-4 w-4 animate-spin text-muted-foreground" />
+        )}
+      </div>
+
+      {debouncedQuery.length < 2 ? (
+        <EmptyState icon={Search} title={t("startTyping")} description={t("hint")} />
+      ) : (
+        <div className="grid gap-6 lg:grid-cols-[280px_1fr]">
+          {/* Facets */}
+          <Card className="h-fit">
+            <CardHeader className="pb-3">
+              <CardTitle className="flex items-center justify-between text-base">
+                {t("filters")}
+                {hasFilters && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => updateFilters({
+                      types: [],
+                      severities: [],
+                      regions: [],
+                      reviewId: undefined,
+                      organizationId: undefined,
+                      year: undefined,
+                    })}
+                  >
+                    <X className="h-4 w-4 mr-1" />
+                    {t("clearFilters")}
+                  </Button>
+                )}
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-5">
+              {data && (
+                <>
+                  {renderCheckboxFacet(
+                    t("facets.type"),
+                    data.facets.type,
+                    selected.types,
+                    (value) => updateFilters({ types: toggle(selected.types, value) }),
+                    (bucket) => tPalette(`types.${bucket.value}`)
+                  )}
+                  {renderCheckboxFacet(
+                    t("facets.severity"),
+                    data.facets.severity,
+                    selected.severities,
+                    (value) => updateFilters({ severities: toggle(selected.severities, value) }),
+                    (bucket) => t(`severity.${bucket.value}`)
+                  )}
+                  {renderCheckboxFacet(
+                    t("facets.region"),
+                    data.facets.region,
+                    selected.regions,
+                    (value) => updateFilters({ regions: toggle(selected.regions, value) }),
+                    (bucket) => bucket.value
+                  )}
+                  {renderSingleFacet(
+                    t("facets.organization"),
+                    data.facets.organization,
+                    selected.organizationId,
+                    (organizationId) => updateFilters({ organizationId })
+                  )}
+                  {renderSingleFacet(
+                    t("facets.review"),
+                    data.facets.review,
+                    selected.reviewId,
+                    (reviewId) => updateFilters({ reviewId })
+                  )}
+                  {renderSingleFacet(
+                    t("facets.year"),
+                    data.facets.year,
+                    selected.year,
+                    (year) => updateFilters({ year })
+                  )}
+                </>
+              )}
+            </CardContent>
+          </Card>
+
+          {/* Results */}
+          <div className="space-y-4">
+            {data && (
+              <p className="text-sm text-muted-foreground">
+                {t("resultCount", { count: data.total })}
+              </p>
+            )}
+
+            {data?.hits.length === 0 && (
+              <EmptyState icon={Search} title={t("noResults")} description={t("noResultsHint")} />
+            )}
+
+            <ul className="space-y-3">
+              {data?.hits.map((hit) => (
+                <li key={`${hit.type}-${hit.id}`}>
+                  <Card>
+                    <CardContent className="pt-4 space-y-1.5">
+                      <div className="flex flex-wrap items-center gap-2">
+                        <Badge variant="secondary">{tPalette(`types.${hit.type}`)}</Badge>
+                        <Link
+                          href={`/${locale}${hit.href}`}
+                          className="font-medium hover:underline"
+                        >
+                          {hit.title}
+                        </Link>
+                        {hit.severity && (
+                          <Badge variant="outline">{t(`severity.${hit.severity}`)}</Badge>
+                        )}
+                        {hit.status && (
+                          <Badge variant="outline" className="text-muted-foreground">
+                            {hit.status.replace(/_/g, " ")}
+                          </Badge>
+                        )}
+                      </div>
+                      {hit.snippet && (
+                        <p className="text-sm text-muted-foreground">
+                          <Highlighted snippet={hit.snippet} />
+                        </p>
+                      )}
+                      <p className="text-xs text-muted-foreground">
+                        {[hit.subtitle, hit.organizationName, formatDate(hit.date)]
+                          .filter((part, i, parts) => part && parts.indexOf(part) === i)
+                          .join(" · ")}
+                      </p>
+                    </CardContent>
+                  </Card>
+                </li>
+              ))}
+            </ul>
+
+            {/* Pagination */}
+            {data && data.totalPages > 1 && (
+              <div className="flex items-center justify-center gap-4">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setPage((p) => p - 1)}
+                  disabled={page <= 1}
+                >
+                  <ChevronLeft className="h-4 w-4 mr-1" />
+                  {t("previous")}
+                </Button>
+                <span className="text-sm text-muted-foreground">
+                  {t("pageOf", { page, total: data.totalPages })}
+                </span>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setPage((p) => p + 1)}
+                  disabled={page >= data.totalPages}
+                >
+                  {t("next")}
+                  <ChevronRight className="h-4 w-4 ml-1" />
+                </Button>
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -10,10 +10,11 @@
 
 import { useTranslations } from "next-intl";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
-import { User, Settings, Bell, Shield, Building2, Cog } from "lucide-react";
+import { User, Settings, Bell, CalendarDays, Shield, Building2, Cog } from "lucide-react";
 import { ProfileSettings } from "@/components/features/settings/profile-settings";
 import { PreferencesSettings } from "@/components/features/settings/preferences-settings";
 import { NotificationSettings } from "@/components/features/settings/notification-settings";
+import { CalendarSettings } from "@/components/features/settings/calendar-settings";
 import { SecuritySettings } from "@/components/features/settings/security-settings";
 import { OrganizationSettings } from "@/components/features/settings/organization-settings";
 import { AdminSettings } from "@/components/features/settings/admin-settings";
@@ -25,7 +26,7 @@ const ADMIN_ROLES = ["SUPER_ADMIN", "SYSTEM_ADMIN"];
 const ORG_ADMIN_ROLES = ["SUPER_ADMIN", "SYSTEM_ADMIN", "ANSP_ADMIN"];
 
 // Valid tab values for the settings page
-const VALID_TABS = ["profile", "preferences", "notifications", "security", "organization", "admin"];
+const VALID_TABS = ["profile", "preferences", "notifications", "calendar", "security", "organization", "admin"];
 
 interface SettingsClientProps {
   userId: string;
@@ -80,7 +81,7 @@ export function SettingsClient({
 
       {/* Settings Tabs */}
       <Tabs defaultValue={getValidTab()} className="space-y-6">
-        <TabsList className="grid w-full grid-cols-2 md:grid-cols-3 lg:grid-cols-6 lg:w-auto">
+        <TabsList className="grid w-full grid-cols-2 md:grid-cols-3 lg:grid-cols-7 lg:w-auto">
           <TabsTrigger value="profile" className="flex items-center gap-2">
             <User className="h-4 w-4" />
             <span className="hidden sm:inline">{t("tabs.profile")}</span>
@@ -93,6 +94,10 @@ export function SettingsClient({
             <Bell className="h-4 w-4" />
             <span className="hidden sm:inline">{t("tabs.notifications")}</span>
           </TabsTrigger>
+          <TabsTrigger value="calendar" className="flex items-center gap-2">
+            <CalendarDays className="h-4 w-4" />
+            <span className="hidden sm:inline">{t("tabs.calendar")}</span>
+          </TabsTrigger>
           <TabsTrigger value="security" className="flex items-center gap-2">
             <Shield className="h-4 w-4" />
             <span className="hidden sm:inline">{t("tabs.security")}</span>
@@ -127,6 +132,10 @@ export function SettingsClient({
           <NotificationSettings />
         </TabsContent>
 
+        <TabsContent value="calendar">
+          <CalendarSettings />
+        </TabsContent>
+
         <TabsContent value="security">
           <SecuritySettings email={userEmail} />
         </TabsContent>
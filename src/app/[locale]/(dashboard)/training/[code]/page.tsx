@@ -13,6 +13,9 @@ import { auth } from "@/lib/auth";
 import { db } from "@/lib/db";
 import { TrainingDetailClient } from "./training-detail-client";
 
+/** Roles that maintain knowledge checks (matches the training router) */
+const TRAINING_ADMIN_ROLES = ["SUPER_ADMIN", "SYSTEM_ADMIN", "PROGRAMME_COORDINATOR"];
+
 // =============================================================================
 // TYPES
 // =============================================================================
@@ -73,7 +76,10 @@ export default async function TrainingDetailPage({
   return (
     <div className="container mx-auto py-6 px-4 lg:px-6">
       <Suspense fallback={<LoadingFallback />}>
-        <TrainingDetailClient code={code} />
+        <TrainingDetailClient
+          code={code}
+          canManage={TRAINING_ADMIN_ROLES.includes(session.user.role)}
+        />
       </Suspense>
     </div>
   );
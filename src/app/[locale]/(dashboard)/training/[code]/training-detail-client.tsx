@@ -4,11 +4,13 @@
  * Training Detail Client Component
  *
  * Displays a single training module with its topics and resources.
- * Handles data fetching and navigation between modules.
+ * Handles data fetching and navigation between modules, topic completion
+ * and the module knowledge check.
  */
 
 import { useTranslations, useLocale } from "next-intl";
 import Link from "next/link";
+import { toast } from "sonner";
 import {
   ArrowLeft,
   ChevronLeft,
@@ -25,6 +27,8 @@ import {
   TrainingTopicList,
   TrainingResourceGrid,
 } from "@/components/features/training/training-topic-list";
+import { TrainingQuiz } from "@/components/features/training/training-quiz";
+import { TrainingQuizAdmin } from "@/components/features/training/training-quiz-admin";
 
 // =============================================================================
 // TYPES
@@ -32,6 +36,8 @@ import {
 
 interface TrainingDetailClientProps {
   code: string;
+  /** Show knowledge check administration */
+  canManage?: boolean;
 }
 
 // =============================================================================
@@ -222,7 +228,7 @@ function ModuleNavigation({ currentCode, modules, locale }: ModuleNavigationProp
 // MAIN COMPONENT
 // =============================================================================
 
-export function TrainingDetailClient({ code }: TrainingDetailClientProps) {
+export function TrainingDetailClient({ code, canManage = false }: TrainingDetailClientProps) {
   const t = useTranslations("training");
   const locale = useLocale();
 
@@ -241,6 +247,13 @@ export function TrainingDetailClient({ code }: TrainingDetailClientProps) {
   // Fetch all modules for navigation
   const { data: allModules } = trpc.training.list.useQuery();
 
+  const utils = trpc.useUtils();
+  const { data: progressList } = trpc.training.getMyProgress.useQuery();
+  const setTopicComplete = trpc.training.setTopicComplete.useMutation({
+    onSuccess: () => utils.training.getMyProgress.invalidate(),
+    onError: (error) => toast.error(error.message),
+  });
+
   if (isLoading) {
     return <LoadingSkeleton />;
   }
@@ -254,6 +267,7 @@ export function TrainingDetailClient({ code }: TrainingDetailClientProps) {
   }
 
   const title = locale === "fr" ? module.titleFr : module.titleEn;
+  const progress = progressList?.find((p) => p.moduleId === module.id);
 
   return (
     <div className="space-y-6">
@@ -276,9 +290,24 @@ export function TrainingDetailClient({ code }: TrainingDetailClientProps) {
 
       {/* Topics */}
       {module.topics && module.topics.length > 0 && (
-        <TrainingTopicList topics={module.topics} locale={locale} />
+        <TrainingTopicList
+          topics={module.topics}
+          locale={locale}
+          completedTopicIds={progress?.completedTopicIds}
+          onToggleComplete={
+            progress
+              ? (topicId, completed) => setTopicComplete.mutate({ topicId, completed })
+              : undefined
+          }
+          isUpdating={setTopicComplete.isPending}
+        />
       )}
 
+      {/* Knowledge Check */}
+      {progress && <TrainingQuiz progress={progress} locale={locale} />}
+
+      {canManage && <TrainingQuizAdmin key={module.id} module={module} locale={locale} />}
+
       {/* Resources */}
       {module.resources && module.resources.length > 0 && (
         <TrainingResourceGrid resources={module.resources} locale={locale} />
@@ -19,6 +19,7 @@ import {
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Skeleton } from "@/components/ui/skeleton";
+import { Progress } from "@/components/ui/progress";
 import {
   BookOpen,
   Network,
@@ -31,6 +32,7 @@ import {
   FileText,
   Users,
   AlertCircle,
+  Award,
 } from "lucide-react";
 import { cn } from "@/lib/utils";
 import { trpc } from "@/lib/trpc/client";
@@ -185,12 +187,18 @@ interface TrainingModuleData {
   resources: Array<{ id: string }>;
 }
 
+interface ModuleProgressData {
+  topics: { completed: number; total: number; percent: number };
+  certificate: { id: string } | null;
+}
+
 interface ModuleCardProps {
   module: TrainingModuleData;
   locale: string;
+  progress?: ModuleProgressData;
 }
 
-function ModuleCard({ module, locale }: ModuleCardProps) {
+function ModuleCard({ module, locale, progress }: ModuleCardProps) {
   const t = useTranslations("training");
   const colors = getModuleColors(module.moduleNumber);
 
@@ -220,9 +228,17 @@ function ModuleCard({ module, locale }: ModuleCardProps) {
           <div className={cn("p-3 rounded-lg", colors.bg)}>
             <IconComponent className={cn("h-6 w-6", colors.icon)} />
           </div>
-          <Badge variant="secondary" className="font-mono">
-            {module.code}
-          </Badge>
+          <div className="flex items-center gap-2">
+            {progress?.certificate && (
+              <Badge className="bg-green-100 text-green-800 dark:bg-green-950 dark:text-green-300">
+                <Award className="h-3 w-3 mr-1" />
+                {t("progress.certified")}
+              </Badge>
+            )}
+            <Badge variant="secondary" className="font-mono">
+              {module.code}
+            </Badge>
+          </div>
         </div>
         <CardTitle className="text-lg mt-3">{title}</CardTitle>
         <CardDescription className="line-clamp-2">
@@ -268,6 +284,17 @@ function ModuleCard({ module, locale }: ModuleCardProps) {
               )}
             </div>
           </div>
+          {progress && progress.topics.total > 0 && (
+            <div className="mb-3 space-y-1">
+              <Progress value={progress.topics.percent} className="h-1.5" />
+              <p className="text-xs text-muted-foreground">
+                {t("progress.topicsCompleted", {
+                  completed: progress.topics.completed,
+                  total: progress.topics.total,
+                })}
+              </p>
+            </div>
+          )}
           <Button asChild className="w-full" variant="outline">
             <Link href={`/${locale}/training/${module.code.toLowerCase()}`}>
               {t("viewModule")}
@@ -289,6 +316,7 @@ export function TrainingPageClient() {
   const locale = useLocale();
 
   const { data: modules, isLoading, error } = trpc.training.list.useQuery();
+  const { data: progress } = trpc.training.getMyProgress.useQuery();
 
   if (isLoading) {
     return (
@@ -329,6 +357,7 @@ export function TrainingPageClient() {
   // Calculate stats
   const totalTopics = modules.reduce((acc: number, m: { topics: unknown[] }) => acc + m.topics.length, 0);
   const totalResources = modules.reduce((acc: number, m: { resources: unknown[] }) => acc + m.resources.length, 0);
+  const certifiedModules = progress?.filter((p) => p.certificate).length ?? 0;
 
   return (
     <div className="container mx-auto py-6 px-4 lg:px-6">
@@ -361,6 +390,12 @@ export function TrainingPageClient() {
             {totalResources} {t("resources")}
           </Badge>
         )}
+        {certifiedModules > 0 && (
+          <Badge variant="outline" className="text-sm py-1.5 px-3">
+            <Award className="h-4 w-4 mr-2" />
+            {t("progress.certifiedModules", { count: certifiedModules })}
+          </Badge>
+        )}
       </div>
 
       {/* Module Grid */}
@@ -370,6 +405,7 @@ export function TrainingPageClient() {
             key={module.id}
             module={module}
             locale={locale}
+            progress={progress?.find((p) => p.moduleId === module.id)}
           />
         ))}
       </div>
@@ -0,0 +1,33 @@
+import { Metadata } from "next";
+import { getTranslations, setRequestLocale } from "next-intl/server";
+import { JoinApplicationForm } from "@/components/features/join-request/join-application-form";
+
+interface JoinPageProps {
+  params: Promise<{ locale: string }>;
+}
+
+export async function generateMetadata({
+  params,
+}: JoinPageProps): Promise<Metadata> {
+  const { locale } = await params;
+  const t = await getTranslations({ locale, namespace: "joinRequest" });
+  return {
+    title: t("title"),
+    description: t("subtitle"),
+  };
+}
+
+export default async function JoinPage({ params }: JoinPageProps) {
+  const { locale } = await params;
+
+  // Enable static rendering
+  setRequestLocale(locale);
+
+  return (
+    <div className="min-h-screen bg-[#F8FAFC] px-4 py-10">
+      <div className="mx-auto w-full max-w-3xl">
+        <JoinApplicationForm />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,37 @@
+import { Metadata } from "next";
+import { getTranslations, setRequestLocale } from "next-intl/server";
+import { JoinRequestStatusView } from "@/components/features/join-request/join-request-status";
+
+interface JoinStatusPageProps {
+  params: Promise<{ locale: string; token: string }>;
+}
+
+export async function generateMetadata({
+  params,
+}: JoinStatusPageProps): Promise<Metadata> {
+  const { locale } = await params;
+  const t = await getTranslations({
+    locale,
+    namespace: "joinRequest.statusPage",
+  });
+  return {
+    title: t("title"),
+    // Status links are bearer credentials - keep them out of search indexes
+    robots: { index: false, follow: false },
+  };
+}
+
+export default async function JoinStatusPage({ params }: JoinStatusPageProps) {
+  const { locale, token } = await params;
+
+  // Enable static rendering
+  setRequestLocale(locale);
+
+  return (
+    <div className="min-h-screen bg-[#F8FAFC] px-4 py-10">
+      <div className="mx-auto w-full max-w-2xl">
+        <JoinRequestStatusView token={decodeURIComponent(token)} />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from "next/server";
+import { buildCalendarFeed } from "@/server/services/calendar-feed";
+
+/**
+ * Calendar Subscription Feed API Route
+ *
+ * Serves a user's ICS feed to calendar clients (Outlook, Google Calendar,
+ * Apple Calendar). Authenticated by the feed token in the URL; an optional
+ * `.ics` suffix is accepted.
+ */
+
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ token: string }> }
+) {
+  try {
+    const { token: rawToken } = await params;
+    const token = rawToken.replace(/\.ics$/i, "");
+
+    if (!/^[a-f0-9]{64}$/.test(token)) {
+      return NextResponse.json({ error: "Invalid token" }, { status: 404 });
+    }
+
+    const calendar = await buildCalendarFeed(token);
+
+    if (!calendar) {
+      return NextResponse.json({ error: "Invalid token" }, { status: 404 });
+    }
+
+    return new NextResponse(calendar, {
+      headers: {
+        "Content-Type": "text/calendar; charset=utf-8",
+        "Content-Disposition": 'inline; filename="aaprp.ics"',
+        "Cache-Control": "private, no-store",
+      },
+    });
+  } catch (error) {
+    console.error("Calendar feed error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
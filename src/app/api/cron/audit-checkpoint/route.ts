@@ -0,0 +1,22 @@
+/**
+ * Audit Checkpoint Cron Endpoint
+ *
+ * Runs the "audit-checkpoint" background job on demand, for external schedulers.
+ * The job is normally run by the scheduler tick (/api/cron/scheduler);
+ * runs started here share its lock and run history.
+ *
+ * Seals pending audit log entries, verifies the hash chain and signs a checkpoint over its head.
+ *
+ * Schedule: Daily at 2:00 AM UTC (see src/server/jobs/registry.ts)
+ *
+ * Security:
+ * - Optionally protected by CRON_SECRET environment variable
+ * - Should be called only by trusted schedulers
+ */
+
+import { createCronJobHandler } from "@/server/jobs/cron-handler";
+
+export const dynamic = "force-dynamic";
+export const maxDuration = 300;
+
+export const GET = createCronJobHandler("audit-checkpoint");
@@ -0,0 +1,22 @@
+/**
+ * CAP Effectiveness Review Cron Endpoint
+ *
+ * Runs the "cap-effectiveness" background job on demand, for external schedulers.
+ * The job is normally run by the scheduler tick (/api/cron/scheduler);
+ * runs started here share its lock and run history.
+ *
+ * Opens the effectiveness reviews of closed CAPs as they fall due.
+ *
+ * Schedule: Daily at 7:00 AM UTC (see src/server/jobs/registry.ts)
+ *
+ * Security:
+ * - Optionally protected by CRON_SECRET environment variable
+ * - Should be called only by trusted schedulers
+ */
+
+import { createCronJobHandler } from "@/server/jobs/cron-handler";
+
+export const dynamic = "force-dynamic";
+export const maxDuration = 60;
+
+export const GET = createCronJobHandler("cap-effectiveness");
@@ -0,0 +1,22 @@
+/**
+ * Notification Digest Cron Endpoint
+ *
+ * Runs the "notification-digests" background job on demand, for external schedulers.
+ * The job is normally run by the scheduler tick (/api/cron/scheduler);
+ * runs started here share its lock and run history.
+ *
+ * Emails the daily and weekly notification digests that are due.
+ *
+ * Schedule: Hourly, so digests go out at 8:00 in each user's timezone (see src/server/jobs/registry.ts)
+ *
+ * Security:
+ * - Optionally protected by CRON_SECRET environment variable
+ * - Should be called only by trusted schedulers
+ */
+
+import { createCronJobHandler } from "@/server/jobs/cron-handler";
+
+export const dynamic = "force-dynamic";
+export const maxDuration = 60;
+
+export const GET = createCronJobHandler("notification-digests");
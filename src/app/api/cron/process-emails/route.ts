@@ -1,35 +1,25 @@
-import { NextRequest, NextResponse } from "next/server";
-import { processPendingNotificationEmails } from "@/lib/email/notification-service";
+/**
+ * Notification Email Cron Endpoint
+ *
+ * Runs the "process-emails" background job on demand, for external schedulers.
+ * The job is normally run by the scheduler tick (/api/cron/scheduler);
+ * runs started here share its lock and run history.
+ *
+ * Sends pending notification emails.
+ *
+ * Schedule: Every 5 minutes (see src/server/jobs/registry.ts)
+ *
+ * Security:
+ * - Optionally protected by CRON_SECRET environment variable
+ * - Should be called only by trusted schedulers
+ */
 
-// Verify cron secret to prevent unauthorized access
-const CRON_SECRET = process.env.CRON_SECRET;
+import { createCronJobHandler } from "@/server/jobs/cron-handler";
 
-export async function GET(req: NextRequest) {
-  // Verify authorization
-  const authHeader = req.headers.get("authorization");
+export const dynamic = "force-dynamic";
+export const maxDuration = 60;
 
-  if (CRON_SECRET && authHeader !== `Bearer ${CRON_SECRET}`) {
-    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-  }
-
-  try {
-    const sentCount = await processPendingNotificationEmails(100);
-
-    return NextResponse.json({
-      success: true,
-      processed: sentCount,
-      timestamp: new Date().toISOString(),
-    });
-  } catch (error) {
-    console.error("[CronEmail] Error:", error);
-    return NextResponse.json(
-      { success: false, error: "Failed to process emails" },
-      { status: 500 }
-    );
-  }
-}
+export const GET = createCronJobHandler("process-emails");
 
 // Also support POST for manual triggers
-export async function POST(req: NextRequest) {
-  return GET(req);
-}
+export const POST = GET;
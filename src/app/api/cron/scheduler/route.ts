@@ -0,0 +1,48 @@
+/**
+ * Job Scheduler Cron Endpoint
+ *
+ * Scheduler tick called by Vercel Cron or an external scheduler. Runs
+ * every background job whose schedule is due (see src/server/jobs/registry.ts)
+ * and alerts administrators of jobs that have not succeeded in their window.
+ *
+ * Schedule: Every 5 minutes
+ *
+ * Security:
+ * - Optionally protected by CRON_SECRET environment variable
+ * - Should be called only by trusted schedulers
+ */
+
+import { NextResponse } from "next/server";
+import { isAuthorizedCronRequest } from "@/server/jobs/cron-handler";
+import { runDueJobs } from "@/server/jobs/scheduler";
+
+export const dynamic = "force-dynamic";
+export const maxDuration = 800; // Due jobs run one after another
+
+export async function GET(request: Request) {
+  if (!isAuthorizedCronRequest(request)) {
+    console.warn("[Scheduler Cron] Unauthorized request attempt");
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const result = await runDueJobs();
+
+    return NextResponse.json({
+      success: result.ran.every((r) => r.status !== "FAILED"),
+      timestamp: new Date().toISOString(),
+      ...result,
+    });
+  } catch (error) {
+    console.error("[Scheduler Cron] Scheduler tick failed:", error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: "Scheduler tick failed",
+        message: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -3,19 +3,23 @@
  *
  * GET /api/reviews/[id]/report
  *
- * Generates and downloads a PDF report for a completed peer review.
+ * Downloads the server-rendered PDF report for a completed peer review.
+ * Finalized reports are served from their archived, hash-stamped artifact.
  *
  * Query Parameters:
  * - locale: "en" | "fr" (default: "en")
  *
  * Returns:
- * - PDF file as attachment
+ * - PDF file as attachment, with X-Report-Version and X-Content-SHA256 headers
+ *   (the hash of the bytes served) and X-Report-Archived ("false" for draft
+ *   reports rendered live)
+ * - 503 when the archived copy of a finalized report cannot be verified
  */
 
 import { NextRequest, NextResponse } from "next/server";
 import { auth } from "@/lib/auth";
 import { prisma } from "@/lib/db";
-import { generateReviewReport, getReportFilename } from "@/server/services/report";
+import { ArchivedReportUnavailableError, getReviewReportPdf } from "@/server/services/report";
 
 export async function GET(
   request: NextRequest,
@@ -50,7 +54,6 @@ export async function GET(
       where: { id: reviewId },
       select: {
         id: true,
-        referenceNumber: true,
         status: true,
         hostOrganizationId: true,
         teamMembers: {
@@ -90,26 +93,36 @@ export async function GET(
       );
     }
 
-    // Generate the PDF
-    const pdfBuffer = await generateReviewReport(reviewId, locale);
+    // Generate (or load the archived) PDF
+    const pdf = await getReviewReportPdf(reviewId, locale, session.user.id);
 
-    // Get filename
-    const filename = getReportFilename(review.referenceNumber, locale);
+    const headers: Record<string, string> = {
+      "Content-Type": "application/pdf",
+      "Content-Disposition": `attachment; filename="${pdf.fileName}"`,
+      "Content-Length": pdf.buffer.length.toString(),
+      "Cache-Control": "no-cache, no-store, must-revalidate",
+      "X-Content-SHA256": pdf.fileHash,
+      "X-Report-Archived": pdf.archived.toString(),
+    };
+    if (pdf.version !== null) {
+      headers["X-Report-Version"] = pdf.version.toString();
+    }
 
     // Return the PDF as a downloadable file
-    return new NextResponse(new Uint8Array(pdfBuffer), {
+    return new NextResponse(new Uint8Array(pdf.buffer), {
       status: 200,
-      headers: {
-        "Content-Type": "application/pdf",
-        "Content-Disposition": `attachment; filename="${filename}"`,
-        "Content-Length": pdfBuffer.length.toString(),
-        "Cache-Control": "no-cache, no-store, must-revalidate",
-      },
+      headers,
     });
   } catch (error) {
     console.error("Error generating report:", error);
 
     // Handle specific errors
+    if (error instanceof ArchivedReportUnavailableError) {
+      return NextResponse.json(
+        { error: "The archived copy of this report is unavailable" },
+        { status: 503 }
+      );
+    }
     if (error instanceof Error) {
       if (error.message.includes("not found")) {
         return NextResponse.json(
@@ -0,0 +1,96 @@
+/**
+ * Session Minutes Export API Endpoint
+ *
+ * GET /api/reviews/[id]/sessions/[sessionId]/minutes
+ *
+ * Downloads the minutes of a review session. Signed minutes are rendered
+ * in the language they were signed in; drafts are rendered as a preview in
+ * the requested language. Available to everyone who can read the minutes.
+ *
+ * Query Parameters:
+ * - format: "pdf" | "docx" (default: "pdf")
+ * - locale: "en" | "fr" (default: "en", drafts only)
+ *
+ * Returns:
+ * - PDF or DOCX file as attachment
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { TRPCError } from "@trpc/server";
+import { auth } from "@/lib/auth";
+import type { MinutesLocale } from "@/lib/minutes/session-minutes";
+import { buildMinutesExport, getSessionForMinutes } from "@/server/services/session-minutes";
+import {
+  getMinutesFilename,
+  MINUTES_MIME_TYPES,
+  renderMinutes,
+  type MinutesFormat,
+} from "@/server/services/session-minutes-export";
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; sessionId: string }> }
+) {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id, sessionId } = await params;
+
+    const format = (request.nextUrl.searchParams.get("format") || "pdf") as MinutesFormat;
+    if (!["pdf", "docx"].includes(format)) {
+      return NextResponse.json(
+        { error: "Invalid format. Must be 'pdf' or 'docx'." },
+        { status: 400 }
+      );
+    }
+
+    const requestedLocale = (request.nextUrl.searchParams.get("locale") || "en") as MinutesLocale;
+    if (!["en", "fr"].includes(requestedLocale)) {
+      return NextResponse.json(
+        { error: "Invalid locale. Must be 'en' or 'fr'." },
+        { status: 400 }
+      );
+    }
+
+    const { session: reviewSession } = await getSessionForMinutes(sessionId, session.user);
+    if (reviewSession.reviewId !== id || !reviewSession.minutes) {
+      return NextResponse.json({ error: "Minutes not found" }, { status: 404 });
+    }
+
+    const locale: MinutesLocale =
+      reviewSession.minutes.status === "SIGNED"
+        ? reviewSession.minutes.language === "FR"
+          ? "fr"
+          : "en"
+        : requestedLocale;
+
+    const buffer = await renderMinutes(buildMinutesExport(reviewSession, locale), locale, format);
+    const fileName = getMinutesFilename(
+      reviewSession.review.referenceNumber,
+      reviewSession.startedAt,
+      format
+    );
+
+    return new NextResponse(new Uint8Array(buffer), {
+      status: 200,
+      headers: {
+        "Content-Type": MINUTES_MIME_TYPES[format],
+        "Content-Disposition": `attachment; filename="${fileName}"`,
+        "Content-Length": buffer.length.toString(),
+        "Cache-Control": "no-cache, no-store, must-revalidate",
+      },
+    });
+  } catch (error) {
+    if (error instanceof TRPCError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.code === "NOT_FOUND" ? 404 : 403 }
+      );
+    }
+    console.error("Error exporting session minutes:", error);
+    return NextResponse.json({ error: "Failed to export minutes" }, { status: 500 });
+  }
+}
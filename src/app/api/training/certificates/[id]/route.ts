@@ -0,0 +1,82 @@
+/**
+ * Training Certificate API Endpoint
+ *
+ * GET /api/training/certificates/[id]
+ *
+ * Downloads the PDF certificate issued for a passed training module
+ * knowledge check. Available to the certificate holder and to programme
+ * administrators.
+ *
+ * Query Parameters:
+ * - locale: "en" | "fr" (default: "en")
+ *
+ * Returns:
+ * - PDF file as attachment
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import {
+  getCertificateFilename,
+  getTrainingCertificate,
+  renderTrainingCertificate,
+  type CertificateLocale,
+} from "@/server/services/training-certificate";
+
+const CERTIFICATE_ADMIN_ROLES = [
+  "SUPER_ADMIN",
+  "SYSTEM_ADMIN",
+  "PROGRAMME_COORDINATOR",
+  "STEERING_COMMITTEE",
+];
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id } = await params;
+
+    const locale = (request.nextUrl.searchParams.get("locale") || "en") as CertificateLocale;
+    if (!["en", "fr"].includes(locale)) {
+      return NextResponse.json(
+        { error: "Invalid locale. Must be 'en' or 'fr'." },
+        { status: 400 }
+      );
+    }
+
+    const certificate = await getTrainingCertificate(id);
+    if (!certificate) {
+      return NextResponse.json({ error: "Certificate not found" }, { status: 404 });
+    }
+
+    const isHolder = certificate.userId === session.user.id;
+    const isAdmin = CERTIFICATE_ADMIN_ROLES.includes(session.user.role);
+    if (!isHolder && !isAdmin) {
+      return NextResponse.json(
+        { error: "You do not have permission to access this certificate" },
+        { status: 403 }
+      );
+    }
+
+    const buffer = await renderTrainingCertificate(certificate, locale);
+
+    return new NextResponse(new Uint8Array(buffer), {
+      status: 200,
+      headers: {
+        "Content-Type": "application/pdf",
+        "Content-Disposition": `attachment; filename="${getCertificateFilename(certificate.certificateNumber, locale)}"`,
+        "Content-Length": buffer.length.toString(),
+        "Cache-Control": "no-cache, no-store, must-revalidate",
+      },
+    });
+  } catch (error) {
+    console.error("Error generating training certificate:", error);
+    return NextResponse.json({ error: "Failed to generate certificate" }, { status: 500 });
+  }
+}
@@ -2,20 +2,39 @@
  * Public Upload API Route
  *
  * Handles file uploads for public forms (e.g., join request commitment letters).
- * No authentication required but with stricter file type restrictions.
+ * No authentication required but with stricter file type restrictions
+ * and per-IP rate limiting.
  */
 
 import { NextRequest, NextResponse } from "next/server";
 import { writeFile, mkdir } from "fs/promises";
 import { join } from "path";
 import { randomUUID } from "crypto";
+import { checkRateLimit, getClientIp } from "@/lib/rate-limit";
 
 // Stricter allowed types for public uploads
 const ALLOWED_TYPES = ["application/pdf", "image/jpeg", "image/png"];
 const MAX_FILE_SIZE = 5 * 1024 * 1024; // 5MB for public uploads
+const UPLOAD_RATE_LIMIT = { limit: 10, windowMs: 60 * 60 * 1000 }; // 10 per hour
 
 export async function POST(request: NextRequest) {
   try {
+    const rateLimit = checkRateLimit(
+      `upload:public:${getClientIp(request.headers)}`,
+      UPLOAD_RATE_LIMIT
+    );
+    if (!rateLimit.allowed) {
+      return NextResponse.json(
+        { error: "Too many uploads. Please try again later." },
+        {
+          status: 429,
+          headers: {
+            "Retry-After": String(Math.ceil(rateLimit.retryAfterMs / 1000)),
+          },
+        }
+      );
+    }
+
     const formData = await request.formData();
     const file = formData.get("file") as File;
 
@@ -64,6 +64,11 @@ const SESSION_TYPES: {
     label: "Planning Session",
     description: "Review planning and preparation",
   },
+  {
+    value: "CLOSING",
+    label: "Closing Meeting",
+    description: "Closing meeting with the host ANSP",
+  },
 ];
 
 export function StartSessionDialog({
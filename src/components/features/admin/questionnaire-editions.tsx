@@ -0,0 +1,505 @@
+"use client";
+
+/**
+ * Questionnaire Editions
+ *
+ * Shows the edition chain of a questionnaire, the PQ diff against the
+ * previous edition (added, revised, merged, deleted), publishing of a new
+ * edition and migration of completed assessments from earlier editions.
+ */
+
+import { useMemo, useState } from "react";
+import Link from "next/link";
+import { useTranslations } from "next-intl";
+import { format } from "date-fns";
+import { toast } from "sonner";
+import {
+  ArrowRight,
+  ArrowRightLeft,
+  CheckCircle2,
+  GitBranch,
+  Loader2,
+  Upload,
+} from "lucide-react";
+import { cn } from "@/lib/utils";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { trpc } from "@/lib/trpc/client";
+import type { EditionChangeType } from "@/lib/questionnaire/edition-diff";
+
+interface QuestionnaireEditionsProps {
+  questionnaireId: string;
+  locale: string;
+}
+
+const CHANGE_STYLES: Record<EditionChangeType, string> = {
+  ADDED: "bg-emerald-100 text-emerald-700 dark:bg-emerald-900/40 dark:text-emerald-400",
+  REVISED: "bg-blue-100 text-blue-700 dark:bg-blue-900/40 dark:text-blue-400",
+  MERGED: "bg-violet-100 text-violet-700 dark:bg-violet-900/40 dark:text-violet-400",
+  DELETED: "bg-red-100 text-red-700 dark:bg-red-900/40 dark:text-red-400",
+  UNCHANGED: "bg-muted text-muted-foreground",
+};
+
+const CHANGE_TYPES: EditionChangeType[] = ["ADDED", "REVISED", "MERGED", "DELETED", "UNCHANGED"];
+
+// =============================================================================
+// EDITION DIFF
+// =============================================================================
+
+function EditionDiffCard({ editionId }: { editionId: string }) {
+  const t = useTranslations("admin.questionnaires.editions");
+  const [filter, setFilter] = useState<EditionChangeType | "ALL_CHANGES">("ALL_CHANGES");
+
+  const { data: diff, isLoading } = trpc.admin.questionnaire.getEditionDiff.useQuery({
+    id: editionId,
+  });
+
+  const changes = useMemo(
+    () =>
+      diff?.changes.filter((c) =>
+        filter === "ALL_CHANGES" ? c.type !== "UNCHANGED" : c.type === filter
+      ) ?? [],
+    [diff, filter]
+  );
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>{t("diff.title")}</CardTitle>
+        <CardDescription>{t("diff.description")}</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading || !diff ? (
+          <Skeleton className="h-40 w-full" />
+        ) : (
+          <>
+            <div className="flex flex-wrap gap-2">
+              <Button
+                size="sm"
+                variant={filter === "ALL_CHANGES" ? "default" : "outline"}
+                onClick={() => setFilter("ALL_CHANGES")}
+              >
+                {t("diff.allChanges")}
+              </Button>
+              {CHANGE_TYPES.map((type) => (
+                <Button
+                  key={type}
+                  size="sm"
+                  variant={filter === type ? "default" : "outline"}
+                  onClick={() => setFilter(type)}
+                >
+                  {t(`diff.types.${type}`)}
+                  <Badge variant="secondary" className="ml-2">
+                    {diff.counts[type]}
+                  </Badge>
+                </Button>
+              ))}
+            </div>
+
+            {changes.length === 0 ? (
+              <p className="py-6 text-center text-sm text-muted-foreground">
+                {t("diff.empty")}
+              </p>
+            ) : (
+              <div className="max-h-[32rem] overflow-y-auto rounded-md border">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead className="w-28">{t("diff.columns.change")}</TableHead>
+                      <TableHead className="w-40">{t("diff.columns.pq")}</TableHead>
+                      <TableHead>{t("diff.columns.question")}</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {changes.map((change, index) => (
+                      <TableRow key={`${change.questionId ?? change.previousQuestionIds[0]}-${index}`}>
+                        <TableCell>
+                          <Badge variant="outline" className={cn("border-0", CHANGE_STYLES[change.type])}>
+                            {t(`diff.types.${change.type}`)}
+                          </Badge>
+                        </TableCell>
+                        <TableCell className="font-mono text-xs">
+                          {change.previousPqNumbers.length > 0 &&
+                          change.previousPqNumbers.join(", ") !== change.pqNumber ? (
+                            <span className="flex flex-wrap items-center gap-1">
+                              {change.previousPqNumbers.join(", ")}
+                              <ArrowRight className="h-3 w-3" />
+                              {change.pqNumber}
+                            </span>
+                          ) : (
+                            change.pqNumber
+                          )}
+                        </TableCell>
+                        <TableCell className="text-sm">
+                          <p>{change.questionTextEn}</p>
+                          {change.textChanged && change.previousTextEn && (
+                            <p className="mt-1 text-xs text-muted-foreground line-through">
+                              {change.previousTextEn}
+                            </p>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+// =============================================================================
+// MIGRATION
+// =============================================================================
+
+function MigrationPreview({
+  assessmentId,
+  targetEditionId,
+}: {
+  assessmentId: string;
+  targetEditionId: string;
+}) {
+  const t = useTranslations("admin.questionnaires.editions.migration");
+  const { data, isLoading } = trpc.admin.questionnaire.previewMigration.useQuery({
+    assessmentId,
+    targetEditionId,
+  });
+
+  if (isLoading || !data) {
+    return <Skeleton className="h-5 w-64" />;
+  }
+
+  return (
+    <div className="space-y-1 text-xs text-muted-foreground">
+      <p>
+        {t("preview", {
+          carried: data.carriedOver,
+          merged: data.mergedGroups,
+          dropped: data.droppedPqNumbers.length,
+          unanswered: data.unansweredInTarget,
+        })}
+      </p>
+      {data.droppedPqNumbers.length > 0 && (
+        <p className="font-mono">{t("droppedList", { pqs: data.droppedPqNumbers.join(", ") })}</p>
+      )}
+    </div>
+  );
+}
+
+function MigrationCard({
+  editionId,
+  isPublished,
+  locale,
+}: {
+  editionId: string;
+  isPublished: boolean;
+  locale: string;
+}) {
+  const t = useTranslations("admin.questionnaires.editions.migration");
+  const utils = trpc.useUtils();
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [previewId, setPreviewId] = useState<string | null>(null);
+
+  const { data, isLoading } = trpc.admin.questionnaire.getMigrationCandidates.useQuery({
+    id: editionId,
+  });
+
+  const migrate = trpc.admin.questionnaire.migrateAssessments.useMutation({
+    onSuccess: (result) => {
+      if (result.migrated.length > 0) {
+        toast.success(t("success", { count: result.migrated.length }));
+      }
+      for (const error of result.errors) {
+        toast.error(error.message);
+      }
+      setSelected(new Set());
+      utils.admin.questionnaire.getMigrationCandidates.invalidate();
+      utils.admin.questionnaire.getEditions.invalidate();
+    },
+    onError: (error) => toast.error(error.message),
+  });
+
+  const toggle = (id: string, checked: boolean) => {
+    const next = new Set(selected);
+    if (checked) next.add(id);
+    else next.delete(id);
+    setSelected(next);
+  };
+
+  const candidates = data?.migratable ?? [];
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ArrowRightLeft className="h-5 w-5" />
+          {t("title")}
+        </CardTitle>
+        <CardDescription>{t("description")}</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {!isPublished && (
+          <Alert>
+            <AlertDescription>{t("publishFirst")}</AlertDescription>
+          </Alert>
+        )}
+
+        {data && data.pinned > 0 && (
+          <p className="text-sm text-muted-foreground">{t("pinned", { count: data.pinned })}</p>
+        )}
+
+        {isLoading ? (
+          <Skeleton className="h-32 w-full" />
+        ) : candidates.length === 0 ? (
+          <p className="py-6 text-center text-sm text-muted-foreground">{t("empty")}</p>
+        ) : (
+          <>
+            <ul className="divide-y rounded-md border">
+              {candidates.map((assessment) => (
+                <li key={assessment.id} className="flex items-start gap-3 px-3 py-2">
+                  <Checkbox
+                    className="mt-1"
+                    checked={selected.has(assessment.id)}
+                    disabled={!isPublished || migrate.isPending}
+                    onCheckedChange={(checked) => toggle(assessment.id, checked === true)}
+                    aria-label={assessment.title}
+                  />
+                  <div className="flex-1 space-y-1">
+                    <div className="flex flex-wrap items-center gap-2 text-sm">
+                      <span className="font-medium">{assessment.title}</span>
+                      <Badge variant="secondary">{assessment.edition.version}</Badge>
+                      <span className="text-muted-foreground">
+                        {locale === "fr"
+                          ? assessment.organization.nameFr
+                          : assessment.organization.nameEn}
+                      </span>
+                      {assessment.completedAt && (
+                        <span className="text-muted-foreground">
+                          {format(new Date(assessment.completedAt), "PP")}
+                        </span>
+                      )}
+                    </div>
+                    {previewId === assessment.id ? (
+                      <MigrationPreview
+                        assessmentId={assessment.id}
+                        targetEditionId={editionId}
+                      />
+                    ) : (
+                      <Button
+                        variant="link"
+                        size="sm"
+                        className="h-auto p-0 text-xs"
+                        onClick={() => setPreviewId(assessment.id)}
+                      >
+                        {t("showPreview")}
+                      </Button>
+                    )}
+                  </div>
+                </li>
+              ))}
+            </ul>
+
+            <AlertDialog>
+              <AlertDialogTrigger asChild>
+                <Button disabled={!isPublished || selected.size === 0 || migrate.isPending}>
+                  {migrate.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                  {t("submit", { count: selected.size })}
+                </Button>
+              </AlertDialogTrigger>
+              <AlertDialogContent>
+                <AlertDialogHeader>
+                  <AlertDialogTitle>{t("confirmTitle")}</AlertDialogTitle>
+                  <AlertDialogDescription>
+                    {t("confirmDescription", { count: selected.size })}
+                  </AlertDialogDescription>
+                </AlertDialogHeader>
+                <AlertDialogFooter>
+                  <AlertDialogCancel>{t("cancel")}</AlertDialogCancel>
+                  <AlertDialogAction
+                    onClick={() =>
+                      migrate.mutate({
+                        assessmentIds: [...selected],
+                        targetEditionId: editionId,
+                      })
+                    }
+                  >
+                    {t("confirm")}
+                  </AlertDialogAction>
+                </AlertDialogFooter>
+              </AlertDialogContent>
+            </AlertDialog>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+// =============================================================================
+// MAIN COMPONENT
+// =============================================================================
+
+export function QuestionnaireEditions({ questionnaireId, locale }: QuestionnaireEditionsProps) {
+  const t = useTranslations("admin.questionnaires.editions");
+  const utils = trpc.useUtils();
+
+  const { data: chain, isLoading } = trpc.admin.questionnaire.getEditions.useQuery({
+    id: questionnaireId,
+  });
+
+  const publish = trpc.admin.questionnaire.publishEdition.useMutation({
+    onSuccess: () => {
+      toast.success(t("publishSuccess"));
+      utils.admin.questionnaire.getEditions.invalidate();
+      utils.admin.questionnaire.list.invalidate();
+    },
+    onError: (error) => toast.error(error.message),
+  });
+
+  if (isLoading || !chain) {
+    return (
+      <div className="space-y-4">
+        <Skeleton className="h-8 w-64" />
+        <Skeleton className="h-32 w-full" />
+      </div>
+    );
+  }
+
+  const index = chain.findIndex((e) => e.id === questionnaireId);
+  const edition = chain[index];
+  const latest = chain[chain.length - 1];
+  const isDraft = !edition.isActive && !edition.publishedAt && !!edition.previousEditionId;
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex flex-col gap-4 sm:flex-row sm:items-start sm:justify-between">
+        <div>
+          <h1 className="flex items-center gap-2 text-2xl font-bold tracking-tight">
+            <GitBranch className="h-6 w-6" />
+            {t("title")}
+          </h1>
+          <p className="text-muted-foreground">
+            {locale === "fr" ? edition.titleFr : edition.titleEn} · {edition.code}
+          </p>
+        </div>
+        <div className="flex gap-2">
+          {isDraft && (
+            <AlertDialog>
+              <AlertDialogTrigger asChild>
+                <Button disabled={publish.isPending}>
+                  {publish.isPending ? (
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  ) : (
+                    <CheckCircle2 className="mr-2 h-4 w-4" />
+                  )}
+                  {t("publish")}
+                </Button>
+              </AlertDialogTrigger>
+              <AlertDialogContent>
+                <AlertDialogHeader>
+                  <AlertDialogTitle>{t("publishTitle")}</AlertDialogTitle>
+                  <AlertDialogDescription>{t("publishDescription")}</AlertDialogDescription>
+                </AlertDialogHeader>
+                <AlertDialogFooter>
+                  <AlertDialogCancel>{t("migration.cancel")}</AlertDialogCancel>
+                  <AlertDialogAction onClick={() => publish.mutate({ id: edition.id })}>
+                    {t("publish")}
+                  </AlertDialogAction>
+                </AlertDialogFooter>
+              </AlertDialogContent>
+            </AlertDialog>
+          )}
+          {latest.id === edition.id && !isDraft && (
+            <Button variant="outline" asChild>
+              <Link href={`/${locale}/admin/questionnaires/import?previousEdition=${edition.id}`}>
+                <Upload className="mr-2 h-4 w-4" />
+                {t("importNew")}
+              </Link>
+            </Button>
+          )}
+        </div>
+      </div>
+
+      {/* Edition chain */}
+      <Card>
+        <CardContent className="pt-6">
+          <ol className="flex flex-wrap items-center gap-2">
+            {chain.map((e, i) => (
+              <li key={e.id} className="flex items-center gap-2">
+                {i > 0 && <ArrowRight className="h-4 w-4 text-muted-foreground" />}
+                <Link
+                  href={`/${locale}/admin/questionnaires/${e.id}/editions`}
+                  className={cn(
+                    "rounded-md border px-3 py-2 text-sm transition-colors hover:bg-muted",
+                    e.id === edition.id && "border-primary bg-primary/5"
+                  )}
+                >
+                  <div className="flex items-center gap-2 font-medium">
+                    {e.version}
+                    {e.isActive ? (
+                      <Badge className="bg-emerald-100 text-emerald-700 dark:bg-emerald-900/50 dark:text-emerald-400">
+                        {t("status.active")}
+                      </Badge>
+                    ) : !e.publishedAt && e.previousEditionId ? (
+                      <Badge variant="outline">{t("status.draft")}</Badge>
+                    ) : (
+                      <Badge variant="secondary">{t("status.superseded")}</Badge>
+                    )}
+                  </div>
+                  <div className="text-xs text-muted-foreground">
+                    {t("summary", {
+                      questions: e._count.questions,
+                      assessments: e._count.assessments,
+                    })}
+                  </div>
+                </Link>
+              </li>
+            ))}
+          </ol>
+        </CardContent>
+      </Card>
+
+      {edition.previousEditionId ? (
+        <>
+          <EditionDiffCard editionId={edition.id} />
+          <MigrationCard editionId={edition.id} isPublished={edition.isActive} locale={locale} />
+        </>
+      ) : (
+        <p className="text-sm text-muted-foreground">{t("firstEdition")}</p>
+      )}
+    </div>
+  );
+}
@@ -11,6 +11,7 @@ import { Progress } from "@/components/ui/progress";
 import { Badge } from "@/components/ui/badge";
 import { Label } from "@/components/ui/label";
 import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Alert, AlertDescription } from "@/components/ui/alert";
 import {
   AlertCircle,
   CheckCircle2,
@@ -18,6 +19,7 @@ import {
   ChevronRight,
   FileJson,
   FileSpreadsheet,
+  GitBranch,
   Loader2,
   Shield,
   Upload,
@@ -26,13 +28,14 @@ import {
 import { ImportPreviewTable, ImportSummaryCard } from "./import-preview-table";
 import { trpc } from "@/lib/trpc/client";
 import type { ValidationError } from "@/lib/questionnaire/import-schema";
+import { parseQuestionnaireWorkbook } from "@/lib/questionnaire/workbook-parser";
 
 // =============================================================================
 // TYPES
 // =============================================================================
 
 type QuestionnaireType = "ANS_USOAP_CMA" | "SMS_CANSO_SOE";
-type FileFormat = "json" | "csv";
+type FileFormat = "json" | "csv" | "xlsx";
 type WizardStep = 1 | 2 | 3 | 4;
 
 interface QuestionPreview {
@@ -70,6 +73,8 @@ interface ValidationResult {
 
 interface ImportWizardProps {
   locale: string;
+  /** Import the file as a new edition superseding this questionnaire */
+  previousEditionId?: string;
   onComplete?: (questionnaireId: string) => void;
 }
 
@@ -159,32 +164,53 @@ interface Step2Props {
   fileContent: string;
   fileName: string;
   onFileUpload: (content: string, name: string) => void;
+  onWorkbookUpload: (data: ArrayBuffer, name: string) => void;
   isValidating: boolean;
 }
 
+const FILE_ACCEPT: Record<FileFormat, string> = {
+  json: ".json",
+  csv: ".csv",
+  xlsx: ".xlsx,.xls",
+};
+
 function Step2FileUpload({
   selectedFormat,
   onSelectFormat,
   fileContent,
   fileName,
   onFileUpload,
+  onWorkbookUpload,
   isValidating,
 }: Step2Props) {
   const t = useTranslations("admin.import");
 
+  const readFile = useCallback(
+    (file: File) => {
+      const reader = new FileReader();
+      if (selectedFormat === "xlsx") {
+        reader.onload = (e) => {
+          onWorkbookUpload(e.target?.result as ArrayBuffer, file.name);
+        };
+        reader.readAsArrayBuffer(file);
+      } else {
+        reader.onload = (e) => {
+          const content = e.target?.result as string;
+          onFileUpload(content, file.name);
+        };
+        reader.readAsText(file);
+      }
+    },
+    [selectedFormat, onFileUpload, onWorkbookUpload]
+  );
+
   const handleFileChange = useCallback(
     async (event: React.ChangeEvent<HTMLInputElement>) => {
       const file = event.target.files?.[0];
       if (!file) return;
-
-      const reader = new FileReader();
-      reader.onload = (e) => {
-        const content = e.target?.result as string;
-        onFileUpload(content, file.name);
-      };
-      reader.readAsText(file);
+      readFile(file);
     },
-    [onFileUpload]
+    [readFile]
   );
 
   const handleDrop = useCallback(
@@ -192,15 +218,9 @@ function Step2FileUpload({
       event.preventDefault();
       const file = event.dataTransfer.files?.[0];
       if (!file) return;
-
-      const reader = new FileReader();
-      reader.onload = (e) => {
-        const content = e.target?.result as string;
-        onFileUpload(content, file.name);
-      };
-      reader.readAsText(file);
+      readFile(file);
     },
-    [onFileUpload]
+    [readFile]
   );
 
   const handleDragOver = (event: React.DragEvent<HTMLDivElement>) => {
@@ -248,7 +268,23 @@ function Step2FileUpload({
             <FileSpreadsheet className="h-4 w-4" />
             <span>CSV</span>
           </Label>
+          <Label
+            htmlFor="xlsx"
+            className={cn(
+              "flex items-center gap-2 px-4 py-2 rounded-lg border cursor-pointer transition-colors",
+              selectedFormat === "xlsx"
+                ? "border-primary bg-primary/5"
+                : "border-muted"
+            )}
+          >
+            <RadioGroupItem value="xlsx" id="xlsx" />
+            <FileSpreadsheet className="h-4 w-4" />
+            <span>Excel</span>
+          </Label>
         </RadioGroup>
+        {selectedFormat === "xlsx" && (
+          <p className="text-xs text-muted-foreground">{t("step2.xlsxHint")}</p>
+        )}
       </div>
 
       {/* File Upload Area */}
@@ -264,7 +300,7 @@ function Step2FileUpload({
       >
         <input
           type="file"
-          accept={selectedFormat === "json" ? ".json" : ".csv"}
+          accept={FILE_ACCEPT[selectedFormat]}
           onChange={handleFileChange}
           className="absolute inset-0 w-full h-full opacity-0 cursor-pointer"
           disabled={isValidating}
@@ -447,6 +483,7 @@ function Step4Confirm({
 
 export function QuestionnaireImportWizard({
   locale,
+  previousEditionId,
   onComplete,
 }: ImportWizardProps) {
   const t = useTranslations("admin.import");
@@ -466,6 +503,7 @@ export function QuestionnaireImportWizard({
   } | null>(null);
   const [importError, setImportError] = useState<string | null>(null);
   const [importSuccess, setImportSuccess] = useState(false);
+  const [importedId, setImportedId] = useState<string | null>(null);
 
   // tRPC mutations
   const validateMutation = trpc.admin.questionnaire.validateImport.useMutation();
@@ -473,7 +511,12 @@ export function QuestionnaireImportWizard({
 
   // Handle file upload and validate
   const handleFileUpload = useCallback(
-    async (content: string, name: string) => {
+    async (
+      content: string,
+      name: string,
+      format: "json" | "csv" = selectedFormat === "csv" ? "csv" : "json",
+      workbookWarnings: string[] = []
+    ) => {
       setFileContent(content);
       setFileName(name);
 
@@ -482,10 +525,13 @@ export function QuestionnaireImportWizard({
           const result = await validateMutation.mutateAsync({
             type: selectedType,
             data: content,
-            format: selectedFormat,
+            format,
           });
 
-          setValidationResult(result as ValidationResult);
+          setValidationResult({
+            ...(result as ValidationResult),
+            warnings: [...workbookWarnings, ...result.warnings],
+          });
 
           if (result.isValid) {
             toast.success(t("validationSuccess"));
@@ -512,6 +558,31 @@ export function QuestionnaireImportWizard({
     [selectedType, selectedFormat, validateMutation, t]
   );
 
+  // Workbooks are converted to JSON import data in the browser, so the
+  // server validates and imports them like any JSON file
+  const handleWorkbookUpload = useCallback(
+    (data: ArrayBuffer, name: string) => {
+      if (!selectedType) return;
+
+      const workbook = parseQuestionnaireWorkbook(data, selectedType);
+      if (workbook.errors.length > 0) {
+        setFileContent("");
+        setFileName(name);
+        setValidationResult({
+          isValid: false,
+          errors: workbook.errors,
+          warnings: workbook.warnings,
+          summary: null,
+        });
+        toast.error(workbook.errors[0].message);
+        return;
+      }
+
+      handleFileUpload(JSON.stringify(workbook.data), name, "json", workbook.warnings);
+    },
+    [selectedType, handleFileUpload]
+  );
+
   // Handle question edit in preview
   const handleEditQuestion = useCallback(
     (index: number, data: QuestionPreview) => {
@@ -572,11 +643,13 @@ export function QuestionnaireImportWizard({
         data: fileContent,
         createQuestionnaire: true,
         updateExisting: false,
+        previousEditionId,
       });
 
       if (result.success && result.summary) {
         setImportSuccess(true);
         setImportSummary(result.summary);
+        setImportedId(result.questionnaireId);
         toast.success(t("importSuccess"));
 
         if (result.questionnaireId && onComplete) {
@@ -593,7 +666,7 @@ export function QuestionnaireImportWizard({
       setImportError(message);
       toast.error(message);
     }
-  }, [selectedType, fileContent, bulkImportMutation, onComplete, t]);
+  }, [selectedType, fileContent, bulkImportMutation, previousEditionId, onComplete, t]);
 
   // Navigation
   const canGoNext = (): boolean => {
@@ -617,7 +690,12 @@ export function QuestionnaireImportWizard({
     } else if (step < 4) {
       setStep((step + 1) as WizardStep);
     } else if (importSuccess) {
-      router.push(`/${locale}/admin/questionnaires`);
+      // New editions open on their diff so they can be reviewed before publishing
+      router.push(
+        previousEditionId && importedId
+          ? `/${locale}/admin/questionnaires/${importedId}/editions`
+          : `/${locale}/admin/questionnaires`
+      );
     }
   };
 
@@ -645,6 +723,13 @@ export function QuestionnaireImportWizard({
         <Progress value={(step / 4) * 100} className="h-2" />
       </div>
 
+      {previousEditionId && (
+        <Alert>
+          <GitBranch className="h-4 w-4" />
+          <AlertDescription>{t("newEditionNotice")}</AlertDescription>
+        </Alert>
+      )}
+
       {/* Step Content */}
       <Card>
         <CardContent className="pt-6">
@@ -662,6 +747,7 @@ export function QuestionnaireImportWizard({
               fileContent={fileContent}
               fileName={fileName}
               onFileUpload={handleFileUpload}
+              onWorkbookUpload={handleWorkbookUpload}
               isValidating={validateMutation.isPending}
             />
           )}
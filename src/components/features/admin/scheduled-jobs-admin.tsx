@@ -0,0 +1,302 @@
+"use client";
+
+/**
+ * Scheduled Jobs Admin
+ *
+ * Lists the background jobs with their schedule, last run and health,
+ * and shows the run history of the selected job. Jobs can be re-run
+ * manually and their schedule paused.
+ */
+
+import { useState } from "react";
+import { useTranslations } from "next-intl";
+import { History, Loader2, Play } from "lucide-react";
+import { toast } from "sonner";
+import { trpc } from "@/lib/trpc/client";
+import { nextOccurrence } from "@/lib/jobs/cron";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Switch } from "@/components/ui/switch";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import type { JobRunStatus } from "@/types/prisma-enums";
+
+type JobHealth = "PAUSED" | "RUNNING" | "OVERDUE" | "FAILING" | "PENDING" | "HEALTHY";
+
+const HEALTH_VARIANTS: Record<JobHealth, "default" | "secondary" | "outline" | "destructive"> = {
+  HEALTHY: "default",
+  RUNNING: "secondary",
+  PENDING: "secondary",
+  PAUSED: "outline",
+  FAILING: "destructive",
+  OVERDUE: "destructive",
+};
+
+const RUN_STATUS_VARIANTS: Record<JobRunStatus, "default" | "secondary" | "destructive"> = {
+  SUCCEEDED: "default",
+  RUNNING: "secondary",
+  FAILED: "destructive",
+};
+
+function formatDateTime(date: Date | string, locale: string): string {
+  return new Intl.DateTimeFormat(locale === "fr" ? "fr-FR" : "en-US", {
+    dateStyle: "medium",
+    timeStyle: "short",
+  }).format(new Date(date));
+}
+
+function formatDuration(ms: number | null): string {
+  if (ms === null) return "—";
+  if (ms < 1000) return `${ms} ms`;
+  if (ms < 60_000) return `${(ms / 1000).toFixed(1)} s`;
+  return `${Math.floor(ms / 60_000)} min ${Math.round((ms % 60_000) / 1000)} s`;
+}
+
+export function ScheduledJobsAdminClient({ locale }: { locale: string }) {
+  const t = useTranslations("admin.jobs");
+  const utils = trpc.useUtils();
+
+  const [selectedKey, setSelectedKey] = useState<string | null>(null);
+
+  const { data: jobs, isLoading } = trpc.scheduledJobs.list.useQuery(undefined, {
+    refetchInterval: 30_000,
+  });
+  const { data: runs, isLoading: runsLoading } = trpc.scheduledJobs.getRuns.useQuery(
+    { jobKey: selectedKey ?? "", limit: 25 },
+    { enabled: !!selectedKey }
+  );
+
+  const runMutation = trpc.scheduledJobs.runNow.useMutation({
+    onSuccess: (outcome, { jobKey }) => {
+      if (outcome.status === "SUCCEEDED") {
+        toast.success(t("runSucceeded", { items: outcome.itemsProcessed }));
+      } else if (outcome.status === "FAILED") {
+        toast.error(t("runFailed", { count: outcome.errors.length }));
+      }
+      setSelectedKey(jobKey);
+      utils.scheduledJobs.invalidate();
+    },
+    onError: (error) => toast.error(error.message),
+  });
+
+  const enableMutation = trpc.scheduledJobs.setEnabled.useMutation({
+    onSuccess: () => utils.scheduledJobs.list.invalidate(),
+    onError: (error) => toast.error(error.message),
+  });
+
+  const healthOf = (job: NonNullable<typeof jobs>[number]): JobHealth => {
+    if (!job.isEnabled) return "PAUSED";
+    if (job.isRunning) return "RUNNING";
+    if (job.isOverdue) return "OVERDUE";
+    if (job.lastRun?.status === "FAILED") return "FAILING";
+    if (!job.lastRun) return "PENDING";
+    return "HEALTHY";
+  };
+
+  const selectedJob = jobs?.find((job) => job.key === selectedKey);
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-2xl font-bold">{t("title")}</h1>
+        <p className="text-muted-foreground">{t("description")}</p>
+      </div>
+
+      <Card>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>{t("job")}</TableHead>
+              <TableHead>{t("schedule")}</TableHead>
+              <TableHead>{t("health")}</TableHead>
+              <TableHead>{t("lastRun")}</TableHead>
+              <TableHead>{t("lastSuccess")}</TableHead>
+              <TableHead>{t("enabled")}</TableHead>
+              <TableHead className="text-right">{t("actions")}</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {isLoading
+              ? Array.from({ length: 4 }).map((_, i) => (
+                  <TableRow key={i}>
+                    {Array.from({ length: 7 }).map((_, j) => (
+                      <TableCell key={j}>
+                        <Skeleton className="h-5 w-full" />
+                      </TableCell>
+                    ))}
+                  </TableRow>
+                ))
+              : jobs?.map((job) => {
+                  const health = healthOf(job);
+                  const next = job.isEnabled ? nextOccurrence(job.schedule, new Date()) : null;
+                  const isRunningThis =
+                    runMutation.isPending && runMutation.variables?.jobKey === job.key;
+
+                  return (
+                    <TableRow
+                      key={job.key}
+                      className={selectedKey === job.key ? "bg-muted/50" : undefined}
+                    >
+                      <TableCell>
+                        <p className="font-medium">{locale === "fr" ? job.nameFr : job.nameEn}</p>
+                        <p className="max-w-sm text-xs text-muted-foreground">
+                          {locale === "fr" ? job.descriptionFr : job.descriptionEn}
+                        </p>
+                      </TableCell>
+                      <TableCell>
+                        <code className="text-xs">{job.schedule}</code>
+                        {next && (
+                          <p className="text-xs text-muted-foreground">
+                            {t("nextRun", { date: formatDateTime(next, locale) })}
+                          </p>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        <Badge variant={HEALTH_VARIANTS[health]}>{t(`healthStatus.${health}`)}</Badge>
+                      </TableCell>
+                      <TableCell className="text-sm">
+                        {job.lastRun ? (
+                          <>
+                            <p>{formatDateTime(job.lastRun.startedAt, locale)}</p>
+                            <p className="text-xs text-muted-foreground">
+                              {t("runSummary", {
+                                duration: formatDuration(job.lastRun.durationMs),
+                                items: job.lastRun.itemsProcessed,
+                              })}
+                            </p>
+                          </>
+                        ) : (
+                          "—"
+                        )}
+                      </TableCell>
+                      <TableCell className="text-sm text-muted-foreground">
+                        {job.lastSuccessAt ? formatDateTime(job.lastSuccessAt, locale) : "—"}
+                      </TableCell>
+                      <TableCell>
+                        <Switch
+                          checked={job.isEnabled}
+                          disabled={enableMutation.isPending}
+                          onCheckedChange={(isEnabled) =>
+                            enableMutation.mutate({ jobKey: job.key, isEnabled })
+                          }
+                        />
+                      </TableCell>
+                      <TableCell className="text-right whitespace-nowrap">
+                        <Button variant="ghost" size="sm" onClick={() => setSelectedKey(job.key)}>
+                          <History className="h-4 w-4" />
+                          <span className="sr-only">{t("history")}</span>
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          disabled={runMutation.isPending || job.isRunning}
+                          onClick={() => {
+                            if (confirm(t("runConfirm", { name: locale === "fr" ? job.nameFr : job.nameEn }))) {
+                              runMutation.mutate({ jobKey: job.key });
+                            }
+                          }}
+                        >
+                          {isRunningThis ? (
+                            <Loader2 className="h-4 w-4 animate-spin" />
+                          ) : (
+                            <Play className="h-4 w-4" />
+                          )}
+                          <span className="sr-only">{t("runNow")}</span>
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+          </TableBody>
+        </Table>
+      </Card>
+
+      {selectedJob && (
+        <Card>
+          <CardHeader>
+            <CardTitle>
+              {t("historyTitle", { name: locale === "fr" ? selectedJob.nameFr : selectedJob.nameEn })}
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="p-0">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>{t("startedAt")}</TableHead>
+                  <TableHead>{t("status")}</TableHead>
+                  <TableHead>{t("trigger")}</TableHead>
+                  <TableHead>{t("duration")}</TableHead>
+                  <TableHead>{t("items")}</TableHead>
+                  <TableHead>{t("errors")}</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {runsLoading ? (
+                  <TableRow>
+                    <TableCell colSpan={6}>
+                      <Skeleton className="h-5 w-full" />
+                    </TableCell>
+                  </TableRow>
+                ) : runs?.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={6} className="py-8 text-center text-muted-foreground">
+                      {t("noRuns")}
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  runs?.map((run) => (
+                    <TableRow key={run.id}>
+                      <TableCell className="text-sm">
+                        {formatDateTime(run.startedAt, locale)}
+                        <p className="text-xs text-muted-foreground">{run.instanceId}</p>
+                      </TableCell>
+                      <TableCell>
+                        <Badge variant={RUN_STATUS_VARIANTS[run.status]}>
+                          {t(`runStatus.${run.status}`)}
+                        </Badge>
+                      </TableCell>
+                      <TableCell className="text-sm">
+                        {t(`triggers.${run.trigger}`)}
+                        {run.triggeredBy && (
+                          <p className="text-xs text-muted-foreground">
+                            {run.triggeredBy.firstName} {run.triggeredBy.lastName}
+                          </p>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-sm">{formatDuration(run.durationMs)}</TableCell>
+                      <TableCell className="text-sm">{run.itemsProcessed}</TableCell>
+                      <TableCell className="max-w-md text-xs text-destructive">
+                        {run.errors.length > 0 ? (
+                          <ul className="space-y-1">
+                            {run.errors.slice(0, 3).map((error, i) => (
+                              <li key={i} className="break-words">
+                                {error}
+                              </li>
+                            ))}
+                            {run.errors.length > 3 && (
+                              <li>{t("moreErrors", { count: run.errors.length - 3 })}</li>
+                            )}
+                          </ul>
+                        ) : (
+                          <span className="text-muted-foreground">—</span>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))
+                )}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,204 @@
+"use client";
+
+/**
+ * Assessment Workbook Actions
+ *
+ * Excel export of an assessment and re-import of a workbook completed
+ * offline. Imported rows are saved through `assessment.saveResponses`.
+ */
+
+import { useRef, useState } from "react";
+import { useTranslations } from "next-intl";
+import { toast } from "sonner";
+import { trpc } from "@/lib/trpc/client";
+import { Button } from "@/components/ui/button";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { FileDown, FileUp, Loader2, AlertTriangle } from "lucide-react";
+import {
+  parseAssessmentWorkbook,
+  type AssessmentWorkbookParseResult,
+} from "@/lib/export/assessment-workbook";
+
+/** saveResponses accepts at most this many responses per call */
+const SAVE_BATCH_SIZE = 100;
+
+interface AssessmentWorkbookActionsProps {
+  assessmentId: string;
+  type: "ANS_USOAP_CMA" | "SMS_CANSO_SOE";
+  isEditable: boolean;
+}
+
+function downloadBase64(data: string, filename: string) {
+  const bytes = Uint8Array.from(atob(data), (c) => c.charCodeAt(0));
+  const blob = new Blob([bytes], {
+    type: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+  });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = filename;
+  a.click();
+  URL.revokeObjectURL(url);
+}
+
+export function AssessmentWorkbookActions({
+  assessmentId,
+  type,
+  isEditable,
+}: AssessmentWorkbookActionsProps) {
+  const t = useTranslations("assessment.workbook");
+  const utils = trpc.useUtils();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [parsed, setParsed] = useState<AssessmentWorkbookParseResult | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const exportMutation = trpc.assessment.export.useMutation({
+    onSuccess: (result) => {
+      if (result.format === "XLSX") {
+        downloadBase64(result.data, result.filename);
+        toast.success(t("exportSuccess"));
+      }
+    },
+    onError: (error) => {
+      toast.error(t("exportError"), { description: error.message });
+    },
+  });
+
+  const saveMutation = trpc.assessment.saveResponses.useMutation();
+
+  const handleFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) return;
+
+    const result = parseAssessmentWorkbook(await file.arrayBuffer(), type);
+
+    if (result.assessmentId && result.assessmentId !== assessmentId) {
+      toast.error(t("wrongAssessment"));
+      return;
+    }
+    if (result.responses.length === 0 && result.errors.length === 0) {
+      toast.info(t("nothingToImport"));
+      return;
+    }
+    setParsed(result);
+  };
+
+  const handleImport = async () => {
+    if (!parsed) return;
+    setIsSaving(true);
+
+    try {
+      let saved = 0;
+      for (let i = 0; i < parsed.responses.length; i += SAVE_BATCH_SIZE) {
+        const result = await saveMutation.mutateAsync({
+          assessmentId,
+          responses: parsed.responses.slice(i, i + SAVE_BATCH_SIZE),
+        });
+        saved += result.updatedCount;
+      }
+
+      toast.success(t("importSuccess", { count: saved }));
+      setParsed(null);
+      utils.assessment.getById.invalidate({ id: assessmentId });
+      utils.assessment.getResponses.invalidate({ assessmentId });
+    } catch (error) {
+      toast.error(t("importError"), {
+        description: error instanceof Error ? error.message : undefined,
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <>
+      <Button
+        variant="outline"
+        onClick={() =>
+          exportMutation.mutate({
+            assessmentId,
+            format: "XLSX",
+            includeEvidence: true,
+            includeNotes: true,
+          })
+        }
+        disabled={exportMutation.isPending}
+      >
+        {exportMutation.isPending ? (
+          <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+        ) : (
+          <FileDown className="h-4 w-4 mr-2" />
+        )}
+        {t("export")}
+      </Button>
+
+      {isEditable && (
+        <>
+          <Button variant="outline" onClick={() => fileInputRef.current?.click()}>
+            <FileUp className="h-4 w-4 mr-2" />
+            {t("import")}
+          </Button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".xlsx"
+            className="hidden"
+            onChange={handleFile}
+          />
+        </>
+      )}
+
+      <AlertDialog open={!!parsed} onOpenChange={(open) => !open && !isSaving && setParsed(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>{t("confirmTitle")}</AlertDialogTitle>
+            <AlertDialogDescription>
+              {t("confirmDescription", { count: parsed?.responses.length ?? 0 })}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+
+          {parsed && parsed.errors.length > 0 && (
+            <Alert variant="destructive">
+              <AlertTriangle className="h-4 w-4" />
+              <AlertDescription>
+                <p className="font-medium">{t("rowErrors", { count: parsed.errors.length })}</p>
+                <ul className="mt-1 text-xs space-y-0.5">
+                  {parsed.errors.slice(0, 5).map((error) => (
+                    <li key={`${error.sheet}-${error.row}`}>
+                      {t("rowError", { sheet: error.sheet, row: error.row, message: error.message })}
+                    </li>
+                  ))}
+                </ul>
+              </AlertDescription>
+            </Alert>
+          )}
+
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={isSaving}>{t("cancel")}</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={(e) => {
+                e.preventDefault();
+                handleImport();
+              }}
+              disabled={isSaving || !parsed || parsed.responses.length === 0}
+            >
+              {isSaving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              {t("confirm")}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+}
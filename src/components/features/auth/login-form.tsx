@@ -209,6 +209,16 @@ export function LoginForm() {
         </Button>
       </form>
 
+      {/* Programme application link */}
+      <p className="text-center text-sm text-muted-foreground">
+        {t("notParticipating")}{" "}
+        <Link
+          href={`/${locale}/join`}
+          className="font-medium text-primary hover:underline"
+        >
+          {t("applyToJoin")}
+        </Link>
+      </p>
     </div>
   );
 }
@@ -49,6 +49,8 @@ import { FindingSeverityBadge } from "../finding/finding-severity-badge";
 import { WorkflowHistory } from "../workflow/workflow-history";
 import { SLAIndicator } from "../workflow/sla-indicator";
 import { CAPEvidenceUpload } from "../caps/cap-evidence-upload";
+import { CAPEffectivenessReviews } from "./cap-effectiveness-reviews";
+import { CAPExtensionRequests } from "./cap-extension-requests";
 
 // =============================================================================
 // TYPES
@@ -116,6 +118,7 @@ interface CAPData {
   preventiveActionFr?: string | null;
   status: CAPStatus;
   dueDate: Date | string;
+  originalDueDate?: Date | string | null;
   createdAt: Date | string;
   updatedAt: Date | string;
   submittedAt?: Date | string | null;
@@ -432,6 +435,31 @@ export function CAPDetailView({ cap, userRole, onStatusChange }: CAPDetailViewPr
             onEvidenceChange={onStatusChange}
           />
 
+          {/* Due-date extension requests */}
+          <CAPExtensionRequests
+            capId={cap.id}
+            capStatus={cap.status}
+            dueDate={cap.dueDate}
+            canRequest={
+              ["SUPER_ADMIN", "ANSP_ADMIN", "SAFETY_MANAGER", "QUALITY_MANAGER"].includes(userRole)
+            }
+            canEndorse={["SUPER_ADMIN", "LEAD_REVIEWER"].includes(userRole)}
+            canDecide={["SUPER_ADMIN", "PROGRAMME_COORDINATOR"].includes(userRole)}
+            onChange={onStatusChange}
+          />
+
+          {/* Effectiveness Reviews (after closure) */}
+          <CAPEffectivenessReviews
+            capId={cap.id}
+            canUploadEvidence={
+              ["SUPER_ADMIN", "ANSP_ADMIN", "SAFETY_MANAGER", "QUALITY_MANAGER"].includes(userRole)
+            }
+            canComplete={
+              ["SUPER_ADMIN", "SYSTEM_ADMIN", "PROGRAMME_COORDINATOR", "STEERING_COMMITTEE", "LEAD_REVIEWER", "PEER_REVIEWER"].includes(userRole)
+            }
+            onChange={onStatusChange}
+          />
+
           {/* Timeline/History */}
           <Card>
             <CardContent className="pt-6">
@@ -544,6 +572,16 @@ export function CAPDetailView({ cap, userRole, onStatusChange }: CAPDetailViewPr
                 </span>
               }
             />
+            {cap.originalDueDate && (
+              <InfoRow
+                label={t("detail.originalDueDate")}
+                value={
+                  <span className="text-muted-foreground">
+                    {format(new Date(cap.originalDueDate), "PPP", { locale: dateLocale })}
+                  </span>
+                }
+              />
+            )}
             {!["VERIFIED", "CLOSED"].includes(cap.status) && (
               <InfoRow
                 label=""
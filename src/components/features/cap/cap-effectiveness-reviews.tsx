@@ -0,0 +1,404 @@
+"use client";
+
+/**
+ * CAP Effectiveness Reviews Component
+ *
+ * Follow-up checks that a closed CAP remains effective. Lists each review
+ * cycle with its schedule, evidence and outcome; the host organization
+ * uploads evidence to an open review and the review team completes it.
+ */
+
+import { useState } from "react";
+import { useTranslations, useLocale } from "next-intl";
+import Link from "next/link";
+import { format } from "date-fns";
+import { enUS, fr } from "date-fns/locale";
+import { toast } from "sonner";
+import { CalendarClock, ClipboardCheck, FileText, Loader2 } from "lucide-react";
+import { trpc } from "@/lib/trpc/client";
+import {
+  EFFECTIVENESS_CHECKLIST_KEYS,
+  emptyEffectivenessChecklist,
+  suggestEffectivenessOutcome,
+  unansweredChecklistItems,
+  type EffectivenessAnswer,
+  type EffectivenessChecklistItem,
+} from "@/lib/cap/effectiveness";
+import type {
+  EffectivenessFollowUp,
+  EffectivenessOutcome,
+  EffectivenessReviewStatus,
+} from "@/types/prisma-enums";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Textarea } from "@/components/ui/textarea";
+import { CAPEvidenceUploadDialog } from "../caps/cap-evidence-upload";
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+const STATUS_VARIANTS: Record<EffectivenessReviewStatus, "default" | "secondary" | "outline"> = {
+  SCHEDULED: "outline",
+  OPEN: "default",
+  COMPLETED: "secondary",
+  CANCELLED: "outline",
+};
+
+const OUTCOME_CLASSES: Record<EffectivenessOutcome, string> = {
+  EFFECTIVE: "bg-green-100 text-green-800 border-green-200",
+  PARTIALLY_EFFECTIVE: "bg-amber-100 text-amber-800 border-amber-200",
+  INEFFECTIVE: "bg-red-100 text-red-800 border-red-200",
+};
+
+const ANSWERS: EffectivenessAnswer[] = ["YES", "NO", "NA"];
+
+const OUTCOMES: EffectivenessOutcome[] = ["EFFECTIVE", "PARTIALLY_EFFECTIVE", "INEFFECTIVE"];
+
+// =============================================================================
+// COMPLETE REVIEW DIALOG
+// =============================================================================
+
+interface CompleteReviewDialogProps {
+  reviewId: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSuccess: () => void;
+}
+
+function CompleteReviewDialog({ reviewId, open, onOpenChange, onSuccess }: CompleteReviewDialogProps) {
+  const t = useTranslations("cap.effectiveness");
+  const [checklist, setChecklist] = useState<EffectivenessChecklistItem[]>(emptyEffectivenessChecklist);
+  const [outcome, setOutcome] = useState<EffectivenessOutcome | null>(null);
+  const [summary, setSummary] = useState("");
+  const [followUpAction, setFollowUpAction] = useState<EffectivenessFollowUp>("REOPEN_CAP");
+  const [dueDate, setDueDate] = useState("");
+
+  const complete = trpc.capEffectiveness.complete.useMutation({
+    onSuccess: () => {
+      toast.success(t("completeSuccess"));
+      onOpenChange(false);
+      onSuccess();
+    },
+    onError: (error) => toast.error(error.message),
+  });
+
+  const setItem = (key: EffectivenessChecklistItem["key"], patch: Partial<EffectivenessChecklistItem>) =>
+    setChecklist((items) => items.map((item) => (item.key === key ? { ...item, ...patch } : item)));
+
+  const checklistAnswered = unansweredChecklistItems(checklist).length === 0;
+  const suggested = checklistAnswered ? suggestEffectivenessOutcome(checklist) : null;
+  const selectedOutcome = outcome ?? suggested;
+  const needsDueDate = selectedOutcome === "INEFFECTIVE" && followUpAction === "REOPEN_CAP";
+
+  const canSubmit =
+    checklistAnswered &&
+    selectedOutcome !== null &&
+    summary.trim().length >= 10 &&
+    (!needsDueDate || dueDate !== "") &&
+    !complete.isPending;
+
+  const handleSubmit = () => {
+    if (!selectedOutcome) return;
+    complete.mutate({
+      id: reviewId,
+      checklist,
+      outcome: selectedOutcome,
+      summary: summary.trim(),
+      followUpAction: selectedOutcome === "INEFFECTIVE" ? followUpAction : undefined,
+      dueDate: needsDueDate ? new Date(dueDate) : undefined,
+    });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[700px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{t("completeTitle")}</DialogTitle>
+          <DialogDescription>{t("completeDescription")}</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {EFFECTIVENESS_CHECKLIST_KEYS.map((key) => {
+            const item = checklist.find((i) => i.key === key)!;
+            return (
+              <div key={key} className="space-y-2 rounded-lg border p-3">
+                <p className="text-sm font-medium">{t(`checklist.${key}`)}</p>
+                <RadioGroup
+                  value={item.answer ?? ""}
+                  onValueChange={(value) => setItem(key, { answer: value as EffectivenessAnswer })}
+                  className="flex gap-4"
+                >
+                  {ANSWERS.map((answer) => (
+                    <div key={answer} className="flex items-center gap-1.5">
+                      <RadioGroupItem value={answer} id={`${key}-${answer}`} />
+                      <Label htmlFor={`${key}-${answer}`} className="text-sm font-normal">
+                        {t(`answers.${answer}`)}
+                      </Label>
+                    </div>
+                  ))}
+                </RadioGroup>
+                {item.answer === "NO" && (
+                  <Input
+                    placeholder={t("notesPlaceholder")}
+                    value={item.notes ?? ""}
+                    onChange={(e) => setItem(key, { notes: e.target.value })}
+                  />
+                )}
+              </div>
+            );
+          })}
+
+          <div className="space-y-2">
+            <Label>{t("outcome")}</Label>
+            <Select
+              value={selectedOutcome ?? ""}
+              onValueChange={(value) => setOutcome(value as EffectivenessOutcome)}
+              disabled={!checklistAnswered}
+            >
+              <SelectTrigger>
+                <SelectValue placeholder={t("answerChecklistFirst")} />
+              </SelectTrigger>
+              <SelectContent>
+                {OUTCOMES.map((o) => (
+                  <SelectItem key={o} value={o}>
+                    {t(`outcomes.${o}`)}
+                    {o === suggested ? ` (${t("suggested")})` : ""}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {selectedOutcome === "INEFFECTIVE" && (
+            <div className="space-y-3 rounded-lg border border-red-200 bg-red-50/50 p-3">
+              <Label>{t("followUpAction")}</Label>
+              <RadioGroup
+                value={followUpAction}
+                onValueChange={(value) => setFollowUpAction(value as EffectivenessFollowUp)}
+              >
+                {(["REOPEN_CAP", "FOLLOW_UP_FINDING"] as const).map((action) => (
+                  <div key={action} className="flex items-start gap-2">
+                    <RadioGroupItem value={action} id={action} className="mt-0.5" />
+                    <Label htmlFor={action} className="font-normal">
+                      <span className="text-sm font-medium">{t(`followUp.${action}.label`)}</span>
+                      <span className="block text-xs text-muted-foreground">
+                        {t(`followUp.${action}.description`)}
+                      </span>
+                    </Label>
+                  </div>
+                ))}
+              </RadioGroup>
+              {followUpAction === "REOPEN_CAP" && (
+                <div className="space-y-1">
+                  <Label htmlFor="effectiveness-due-date">{t("newDueDate")}</Label>
+                  <Input
+                    id="effectiveness-due-date"
+                    type="date"
+                    value={dueDate}
+                    onChange={(e) => setDueDate(e.target.value)}
+                  />
+                </div>
+              )}
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label htmlFor="effectiveness-summary">{t("summary")}</Label>
+            <Textarea
+              id="effectiveness-summary"
+              rows={4}
+              placeholder={t("summaryPlaceholder")}
+              value={summary}
+              onChange={(e) => setSummary(e.target.value)}
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={complete.isPending}>
+            {t("cancel")}
+          </Button>
+          <Button onClick={handleSubmit} disabled={!canSubmit}>
+            {complete.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            {t("complete")}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+// =============================================================================
+// MAIN COMPONENT
+// =============================================================================
+
+interface CAPEffectivenessReviewsProps {
+  capId: string;
+  /** Host organization members may add evidence to an open review */
+  canUploadEvidence: boolean;
+  /** Review team and programme management may complete a review */
+  canComplete: boolean;
+  onChange?: () => void;
+}
+
+export function CAPEffectivenessReviews({
+  capId,
+  canUploadEvidence,
+  canComplete,
+  onChange,
+}: CAPEffectivenessReviewsProps) {
+  const t = useTranslations("cap.effectiveness");
+  const locale = useLocale();
+  const dateLocale = locale === "fr" ? fr : enUS;
+  const [completingId, setCompletingId] = useState<string | null>(null);
+
+  const { data: reviews, isLoading, refetch } = trpc.capEffectiveness.listByCap.useQuery({ capId });
+
+  const handleChange = () => {
+    refetch();
+    onChange?.();
+  };
+
+  if (isLoading) {
+    return <Skeleton className="h-[120px] w-full" />;
+  }
+
+  if (!reviews || reviews.length === 0) {
+    return null;
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-base">
+          <ClipboardCheck className="w-4 h-4" />
+          {t("title")}
+        </CardTitle>
+        <CardDescription>{t("description")}</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {reviews.map((review) => (
+          <div key={review.id} className="rounded-lg border p-4 space-y-3">
+            <div className="flex flex-wrap items-center justify-between gap-2">
+              <div className="flex items-center gap-2">
+                <span className="text-sm font-medium">{t("cycle", { cycle: review.cycle })}</span>
+                <Badge variant={STATUS_VARIANTS[review.status]}>{t(`status.${review.status}`)}</Badge>
+                {review.outcome && (
+                  <Badge variant="outline" className={OUTCOME_CLASSES[review.outcome]}>
+                    {t(`outcomes.${review.outcome}`)}
+                  </Badge>
+                )}
+              </div>
+              <span className="flex items-center gap-1 text-xs text-muted-foreground">
+                <CalendarClock className="w-3.5 h-3.5" />
+                {t("scheduledFor", {
+                  date: format(new Date(review.scheduledFor), "PP", { locale: dateLocale }),
+                })}
+              </span>
+            </div>
+
+            {review.evidence.length > 0 && (
+              <ul className="space-y-1">
+                {review.evidence.map((evidence) => (
+                  <li key={evidence.id} className="flex items-center gap-2 text-sm">
+                    <FileText className="w-3.5 h-3.5 text-muted-foreground" />
+                    <a
+                      href={evidence.fileUrl}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="hover:underline truncate"
+                    >
+                      {(locale === "fr" && evidence.titleFr) || evidence.titleEn}
+                    </a>
+                  </li>
+                ))}
+              </ul>
+            )}
+
+            {review.status === "COMPLETED" && (
+              <div className="space-y-1 text-sm">
+                {review.summary && <p className="whitespace-pre-wrap">{review.summary}</p>}
+                <p className="text-xs text-muted-foreground">
+                  {review.reviewedBy &&
+                    t("completedBy", {
+                      name: `${review.reviewedBy.firstName} ${review.reviewedBy.lastName}`,
+                      date: format(new Date(review.completedAt!), "PP", { locale: dateLocale }),
+                    })}
+                </p>
+                {review.followUpAction === "REOPEN_CAP" && (
+                  <p className="text-xs text-red-700">{t("reopened")}</p>
+                )}
+                {review.followUpFinding && (
+                  <p className="text-xs text-red-700">
+                    {t("followUpFinding")}{" "}
+                    <Link
+                      href={`/${locale}/findings/${review.followUpFinding.id}`}
+                      className="font-mono hover:underline"
+                    >
+                      {review.followUpFinding.referenceNumber}
+                    </Link>
+                  </p>
+                )}
+              </div>
+            )}
+
+            {review.status === "OPEN" && (
+              <div className="flex flex-wrap items-center gap-2">
+                {canUploadEvidence && (
+                  <CAPEvidenceUploadDialog
+                    capId={capId}
+                    effectivenessReviewId={review.id}
+                    onSuccess={handleChange}
+                  />
+                )}
+                {canComplete && (
+                  <Button
+                    variant="outline"
+                    onClick={() => setCompletingId(review.id)}
+                    disabled={review.evidence.length === 0}
+                    title={review.evidence.length === 0 ? t("evidenceRequired") : undefined}
+                  >
+                    {t("complete")}
+                  </Button>
+                )}
+                {review.evidence.length === 0 && (
+                  <span className="text-xs text-muted-foreground">{t("evidenceRequired")}</span>
+                )}
+              </div>
+            )}
+          </div>
+        ))}
+
+        {completingId && (
+          <CompleteReviewDialog
+            reviewId={completingId}
+            open={completingId !== null}
+            onOpenChange={(open) => !open && setCompletingId(null)}
+            onSuccess={handleChange}
+          />
+        )}
+      </CardContent>
+    </Card>
+  );
+}
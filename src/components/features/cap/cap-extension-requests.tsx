@@ -0,0 +1,468 @@
+"use client";
+
+/**
+ * CAP Extension Requests Component
+ *
+ * Due-date extension history of a CAP. The host organization requests more
+ * time with a justification and supporting evidence, the review lead
+ * endorses the request and the programme coordinator approves or rejects it.
+ */
+
+import { useState } from "react";
+import { useTranslations, useLocale } from "next-intl";
+import { format } from "date-fns";
+import { enUS, fr } from "date-fns/locale";
+import { toast } from "sonner";
+import { ArrowRight, CalendarPlus, FileText, Loader2 } from "lucide-react";
+import { trpc } from "@/lib/trpc/client";
+import {
+  EXTENDABLE_CAP_STATUSES,
+  MAX_EXTENSION_DAYS,
+  extensionDays,
+  isExtensionPending,
+} from "@/lib/cap/extension";
+import type { CAPExtensionStatus, CAPStatus } from "@/types/prisma-enums";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Textarea } from "@/components/ui/textarea";
+import { CAPEvidenceUploadDialog } from "../caps/cap-evidence-upload";
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+const STATUS_CLASSES: Record<CAPExtensionStatus, string> = {
+  PENDING: "bg-amber-100 text-amber-800 border-amber-200",
+  ENDORSED: "bg-blue-100 text-blue-800 border-blue-200",
+  APPROVED: "bg-green-100 text-green-800 border-green-200",
+  REJECTED: "bg-red-100 text-red-800 border-red-200",
+  WITHDRAWN: "bg-gray-100 text-gray-700 border-gray-200",
+};
+
+type DecisionAction = "endorse" | "approve" | "reject";
+
+// =============================================================================
+// REQUEST DIALOG
+// =============================================================================
+
+interface RequestExtensionDialogProps {
+  capId: string;
+  dueDate: Date;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSuccess: () => void;
+}
+
+function RequestExtensionDialog({
+  capId,
+  dueDate,
+  open,
+  onOpenChange,
+  onSuccess,
+}: RequestExtensionDialogProps) {
+  const t = useTranslations("cap.extension");
+  const [proposedDate, setProposedDate] = useState("");
+  const [justification, setJustification] = useState("");
+
+  const request = trpc.capExtension.request.useMutation({
+    onSuccess: () => {
+      toast.success(t("requestSuccess"));
+      setProposedDate("");
+      setJustification("");
+      onOpenChange(false);
+      onSuccess();
+    },
+    onError: (error) => toast.error(error.message),
+  });
+
+  const days = proposedDate ? extensionDays(dueDate, new Date(proposedDate)) : 0;
+  const canSubmit =
+    days > 0 &&
+    days <= MAX_EXTENSION_DAYS &&
+    justification.trim().length >= 10 &&
+    !request.isPending;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[550px]">
+        <DialogHeader>
+          <DialogTitle>{t("requestTitle")}</DialogTitle>
+          <DialogDescription>{t("requestDescription")}</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-1">
+            <Label htmlFor="extension-date">{t("proposedDate")}</Label>
+            <Input
+              id="extension-date"
+              type="date"
+              value={proposedDate}
+              onChange={(e) => setProposedDate(e.target.value)}
+            />
+            {proposedDate && (
+              <p className={days > 0 && days <= MAX_EXTENSION_DAYS ? "text-xs text-muted-foreground" : "text-xs text-destructive"}>
+                {days <= 0
+                  ? t("mustBeAfterDueDate")
+                  : days > MAX_EXTENSION_DAYS
+                    ? t("tooLong", { max: MAX_EXTENSION_DAYS })
+                    : t("extensionDays", { days })}
+              </p>
+            )}
+          </div>
+
+          <div className="space-y-1">
+            <Label htmlFor="extension-justification">{t("justification")}</Label>
+            <Textarea
+              id="extension-justification"
+              rows={4}
+              placeholder={t("justificationPlaceholder")}
+              value={justification}
+              onChange={(e) => setJustification(e.target.value)}
+            />
+          </div>
+
+          <p className="text-xs text-muted-foreground">{t("evidenceHint")}</p>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={request.isPending}>
+            {t("cancel")}
+          </Button>
+          <Button
+            onClick={() =>
+              request.mutate({
+                capId,
+                proposedDate: new Date(proposedDate),
+                justification: justification.trim(),
+              })
+            }
+            disabled={!canSubmit}
+          >
+            {request.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            {t("submitRequest")}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+// =============================================================================
+// DECISION DIALOG
+// =============================================================================
+
+interface DecisionDialogProps {
+  requestId: string;
+  action: DecisionAction;
+  /** Lead reviewers reject through endorsement, coordinators through decision */
+  rejectAsLead: boolean;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSuccess: () => void;
+}
+
+function DecisionDialog({
+  requestId,
+  action,
+  rejectAsLead,
+  open,
+  onOpenChange,
+  onSuccess,
+}: DecisionDialogProps) {
+  const t = useTranslations("cap.extension");
+  const [comment, setComment] = useState("");
+
+  const handlers = {
+    onSuccess: () => {
+      toast.success(t(`${action}Success`));
+      setComment("");
+      onOpenChange(false);
+      onSuccess();
+    },
+    onError: (error: { message: string }) => toast.error(error.message),
+  };
+
+  const endorse = trpc.capExtension.endorse.useMutation(handlers);
+  const decide = trpc.capExtension.decide.useMutation(handlers);
+  const isPending = endorse.isPending || decide.isPending;
+
+  const handleSubmit = () => {
+    const trimmed = comment.trim() || undefined;
+    if (action === "endorse" || (action === "reject" && rejectAsLead)) {
+      endorse.mutate({ id: requestId, endorse: action === "endorse", comment: trimmed });
+    } else {
+      decide.mutate({ id: requestId, approve: action === "approve", comment: trimmed });
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[500px]">
+        <DialogHeader>
+          <DialogTitle>{t(`${action}Title`)}</DialogTitle>
+          <DialogDescription>{t(`${action}Description`)}</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-1">
+          <Label htmlFor="extension-comment">{t("comment")}</Label>
+          <Textarea
+            id="extension-comment"
+            rows={3}
+            value={comment}
+            onChange={(e) => setComment(e.target.value)}
+          />
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isPending}>
+            {t("cancel")}
+          </Button>
+          <Button
+            variant={action === "reject" ? "destructive" : "default"}
+            onClick={handleSubmit}
+            disabled={isPending || (action === "reject" && comment.trim().length === 0)}
+          >
+            {isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            {t(action)}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+// =============================================================================
+// MAIN COMPONENT
+// =============================================================================
+
+interface CAPExtensionRequestsProps {
+  capId: string;
+  capStatus: CAPStatus;
+  dueDate: Date | string;
+  /** Host organization members may request and withdraw extensions */
+  canRequest: boolean;
+  /** Lead reviewers may endorse pending requests */
+  canEndorse: boolean;
+  /** Programme coordinators take the final decision */
+  canDecide: boolean;
+  onChange?: () => void;
+}
+
+export function CAPExtensionRequests({
+  capId,
+  capStatus,
+  dueDate,
+  canRequest,
+  canEndorse,
+  canDecide,
+  onChange,
+}: CAPExtensionRequestsProps) {
+  const t = useTranslations("cap.extension");
+  const locale = useLocale();
+  const dateLocale = locale === "fr" ? fr : enUS;
+  const [requestOpen, setRequestOpen] = useState(false);
+  const [decision, setDecision] = useState<{ id: string; action: DecisionAction } | null>(null);
+
+  const { data: requests, isLoading, refetch } = trpc.capExtension.listByCap.useQuery({ capId });
+
+  const handleChange = () => {
+    refetch();
+    onChange?.();
+  };
+
+  const withdraw = trpc.capExtension.withdraw.useMutation({
+    onSuccess: () => {
+      toast.success(t("withdrawSuccess"));
+      handleChange();
+    },
+    onError: (error) => toast.error(error.message),
+  });
+
+  if (isLoading) {
+    return <Skeleton className="h-[120px] w-full" />;
+  }
+
+  const hasPending = requests?.some((r) => isExtensionPending(r.status)) ?? false;
+  const canRequestNow = canRequest && EXTENDABLE_CAP_STATUSES.includes(capStatus) && !hasPending;
+
+  if ((!requests || requests.length === 0) && !canRequestNow) {
+    return null;
+  }
+
+  const formatDate = (date: Date | string) => format(new Date(date), "PP", { locale: dateLocale });
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between gap-4 space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle className="flex items-center gap-2 text-base">
+            <CalendarPlus className="w-4 h-4" />
+            {t("title")}
+          </CardTitle>
+          <CardDescription>{t("description")}</CardDescription>
+        </div>
+        {canRequestNow && (
+          <Button variant="outline" size="sm" onClick={() => setRequestOpen(true)}>
+            {t("request")}
+          </Button>
+        )}
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {requests?.length === 0 && (
+          <p className="text-sm text-muted-foreground">{t("empty")}</p>
+        )}
+
+        {requests?.map((request) => {
+          const pending = isExtensionPending(request.status);
+          return (
+            <div key={request.id} className="rounded-lg border p-4 space-y-3">
+              <div className="flex flex-wrap items-center justify-between gap-2">
+                <div className="flex items-center gap-2 text-sm font-medium">
+                  <span>{formatDate(request.currentDueDate)}</span>
+                  <ArrowRight className="w-3.5 h-3.5 text-muted-foreground" />
+                  <span>{formatDate(request.proposedDate)}</span>
+                  <span className="text-xs font-normal text-muted-foreground">
+                    {t("extensionDays", {
+                      days: extensionDays(new Date(request.currentDueDate), new Date(request.proposedDate)),
+                    })}
+                  </span>
+                </div>
+                <Badge variant="outline" className={STATUS_CLASSES[request.status]}>
+                  {t(`status.${request.status}`)}
+                </Badge>
+              </div>
+
+              <p className="text-sm whitespace-pre-wrap">{request.justification}</p>
+
+              <div className="space-y-0.5 text-xs text-muted-foreground">
+                <p>
+                  {t("requestedBy", {
+                    name: `${request.requestedBy.firstName} ${request.requestedBy.lastName}`,
+                    date: formatDate(request.createdAt),
+                  })}
+                </p>
+                {request.endorsedBy && request.endorsedAt && (
+                  <p>
+                    {t("endorsedBy", {
+                      name: `${request.endorsedBy.firstName} ${request.endorsedBy.lastName}`,
+                      date: formatDate(request.endorsedAt),
+                    })}
+                    {request.endorsementComment && ` — ${request.endorsementComment}`}
+                  </p>
+                )}
+                {request.decidedBy && request.decidedAt && (
+                  <p>
+                    {t("decidedBy", {
+                      name: `${request.decidedBy.firstName} ${request.decidedBy.lastName}`,
+                      date: formatDate(request.decidedAt),
+                    })}
+                    {request.decisionComment && ` — ${request.decisionComment}`}
+                  </p>
+                )}
+              </div>
+
+              {request.evidence.length > 0 && (
+                <ul className="space-y-1">
+                  {request.evidence.map((evidence) => (
+                    <li key={evidence.id} className="flex items-center gap-2 text-sm">
+                      <FileText className="w-3.5 h-3.5 text-muted-foreground" />
+                      <a
+                        href={evidence.fileUrl}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="hover:underline truncate"
+                      >
+                        {(locale === "fr" && evidence.titleFr) || evidence.titleEn}
+                      </a>
+                    </li>
+                  ))}
+                </ul>
+              )}
+
+              {pending && (
+                <div className="flex flex-wrap items-center gap-2">
+                  {canRequest && (
+                    <>
+                      <CAPEvidenceUploadDialog
+                        capId={capId}
+                        extensionRequestId={request.id}
+                        onSuccess={handleChange}
+                      />
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => withdraw.mutate({ id: request.id })}
+                        disabled={withdraw.isPending}
+                      >
+                        {t("withdraw")}
+                      </Button>
+                    </>
+                  )}
+                  {canEndorse && request.status === "PENDING" && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => setDecision({ id: request.id, action: "endorse" })}
+                    >
+                      {t("endorse")}
+                    </Button>
+                  )}
+                  {canDecide && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => setDecision({ id: request.id, action: "approve" })}
+                    >
+                      {t("approve")}
+                    </Button>
+                  )}
+                  {(canDecide || (canEndorse && request.status === "PENDING")) && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      className="text-destructive"
+                      onClick={() => setDecision({ id: request.id, action: "reject" })}
+                    >
+                      {t("reject")}
+                    </Button>
+                  )}
+                </div>
+              )}
+            </div>
+          );
+        })}
+
+        <RequestExtensionDialog
+          capId={capId}
+          dueDate={new Date(dueDate)}
+          open={requestOpen}
+          onOpenChange={setRequestOpen}
+          onSuccess={handleChange}
+        />
+
+        {decision && (
+          <DecisionDialog
+            requestId={decision.id}
+            action={decision.action}
+            rejectAsLead={!canDecide}
+            open={decision !== null}
+            onOpenChange={(open) => !open && setDecision(null)}
+            onSuccess={handleChange}
+          />
+        )}
+      </CardContent>
+    </Card>
+  );
+}
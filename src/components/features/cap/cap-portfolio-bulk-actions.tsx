@@ -0,0 +1,222 @@
+"use client";
+
+/**
+ * CAP Portfolio Bulk Actions
+ *
+ * Actions applied to the CAPs selected in the portfolio: reassign the
+ * owner, request a due-date extension and upload evidence shared by all.
+ */
+
+import { useState } from "react";
+import { useTranslations } from "next-intl";
+import { toast } from "sonner";
+import { CalendarPlus, Loader2, UserCog } from "lucide-react";
+import { trpc } from "@/lib/trpc/client";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Textarea } from "@/components/ui/textarea";
+import { CAPEvidenceUploadDialog } from "../caps/cap-evidence-upload";
+
+interface CAPPortfolioBulkActionsProps {
+  selectedIds: string[];
+  owners: { id: string; firstName: string; lastName: string }[];
+  onDone: () => void;
+}
+
+export function CAPPortfolioBulkActions({
+  selectedIds,
+  owners,
+  onDone,
+}: CAPPortfolioBulkActionsProps) {
+  const t = useTranslations("cap.portfolio.bulk");
+  const count = selectedIds.length;
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <span className="text-sm text-muted-foreground mr-2">
+        {t("selected", { count })}
+      </span>
+      <ReassignDialog selectedIds={selectedIds} owners={owners} onDone={onDone} />
+      <ExtensionDialog selectedIds={selectedIds} onDone={onDone} />
+      {count > 0 && (
+        <CAPEvidenceUploadDialog
+          capId={selectedIds[0]}
+          sharedCapIds={selectedIds}
+          onSuccess={onDone}
+        />
+      )}
+    </div>
+  );
+}
+
+// =============================================================================
+// REASSIGN OWNER
+// =============================================================================
+
+function ReassignDialog({ selectedIds, owners, onDone }: CAPPortfolioBulkActionsProps) {
+  const t = useTranslations("cap.portfolio.bulk");
+  const [open, setOpen] = useState(false);
+  const [assignedToId, setAssignedToId] = useState("");
+
+  const reassign = trpc.cap.bulkReassign.useMutation({
+    onSuccess: (result) => {
+      toast.success(t("reassignSuccess", { count: result.count }));
+      setOpen(false);
+      setAssignedToId("");
+      onDone();
+    },
+    onError: (error) => {
+      toast.error(error.message);
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" disabled={selectedIds.length === 0}>
+          <UserCog className="w-4 h-4 mr-2" />
+          {t("reassign")}
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{t("reassignTitle")}</DialogTitle>
+          <DialogDescription>
+            {t("reassignDescription", { count: selectedIds.length })}
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-2">
+          <Label>{t("newOwner")}</Label>
+          <Select value={assignedToId} onValueChange={setAssignedToId}>
+            <SelectTrigger>
+              <SelectValue placeholder={t("selectOwner")} />
+            </SelectTrigger>
+            <SelectContent>
+              {owners.map((owner) => (
+                <SelectItem key={owner.id} value={owner.id}>
+                  {owner.firstName} {owner.lastName}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => setOpen(false)}>
+            {t("cancel")}
+          </Button>
+          <Button
+            disabled={!assignedToId || reassign.isPending}
+            onClick={() => reassign.mutate({ capIds: selectedIds, assignedToId })}
+          >
+            {reassign.isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+            {t("reassign")}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+// =============================================================================
+// REQUEST EXTENSION
+// =============================================================================
+
+function ExtensionDialog({
+  selectedIds,
+  onDone,
+}: Omit<CAPPortfolioBulkActionsProps, "owners">) {
+  const t = useTranslations("cap.portfolio.bulk");
+  const [open, setOpen] = useState(false);
+  const [proposedDate, setProposedDate] = useState("");
+  const [justification, setJustification] = useState("");
+
+  const requestExtension = trpc.cap.bulkRequestExtension.useMutation({
+    onSuccess: (result) => {
+      toast.success(t("extensionSuccess", { count: result.count }));
+      setOpen(false);
+      setProposedDate("");
+      setJustification("");
+      onDone();
+    },
+    onError: (error) => {
+      toast.error(error.message);
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" disabled={selectedIds.length === 0}>
+          <CalendarPlus className="w-4 h-4 mr-2" />
+          {t("requestExtension")}
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{t("extensionTitle")}</DialogTitle>
+          <DialogDescription>
+            {t("extensionDescription", { count: selectedIds.length })}
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="proposedDate">{t("proposedDate")}</Label>
+            <Input
+              id="proposedDate"
+              type="date"
+              value={proposedDate}
+              onChange={(e) => setProposedDate(e.target.value)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="justification">{t("justification")}</Label>
+            <Textarea
+              id="justification"
+              rows={4}
+              value={justification}
+              onChange={(e) => setJustification(e.target.value)}
+              placeholder={t("justificationPlaceholder")}
+            />
+          </div>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => setOpen(false)}>
+            {t("cancel")}
+          </Button>
+          <Button
+            disabled={
+              !proposedDate || justification.trim().length < 10 || requestExtension.isPending
+            }
+            onClick={() =>
+              requestExtension.mutate({
+                capIds: selectedIds,
+                proposedDate: new Date(proposedDate),
+                justification: justification.trim(),
+              })
+            }
+          >
+            {requestExtension.isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+            {t("submitExtension")}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,178 @@
+"use client";
+
+/**
+ * CAP Portfolio Gantt Timeline
+ *
+ * One bar per CAP from acceptance to due date, with its milestones as
+ * markers and a line for today. Bars are coloured by deadline urgency.
+ */
+
+import { useMemo } from "react";
+import { useTranslations, useLocale } from "next-intl";
+import Link from "next/link";
+import { format } from "date-fns";
+import { enUS, fr } from "date-fns/locale";
+import { capGanttSpan, ganttOffset, ganttRange } from "@/lib/cap/portfolio";
+import type { CAPPortfolio } from "@/server/services/cap-deadline-service";
+import type { MilestoneStatus } from "@/types/prisma-enums";
+import {
+  Tooltip,
+  TooltipContent,
+  TooltipTrigger,
+} from "@/components/ui/tooltip";
+import { cn } from "@/lib/utils";
+
+type PortfolioItem = CAPPortfolio["items"][number];
+
+const URGENCY_BAR: Record<PortfolioItem["deadlineInfo"]["urgencyLevel"], string> = {
+  overdue: "bg-red-500",
+  critical: "bg-orange-500",
+  warning: "bg-amber-400",
+  normal: "bg-blue-500",
+};
+
+const MILESTONE_MARKER: Record<MilestoneStatus, string> = {
+  COMPLETED: "bg-green-600",
+  IN_PROGRESS: "bg-blue-700",
+  PENDING: "bg-white",
+  OVERDUE: "bg-red-600",
+  CANCELLED: "bg-slate-300",
+};
+
+interface CAPPortfolioGanttProps {
+  items: PortfolioItem[];
+}
+
+export function CAPPortfolioGantt({ items }: CAPPortfolioGanttProps) {
+  const t = useTranslations("cap.portfolio.gantt");
+  const locale = useLocale();
+  const dateLocale = locale === "fr" ? fr : enUS;
+
+  const { rows, range, todayOffset } = useMemo(() => {
+    const today = new Date();
+    const rows = items.map((item) => ({ item, span: capGanttSpan(item.cap) }));
+    const range = ganttRange(
+      rows.map((r) => r.span),
+      today
+    );
+    return { rows, range, todayOffset: ganttOffset(today, range) };
+  }, [items]);
+
+  if (items.length === 0) {
+    return <p className="text-sm text-muted-foreground py-6 text-center">{t("empty")}</p>;
+  }
+
+  return (
+    <div className="overflow-x-auto">
+      <div className="min-w-[720px]">
+        {/* Month axis */}
+        <div className="flex border-b text-xs text-muted-foreground">
+          <div className="w-48 shrink-0" />
+          <div className="relative flex-1 h-6">
+            {range.months.map((month) => (
+              <span
+                key={month.toISOString()}
+                className="absolute top-1 border-l pl-1"
+                style={{ left: `${ganttOffset(month, range)}%` }}
+              >
+                {format(month, "MMM yy", { locale: dateLocale })}
+              </span>
+            ))}
+          </div>
+        </div>
+
+        {rows.map(({ item, span }) => {
+          const left = ganttOffset(span.start, range);
+          const width = Math.max(ganttOffset(span.end, range) - left, 0.5);
+          const title = locale === "fr" ? item.cap.finding.titleFr : item.cap.finding.titleEn;
+
+          return (
+            <div key={item.cap.id} className="flex items-center border-b last:border-b-0 h-9">
+              <div className="w-48 shrink-0 pr-2 truncate text-sm">
+                <Link href={`/${locale}/caps/${item.cap.id}`} className="font-mono hover:underline">
+                  {item.cap.finding.referenceNumber}
+                </Link>
+              </div>
+              <div className="relative flex-1 h-full">
+                <div
+                  className="absolute inset-y-0 border-l border-dashed border-red-400"
+                  style={{ left: `${todayOffset}%` }}
+                />
+                <Tooltip>
+                  <TooltipTrigger asChild>
+                    <div
+                      className={cn(
+                        "absolute top-2 h-5 rounded",
+                        item.cap.status === "VERIFIED" || item.cap.status === "CLOSED"
+                          ? "bg-green-500/70"
+                          : URGENCY_BAR[item.deadlineInfo.urgencyLevel]
+                      )}
+                      style={{ left: `${left}%`, width: `${width}%` }}
+                    />
+                  </TooltipTrigger>
+                  <TooltipContent>
+                    <p className="font-medium">{title}</p>
+                    <p className="text-xs">
+                      {format(span.start, "PP", { locale: dateLocale })} →{" "}
+                      {format(item.cap.dueDate, "PP", { locale: dateLocale })}
+                    </p>
+                    <p className="text-xs">
+                      {t("milestones", {
+                        completed: item.milestoneProgress.completed,
+                        total: item.milestoneProgress.total,
+                      })}
+                    </p>
+                  </TooltipContent>
+                </Tooltip>
+                {item.cap.milestones.map((milestone) => (
+                  <Tooltip key={milestone.id}>
+                    <TooltipTrigger asChild>
+                      <div
+                        className={cn(
+                          "absolute top-3 h-3 w-3 -ml-1.5 rotate-45 border border-slate-700",
+                          MILESTONE_MARKER[milestone.status]
+                        )}
+                        style={{ left: `${ganttOffset(milestone.targetDate, range)}%` }}
+                      />
+                    </TooltipTrigger>
+                    <TooltipContent>
+                      <p className="font-medium">
+                        {(locale === "fr" && milestone.titleFr) || milestone.titleEn}
+                      </p>
+                      <p className="text-xs">
+                        {format(milestone.targetDate, "PP", { locale: dateLocale })}
+                      </p>
+                    </TooltipContent>
+                  </Tooltip>
+                ))}
+              </div>
+            </div>
+          );
+        })}
+
+        {/* Legend */}
+        <div className="flex flex-wrap gap-4 pt-3 text-xs text-muted-foreground">
+          <span className="flex items-center gap-1">
+            <span className="h-3 w-3 rounded bg-blue-500" /> {t("legend.onTrack")}
+          </span>
+          <span className="flex items-center gap-1">
+            <span className="h-3 w-3 rounded bg-amber-400" /> {t("legend.dueSoon")}
+          </span>
+          <span className="flex items-center gap-1">
+            <span className="h-3 w-3 rounded bg-red-500" /> {t("legend.overdue")}
+          </span>
+          <span className="flex items-center gap-1">
+            <span className="h-3 w-3 rounded bg-green-500/70" /> {t("legend.closed")}
+          </span>
+          <span className="flex items-center gap-1">
+            <span className="h-2.5 w-2.5 rotate-45 border border-slate-700 bg-white" />{" "}
+            {t("legend.milestone")}
+          </span>
+          <span className="flex items-center gap-1">
+            <span className="h-3 border-l border-dashed border-red-400" /> {t("legend.today")}
+          </span>
+        </div>
+      </div>
+    </div>
+  );
+}
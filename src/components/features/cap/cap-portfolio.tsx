@@ -0,0 +1,496 @@
+"use client";
+
+/**
+ * CAP Portfolio Dashboard
+ *
+ * Organization-wide view of corrective action plans for a host ANSP:
+ * headline figures, the open-findings burndown by severity, a Gantt
+ * timeline of CAPs and milestones, bulk actions on selected CAPs and the
+ * board status pack export. Programme management picks the organization.
+ */
+
+import { useMemo, useState } from "react";
+import { useTranslations, useLocale } from "next-intl";
+import Link from "next/link";
+import { format } from "date-fns";
+import { enUS, fr } from "date-fns/locale";
+import {
+  AlertTriangle,
+  CheckCircle,
+  Clock,
+  Download,
+  FileSpreadsheet,
+  FileText,
+  Flag,
+  Wrench,
+} from "lucide-react";
+import {
+  AreaChart,
+  Area,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+  ResponsiveContainer,
+} from "recharts";
+import { trpc } from "@/lib/trpc/client";
+import { PORTFOLIO_SEVERITIES } from "@/lib/cap/portfolio";
+import {
+  exportCAPStatusPack,
+  type CAPStatusPackFormat,
+} from "@/lib/export/cap-status-pack";
+import type { CAPPortfolio as CAPPortfolioData } from "@/server/services/cap-deadline-service";
+import type { CAPStatus, UserRole } from "@/types/prisma-enums";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Progress } from "@/components/ui/progress";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { cn } from "@/lib/utils";
+import { CAPStatusBadge } from "./cap-status-badge";
+import { CAPPortfolioGantt } from "./cap-portfolio-gantt";
+import { CAPPortfolioBulkActions } from "./cap-portfolio-bulk-actions";
+
+const VIEW_ALL_ROLES: UserRole[] = [
+  "SUPER_ADMIN",
+  "SYSTEM_ADMIN",
+  "PROGRAMME_COORDINATOR",
+  "STEERING_COMMITTEE",
+];
+
+/** Roles that may run bulk actions on their organization's CAPs */
+const BULK_ACTION_ROLES: UserRole[] = [
+  "SUPER_ADMIN",
+  "ANSP_ADMIN",
+  "SAFETY_MANAGER",
+  "QUALITY_MANAGER",
+];
+
+const SEVERITY_COLORS = {
+  CRITICAL: "#ef4444",
+  MAJOR: "#f59e0b",
+  MINOR: "#06b6d4",
+  OBSERVATION: "#6b7280",
+};
+
+const CLOSED_STATUSES: CAPStatus[] = ["VERIFIED", "CLOSED"];
+
+interface CAPPortfolioProps {
+  userRole: UserRole;
+}
+
+export function CAPPortfolio({ userRole }: CAPPortfolioProps) {
+  const t = useTranslations("cap.portfolio");
+  const locale = useLocale();
+  const canViewAll = VIEW_ALL_ROLES.includes(userRole);
+
+  const [organizationId, setOrganizationId] = useState<string>("");
+  const [months, setMonths] = useState(12);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+
+  const { data: organizations } = trpc.organization.listForDropdown.useQuery(undefined, {
+    enabled: canViewAll,
+  });
+
+  const { data, isLoading, refetch } = trpc.cap.getPortfolio.useQuery(
+    { organizationId: organizationId || undefined, months },
+    { enabled: !canViewAll || !!organizationId }
+  );
+
+  const handleBulkDone = () => {
+    setSelected(new Set());
+    refetch();
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Filters and export */}
+      <div className="flex flex-col gap-3 md:flex-row md:items-center md:justify-between">
+        <div className="flex flex-wrap gap-3">
+          {canViewAll && (
+            <Select
+              value={organizationId}
+              onValueChange={(value) => {
+                setOrganizationId(value);
+                setSelected(new Set());
+              }}
+            >
+              <SelectTrigger className="w-[280px]">
+                <SelectValue placeholder={t("selectOrganization")} />
+              </SelectTrigger>
+              <SelectContent>
+                {organizations?.map((org) => (
+                  <SelectItem key={org.id} value={org.id}>
+                    {locale === "fr" && org.nameFr ? org.nameFr : org.nameEn}
+                    {org.organizationCode && ` (${org.organizationCode})`}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+          <Select value={String(months)} onValueChange={(value) => setMonths(Number(value))}>
+            <SelectTrigger className="w-[180px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {[3, 6, 12, 24].map((m) => (
+                <SelectItem key={m} value={String(m)}>
+                  {t("lastMonths", { count: m })}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        {data && <StatusPackExport portfolio={data} />}
+      </div>
+
+      {canViewAll && !organizationId ? (
+        <Card>
+          <CardContent className="py-12 text-center text-muted-foreground">
+            {t("chooseOrganization")}
+          </CardContent>
+        </Card>
+      ) : isLoading || !data ? (
+        <PortfolioSkeleton />
+      ) : (
+        <>
+          <PortfolioStats summary={data.summary} />
+
+          <Card>
+            <CardHeader>
+              <CardTitle>{t("burndown.title")}</CardTitle>
+              <CardDescription>{t("burndown.description")}</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <FindingBurndownChart data={data.burndown} />
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>{t("gantt.title")}</CardTitle>
+              <CardDescription>{t("gantt.description")}</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <CAPPortfolioGantt
+                items={data.items.filter((item) => !CLOSED_STATUSES.includes(item.cap.status))}
+              />
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader className="gap-3 md:flex-row md:items-center md:justify-between">
+              <div>
+                <CardTitle>{t("table.title")}</CardTitle>
+                <CardDescription>{t("table.description")}</CardDescription>
+              </div>
+              {BULK_ACTION_ROLES.includes(userRole) && (
+                <CAPPortfolioBulkActions
+                  selectedIds={[...selected]}
+                  owners={data.owners}
+                  onDone={handleBulkDone}
+                />
+              )}
+            </CardHeader>
+            <CardContent>
+              <PortfolioTable
+                items={data.items}
+                selected={selected}
+                onSelectedChange={setSelected}
+                selectable={BULK_ACTION_ROLES.includes(userRole)}
+              />
+            </CardContent>
+          </Card>
+        </>
+      )}
+    </div>
+  );
+}
+
+// =============================================================================
+// STATS
+// =============================================================================
+
+function PortfolioStats({ summary }: { summary: CAPPortfolioData["summary"] }) {
+  const t = useTranslations("cap.portfolio.stats");
+
+  const cards = [
+    { key: "open", value: summary.open, icon: Wrench, className: "text-blue-600" },
+    { key: "overdue", value: summary.overdue, icon: AlertTriangle, className: "text-red-600" },
+    { key: "dueSoon", value: summary.dueSoon, icon: Clock, className: "text-amber-600" },
+    { key: "milestonesOverdue", value: summary.milestonesOverdue, icon: Flag, className: "text-orange-600" },
+    { key: "closed", value: summary.closed, icon: CheckCircle, className: "text-green-600" },
+  ] as const;
+
+  return (
+    <div className="grid gap-4 grid-cols-2 md:grid-cols-5">
+      {cards.map(({ key, value, icon: Icon, className }) => (
+        <Card key={key}>
+          <CardContent className="pt-6">
+            <div className="flex items-center justify-between">
+              <div>
+                <p className="text-sm text-muted-foreground">{t(key)}</p>
+                <p className="text-2xl font-bold">{value}</p>
+              </div>
+              <Icon className={cn("h-6 w-6", className)} />
+            </div>
+          </CardContent>
+        </Card>
+      ))}
+    </div>
+  );
+}
+
+// =============================================================================
+// BURNDOWN
+// =============================================================================
+
+function FindingBurndownChart({ data }: { data: CAPPortfolioData["burndown"] }) {
+  const tSeverity = useTranslations("finding.severity");
+
+  return (
+    <ResponsiveContainer width="100%" height={280}>
+      <AreaChart data={data} margin={{ top: 5, right: 20, bottom: 5, left: 0 }}>
+        <CartesianGrid strokeDasharray="3 3" className="opacity-30" />
+        <XAxis dataKey="date" tick={{ fontSize: 11 }} />
+        <YAxis allowDecimals={false} tick={{ fontSize: 11 }} />
+        <Tooltip
+          contentStyle={{
+            backgroundColor: "hsl(var(--popover))",
+            border: "1px solid hsl(var(--border))",
+            borderRadius: 8,
+            fontSize: 12,
+          }}
+        />
+        <Legend />
+        {PORTFOLIO_SEVERITIES.map((severity) => (
+          <Area
+            key={severity}
+            type="stepAfter"
+            dataKey={severity}
+            name={tSeverity(severity)}
+            stackId="open"
+            stroke={SEVERITY_COLORS[severity]}
+            fill={SEVERITY_COLORS[severity]}
+            fillOpacity={0.4}
+          />
+        ))}
+      </AreaChart>
+    </ResponsiveContainer>
+  );
+}
+
+// =============================================================================
+// TABLE
+// =============================================================================
+
+interface PortfolioTableProps {
+  items: CAPPortfolioData["items"];
+  selected: Set<string>;
+  onSelectedChange: (selected: Set<string>) => void;
+  selectable: boolean;
+}
+
+function PortfolioTable({ items, selected, onSelectedChange, selectable }: PortfolioTableProps) {
+  const t = useTranslations("cap.portfolio.table");
+  const tSeverity = useTranslations("finding.severity");
+  const locale = useLocale();
+  const dateLocale = locale === "fr" ? fr : enUS;
+
+  const selectableIds = useMemo(
+    () => items.filter((item) => !CLOSED_STATUSES.includes(item.cap.status)).map((item) => item.cap.id),
+    [items]
+  );
+  const allSelected = selectableIds.length > 0 && selectableIds.every((id) => selected.has(id));
+
+  const toggle = (id: string, checked: boolean) => {
+    const next = new Set(selected);
+    if (checked) next.add(id);
+    else next.delete(id);
+    onSelectedChange(next);
+  };
+
+  if (items.length === 0) {
+    return <p className="text-sm text-muted-foreground py-6 text-center">{t("empty")}</p>;
+  }
+
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          {selectable && (
+            <TableHead className="w-10">
+              <Checkbox
+                checked={allSelected}
+                onCheckedChange={(checked) =>
+                  onSelectedChange(checked ? new Set(selectableIds) : new Set())
+                }
+                aria-label={t("selectAll")}
+              />
+            </TableHead>
+          )}
+          <TableHead>{t("finding")}</TableHead>
+          <TableHead>{t("severity")}</TableHead>
+          <TableHead>{t("status")}</TableHead>
+          <TableHead>{t("owner")}</TableHead>
+          <TableHead>{t("dueDate")}</TableHead>
+          <TableHead className="w-40">{t("milestones")}</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {items.map(({ cap, owner, deadlineInfo, milestoneProgress }) => {
+          const isClosed = CLOSED_STATUSES.includes(cap.status);
+          return (
+            <TableRow key={cap.id} data-state={selected.has(cap.id) ? "selected" : undefined}>
+              {selectable && (
+                <TableCell>
+                  <Checkbox
+                    checked={selected.has(cap.id)}
+                    disabled={isClosed}
+                    onCheckedChange={(checked) => toggle(cap.id, checked === true)}
+                    aria-label={cap.finding.referenceNumber}
+                  />
+                </TableCell>
+              )}
+              <TableCell>
+                <Link href={`/${locale}/caps/${cap.id}`} className="hover:underline">
+                  <span className="font-mono text-sm">{cap.finding.referenceNumber}</span>
+                  <p className="text-xs text-muted-foreground line-clamp-1">
+                    {locale === "fr" ? cap.finding.titleFr : cap.finding.titleEn}
+                  </p>
+                </Link>
+              </TableCell>
+              <TableCell>{tSeverity(cap.finding.severity)}</TableCell>
+              <TableCell>
+                <CAPStatusBadge status={cap.status} size="sm" />
+              </TableCell>
+              <TableCell className="text-sm">
+                {owner ? `${owner.firstName} ${owner.lastName}` : "—"}
+              </TableCell>
+              <TableCell
+                className={cn(
+                  "text-sm",
+                  !isClosed && deadlineInfo.isOverdue && "text-red-600 font-medium"
+                )}
+              >
+                {format(cap.dueDate, "PP", { locale: dateLocale })}
+                {cap.originalDueDate && (
+                  <span className="block text-xs font-normal text-muted-foreground">
+                    {t("originallyDue", {
+                      date: format(cap.originalDueDate, "PP", { locale: dateLocale }),
+                    })}
+                  </span>
+                )}
+              </TableCell>
+              <TableCell>
+                <div className="space-y-1">
+                  <Progress value={deadlineInfo.percentageComplete ?? 0} className="h-2" />
+                  <p className="text-xs text-muted-foreground">
+                    {milestoneProgress.completed}/{milestoneProgress.total}
+                    {milestoneProgress.overdue > 0 &&
+                      ` · ${t("milestonesOverdue", { count: milestoneProgress.overdue })}`}
+                  </p>
+                </div>
+              </TableCell>
+            </TableRow>
+          );
+        })}
+      </TableBody>
+    </Table>
+  );
+}
+
+// =============================================================================
+// STATUS PACK EXPORT
+// =============================================================================
+
+function StatusPackExport({ portfolio }: { portfolio: CAPPortfolioData }) {
+  const t = useTranslations("cap.portfolio.export");
+
+  const handleExport = (format: CAPStatusPackFormat) => {
+    exportCAPStatusPack(
+      {
+        organizationName: portfolio.organization.nameEn,
+        organizationCode: portfolio.organization.organizationCode,
+        summary: portfolio.summary,
+        rows: portfolio.items.map(({ cap, owner, deadlineInfo, milestoneProgress }) => ({
+          findingReference: cap.finding.referenceNumber,
+          findingTitle: cap.finding.titleEn,
+          severity: cap.finding.severity,
+          status: cap.status,
+          owner: owner ? `${owner.firstName} ${owner.lastName}` : "",
+          dueDate: cap.dueDate,
+          originalDueDate: cap.originalDueDate,
+          daysRemaining: deadlineInfo.daysRemaining,
+          milestonesCompleted: milestoneProgress.completed,
+          milestonesTotal: milestoneProgress.total,
+          milestonesOverdue: milestoneProgress.overdue,
+          percentageComplete: deadlineInfo.percentageComplete ?? 0,
+        })),
+      },
+      format,
+      `cap_status_pack_${portfolio.organization.organizationCode || portfolio.organization.id}`
+    );
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline">
+          <Download className="w-4 h-4 mr-2" />
+          {t("button")}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        <DropdownMenuItem onClick={() => handleExport("pdf")}>
+          <FileText className="w-4 h-4 mr-2" />
+          {t("pdf")}
+        </DropdownMenuItem>
+        <DropdownMenuItem onClick={() => handleExport("xlsx")}>
+          <FileSpreadsheet className="w-4 h-4 mr-2" />
+          {t("xlsx")}
+        </DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
+
+// =============================================================================
+// SKELETON
+// =============================================================================
+
+function PortfolioSkeleton() {
+  return (
+    <div className="space-y-6">
+      <div className="grid gap-4 grid-cols-2 md:grid-cols-5">
+        {Array.from({ length: 5 }).map((_, i) => (
+          <Skeleton key={i} className="h-24" />
+        ))}
+      </div>
+      <Skeleton className="h-72" />
+      <Skeleton className="h-64" />
+    </div>
+  );
+}
@@ -217,10 +217,23 @@ function EvidenceStatusBadge({ status }: { status: EvidenceStatus }) {
 interface UploadDialogProps {
   capId: string;
   milestones?: Milestone[];
+  /** Attach the evidence to an open effectiveness review */
+  effectivenessReviewId?: string;
+  /** Attach the evidence to a pending extension request */
+  extensionRequestId?: string;
+  /** File the same evidence against several CAPs (portfolio bulk action) */
+  sharedCapIds?: string[];
   onSuccess?: () => void;
 }
 
-function UploadDialog({ capId, milestones = [], onSuccess }: UploadDialogProps) {
+function UploadDialog({
+  capId,
+  milestones = [],
+  effectivenessReviewId,
+  extensionRequestId,
+  sharedCapIds,
+  onSuccess,
+}: UploadDialogProps) {
   const t = useTranslations("cap.evidence");
   const locale = useLocale();
   const [open, setOpen] = useState(false);
@@ -254,6 +267,21 @@ function UploadDialog({ capId, milestones = [], onSuccess }: UploadDialogProps)
     },
   });
 
+  const createSharedEvidence = trpc.capEvidence.createShared.useMutation({
+    onSuccess: () => {
+      toast.success(t("uploadSuccess"));
+      setOpen(false);
+      form.reset();
+      setUploadedFile(null);
+      onSuccess?.();
+    },
+    onError: (error) => {
+      toast.error(error.message);
+    },
+  });
+
+  const isPending = createEvidence.isPending || createSharedEvidence.isPending;
+
   const handleFileSelect = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
     if (!file) return;
@@ -305,6 +333,19 @@ function UploadDialog({ capId, milestones = [], onSuccess }: UploadDialogProps)
       return;
     }
 
+    if (sharedCapIds) {
+      createSharedEvidence.mutate({
+        capIds: sharedCapIds,
+        ...data,
+        fileUrl: uploadedFile.url,
+        fileName: uploadedFile.name,
+        fileType: uploadedFile.type,
+        fileSize: uploadedFile.size,
+        evidenceDate: new Date(data.evidenceDate),
+      });
+      return;
+    }
+
     createEvidence.mutate({
       capId,
       ...data,
@@ -314,15 +355,17 @@ function UploadDialog({ capId, milestones = [], onSuccess }: UploadDialogProps)
       fileSize: uploadedFile.size,
       evidenceDate: new Date(data.evidenceDate),
       milestoneId: data.milestoneId || undefined,
+      effectivenessReviewId,
+      extensionRequestId,
     });
   };
 
   return (
     <Dialog open={open} onOpenChange={setOpen}>
       <DialogTrigger asChild>
-        <Button>
+        <Button variant={sharedCapIds ? "outline" : "default"} disabled={sharedCapIds?.length === 0}>
           <Upload className="w-4 h-4 mr-2" />
-          {t("upload")}
+          {sharedCapIds ? t("uploadShared", { count: sharedCapIds.length }) : t("upload")}
         </Button>
       </DialogTrigger>
       <DialogContent className="sm:max-w-[600px] max-h-[90vh] overflow-y-auto">
@@ -521,9 +564,9 @@ function UploadDialog({ capId, milestones = [], onSuccess }: UploadDialogProps)
               </Button>
               <Button
                 type="submit"
-                disabled={!uploadedFile || createEvidence.isPending}
+                disabled={!uploadedFile || isPending}
               >
-                {createEvidence.isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                {isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
                 {t("submit")}
               </Button>
             </DialogFooter>
@@ -973,3 +1016,5 @@ export function CAPEvidenceUpload({
     </Card>
   );
 }
+
+export { UploadDialog as CAPEvidenceUploadDialog };
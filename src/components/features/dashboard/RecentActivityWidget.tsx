@@ -14,6 +14,7 @@ import {
   CheckCircle2,
   RefreshCcw,
   MessageSquare,
+  ArrowRightLeft,
   Activity,
   ArrowRight,
   FileText,
@@ -68,6 +69,7 @@ const EVENT_ICONS: Record<string, React.ElementType> = {
   COMPLETED: CheckCircle2,
   REOPENED: RefreshCcw,
   COMMENT_ADDED: MessageSquare,
+  MIGRATED: ArrowRightLeft,
   // Dashboard activity types
   assessment_submitted: FileText,
   assessment_updated: FileText,
@@ -91,6 +93,7 @@ const EVENT_COLORS: Record<string, string> = {
   COMPLETED: "text-green-600 bg-green-100",
   REOPENED: "text-amber-600 bg-amber-100",
   COMMENT_ADDED: "text-slate-600 bg-slate-100",
+  MIGRATED: "text-violet-600 bg-violet-100",
   // Dashboard activity types
   assessment_submitted: "text-blue-600 bg-blue-100",
   assessment_updated: "text-indigo-600 bg-indigo-100",
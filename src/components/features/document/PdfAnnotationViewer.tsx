@@ -0,0 +1,831 @@
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import Link from "next/link";
+import { useLocale, useTranslations } from "next-intl";
+import {
+  ChevronLeft,
+  ChevronRight,
+  ClipboardList,
+  Highlighter,
+  Loader2,
+  MessageSquare,
+  MousePointer2,
+  Radio,
+  Trash2,
+  ZoomIn,
+  ZoomOut,
+} from "lucide-react";
+import type { PDFDocumentProxy } from "pdfjs-dist";
+import { toast } from "sonner";
+import { cn } from "@/lib/utils";
+import { trpc } from "@/lib/trpc/client";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useLiveAnnotations } from "@/hooks/use-live-annotations";
+import {
+  rectFromDrag,
+  textInRect,
+  toPageFraction,
+  type PagePoint,
+  type PageRect,
+  type PageTextItem,
+} from "@/lib/annotations/page-geometry";
+import type { FindingSeverity } from "@/types/prisma-enums";
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+type Tool = "select" | "highlight" | "comment";
+
+interface DraftAnnotation {
+  type: "HIGHLIGHT" | "COMMENT";
+  rect: PageRect;
+  excerpt: string;
+}
+
+interface PdfAnnotationViewerProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  documentId: string;
+  documentName: string;
+  reviewId: string;
+  userId?: string;
+}
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+const HIGHLIGHT_COLOR = "#FFEB3B";
+const MIN_SCALE = 0.5;
+const MAX_SCALE = 3;
+const SCALE_STEP = 0.25;
+const SEVERITIES: FindingSeverity[] = ["CRITICAL", "MAJOR", "MINOR", "OBSERVATION"];
+
+// =============================================================================
+// COMPONENT
+// =============================================================================
+
+export function PdfAnnotationViewer({
+  open,
+  onOpenChange,
+  documentId,
+  documentName,
+  reviewId,
+  userId,
+}: PdfAnnotationViewerProps) {
+  const t = useTranslations("documentManagement.annotations");
+  const locale = useLocale();
+  const utils = trpc.useUtils();
+
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const overlayRef = useRef<HTMLDivElement>(null);
+  const pdfjsRef = useRef<typeof import("pdfjs-dist") | null>(null);
+
+  const [url, setUrl] = useState<string | null>(null);
+  const [pdf, setPdf] = useState<PDFDocumentProxy | null>(null);
+  const [loadError, setLoadError] = useState(false);
+  const [pageNumber, setPageNumber] = useState(1);
+  const [scale, setScale] = useState(1.25);
+  const [pageSize, setPageSize] = useState({ width: 0, height: 0 });
+  const [textItems, setTextItems] = useState<PageTextItem[]>([]);
+
+  const [tool, setTool] = useState<Tool>("select");
+  const [dragStart, setDragStart] = useState<PagePoint | null>(null);
+  const [dragEnd, setDragEnd] = useState<PagePoint | null>(null);
+  const [draft, setDraft] = useState<DraftAnnotation | null>(null);
+  const [draftNote, setDraftNote] = useState("");
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [convertId, setConvertId] = useState<string | null>(null);
+
+  // ---------------------------------------------------------------------------
+  // Data
+  // ---------------------------------------------------------------------------
+
+  const { data: annotations = [], isLoading: annotationsLoading } =
+    trpc.documentAnnotation.list.useQuery({ documentId }, { enabled: open });
+
+  const { mutateAsync: fetchDownloadUrl } = trpc.document.getDownloadUrl.useMutation();
+
+  const invalidate = useCallback(() => {
+    void utils.documentAnnotation.list.invalidate({ documentId });
+  }, [utils, documentId]);
+
+  const { isConnected } = useLiveAnnotations({
+    reviewId,
+    documentId,
+    userId,
+    onAnnotationCreated: invalidate,
+    onAnnotationUpdated: invalidate,
+    onAnnotationDeleted: invalidate,
+  });
+
+  const createMutation = trpc.documentAnnotation.create.useMutation({
+    onSuccess: (annotation) => {
+      setDraft(null);
+      setDraftNote("");
+      setSelectedId(annotation.id);
+      invalidate();
+    },
+    onError: (error) => toast.error(error.message || t("saveError")),
+  });
+
+  const deleteMutation = trpc.documentAnnotation.delete.useMutation({
+    onSuccess: () => {
+      toast.success(t("deleted"));
+      invalidate();
+    },
+    onError: (error) => toast.error(error.message || t("deleteError")),
+  });
+
+  // ---------------------------------------------------------------------------
+  // PDF loading & rendering
+  // ---------------------------------------------------------------------------
+
+  // Resolve a (signed) URL for the file each time the viewer opens
+  useEffect(() => {
+    if (!open) return;
+    let cancelled = false;
+
+    fetchDownloadUrl({ documentId })
+      .then((result) => {
+        if (!cancelled) setUrl(result.url);
+      })
+      .catch(() => {
+        if (!cancelled) setLoadError(true);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [open, documentId, fetchDownloadUrl]);
+
+  // Load the document with pdf.js (client-only, imported on demand)
+  useEffect(() => {
+    if (!url) return;
+    let cancelled = false;
+    let destroy: (() => Promise<void>) | undefined;
+
+    async function load(fileUrl: string) {
+      try {
+        const pdfjs = await import("pdfjs-dist");
+        pdfjs.GlobalWorkerOptions.workerSrc = new URL(
+          "pdfjs-dist/build/pdf.worker.min.mjs",
+          import.meta.url
+        ).toString();
+        pdfjsRef.current = pdfjs;
+
+        const task = pdfjs.getDocument({ url: fileUrl });
+        destroy = () => task.destroy();
+        const loaded = await task.promise;
+        if (!cancelled) {
+          setPdf(loaded);
+          setPageNumber(1);
+          setLoadError(false);
+        }
+      } catch (error) {
+        console.error("[PdfAnnotationViewer] Failed to load PDF:", error);
+        if (!cancelled) setLoadError(true);
+      }
+    }
+
+    void load(url);
+    return () => {
+      cancelled = true;
+      void destroy?.();
+      setPdf(null);
+    };
+  }, [url]);
+
+  // Render the current page and collect its text positions for excerpts
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const pdfjs = pdfjsRef.current;
+    if (!pdf || !canvas || !pdfjs) return;
+
+    let cancelled = false;
+    let cancelRender: (() => void) | undefined;
+
+    async function render(
+      lib: typeof import("pdfjs-dist"),
+      doc: PDFDocumentProxy,
+      target: HTMLCanvasElement
+    ) {
+      const page = await doc.getPage(pageNumber);
+      if (cancelled) return;
+
+      const viewport = page.getViewport({ scale });
+      const ratio = window.devicePixelRatio || 1;
+      target.width = Math.floor(viewport.width * ratio);
+      target.height = Math.floor(viewport.height * ratio);
+      target.style.width = `${viewport.width}px`;
+      target.style.height = `${viewport.height}px`;
+      setPageSize({ width: viewport.width, height: viewport.height });
+
+      const task = page.render({
+        canvas: target,
+        viewport,
+        transform: ratio !== 1 ? [ratio, 0, 0, ratio, 0, 0] : undefined,
+      });
+      cancelRender = () => task.cancel();
+
+      const base = page.getViewport({ scale: 1 });
+      const content = await page.getTextContent();
+      if (cancelled) return;
+
+      const items: PageTextItem[] = [];
+      for (const item of content.items) {
+        if (!("str" in item) || !item.str) continue;
+        const [, , c, d, left, baseline] = lib.Util.transform(base.transform, item.transform);
+        const fontHeight = Math.hypot(c, d);
+        items.push({
+          text: item.str,
+          rect: {
+            x: left / base.width,
+            y: (baseline - fontHeight) / base.height,
+            width: item.width / base.width,
+            height: fontHeight / base.height,
+          },
+        });
+      }
+      setTextItems(items);
+
+      try {
+        await task.promise;
+      } catch {
+        // Rendering cancelled by a page or zoom change
+      }
+    }
+
+    void render(pdfjs, pdf, canvas);
+    return () => {
+      cancelled = true;
+      cancelRender?.();
+    };
+  }, [pdf, pageNumber, scale]);
+
+  // Reset transient state when the viewer closes
+  useEffect(() => {
+    if (open) return;
+    setUrl(null);
+    setDraft(null);
+    setDraftNote("");
+    setSelectedId(null);
+    setTool("select");
+  }, [open]);
+
+  // ---------------------------------------------------------------------------
+  // Drawing
+  // ---------------------------------------------------------------------------
+
+  const pointFromEvent = (event: React.PointerEvent | React.MouseEvent): PagePoint => {
+    const bounds = overlayRef.current!.getBoundingClientRect();
+    return { x: event.clientX - bounds.left, y: event.clientY - bounds.top };
+  };
+
+  const handlePointerDown = (event: React.PointerEvent<HTMLDivElement>) => {
+    if (tool !== "highlight") return;
+    event.currentTarget.setPointerCapture(event.pointerId);
+    const point = pointFromEvent(event);
+    setDragStart(point);
+    setDragEnd(point);
+    setDraft(null);
+  };
+
+  const handlePointerMove = (event: React.PointerEvent<HTMLDivElement>) => {
+    if (!dragStart) return;
+    setDragEnd(pointFromEvent(event));
+  };
+
+  const handlePointerUp = (event: React.PointerEvent<HTMLDivElement>) => {
+    if (!dragStart) return;
+    const rect = rectFromDrag(dragStart, pointFromEvent(event), pageSize);
+    setDragStart(null);
+    setDragEnd(null);
+    if (rect) {
+      setDraft({ type: "HIGHLIGHT", rect, excerpt: textInRect(textItems, rect) });
+    }
+  };
+
+  const handleOverlayClick = (event: React.MouseEvent<HTMLDivElement>) => {
+    if (tool !== "comment") return;
+    const point = toPageFraction(pointFromEvent(event), pageSize);
+    setDraft({ type: "COMMENT", rect: { ...point, width: 0, height: 0 }, excerpt: "" });
+  };
+
+  const saveDraft = () => {
+    if (!draft) return;
+    createMutation.mutate({
+      documentId,
+      pageNumber,
+      type: draft.type,
+      x: draft.rect.x,
+      y: draft.rect.y,
+      ...(draft.type === "HIGHLIGHT"
+        ? { width: draft.rect.width, height: draft.rect.height, color: HIGHLIGHT_COLOR }
+        : {}),
+      content: draftNote.trim() || undefined,
+    });
+  };
+
+  const goToAnnotation = (annotation: { id: string; pageNumber: number }) => {
+    setSelectedId(annotation.id);
+    setPageNumber(annotation.pageNumber);
+  };
+
+  const dragRect =
+    dragStart && dragEnd ? rectFromDrag(dragStart, dragEnd, pageSize) : null;
+  const pendingRect = dragRect ?? (draft?.type === "HIGHLIGHT" ? draft.rect : null);
+  const pageAnnotations = annotations.filter((a) => a.pageNumber === pageNumber);
+  const numPages = pdf?.numPages ?? 0;
+  const convertTarget = annotations.find((a) => a.id === convertId) ?? null;
+
+  // ---------------------------------------------------------------------------
+  // Render
+  // ---------------------------------------------------------------------------
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-[95vw] w-[95vw] h-[92vh] flex flex-col gap-3 p-4">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2 pr-8">
+            <span className="truncate">{documentName}</span>
+            {isConnected && (
+              <Badge variant="outline" className="gap-1 text-[10px] text-green-600">
+                <Radio className="h-3 w-3" />
+                {t("live")}
+              </Badge>
+            )}
+          </DialogTitle>
+          <DialogDescription>{t("description")}</DialogDescription>
+        </DialogHeader>
+
+        {/* Toolbar */}
+        <div className="flex flex-wrap items-center gap-2 border-b pb-3">
+          <div className="flex items-center gap-1 rounded-md border p-0.5">
+            {(
+              [
+                ["select", MousePointer2],
+                ["highlight", Highlighter],
+                ["comment", MessageSquare],
+              ] as const
+            ).map(([value, Icon]) => (
+              <Button
+                key={value}
+                variant={tool === value ? "secondary" : "ghost"}
+                size="sm"
+                className="h-8"
+                onClick={() => {
+                  setTool(value);
+                  setDraft(null);
+                }}
+              >
+                <Icon className="h-4 w-4 mr-1.5" />
+                {t(`tools.${value}`)}
+              </Button>
+            ))}
+          </div>
+
+          <div className="flex items-center gap-1 ml-auto">
+            <Button
+              variant="outline"
+              size="icon"
+              className="h-8 w-8"
+              onClick={() => setScale((s) => Math.max(MIN_SCALE, s - SCALE_STEP))}
+              disabled={scale <= MIN_SCALE}
+              aria-label={t("zoomOut")}
+            >
+              <ZoomOut className="h-4 w-4" />
+            </Button>
+            <span className="w-12 text-center text-sm">{Math.round(scale * 100)}%</span>
+            <Button
+              variant="outline"
+              size="icon"
+              className="h-8 w-8"
+              onClick={() => setScale((s) => Math.min(MAX_SCALE, s + SCALE_STEP))}
+              disabled={scale >= MAX_SCALE}
+              aria-label={t("zoomIn")}
+            >
+              <ZoomIn className="h-4 w-4" />
+            </Button>
+          </div>
+
+          <div className="flex items-center gap-1">
+            <Button
+              variant="outline"
+              size="icon"
+              className="h-8 w-8"
+              onClick={() => setPageNumber((p) => p - 1)}
+              disabled={pageNumber <= 1}
+              aria-label={t("previousPage")}
+            >
+              <ChevronLeft className="h-4 w-4" />
+            </Button>
+            <span className="text-sm text-muted-foreground whitespace-nowrap">
+              {t("pageOf", { page: pageNumber, total: numPages })}
+            </span>
+            <Button
+              variant="outline"
+              size="icon"
+              className="h-8 w-8"
+              onClick={() => setPageNumber((p) => p + 1)}
+              disabled={pageNumber >= numPages}
+              aria-label={t("nextPage")}
+            >
+              <ChevronRight className="h-4 w-4" />
+            </Button>
+          </div>
+        </div>
+
+        <div className="grid flex-1 min-h-0 gap-4 lg:grid-cols-[1fr_320px]">
+          {/* Page */}
+          <div className="overflow-auto rounded-md bg-muted/40 p-4">
+            {loadError ? (
+              <p className="py-12 text-center text-sm text-muted-foreground">{t("loadError")}</p>
+            ) : !pdf ? (
+              <div className="flex justify-center py-12">
+                <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+              </div>
+            ) : null}
+
+            <div
+              className={cn("relative mx-auto w-fit shadow-md", !pdf && "hidden")}
+            >
+              <canvas ref={canvasRef} className="block bg-white" />
+
+              <div
+                ref={overlayRef}
+                className={cn(
+                  "absolute inset-0 touch-none select-none",
+                  tool === "highlight" && "cursor-crosshair",
+                  tool === "comment" && "cursor-copy"
+                )}
+                onPointerDown={handlePointerDown}
+                onPointerMove={handlePointerMove}
+                onPointerUp={handlePointerUp}
+                onClick={handleOverlayClick}
+              >
+                {pageAnnotations.map((annotation) =>
+                  annotation.type === "HIGHLIGHT" ? (
+                    <button
+                      key={annotation.id}
+                      type="button"
+                      title={annotation.content ?? undefined}
+                      onClick={() => tool === "select" && setSelectedId(annotation.id)}
+                      className={cn(
+                        "absolute rounded-sm mix-blend-multiply",
+                        tool !== "select" && "pointer-events-none",
+                        selectedId === annotation.id && "ring-2 ring-primary"
+                      )}
+                      style={{
+                        ...rectStyle(annotationRect(annotation)),
+                        backgroundColor: `${annotation.color}66`,
+                      }}
+                    />
+                  ) : (
+                    <button
+                      key={annotation.id}
+                      type="button"
+                      title={annotation.content ?? undefined}
+                      onClick={() => tool === "select" && setSelectedId(annotation.id)}
+                      className={cn(
+                        "absolute -translate-x-1/2 -translate-y-full rounded-full bg-amber-400 p-1 text-white shadow",
+                        tool !== "select" && "pointer-events-none",
+                        selectedId === annotation.id && "ring-2 ring-primary"
+                      )}
+                      style={{ left: `${annotation.x * 100}%`, top: `${annotation.y * 100}%` }}
+                    >
+                      <MessageSquare className="h-3.5 w-3.5" />
+                    </button>
+                  )
+                )}
+
+                {/* Highlight being dragged or awaiting save */}
+                {pendingRect && (
+                  <div
+                    className="absolute rounded-sm border border-amber-500 bg-yellow-300/40"
+                    style={rectStyle(pendingRect)}
+                  />
+                )}
+                {draft?.type === "COMMENT" && (
+                  <MessageSquare
+                    className="absolute h-5 w-5 -translate-x-1/2 -translate-y-full text-amber-500"
+                    style={{ left: `${draft.rect.x * 100}%`, top: `${draft.rect.y * 100}%` }}
+                  />
+                )}
+              </div>
+            </div>
+          </div>
+
+          {/* Sidebar */}
+          <div className="flex min-h-0 flex-col gap-3">
+            {draft && (
+              <div className="space-y-2 rounded-lg border bg-background p-3">
+                <p className="text-sm font-medium">
+                  {draft.type === "HIGHLIGHT" ? t("newHighlight") : t("newComment")}
+                </p>
+                {draft.excerpt && (
+                  <p className="line-clamp-3 rounded bg-yellow-50 p-2 text-xs italic dark:bg-yellow-950/30">
+                    {draft.excerpt}
+                  </p>
+                )}
+                <Textarea
+                  value={draftNote}
+                  onChange={(e) => setDraftNote(e.target.value)}
+                  placeholder={t("notePlaceholder")}
+                  rows={3}
+                  autoFocus
+                />
+                <div className="flex justify-end gap-2">
+                  <Button variant="ghost" size="sm" onClick={() => setDraft(null)}>
+                    {t("cancel")}
+                  </Button>
+                  <Button
+                    size="sm"
+                    onClick={saveDraft}
+                    disabled={
+                      createMutation.isPending ||
+                      (draft.type === "COMMENT" && !draftNote.trim())
+                    }
+                  >
+                    {createMutation.isPending && (
+                      <Loader2 className="h-4 w-4 animate-spin mr-1.5" />
+                    )}
+                    {t("save")}
+                  </Button>
+                </div>
+              </div>
+            )}
+
+            <h3 className="text-sm font-medium">
+              {t("listTitle", { count: annotations.length })}
+            </h3>
+
+            <ScrollArea className="flex-1 min-h-0">
+              {annotationsLoading ? (
+                <Loader2 className="mx-auto h-5 w-5 animate-spin text-muted-foreground" />
+              ) : annotations.length === 0 ? (
+                <p className="text-sm text-muted-foreground">{t("empty")}</p>
+              ) : (
+                <ul className="space-y-2 pr-3">
+                  {annotations.map((annotation) => (
+                    <li
+                      key={annotation.id}
+                      className={cn(
+                        "rounded-lg border p-2.5 text-sm cursor-pointer hover:bg-accent/50",
+                        selectedId === annotation.id && "border-primary bg-primary/5"
+                      )}
+                      onClick={() => goToAnnotation(annotation)}
+                    >
+                      <div className="flex items-center gap-2">
+                        {annotation.type === "HIGHLIGHT" ? (
+                          <Highlighter className="h-3.5 w-3.5 text-amber-500" />
+                        ) : (
+                          <MessageSquare className="h-3.5 w-3.5 text-amber-500" />
+                        )}
+                        <span className="text-xs text-muted-foreground">
+                          {t("pageShort", { page: annotation.pageNumber })}
+                          {" · "}
+                          {annotation.createdBy.firstName} {annotation.createdBy.lastName}
+                        </span>
+                        {annotation.createdBy.id === userId && (
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            className="ml-auto h-6 w-6"
+                            aria-label={t("delete")}
+                            disabled={deleteMutation.isPending}
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              deleteMutation.mutate({ id: annotation.id });
+                            }}
+                          >
+                            <Trash2 className="h-3.5 w-3.5" />
+                          </Button>
+                        )}
+                      </div>
+
+                      {annotation.content && (
+                        <p className="mt-1 whitespace-pre-wrap break-words">{annotation.content}</p>
+                      )}
+
+                      {annotation.finding ? (
+                        <Link
+                          href={`/${locale}/findings/${annotation.finding.id}`}
+                          className="mt-1.5 inline-flex"
+                          onClick={(e) => e.stopPropagation()}
+                        >
+                          <Badge variant="secondary" className="gap-1">
+                            <ClipboardList className="h-3 w-3" />
+                            {annotation.finding.referenceNumber}
+                          </Badge>
+                        </Link>
+                      ) : (
+                        annotation.type === "HIGHLIGHT" && (
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            className="mt-1.5 h-7 text-xs"
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              goToAnnotation(annotation);
+                              setConvertId(annotation.id);
+                            }}
+                          >
+                            <ClipboardList className="h-3.5 w-3.5 mr-1" />
+                            {t("createFinding")}
+                          </Button>
+                        )
+                      )}
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </ScrollArea>
+          </div>
+        </div>
+
+        {convertTarget && (
+          <ConvertToFindingDialog
+            open={!!convertTarget}
+            onOpenChange={(next) => !next && setConvertId(null)}
+            annotation={convertTarget}
+            excerpt={
+              convertTarget.pageNumber === pageNumber
+                ? textInRect(textItems, annotationRect(convertTarget))
+                : ""
+            }
+            onConverted={invalidate}
+          />
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+// =============================================================================
+// CONVERT TO FINDING
+// =============================================================================
+
+interface ConvertToFindingDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  annotation: { id: string; pageNumber: number; content: string | null };
+  excerpt: string;
+  onConverted: () => void;
+}
+
+function ConvertToFindingDialog({
+  open,
+  onOpenChange,
+  annotation,
+  excerpt,
+  onConverted,
+}: ConvertToFindingDialogProps) {
+  const t = useTranslations("documentManagement.annotations.convert");
+  const tSeverity = useTranslations("findings.severity");
+  const utils = trpc.useUtils();
+
+  const [title, setTitle] = useState("");
+  const [description, setDescription] = useState(annotation.content ?? "");
+  const [severity, setSeverity] = useState<FindingSeverity>("MINOR");
+
+  const convertMutation = trpc.documentAnnotation.convertToFinding.useMutation({
+    onSuccess: ({ finding }) => {
+      toast.success(t("success", { reference: finding.referenceNumber }));
+      void utils.finding.invalidate();
+      onConverted();
+      onOpenChange(false);
+    },
+    onError: (error) => toast.error(error.message || t("error")),
+  });
+
+  const canSubmit = title.trim().length >= 5 && description.trim().length >= 20;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{t("title")}</DialogTitle>
+          <DialogDescription>
+            {t("description", { page: annotation.pageNumber })}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {excerpt && (
+            <p className="rounded bg-yellow-50 p-2 text-xs italic dark:bg-yellow-950/30">
+              {excerpt}
+            </p>
+          )}
+
+          <div className="space-y-1.5">
+            <Label htmlFor="annotation-finding-title">{t("findingTitle")}</Label>
+            <Input
+              id="annotation-finding-title"
+              value={title}
+              onChange={(e) => setTitle(e.target.value)}
+              maxLength={200}
+            />
+          </div>
+
+          <div className="space-y-1.5">
+            <Label>{t("severity")}</Label>
+            <Select value={severity} onValueChange={(v) => setSeverity(v as FindingSeverity)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {SEVERITIES.map((value) => (
+                  <SelectItem key={value} value={value}>
+                    {tSeverity(value)}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-1.5">
+            <Label htmlFor="annotation-finding-description">{t("findingDescription")}</Label>
+            <Textarea
+              id="annotation-finding-description"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              rows={4}
+            />
+            <p className="text-xs text-muted-foreground">{t("requirements")}</p>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            {t("cancel")}
+          </Button>
+          <Button
+            disabled={!canSubmit || convertMutation.isPending}
+            onClick={() =>
+              convertMutation.mutate({
+                id: annotation.id,
+                titleEn: title.trim(),
+                descriptionEn: description.trim(),
+                severity,
+                excerpt: excerpt || undefined,
+              })
+            }
+          >
+            {convertMutation.isPending && <Loader2 className="h-4 w-4 animate-spin mr-1.5" />}
+            {t("submit")}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+function annotationRect(annotation: {
+  x: number;
+  y: number;
+  width: number | null;
+  height: number | null;
+}): PageRect {
+  return {
+    x: annotation.x,
+    y: annotation.y,
+    width: annotation.width ?? 0,
+    height: annotation.height ?? 0,
+  };
+}
+
+function rectStyle(rect: PageRect): React.CSSProperties {
+  return {
+    left: `${rect.x * 100}%`,
+    top: `${rect.y * 100}%`,
+    width: `${rect.width * 100}%`,
+    height: `${rect.height * 100}%`,
+  };
+}
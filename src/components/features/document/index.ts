@@ -7,3 +7,4 @@
 export { EvidenceUpload, type Evidence } from "./EvidenceUpload";
 export { DocumentPreview, type PreviewDocument } from "./DocumentPreview";
 export { DocumentLibrary } from "./DocumentLibrary";
+export { PdfAnnotationViewer } from "./PdfAnnotationViewer";
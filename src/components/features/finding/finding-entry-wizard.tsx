@@ -120,6 +120,7 @@ import type {
   FindingSeverity,
   CriticalElement,
   USOAPAuditArea,
+  ANSReviewArea,
 } from "@/types/prisma-enums";
 
 // =============================================================================
@@ -202,6 +203,8 @@ interface Question {
   pqNumber: string | null;
   questionTextEn: string;
   questionTextFr: string;
+  reviewArea?: ANSReviewArea | null;
+  isPriorityPQ?: boolean;
   category?: {
     id: string;
     nameEn: string;
@@ -396,16 +399,26 @@ export function FindingEntryWizard({
   const watchTitleEn = useWatch({ control: form.control, name: "titleEn" });
   const formValues = useWatch({ control: form.control });
 
+  // Active severity rule set (built-in defaults until one is activated)
+  const { data: severityRuleSet } = trpc.severityRules.getActive.useQuery(undefined, {
+    staleTime: 5 * 60 * 1000,
+  });
+
   // Calculate severity suggestion when relevant values change
   useEffect(() => {
-    const suggestion = calculateSeveritySuggestion({
-      findingType: watchFindingType,
-      auditArea: watchAuditArea,
-      criticalElement: watchCriticalElement,
-      icaoReference: watchIcaoReference,
-      descriptionEn: watchDescriptionEn,
-      titleEn: watchTitleEn,
-    });
+    const suggestion = calculateSeveritySuggestion(
+      {
+        findingType: watchFindingType,
+        auditArea: watchAuditArea,
+        criticalElement: watchCriticalElement,
+        icaoReference: watchIcaoReference,
+        descriptionEn: watchDescriptionEn,
+        titleEn: watchTitleEn,
+        reviewArea: selectedQuestion?.reviewArea,
+        isPriorityPQ: selectedQuestion?.isPriorityPQ,
+      },
+      severityRuleSet?.rules
+    );
     setSeveritySuggestion(suggestion);
 
     // Check if current severity differs from suggestion
@@ -422,6 +435,8 @@ export function FindingEntryWizard({
     watchDescriptionEn,
     watchTitleEn,
     watchSeverity,
+    selectedQuestion,
+    severityRuleSet,
   ]);
 
   // Auto-suggest severity when finding type changes (initial only)
@@ -793,6 +808,15 @@ export function FindingEntryWizard({
                                   <span className="text-xs">
                                     {getConfidenceLabel(severitySuggestion.confidence, locale)}
                                   </span>
+                                  {severityRuleSet && (
+                                    <span className="text-xs text-muted-foreground">
+                                      {severityRuleSet.version > 0
+                                        ? tWizard("severity.ruleSetVersion", {
+                                            version: severityRuleSet.version,
+                                          })
+                                        : tWizard("severity.defaultRules")}
+                                    </span>
+                                  )}
                                 </div>
                               </div>
                             </div>
@@ -0,0 +1,54 @@
+"use client";
+
+/**
+ * Repeat Finding Badge Component
+ *
+ * Marks a finding confirmed as a repeat of a deficiency from an earlier
+ * review, or one with repeat-finding proposals still awaiting review.
+ */
+
+import { useTranslations } from "next-intl";
+import { Repeat } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { cn } from "@/lib/utils";
+
+interface RepeatFindingBadgeProps {
+  isRepeat: boolean;
+  /** Proposed links not yet confirmed or dismissed */
+  pendingProposals?: number;
+  className?: string;
+}
+
+export function RepeatFindingBadge({
+  isRepeat,
+  pendingProposals = 0,
+  className,
+}: RepeatFindingBadgeProps) {
+  const t = useTranslations("findings.recurrence");
+
+  if (isRepeat) {
+    return (
+      <Badge
+        variant="outline"
+        className={cn(
+          "gap-1 bg-purple-100 text-purple-800 border-purple-200 dark:bg-purple-900/30 dark:text-purple-300",
+          className
+        )}
+      >
+        <Repeat className="h-3 w-3" />
+        {t("repeat")}
+      </Badge>
+    );
+  }
+
+  if (pendingProposals > 0) {
+    return (
+      <Badge variant="outline" className={cn("gap-1 border-dashed text-muted-foreground", className)}>
+        <Repeat className="h-3 w-3" />
+        {t("possibleRepeat")}
+      </Badge>
+    );
+  }
+
+  return null;
+}
@@ -0,0 +1,262 @@
+"use client";
+
+/**
+ * Severity Rules Admin
+ *
+ * Lists severity rule set versions and opens one in the editor. New
+ * drafts start from the active rules or from any earlier version.
+ */
+
+import { useState } from "react";
+import { useTranslations } from "next-intl";
+import { Copy, Loader2, Pencil, Plus, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+import { trpc } from "@/lib/trpc/client";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Textarea } from "@/components/ui/textarea";
+import type { SeverityRuleSetStatus } from "@/types/prisma-enums";
+import { SeverityRulesEditor } from "./severity-rules-editor";
+
+const STATUS_VARIANTS: Record<SeverityRuleSetStatus, "default" | "secondary" | "outline"> = {
+  ACTIVE: "default",
+  DRAFT: "secondary",
+  ARCHIVED: "outline",
+};
+
+interface DraftForm {
+  fromId?: string;
+  name: string;
+  description: string;
+}
+
+function formatDate(date: Date | string, locale: string): string {
+  return new Intl.DateTimeFormat(locale === "fr" ? "fr-FR" : "en-US", {
+    dateStyle: "medium",
+  }).format(new Date(date));
+}
+
+export function SeverityRulesAdminClient({ locale }: { locale: string }) {
+  const t = useTranslations("admin.severityRules");
+  const tCommon = useTranslations("common");
+  const utils = trpc.useUtils();
+
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [draftForm, setDraftForm] = useState<DraftForm | null>(null);
+
+  const { data: ruleSets, isLoading } = trpc.severityRules.list.useQuery();
+
+  const createMutation = trpc.severityRules.createDraft.useMutation({
+    onSuccess: (ruleSet) => {
+      toast.success(t("draftCreated", { version: ruleSet.version }));
+      setDraftForm(null);
+      setSelectedId(ruleSet.id);
+      utils.severityRules.list.invalidate();
+    },
+    onError: (error) => toast.error(error.message),
+  });
+
+  const deleteMutation = trpc.severityRules.deleteDraft.useMutation({
+    onSuccess: (_, { id }) => {
+      toast.success(t("draftDeleted"));
+      if (selectedId === id) setSelectedId(null);
+      utils.severityRules.list.invalidate();
+    },
+    onError: (error) => toast.error(error.message),
+  });
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold">{t("title")}</h1>
+          <p className="text-muted-foreground">{t("description")}</p>
+        </div>
+        <Button onClick={() => setDraftForm({ name: "", description: "" })}>
+          <Plus className="mr-2 h-4 w-4" />
+          {t("newDraft")}
+        </Button>
+      </div>
+
+      <Card>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>{t("version")}</TableHead>
+              <TableHead>{t("name")}</TableHead>
+              <TableHead>{tCommon("status")}</TableHead>
+              <TableHead>{t("activatedAt")}</TableHead>
+              <TableHead>{t("findings")}</TableHead>
+              <TableHead className="text-right">{tCommon("actions")}</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {isLoading ? (
+              Array.from({ length: 3 }).map((_, i) => (
+                <TableRow key={i}>
+                  {Array.from({ length: 6 }).map((_, j) => (
+                    <TableCell key={j}>
+                      <Skeleton className="h-5 w-full" />
+                    </TableCell>
+                  ))}
+                </TableRow>
+              ))
+            ) : ruleSets?.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={6} className="py-8 text-center text-muted-foreground">
+                  {t("empty")}
+                </TableCell>
+              </TableRow>
+            ) : (
+              ruleSets?.map((ruleSet) => (
+                <TableRow
+                  key={ruleSet.id}
+                  className={selectedId === ruleSet.id ? "bg-muted/50" : undefined}
+                >
+                  <TableCell className="font-medium">v{ruleSet.version}</TableCell>
+                  <TableCell>
+                    <p>{ruleSet.name}</p>
+                    {ruleSet.description && (
+                      <p className="max-w-sm truncate text-xs text-muted-foreground">
+                        {ruleSet.description}
+                      </p>
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    <Badge variant={STATUS_VARIANTS[ruleSet.status]}>
+                      {t(`status.${ruleSet.status}`)}
+                    </Badge>
+                  </TableCell>
+                  <TableCell className="text-sm text-muted-foreground">
+                    {ruleSet.activatedAt
+                      ? `${formatDate(ruleSet.activatedAt, locale)}${
+                          ruleSet.activatedBy
+                            ? ` · ${ruleSet.activatedBy.firstName} ${ruleSet.activatedBy.lastName}`
+                            : ""
+                        }`
+                      : "—"}
+                  </TableCell>
+                  <TableCell>{ruleSet._count.findings}</TableCell>
+                  <TableCell className="text-right">
+                    <Button variant="ghost" size="sm" onClick={() => setSelectedId(ruleSet.id)}>
+                      <Pencil className="h-4 w-4" />
+                      <span className="sr-only">{t("open")}</span>
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() =>
+                        setDraftForm({
+                          fromId: ruleSet.id,
+                          name: t("copyOf", { name: ruleSet.name }),
+                          description: "",
+                        })
+                      }
+                    >
+                      <Copy className="h-4 w-4" />
+                      <span className="sr-only">{t("duplicate")}</span>
+                    </Button>
+                    {ruleSet.status === "DRAFT" && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="text-destructive"
+                        disabled={deleteMutation.isPending}
+                        onClick={() => {
+                          if (confirm(t("deleteConfirm", { version: ruleSet.version }))) {
+                            deleteMutation.mutate({ id: ruleSet.id });
+                          }
+                        }}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                        <span className="sr-only">{t("delete")}</span>
+                      </Button>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))
+            )}
+          </TableBody>
+        </Table>
+      </Card>
+
+      {selectedId && (
+        <SeverityRulesEditor
+          key={selectedId}
+          ruleSetId={selectedId}
+          onClose={() => setSelectedId(null)}
+        />
+      )}
+
+      <Dialog open={!!draftForm} onOpenChange={(open) => !open && setDraftForm(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{t("newDraft")}</DialogTitle>
+          </DialogHeader>
+          {draftForm && (
+            <div className="space-y-4">
+              <p className="text-sm text-muted-foreground">
+                {draftForm.fromId ? t("draftFromVersion") : t("draftFromActive")}
+              </p>
+              <div className="space-y-2">
+                <Label htmlFor="severity-rules-name">{t("name")}</Label>
+                <Input
+                  id="severity-rules-name"
+                  value={draftForm.name}
+                  onChange={(e) => setDraftForm({ ...draftForm, name: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="severity-rules-description">{t("descriptionLabel")}</Label>
+                <Textarea
+                  id="severity-rules-description"
+                  value={draftForm.description}
+                  onChange={(e) => setDraftForm({ ...draftForm, description: e.target.value })}
+                  rows={3}
+                />
+              </div>
+            </div>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDraftForm(null)}>
+              {tCommon("cancel")}
+            </Button>
+            <Button
+              onClick={() =>
+                draftForm &&
+                createMutation.mutate({
+                  name: draftForm.name,
+                  description: draftForm.description.trim() || null,
+                  fromId: draftForm.fromId,
+                })
+              }
+              disabled={createMutation.isPending || !draftForm?.name.trim()}
+            >
+              {createMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              {t("createDraft")}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,550 @@
+"use client";
+
+/**
+ * Severity Rules Editor
+ *
+ * Edits a draft rule set's weights, thresholds and per-review-area
+ * overrides, and previews the effect on historical findings before the
+ * draft is activated. Active and archived versions open read-only.
+ */
+
+import { useState } from "react";
+import { useTranslations } from "next-intl";
+import { FlaskConical, Loader2, RotateCcw, Save, ShieldCheck, X } from "lucide-react";
+import { toast } from "sonner";
+import { trpc } from "@/lib/trpc/client";
+import {
+  Accordion,
+  AccordionContent,
+  AccordionItem,
+  AccordionTrigger,
+} from "@/components/ui/accordion";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { FindingSeverityBadge } from "./finding-severity-badge";
+import {
+  SEVERITY_ORDER,
+  severityRuleConfigSchema,
+  type SeverityAreaOverride,
+  type SeverityRuleConfig,
+  type SeverityThresholds,
+  type SeverityWeights,
+} from "@/lib/finding/severity-rules";
+import { ANSReviewArea, type FindingSeverity } from "@/types/prisma-enums";
+
+const WEIGHT_KEYS = Object.keys({
+  safetyCriticalArea: 0,
+  highRiskArea: 0,
+  standardArea: 0,
+  coreCriticalElement: 0,
+  criticalElement: 0,
+  priorityPQ: 0,
+  icaoStandard: 0,
+  icaoAnnex: 0,
+  icaoPans: 0,
+  icaoRecommended: 0,
+  criticalKeyword: 0,
+  criticalKeywordCap: 0,
+  majorKeyword: 0,
+  majorKeywordCap: 0,
+  safetyImpact: 0,
+  safetyImpactCap: 0,
+  nonConformity: 0,
+  concern: 0,
+  repeatFinding: 0,
+  repeatFindingCap: 0,
+} satisfies Record<keyof SeverityWeights, number>) as (keyof SeverityWeights)[];
+
+const THRESHOLD_KEYS: (keyof SeverityThresholds)[] = ["CRITICAL", "MAJOR", "MINOR"];
+
+const REVIEW_AREAS = Object.values(ANSReviewArea);
+
+/** Select value meaning "no minimum severity" */
+const NO_MINIMUM = "NONE";
+
+function toNumber(value: string): number | undefined {
+  if (value.trim() === "") return undefined;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : undefined;
+}
+
+/** Drop undefined keys so an emptied override field inherits again */
+function compact<T extends object>(value: T): T {
+  return Object.fromEntries(
+    Object.entries(value).filter(([, v]) => v !== undefined)
+  ) as T;
+}
+
+function NumberField({
+  id,
+  label,
+  value,
+  placeholder,
+  disabled,
+  onChange,
+}: {
+  id: string;
+  label: string;
+  value: number | undefined;
+  placeholder?: number;
+  disabled: boolean;
+  onChange: (value: number | undefined) => void;
+}) {
+  return (
+    <div className="space-y-1">
+      <Label htmlFor={id} className="text-xs">
+        {label}
+      </Label>
+      <Input
+        id={id}
+        type="number"
+        min={0}
+        step={0.5}
+        value={value ?? ""}
+        placeholder={placeholder !== undefined ? String(placeholder) : undefined}
+        disabled={disabled}
+        onChange={(e) => onChange(toNumber(e.target.value))}
+        className="h-8"
+      />
+    </div>
+  );
+}
+
+interface SeverityRulesEditorProps {
+  ruleSetId: string;
+  onClose: () => void;
+}
+
+export function SeverityRulesEditor({ ruleSetId, onClose }: SeverityRulesEditorProps) {
+  const { data: ruleSet, isLoading } = trpc.severityRules.getById.useQuery({ id: ruleSetId });
+
+  if (isLoading || !ruleSet) {
+    return <Skeleton className="h-96 w-full" />;
+  }
+
+  return (
+    <RulesForm
+      ruleSetId={ruleSet.id}
+      version={ruleSet.version}
+      name={ruleSet.name}
+      isDraft={ruleSet.status === "DRAFT"}
+      initialRules={ruleSet.rules}
+      onClose={onClose}
+    />
+  );
+}
+
+function RulesForm({
+  ruleSetId,
+  version,
+  name,
+  isDraft,
+  initialRules,
+  onClose,
+}: {
+  ruleSetId: string;
+  version: number;
+  name: string;
+  isDraft: boolean;
+  initialRules: SeverityRuleConfig;
+  onClose: () => void;
+}) {
+  const t = useTranslations("admin.severityRules");
+  const tSeverity = useTranslations("findings.severity");
+  const tAreas = useTranslations("reviewAreas");
+  const utils = trpc.useUtils();
+
+  const [rules, setRules] = useState<SeverityRuleConfig>(initialRules);
+  const [isDirty, setIsDirty] = useState(false);
+
+  const { data: defaults } = trpc.severityRules.getDefaults.useQuery(undefined, {
+    enabled: isDraft,
+  });
+
+  const validation = severityRuleConfigSchema.safeParse(rules);
+  const validationError = validation.success ? null : validation.error.issues[0]?.message;
+
+  const update = (next: SeverityRuleConfig) => {
+    setRules(next);
+    setIsDirty(true);
+  };
+
+  const setWeight = (key: keyof SeverityWeights, value: number | undefined) =>
+    update({ ...rules, weights: { ...rules.weights, [key]: value ?? 0 } });
+
+  const setThreshold = (key: keyof SeverityThresholds, value: number | undefined) =>
+    update({ ...rules, thresholds: { ...rules.thresholds, [key]: value ?? 0 } });
+
+  const setOverride = (area: ANSReviewArea, override: SeverityAreaOverride) => {
+    const cleaned = compact({
+      weights: override.weights && Object.keys(override.weights).length > 0 ? override.weights : undefined,
+      thresholds:
+        override.thresholds && Object.keys(override.thresholds).length > 0
+          ? override.thresholds
+          : undefined,
+      minimumSeverity: override.minimumSeverity,
+    });
+    const areaOverrides = { ...rules.areaOverrides };
+    if (Object.keys(cleaned).length > 0) {
+      areaOverrides[area] = cleaned;
+    } else {
+      delete areaOverrides[area];
+    }
+    update({ ...rules, areaOverrides });
+  };
+
+  const saveMutation = trpc.severityRules.updateDraft.useMutation({
+    onSuccess: () => {
+      toast.success(t("saved"));
+      setIsDirty(false);
+      utils.severityRules.getById.invalidate({ id: ruleSetId });
+    },
+    onError: (error) => toast.error(error.message),
+  });
+
+  const activateMutation = trpc.severityRules.activate.useMutation({
+    onSuccess: () => {
+      toast.success(t("activated", { version }));
+      utils.severityRules.invalidate();
+    },
+    onError: (error) => toast.error(error.message),
+  });
+
+  const simulateMutation = trpc.severityRules.simulate.useMutation({
+    onError: (error) => toast.error(error.message),
+  });
+
+  const simulation = simulateMutation.data;
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader className="flex flex-row items-start justify-between space-y-0">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              v{version} · {name}
+              {!isDraft && <Badge variant="outline">{t("readOnly")}</Badge>}
+            </CardTitle>
+            <CardDescription>{t("editorDescription")}</CardDescription>
+          </div>
+          <div className="flex flex-wrap gap-2">
+            {isDraft && defaults && (
+              <Button variant="outline" size="sm" onClick={() => update(defaults)}>
+                <RotateCcw className="mr-2 h-4 w-4" />
+                {t("resetToDefaults")}
+              </Button>
+            )}
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => validation.success && simulateMutation.mutate({ rules: validation.data })}
+              disabled={!validation.success || simulateMutation.isPending}
+            >
+              {simulateMutation.isPending ? (
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              ) : (
+                <FlaskConical className="mr-2 h-4 w-4" />
+              )}
+              {t("simulate")}
+            </Button>
+            {isDraft && (
+              <>
+                <Button
+                  size="sm"
+                  onClick={() =>
+                    validation.success &&
+                    saveMutation.mutate({ id: ruleSetId, rules: validation.data })
+                  }
+                  disabled={!validation.success || !isDirty || saveMutation.isPending}
+                >
+                  <Save className="mr-2 h-4 w-4" />
+                  {t("save")}
+                </Button>
+                <Button
+                  size="sm"
+                  variant="secondary"
+                  onClick={() => {
+                    if (confirm(t("activateConfirm", { version }))) {
+                      activateMutation.mutate({ id: ruleSetId });
+                    }
+                  }}
+                  disabled={isDirty || activateMutation.isPending}
+                  title={isDirty ? t("saveBeforeActivating") : undefined}
+                >
+                  <ShieldCheck className="mr-2 h-4 w-4" />
+                  {t("activate")}
+                </Button>
+              </>
+            )}
+            <Button variant="ghost" size="sm" onClick={onClose}>
+              <X className="h-4 w-4" />
+              <span className="sr-only">{t("close")}</span>
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          {validationError && (
+            <p className="rounded border border-red-200 bg-red-50 p-2 text-sm text-red-900">
+              {validationError}
+            </p>
+          )}
+
+          <section className="space-y-3">
+            <h3 className="text-sm font-medium">{t("thresholds")}</h3>
+            <p className="text-xs text-muted-foreground">{t("thresholdsHint")}</p>
+            <div className="grid gap-3 sm:grid-cols-3">
+              {THRESHOLD_KEYS.map((key) => (
+                <NumberField
+                  key={key}
+                  id={`threshold-${key}`}
+                  label={tSeverity(key)}
+                  value={rules.thresholds[key]}
+                  disabled={!isDraft}
+                  onChange={(value) => setThreshold(key, value)}
+                />
+              ))}
+            </div>
+            <div className="grid gap-3 sm:grid-cols-3">
+              {(["HIGH", "MEDIUM"] as const).map((key) => (
+                <NumberField
+                  key={key}
+                  id={`confidence-${key}`}
+                  label={t(`confidence.${key}`)}
+                  value={rules.confidence[key]}
+                  disabled={!isDraft}
+                  onChange={(value) =>
+                    update({ ...rules, confidence: { ...rules.confidence, [key]: value ?? 0 } })
+                  }
+                />
+              ))}
+            </div>
+          </section>
+
+          <section className="space-y-3">
+            <h3 className="text-sm font-medium">{t("weights")}</h3>
+            <div className="grid gap-3 sm:grid-cols-2 lg:grid-cols-4">
+              {WEIGHT_KEYS.map((key) => (
+                <NumberField
+                  key={key}
+                  id={`weight-${key}`}
+                  label={t(`weight.${key}`)}
+                  value={rules.weights[key]}
+                  disabled={!isDraft}
+                  onChange={(value) => setWeight(key, value)}
+                />
+              ))}
+            </div>
+          </section>
+
+          <section className="space-y-3">
+            <h3 className="text-sm font-medium">{t("areaOverrides")}</h3>
+            <p className="text-xs text-muted-foreground">{t("areaOverridesHint")}</p>
+            <Accordion type="multiple">
+              {REVIEW_AREAS.map((area) => {
+                const override = rules.areaOverrides[area] ?? {};
+                const overrideCount =
+                  Object.keys(override.weights ?? {}).length +
+                  Object.keys(override.thresholds ?? {}).length +
+                  (override.minimumSeverity ? 1 : 0);
+
+                return (
+                  <AccordionItem key={area} value={area}>
+                    <AccordionTrigger>
+                      <span className="flex items-center gap-2">
+                        {area} · {tAreas(`${area}.name`)}
+                        {overrideCount > 0 && (
+                          <Badge variant="secondary">
+                            {t("overrideCount", { count: overrideCount })}
+                          </Badge>
+                        )}
+                      </span>
+                    </AccordionTrigger>
+                    <AccordionContent className="space-y-4">
+                      <div className="max-w-xs space-y-1">
+                        <Label className="text-xs">{t("minimumSeverity")}</Label>
+                        <Select
+                          value={override.minimumSeverity ?? NO_MINIMUM}
+                          disabled={!isDraft}
+                          onValueChange={(value) =>
+                            setOverride(area, {
+                              ...override,
+                              minimumSeverity:
+                                value === NO_MINIMUM ? undefined : (value as FindingSeverity),
+                            })
+                          }
+                        >
+                          <SelectTrigger className="h-8">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value={NO_MINIMUM}>{t("noMinimum")}</SelectItem>
+                            {SEVERITY_ORDER.map((severity) => (
+                              <SelectItem key={severity} value={severity}>
+                                {tSeverity(severity)}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                      <div className="grid gap-3 sm:grid-cols-3">
+                        {THRESHOLD_KEYS.map((key) => (
+                          <NumberField
+                            key={key}
+                            id={`${area}-threshold-${key}`}
+                            label={tSeverity(key)}
+                            value={override.thresholds?.[key]}
+                            placeholder={rules.thresholds[key]}
+                            disabled={!isDraft}
+                            onChange={(value) =>
+                              setOverride(area, {
+                                ...override,
+                                thresholds: compact({ ...override.thresholds, [key]: value }),
+                              })
+                            }
+                          />
+                        ))}
+                      </div>
+                      <div className="grid gap-3 sm:grid-cols-2 lg:grid-cols-4">
+                        {WEIGHT_KEYS.map((key) => (
+                          <NumberField
+                            key={key}
+                            id={`${area}-weight-${key}`}
+                            label={t(`weight.${key}`)}
+                            value={override.weights?.[key]}
+                            placeholder={rules.weights[key]}
+                            disabled={!isDraft}
+                            onChange={(value) =>
+                              setOverride(area, {
+                                ...override,
+                                weights: compact({ ...override.weights, [key]: value }),
+                              })
+                            }
+                          />
+                        ))}
+                      </div>
+                    </AccordionContent>
+                  </AccordionItem>
+                );
+              })}
+            </Accordion>
+          </section>
+        </CardContent>
+      </Card>
+
+      {simulation && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-base">{t("simulation.title")}</CardTitle>
+            <CardDescription>
+              {t("simulation.summary", {
+                analyzed: simulation.findingsAnalyzed,
+                changed: simulation.againstActive.changed,
+                raised: simulation.againstActive.raised,
+                lowered: simulation.againstActive.lowered,
+                version: simulation.activeVersion,
+              })}
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            <p className="text-sm">
+              {t("simulation.againstRecorded", {
+                changed: simulation.againstRecorded.changed,
+                raised: simulation.againstRecorded.raised,
+                lowered: simulation.againstRecorded.lowered,
+              })}
+            </p>
+
+            <div>
+              <p className="mb-2 text-sm font-medium">{t("simulation.transitions")}</p>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>{t("simulation.fromTo")}</TableHead>
+                    {SEVERITY_ORDER.map((to) => (
+                      <TableHead key={to} className="text-right">
+                        {tSeverity(to)}
+                      </TableHead>
+                    ))}
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {SEVERITY_ORDER.map((from) => (
+                    <TableRow key={from}>
+                      <TableCell className="font-medium">{tSeverity(from)}</TableCell>
+                      {SEVERITY_ORDER.map((to) => (
+                        <TableCell
+                          key={to}
+                          className={
+                            from === to
+                              ? "text-right text-muted-foreground"
+                              : "text-right font-medium"
+                          }
+                        >
+                          {simulation.againstActive.transitions[from][to]}
+                        </TableCell>
+                      ))}
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+
+            {simulation.samples.length > 0 && (
+              <div>
+                <p className="mb-2 text-sm font-medium">{t("simulation.samples")}</p>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>{t("simulation.finding")}</TableHead>
+                      <TableHead>{t("simulation.recorded")}</TableHead>
+                      <TableHead>{t("simulation.current")}</TableHead>
+                      <TableHead>{t("simulation.simulated")}</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {simulation.samples.map((sample) => (
+                      <TableRow key={sample.findingId}>
+                        <TableCell>
+                          <p className="font-mono text-xs">{sample.referenceNumber}</p>
+                          <p className="max-w-md truncate text-sm">{sample.titleEn}</p>
+                        </TableCell>
+                        <TableCell>
+                          <FindingSeverityBadge severity={sample.recorded} />
+                        </TableCell>
+                        <TableCell>
+                          <FindingSeverityBadge severity={sample.current} />
+                        </TableCell>
+                        <TableCell>
+                          <FindingSeverityBadge severity={sample.simulated} />
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
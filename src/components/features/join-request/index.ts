@@ -2,3 +2,5 @@ export { JoinRequestList } from "./join-request-list";
 export { JoinRequestDetail } from "./join-request-detail";
 export { CoordinatorReviewForm } from "./coordinator-review-form";
 export { SCDecisionForm } from "./sc-decision-form";
+export { JoinApplicationForm } from "./join-application-form";
+export { JoinRequestStatusView } from "./join-request-status";
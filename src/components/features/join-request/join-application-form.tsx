@@ -0,0 +1,636 @@
+"use client";
+
+/**
+ * JoinApplicationForm Component
+ *
+ * Public multi-step application form for prospective ANSPs:
+ * 1. Organization - Name, country, ICAO location indicator
+ * 2. Contact - ANSP focal point details
+ * 3. SMS Maturity - Self-declared maturity and motivation
+ * 4. Commitment - Signed commitment letter upload
+ * 5. Preferences - Preferred team and working language
+ *
+ * Spam protection: hidden honeypot field and a form start timestamp
+ * checked server-side by joinRequest.submit.
+ */
+
+import { useEffect, useState } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import Link from "next/link";
+import { useLocale, useTranslations } from "next-intl";
+import { AnimatePresence, motion } from "framer-motion";
+import {
+  ArrowLeft,
+  ArrowRight,
+  CheckCircle,
+  Loader2,
+  Send,
+} from "lucide-react";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Button } from "@/components/ui/button";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { FileUpload } from "@/components/ui/file-upload";
+import {
+  WizardStepper,
+  type WizardStep,
+} from "@/components/features/assessment/wizard-steps/wizard-stepper";
+import { trpc } from "@/lib/trpc/client";
+import {
+  joinApplicationSchema,
+  JOIN_APPLICATION_STEP_FIELDS,
+} from "@/lib/validations/join-request";
+
+type JoinApplicationFormInput = z.input<typeof joinApplicationSchema>;
+type JoinApplicationFormOutput = z.output<typeof joinApplicationSchema>;
+
+const STEP_KEYS = [
+  "organization",
+  "contact",
+  "maturity",
+  "commitment",
+  "preferences",
+] as const;
+
+const MATURITY_LEVELS = ["A", "B", "C", "D", "E"] as const;
+const TEAMS = [1, 2, 3, 4, 5] as const;
+
+export function JoinApplicationForm() {
+  const t = useTranslations("joinRequest");
+  const locale = useLocale();
+  const [currentStep, setCurrentStep] = useState(1);
+  const [submitted, setSubmitted] = useState<{
+    referenceId: string;
+    statusToken: string;
+  } | null>(null);
+
+  const form = useForm<
+    JoinApplicationFormInput,
+    unknown,
+    JoinApplicationFormOutput
+  >({
+    resolver: zodResolver(joinApplicationSchema),
+    defaultValues: {
+      organizationName: "",
+      organizationCountry: "",
+      organizationCode: "",
+      contactName: "",
+      contactJobTitle: "",
+      contactEmail: "",
+      contactPhone: "",
+      motivationStatement: "",
+      proposedReviewerCount: 2,
+      preferredLanguage: locale === "fr" ? "fr" : "en",
+      additionalNotes: "",
+      website: "",
+      formToken: "",
+    },
+  });
+
+  // Server-signed record of when the applicant opened the form (bot detection)
+  const formToken = trpc.joinRequest.getFormToken.useQuery(undefined, {
+    staleTime: Infinity,
+    refetchOnWindowFocus: false,
+  });
+  useEffect(() => {
+    if (formToken.data) {
+      form.setValue("formToken", formToken.data.formToken);
+    }
+  }, [form, formToken.data]);
+
+  const submitMutation = trpc.joinRequest.submit.useMutation({
+    onSuccess: (data) => setSubmitted(data),
+    // A rejected submission may carry an expired form token
+    onError: () => formToken.refetch(),
+  });
+
+  const totalSteps = STEP_KEYS.length;
+
+  const handleNext = async () => {
+    const isValid = await form.trigger([
+      ...JOIN_APPLICATION_STEP_FIELDS[currentStep - 1],
+    ]);
+    if (isValid && currentStep < totalSteps) {
+      setCurrentStep(currentStep + 1);
+    }
+  };
+
+  const handleBack = () => {
+    if (currentStep > 1) {
+      setCurrentStep(currentStep - 1);
+    }
+  };
+
+  const onSubmit = (data: JoinApplicationFormOutput) => {
+    submitMutation.mutate(data);
+  };
+
+  if (submitted) {
+    return (
+      <Card className="border-0 shadow-xl bg-card">
+        <CardHeader className="text-center pb-2">
+          <div className="mx-auto mb-4 flex h-14 w-14 items-center justify-center rounded-full bg-green-100">
+            <CheckCircle className="h-7 w-7 text-green-600" />
+          </div>
+          <CardTitle className="text-2xl font-bold text-foreground font-montserrat">
+            {t("success.title")}
+          </CardTitle>
+          <CardDescription className="mt-2 text-muted-foreground">
+            {t("success.message")}
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4 pt-4">
+          <div className="rounded-lg bg-muted/50 p-4 text-center">
+            <p className="text-sm text-muted-foreground">
+              {t("success.reference")}
+            </p>
+            <p className="font-mono text-lg font-semibold">
+              {submitted.referenceId}
+            </p>
+          </div>
+          <div>
+            <p className="font-medium text-sm mb-2">{t("success.nextSteps")}</p>
+            <ol className="list-decimal list-inside space-y-1 text-sm text-muted-foreground">
+              <li>{t("success.step1")}</li>
+              <li>{t("success.step2")}</li>
+              <li>{t("success.step3")}</li>
+            </ol>
+          </div>
+          <Button asChild className="w-full h-11">
+            <Link href={`/${locale}/join/status/${submitted.statusToken}`}>
+              {t("success.trackStatus")}
+            </Link>
+          </Button>
+          <Button asChild variant="outline" className="w-full h-11">
+            <Link href={`/${locale}/login`}>
+              <ArrowLeft className="mr-2 h-4 w-4" />
+              {t("success.backToLogin")}
+            </Link>
+          </Button>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const steps: WizardStep[] = STEP_KEYS.map((key, index) => ({
+    title: t(`steps.${key}.title`),
+    description: t(`steps.${key}.description`),
+    isCompleted: currentStep > index + 1,
+    isActive: currentStep === index + 1,
+  }));
+
+  return (
+    <div className="space-y-6">
+      <div className="text-center">
+        <h1 className="text-2xl font-bold font-montserrat">{t("title")}</h1>
+        <p className="text-muted-foreground">{t("subtitle")}</p>
+      </div>
+
+      <WizardStepper
+        currentStep={currentStep}
+        totalSteps={totalSteps}
+        steps={steps}
+      />
+
+      <Form {...form}>
+        <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
+          {/* Honeypot - hidden from humans, filled by naive bots */}
+          <input
+            type="text"
+            tabIndex={-1}
+            autoComplete="off"
+            aria-hidden="true"
+            className="absolute -left-[9999px] h-0 w-0 opacity-0"
+            {...form.register("website")}
+          />
+
+          <AnimatePresence mode="wait">
+            <motion.div
+              key={`step${currentStep}`}
+              initial={{ opacity: 0, x: 20 }}
+              animate={{ opacity: 1, x: 0 }}
+              exit={{ opacity: 0, x: -20 }}
+              transition={{ duration: 0.2 }}
+            >
+              <Card>
+                <CardHeader>
+                  <CardTitle>
+                    {t(`steps.${STEP_KEYS[currentStep - 1]}.title`)}
+                  </CardTitle>
+                  <CardDescription>
+                    {t(`steps.${STEP_KEYS[currentStep - 1]}.description`)}
+                  </CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-5">
+                  {/* Step 1: Organization */}
+                  {currentStep === 1 && (
+                    <>
+                      <FormField
+                        control={form.control}
+                        name="organizationName"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>{t("form.organizationName")} *</FormLabel>
+                            <FormControl>
+                              <Input
+                                placeholder={t("form.organizationNamePlaceholder")}
+                                {...field}
+                              />
+                            </FormControl>
+                            <FormDescription>
+                              {t("form.organizationNameHelp")}
+                            </FormDescription>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                        <FormField
+                          control={form.control}
+                          name="organizationCountry"
+                          render={({ field }) => (
+                            <FormItem>
+                              <FormLabel>{t("form.country")} *</FormLabel>
+                              <FormControl>
+                                <Input
+                                  placeholder={t("form.countryPlaceholder")}
+                                  {...field}
+                                />
+                              </FormControl>
+                              <FormMessage />
+                            </FormItem>
+                          )}
+                        />
+                        <FormField
+                          control={form.control}
+                          name="organizationCode"
+                          render={({ field }) => (
+                            <FormItem>
+                              <FormLabel>
+                                {t("form.organizationCode")} ({t("form.optional")})
+                              </FormLabel>
+                              <FormControl>
+                                <Input
+                                  maxLength={4}
+                                  className="uppercase"
+                                  {...field}
+                                />
+                              </FormControl>
+                              <FormDescription>
+                                {t("form.organizationCodeHelp")}
+                              </FormDescription>
+                              <FormMessage />
+                            </FormItem>
+                          )}
+                        />
+                      </div>
+                    </>
+                  )}
+
+                  {/* Step 2: Contact */}
+                  {currentStep === 2 && (
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                      <FormField
+                        control={form.control}
+                        name="contactName"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>{t("form.contactName")} *</FormLabel>
+                            <FormControl>
+                              <Input
+                                placeholder={t("form.contactNamePlaceholder")}
+                                {...field}
+                              />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                      <FormField
+                        control={form.control}
+                        name="contactJobTitle"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>{t("form.contactJobTitle")} *</FormLabel>
+                            <FormControl>
+                              <Input
+                                placeholder={t("form.contactJobTitlePlaceholder")}
+                                {...field}
+                              />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                      <FormField
+                        control={form.control}
+                        name="contactEmail"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>{t("form.contactEmail")} *</FormLabel>
+                            <FormControl>
+                              <Input
+                                type="email"
+                                placeholder={t("form.contactEmailPlaceholder")}
+                                {...field}
+                              />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                      <FormField
+                        control={form.control}
+                        name="contactPhone"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>
+                              {t("form.contactPhone")} ({t("form.optional")})
+                            </FormLabel>
+                            <FormControl>
+                              <Input
+                                type="tel"
+                                placeholder={t("form.contactPhonePlaceholder")}
+                                {...field}
+                              />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                    </div>
+                  )}
+
+                  {/* Step 3: SMS Maturity */}
+                  {currentStep === 3 && (
+                    <>
+                      <FormField
+                        control={form.control}
+                        name="currentSmsMaturity"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>{t("form.smsMaturity")} *</FormLabel>
+                            <Select
+                              onValueChange={field.onChange}
+                              value={field.value}
+                            >
+                              <FormControl>
+                                <SelectTrigger>
+                                  <SelectValue
+                                    placeholder={t("form.smsMaturityPlaceholder")}
+                                  />
+                                </SelectTrigger>
+                              </FormControl>
+                              <SelectContent>
+                                {MATURITY_LEVELS.map((level) => (
+                                  <SelectItem key={level} value={level}>
+                                    {t(`form.maturity${level}`)}
+                                  </SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                            <FormDescription>
+                              {t("form.smsMaturityHelp")}
+                            </FormDescription>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                      <FormField
+                        control={form.control}
+                        name="motivationStatement"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>{t("form.motivationStatement")} *</FormLabel>
+                            <FormControl>
+                              <Textarea
+                                rows={6}
+                                placeholder={t(
+                                  "form.motivationStatementPlaceholder"
+                                )}
+                                {...field}
+                              />
+                            </FormControl>
+                            <FormDescription>
+                              {t("form.motivationStatementHelp")}
+                            </FormDescription>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                      <FormField
+                        control={form.control}
+                        name="proposedReviewerCount"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>{t("form.proposedReviewerCount")}</FormLabel>
+                            <FormControl>
+                              <Input
+                                type="number"
+                                min={1}
+                                max={10}
+                                value={field.value}
+                                onChange={(e) =>
+                                  field.onChange(e.target.valueAsNumber)
+                                }
+                              />
+                            </FormControl>
+                            <FormDescription>
+                              {t("form.proposedReviewerCountHelp")}
+                            </FormDescription>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                    </>
+                  )}
+
+                  {/* Step 4: Commitment Letter */}
+                  {currentStep === 4 && (
+                    <FormField
+                      control={form.control}
+                      name="commitmentLetterUrl"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormControl>
+                            <FileUpload
+                              value={field.value}
+                              onChange={field.onChange}
+                              label={t("form.commitmentLetter")}
+                              helpText={t("form.commitmentLetterHelp")}
+                            />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                  )}
+
+                  {/* Step 5: Preferences */}
+                  {currentStep === 5 && (
+                    <>
+                      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                        <FormField
+                          control={form.control}
+                          name="preferredTeam"
+                          render={({ field }) => (
+                            <FormItem>
+                              <FormLabel>{t("form.preferredTeam")}</FormLabel>
+                              <Select
+                                onValueChange={(value) =>
+                                  field.onChange(
+                                    value === "none" ? undefined : Number(value)
+                                  )
+                                }
+                                value={field.value?.toString() ?? "none"}
+                              >
+                                <FormControl>
+                                  <SelectTrigger>
+                                    <SelectValue />
+                                  </SelectTrigger>
+                                </FormControl>
+                                <SelectContent>
+                                  <SelectItem value="none">
+                                    {t("form.preferredTeamPlaceholder")}
+                                  </SelectItem>
+                                  {TEAMS.map((team) => (
+                                    <SelectItem key={team} value={team.toString()}>
+                                      {t(`form.team${team}`)}
+                                    </SelectItem>
+                                  ))}
+                                </SelectContent>
+                              </Select>
+                              <FormDescription>
+                                {t("form.preferredTeamHelp")}
+                              </FormDescription>
+                              <FormMessage />
+                            </FormItem>
+                          )}
+                        />
+                        <FormField
+                          control={form.control}
+                          name="preferredLanguage"
+                          render={({ field }) => (
+                            <FormItem>
+                              <FormLabel>{t("form.preferredLanguage")}</FormLabel>
+                              <Select
+                                onValueChange={field.onChange}
+                                value={field.value}
+                              >
+                                <FormControl>
+                                  <SelectTrigger>
+                                    <SelectValue />
+                                  </SelectTrigger>
+                                </FormControl>
+                                <SelectContent>
+                                  <SelectItem value="en">
+                                    {t("form.languageEn")}
+                                  </SelectItem>
+                                  <SelectItem value="fr">
+                                    {t("form.languageFr")}
+                                  </SelectItem>
+                                  <SelectItem value="both">
+                                    {t("form.languageBoth")}
+                                  </SelectItem>
+                                </SelectContent>
+                              </Select>
+                              <FormMessage />
+                            </FormItem>
+                          )}
+                        />
+                      </div>
+                      <FormField
+                        control={form.control}
+                        name="additionalNotes"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>{t("form.additionalNotes")}</FormLabel>
+                            <FormControl>
+                              <Textarea
+                                rows={3}
+                                placeholder={t("form.additionalNotesPlaceholder")}
+                                {...field}
+                              />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                    </>
+                  )}
+                </CardContent>
+              </Card>
+            </motion.div>
+          </AnimatePresence>
+
+          {submitMutation.error && (
+            <Alert variant="destructive">
+              <AlertDescription>
+                {submitMutation.error.message || t("errors.submitFailed")}
+              </AlertDescription>
+            </Alert>
+          )}
+
+          {/* Navigation */}
+          <div className="flex items-center justify-between">
+            <Button
+              type="button"
+              variant="outline"
+              onClick={handleBack}
+              disabled={currentStep === 1 || submitMutation.isPending}
+            >
+              <ArrowLeft className="mr-2 h-4 w-4" />
+              {t("navigation.back")}
+            </Button>
+
+            {currentStep < totalSteps ? (
+              <Button type="button" onClick={handleNext}>
+                {t("navigation.next")}
+                <ArrowRight className="ml-2 h-4 w-4" />
+              </Button>
+            ) : (
+              <Button type="submit" disabled={submitMutation.isPending}>
+                {submitMutation.isPending ? (
+                  <>
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    {t("form.submitting")}
+                  </>
+                ) : (
+                  <>
+                    <Send className="mr-2 h-4 w-4" />
+                    {t("form.submit")}
+                  </>
+                )}
+              </Button>
+            )}
+          </div>
+        </form>
+      </Form>
+    </div>
+  );
+}
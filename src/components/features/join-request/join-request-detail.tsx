@@ -15,6 +15,7 @@ import {
   Building2,
   User,
   FileText,
+  Paperclip,
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import {
@@ -254,6 +255,41 @@ export function JoinRequestDetail({
                   </p>
                 </div>
               )}
+
+              {request.commitmentLetterUrl && (
+                <div>
+                  <p className="text-sm text-slate-500 mb-2">
+                    {tForm("commitmentLetter")}
+                  </p>
+                  <a
+                    href={request.commitmentLetterUrl}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="inline-flex items-center gap-2 text-sm text-primary hover:underline"
+                  >
+                    <Paperclip className="w-4 h-4" />
+                    {request.commitmentLetterUrl.split("/").pop()}
+                  </a>
+                </div>
+              )}
+
+              {request.applicantResponse && (
+                <div>
+                  <p className="text-sm text-slate-500 mb-2">
+                    {t("detail.applicantResponse")}
+                    {request.applicantRespondedAt &&
+                      ` (${format(new Date(request.applicantRespondedAt), "MMMM d, yyyy")})`}
+                  </p>
+                  {request.additionalInfoRequest && (
+                    <p className="text-xs text-slate-500 italic mb-2">
+                      {request.additionalInfoRequest}
+                    </p>
+                  )}
+                  <p className="text-sm bg-blue-50 p-4 rounded-lg whitespace-pre-wrap">
+                    {request.applicantResponse}
+                  </p>
+                </div>
+              )}
             </CardContent>
           </Card>
         </div>
@@ -0,0 +1,261 @@
+"use client";
+
+/**
+ * JoinRequestStatus Component
+ *
+ * Applicant-facing status page reached through the signed link emailed
+ * after submission. Lets applicants answer an additional information
+ * request from the Steering Committee without an account.
+ */
+
+import { useState } from "react";
+import Link from "next/link";
+import { format } from "date-fns";
+import { enUS, fr } from "date-fns/locale";
+import { useLocale, useTranslations } from "next-intl";
+import {
+  AlertCircle,
+  ArrowLeft,
+  CheckCircle,
+  Clock,
+  Loader2,
+  MessageSquare,
+  XCircle,
+} from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { FileUpload } from "@/components/ui/file-upload";
+import { trpc } from "@/lib/trpc/client";
+import { JoinRequestStatus } from "@/types/prisma-enums";
+
+interface JoinRequestStatusViewProps {
+  token: string;
+}
+
+const STATUS_STYLES: Record<JoinRequestStatus, string> = {
+  PENDING: "bg-slate-50 text-slate-700 border-slate-200",
+  COORDINATOR_REVIEW: "bg-blue-50 text-blue-700 border-blue-200",
+  SC_REVIEW: "bg-purple-50 text-purple-700 border-purple-200",
+  MORE_INFO: "bg-orange-50 text-orange-700 border-orange-200",
+  APPROVED: "bg-green-50 text-green-700 border-green-200",
+  REJECTED: "bg-red-50 text-red-700 border-red-200",
+  WITHDRAWN: "bg-slate-50 text-slate-500 border-slate-200",
+};
+
+export function JoinRequestStatusView({ token }: JoinRequestStatusViewProps) {
+  const t = useTranslations("joinRequest");
+  const locale = useLocale();
+  const dateLocale = locale === "fr" ? fr : enUS;
+  const [response, setResponse] = useState("");
+  const [letterUrl, setLetterUrl] = useState<string | undefined>();
+
+  const utils = trpc.useUtils();
+  const { data, isLoading, error } =
+    trpc.joinRequest.getStatusByToken.useQuery({ token }, { retry: false });
+
+  const respondMutation = trpc.joinRequest.respondToInfoRequest.useMutation({
+    onSuccess: () => {
+      setResponse("");
+      setLetterUrl(undefined);
+      utils.joinRequest.getStatusByToken.invalidate({ token });
+    },
+  });
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-12">
+        <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  if (error || !data) {
+    return (
+      <Card className="border-0 shadow-xl bg-card">
+        <CardHeader className="text-center">
+          <div className="mx-auto mb-4 flex h-14 w-14 items-center justify-center rounded-full bg-red-100">
+            <AlertCircle className="h-7 w-7 text-red-600" />
+          </div>
+          <CardTitle>{t("statusPage.invalidTitle")}</CardTitle>
+          <CardDescription>
+            {error?.message || t("statusPage.invalidMessage")}
+          </CardDescription>
+        </CardHeader>
+      </Card>
+    );
+  }
+
+  const orgName = data.organization
+    ? locale === "fr"
+      ? data.organization.nameFr
+      : data.organization.nameEn
+    : data.organizationName;
+
+  const StatusIcon =
+    data.status === "APPROVED"
+      ? CheckCircle
+      : data.status === "REJECTED"
+        ? XCircle
+        : data.status === "MORE_INFO"
+          ? MessageSquare
+          : Clock;
+
+  return (
+    <div className="space-y-6">
+      <Card className="border-0 shadow-xl bg-card">
+        <CardHeader>
+          <div className="flex items-start justify-between gap-4">
+            <div>
+              <CardTitle className="text-2xl font-bold font-montserrat">
+                {orgName}
+              </CardTitle>
+              <CardDescription>
+                {t("success.reference")}:{" "}
+                <span className="font-mono">{data.referenceId}</span>
+              </CardDescription>
+            </div>
+            <Badge variant="outline" className={STATUS_STYLES[data.status]}>
+              <StatusIcon className="mr-1 h-3 w-3" />
+              {t(`status.${data.status}`)}
+            </Badge>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-4 text-sm">
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <p className="text-muted-foreground">{t("statusPage.submittedOn")}</p>
+              <p className="font-medium">
+                {format(new Date(data.createdAt), "PPP", { locale: dateLocale })}
+              </p>
+            </div>
+            <div>
+              <p className="text-muted-foreground">{t("statusPage.lastUpdated")}</p>
+              <p className="font-medium">
+                {format(new Date(data.updatedAt), "PPP", { locale: dateLocale })}
+              </p>
+            </div>
+          </div>
+
+          <p className="text-muted-foreground">
+            {t(`statusPage.explanation.${data.status}`)}
+          </p>
+
+          {data.status === "APPROVED" && data.scAssignedTeam && (
+            <Alert className="bg-green-50 border-green-200">
+              <CheckCircle className="h-4 w-4 text-green-600" />
+              <AlertDescription className="text-green-800">
+                {t("statusPage.assignedTeam", { team: data.scAssignedTeam })}
+              </AlertDescription>
+            </Alert>
+          )}
+
+          {data.status === "REJECTED" && data.rejectionReason && (
+            <div>
+              <p className="text-muted-foreground mb-1">
+                {t("statusPage.rejectionReason")}
+              </p>
+              <p className="bg-muted/50 p-3 rounded-lg">{data.rejectionReason}</p>
+            </div>
+          )}
+
+          {data.applicantResponse && !data.canRespond && (
+            <div>
+              <p className="text-muted-foreground mb-1">
+                {t("statusPage.yourResponse")}
+                {data.applicantRespondedAt &&
+                  ` (${format(new Date(data.applicantRespondedAt), "PPP", {
+                    locale: dateLocale,
+                  })})`}
+              </p>
+              <p className="bg-muted/50 p-3 rounded-lg whitespace-pre-wrap">
+                {data.applicantResponse}
+              </p>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Additional information request */}
+      {data.canRespond && (
+        <Card className="border-orange-200 bg-orange-50/30">
+          <CardHeader>
+            <CardTitle className="text-base flex items-center gap-2">
+              <MessageSquare className="h-4 w-4" />
+              {t("statusPage.infoRequested")}
+            </CardTitle>
+            <CardDescription className="whitespace-pre-wrap text-foreground">
+              {data.additionalInfoRequest}
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="applicant-response">
+                {t("statusPage.responseLabel")}
+              </Label>
+              <Textarea
+                id="applicant-response"
+                rows={6}
+                value={response}
+                onChange={(e) => setResponse(e.target.value)}
+                placeholder={t("statusPage.responsePlaceholder")}
+                disabled={respondMutation.isPending}
+              />
+            </div>
+            <FileUpload
+              value={letterUrl}
+              onChange={setLetterUrl}
+              label={t("form.commitmentLetter")}
+              helpText={t("form.commitmentLetterHelp")}
+              disabled={respondMutation.isPending}
+            />
+            {respondMutation.error && (
+              <Alert variant="destructive">
+                <AlertDescription>{respondMutation.error.message}</AlertDescription>
+              </Alert>
+            )}
+            <Button
+              className="w-full"
+              disabled={response.trim().length < 20 || respondMutation.isPending}
+              onClick={() =>
+                respondMutation.mutate({
+                  token,
+                  response,
+                  commitmentLetterUrl: letterUrl,
+                })
+              }
+            >
+              {respondMutation.isPending ? (
+                <>
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  {t("form.submitting")}
+                </>
+              ) : (
+                t("statusPage.submitResponse")
+              )}
+            </Button>
+          </CardContent>
+        </Card>
+      )}
+
+      <div className="text-center">
+        <Link
+          href={`/${locale}/login`}
+          className="inline-flex items-center text-sm text-muted-foreground hover:text-icao transition-colors"
+        >
+          <ArrowLeft className="mr-1 h-3 w-3" />
+          {t("success.backToLogin")}
+        </Link>
+      </div>
+    </div>
+  );
+}
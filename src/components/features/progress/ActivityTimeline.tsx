@@ -15,6 +15,7 @@ import {
   CheckCircle2,
   RefreshCcw,
   MessageSquare,
+  ArrowRightLeft,
   ChevronDown,
   Loader2,
   Clock,
@@ -128,6 +129,12 @@ const EVENT_CONFIG: Record<
     bgColor: "bg-slate-100",
     label: "Comment Added",
   },
+  MIGRATED: {
+    icon: ArrowRightLeft,
+    color: "text-violet-600",
+    bgColor: "bg-violet-100",
+    label: "Migrated to New Edition",
+  },
 };
 
 // =============================================================================
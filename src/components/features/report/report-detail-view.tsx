@@ -7,7 +7,7 @@
  * Supports editing of executive summary and recommendations in DRAFT status.
  */
 
-import { useState, useCallback, useRef } from "react";
+import { useState, useCallback } from "react";
 import { useTranslations, useLocale } from "next-intl";
 import { useRouter } from "next/navigation";
 import "@/styles/report-print.css";
@@ -44,8 +44,7 @@ import { ReportSummaryCards } from "./report-summary-cards";
 import { ReportScoresSection } from "./report-scores-section";
 import { ReportFindingsTable } from "./report-findings-table";
 import { ReportCAPSummary } from "./report-cap-summary";
-import { ReportPrintView } from "./report-print-view";
-import { generatePDF, formatPDFFilename } from "@/lib/pdf/generate-report-pdf";
+import { downloadReportPDF } from "@/lib/pdf/generate-report-pdf";
 
 import type {
   FindingType,
@@ -374,9 +373,7 @@ export function ReportDetailView({
   const [recommendationsFr, setRecommendationsFr] = useState("");
   const [hasChanges, setHasChanges] = useState(false);
   const [activeTab, setActiveTab] = useState("summary");
-  const [isPrintMode, setIsPrintMode] = useState(false);
   const [isExporting, setIsExporting] = useState(false);
-  const printRef = useRef<HTMLDivElement>(null);
 
   // Track changes
   const handleSummaryEnChange = useCallback((value: string) => {
@@ -470,23 +467,17 @@ export function ReportDetailView({
 
   const handleExportPDF = useCallback(async () => {
     setIsExporting(true);
-    setIsPrintMode(true);
-
-    // Wait for print view to render
-    await new Promise((resolve) => setTimeout(resolve, 200));
 
     try {
-      const filename = formatPDFFilename(
-        "Review_Report",
-        data.review.referenceNumber
+      const result = await downloadReportPDF(
+        data.review.id,
+        locale === "fr" ? "fr" : "en"
       );
 
-      await generatePDF({ title: filename });
-
       toast.success(t("actions.exportPdf"), {
         description: locale === "fr"
-          ? "Le rapport a été préparé pour l'impression."
-          : "The report has been prepared for printing.",
+          ? `${result.fileName} a été téléchargé.`
+          : `${result.fileName} has been downloaded.`,
       });
     } catch (error) {
       console.error("PDF export error:", error);
@@ -496,10 +487,9 @@ export function ReportDetailView({
           : "Error exporting PDF.",
       });
     } finally {
-      setIsPrintMode(false);
       setIsExporting(false);
     }
-  }, [t, locale, data.review.referenceNumber]);
+  }, [t, locale, data.review.id]);
 
   const handleViewFinding = useCallback(
     (id: string) => {
@@ -674,51 +664,6 @@ export function ReportDetailView({
         </div>
       )}
 
-      {/* Print View (hidden on screen, visible when printing) */}
-      {isPrintMode && (
-        <div className="print-container hidden print:block">
-          <ReportPrintView
-            ref={printRef}
-            report={data.report}
-            review={data.review}
-            team={data.team}
-            assessmentScores={data.assessmentScores}
-            findings={data.findings}
-            caps={data.caps}
-            locale={locale}
-            translations={{
-              title: t("title"),
-              executiveSummary: t("executiveSummary"),
-              scores: t("tabs.scores"),
-              findings: t("tabs.findings"),
-              caps: t("tabs.caps"),
-              team: t("tabs.team"),
-              confidential: t("print.confidential"),
-              generatedOn: t("print.generatedOn"),
-              page: t("print.page"),
-              overallEI: t("scores.overallEI"),
-              overallMaturity: t("scores.overallMaturity"),
-              reviewArea: t("scores.byReviewArea"),
-              score: t("scores.eiScore"),
-              component: t("scores.byComponent"),
-              maturityLevel: t("scores.maturityScore"),
-              reference: t("findings.reference"),
-              finding: t("findings.finding"),
-              type: t("findings.type"),
-              severity: t("findings.severity"),
-              status: t("findings.status"),
-              dueDate: t("findings.dueDate"),
-              completionRate: t("caps.completionRate"),
-              total: t("caps.total"),
-              overdue: t("caps.overdue"),
-              name: t("team.name"),
-              role: t("team.role"),
-              email: t("team.email"),
-            }}
-          />
-        </div>
-      )}
-
       {/* Print Styles */}
       <style jsx global>{`
         @media print {
@@ -732,21 +677,11 @@ export function ReportDetailView({
             display: none !important;
           }
 
-          .print-container {
-            display: block !important;
-          }
-
           @page {
             margin: 15mm;
             size: A4;
           }
         }
-
-        @media screen {
-          .print-container {
-            display: none;
-          }
-        }
       `}</style>
     </div>
   );
@@ -44,6 +44,7 @@ import {
 import type { AvailabilitySlot, CreateAvailabilityInput } from "@/types/reviewer";
 import type { AvailabilityType } from "@/types/prisma-enums";
 import { AVAILABILITY_TYPE_LABELS, AVAILABILITY_TYPE_COLOR } from "@/lib/reviewer/labels";
+import { expandRecurrence, formatRecurrenceRule } from "@/lib/availability/recurrence";
 
 // =============================================================================
 // TYPES
@@ -80,60 +81,76 @@ function formatDateForInput(date: Date): string {
   return date.toISOString().split("T")[0];
 }
 
+/**
+ * Build a single recurring series for the pattern. The server expands it
+ * into occurrences; blackout dates become EXDATEs.
+ */
 function generateRecurringSlots(
   pattern: RecurringFormState,
   blackoutDates: string[]
 ): CreateAvailabilityInput[] {
-  const slots: CreateAvailabilityInput[] = [];
+  if (!pattern.startDate || !pattern.endDate) return [];
+
   const start = new Date(pattern.startDate);
   const end = new Date(pattern.endDate);
-  const blackoutSet = new Set(blackoutDates);
+  if (Number.isNaN(start.getTime()) || Number.isNaN(end.getTime()) || end < start) {
+    return [];
+  }
+
+  const exceptions = blackoutDates.map((date) => new Date(date));
+  let firstDate = start;
+  let rule: string;
 
   if (pattern.frequency === "weekly" || pattern.frequency === "biweekly") {
-    const increment = pattern.frequency === "weekly" ? 7 : 14;
-
-    for (const dayOfWeek of pattern.daysOfWeek) {
-      // Find the first occurrence of this day
-      const currentDate = new Date(start);
-      const diff = (dayOfWeek - currentDate.getDay() + 7) % 7;
-      currentDate.setDate(currentDate.getDate() + diff);
-
-      while (currentDate <= end) {
-        const dateStr = formatDateForInput(currentDate);
-        if (!blackoutSet.has(dateStr)) {
-          slots.push({
-            startDate: new Date(currentDate),
-            endDate: new Date(currentDate),
-            availabilityType: pattern.availabilityType,
-            isRecurring: true,
-            recurrencePattern: `FREQ=${pattern.frequency.toUpperCase()};BYDAY=${["SU", "MO", "TU", "WE", "TH", "FR", "SA"][dayOfWeek]}`,
-          });
-        }
-        currentDate.setDate(currentDate.getDate() + increment);
-      }
-    }
-  } else if (pattern.frequency === "monthly") {
-    // Monthly: create a slot for each month
-    const currentDate = new Date(start);
-    while (currentDate <= end) {
-      const dateStr = formatDateForInput(currentDate);
-      if (!blackoutSet.has(dateStr)) {
-        // First day of month to last day
-        const monthEnd = new Date(currentDate.getFullYear(), currentDate.getMonth() + 1, 0);
-        slots.push({
-          startDate: new Date(currentDate),
-          endDate: monthEnd > end ? end : monthEnd,
-          availabilityType: pattern.availabilityType,
-          isRecurring: true,
-          recurrencePattern: "FREQ=MONTHLY",
-        });
-      }
-      currentDate.setMonth(currentDate.getMonth() + 1);
-      currentDate.setDate(1);
-    }
+    if (pattern.daysOfWeek.length === 0) return [];
+
+    // First occurrence is the first selected weekday on or after the start date
+    const diffs = pattern.daysOfWeek.map((day) => (day - start.getUTCDay() + 7) % 7);
+    firstDate = new Date(start.getTime() + Math.min(...diffs) * 24 * 60 * 60 * 1000);
+
+    rule = formatRecurrenceRule({
+      frequency: "WEEKLY",
+      interval: pattern.frequency === "weekly" ? 1 : 2,
+      byDay: [...pattern.daysOfWeek].sort().map((day) => ({ day })),
+      until: end,
+      exceptions,
+    });
+  } else {
+    // Monthly: same day of the month as the start date
+    rule = formatRecurrenceRule({
+      frequency: "MONTHLY",
+      interval: 1,
+      byMonthDay: [start.getUTCDate()],
+      until: end,
+      exceptions,
+    });
   }
 
-  return slots;
+  if (firstDate > end) return [];
+
+  return [
+    {
+      startDate: firstDate,
+      endDate: firstDate,
+      availabilityType: pattern.availabilityType,
+      isRecurring: true,
+      recurrencePattern: rule,
+    },
+  ];
+}
+
+/**
+ * Number of occurrences the generated series will produce
+ */
+function countOccurrences(slots: CreateAvailabilityInput[], pattern: RecurringFormState): number {
+  if (slots.length === 0) return 0;
+  const window = { start: new Date(pattern.startDate), end: new Date(pattern.endDate) };
+  return slots.reduce(
+    (total, slot) =>
+      total +
+      expandRecurrence(slot.startDate, slot.endDate, slot.recurrencePattern ?? "", window).length,
+    0
+  );
 }
 
 // =============================================================================
@@ -260,7 +277,10 @@ export function BulkAvailability({
 
   // Preview count
   const previewCount = useMemo(() => {
-    return generateRecurringSlots(recurringForm, blackoutForm.dates).length;
+    return countOccurrences(
+      generateRecurringSlots(recurringForm, blackoutForm.dates),
+      recurringForm
+    );
   }, [recurringForm, blackoutForm.dates]);
 
   return (
@@ -21,6 +21,7 @@ import {
   Tooltip,
   ResponsiveContainer,
 } from "recharts";
+import type { CAPEffectivenessRates } from "@/types/safety-intelligence";
 
 // =============================================================================
 // TYPES
@@ -110,6 +111,23 @@ export function CAPAnalyticsTab({ selectedTeamId }: CAPAnalyticsTabProps) {
         </Card>
       </div>
 
+      {/* Effectiveness Reviews */}
+      <Card>
+        <CardHeader>
+          <CardTitle>{t("capAnalytics.effectivenessTitle")}</CardTitle>
+          <CardDescription>
+            {t("capAnalytics.effectivenessSubtitle")}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {capLoading || !capData ? (
+            <Skeleton className="h-[160px] w-full" />
+          ) : (
+            <EffectivenessSummary data={capData.effectiveness} />
+          )}
+        </CardContent>
+      </Card>
+
       {/* Bottom: Trend */}
       <Card>
         <CardHeader>
@@ -230,6 +248,73 @@ function TeamComparisonChart({ data }: TeamComparisonChartProps) {
   );
 }
 
+// =============================================================================
+// EFFECTIVENESS SUMMARY — outcomes of post-closure effectiveness reviews
+// =============================================================================
+
+interface EffectivenessSummaryProps {
+  data: CAPEffectivenessRates;
+}
+
+function EffectivenessSummary({ data }: EffectivenessSummaryProps) {
+  const t = useTranslations("safetyIntelligence");
+
+  if (data.completed === 0 && data.pending === 0) {
+    return (
+      <p className="text-sm text-muted-foreground">
+        {t("capAnalytics.effectivenessNone")}
+      </p>
+    );
+  }
+
+  const stats = [
+    {
+      label: t("capAnalytics.effectivenessRate"),
+      value: data.effectivenessRate !== null ? `${data.effectivenessRate}%` : "—",
+    },
+    { label: t("capAnalytics.effective"), value: data.effective, className: "text-green-600" },
+    {
+      label: t("capAnalytics.partiallyEffective"),
+      value: data.partiallyEffective,
+      className: "text-amber-600",
+    },
+    { label: t("capAnalytics.ineffective"), value: data.ineffective, className: "text-red-600" },
+    { label: t("capAnalytics.effectivenessPending"), value: data.pending },
+  ];
+
+  return (
+    <div className="grid gap-6 lg:grid-cols-2">
+      <div className="grid grid-cols-2 gap-4 sm:grid-cols-3">
+        {stats.map((stat) => (
+          <div key={stat.label} className="space-y-1">
+            <p className="text-xs text-muted-foreground">{stat.label}</p>
+            <p className={`text-2xl font-semibold ${stat.className ?? ""}`}>{stat.value}</p>
+          </div>
+        ))}
+      </div>
+      <div className="space-y-3">
+        <p className="text-sm font-medium">{t("capAnalytics.effectivenessByTeam")}</p>
+        {data.byTeam.map((team) => (
+          <div key={team.teamId} className="space-y-1">
+            <div className="flex items-center justify-between text-xs">
+              <span className="truncate">{`${team.teamNumber}. ${team.teamName}`}</span>
+              <span className="text-muted-foreground">
+                {team.effectivenessRate ?? 0}% · {t("capAnalytics.effectivenessReviews", { count: team.completed })}
+              </span>
+            </div>
+            <div className="h-2 rounded-full bg-muted overflow-hidden">
+              <div
+                className="h-full rounded-full bg-green-500 transition-all"
+                style={{ width: `${team.effectivenessRate ?? 0}%` }}
+              />
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
 // =============================================================================
 // CAP TREND CHART — Quarterly CAP Closure Rate Trend
 // =============================================================================
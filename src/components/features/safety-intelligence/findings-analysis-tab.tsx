@@ -76,6 +76,11 @@ export function FindingsAnalysisTab({
       teamId: selectedTeamId,
     });
 
+  const { data: repeatRates, isLoading: repeatLoading } =
+    trpc.safetyIntelligence.getRepeatFindingRates.useQuery({
+      teamId: selectedTeamId,
+    });
+
   // Overall severity totals
   const overallSeverity = useMemo(() => {
     if (!patterns) return [];
@@ -189,6 +194,44 @@ export function FindingsAnalysisTab({
           )}
         </CardContent>
       </Card>
+
+      {/* Repeat Findings */}
+      <Card>
+        <CardHeader>
+          <CardTitle>{t("findingsAnalysis.repeatTitle")}</CardTitle>
+          <CardDescription>
+            {repeatRates
+              ? t("findingsAnalysis.repeatSubtitle", {
+                  repeats: repeatRates.repeatFindings,
+                  total: repeatRates.totalFindings,
+                  rate: repeatRates.repeatRate,
+                })
+              : t("findingsAnalysis.repeatTitle")}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {repeatLoading || !repeatRates ? (
+            <Skeleton className="h-[200px] w-full" />
+          ) : (
+            <div className="grid gap-6 lg:grid-cols-2">
+              <RepeatRateList
+                title={t("findingsAnalysis.repeatByTeam")}
+                rows={repeatRates.byTeam.map((r) => ({
+                  label: `${r.teamNumber}. ${r.teamName}`,
+                  ...r,
+                }))}
+              />
+              <RepeatRateList
+                title={t("findingsAnalysis.repeatByArea")}
+                rows={repeatRates.byReviewArea.map((r) => ({
+                  label: r.reviewArea,
+                  ...r,
+                }))}
+              />
+            </div>
+          )}
+        </CardContent>
+      </Card>
     </div>
   );
 }
@@ -416,6 +459,47 @@ function AreaBreakdown({ data, total }: AreaBreakdownProps) {
   );
 }
 
+// =============================================================================
+// REPEAT RATE LIST — share of repeat findings per group
+// =============================================================================
+
+interface RepeatRateListProps {
+  title: string;
+  rows: Array<{ label: string; total: number; repeats: number; rate: number }>;
+}
+
+function RepeatRateList({ title, rows }: RepeatRateListProps) {
+  const t = useTranslations("safetyIntelligence");
+
+  return (
+    <div className="space-y-3">
+      <p className="text-sm font-medium">{title}</p>
+      {rows.length === 0 ? (
+        <p className="text-sm text-muted-foreground">
+          {t("findingsAnalysis.repeatNone")}
+        </p>
+      ) : (
+        rows.map((row) => (
+          <div key={row.label} className="space-y-1">
+            <div className="flex items-center justify-between text-xs">
+              <span className="truncate">{row.label}</span>
+              <span className="text-muted-foreground">
+                {row.repeats}/{row.total} · {row.rate}%
+              </span>
+            </div>
+            <div className="h-2 rounded-full bg-muted overflow-hidden">
+              <div
+                className="h-full rounded-full bg-purple-500 transition-all"
+                style={{ width: `${row.rate}%` }}
+              />
+            </div>
+          </div>
+        ))
+      )}
+    </div>
+  );
+}
+
 // =============================================================================
 // FINDING TREND AREA CHART — quarterly
 // =============================================================================
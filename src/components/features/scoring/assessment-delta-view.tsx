@@ -0,0 +1,413 @@
+"use client";
+
+/**
+ * Assessment Delta View
+ *
+ * "What changed" panel comparing an assessment with an earlier one of the
+ * same questionnaire: overall score movement, per-area deltas and the
+ * question-level regressions, improvements, new N/A answers and evidence
+ * changes that explain it.
+ */
+
+import { useMemo, useState } from "react";
+import { useLocale, useTranslations } from "next-intl";
+import { format } from "date-fns";
+import { enUS, fr } from "date-fns/locale";
+import {
+  ArrowRight,
+  FileText,
+  GitCompare,
+  MinusCircle,
+  TrendingDown,
+  TrendingUp,
+} from "lucide-react";
+import { cn } from "@/lib/utils";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { trpc } from "@/lib/trpc/client";
+import type { GroupScoreDelta } from "@/server/services/scoring.service";
+import type {
+  QuestionDelta,
+  QuestionResponseState,
+} from "@/lib/assessment/score-delta";
+
+// =============================================================================
+// PROPS
+// =============================================================================
+
+interface AssessmentDeltaViewProps {
+  assessmentId: string;
+  type: "ANS_USOAP_CMA" | "SMS_CANSO_SOE";
+}
+
+type QuestionFilter = "all" | "regressions" | "improvements" | "notApplicable" | "evidence";
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+function formatDelta(delta: number | null): string {
+  if (delta === null) return "—";
+  return `${delta > 0 ? "+" : ""}${delta.toFixed(1)}`;
+}
+
+function deltaColor(delta: number | null): string {
+  if (delta === null || delta === 0) return "text-muted-foreground";
+  return delta > 0 ? "text-green-600" : "text-red-600";
+}
+
+function matchesFilter(question: QuestionDelta, filter: QuestionFilter): boolean {
+  switch (filter) {
+    case "regressions":
+      return question.direction === "REGRESSION";
+    case "improvements":
+      return question.direction === "IMPROVEMENT";
+    case "notApplicable":
+      return question.newlyNotApplicable;
+    case "evidence":
+      return question.evidenceChanged;
+    default:
+      return true;
+  }
+}
+
+// =============================================================================
+// SUB-COMPONENTS
+// =============================================================================
+
+function ResponseLabel({ state }: { state: QuestionResponseState }) {
+  const t = useTranslations("scoring");
+
+  if (state.maturityLevel) {
+    return <span>{t("delta.level", { level: state.maturityLevel.replace("LEVEL_", "") })}</span>;
+  }
+
+  switch (state.responseValue) {
+    case "SATISFACTORY":
+      return <span className="text-green-700">{t("satisfactory")}</span>;
+    case "NOT_SATISFACTORY":
+      return <span className="text-red-700">{t("notSatisfactory")}</span>;
+    case "NOT_APPLICABLE":
+      return <span className="text-muted-foreground">{t("notApplicable")}</span>;
+    default:
+      return <span className="text-muted-foreground">{t("notReviewed")}</span>;
+  }
+}
+
+function GroupDeltaTable({ groups }: { groups: GroupScoreDelta[] }) {
+  const t = useTranslations("scoring.delta");
+  const locale = useLocale();
+
+  if (groups.length === 0) {
+    return <p className="py-4 text-sm text-muted-foreground">{t("noGroupChanges")}</p>;
+  }
+
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>{t("columns.area")}</TableHead>
+          <TableHead className="text-right">{t("columns.before")}</TableHead>
+          <TableHead className="text-right">{t("columns.after")}</TableHead>
+          <TableHead className="text-right">{t("columns.delta")}</TableHead>
+          <TableHead className="text-right">{t("columns.regressions")}</TableHead>
+          <TableHead className="text-right">{t("columns.improvements")}</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {groups.map((group) => (
+          <TableRow key={group.code}>
+            <TableCell>
+              <span className="font-medium">{group.code.replace(/_/g, "-")}</span>
+              <span className="ml-2 text-muted-foreground">
+                {locale === "fr" ? group.nameFr : group.nameEn}
+              </span>
+            </TableCell>
+            <TableCell className="text-right">
+              {group.before === null ? "—" : `${group.before.toFixed(1)}%`}
+            </TableCell>
+            <TableCell className="text-right">
+              {group.after === null ? "—" : `${group.after.toFixed(1)}%`}
+            </TableCell>
+            <TableCell className={cn("text-right font-medium", deltaColor(group.delta))}>
+              {formatDelta(group.delta)}
+            </TableCell>
+            <TableCell className="text-right">
+              {group.regressions > 0 ? (
+                <span className="text-red-600">{group.regressions}</span>
+              ) : (
+                0
+              )}
+            </TableCell>
+            <TableCell className="text-right">
+              {group.improvements > 0 ? (
+                <span className="text-green-600">{group.improvements}</span>
+              ) : (
+                0
+              )}
+            </TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  );
+}
+
+function QuestionChangeList({ questions }: { questions: QuestionDelta[] }) {
+  const t = useTranslations("scoring.delta");
+  const locale = useLocale();
+
+  if (questions.length === 0) {
+    return <p className="py-4 text-sm text-muted-foreground">{t("noQuestionChanges")}</p>;
+  }
+
+  return (
+    <ul className="divide-y rounded-md border">
+      {questions.map((question) => (
+        <li key={question.questionId} className="space-y-1 px-3 py-2 text-sm">
+          <div className="flex flex-wrap items-center gap-2">
+            {question.pqNumber && (
+              <span className="font-mono text-xs text-muted-foreground">
+                {question.pqNumber}
+              </span>
+            )}
+            {question.direction === "REGRESSION" && (
+              <Badge variant="destructive">{t("flags.regression")}</Badge>
+            )}
+            {question.direction === "IMPROVEMENT" && (
+              <Badge className="bg-green-600 hover:bg-green-600">
+                {t("flags.improvement")}
+              </Badge>
+            )}
+            {question.newlyNotApplicable && (
+              <Badge variant="secondary">{t("flags.newNotApplicable")}</Badge>
+            )}
+            {question.evidenceChanged && (
+              <Badge variant="outline">
+                <FileText className="mr-1 h-3 w-3" />
+                {t("flags.evidence", {
+                  added: question.evidenceAdded,
+                  removed: question.evidenceRemoved,
+                })}
+              </Badge>
+            )}
+          </div>
+          <p className="line-clamp-2">
+            {locale === "fr" ? question.questionTextFr : question.questionTextEn}
+          </p>
+          {question.responseChanged && (
+            <div className="flex items-center gap-2 text-xs">
+              <ResponseLabel state={question.before} />
+              <ArrowRight className="h-3 w-3 text-muted-foreground" />
+              <ResponseLabel state={question.after} />
+            </div>
+          )}
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+// =============================================================================
+// MAIN COMPONENT
+// =============================================================================
+
+export function AssessmentDeltaView({ assessmentId, type }: AssessmentDeltaViewProps) {
+  const t = useTranslations("scoring.delta");
+  const locale = useLocale();
+  const dateLocale = locale === "fr" ? fr : enUS;
+  const [selectedBaseId, setSelectedBaseId] = useState<string | null>(null);
+  const [filter, setFilter] = useState<QuestionFilter>("all");
+
+  const { data: comparable, isLoading: isLoadingComparable } =
+    trpc.scoring.getComparableAssessments.useQuery({ assessmentId });
+
+  const baseId = selectedBaseId ?? comparable?.[0]?.id ?? null;
+
+  const { data: delta, isLoading: isLoadingDelta, error } =
+    trpc.scoring.getAssessmentDelta.useQuery(
+      { baseAssessmentId: baseId ?? "", targetAssessmentId: assessmentId },
+      { enabled: !!baseId }
+    );
+
+  const filteredQuestions = useMemo(
+    () => delta?.questions.filter((q) => matchesFilter(q, filter)) ?? [],
+    [delta, filter]
+  );
+
+  if (isLoadingComparable) {
+    return <Skeleton className="h-48 w-full" />;
+  }
+
+  // Nothing to compare against yet
+  if (!comparable?.length) {
+    return null;
+  }
+
+  const isANS = type === "ANS_USOAP_CMA";
+  const TrendIcon =
+    !delta || delta.overallDelta === 0
+      ? MinusCircle
+      : delta.overallDelta > 0
+        ? TrendingUp
+        : TrendingDown;
+
+  return (
+    <Card>
+      <CardHeader className="space-y-3">
+        <div className="flex flex-col gap-3 sm:flex-row sm:items-start sm:justify-between">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <GitCompare className="h-5 w-5" />
+              {t("title")}
+            </CardTitle>
+            <CardDescription>{t("description")}</CardDescription>
+          </div>
+          <Select value={baseId ?? undefined} onValueChange={setSelectedBaseId}>
+            <SelectTrigger className="w-full sm:w-72" aria-label={t("compareWith")}>
+              <SelectValue placeholder={t("compareWith")} />
+            </SelectTrigger>
+            <SelectContent>
+              {comparable.map((a) => {
+                const date = a.submittedAt ?? a.completedAt;
+                return (
+                  <SelectItem key={a.id} value={a.id}>
+                    {a.title}
+                    {date && ` · ${format(new Date(date), "PP", { locale: dateLocale })}`}
+                  </SelectItem>
+                );
+              })}
+            </SelectContent>
+          </Select>
+        </div>
+      </CardHeader>
+
+      <CardContent className="space-y-6">
+        {isLoadingDelta && <Skeleton className="h-40 w-full" />}
+
+        {error && <p className="text-sm text-destructive">{error.message}</p>}
+
+        {delta && (
+          <>
+            {/* Overall movement */}
+            <div className="flex flex-wrap items-center gap-4">
+              <div className="text-sm text-muted-foreground">
+                {isANS ? t("overallEI") : t("overallMaturity")}
+              </div>
+              <div className="flex items-center gap-2 text-lg font-semibold">
+                <span>{delta.base.score.toFixed(1)}%</span>
+                <ArrowRight className="h-4 w-4 text-muted-foreground" />
+                <span>{delta.target.score.toFixed(1)}%</span>
+              </div>
+              <div
+                className={cn(
+                  "flex items-center gap-1 font-medium",
+                  deltaColor(delta.overallDelta)
+                )}
+              >
+                <TrendIcon className="h-4 w-4" />
+                {formatDelta(delta.overallDelta)}
+              </div>
+              {delta.base.level && delta.target.level && (
+                <div className="text-sm text-muted-foreground">
+                  {t("level", { level: delta.base.level.replace("LEVEL_", "") })}
+                  {" → "}
+                  {t("level", { level: delta.target.level.replace("LEVEL_", "") })}
+                </div>
+              )}
+            </div>
+
+            {/* Totals */}
+            <div className="grid grid-cols-2 gap-3 sm:grid-cols-4">
+              {(
+                [
+                  ["regressions", delta.totals.regressions, "text-red-600"],
+                  ["improvements", delta.totals.improvements, "text-green-600"],
+                  ["notApplicable", delta.totals.newlyNotApplicable, ""],
+                  ["evidence", delta.totals.evidenceChanged, ""],
+                ] as const
+              ).map(([key, value, color]) => (
+                <div key={key} className="rounded-md border p-3">
+                  <div className={cn("text-2xl font-bold", value > 0 && color)}>
+                    {value}
+                  </div>
+                  <div className="text-xs text-muted-foreground">{t(`totals.${key}`)}</div>
+                </div>
+              ))}
+            </div>
+
+            {/* Per-area deltas */}
+            <Tabs defaultValue="primary">
+              <TabsList>
+                <TabsTrigger value="primary">
+                  {isANS ? t("byAuditArea") : t("byComponent")}
+                </TabsTrigger>
+                <TabsTrigger value="secondary">
+                  {isANS ? t("byCriticalElement") : t("byStudyArea")}
+                </TabsTrigger>
+              </TabsList>
+              <TabsContent value="primary">
+                <GroupDeltaTable groups={isANS ? delta.byAuditArea : delta.byComponent} />
+              </TabsContent>
+              <TabsContent value="secondary">
+                <GroupDeltaTable
+                  groups={isANS ? delta.byCriticalElement : delta.byStudyArea}
+                />
+              </TabsContent>
+            </Tabs>
+
+            {/* Question-level changes */}
+            <div className="space-y-3">
+              <div className="flex flex-col gap-2 sm:flex-row sm:items-center sm:justify-between">
+                <h3 className="font-medium">
+                  {t("questionsTitle", { count: delta.questions.length })}
+                </h3>
+                <Select
+                  value={filter}
+                  onValueChange={(value) => setFilter(value as QuestionFilter)}
+                >
+                  <SelectTrigger className="w-full sm:w-56">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(
+                      ["all", "regressions", "improvements", "notApplicable", "evidence"] as const
+                    ).map((value) => (
+                      <SelectItem key={value} value={value}>
+                        {t(`filters.${value}`)}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <QuestionChangeList questions={filteredQuestions} />
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
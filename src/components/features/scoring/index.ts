@@ -12,3 +12,4 @@ export {
   ScoreComparisonChart,
   MaturityDistributionChart,
 } from "./score-breakdown-chart";
+export { AssessmentDeltaView } from "./assessment-delta-view";
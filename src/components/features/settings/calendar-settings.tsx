@@ -0,0 +1,352 @@
+"use client";
+
+/**
+ * Calendar Settings Component
+ *
+ * Manages the user's ICS subscription feed (reviews, CAPs, tasks and
+ * availability) and lets reviewers import an ICS export from their own
+ * calendar as UNAVAILABLE availability blocks.
+ */
+
+import { useTranslations, useLocale } from "next-intl";
+import { useRef, useState } from "react";
+import { format } from "date-fns";
+import { enUS, fr } from "date-fns/locale";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import {
+  CalendarDays,
+  Copy,
+  Link2,
+  Loader2,
+  RefreshCw,
+  Upload,
+  XCircle,
+} from "lucide-react";
+import { trpc } from "@/lib/trpc/client";
+import { toast } from "sonner";
+import { parseCalendar, type ParsedIcsEvent } from "@/lib/calendar/ics";
+
+/** Slots accepted per bulkCreateAvailability call */
+const IMPORT_BATCH_SIZE = 100;
+
+/** Upper bound on events imported from a single file */
+const MAX_IMPORT_EVENTS = 500;
+
+interface ImportSlot {
+  startDate: Date;
+  endDate: Date;
+  availabilityType: "UNAVAILABLE";
+  title?: string;
+  notes?: string;
+  isRecurring: boolean;
+  recurrencePattern?: string;
+}
+
+/**
+ * Convert parsed events to UNAVAILABLE slots, skipping one-off events
+ * that ended before today
+ */
+function toUnavailableSlots(events: ParsedIcsEvent[], today: Date): ImportSlot[] {
+  return events
+    .filter((event) => event.recurrencePattern || event.end >= today)
+    .slice(0, MAX_IMPORT_EVENTS)
+    .map((event) => ({
+      startDate: event.start,
+      endDate: event.end,
+      availabilityType: "UNAVAILABLE" as const,
+      title: event.summary?.slice(0, 200),
+      notes: event.description?.slice(0, 1000),
+      isRecurring: !!event.recurrencePattern,
+      recurrencePattern: event.recurrencePattern,
+    }));
+}
+
+function CalendarSkeleton() {
+  return (
+    <Card>
+      <CardHeader>
+        <Skeleton className="h-6 w-48" />
+        <Skeleton className="h-4 w-72" />
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <Skeleton className="h-10 w-full" />
+        <Skeleton className="h-10 w-40" />
+      </CardContent>
+    </Card>
+  );
+}
+
+export function CalendarSettings() {
+  const t = useTranslations("settings.calendar");
+  const locale = useLocale();
+  const dateLocale = locale === "fr" ? fr : enUS;
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [slots, setSlots] = useState<ImportSlot[] | null>(null);
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [isImporting, setIsImporting] = useState(false);
+
+  const utils = trpc.useUtils();
+  const { data, isLoading } = trpc.settings.getCalendarFeed.useQuery();
+
+  const regenerateFeed = trpc.settings.regenerateCalendarFeed.useMutation({
+    onSuccess: () => {
+      toast.success(t("feed.regenerateSuccess"));
+      utils.settings.getCalendarFeed.invalidate();
+    },
+    onError: (error) => toast.error(error.message),
+  });
+
+  const revokeFeed = trpc.settings.revokeCalendarFeed.useMutation({
+    onSuccess: () => {
+      toast.success(t("feed.revokeSuccess"));
+      utils.settings.getCalendarFeed.invalidate();
+    },
+    onError: (error) => toast.error(error.message),
+  });
+
+  const bulkCreate = trpc.reviewer.bulkCreateAvailability.useMutation();
+
+  const handleCopy = async (url: string) => {
+    try {
+      await navigator.clipboard.writeText(url);
+      toast.success(t("feed.copied"));
+    } catch {
+      toast.error(t("feed.copyError"));
+    }
+  };
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      const today = new Date();
+      today.setUTCHours(0, 0, 0, 0);
+      const parsed = toUnavailableSlots(parseCalendar(await file.text()), today);
+      setFileName(file.name);
+      setSlots(parsed);
+    } catch (error) {
+      console.error("Failed to read calendar file:", error);
+      toast.error(t("import.parseError"));
+    }
+  };
+
+  const resetImport = () => {
+    setSlots(null);
+    setFileName(null);
+    if (fileInputRef.current) fileInputRef.current.value = "";
+  };
+
+  const handleImport = async () => {
+    if (!slots?.length || !data?.reviewerProfileId) return;
+    setIsImporting(true);
+    let imported = 0;
+    try {
+      for (let i = 0; i < slots.length; i += IMPORT_BATCH_SIZE) {
+        const batch = slots.slice(i, i + IMPORT_BATCH_SIZE);
+        await bulkCreate.mutateAsync({
+          reviewerId: data.reviewerProfileId,
+          slots: batch,
+        });
+        imported += batch.length;
+      }
+      toast.success(t("import.success", { count: imported }));
+      resetImport();
+    } catch (error) {
+      console.error("Failed to import calendar:", error);
+      toast.error(
+        imported > 0
+          ? t("import.partialError", { count: imported })
+          : error instanceof Error
+            ? error.message
+            : t("import.error")
+      );
+    } finally {
+      setIsImporting(false);
+      utils.reviewer.getAvailability.invalidate();
+    }
+  };
+
+  if (isLoading) {
+    return <CalendarSkeleton />;
+  }
+
+  const feed = data?.feed;
+
+  return (
+    <div className="space-y-6">
+      {/* Subscription feed */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Link2 className="h-5 w-5" />
+            {t("feed.title")}
+          </CardTitle>
+          <CardDescription>{t("feed.description")}</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {feed ? (
+            <>
+              <div className="flex gap-2">
+                <Input value={feed.url} readOnly className="font-mono text-xs" />
+                <Button
+                  variant="outline"
+                  size="icon"
+                  onClick={() => handleCopy(feed.url)}
+                  aria-label={t("feed.copy")}
+                >
+                  <Copy className="h-4 w-4" />
+                </Button>
+              </div>
+              <p className="text-sm text-muted-foreground">
+                {feed.lastAccessedAt
+                  ? t("feed.lastAccessed", {
+                      date: format(new Date(feed.lastAccessedAt), "PPp", {
+                        locale: dateLocale,
+                      }),
+                    })
+                  : t("feed.neverAccessed")}
+              </p>
+              <Alert>
+                <AlertDescription>{t("feed.secretWarning")}</AlertDescription>
+              </Alert>
+              <div className="flex flex-wrap gap-2">
+                <AlertDialog>
+                  <AlertDialogTrigger asChild>
+                    <Button variant="outline" disabled={regenerateFeed.isPending}>
+                      {regenerateFeed.isPending ? (
+                        <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                      ) : (
+                        <RefreshCw className="mr-2 h-4 w-4" />
+                      )}
+                      {t("feed.regenerate")}
+                    </Button>
+                  </AlertDialogTrigger>
+                  <AlertDialogContent>
+                    <AlertDialogHeader>
+                      <AlertDialogTitle>{t("feed.regenerateTitle")}</AlertDialogTitle>
+                      <AlertDialogDescription>
+                        {t("feed.regenerateDescription")}
+                      </AlertDialogDescription>
+                    </AlertDialogHeader>
+                    <AlertDialogFooter>
+                      <AlertDialogCancel>{t("cancel")}</AlertDialogCancel>
+                      <AlertDialogAction onClick={() => regenerateFeed.mutate()}>
+                        {t("feed.regenerate")}
+                      </AlertDialogAction>
+                    </AlertDialogFooter>
+                  </AlertDialogContent>
+                </AlertDialog>
+                <Button
+                  variant="ghost"
+                  className="text-destructive"
+                  disabled={revokeFeed.isPending}
+                  onClick={() => revokeFeed.mutate()}
+                >
+                  <XCircle className="mr-2 h-4 w-4" />
+                  {t("feed.revoke")}
+                </Button>
+              </div>
+            </>
+          ) : (
+            <Button
+              onClick={() => regenerateFeed.mutate()}
+              disabled={regenerateFeed.isPending}
+            >
+              {regenerateFeed.isPending ? (
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              ) : (
+                <CalendarDays className="mr-2 h-4 w-4" />
+              )}
+              {t("feed.enable")}
+            </Button>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* ICS import (reviewers only) */}
+      {data?.reviewerProfileId && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Upload className="h-5 w-5" />
+              {t("import.title")}
+            </CardTitle>
+            <CardDescription>{t("import.description")}</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <Input
+              ref={fileInputRef}
+              type="file"
+              accept=".ics,text/calendar"
+              disabled={isImporting}
+              onChange={(e) => handleFile(e.target.files?.[0])}
+            />
+
+            {slots && (
+              <>
+                <p className="text-sm">
+                  {slots.length > 0
+                    ? t("import.preview", { count: slots.length, file: fileName ?? "" })
+                    : t("import.empty")}
+                </p>
+                {slots.length > 0 && (
+                  <ul className="max-h-48 overflow-y-auto rounded-md border divide-y text-sm">
+                    {slots.map((slot, index) => (
+                      <li key={index} className="flex justify-between gap-4 px-3 py-2">
+                        <span className="truncate">
+                          {slot.title || t("import.untitled")}
+                          {slot.isRecurring && (
+                            <span className="ml-2 text-xs text-muted-foreground">
+                              {t("import.recurring")}
+                            </span>
+                          )}
+                        </span>
+                        <span className="shrink-0 text-muted-foreground">
+                          {format(slot.startDate, "PP", { locale: dateLocale })}
+                          {slot.endDate.getTime() !== slot.startDate.getTime() &&
+                            ` – ${format(slot.endDate, "PP", { locale: dateLocale })}`}
+                        </span>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+                <div className="flex gap-2">
+                  <Button
+                    onClick={handleImport}
+                    disabled={isImporting || slots.length === 0}
+                  >
+                    {isImporting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                    {t("import.submit", { count: slots.length })}
+                  </Button>
+                  <Button variant="ghost" onClick={resetImport} disabled={isImporting}>
+                    {t("cancel")}
+                  </Button>
+                </div>
+              </>
+            )}
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
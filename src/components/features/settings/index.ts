@@ -4,3 +4,4 @@ export { NotificationSettings } from "./notification-settings";
 export { SecuritySettings } from "./security-settings";
 export { OrganizationSettings } from "./organization-settings";
 export { AdminSettings } from "./admin-settings";
+export { CalendarSettings } from "./calendar-settings";
@@ -6,7 +6,8 @@
  * A Spotlight-style quick search and command interface.
  * Features:
  * - Trigger: Ctrl+K / Cmd+K
- * - Search across: Reviews, Findings, CAPs, Organizations, Best Practices
+ * - Full-text search across: Reviews, Findings, CAPs, Organizations, Best
+ *   Practices, Lessons Learned, Discussions, Documents
  * - Recent searches with localStorage persistence
  * - Quick actions and navigation
  * - Full keyboard navigation
@@ -33,6 +34,8 @@ import {
   Lightbulb,
   GraduationCap,
   Loader2,
+  BookOpen,
+  MessageSquare,
 } from "lucide-react";
 import {
   Dialog,
@@ -46,6 +49,7 @@ import { Badge } from "@/components/ui/badge";
 import { cn } from "@/lib/utils";
 import { trpc } from "@/lib/trpc/client";
 import { useDebounce } from "@/hooks/use-debounce";
+import { stripHighlight, type SearchEntityType } from "@/lib/search/full-text";
 
 // =============================================================================
 // TYPES
@@ -68,10 +72,12 @@ interface CommandItem {
 
 interface SearchResult {
   id: string;
-  type: "review" | "finding" | "cap" | "organization" | "bestPractice";
+  type: SearchEntityType;
   title: string;
   subtitle?: string;
   status?: string;
+  /** Missing on recent searches stored before full-text search */
+  href?: string;
 }
 
 interface CommandPaletteProps {
@@ -111,6 +117,9 @@ const TYPE_ICONS: Record<string, React.ReactNode> = {
   cap: <CheckSquare className="h-4 w-4" />,
   organization: <Building2 className="h-4 w-4" />,
   bestPractice: <Lightbulb className="h-4 w-4" />,
+  lesson: <BookOpen className="h-4 w-4" />,
+  discussion: <MessageSquare className="h-4 w-4" />,
+  document: <FileText className="h-4 w-4" />,
 };
 
 const TYPE_COLORS: Record<string, string> = {
@@ -119,8 +128,24 @@ const TYPE_COLORS: Record<string, string> = {
   cap: "text-green-600",
   organization: "text-purple-600",
   bestPractice: "text-cyan-600",
+  lesson: "text-indigo-600",
+  discussion: "text-pink-600",
+  document: "text-slate-600",
+};
+
+/** Paths for recent searches stored without an href */
+const LEGACY_PATHS: Partial<Record<SearchEntityType, string>> = {
+  review: "/reviews",
+  finding: "/findings",
+  cap: "/caps",
+  organization: "/organizations",
+  bestPractice: "/best-practices",
 };
 
+function resultPath(result: SearchResult): string {
+  return result.href ?? `${LEGACY_PATHS[result.type] ?? ""}/${result.id}`;
+}
+
 // =============================================================================
 // RECENT SEARCHES HOOK
 // =============================================================================
@@ -182,7 +207,7 @@ export function CommandPalette({
 
   // Search query - only runs when there's a search term
   const { data: searchResults, isLoading: isSearching } = trpc.search.global.useQuery(
-    { query: debouncedSearch, limit: 8 },
+    { query: debouncedSearch, locale: locale === "fr" ? "fr" : "en", limit: 8 },
     {
       enabled: debouncedSearch.length >= 2,
       staleTime: 30000,
@@ -338,51 +363,48 @@ export function CommandPalette({
         icon: <span className={TYPE_COLORS[result.type]}>{TYPE_ICONS[result.type]}</span>,
         category: "recent" as const,
         keywords: [result.title, result.type],
-        action: () => {
-          const paths: Record<string, string> = {
-            review: `/reviews/${result.id}`,
-            finding: `/findings/${result.id}`,
-            cap: `/caps/${result.id}`,
-            organization: `/organizations/${result.id}`,
-            bestPractice: `/best-practices/${result.id}`,
-          };
-          navigate(paths[result.type], result);
-        },
-        badge: result.type,
+        action: () => navigate(resultPath(result), result),
+        badge: t(`types.${result.type}`),
       })),
-    [recentSearches, navigate]
+    [recentSearches, navigate, t]
   );
 
   // Convert search results to command items
   const searchCommands: CommandItem[] = useMemo(() => {
     if (!searchResults?.results) return [];
 
-    return searchResults.results.map((result) => ({
-      id: `search-${result.id}`,
+    const commands: CommandItem[] = searchResults.results.map((result) => ({
+      id: `search-${result.type}-${result.id}`,
       label: result.title,
-      description: result.subtitle,
+      description: result.snippet ? stripHighlight(result.snippet) : result.subtitle,
       icon: <span className={TYPE_COLORS[result.type]}>{TYPE_ICONS[result.type]}</span>,
       category: "search" as const,
       keywords: [result.title],
-      action: () => {
-        const paths: Record<string, string> = {
-          review: `/reviews/${result.id}`,
-          finding: `/findings/${result.id}`,
-          cap: `/caps/${result.id}`,
-          organization: `/organizations/${result.id}`,
-          bestPractice: `/best-practices/${result.id}`,
-        };
-        navigate(paths[result.type], {
+      action: () =>
+        navigate(result.href, {
           id: result.id,
           type: result.type,
           title: result.title,
           subtitle: result.subtitle,
-        });
-      },
-      badge: result.type,
+          href: result.href,
+        }),
+      badge: t(`types.${result.type}`),
       badgeVariant: "secondary" as const,
     }));
-  }, [searchResults, navigate]);
+
+    if (searchResults.total > searchResults.results.length) {
+      commands.push({
+        id: "search-view-all",
+        label: t("viewAllResults", { count: searchResults.total }),
+        icon: ICONS.search,
+        category: "search",
+        keywords: [],
+        action: () => navigate(`/search?q=${encodeURIComponent(debouncedSearch)}`),
+      });
+    }
+
+    return commands;
+  }, [searchResults, navigate, t, debouncedSearch]);
 
   // All commands combined
   const allCommands = useMemo(() => {
@@ -496,10 +518,10 @@ export function CommandPalette({
 
   // Category labels
   const categoryLabels: Record<CommandCategory, string> = {
-    recent: "Recent",
+    recent: t("categories.recent"),
     action: t("categories.actions"),
     navigation: t("categories.navigation"),
-    search: "Search Results",
+    search: t("categories.searchResults"),
   };
 
   return (
@@ -532,7 +554,7 @@ export function CommandPalette({
         <ScrollArea className="max-h-[400px]">
           {allCommands.length === 0 ? (
             <div className="py-6 text-center text-sm text-muted-foreground">
-              {isSearching ? "Searching..." : t("noResults")}
+              {isSearching ? t("searching") : t("noResults")}
             </div>
           ) : (
             <div className="p-2">
@@ -562,7 +584,7 @@ export function CommandPalette({
                       onClick={clearRecentSearches}
                       className="text-xs text-muted-foreground hover:text-foreground"
                     >
-                      Clear
+                      {t("clearRecent")}
                     </button>
                   }
                 >
@@ -0,0 +1,438 @@
+"use client";
+
+/**
+ * Training Quiz Administration Component
+ *
+ * Lets programme administrators set a module's pass mark, the type of
+ * training record issued on passing and whether verified completion is
+ * required, and maintain the bilingual knowledge check questions.
+ */
+
+import { useState } from "react";
+import { useTranslations } from "next-intl";
+import { toast } from "sonner";
+import { Loader2, Pencil, Plus, Settings, Trash2 } from "lucide-react";
+import { trpc } from "@/lib/trpc/client";
+import { TrainingType } from "@/types/prisma-enums";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+interface TrainingQuizAdminProps {
+  module: {
+    id: string;
+    passMark: number;
+    trainingType: TrainingType;
+    isRequired: boolean;
+    hours: number | null;
+    topics: Array<{ id: string; titleEn: string; titleFr: string }>;
+  };
+  locale: string;
+}
+
+interface QuestionForm {
+  id?: string;
+  topicId: string | null;
+  questionEn: string;
+  questionFr: string;
+  /** One option per line */
+  optionsEn: string;
+  optionsFr: string;
+  correctOption: number;
+  explanationEn: string;
+  explanationFr: string;
+  /** Comma-separated PQ numbers */
+  relatedPQs: string;
+  sortOrder: number;
+  isActive: boolean;
+}
+
+const NO_TOPIC = "__none__";
+
+const splitLines = (value: string) =>
+  value
+    .split("\n")
+    .map((line) => line.trim())
+    .filter(Boolean);
+
+const splitList = (value: string) =>
+  value
+    .split(",")
+    .map((item) => item.trim())
+    .filter(Boolean);
+
+// =============================================================================
+// COMPONENT
+// =============================================================================
+
+export function TrainingQuizAdmin({ module, locale }: TrainingQuizAdminProps) {
+  const t = useTranslations("training.admin");
+  const tTypes = useTranslations("training.trainingTypes");
+  const utils = trpc.useUtils();
+
+  const [settings, setSettings] = useState({
+    passMark: module.passMark,
+    trainingType: module.trainingType,
+    isRequired: module.isRequired,
+    hours: module.hours,
+  });
+  const [form, setForm] = useState<QuestionForm | null>(null);
+
+  const questions = trpc.training.listQuestions.useQuery({ moduleId: module.id });
+
+  const updateSettings = trpc.training.updateModuleSettings.useMutation({
+    onSuccess: () => {
+      toast.success(t("settingsSaved"));
+      utils.training.getByCode.invalidate();
+      utils.training.getMyProgress.invalidate();
+    },
+    onError: (error) => toast.error(error.message),
+  });
+
+  const saveQuestion = trpc.training.saveQuestion.useMutation({
+    onSuccess: () => {
+      setForm(null);
+      utils.training.listQuestions.invalidate({ moduleId: module.id });
+      utils.training.getMyProgress.invalidate();
+    },
+    onError: (error) => toast.error(error.message),
+  });
+
+  const deleteQuestion = trpc.training.deleteQuestion.useMutation({
+    onSuccess: () => {
+      utils.training.listQuestions.invalidate({ moduleId: module.id });
+      utils.training.getMyProgress.invalidate();
+    },
+    onError: (error) => toast.error(error.message),
+  });
+
+  const openNew = () =>
+    setForm({
+      topicId: null,
+      questionEn: "",
+      questionFr: "",
+      optionsEn: "",
+      optionsFr: "",
+      correctOption: 0,
+      explanationEn: "",
+      explanationFr: "",
+      relatedPQs: "",
+      sortOrder: (questions.data?.length ?? 0) + 1,
+      isActive: true,
+    });
+
+  const openEdit = (question: NonNullable<typeof questions.data>[number]) =>
+    setForm({
+      id: question.id,
+      topicId: question.topicId,
+      questionEn: question.questionEn,
+      questionFr: question.questionFr,
+      optionsEn: question.optionsEn.join("\n"),
+      optionsFr: question.optionsFr.join("\n"),
+      correctOption: question.correctOption,
+      explanationEn: question.explanationEn ?? "",
+      explanationFr: question.explanationFr ?? "",
+      relatedPQs: question.relatedPQs.join(", "),
+      sortOrder: question.sortOrder,
+      isActive: question.isActive,
+    });
+
+  const submitForm = () => {
+    if (!form) return;
+    saveQuestion.mutate({
+      id: form.id,
+      moduleId: module.id,
+      topicId: form.topicId,
+      questionEn: form.questionEn,
+      questionFr: form.questionFr,
+      optionsEn: splitLines(form.optionsEn),
+      optionsFr: splitLines(form.optionsFr),
+      correctOption: form.correctOption,
+      explanationEn: form.explanationEn || null,
+      explanationFr: form.explanationFr || null,
+      relatedPQs: splitList(form.relatedPQs),
+      sortOrder: form.sortOrder,
+      isActive: form.isActive,
+    });
+  };
+
+  const formOptions = form ? splitLines(locale === "fr" ? form.optionsFr : form.optionsEn) : [];
+
+  return (
+    <Card>
+      <CardHeader className="pb-4">
+        <div className="flex items-center gap-2">
+          <Settings className="h-5 w-5 text-primary" />
+          <CardTitle className="text-lg">{t("title")}</CardTitle>
+        </div>
+        <CardDescription>{t("description")}</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {/* Module settings */}
+        <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-4 items-end">
+          <div className="space-y-2">
+            <Label>{t("passMark")}</Label>
+            <Input
+              type="number"
+              min={1}
+              max={100}
+              value={settings.passMark}
+              onChange={(e) => setSettings({ ...settings, passMark: Number(e.target.value) })}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label>{t("trainingType")}</Label>
+            <Select
+              value={settings.trainingType}
+              onValueChange={(value) =>
+                setSettings({ ...settings, trainingType: value as TrainingType })
+              }
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.values(TrainingType).map((type) => (
+                  <SelectItem key={type} value={type}>
+                    {tTypes(type)}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label>{t("hours")}</Label>
+            <Input
+              type="number"
+              min={1}
+              value={settings.hours ?? ""}
+              onChange={(e) =>
+                setSettings({ ...settings, hours: e.target.value ? Number(e.target.value) : null })
+              }
+            />
+          </div>
+          <div className="flex items-center gap-2 pb-2">
+            <Switch
+              id="training-required"
+              checked={settings.isRequired}
+              onCheckedChange={(checked) => setSettings({ ...settings, isRequired: checked })}
+            />
+            <Label htmlFor="training-required">{t("isRequired")}</Label>
+          </div>
+        </div>
+        <div className="flex justify-end">
+          <Button
+            variant="outline"
+            disabled={updateSettings.isPending}
+            onClick={() => updateSettings.mutate({ moduleId: module.id, ...settings })}
+          >
+            {updateSettings.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            {t("saveSettings")}
+          </Button>
+        </div>
+
+        {/* Questions */}
+        <div className="space-y-3 border-t pt-4">
+          <div className="flex items-center justify-between">
+            <h4 className="font-medium">
+              {t("questions")}{" "}
+              <Badge variant="secondary">{questions.data?.length ?? 0}</Badge>
+            </h4>
+            <Button size="sm" onClick={openNew}>
+              <Plus className="h-4 w-4 mr-2" />
+              {t("addQuestion")}
+            </Button>
+          </div>
+          {questions.data?.length === 0 && (
+            <p className="text-sm text-muted-foreground">{t("noQuestions")}</p>
+          )}
+          {questions.data?.map((question) => (
+            <div key={question.id} className="flex items-start gap-3 rounded-lg border p-3">
+              <div className="flex-1 min-w-0 space-y-1">
+                <p className="text-sm font-medium">
+                  {locale === "fr" ? question.questionFr : question.questionEn}
+                </p>
+                <div className="flex flex-wrap gap-1">
+                  {!question.isActive && <Badge variant="outline">{t("inactive")}</Badge>}
+                  {question.relatedPQs.map((pq) => (
+                    <Badge key={pq} variant="outline" className="text-xs font-mono">
+                      {pq}
+                    </Badge>
+                  ))}
+                </div>
+              </div>
+              <Button variant="ghost" size="icon" onClick={() => openEdit(question)}>
+                <Pencil className="h-4 w-4" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="icon"
+                disabled={deleteQuestion.isPending}
+                onClick={() => {
+                  if (confirm(t("confirmDelete"))) deleteQuestion.mutate({ id: question.id });
+                }}
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+        </div>
+      </CardContent>
+
+      {/* Question editor */}
+      <Dialog open={!!form} onOpenChange={(open) => !open && setForm(null)}>
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{form?.id ? t("editQuestion") : t("addQuestion")}</DialogTitle>
+          </DialogHeader>
+          {form && (
+            <div className="grid gap-4 sm:grid-cols-2">
+              <div className="space-y-2">
+                <Label>{t("questionEn")}</Label>
+                <Textarea
+                  value={form.questionEn}
+                  onChange={(e) => setForm({ ...form, questionEn: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>{t("questionFr")}</Label>
+                <Textarea
+                  value={form.questionFr}
+                  onChange={(e) => setForm({ ...form, questionFr: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>{t("optionsEn")}</Label>
+                <Textarea
+                  rows={4}
+                  value={form.optionsEn}
+                  onChange={(e) => setForm({ ...form, optionsEn: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>{t("optionsFr")}</Label>
+                <Textarea
+                  rows={4}
+                  value={form.optionsFr}
+                  onChange={(e) => setForm({ ...form, optionsFr: e.target.value })}
+                />
+              </div>
+              <p className="text-xs text-muted-foreground sm:col-span-2">{t("optionsHint")}</p>
+              <div className="space-y-2">
+                <Label>{t("correctOption")}</Label>
+                <Select
+                  value={form.correctOption.toString()}
+                  onValueChange={(value) => setForm({ ...form, correctOption: Number(value) })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {formOptions.map((option, index) => (
+                      <SelectItem key={index} value={index.toString()}>
+                        {index + 1}. {option}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>{t("topic")}</Label>
+                <Select
+                  value={form.topicId ?? NO_TOPIC}
+                  onValueChange={(value) =>
+                    setForm({ ...form, topicId: value === NO_TOPIC ? null : value })
+                  }
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NO_TOPIC}>{t("noTopic")}</SelectItem>
+                    {module.topics.map((topic) => (
+                      <SelectItem key={topic.id} value={topic.id}>
+                        {locale === "fr" ? topic.titleFr : topic.titleEn}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>{t("explanationEn")}</Label>
+                <Textarea
+                  value={form.explanationEn}
+                  onChange={(e) => setForm({ ...form, explanationEn: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>{t("explanationFr")}</Label>
+                <Textarea
+                  value={form.explanationFr}
+                  onChange={(e) => setForm({ ...form, explanationFr: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>{t("relatedPQs")}</Label>
+                <Input
+                  placeholder="ATM-1.2, SMS-3.1"
+                  value={form.relatedPQs}
+                  onChange={(e) => setForm({ ...form, relatedPQs: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>{t("sortOrder")}</Label>
+                <Input
+                  type="number"
+                  min={0}
+                  value={form.sortOrder}
+                  onChange={(e) => setForm({ ...form, sortOrder: Number(e.target.value) })}
+                />
+              </div>
+              <div className="flex items-center gap-2">
+                <Switch
+                  id="question-active"
+                  checked={form.isActive}
+                  onCheckedChange={(checked) => setForm({ ...form, isActive: checked })}
+                />
+                <Label htmlFor="question-active">{t("active")}</Label>
+              </div>
+            </div>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setForm(null)}>
+              {t("cancel")}
+            </Button>
+            <Button disabled={saveQuestion.isPending} onClick={submitForm}>
+              {saveQuestion.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              {t("save")}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
+
+export default TrainingQuizAdmin;
@@ -0,0 +1,290 @@
+"use client";
+
+/**
+ * Training Quiz Component
+ *
+ * Knowledge check at the end of a training module. Unlocks once every
+ * topic is completed, shows the result with the Protocol Questions to
+ * revisit, and links to the certificate issued on passing. Correct answers
+ * are shown once the check is passed; a failed attempt can be retaken after
+ * a cooldown.
+ */
+
+import { useState } from "react";
+import { useTranslations } from "next-intl";
+import { toast } from "sonner";
+import {
+  Award,
+  CheckCircle2,
+  ClipboardCheck,
+  Download,
+  Loader2,
+  Lock,
+  XCircle,
+} from "lucide-react";
+import { cn } from "@/lib/utils";
+import { trpc } from "@/lib/trpc/client";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Progress } from "@/components/ui/progress";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface TrainingModuleProgress {
+  moduleId: string;
+  passMark: number;
+  questionCount: number;
+  attemptCount: number;
+  bestScore: number | null;
+  retakeAvailableAt: Date | null;
+  topics: { completed: number; total: number; percent: number; allComplete: boolean };
+  certificate: { id: string; certificateNumber: string; issuedAt: Date } | null;
+}
+
+interface TrainingQuizProps {
+  progress: TrainingModuleProgress;
+  locale: string;
+}
+
+// =============================================================================
+// COMPONENT
+// =============================================================================
+
+export function TrainingQuiz({ progress, locale }: TrainingQuizProps) {
+  const t = useTranslations("training.quiz");
+  const utils = trpc.useUtils();
+  const [isTaking, setIsTaking] = useState(false);
+  const [answers, setAnswers] = useState<Record<string, number>>({});
+
+  const quiz = trpc.training.getQuiz.useQuery(
+    { moduleId: progress.moduleId },
+    { enabled: isTaking }
+  );
+
+  const submit = trpc.training.submitQuiz.useMutation({
+    onSuccess: (result) => {
+      setIsTaking(false);
+      utils.training.getMyProgress.invalidate();
+      if (result.passed) {
+        toast.success(t("passedToast", { score: result.score }));
+      }
+    },
+    onError: (error) => toast.error(error.message),
+  });
+
+  const result = submit.data;
+  const certificate = result?.certificate ?? progress.certificate;
+  const questions = quiz.data?.questions ?? [];
+  const answeredCount = questions.filter((q) => answers[q.id] !== undefined).length;
+  const retakeAvailableAt = result ? result.retakeAvailableAt : progress.retakeAvailableAt;
+  const isCoolingDown = !!retakeAvailableAt && new Date(retakeAvailableAt) > new Date();
+
+  const formatTime = (date: Date) =>
+    new Intl.DateTimeFormat(locale === "fr" ? "fr-FR" : "en-US", {
+      dateStyle: "medium",
+      timeStyle: "short",
+    }).format(new Date(date));
+
+  if (progress.questionCount === 0) {
+    return null;
+  }
+
+  const start = () => {
+    setAnswers({});
+    submit.reset();
+    setIsTaking(true);
+  };
+
+  return (
+    <Card>
+      <CardHeader className="pb-4">
+        <div className="flex items-center gap-2">
+          <ClipboardCheck className="h-5 w-5 text-primary" />
+          <CardTitle className="text-lg">{t("title")}</CardTitle>
+          {certificate && (
+            <Badge className="bg-green-100 text-green-800 dark:bg-green-950 dark:text-green-300">
+              {t("passed")}
+            </Badge>
+          )}
+        </div>
+        <CardDescription>
+          {t("description", { count: progress.questionCount, passMark: progress.passMark })}
+        </CardDescription>
+      </CardHeader>
+
+      <CardContent className="space-y-4">
+        {/* Summary */}
+        {!isTaking && (
+          <div className="flex flex-wrap items-center gap-4 text-sm">
+            <span className="text-muted-foreground">
+              {t("attempts", { count: progress.attemptCount })}
+            </span>
+            {progress.bestScore !== null && (
+              <span className="text-muted-foreground">
+                {t("bestScore", { score: progress.bestScore })}
+              </span>
+            )}
+          </div>
+        )}
+
+        {/* Result of the last submission */}
+        {result && !isTaking && (
+          <div
+            className={cn(
+              "rounded-lg border p-4 space-y-3",
+              result.passed
+                ? "border-green-200 bg-green-50 dark:border-green-900 dark:bg-green-950/30"
+                : "border-amber-200 bg-amber-50 dark:border-amber-900 dark:bg-amber-950/30"
+            )}
+          >
+            <div className="flex items-center gap-2 font-medium">
+              {result.passed ? (
+                <CheckCircle2 className="h-5 w-5 text-green-600" />
+              ) : (
+                <XCircle className="h-5 w-5 text-amber-600" />
+              )}
+              {result.passed
+                ? t("resultPassed", { score: result.score })
+                : t("resultFailed", { score: result.score, passMark: result.passMark })}
+            </div>
+            <p className="text-sm text-muted-foreground">
+              {t("correctCount", { correct: result.correctCount, total: result.totalQuestions })}
+            </p>
+            {!result.passed && (
+              <p className="text-sm text-muted-foreground">{t("answersHidden")}</p>
+            )}
+            {result.missedPQs.length > 0 && (
+              <div>
+                <p className="text-xs font-medium text-muted-foreground uppercase tracking-wide mb-2">
+                  {t("reviewPQs")}
+                </p>
+                <div className="flex flex-wrap gap-2">
+                  {result.missedPQs.map((pq) => (
+                    <Badge key={pq} variant="outline" className="text-xs font-mono">
+                      {pq}
+                    </Badge>
+                  ))}
+                </div>
+              </div>
+            )}
+            {result.review
+              .filter((item) => item.selectedOption !== item.correctOption)
+              .map((item) => {
+                const question = questions.find((q) => q.id === item.questionId);
+                if (!question) return null;
+                const options = locale === "fr" ? question.optionsFr : question.optionsEn;
+                const explanation = locale === "fr" ? item.explanationFr : item.explanationEn;
+                return (
+                  <div key={item.questionId} className="border-t pt-3 text-sm space-y-1">
+                    <p className="font-medium">
+                      {locale === "fr" ? question.questionFr : question.questionEn}
+                    </p>
+                    <p className="text-muted-foreground">
+                      {t("correctAnswer", { answer: options[item.correctOption] ?? "" })}
+                    </p>
+                    {explanation && <p className="text-muted-foreground">{explanation}</p>}
+                  </div>
+                );
+              })}
+          </div>
+        )}
+
+        {/* Questions */}
+        {isTaking && quiz.isLoading && (
+          <div className="flex justify-center py-6">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        )}
+        {isTaking && quiz.error && <p className="text-sm text-destructive">{quiz.error.message}</p>}
+        {isTaking && questions.length > 0 && (
+          <div className="space-y-6">
+            <Progress value={(answeredCount / questions.length) * 100} />
+            {questions.map((question, index) => {
+              const options = locale === "fr" ? question.optionsFr : question.optionsEn;
+              return (
+                <div key={question.id} className="space-y-3">
+                  <p className="font-medium">
+                    {index + 1}. {locale === "fr" ? question.questionFr : question.questionEn}
+                  </p>
+                  <RadioGroup
+                    value={answers[question.id]?.toString() ?? ""}
+                    onValueChange={(value) =>
+                      setAnswers((prev) => ({ ...prev, [question.id]: Number(value) }))
+                    }
+                  >
+                    {options.map((option, optionIndex) => (
+                      <div key={optionIndex} className="flex items-center gap-2">
+                        <RadioGroupItem
+                          value={optionIndex.toString()}
+                          id={`${question.id}-${optionIndex}`}
+                        />
+                        <Label htmlFor={`${question.id}-${optionIndex}`} className="font-normal">
+                          {option}
+                        </Label>
+                      </div>
+                    ))}
+                  </RadioGroup>
+                </div>
+              );
+            })}
+          </div>
+        )}
+
+        {/* Actions */}
+        <div className="flex flex-wrap items-center gap-2 pt-2">
+          {isTaking ? (
+            <>
+              <Button
+                disabled={submit.isPending || answeredCount < questions.length}
+                onClick={() => submit.mutate({ moduleId: progress.moduleId, answers })}
+              >
+                {submit.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                {t("submit", { answered: answeredCount, total: questions.length })}
+              </Button>
+              <Button variant="ghost" onClick={() => setIsTaking(false)}>
+                {t("cancel")}
+              </Button>
+            </>
+          ) : progress.topics.allComplete ? (
+            <>
+              <Button
+                variant={certificate ? "outline" : "default"}
+                disabled={isCoolingDown}
+                onClick={start}
+              >
+                {progress.attemptCount > 0 ? t("retake") : t("start")}
+              </Button>
+              {isCoolingDown && retakeAvailableAt && (
+                <p className="text-sm text-muted-foreground">
+                  {t("retakeAvailable", { time: formatTime(retakeAvailableAt) })}
+                </p>
+              )}
+            </>
+          ) : (
+            <p className="flex items-center gap-2 text-sm text-muted-foreground">
+              <Lock className="h-4 w-4" />
+              {t("locked", { completed: progress.topics.completed, total: progress.topics.total })}
+            </p>
+          )}
+
+          {certificate && !isTaking && (
+            <Button asChild variant="outline">
+              <a href={`/api/training/certificates/${certificate.id}?locale=${locale}`}>
+                <Award className="h-4 w-4 mr-2" />
+                {t("downloadCertificate")}
+                <Download className="h-4 w-4 ml-2" />
+              </a>
+            </Button>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+export default TrainingQuiz;
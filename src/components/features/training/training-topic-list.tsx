@@ -5,6 +5,7 @@
  *
  * Displays a list of training topics with expandable content.
  * Each topic shows title, description, and related protocol questions.
+ * Signed-in users can mark topics as completed.
  */
 
 import { useState } from "react";
@@ -21,10 +22,12 @@ import {
   Presentation,
   ClipboardList,
   File,
+  CheckCircle2,
 } from "lucide-react";
 import { cn } from "@/lib/utils";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
 import {
   Collapsible,
   CollapsibleContent,
@@ -61,6 +64,10 @@ interface TrainingTopicListProps {
   topics: TrainingTopic[];
   locale: string;
   className?: string;
+  /** Topics the current user has completed; omit to hide completion tracking */
+  completedTopicIds?: string[];
+  onToggleComplete?: (topicId: string, completed: boolean) => void;
+  isUpdating?: boolean;
 }
 
 interface TrainingResourceGridProps {
@@ -100,9 +107,20 @@ interface TopicItemProps {
   locale: string;
   index: number;
   defaultOpen?: boolean;
+  isCompleted?: boolean;
+  onToggleComplete?: (topicId: string, completed: boolean) => void;
+  isUpdating?: boolean;
 }
 
-function TopicItem({ topic, locale, index, defaultOpen = false }: TopicItemProps) {
+function TopicItem({
+  topic,
+  locale,
+  index,
+  defaultOpen = false,
+  isCompleted = false,
+  onToggleComplete,
+  isUpdating,
+}: TopicItemProps) {
   const t = useTranslations("training");
   const [isOpen, setIsOpen] = useState(defaultOpen);
 
@@ -119,9 +137,13 @@ function TopicItem({ topic, locale, index, defaultOpen = false }: TopicItemProps
       >
         <CollapsibleTrigger asChild>
           <button className="flex items-start gap-4 w-full p-4 text-left">
-            <div className="flex items-center justify-center h-8 w-8 rounded-full bg-primary/10 text-primary font-semibold text-sm shrink-0 mt-0.5">
-              {index + 1}
-            </div>
+            {isCompleted ? (
+              <CheckCircle2 className="h-8 w-8 text-green-600 shrink-0 mt-0.5" />
+            ) : (
+              <div className="flex items-center justify-center h-8 w-8 rounded-full bg-primary/10 text-primary font-semibold text-sm shrink-0 mt-0.5">
+                {index + 1}
+              </div>
+            )}
             <div className="flex-1 min-w-0">
               <h4 className="font-medium text-base">{title}</h4>
               {!isOpen && content && (
@@ -168,6 +190,21 @@ function TopicItem({ topic, locale, index, defaultOpen = false }: TopicItemProps
                   </div>
                 </div>
               )}
+
+              {/* Completion */}
+              {onToggleComplete && (
+                <div className="mt-4 pt-4 border-t">
+                  <Button
+                    size="sm"
+                    variant={isCompleted ? "outline" : "default"}
+                    disabled={isUpdating}
+                    onClick={() => onToggleComplete(topic.id, !isCompleted)}
+                  >
+                    <CheckCircle2 className="h-4 w-4 mr-2" />
+                    {isCompleted ? t("progress.markIncomplete") : t("progress.markComplete")}
+                  </Button>
+                </div>
+              )}
             </div>
           </div>
         </CollapsibleContent>
@@ -184,6 +221,9 @@ export function TrainingTopicList({
   topics,
   locale,
   className,
+  completedTopicIds,
+  onToggleComplete,
+  isUpdating,
 }: TrainingTopicListProps) {
   const t = useTranslations("training");
 
@@ -204,7 +244,14 @@ export function TrainingTopicList({
         <div className="flex items-center gap-2">
           <BookOpen className="h-5 w-5 text-primary" />
           <CardTitle className="text-lg">{t("topicsTitle")}</CardTitle>
-          <Badge variant="secondary">{topics.length}</Badge>
+          <Badge variant="secondary">
+            {completedTopicIds
+              ? t("progress.topicsCompleted", {
+                  completed: topics.filter((topic) => completedTopicIds.includes(topic.id)).length,
+                  total: topics.length,
+                })
+              : topics.length}
+          </Badge>
         </div>
       </CardHeader>
       <CardContent className="pt-0">
@@ -218,6 +265,9 @@ export function TrainingTopicList({
                 locale={locale}
                 index={index}
                 defaultOpen={index === 0}
+                isCompleted={completedTopicIds?.includes(topic.id)}
+                onToggleComplete={onToggleComplete}
+                isUpdating={isUpdating}
               />
             ))}
         </div>
@@ -0,0 +1,247 @@
+"use client";
+
+import { useState } from "react";
+import { useTranslations } from "next-intl";
+import { Loader2, Pencil, Plus, Search, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+import { trpc } from "@/lib/trpc/client";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Switch } from "@/components/ui/switch";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Textarea } from "@/components/ui/textarea";
+
+interface TermForm {
+  id?: string;
+  termEn: string;
+  termFr: string;
+  notes: string;
+}
+
+const EMPTY_FORM: TermForm = { termEn: "", termFr: "", notes: "" };
+
+export function GlossaryManager() {
+  const t = useTranslations("translation.glossary");
+  const tCommon = useTranslations("common");
+  const utils = trpc.useUtils();
+
+  const [search, setSearch] = useState("");
+  const [form, setForm] = useState<TermForm | null>(null);
+
+  const { data: terms, isLoading } = trpc.translation.listGlossary.useQuery({
+    search: search || undefined,
+    includeInactive: true,
+  });
+
+  const onSaved = () => {
+    setForm(null);
+    utils.translation.listGlossary.invalidate();
+  };
+
+  const createMutation = trpc.translation.createGlossaryTerm.useMutation({
+    onSuccess: () => {
+      toast.success(t("termAdded"));
+      onSaved();
+    },
+    onError: (error) => toast.error(error.message),
+  });
+
+  const updateMutation = trpc.translation.updateGlossaryTerm.useMutation({
+    onSuccess: onSaved,
+    onError: (error) => toast.error(error.message),
+  });
+
+  const deleteMutation = trpc.translation.deleteGlossaryTerm.useMutation({
+    onSuccess: () => {
+      toast.success(t("termDeleted"));
+      utils.translation.listGlossary.invalidate();
+    },
+    onError: (error) => toast.error(error.message),
+  });
+
+  const handleSubmit = () => {
+    if (!form) return;
+    const data = {
+      termEn: form.termEn,
+      termFr: form.termFr,
+      notes: form.notes.trim() || null,
+    };
+    if (form.id) {
+      updateMutation.mutate({ id: form.id, ...data });
+    } else {
+      createMutation.mutate(data);
+    }
+  };
+
+  const isSaving = createMutation.isPending || updateMutation.isPending;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between gap-4">
+        <div className="relative max-w-sm flex-1">
+          <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+          <Input
+            placeholder={t("search")}
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            className="pl-9"
+          />
+        </div>
+        <Button onClick={() => setForm(EMPTY_FORM)}>
+          <Plus className="mr-2 h-4 w-4" />
+          {t("addTerm")}
+        </Button>
+      </div>
+
+      <Card>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>{t("termEn")}</TableHead>
+              <TableHead>{t("termFr")}</TableHead>
+              <TableHead>{t("notes")}</TableHead>
+              <TableHead>{t("active")}</TableHead>
+              <TableHead className="text-right">{tCommon("actions")}</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {isLoading ? (
+              Array.from({ length: 5 }).map((_, i) => (
+                <TableRow key={i}>
+                  {Array.from({ length: 5 }).map((_, j) => (
+                    <TableCell key={j}>
+                      <Skeleton className="h-5 w-full" />
+                    </TableCell>
+                  ))}
+                </TableRow>
+              ))
+            ) : terms?.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={5} className="py-8 text-center text-muted-foreground">
+                  {t("empty")}
+                </TableCell>
+              </TableRow>
+            ) : (
+              terms?.map((term) => (
+                <TableRow key={term.id}>
+                  <TableCell className="font-medium">{term.termEn}</TableCell>
+                  <TableCell>{term.termFr}</TableCell>
+                  <TableCell className="max-w-xs truncate text-sm text-muted-foreground">
+                    {term.notes ?? "—"}
+                  </TableCell>
+                  <TableCell>
+                    <Switch
+                      checked={term.isActive}
+                      disabled={updateMutation.isPending}
+                      onCheckedChange={(isActive) =>
+                        updateMutation.mutate({ id: term.id, isActive })
+                      }
+                      aria-label={t("active")}
+                    />
+                  </TableCell>
+                  <TableCell className="text-right">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() =>
+                        setForm({
+                          id: term.id,
+                          termEn: term.termEn,
+                          termFr: term.termFr,
+                          notes: term.notes ?? "",
+                        })
+                      }
+                    >
+                      <Pencil className="h-4 w-4" />
+                      <span className="sr-only">{tCommon("edit")}</span>
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="text-destructive"
+                      disabled={deleteMutation.isPending}
+                      onClick={() => {
+                        if (confirm(t("deleteConfirm", { term: term.termEn }))) {
+                          deleteMutation.mutate({ id: term.id });
+                        }
+                      }}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                      <span className="sr-only">{t("delete")}</span>
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))
+            )}
+          </TableBody>
+        </Table>
+      </Card>
+
+      <Dialog open={!!form} onOpenChange={(open) => !open && setForm(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{form?.id ? t("editTerm") : t("addTerm")}</DialogTitle>
+          </DialogHeader>
+          {form && (
+            <div className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="glossary-term-en">{t("termEn")}</Label>
+                <Input
+                  id="glossary-term-en"
+                  value={form.termEn}
+                  onChange={(e) => setForm({ ...form, termEn: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="glossary-term-fr">{t("termFr")}</Label>
+                <Input
+                  id="glossary-term-fr"
+                  value={form.termFr}
+                  onChange={(e) => setForm({ ...form, termFr: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="glossary-notes">{t("notes")}</Label>
+                <Textarea
+                  id="glossary-notes"
+                  value={form.notes}
+                  onChange={(e) => setForm({ ...form, notes: e.target.value })}
+                  rows={3}
+                />
+              </div>
+            </div>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setForm(null)}>
+              {tCommon("cancel")}
+            </Button>
+            <Button
+              onClick={handleSubmit}
+              disabled={isSaving || !form?.termEn.trim() || !form?.termFr.trim()}
+            >
+              {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              {tCommon("save")}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,36 @@
+"use client";
+
+import { useTranslations } from "next-intl";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { GlossaryManager } from "./glossary-manager";
+import { TranslationReviewQueue } from "./translation-review-queue";
+
+interface TranslationAdminClientProps {
+  locale: string;
+}
+
+export function TranslationAdminClient({ locale }: TranslationAdminClientProps) {
+  const t = useTranslations("admin.translations");
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-2xl font-bold">{t("title")}</h1>
+        <p className="text-muted-foreground">{t("description")}</p>
+      </div>
+
+      <Tabs defaultValue="queue">
+        <TabsList>
+          <TabsTrigger value="queue">{t("tabs.queue")}</TabsTrigger>
+          <TabsTrigger value="glossary">{t("tabs.glossary")}</TabsTrigger>
+        </TabsList>
+        <TabsContent value="queue" className="mt-4">
+          <TranslationReviewQueue locale={locale} />
+        </TabsContent>
+        <TabsContent value="glossary" className="mt-4">
+          <GlossaryManager />
+        </TabsContent>
+      </Tabs>
+    </div>
+  );
+}
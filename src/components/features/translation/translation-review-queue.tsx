@@ -0,0 +1,296 @@
+"use client";
+
+import { useState } from "react";
+import { useTranslations } from "next-intl";
+import { format } from "date-fns";
+import { AlertTriangle, Check, Loader2, Pencil, RefreshCw, X } from "lucide-react";
+import { toast } from "sonner";
+import { trpc } from "@/lib/trpc/client";
+import type { TranslationReviewStatus } from "@/types/prisma-enums";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Textarea } from "@/components/ui/textarea";
+
+const STATUS_VARIANTS: Record<TranslationReviewStatus, "default" | "secondary" | "outline"> = {
+  PENDING: "outline",
+  APPROVED: "secondary",
+  CORRECTED: "default",
+};
+
+interface TranslationReviewQueueProps {
+  locale: string;
+}
+
+export function TranslationReviewQueue({ locale }: TranslationReviewQueueProps) {
+  const t = useTranslations("translation.review");
+  const tCommon = useTranslations("common");
+  const utils = trpc.useUtils();
+
+  const [page, setPage] = useState(1);
+  const [status, setStatus] = useState<TranslationReviewStatus | "all">("PENDING");
+  const [reviewId, setReviewId] = useState("");
+  const [editing, setEditing] = useState<{ id: string; text: string } | null>(null);
+
+  const { data, isLoading } = trpc.translation.reviewQueue.useQuery({
+    page,
+    pageSize: 20,
+    status: status === "all" ? undefined : status,
+    reviewId: reviewId || undefined,
+  });
+
+  const { data: reviews } = trpc.review.list.useQuery({ pageSize: 100 });
+
+  const onResolved = () => {
+    setEditing(null);
+    utils.translation.reviewQueue.invalidate();
+  };
+
+  const approveMutation = trpc.translation.approveTranslation.useMutation({
+    onSuccess: () => {
+      toast.success(t("approved"));
+      onResolved();
+    },
+    onError: (error) => toast.error(error.message),
+  });
+
+  const correctMutation = trpc.translation.correctTranslation.useMutation({
+    onSuccess: () => {
+      toast.success(t("corrected"));
+      onResolved();
+    },
+    onError: (error) => toast.error(error.message),
+  });
+
+  const scanMutation = trpc.translation.scanReview.useMutation({
+    onSuccess: ({ pending }) => {
+      toast.success(t("scanComplete", { count: pending }));
+      utils.translation.reviewQueue.invalidate();
+    },
+    onError: (error) => toast.error(error.message),
+  });
+
+  const isMutating = approveMutation.isPending || correctMutation.isPending;
+
+  return (
+    <div className="space-y-4">
+      {/* Filters */}
+      <div className="flex flex-wrap items-center gap-4">
+        <Select
+          value={status}
+          onValueChange={(v) => {
+            setStatus(v as TranslationReviewStatus | "all");
+            setPage(1);
+          }}
+        >
+          <SelectTrigger className="w-[180px]">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">{t("allStatuses")}</SelectItem>
+            <SelectItem value="PENDING">{t("status.PENDING")}</SelectItem>
+            <SelectItem value="APPROVED">{t("status.APPROVED")}</SelectItem>
+            <SelectItem value="CORRECTED">{t("status.CORRECTED")}</SelectItem>
+          </SelectContent>
+        </Select>
+        <Select
+          value={reviewId || "all"}
+          onValueChange={(v) => {
+            setReviewId(v === "all" ? "" : v);
+            setPage(1);
+          }}
+        >
+          <SelectTrigger className="w-[260px]">
+            <SelectValue placeholder={t("filterByReview")} />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">{t("allReviews")}</SelectItem>
+            {reviews?.items.map((review) => (
+              <SelectItem key={review.id} value={review.id}>
+                {review.referenceNumber} —{" "}
+                {locale === "fr" ? review.hostOrganization.nameFr : review.hostOrganization.nameEn}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        {reviewId && (
+          <Button
+            variant="outline"
+            size="sm"
+            disabled={scanMutation.isPending}
+            onClick={() => scanMutation.mutate({ reviewId })}
+          >
+            {scanMutation.isPending ? (
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            ) : (
+              <RefreshCw className="mr-2 h-4 w-4" />
+            )}
+            {t("scanReview")}
+          </Button>
+        )}
+      </div>
+
+      {/* Queue */}
+      {isLoading ? (
+        Array.from({ length: 3 }).map((_, i) => <Skeleton key={i} className="h-40 w-full" />)
+      ) : data?.items.length === 0 ? (
+        <Card>
+          <CardContent className="py-8 text-center text-muted-foreground">
+            {t("empty")}
+          </CardContent>
+        </Card>
+      ) : (
+        data?.items.map((item) => (
+          <Card key={item.id}>
+            <CardContent className="space-y-3 pt-6">
+              <div className="flex flex-wrap items-center justify-between gap-2">
+                <div className="flex items-center gap-2 text-sm">
+                  <span className="font-medium">
+                    {item.findingReference ?? t("unknownFinding")}
+                  </span>
+                  <span className="text-muted-foreground">
+                    {item.review?.referenceNumber} · {t(`fields.${item.fieldName}`)}
+                  </span>
+                  {item.provider && <Badge variant="outline">{item.provider}</Badge>}
+                </div>
+                <Badge variant={STATUS_VARIANTS[item.status]}>{t(`status.${item.status}`)}</Badge>
+              </div>
+
+              <div className="grid gap-3 md:grid-cols-2">
+                <div>
+                  <p className="mb-1 text-xs font-medium uppercase text-muted-foreground">
+                    {t("source")}
+                  </p>
+                  <p className="whitespace-pre-wrap rounded-md bg-muted p-3 text-sm">
+                    {item.sourceText}
+                  </p>
+                </div>
+                <div>
+                  <p className="mb-1 text-xs font-medium uppercase text-muted-foreground">
+                    {item.status === "PENDING" ? t("machine") : t("published")}
+                  </p>
+                  {editing?.id === item.id ? (
+                    <Textarea
+                      value={editing.text}
+                      onChange={(e) => setEditing({ id: item.id, text: e.target.value })}
+                      rows={5}
+                      autoFocus
+                    />
+                  ) : (
+                    <p className="whitespace-pre-wrap rounded-md border p-3 text-sm">
+                      {item.finalText ?? item.machineText}
+                    </p>
+                  )}
+                </div>
+              </div>
+
+              {item.glossaryViolations.length > 0 && (
+                <div className="flex items-start gap-2 rounded-md border border-amber-300 bg-amber-50 p-3 text-sm text-amber-900 dark:bg-amber-950 dark:text-amber-200">
+                  <AlertTriangle className="mt-0.5 h-4 w-4 shrink-0" />
+                  <div>
+                    <p className="font-medium">{t("glossaryViolations")}</p>
+                    <ul className="list-inside list-disc">
+                      {item.glossaryViolations.map((v) => (
+                        <li key={v.source}>
+                          {v.source} → <strong>{v.target}</strong>
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                </div>
+              )}
+
+              {item.status === "PENDING" ? (
+                <div className="flex justify-end gap-2">
+                  {editing?.id === item.id ? (
+                    <>
+                      <Button variant="ghost" size="sm" onClick={() => setEditing(null)}>
+                        <X className="mr-2 h-4 w-4" />
+                        {tCommon("cancel")}
+                      </Button>
+                      <Button
+                        size="sm"
+                        disabled={isMutating || !editing.text.trim()}
+                        onClick={() =>
+                          correctMutation.mutate({ id: item.id, correctedText: editing.text })
+                        }
+                      >
+                        {correctMutation.isPending && (
+                          <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                        )}
+                        {t("saveCorrection")}
+                      </Button>
+                    </>
+                  ) : (
+                    <>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        disabled={isMutating}
+                        onClick={() => setEditing({ id: item.id, text: item.machineText })}
+                      >
+                        <Pencil className="mr-2 h-4 w-4" />
+                        {t("correct")}
+                      </Button>
+                      <Button
+                        size="sm"
+                        disabled={isMutating}
+                        onClick={() => approveMutation.mutate({ id: item.id })}
+                      >
+                        <Check className="mr-2 h-4 w-4" />
+                        {t("approve")}
+                      </Button>
+                    </>
+                  )}
+                </div>
+              ) : (
+                item.reviewedBy &&
+                item.reviewedAt && (
+                  <p className="text-right text-xs text-muted-foreground">
+                    {t("reviewedBy", {
+                      name: `${item.reviewedBy.firstName} ${item.reviewedBy.lastName}`,
+                      date: format(new Date(item.reviewedAt), "yyyy-MM-dd HH:mm"),
+                    })}
+                  </p>
+                )
+              )}
+            </CardContent>
+          </Card>
+        ))
+      )}
+
+      {/* Pagination */}
+      {data && data.totalPages > 1 && (
+        <div className="flex justify-center gap-2">
+          <Button
+            variant="outline"
+            size="sm"
+            disabled={page === 1}
+            onClick={() => setPage((p) => p - 1)}
+          >
+            {t("previous")}
+          </Button>
+          <span className="flex items-center px-4 text-sm text-muted-foreground">
+            {page} / {data.totalPages}
+          </span>
+          <Button
+            variant="outline"
+            size="sm"
+            disabled={page >= data.totalPages}
+            onClick={() => setPage((p) => p + 1)}
+          >
+            {t("next")}
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -16,6 +16,7 @@ interface ApproachingDeadline {
   entityId: string;
   stateCode: string;
   dueAt: Date | string;
+  originalDueAt?: Date | string | null;
   daysRemaining: number;
 }
 
@@ -112,6 +113,14 @@ export function ApproachingDeadlines({ deadlines }: ApproachingDeadlinesProps) {
                     addSuffix: true,
                     locale: dateLocale,
                   })}
+                  {deadline.originalDueAt && (
+                    <span>
+                      {" · "}
+                      {t("originallyDue", {
+                        date: new Date(deadline.originalDueAt).toLocaleDateString(locale),
+                      })}
+                    </span>
+                  )}
                 </div>
               </div>
               <div className="flex items-center gap-2">
@@ -3,3 +3,5 @@ export { ApproachingDeadlines } from "./approaching-deadlines";
 export { WorkflowTransitionButtons } from "./workflow-transition-buttons";
 export { WorkflowHistory } from "./workflow-history";
 export { SLAIndicator } from "./sla-indicator";
+export { WorkflowDesigner } from "./workflow-designer";
+export { WorkflowConditionBuilder } from "./workflow-condition-builder";
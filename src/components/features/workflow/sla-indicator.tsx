@@ -73,6 +73,15 @@ export function SLAIndicator({ entityType, entityId }: SLAIndicatorProps) {
             <div>
               {t("target")}: {sla.targetDays} {t("days")}
             </div>
+            {sla.originalDueAt && (
+              <div>
+                {t("dueOn", { date: new Date(sla.dueAt).toLocaleDateString() })}
+                {" · "}
+                {t("originallyDue", {
+                  date: new Date(sla.originalDueAt).toLocaleDateString(),
+                })}
+              </div>
+            )}
             {sla.percentComplete !== undefined && (
               <div>
                 {t("progress")}: {sla.percentComplete}%
@@ -0,0 +1,369 @@
+"use client";
+
+/**
+ * Workflow Condition Builder
+ *
+ * Edits a transition's conditions as nested AND/OR groups of field
+ * comparisons. Fields and operators are limited to what the
+ * ConditionEvaluator can read for the workflow's entity type.
+ */
+
+import { useTranslations } from "next-intl";
+import { ListPlus, Plus, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  CONDITION_FIELDS,
+  OPERATORS_BY_TYPE,
+  isConditionGroup,
+  type ConditionField,
+} from "@/lib/workflow/definition";
+import type { WorkflowEntityType } from "@/types/prisma-enums";
+import type {
+  Condition,
+  ConditionGroup,
+  ConditionOperator,
+  TransitionConditions,
+} from "@/types/workflow";
+
+type Rule = Condition | ConditionGroup;
+
+const LIST_OPERATORS: ConditionOperator[] = ["in", "nin"];
+
+/** Value a condition gets when its field or operator changes */
+function defaultValue(field: ConditionField | undefined, operator: ConditionOperator): unknown {
+  if (operator === "exists") return true;
+  if (LIST_OPERATORS.includes(operator)) return [];
+  if (field?.type === "number") return 0;
+  if (field?.type === "boolean") return true;
+  return field?.options?.[0] ?? "";
+}
+
+function ConditionValueInput({
+  field,
+  condition,
+  disabled,
+  onChange,
+}: {
+  field: ConditionField | undefined;
+  condition: Condition;
+  disabled: boolean;
+  onChange: (value: unknown) => void;
+}) {
+  const t = useTranslations("admin.workflows.conditions");
+  const { operator, value } = condition;
+
+  if (operator === "exists" || field?.type === "boolean") {
+    return (
+      <Select
+        value={String(value === true)}
+        disabled={disabled}
+        onValueChange={(v) => onChange(v === "true")}
+      >
+        <SelectTrigger className="h-8 w-40">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value="true">{operator === "exists" ? t("present") : t("true")}</SelectItem>
+          <SelectItem value="false">{operator === "exists" ? t("absent") : t("false")}</SelectItem>
+        </SelectContent>
+      </Select>
+    );
+  }
+
+  if (LIST_OPERATORS.includes(operator)) {
+    const list = Array.isArray(value) ? value.map(String) : [];
+    return (
+      <Input
+        className="h-8 flex-1"
+        value={list.join(", ")}
+        placeholder={field?.options ? field.options.slice(0, 3).join(", ") : t("listPlaceholder")}
+        disabled={disabled}
+        onChange={(e) =>
+          onChange(
+            e.target.value
+              .split(",")
+              .map((v) => v.trim())
+              .filter(Boolean)
+              .map((v) => (field?.type === "number" ? Number(v) : v))
+          )
+        }
+      />
+    );
+  }
+
+  if (field?.type === "number") {
+    return (
+      <Input
+        type="number"
+        className="h-8 w-32"
+        value={typeof value === "number" ? value : ""}
+        disabled={disabled}
+        onChange={(e) => onChange(e.target.value === "" ? 0 : Number(e.target.value))}
+      />
+    );
+  }
+
+  if (field?.options && operator !== "regex") {
+    return (
+      <Select value={String(value ?? "")} disabled={disabled} onValueChange={onChange}>
+        <SelectTrigger className="h-8 flex-1">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {field.options.map((option) => (
+            <SelectItem key={option} value={option}>
+              {option}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    );
+  }
+
+  return (
+    <Input
+      className="h-8 flex-1"
+      value={String(value ?? "")}
+      disabled={disabled}
+      onChange={(e) => onChange(e.target.value)}
+    />
+  );
+}
+
+function ConditionRow({
+  fields,
+  condition,
+  disabled,
+  onChange,
+  onRemove,
+}: {
+  fields: ConditionField[];
+  condition: Condition;
+  disabled: boolean;
+  onChange: (condition: Condition) => void;
+  onRemove: () => void;
+}) {
+  const t = useTranslations("admin.workflows.conditions");
+  const field = fields.find((f) => f.field === condition.field);
+  const operators = OPERATORS_BY_TYPE[field?.type ?? "string"];
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <Select
+        value={condition.field}
+        disabled={disabled}
+        onValueChange={(name) => {
+          const next = fields.find((f) => f.field === name);
+          const operator = OPERATORS_BY_TYPE[next?.type ?? "string"].includes(condition.operator)
+            ? condition.operator
+            : "eq";
+          onChange({ field: name, operator, value: defaultValue(next, operator) });
+        }}
+      >
+        <SelectTrigger className="h-8 w-56">
+          <SelectValue placeholder={t("field")} />
+        </SelectTrigger>
+        <SelectContent>
+          {!field && condition.field && (
+            <SelectItem value={condition.field}>{condition.field}</SelectItem>
+          )}
+          {fields.map((f) => (
+            <SelectItem key={f.field} value={f.field}>
+              {f.field}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <Select
+        value={condition.operator}
+        disabled={disabled}
+        onValueChange={(operator) =>
+          onChange({
+            ...condition,
+            operator: operator as ConditionOperator,
+            value: defaultValue(field, operator as ConditionOperator),
+          })
+        }
+      >
+        <SelectTrigger className="h-8 w-36">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {operators.map((operator) => (
+            <SelectItem key={operator} value={operator}>
+              {t(`operators.${operator}`)}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <ConditionValueInput
+        field={field}
+        condition={condition}
+        disabled={disabled}
+        onChange={(value) => onChange({ ...condition, value })}
+      />
+      {!disabled && (
+        <Button variant="ghost" size="sm" onClick={onRemove}>
+          <Trash2 className="h-4 w-4" />
+          <span className="sr-only">{t("remove")}</span>
+        </Button>
+      )}
+    </div>
+  );
+}
+
+function RuleList({
+  fields,
+  logic,
+  rules,
+  disabled,
+  onChange,
+  onRemove,
+}: {
+  fields: ConditionField[];
+  logic: "AND" | "OR";
+  rules: Rule[];
+  disabled: boolean;
+  onChange: (logic: "AND" | "OR", rules: Rule[]) => void;
+  onRemove?: () => void;
+}) {
+  const t = useTranslations("admin.workflows.conditions");
+
+  const setRule = (index: number, rule: Rule) =>
+    onChange(logic, rules.map((r, i) => (i === index ? rule : r)));
+  const removeRule = (index: number) => onChange(logic, rules.filter((_, i) => i !== index));
+  const newCondition = (): Condition => {
+    const field = fields[0];
+    return { field: field?.field ?? "", operator: "eq", value: defaultValue(field, "eq") };
+  };
+
+  return (
+    <div className="space-y-2 rounded-md border p-3">
+      <div className="flex items-center gap-2">
+        <Select
+          value={logic}
+          disabled={disabled}
+          onValueChange={(v) => onChange(v as "AND" | "OR", rules)}
+        >
+          <SelectTrigger className="h-8 w-48">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="AND">{t("all")}</SelectItem>
+            <SelectItem value="OR">{t("any")}</SelectItem>
+          </SelectContent>
+        </Select>
+        {onRemove && !disabled && (
+          <Button variant="ghost" size="sm" className="ml-auto" onClick={onRemove}>
+            <Trash2 className="h-4 w-4" />
+            <span className="sr-only">{t("removeGroup")}</span>
+          </Button>
+        )}
+      </div>
+
+      {rules.map((rule, index) =>
+        isConditionGroup(rule) ? (
+          <div key={index} className="pl-4">
+            <RuleList
+              fields={fields}
+              logic={rule.logic}
+              rules={rule.conditions}
+              disabled={disabled}
+              onChange={(groupLogic, conditions) =>
+                setRule(index, { logic: groupLogic, conditions })
+              }
+              onRemove={() => removeRule(index)}
+            />
+          </div>
+        ) : (
+          <ConditionRow
+            key={index}
+            fields={fields}
+            condition={rule}
+            disabled={disabled}
+            onChange={(condition) => setRule(index, condition)}
+            onRemove={() => removeRule(index)}
+          />
+        )
+      )}
+
+      {!disabled && (
+        <div className="flex gap-2">
+          <Button variant="outline" size="sm" onClick={() => onChange(logic, [...rules, newCondition()])}>
+            <Plus className="mr-2 h-4 w-4" />
+            {t("addCondition")}
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() =>
+              onChange(logic, [...rules, { logic: logic === "AND" ? "OR" : "AND", conditions: [newCondition()] }])
+            }
+          >
+            <ListPlus className="mr-2 h-4 w-4" />
+            {t("addGroup")}
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
+
+interface WorkflowConditionBuilderProps {
+  entityType: WorkflowEntityType;
+  value: TransitionConditions | null;
+  disabled?: boolean;
+  onChange: (value: TransitionConditions | null) => void;
+}
+
+export function WorkflowConditionBuilder({
+  entityType,
+  value,
+  disabled = false,
+  onChange,
+}: WorkflowConditionBuilderProps) {
+  const t = useTranslations("admin.workflows.conditions");
+  const fields = CONDITION_FIELDS[entityType];
+
+  if (!value || value.rules.length === 0) {
+    return (
+      <div className="flex items-center gap-3">
+        <p className="text-sm text-muted-foreground">{t("none")}</p>
+        {!disabled && (
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() =>
+              onChange({
+                logic: "AND",
+                rules: [{ field: fields[0].field, operator: "eq", value: defaultValue(fields[0], "eq") }],
+              })
+            }
+          >
+            <Plus className="mr-2 h-4 w-4" />
+            {t("addCondition")}
+          </Button>
+        )}
+      </div>
+    );
+  }
+
+  return (
+    <RuleList
+      fields={fields}
+      logic={value.logic ?? "AND"}
+      rules={value.rules}
+      disabled={disabled}
+      onChange={(logic, rules) => onChange(rules.length > 0 ? { logic, rules } : null)}
+      onRemove={() => onChange(null)}
+    />
+  );
+}
@@ -0,0 +1,430 @@
+"use client";
+
+/**
+ * Workflow Designer Admin
+ *
+ * Lists workflows with their published and draft versions and opens a
+ * version in the designer. Publishing a draft archives the previous
+ * version; executions already running stay on the version they started with.
+ */
+
+import { useMemo, useState } from "react";
+import { useTranslations } from "next-intl";
+import { Copy, History, Loader2, Pencil, Plus, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+import { trpc } from "@/lib/trpc/client";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { WORKFLOW_CODE_PATTERN } from "@/lib/workflow/definition";
+import { WorkflowEntityType, type WorkflowDefinitionStatus } from "@/types/prisma-enums";
+import { WorkflowDesigner } from "./workflow-designer";
+
+const STATUS_VARIANTS: Record<WorkflowDefinitionStatus, "default" | "secondary" | "outline"> = {
+  PUBLISHED: "default",
+  DRAFT: "secondary",
+  ARCHIVED: "outline",
+};
+
+interface NewWorkflowForm {
+  code: string;
+  nameEn: string;
+  nameFr: string;
+  entityType: WorkflowEntityType;
+}
+
+function formatDate(date: Date | string, locale: string): string {
+  return new Intl.DateTimeFormat(locale === "fr" ? "fr-FR" : "en-US", {
+    dateStyle: "medium",
+  }).format(new Date(date));
+}
+
+export function WorkflowDesignerAdminClient({ locale }: { locale: string }) {
+  const t = useTranslations("admin.workflows");
+  const tCommon = useTranslations("common");
+  const utils = trpc.useUtils();
+
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [historyId, setHistoryId] = useState<string | null>(null);
+  const [newForm, setNewForm] = useState<NewWorkflowForm | null>(null);
+
+  const { data: definitions, isLoading } = trpc.workflow.listDefinitions.useQuery({
+    includeInactive: true,
+  });
+  const { data: versions } = trpc.workflow.listVersions.useQuery(
+    { id: historyId ?? "" },
+    { enabled: !!historyId }
+  );
+
+  // One row per workflow: its published version and its open draft
+  const workflows = useMemo(() => {
+    const families = new Map<string, NonNullable<typeof definitions>>();
+    for (const definition of definitions ?? []) {
+      const familyId = definition.versionOfId ?? definition.id;
+      families.set(familyId, [...(families.get(familyId) ?? []), definition]);
+    }
+    return [...families.entries()].map(([familyId, family]) => {
+      const sorted = [...family].sort((a, b) => b.version - a.version);
+      return {
+        familyId,
+        latest: sorted[0],
+        published: sorted.find((d) => d.status === "PUBLISHED"),
+        draft: sorted.find((d) => d.status === "DRAFT"),
+      };
+    });
+  }, [definitions]);
+
+  const createDraftMutation = trpc.workflow.createDraft.useMutation({
+    onSuccess: (draft) => {
+      toast.success(t("draftCreated", { version: draft.version }));
+      setSelectedId(draft.id);
+      utils.workflow.listDefinitions.invalidate();
+      utils.workflow.listVersions.invalidate();
+    },
+    onError: (error) => toast.error(error.message),
+  });
+
+  const createMutation = trpc.workflow.createDefinition.useMutation({
+    onSuccess: (definition) => {
+      toast.success(t("workflowCreated"));
+      setNewForm(null);
+      setSelectedId(definition.id);
+      utils.workflow.listDefinitions.invalidate();
+    },
+    onError: (error) => toast.error(error.message),
+  });
+
+  const discardMutation = trpc.workflow.discardDraft.useMutation({
+    onSuccess: (_, { id }) => {
+      toast.success(t("draftDiscarded"));
+      if (selectedId === id) setSelectedId(null);
+      if (historyId === id) setHistoryId(null);
+      utils.workflow.listDefinitions.invalidate();
+      utils.workflow.listVersions.invalidate();
+    },
+    onError: (error) => toast.error(error.message),
+  });
+
+  const discard = (id: string, version: number) => {
+    if (confirm(t("discardConfirm", { version }))) {
+      discardMutation.mutate({ id });
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold">{t("title")}</h1>
+          <p className="text-muted-foreground">{t("description")}</p>
+        </div>
+        <Button
+          onClick={() => setNewForm({ code: "", nameEn: "", nameFr: "", entityType: "CAP" })}
+        >
+          <Plus className="mr-2 h-4 w-4" />
+          {t("newWorkflow")}
+        </Button>
+      </div>
+
+      <Card>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>{t("workflow")}</TableHead>
+              <TableHead>{t("entityType")}</TableHead>
+              <TableHead>{t("publishedVersion")}</TableHead>
+              <TableHead>{t("draftVersion")}</TableHead>
+              <TableHead>{t("executions")}</TableHead>
+              <TableHead className="text-right">{tCommon("actions")}</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {isLoading ? (
+              Array.from({ length: 3 }).map((_, i) => (
+                <TableRow key={i}>
+                  {Array.from({ length: 6 }).map((_, j) => (
+                    <TableCell key={j}>
+                      <Skeleton className="h-5 w-full" />
+                    </TableCell>
+                  ))}
+                </TableRow>
+              ))
+            ) : workflows.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={6} className="py-8 text-center text-muted-foreground">
+                  {t("empty")}
+                </TableCell>
+              </TableRow>
+            ) : (
+              workflows.map(({ familyId, latest, published, draft }) => (
+                <TableRow
+                  key={familyId}
+                  className={historyId === familyId ? "bg-muted/50" : undefined}
+                >
+                  <TableCell>
+                    <p className="font-medium">{locale === "fr" ? latest.nameFr : latest.nameEn}</p>
+                    <p className="text-xs text-muted-foreground">{latest.code}</p>
+                  </TableCell>
+                  <TableCell>
+                    <span className="flex items-center gap-2">
+                      {t(`entityTypes.${latest.entityType}`)}
+                      {published?.isDefault && <Badge variant="outline">{t("default")}</Badge>}
+                    </span>
+                  </TableCell>
+                  <TableCell>
+                    {published ? (
+                      <button
+                        type="button"
+                        className="hover:underline"
+                        onClick={() => setSelectedId(published.id)}
+                      >
+                        v{published.version}
+                      </button>
+                    ) : (
+                      "—"
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    {draft ? (
+                      <button
+                        type="button"
+                        className="hover:underline"
+                        onClick={() => setSelectedId(draft.id)}
+                      >
+                        v{draft.version}
+                      </button>
+                    ) : (
+                      "—"
+                    )}
+                  </TableCell>
+                  <TableCell>{published?._count.executions ?? 0}</TableCell>
+                  <TableCell className="text-right">
+                    {draft ? (
+                      <>
+                        <Button variant="ghost" size="sm" onClick={() => setSelectedId(draft.id)}>
+                          <Pencil className="h-4 w-4" />
+                          <span className="sr-only">{t("editDraft")}</span>
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="text-destructive"
+                          disabled={discardMutation.isPending}
+                          onClick={() => discard(draft.id, draft.version)}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                          <span className="sr-only">{t("discardDraft")}</span>
+                        </Button>
+                      </>
+                    ) : (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        disabled={createDraftMutation.isPending}
+                        onClick={() => createDraftMutation.mutate({ fromId: latest.id })}
+                      >
+                        <Copy className="h-4 w-4" />
+                        <span className="sr-only">{t("newDraft")}</span>
+                      </Button>
+                    )}
+                    <Button variant="ghost" size="sm" onClick={() => setHistoryId(familyId)}>
+                      <History className="h-4 w-4" />
+                      <span className="sr-only">{t("versions.title")}</span>
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))
+            )}
+          </TableBody>
+        </Table>
+      </Card>
+
+      {historyId && versions && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-base">{t("versions.title")}</CardTitle>
+          </CardHeader>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>{t("versions.version")}</TableHead>
+                <TableHead>{tCommon("status")}</TableHead>
+                <TableHead>{t("versions.published")}</TableHead>
+                <TableHead>{t("versions.running")}</TableHead>
+                <TableHead className="text-right">{tCommon("actions")}</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {versions.map((version) => (
+                <TableRow
+                  key={version.id}
+                  className={selectedId === version.id ? "bg-muted/50" : undefined}
+                >
+                  <TableCell>
+                    <p className="font-medium">v{version.version}</p>
+                    <p className="text-xs text-muted-foreground">{version.code}</p>
+                  </TableCell>
+                  <TableCell>
+                    <Badge variant={STATUS_VARIANTS[version.status]}>
+                      {t(`status.${version.status}`)}
+                    </Badge>
+                  </TableCell>
+                  <TableCell className="text-sm text-muted-foreground">
+                    {version.publishedAt
+                      ? `${formatDate(version.publishedAt, locale)}${
+                          version.publishedBy
+                            ? ` · ${version.publishedBy.firstName} ${version.publishedBy.lastName}`
+                            : ""
+                        }`
+                      : "—"}
+                  </TableCell>
+                  <TableCell>{version._count.executions}</TableCell>
+                  <TableCell className="text-right">
+                    <Button variant="ghost" size="sm" onClick={() => setSelectedId(version.id)}>
+                      <Pencil className="h-4 w-4" />
+                      <span className="sr-only">{t("open")}</span>
+                    </Button>
+                    {version.status === "DRAFT" ? (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="text-destructive"
+                        disabled={discardMutation.isPending}
+                        onClick={() => discard(version.id, version.version)}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                        <span className="sr-only">{t("discardDraft")}</span>
+                      </Button>
+                    ) : (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        disabled={
+                          createDraftMutation.isPending || versions.some((v) => v.status === "DRAFT")
+                        }
+                        onClick={() => createDraftMutation.mutate({ fromId: version.id })}
+                      >
+                        <Copy className="h-4 w-4" />
+                        <span className="sr-only">{t("newDraftFromVersion")}</span>
+                      </Button>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </Card>
+      )}
+
+      {selectedId && (
+        <WorkflowDesigner
+          key={selectedId}
+          workflowId={selectedId}
+          locale={locale}
+          onClose={() => setSelectedId(null)}
+        />
+      )}
+
+      <Dialog open={!!newForm} onOpenChange={(open) => !open && setNewForm(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{t("newWorkflow")}</DialogTitle>
+          </DialogHeader>
+          {newForm && (
+            <div className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="workflow-code">{t("code")}</Label>
+                <Input
+                  id="workflow-code"
+                  value={newForm.code}
+                  placeholder="CAP_WORKFLOW_V1"
+                  onChange={(e) => setNewForm({ ...newForm, code: e.target.value.toUpperCase() })}
+                />
+                <p className="text-xs text-muted-foreground">{t("codeHint")}</p>
+              </div>
+              <div className="space-y-2">
+                <Label>{t("entityType")}</Label>
+                <Select
+                  value={newForm.entityType}
+                  onValueChange={(entityType) =>
+                    setNewForm({ ...newForm, entityType: entityType as WorkflowEntityType })
+                  }
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.values(WorkflowEntityType).map((type) => (
+                      <SelectItem key={type} value={type}>
+                        {t(`entityTypes.${type}`)}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="workflow-new-name-en">{t("nameEn")}</Label>
+                <Input
+                  id="workflow-new-name-en"
+                  value={newForm.nameEn}
+                  onChange={(e) => setNewForm({ ...newForm, nameEn: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="workflow-new-name-fr">{t("nameFr")}</Label>
+                <Input
+                  id="workflow-new-name-fr"
+                  value={newForm.nameFr}
+                  onChange={(e) => setNewForm({ ...newForm, nameFr: e.target.value })}
+                />
+              </div>
+            </div>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setNewForm(null)}>
+              {tCommon("cancel")}
+            </Button>
+            <Button
+              onClick={() => newForm && createMutation.mutate(newForm)}
+              disabled={
+                createMutation.isPending ||
+                !newForm ||
+                !WORKFLOW_CODE_PATTERN.test(newForm.code) ||
+                !newForm.nameEn.trim() ||
+                !newForm.nameFr.trim()
+              }
+            >
+              {createMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              {t("createWorkflow")}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
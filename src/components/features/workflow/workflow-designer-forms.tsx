@@ -0,0 +1,571 @@
+"use client";
+
+/**
+ * Workflow Designer Forms
+ *
+ * Editors for a single state, transition or escalation rule of a draft
+ * workflow definition.
+ */
+
+import { useTranslations } from "next-intl";
+import { Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import {
+  SUPPORTED_ESCALATION_ACTIONS,
+  type WorkflowGraphEscalationRule,
+  type WorkflowGraphState,
+  type WorkflowGraphTransition,
+} from "@/lib/workflow/definition";
+import {
+  TransitionTrigger,
+  UserRole,
+  WorkflowStateType,
+  type WorkflowEntityType,
+} from "@/types/prisma-enums";
+import { WorkflowConditionBuilder } from "./workflow-condition-builder";
+
+const ROLES = Object.values(UserRole);
+
+function toOptionalInt(value: string): number | null {
+  if (value.trim() === "") return null;
+  const parsed = parseInt(value, 10);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : null;
+}
+
+function TextField({
+  id,
+  label,
+  value,
+  disabled,
+  onChange,
+}: {
+  id: string;
+  label: string;
+  value: string;
+  disabled: boolean;
+  onChange: (value: string) => void;
+}) {
+  return (
+    <div className="space-y-1">
+      <Label htmlFor={id} className="text-xs">
+        {label}
+      </Label>
+      <Input
+        id={id}
+        className="h-8"
+        value={value}
+        disabled={disabled}
+        onChange={(e) => onChange(e.target.value)}
+      />
+    </div>
+  );
+}
+
+function RoleChecklist({
+  id,
+  selected,
+  disabled,
+  onChange,
+}: {
+  id: string;
+  selected: string[];
+  disabled: boolean;
+  onChange: (roles: string[]) => void;
+}) {
+  return (
+    <div className="grid gap-2 sm:grid-cols-2 lg:grid-cols-3">
+      {ROLES.map((role) => (
+        <label key={role} className="flex items-center gap-2 text-xs" htmlFor={`${id}-${role}`}>
+          <Checkbox
+            id={`${id}-${role}`}
+            checked={selected.includes(role)}
+            disabled={disabled}
+            onCheckedChange={(checked) =>
+              onChange(checked ? [...selected, role] : selected.filter((r) => r !== role))
+            }
+          />
+          {role}
+        </label>
+      ))}
+    </div>
+  );
+}
+
+export function WorkflowStateForm({
+  state,
+  disabled,
+  onChange,
+  onRemove,
+}: {
+  state: WorkflowGraphState;
+  disabled: boolean;
+  onChange: (state: WorkflowGraphState) => void;
+  onRemove: () => void;
+}) {
+  const t = useTranslations("admin.workflows.state");
+
+  return (
+    <div className="space-y-4">
+      <div className="grid gap-3 sm:grid-cols-3">
+        <TextField
+          id="state-code"
+          label={t("code")}
+          value={state.code}
+          disabled={disabled}
+          onChange={(code) => onChange({ ...state, code: code.toUpperCase() })}
+        />
+        <TextField
+          id="state-label-en"
+          label={t("labelEn")}
+          value={state.labelEn}
+          disabled={disabled}
+          onChange={(labelEn) => onChange({ ...state, labelEn })}
+        />
+        <TextField
+          id="state-label-fr"
+          label={t("labelFr")}
+          value={state.labelFr}
+          disabled={disabled}
+          onChange={(labelFr) => onChange({ ...state, labelFr })}
+        />
+      </div>
+      <div className="grid gap-3 sm:grid-cols-3">
+        <div className="space-y-1">
+          <Label className="text-xs">{t("type")}</Label>
+          <Select
+            value={state.stateType}
+            disabled={disabled}
+            onValueChange={(stateType) =>
+              onChange({ ...state, stateType: stateType as WorkflowStateType })
+            }
+          >
+            <SelectTrigger className="h-8">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Object.values(WorkflowStateType).map((type) => (
+                <SelectItem key={type} value={type}>
+                  {t(`types.${type}`)}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="state-sla" className="text-xs">
+            {t("slaDays")}
+          </Label>
+          <Input
+            id="state-sla"
+            type="number"
+            min={1}
+            className="h-8"
+            value={state.defaultSLADays ?? ""}
+            placeholder={t("noSla")}
+            disabled={disabled || state.stateType === "TERMINAL"}
+            onChange={(e) => onChange({ ...state, defaultSLADays: toOptionalInt(e.target.value) })}
+          />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="state-color" className="text-xs">
+            {t("color")}
+          </Label>
+          <Input
+            id="state-color"
+            type="color"
+            className="h-8 w-20 p-1"
+            value={state.color ?? "#6b7280"}
+            disabled={disabled}
+            onChange={(e) => onChange({ ...state, color: e.target.value })}
+          />
+        </div>
+      </div>
+      {!disabled && (
+        <Button variant="outline" size="sm" className="text-destructive" onClick={onRemove}>
+          <Trash2 className="mr-2 h-4 w-4" />
+          {t("remove")}
+        </Button>
+      )}
+    </div>
+  );
+}
+
+export function WorkflowTransitionForm({
+  transition,
+  states,
+  entityType,
+  disabled,
+  onChange,
+  onRemove,
+}: {
+  transition: WorkflowGraphTransition;
+  states: WorkflowGraphState[];
+  entityType: WorkflowEntityType;
+  disabled: boolean;
+  onChange: (transition: WorkflowGraphTransition) => void;
+  onRemove: () => void;
+}) {
+  const t = useTranslations("admin.workflows.transition");
+
+  const stateSelect = (key: "fromStateCode" | "toStateCode") => (
+    <div className="space-y-1">
+      <Label className="text-xs">{t(key === "fromStateCode" ? "from" : "to")}</Label>
+      <Select
+        value={transition[key]}
+        disabled={disabled}
+        onValueChange={(code) => onChange({ ...transition, [key]: code })}
+      >
+        <SelectTrigger className="h-8">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {states.map((state, index) => (
+            <SelectItem key={`${state.code}-${index}`} value={state.code}>
+              {state.code}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+
+  return (
+    <div className="space-y-4">
+      <div className="grid gap-3 sm:grid-cols-3">
+        <TextField
+          id="transition-code"
+          label={t("code")}
+          value={transition.code}
+          disabled={disabled}
+          onChange={(code) => onChange({ ...transition, code: code.toUpperCase() })}
+        />
+        <TextField
+          id="transition-label-en"
+          label={t("labelEn")}
+          value={transition.labelEn}
+          disabled={disabled}
+          onChange={(labelEn) => onChange({ ...transition, labelEn })}
+        />
+        <TextField
+          id="transition-label-fr"
+          label={t("labelFr")}
+          value={transition.labelFr}
+          disabled={disabled}
+          onChange={(labelFr) => onChange({ ...transition, labelFr })}
+        />
+      </div>
+      <div className="grid gap-3 sm:grid-cols-3">
+        {stateSelect("fromStateCode")}
+        {stateSelect("toStateCode")}
+        <div className="space-y-1">
+          <Label className="text-xs">{t("trigger")}</Label>
+          <Select
+            value={transition.trigger}
+            disabled={disabled}
+            onValueChange={(trigger) =>
+              onChange({ ...transition, trigger: trigger as TransitionTrigger })
+            }
+          >
+            <SelectTrigger className="h-8">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Object.values(TransitionTrigger).map((trigger) => (
+                <SelectItem key={trigger} value={trigger}>
+                  {t(`triggers.${trigger}`)}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      <section className="space-y-2">
+        <h4 className="text-xs font-medium">{t("allowedRoles")}</h4>
+        <p className="text-xs text-muted-foreground">{t("allowedRolesHint")}</p>
+        <RoleChecklist
+          id="transition-roles"
+          selected={transition.allowedRoles}
+          disabled={disabled}
+          onChange={(allowedRoles) =>
+            onChange({ ...transition, allowedRoles: allowedRoles as UserRole[] })
+          }
+        />
+      </section>
+
+      <section className="space-y-2">
+        <h4 className="text-xs font-medium">{t("conditions")}</h4>
+        <WorkflowConditionBuilder
+          entityType={entityType}
+          value={transition.conditions}
+          disabled={disabled}
+          onChange={(conditions) => onChange({ ...transition, conditions })}
+        />
+      </section>
+
+      <section className="space-y-3">
+        <div className="flex items-center gap-2">
+          <Switch
+            id="transition-confirm"
+            checked={transition.confirmRequired}
+            disabled={disabled}
+            onCheckedChange={(confirmRequired) => onChange({ ...transition, confirmRequired })}
+          />
+          <Label htmlFor="transition-confirm" className="text-xs">
+            {t("confirmRequired")}
+          </Label>
+        </div>
+        {transition.confirmRequired && (
+          <div className="grid gap-3 sm:grid-cols-2">
+            <TextField
+              id="transition-confirm-en"
+              label={t("confirmMessageEn")}
+              value={transition.confirmMessageEn ?? ""}
+              disabled={disabled}
+              onChange={(value) => onChange({ ...transition, confirmMessageEn: value || null })}
+            />
+            <TextField
+              id="transition-confirm-fr"
+              label={t("confirmMessageFr")}
+              value={transition.confirmMessageFr ?? ""}
+              disabled={disabled}
+              onChange={(value) => onChange({ ...transition, confirmMessageFr: value || null })}
+            />
+          </div>
+        )}
+      </section>
+
+      {!disabled && (
+        <Button variant="outline" size="sm" className="text-destructive" onClick={onRemove}>
+          <Trash2 className="mr-2 h-4 w-4" />
+          {t("remove")}
+        </Button>
+      )}
+    </div>
+  );
+}
+
+export function WorkflowEscalationRuleForm({
+  rule,
+  index,
+  states,
+  entityType,
+  disabled,
+  onChange,
+  onRemove,
+}: {
+  rule: WorkflowGraphEscalationRule;
+  index: number;
+  states: WorkflowGraphState[];
+  entityType: WorkflowEntityType;
+  disabled: boolean;
+  onChange: (rule: WorkflowGraphEscalationRule) => void;
+  onRemove: () => void;
+}) {
+  const t = useTranslations("admin.workflows.escalation");
+  const id = `escalation-${index}`;
+  const config = rule.actionConfig ?? {};
+
+  return (
+    <div className="space-y-4 rounded-md border p-4">
+      <div className="flex items-center justify-between gap-2">
+        <div className="flex items-center gap-2">
+          <Switch
+            id={`${id}-active`}
+            checked={rule.isActive}
+            disabled={disabled}
+            onCheckedChange={(isActive) => onChange({ ...rule, isActive })}
+          />
+          <Label htmlFor={`${id}-active`} className="text-xs">
+            {t("active")}
+          </Label>
+        </div>
+        {!disabled && (
+          <Button variant="ghost" size="sm" onClick={onRemove}>
+            <Trash2 className="h-4 w-4" />
+            <span className="sr-only">{t("remove")}</span>
+          </Button>
+        )}
+      </div>
+      <div className="grid gap-3 sm:grid-cols-2">
+        <TextField
+          id={`${id}-name-en`}
+          label={t("nameEn")}
+          value={rule.nameEn}
+          disabled={disabled}
+          onChange={(nameEn) => onChange({ ...rule, nameEn })}
+        />
+        <TextField
+          id={`${id}-name-fr`}
+          label={t("nameFr")}
+          value={rule.nameFr}
+          disabled={disabled}
+          onChange={(nameFr) => onChange({ ...rule, nameFr })}
+        />
+      </div>
+      <div className="grid gap-3 sm:grid-cols-2 lg:grid-cols-5">
+        <div className="space-y-1">
+          <Label className="text-xs">{t("state")}</Label>
+          <Select
+            value={rule.stateCode}
+            disabled={disabled}
+            onValueChange={(stateCode) => onChange({ ...rule, stateCode })}
+          >
+            <SelectTrigger className="h-8">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {states.map((state, i) => (
+                <SelectItem key={`${state.code}-${i}`} value={state.code}>
+                  {state.code}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor={`${id}-after`} className="text-xs">
+            {t("triggerAfterDays")}
+          </Label>
+          <Input
+            id={`${id}-after`}
+            type="number"
+            min={1}
+            className="h-8"
+            value={rule.triggerAfterDays}
+            disabled={disabled}
+            onChange={(e) =>
+              onChange({ ...rule, triggerAfterDays: toOptionalInt(e.target.value) ?? 1 })
+            }
+          />
+        </div>
+        <div className="space-y-1">
+          <Label className="text-xs">{t("action")}</Label>
+          <Select
+            value={rule.action}
+            disabled={disabled}
+            onValueChange={(action) =>
+              onChange({ ...rule, action: action as WorkflowGraphEscalationRule["action"] })
+            }
+          >
+            <SelectTrigger className="h-8">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {SUPPORTED_ESCALATION_ACTIONS[entityType].map((action) => (
+                <SelectItem key={action} value={action}>
+                  {t(`actions.${action}`)}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor={`${id}-repeat`} className="text-xs">
+            {t("repeatIntervalDays")}
+          </Label>
+          <Input
+            id={`${id}-repeat`}
+            type="number"
+            min={1}
+            className="h-8"
+            value={rule.repeatIntervalDays ?? ""}
+            placeholder={t("noRepeat")}
+            disabled={disabled}
+            onChange={(e) =>
+              onChange({ ...rule, repeatIntervalDays: toOptionalInt(e.target.value) })
+            }
+          />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor={`${id}-max`} className="text-xs">
+            {t("maxRepeats")}
+          </Label>
+          <Input
+            id={`${id}-max`}
+            type="number"
+            min={1}
+            className="h-8"
+            value={rule.maxRepeats ?? ""}
+            disabled={disabled || !rule.repeatIntervalDays}
+            onChange={(e) => onChange({ ...rule, maxRepeats: toOptionalInt(e.target.value) })}
+          />
+        </div>
+      </div>
+
+      {rule.action === "REASSIGN" && (
+        <div className="max-w-xs space-y-1">
+          <Label className="text-xs">{t("reassignToRole")}</Label>
+          <Select
+            value={config.reassignToRole ?? ""}
+            disabled={disabled}
+            onValueChange={(reassignToRole) =>
+              onChange({ ...rule, actionConfig: { ...config, reassignToRole } })
+            }
+          >
+            <SelectTrigger className="h-8">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {ROLES.map((role) => (
+                <SelectItem key={role} value={role}>
+                  {role}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      )}
+
+      <section className="space-y-2">
+        <h4 className="text-xs font-medium">{t("notifyRoles")}</h4>
+        <RoleChecklist
+          id={`${id}-roles`}
+          selected={config.notifyRoles ?? []}
+          disabled={disabled}
+          onChange={(notifyRoles) =>
+            onChange({ ...rule, actionConfig: { ...config, notifyRoles } })
+          }
+        />
+      </section>
+
+      <div className="grid gap-3 sm:grid-cols-2">
+        <TextField
+          id={`${id}-message-en`}
+          label={t("messageEn")}
+          value={config.message?.en ?? ""}
+          disabled={disabled}
+          onChange={(en) =>
+            onChange({
+              ...rule,
+              actionConfig: { ...config, message: { en, fr: config.message?.fr ?? "" } },
+            })
+          }
+        />
+        <TextField
+          id={`${id}-message-fr`}
+          label={t("messageFr")}
+          value={config.message?.fr ?? ""}
+          disabled={disabled}
+          onChange={(fr) =>
+            onChange({
+              ...rule,
+              actionConfig: { ...config, message: { en: config.message?.en ?? "", fr } },
+            })
+          }
+        />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,538 @@
+"use client";
+
+/**
+ * Workflow Designer
+ *
+ * Edits a draft workflow definition: the state/transition graph, transition
+ * roles and conditions, SLA days and escalation rules. Static checks run as
+ * the graph changes; errors must be fixed before the draft is published.
+ * Published and archived versions open read-only.
+ */
+
+import { useMemo, useState } from "react";
+import { useTranslations } from "next-intl";
+import {
+  AlertTriangle,
+  CircleX,
+  Loader2,
+  Plus,
+  Rocket,
+  Save,
+  X,
+} from "lucide-react";
+import { toast } from "sonner";
+import { trpc } from "@/lib/trpc/client";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  hasBlockingIssues,
+  validateWorkflowGraph,
+  type WorkflowGraph as Graph,
+  type WorkflowGraphState,
+  type WorkflowGraphTransition,
+  type WorkflowIssue,
+} from "@/lib/workflow/definition";
+import type { WorkflowDefinitionStatus, WorkflowEntityType } from "@/types/prisma-enums";
+import { WorkflowGraph, type WorkflowGraphSelection } from "./workflow-graph";
+import {
+  WorkflowEscalationRuleForm,
+  WorkflowStateForm,
+  WorkflowTransitionForm,
+} from "./workflow-designer-forms";
+
+interface Details {
+  nameEn: string;
+  nameFr: string;
+  descriptionEn: string;
+  descriptionFr: string;
+}
+
+/** First unused code of the form PREFIX_n */
+function nextCode(prefix: string, used: string[]): string {
+  let n = used.length + 1;
+  while (used.includes(`${prefix}_${n}`)) n++;
+  return `${prefix}_${n}`;
+}
+
+interface WorkflowDesignerProps {
+  workflowId: string;
+  locale: string;
+  onClose: () => void;
+}
+
+export function WorkflowDesigner({ workflowId, locale, onClose }: WorkflowDesignerProps) {
+  const { data: definition, isLoading } = trpc.workflow.getDefinition.useQuery({ id: workflowId });
+  const { data: graph, isLoading: graphLoading } = trpc.workflow.getGraph.useQuery({
+    id: workflowId,
+  });
+
+  if (isLoading || graphLoading || !definition || !graph) {
+    return <Skeleton className="h-96 w-full" />;
+  }
+
+  return (
+    <DesignerForm
+      workflowId={definition.id}
+      code={definition.code}
+      version={definition.version}
+      status={definition.status}
+      entityType={definition.entityType}
+      initialDetails={{
+        nameEn: definition.nameEn,
+        nameFr: definition.nameFr,
+        descriptionEn: definition.descriptionEn ?? "",
+        descriptionFr: definition.descriptionFr ?? "",
+      }}
+      initialGraph={graph}
+      locale={locale}
+      onClose={onClose}
+    />
+  );
+}
+
+function DesignerForm({
+  workflowId,
+  code,
+  version,
+  status,
+  entityType,
+  initialDetails,
+  initialGraph,
+  locale,
+  onClose,
+}: {
+  workflowId: string;
+  code: string;
+  version: number;
+  status: WorkflowDefinitionStatus;
+  entityType: WorkflowEntityType;
+  initialDetails: Details;
+  initialGraph: Graph;
+  locale: string;
+  onClose: () => void;
+}) {
+  const t = useTranslations("admin.workflows");
+  const utils = trpc.useUtils();
+  const isDraft = status === "DRAFT";
+
+  const [details, setDetails] = useState<Details>(initialDetails);
+  const [graph, setGraph] = useState<Graph>(initialGraph);
+  const [selection, setSelection] = useState<WorkflowGraphSelection>(null);
+  const [isDirty, setIsDirty] = useState(false);
+
+  const issues = useMemo(() => validateWorkflowGraph(graph, entityType), [graph, entityType]);
+  const errorCount = issues.filter((i) => i.severity === "error").length;
+
+  const update = (next: Graph) => {
+    setGraph(next);
+    setIsDirty(true);
+  };
+
+  const updateDetails = (next: Partial<Details>) => {
+    setDetails({ ...details, ...next });
+    setIsDirty(true);
+  };
+
+  // A renamed state keeps its transitions and escalation rules
+  const setState = (index: number, state: WorkflowGraphState) => {
+    const previous = graph.states[index].code;
+    // Codes shared with another state are ambiguous; leave references alone
+    const ambiguous = graph.states.some(
+      (s, i) => i !== index && (s.code === previous || s.code === state.code)
+    );
+    const rename = (c: string) => (c === previous && !ambiguous ? state.code : c);
+    update({
+      states: graph.states.map((s, i) => (i === index ? state : s)),
+      transitions: graph.transitions.map((t) => ({
+        ...t,
+        fromStateCode: rename(t.fromStateCode),
+        toStateCode: rename(t.toStateCode),
+      })),
+      escalationRules: graph.escalationRules.map((r) => ({ ...r, stateCode: rename(r.stateCode) })),
+    });
+  };
+
+  const removeState = (index: number) => {
+    const removed = graph.states[index].code;
+    update({
+      states: graph.states.filter((_, i) => i !== index),
+      transitions: graph.transitions.filter(
+        (t) => t.fromStateCode !== removed && t.toStateCode !== removed
+      ),
+      escalationRules: graph.escalationRules.filter((r) => r.stateCode !== removed),
+    });
+    setSelection(null);
+  };
+
+  const addState = () => {
+    const stateCode = nextCode("STATE", graph.states.map((s) => s.code));
+    update({
+      ...graph,
+      states: [
+        ...graph.states,
+        {
+          code: stateCode,
+          labelEn: stateCode,
+          labelFr: stateCode,
+          stateType: graph.states.length === 0 ? "INITIAL" : "INTERMEDIATE",
+          color: null,
+          icon: null,
+          defaultSLADays: null,
+        },
+      ],
+    });
+    setSelection({ kind: "state", index: graph.states.length });
+  };
+
+  const setTransition = (index: number, transition: WorkflowGraphTransition) =>
+    update({ ...graph, transitions: graph.transitions.map((t, i) => (i === index ? transition : t)) });
+
+  const removeTransition = (index: number) => {
+    update({ ...graph, transitions: graph.transitions.filter((_, i) => i !== index) });
+    setSelection(null);
+  };
+
+  const addTransition = () => {
+    const from =
+      selection?.kind === "state" ? graph.states[selection.index] : graph.states[0];
+    const to = graph.states.find((s) => s.code !== from.code) ?? from;
+    const transitionCode = nextCode("TRANSITION", graph.transitions.map((t) => t.code));
+    update({
+      ...graph,
+      transitions: [
+        ...graph.transitions,
+        {
+          code: transitionCode,
+          labelEn: transitionCode,
+          labelFr: transitionCode,
+          fromStateCode: from.code,
+          toStateCode: to.code,
+          trigger: "MANUAL",
+          allowedRoles: [],
+          conditions: null,
+          onTransitionActions: null,
+          buttonVariant: null,
+          confirmRequired: false,
+          confirmMessageEn: null,
+          confirmMessageFr: null,
+        },
+      ],
+    });
+    setSelection({ kind: "transition", index: graph.transitions.length });
+  };
+
+  const addEscalationRule = () =>
+    update({
+      ...graph,
+      escalationRules: [
+        ...graph.escalationRules,
+        {
+          stateCode:
+            graph.states.find((s) => s.defaultSLADays)?.code ?? graph.states[0]?.code ?? "",
+          nameEn: t("escalation.defaultName"),
+          nameFr: t("escalation.defaultName"),
+          triggerAfterDays: 1,
+          action: "NOTIFY",
+          actionConfig: null,
+          repeatIntervalDays: null,
+          maxRepeats: null,
+          isActive: true,
+        },
+      ],
+    });
+
+  const selectIssue = (issue: WorkflowIssue) => {
+    if (issue.transitionCode) {
+      const index = graph.transitions.findIndex(
+        (t) => t.code === issue.transitionCode && t.fromStateCode === issue.stateCode
+      );
+      if (index >= 0) setSelection({ kind: "transition", index });
+    } else if (issue.stateCode) {
+      const index = graph.states.findIndex((s) => s.code === issue.stateCode);
+      if (index >= 0) setSelection({ kind: "state", index });
+    }
+  };
+
+  const saveMutation = trpc.workflow.saveDraft.useMutation({
+    onSuccess: () => {
+      toast.success(t("saved"));
+      setIsDirty(false);
+      utils.workflow.getGraph.invalidate({ id: workflowId });
+      utils.workflow.getDefinition.invalidate({ id: workflowId });
+      utils.workflow.listDefinitions.invalidate();
+    },
+    onError: (error) => toast.error(error.message),
+  });
+
+  const publishMutation = trpc.workflow.publishDraft.useMutation({
+    onSuccess: ({ runningOnPrevious }) => {
+      toast.success(t("published", { version, running: runningOnPrevious }));
+      utils.workflow.invalidate();
+    },
+    onError: (error) => toast.error(error.message),
+  });
+
+  const selectedState = selection?.kind === "state" ? graph.states[selection.index] : undefined;
+  const selectedTransition =
+    selection?.kind === "transition" ? graph.transitions[selection.index] : undefined;
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div>
+          <CardTitle className="flex items-center gap-2">
+            v{version} · {code}
+            <Badge variant="outline">{t(`entityTypes.${entityType}`)}</Badge>
+            {!isDraft && <Badge variant="outline">{t("readOnly")}</Badge>}
+          </CardTitle>
+          <CardDescription>{isDraft ? t("editorDescription") : t("readOnlyDescription")}</CardDescription>
+        </div>
+        <div className="flex flex-wrap gap-2">
+          {isDraft && (
+            <>
+              <Button
+                size="sm"
+                onClick={() =>
+                  saveMutation.mutate({
+                    id: workflowId,
+                    details: {
+                      nameEn: details.nameEn,
+                      nameFr: details.nameFr,
+                      descriptionEn: details.descriptionEn.trim() || null,
+                      descriptionFr: details.descriptionFr.trim() || null,
+                    },
+                    graph,
+                  })
+                }
+                disabled={!isDirty || saveMutation.isPending}
+              >
+                {saveMutation.isPending ? (
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                ) : (
+                  <Save className="mr-2 h-4 w-4" />
+                )}
+                {t("save")}
+              </Button>
+              <Button
+                size="sm"
+                variant="secondary"
+                onClick={() => {
+                  if (confirm(t("publishConfirm", { version }))) {
+                    publishMutation.mutate({ id: workflowId });
+                  }
+                }}
+                disabled={isDirty || hasBlockingIssues(issues) || publishMutation.isPending}
+                title={
+                  isDirty
+                    ? t("saveBeforePublishing")
+                    : errorCount > 0
+                      ? t("fixBeforePublishing", { count: errorCount })
+                      : undefined
+                }
+              >
+                <Rocket className="mr-2 h-4 w-4" />
+                {t("publish")}
+              </Button>
+            </>
+          )}
+          <Button variant="ghost" size="sm" onClick={onClose}>
+            <X className="h-4 w-4" />
+            <span className="sr-only">{t("close")}</span>
+          </Button>
+        </div>
+      </CardHeader>
+
+      <CardContent className="space-y-6">
+        <div className="grid gap-3 sm:grid-cols-2">
+          <div className="space-y-1">
+            <Label htmlFor="workflow-name-en" className="text-xs">
+              {t("nameEn")}
+            </Label>
+            <Input
+              id="workflow-name-en"
+              value={details.nameEn}
+              disabled={!isDraft}
+              onChange={(e) => updateDetails({ nameEn: e.target.value })}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="workflow-name-fr" className="text-xs">
+              {t("nameFr")}
+            </Label>
+            <Input
+              id="workflow-name-fr"
+              value={details.nameFr}
+              disabled={!isDraft}
+              onChange={(e) => updateDetails({ nameFr: e.target.value })}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="workflow-description-en" className="text-xs">
+              {t("descriptionEn")}
+            </Label>
+            <Textarea
+              id="workflow-description-en"
+              rows={2}
+              value={details.descriptionEn}
+              disabled={!isDraft}
+              onChange={(e) => updateDetails({ descriptionEn: e.target.value })}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="workflow-description-fr" className="text-xs">
+              {t("descriptionFr")}
+            </Label>
+            <Textarea
+              id="workflow-description-fr"
+              rows={2}
+              value={details.descriptionFr}
+              disabled={!isDraft}
+              onChange={(e) => updateDetails({ descriptionFr: e.target.value })}
+            />
+          </div>
+        </div>
+
+        <section className="space-y-2">
+          <h3 className="text-sm font-medium">
+            {issues.length === 0 ? t("checks.passed") : t("checks.title", { count: issues.length })}
+          </h3>
+          {issues.length > 0 && (
+            <ul className="space-y-1 text-sm">
+              {issues.map((issue, index) => (
+                <li key={index}>
+                  <button
+                    type="button"
+                    className="flex items-start gap-2 text-left hover:underline"
+                    onClick={() => selectIssue(issue)}
+                  >
+                    {issue.severity === "error" ? (
+                      <CircleX className="mt-0.5 h-4 w-4 shrink-0 text-red-600" />
+                    ) : (
+                      <AlertTriangle className="mt-0.5 h-4 w-4 shrink-0 text-amber-600" />
+                    )}
+                    {t(`issues.${issue.code}`, {
+                      state: issue.stateCode ?? "",
+                      transition: issue.transitionCode ?? "",
+                      detail: issue.detail ?? "",
+                    })}
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </section>
+
+        <Tabs defaultValue="graph">
+          <TabsList>
+            <TabsTrigger value="graph">{t("tabs.graph")}</TabsTrigger>
+            <TabsTrigger value="escalations">
+              {t("tabs.escalations", { count: graph.escalationRules.length })}
+            </TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="graph" className="space-y-4">
+            {isDraft && (
+              <div className="flex gap-2">
+                <Button variant="outline" size="sm" onClick={addState}>
+                  <Plus className="mr-2 h-4 w-4" />
+                  {t("addState")}
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={addTransition}
+                  disabled={graph.states.length === 0}
+                >
+                  <Plus className="mr-2 h-4 w-4" />
+                  {t("addTransition")}
+                </Button>
+              </div>
+            )}
+            {graph.states.length === 0 ? (
+              <p className="py-8 text-center text-sm text-muted-foreground">{t("emptyGraph")}</p>
+            ) : (
+              <WorkflowGraph
+                graph={graph}
+                issues={issues}
+                locale={locale}
+                selection={selection}
+                onSelect={setSelection}
+              />
+            )}
+            <p className="text-xs text-muted-foreground">{t("graphLegend")}</p>
+
+            {selection && selectedState && (
+              <div className="rounded-md border p-4">
+                <h4 className="mb-3 text-sm font-medium">{t("state.title")}</h4>
+                <WorkflowStateForm
+                  key={selection.index}
+                  state={selectedState}
+                  disabled={!isDraft}
+                  onChange={(state) => setState(selection.index, state)}
+                  onRemove={() => removeState(selection.index)}
+                />
+              </div>
+            )}
+            {selection && selectedTransition && (
+              <div className="rounded-md border p-4">
+                <h4 className="mb-3 text-sm font-medium">{t("transition.title")}</h4>
+                <WorkflowTransitionForm
+                  key={selection.index}
+                  transition={selectedTransition}
+                  states={graph.states}
+                  entityType={entityType}
+                  disabled={!isDraft}
+                  onChange={(transition) => setTransition(selection.index, transition)}
+                  onRemove={() => removeTransition(selection.index)}
+                />
+              </div>
+            )}
+          </TabsContent>
+
+          <TabsContent value="escalations" className="space-y-4">
+            <p className="text-xs text-muted-foreground">{t("escalation.hint")}</p>
+            {graph.escalationRules.map((rule, index) => (
+              <WorkflowEscalationRuleForm
+                key={index}
+                rule={rule}
+                index={index}
+                states={graph.states}
+                entityType={entityType}
+                disabled={!isDraft}
+                onChange={(next) =>
+                  update({
+                    ...graph,
+                    escalationRules: graph.escalationRules.map((r, i) => (i === index ? next : r)),
+                  })
+                }
+                onRemove={() =>
+                  update({
+                    ...graph,
+                    escalationRules: graph.escalationRules.filter((_, i) => i !== index),
+                  })
+                }
+              />
+            ))}
+            {isDraft && (
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={addEscalationRule}
+                disabled={graph.states.length === 0}
+              >
+                <Plus className="mr-2 h-4 w-4" />
+                {t("escalation.add")}
+              </Button>
+            )}
+          </TabsContent>
+        </Tabs>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,161 @@
+"use client";
+
+/**
+ * Workflow Graph
+ *
+ * SVG view of a workflow's states and transitions, laid out in columns by
+ * distance from the initial state. States with problems are outlined and
+ * clicking a state or transition selects it for editing.
+ */
+
+import { useMemo } from "react";
+import {
+  layoutWorkflowGraph,
+  type WorkflowGraph as Graph,
+  type WorkflowIssue,
+} from "@/lib/workflow/definition";
+import { cn } from "@/lib/utils";
+
+const NODE_WIDTH = 150;
+const NODE_HEIGHT = 44;
+const COLUMN_GAP = 90;
+const ROW_GAP = 36;
+const PADDING = 24;
+
+export type WorkflowGraphSelection =
+  | { kind: "state"; index: number }
+  | { kind: "transition"; index: number }
+  | null;
+
+interface WorkflowGraphProps {
+  graph: Graph;
+  issues: WorkflowIssue[];
+  locale: string;
+  selection: WorkflowGraphSelection;
+  onSelect: (selection: WorkflowGraphSelection) => void;
+}
+
+export function WorkflowGraph({ graph, issues, locale, selection, onSelect }: WorkflowGraphProps) {
+  const layout = useMemo(() => layoutWorkflowGraph(graph), [graph]);
+
+  const position = (code: string) => {
+    const p = layout.positions[code];
+    if (!p) return null;
+    return {
+      x: PADDING + p.column * (NODE_WIDTH + COLUMN_GAP),
+      y: PADDING + p.row * (NODE_HEIGHT + ROW_GAP),
+    };
+  };
+
+  const width = PADDING * 2 + Math.max(1, layout.columns) * (NODE_WIDTH + COLUMN_GAP) - COLUMN_GAP;
+  const height = PADDING * 2 + Math.max(1, layout.rows) * (NODE_HEIGHT + ROW_GAP) - ROW_GAP;
+
+  const severityByState = new Map<string, WorkflowIssue["severity"]>();
+  for (const issue of issues) {
+    if (!issue.stateCode || issue.transitionCode) continue;
+    if (severityByState.get(issue.stateCode) !== "error") {
+      severityByState.set(issue.stateCode, issue.severity);
+    }
+  }
+
+  return (
+    <div className="overflow-auto rounded-md border bg-muted/20">
+      <svg width={width} height={height} role="img">
+        <defs>
+          <marker
+            id="workflow-arrow"
+            viewBox="0 0 10 10"
+            refX="10"
+            refY="5"
+            markerWidth="8"
+            markerHeight="8"
+            orient="auto-start-reverse"
+          >
+            <path d="M 0 0 L 10 5 L 0 10 z" className="fill-muted-foreground" />
+          </marker>
+        </defs>
+
+        {graph.transitions.map((transition, index) => {
+          const from = position(transition.fromStateCode);
+          const to = position(transition.toStateCode);
+          if (!from || !to) return null;
+
+          const selected = selection?.kind === "transition" && selection.index === index;
+          const forward = to.x > from.x;
+          const x1 = forward ? from.x + NODE_WIDTH : from.x + NODE_WIDTH / 2;
+          const y1 = forward ? from.y + NODE_HEIGHT / 2 : from.y + NODE_HEIGHT;
+          const x2 = forward ? to.x : to.x + NODE_WIDTH / 2;
+          const y2 = forward ? to.y + NODE_HEIGHT / 2 : to.y + NODE_HEIGHT;
+          // Backward and same-column edges loop below the nodes
+          const bend = forward ? 0 : ROW_GAP + (index % 3) * 8;
+          const path = forward
+            ? `M ${x1} ${y1} C ${x1 + COLUMN_GAP / 2} ${y1}, ${x2 - COLUMN_GAP / 2} ${y2}, ${x2} ${y2}`
+            : `M ${x1} ${y1} C ${x1} ${y1 + bend}, ${x2} ${y2 + bend}, ${x2} ${y2}`;
+
+          return (
+            <g
+              key={`${transition.fromStateCode}-${transition.code}-${index}`}
+              className="cursor-pointer"
+              onClick={() => onSelect({ kind: "transition", index })}
+            >
+              <title>{locale === "fr" ? transition.labelFr : transition.labelEn}</title>
+              <path d={path} fill="none" stroke="transparent" strokeWidth={10} />
+              <path
+                d={path}
+                fill="none"
+                markerEnd="url(#workflow-arrow)"
+                strokeDasharray={transition.conditions ? "5 3" : undefined}
+                className={cn(
+                  "stroke-muted-foreground",
+                  selected && "stroke-primary",
+                  transition.trigger !== "MANUAL" && "stroke-blue-500"
+                )}
+                strokeWidth={selected ? 2.5 : 1.5}
+              />
+            </g>
+          );
+        })}
+
+        {graph.states.map((state, index) => {
+          const p = position(state.code);
+          if (!p) return null;
+
+          const selected = selection?.kind === "state" && selection.index === index;
+          const severity = severityByState.get(state.code);
+
+          return (
+            <g
+              key={`${state.code}-${index}`}
+              transform={`translate(${p.x}, ${p.y})`}
+              className="cursor-pointer"
+              onClick={() => onSelect({ kind: "state", index })}
+            >
+              <rect
+                width={NODE_WIDTH}
+                height={NODE_HEIGHT}
+                rx={state.stateType === "INTERMEDIATE" ? 6 : NODE_HEIGHT / 2}
+                className={cn(
+                  "fill-background stroke-border",
+                  severity === "warning" && "stroke-amber-500",
+                  severity === "error" && "stroke-red-500",
+                  selected && "stroke-primary"
+                )}
+                strokeWidth={selected || severity ? 2.5 : 1.5}
+              />
+              {state.color && (
+                <rect x={8} y={NODE_HEIGHT / 2 - 5} width={10} height={10} rx={5} fill={state.color} />
+              )}
+              <text x={24} y={19} className="fill-foreground text-xs font-medium">
+                {(locale === "fr" ? state.labelFr : state.labelEn).slice(0, 18)}
+              </text>
+              <text x={24} y={33} className="fill-muted-foreground text-[10px]">
+                {state.code.slice(0, 20)}
+                {state.defaultSLADays ? ` · ${state.defaultSLADays}d` : ""}
+              </text>
+            </g>
+          );
+        })}
+      </svg>
+    </div>
+  );
+}
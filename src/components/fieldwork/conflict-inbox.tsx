@@ -0,0 +1,119 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useTranslations } from "next-intl";
+import { ArrowUpDown, Camera, CheckSquare, ClipboardList } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { fieldworkDB } from "@/lib/offline/fieldwork-db";
+import type { SyncQueueEntry } from "@/lib/offline/types";
+
+// =============================================================================
+// Props
+// =============================================================================
+
+interface ConflictInboxProps {
+  /** Queue entries flagged as conflicts */
+  entries: SyncQueueEntry[];
+  onResolve: (entry: SyncQueueEntry) => void;
+}
+
+// =============================================================================
+// Component
+// =============================================================================
+
+/**
+ * Every offline write the server rejected as stale, across checklist items,
+ * evidence and draft findings, each with a way into the resolver.
+ */
+export function ConflictInbox({ entries, onResolve }: ConflictInboxProps) {
+  const t = useTranslations("offline");
+  const [labels, setLabels] = useState<Record<string, string>>({});
+
+  // Resolve a human-readable label for each conflicted entity
+  useEffect(() => {
+    let cancelled = false;
+
+    async function loadLabels() {
+      const next: Record<string, string> = {};
+      for (const entry of entries) {
+        next[entry.id] = (await entityLabel(entry)) ?? entry.entityId;
+      }
+      if (!cancelled) setLabels(next);
+    }
+
+    void loadLabels();
+    return () => {
+      cancelled = true;
+    };
+  }, [entries]);
+
+  if (entries.length === 0) return null;
+
+  return (
+    <div className="rounded-lg border border-amber-200 bg-amber-50/50 p-2 space-y-2 dark:border-amber-800 dark:bg-amber-950/20">
+      <div className="flex items-center gap-2 px-1">
+        <ArrowUpDown className="h-4 w-4 text-amber-600" />
+        <p className="text-xs font-medium flex-1">{t("conflict.inbox")}</p>
+        <Badge variant="warning" className="text-[10px]">
+          {entries.length}
+        </Badge>
+      </div>
+
+      {entries.map((entry) => (
+        <div
+          key={entry.id}
+          className="flex items-center gap-3 rounded-md border bg-background p-2 text-sm"
+        >
+          <ConflictIcon entityType={entry.entityType} />
+          <div className="flex-1 min-w-0">
+            <p className="text-xs font-medium truncate">{labels[entry.id] ?? "…"}</p>
+            <p className="text-[10px] text-muted-foreground">
+              {t(`entityType.${entry.entityType as "checklistItem" | "fieldEvidence" | "draftFinding"}`)}
+              {" — "}
+              {t(`action.${entry.action}`)}
+            </p>
+          </div>
+          <Button
+            variant="outline"
+            size="sm"
+            className="h-7 text-xs shrink-0"
+            onClick={() => onResolve(entry)}
+          >
+            {t("conflict.resolve")}
+          </Button>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+async function entityLabel(entry: SyncQueueEntry): Promise<string | undefined> {
+  switch (entry.entityType) {
+    case "checklistItem":
+      return (await fieldworkDB.checklistItems.get(entry.entityId))?.itemCode;
+    case "fieldEvidence":
+      return (await fieldworkDB.fieldEvidence.get(entry.entityId))?.fileName;
+    case "draftFinding":
+      return (await fieldworkDB.draftFindings.get(entry.entityId))?.title;
+    default:
+      return undefined;
+  }
+}
+
+function ConflictIcon({ entityType }: { entityType: string }) {
+  const iconClass = "h-4 w-4 text-muted-foreground";
+
+  switch (entityType) {
+    case "fieldEvidence":
+      return <Camera className={iconClass} />;
+    case "draftFinding":
+      return <ClipboardList className={iconClass} />;
+    default:
+      return <CheckSquare className={iconClass} />;
+  }
+}
@@ -1,8 +1,8 @@
 "use client";
 
-import { useState } from "react";
+import { useMemo, useState } from "react";
 import { useTranslations } from "next-intl";
-import { ArrowUpDown, Check, Loader2 } from "lucide-react";
+import { ArrowUpDown, Check, Loader2, WifiOff } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import {
   Dialog,
@@ -14,25 +14,34 @@ import {
 import { Badge } from "@/components/ui/badge";
 import { toast } from "sonner";
 import { cn } from "@/lib/utils";
-import { fieldworkDB } from "@/lib/offline/fieldwork-db";
+import { trpc } from "@/lib/trpc/client";
 import { syncEngine } from "@/lib/offline/sync-engine";
+import {
+  defaultChoices,
+  diffFields,
+  isServerOnly,
+  mergeFields,
+  type ConflictEntityType,
+  type FieldChoice,
+  type FieldDiff,
+  type ServerVersion,
+} from "@/lib/offline/conflict-merge";
 import { useOfflineFieldworkStore } from "@/stores/offline-fieldwork-store";
-import type { OfflineChecklistItem } from "@/lib/offline/types";
+import type {
+  OfflineChecklistItem,
+  OfflineDraftFinding,
+  OfflineFieldEvidence,
+  SyncQueueEntry,
+} from "@/lib/offline/types";
 
 // =============================================================================
 // Types
 // =============================================================================
 
-interface ConflictData {
-  entityType: "checklistItem";
-  entityId: string;
-  localItem: OfflineChecklistItem;
-  serverData?: {
-    isCompleted: boolean;
-    completedAt: Date | null;
-    updatedAt: Date;
-  };
-}
+type ConflictData =
+  | { entityType: "checklistItem"; entry: SyncQueueEntry; local: OfflineChecklistItem }
+  | { entityType: "fieldEvidence"; entry: SyncQueueEntry; local: OfflineFieldEvidence }
+  | { entityType: "draftFinding"; entry: SyncQueueEntry; local: OfflineDraftFinding };
 
 // =============================================================================
 // Props
@@ -54,139 +63,174 @@ export function ConflictResolver({
   conflict,
 }: ConflictResolverProps) {
   const t = useTranslations("offline.conflict");
-  const [resolving, setResolving] = useState(false);
+  const isOnline = useOfflineFieldworkStore((s) => s.isOnline);
   const refreshSyncStatus = useOfflineFieldworkStore(
     (s) => s.refreshSyncStatus
   );
   const initializeForReview = useOfflineFieldworkStore(
     (s) => s.initializeForReview
   );
+  const [resolving, setResolving] = useState(false);
+  const [choices, setChoices] = useState<Record<string, FieldChoice>>({});
+
+  const { data: server, isLoading } = trpc.fieldworkSync.getServerVersion.useQuery(
+    {
+      entityType: conflict?.entityType ?? "checklistItem",
+      entityId: conflict?.entry.entityId ?? "",
+      reviewId: conflict?.local.reviewId ?? "",
+    },
+    { enabled: open && !!conflict && isOnline, staleTime: 0 }
+  );
+
+  const diffs = useMemo(
+    () => (conflict && server ? diffEntity(conflict, server) : []),
+    [conflict, server]
+  );
 
   if (!conflict) return null;
 
+  const isDelete = conflict.entry.action === "DELETE";
+  const changed = diffs.filter((d) => d.differs);
+  const selected = { ...defaultChoices(diffs), ...choices };
+
   // ---------------------------------------------------------------------------
-  // Keep local version — re-enqueue for sync
+  // Resolution
   // ---------------------------------------------------------------------------
 
-  async function handleKeepMine() {
+  async function finish(action: () => Promise<unknown>) {
     if (!conflict) return;
     setResolving(true);
     try {
-      // Update local item status back to pending
-      await fieldworkDB.checklistItems.update(conflict.entityId, {
-        syncStatus: "pending",
-      });
-
-      // Re-enqueue for sync
-      await syncEngine.enqueue({
-        entityType: "checklistItem",
-        entityId: conflict.entityId,
-        action: "UPDATE",
-        payload: JSON.stringify(conflict.localItem),
-        maxRetries: 3,
-      });
-
+      await action();
       await refreshSyncStatus();
-      if (conflict.localItem.reviewId) {
-        await initializeForReview(conflict.localItem.reviewId);
-      }
-
+      await initializeForReview(conflict.local.reviewId);
       toast.success(t("resolved"));
+      setChoices({});
       onOpenChange(false);
+    } catch {
+      toast.error(t("resolveError"));
     } finally {
       setResolving(false);
     }
   }
 
-  // ---------------------------------------------------------------------------
-  // Keep server version — update local with server data
-  // ---------------------------------------------------------------------------
-
-  async function handleKeepServer() {
-    if (!conflict || !conflict.serverData) return;
-    setResolving(true);
-    try {
-      await fieldworkDB.checklistItems.update(conflict.entityId, {
-        isCompleted: conflict.serverData.isCompleted,
-        completedAt: conflict.serverData.completedAt,
-        updatedAt: conflict.serverData.updatedAt,
-        syncStatus: "synced",
-      });
-
-      // Remove any pending sync queue entry for this entity
-      const queueEntries = await fieldworkDB.syncQueue
-        .filter(
-          (e) =>
-            e.entityType === "checklistItem" &&
-            e.entityId === conflict.entityId
-        )
-        .toArray();
-      for (const entry of queueEntries) {
-        await fieldworkDB.syncQueue.delete(entry.id);
-      }
+  function handleKeepMine() {
+    void finish(() =>
+      syncEngine.resolveConflict(conflict!.entry.id, {
+        updates: {},
+        serverUpdatedAt: server?.updatedAt ?? null,
+      })
+    );
+  }
 
-      await refreshSyncStatus();
-      if (conflict.localItem.reviewId) {
-        await initializeForReview(conflict.localItem.reviewId);
-      }
+  function handleKeepServer() {
+    if (!server) return;
+    void finish(() =>
+      syncEngine.acceptServerVersion(conflict!.entry.id, {
+        updates: server.fields,
+        serverUpdatedAt: server.updatedAt,
+      })
+    );
+  }
 
-      toast.success(t("resolved"));
-      onOpenChange(false);
-    } finally {
-      setResolving(false);
+  function handleApplyMerge() {
+    if (!server) return;
+    if (isServerOnly(diffs, selected)) {
+      handleKeepServer();
+      return;
     }
+    void finish(() =>
+      syncEngine.resolveConflict(conflict!.entry.id, {
+        updates: mergeEntity(conflict!, server, selected),
+        serverUpdatedAt: server.updatedAt,
+      })
+    );
   }
 
   // ---------------------------------------------------------------------------
   // Render
   // ---------------------------------------------------------------------------
 
-  const local = conflict.localItem;
-  const server = conflict.serverData;
-
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
-      <DialogContent className="max-w-md">
+      <DialogContent className="max-w-2xl">
         <DialogHeader>
           <DialogTitle className="flex items-center gap-2">
             <ArrowUpDown className="h-5 w-5 text-amber-500" />
             {t("title")}
           </DialogTitle>
-          <DialogDescription>{t("description")}</DialogDescription>
+          <DialogDescription>
+            {isDelete ? t("deleteDescription") : t("description")}
+          </DialogDescription>
         </DialogHeader>
 
-        {/* Side-by-side comparison */}
-        <div className="grid grid-cols-2 gap-3">
-          {/* Your version */}
-          <div className="rounded-lg border p-3 space-y-2">
-            <Badge variant="outline" className="text-[10px]">
-              {t("yourVersion")}
-            </Badge>
-            <ComparisonFields
-              isCompleted={local.isCompleted}
-              notes={local.notes}
-              updatedAt={local.updatedAt}
-            />
+        {!isOnline ? (
+          <p className="flex items-center gap-2 rounded-lg border p-3 text-sm text-muted-foreground">
+            <WifiOff className="h-4 w-4 shrink-0" />
+            {t("needsConnection")}
+          </p>
+        ) : isLoading ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
           </div>
+        ) : server && !server.exists ? (
+          <p className="rounded-lg border p-3 text-sm text-muted-foreground">
+            {t("missingOnServer")}
+          </p>
+        ) : (
+          <div className="space-y-2">
+            {/* Column headers */}
+            <div className="grid grid-cols-[7rem_1fr_1fr] gap-2 px-1">
+              <span />
+              <Badge variant="outline" className="w-fit text-[10px]">
+                {t("yourVersion")}
+              </Badge>
+              <Badge variant="secondary" className="w-fit text-[10px]">
+                {t("serverVersion")}
+              </Badge>
+            </div>
 
-          {/* Server version */}
-          <div className="rounded-lg border p-3 space-y-2">
-            <Badge variant="secondary" className="text-[10px]">
-              {t("serverVersion")}
-            </Badge>
-            {server ? (
-              <ComparisonFields
-                isCompleted={server.isCompleted}
-                updatedAt={server.updatedAt}
-              />
-            ) : (
-              <p className="text-xs text-muted-foreground">—</p>
+            {/* Side-by-side fields; tap a side to keep it */}
+            {diffs.map((diff) => (
+              <div
+                key={diff.field}
+                className="grid grid-cols-[7rem_1fr_1fr] gap-2 items-stretch"
+              >
+                <span className="pt-2 text-xs font-medium text-muted-foreground">
+                  {t(`fields.${diff.field}`)}
+                </span>
+                {(["local", "server"] as const).map((side) => (
+                  <button
+                    key={side}
+                    type="button"
+                    disabled={!diff.differs || resolving}
+                    onClick={() => setChoices((prev) => ({ ...prev, [diff.field]: side }))}
+                    className={cn(
+                      "rounded-lg border p-2 text-left text-xs leading-relaxed min-h-[44px]",
+                      "whitespace-pre-wrap break-words transition-colors",
+                      !diff.differs && "opacity-60",
+                      diff.differs &&
+                        selected[diff.field] === side &&
+                        "border-primary bg-primary/5 ring-1 ring-primary"
+                    )}
+                  >
+                    {diff.differs && selected[diff.field] === side && (
+                      <Check className="mb-1 h-3 w-3 text-primary" />
+                    )}
+                    <FieldValue value={diff[side]} />
+                  </button>
+                ))}
+              </div>
+            ))}
+
+            {changed.length === 0 && (
+              <p className="text-xs text-muted-foreground">{t("noFieldDifferences")}</p>
             )}
           </div>
-        </div>
+        )}
 
         {/* Actions */}
-        <div className="flex gap-2 pt-2">
+        <div className="flex flex-wrap gap-2 pt-2">
           <Button
             variant="outline"
             className="flex-1 min-h-[44px]"
@@ -199,15 +243,28 @@ export function ConflictResolver({
             {t("keepServer")}
           </Button>
           <Button
+            variant={changed.length > 1 && !isDelete ? "outline" : "default"}
             className="flex-1 min-h-[44px]"
             onClick={handleKeepMine}
-            disabled={resolving}
+            disabled={resolving || !server}
           >
             {resolving ? (
               <Loader2 className="h-4 w-4 animate-spin mr-1.5" />
             ) : null}
-            {t("keepMine")}
+            {isDelete ? t("deleteAnyway") : t("keepMine")}
           </Button>
+          {changed.length > 1 && !isDelete && (
+            <Button
+              className="flex-1 min-h-[44px]"
+              onClick={handleApplyMerge}
+              disabled={resolving || !server?.exists}
+            >
+              {resolving ? (
+                <Loader2 className="h-4 w-4 animate-spin mr-1.5" />
+              ) : null}
+              {t("applyMerge")}
+            </Button>
+          )}
         </div>
       </DialogContent>
     </Dialog>
@@ -215,51 +272,53 @@ export function ConflictResolver({
 }
 
 // =============================================================================
-// Field comparison display
+// Helpers
 // =============================================================================
 
-function ComparisonFields({
-  isCompleted,
-  notes,
-  updatedAt,
-}: {
-  isCompleted: boolean;
-  notes?: string;
-  updatedAt: Date;
-}) {
-  return (
-    <div className="space-y-1.5 text-xs">
-      <div className="flex items-center gap-1.5">
-        <span className="text-muted-foreground">Status:</span>
-        {isCompleted ? (
-          <span className="flex items-center gap-0.5 text-green-600">
-            <Check className="h-3 w-3" /> Completed
-          </span>
-        ) : (
-          <span className="text-muted-foreground">Incomplete</span>
-        )}
-      </div>
-      {notes !== undefined && (
-        <div>
-          <span className="text-muted-foreground">Notes:</span>
-          <p
-            className={cn(
-              "mt-0.5 text-[11px] leading-relaxed",
-              notes ? "" : "text-muted-foreground italic"
-            )}
-          >
-            {notes || "—"}
-          </p>
-        </div>
-      )}
-      <div className="text-[10px] text-muted-foreground">
-        {new Date(updatedAt).toLocaleString([], {
-          dateStyle: "short",
-          timeStyle: "short",
-        })}
-      </div>
-    </div>
-  );
+function diffEntity(conflict: ConflictData, server: ServerVersion): FieldDiff[] {
+  switch (conflict.entityType) {
+    case "checklistItem":
+      return diffFields("checklistItem", conflict.local, server);
+    case "fieldEvidence":
+      return diffFields("fieldEvidence", conflict.local, server);
+    case "draftFinding":
+      return diffFields("draftFinding", conflict.local, server);
+  }
+}
+
+function mergeEntity(
+  conflict: ConflictData,
+  server: ServerVersion,
+  choices: Record<string, FieldChoice>
+): Record<string, unknown> {
+  switch (conflict.entityType) {
+    case "checklistItem":
+      return mergeFields("checklistItem", conflict.local, server, choices);
+    case "fieldEvidence":
+      return mergeFields("fieldEvidence", conflict.local, server, choices);
+    case "draftFinding":
+      return mergeFields("draftFinding", conflict.local, server, choices);
+  }
+}
+
+// =============================================================================
+// Field value display
+// =============================================================================
+
+function FieldValue({ value }: { value: unknown }) {
+  const t = useTranslations("offline.conflict");
+
+  if (typeof value === "boolean") {
+    return value ? (
+      <span className="text-green-600">{t("values.completed")}</span>
+    ) : (
+      <span className="text-muted-foreground">{t("values.incomplete")}</span>
+    );
+  }
+  if (value === null || value === undefined || value === "") {
+    return <span className="italic text-muted-foreground">—</span>;
+  }
+  return <span>{String(value)}</span>;
 }
 
-export type { ConflictData };
+export type { ConflictData, ConflictEntityType };
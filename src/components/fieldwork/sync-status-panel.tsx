@@ -30,6 +30,7 @@ import { syncEngine } from "@/lib/offline/sync-engine";
 import { useOfflineFieldworkStore } from "@/stores/offline-fieldwork-store";
 import type { SyncQueueEntry } from "@/lib/offline/types";
 import { ConflictResolver, type ConflictData } from "./conflict-resolver";
+import { ConflictInbox } from "./conflict-inbox";
 
 // =============================================================================
 // Constants
@@ -93,6 +94,7 @@ export function SyncStatusPanel({ open, onOpenChange }: SyncStatusPanelProps) {
     let failed = 0;
 
     for (const entry of queueEntries) {
+      if (entry.isConflict) continue;
       if (entry.retryCount >= entry.maxRetries) {
         failed++;
       } else {
@@ -108,6 +110,11 @@ export function SyncStatusPanel({ open, onOpenChange }: SyncStatusPanelProps) {
     };
   }, [queueEntries, isSyncing, syncStatus.conflicts]);
 
+  const conflictEntries = useMemo(
+    () => queueEntries.filter((entry) => entry.isConflict),
+    [queueEntries]
+  );
+
   // ---------------------------------------------------------------------------
   // Actions
   // ---------------------------------------------------------------------------
@@ -132,17 +139,23 @@ export function SyncStatusPanel({ open, onOpenChange }: SyncStatusPanelProps) {
   }
 
   async function handleOpenConflict(entry: SyncQueueEntry) {
-    if (entry.entityType !== "checklistItem") return;
-    const localItem = await fieldworkDB.checklistItems.get(entry.entityId);
-    if (!localItem) return;
-
-    // Try to parse server data from the error message if available
-    setConflict({
-      entityType: "checklistItem",
-      entityId: entry.entityId,
-      localItem,
-      serverData: undefined,
-    });
+    switch (entry.entityType) {
+      case "checklistItem": {
+        const local = await fieldworkDB.checklistItems.get(entry.entityId);
+        if (local) setConflict({ entityType: "checklistItem", entry, local });
+        break;
+      }
+      case "fieldEvidence": {
+        const local = await fieldworkDB.fieldEvidence.get(entry.entityId);
+        if (local) setConflict({ entityType: "fieldEvidence", entry, local });
+        break;
+      }
+      case "draftFinding": {
+        const local = await fieldworkDB.draftFindings.get(entry.entityId);
+        if (local) setConflict({ entityType: "draftFinding", entry, local });
+        break;
+      }
+    }
   }
 
   // ---------------------------------------------------------------------------
@@ -210,6 +223,10 @@ export function SyncStatusPanel({ open, onOpenChange }: SyncStatusPanelProps) {
           {/* Queue list */}
           <ScrollArea className="flex-1 -mx-4 px-4">
             <div className="space-y-2 pb-4">
+              <ConflictInbox
+                entries={conflictEntries}
+                onResolve={(entry) => void handleOpenConflict(entry)}
+              />
               {queueEntries.length === 0 ? (
                 <div className="flex flex-col items-center justify-center py-8 text-center">
                   <Check className="h-8 w-8 text-green-500 mb-2" />
@@ -218,7 +235,7 @@ export function SyncStatusPanel({ open, onOpenChange }: SyncStatusPanelProps) {
                   </p>
                 </div>
               ) : (
-                queueEntries.map((entry) => (
+                queueEntries.filter((entry) => !entry.isConflict).map((entry) => (
                   <QueueItem
                     key={entry.id}
                     entry={entry}
@@ -346,7 +363,7 @@ function QueueItem({
 }) {
   const t = useTranslations("offline");
   const isFailed = entry.retryCount >= entry.maxRetries;
-  const isConflict = entry.error?.includes("Conflict");
+  const isConflict = entry.isConflict === true;
 
   return (
     <div className="flex items-center gap-3 rounded-lg border p-2.5 text-sm">
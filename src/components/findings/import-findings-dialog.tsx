@@ -0,0 +1,299 @@
+"use client";
+
+/**
+ * Import Findings Dialog
+ *
+ * Bulk entry of findings drafted offline in a CSV or XLSX file: the file is
+ * parsed in the browser, validated against the review on the server, shown
+ * as a preview with row errors and suggested severities, then imported in
+ * one go.
+ */
+
+import { useRef, useState } from "react";
+import { useTranslations } from "next-intl";
+import { toast } from "sonner";
+import { AlertTriangle, FileDown, FileUp, Loader2, Sparkles } from "lucide-react";
+import { trpc } from "@/lib/trpc/client";
+import {
+  buildFindingImportTemplate,
+  parseFindingSpreadsheet,
+  type FindingImportRow,
+} from "@/lib/finding/import-parser";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { FindingSeverityBadge } from "@/components/features/finding/finding-severity-badge";
+import type { FindingImportPreview } from "@/server/services/finding-import";
+
+interface ImportFindingsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  reviewId: string;
+  onImported: () => void;
+}
+
+function downloadTemplate() {
+  const blob = new Blob(["\uFEFF" + buildFindingImportTemplate()], {
+    type: "text/csv;charset=utf-8;",
+  });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = "findings-import-template.csv";
+  a.click();
+  URL.revokeObjectURL(url);
+}
+
+export function ImportFindingsDialog({
+  open,
+  onOpenChange,
+  reviewId,
+  onImported,
+}: ImportFindingsDialogProps) {
+  const t = useTranslations("findings.import");
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [rows, setRows] = useState<FindingImportRow[]>([]);
+  const [parseErrors, setParseErrors] = useState<string[]>([]);
+  const [preview, setPreview] = useState<FindingImportPreview | null>(null);
+
+  const reset = () => {
+    setFileName(null);
+    setRows([]);
+    setParseErrors([]);
+    setPreview(null);
+  };
+
+  const previewMutation = trpc.finding.previewImport.useMutation({
+    onSuccess: setPreview,
+    onError: (error) => toast.error(error.message),
+  });
+
+  const importMutation = trpc.finding.bulkImport.useMutation({
+    onSuccess: ({ created }) => {
+      toast.success(t("success", { count: created }));
+      reset();
+      onImported();
+    },
+    onError: (error) => toast.error(t("error"), { description: error.message }),
+  });
+
+  const handleFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) return;
+
+    reset();
+    setFileName(file.name);
+
+    const result = file.name.toLowerCase().endsWith(".csv")
+      ? parseFindingSpreadsheet(await file.text())
+      : parseFindingSpreadsheet(await file.arrayBuffer());
+
+    if (result.errors.length > 0) {
+      setParseErrors(result.errors.map((e) => e.message));
+      return;
+    }
+
+    setRows(result.rows);
+    previewMutation.mutate({ reviewId, rows: result.rows });
+  };
+
+  const handleOpenChange = (next: boolean) => {
+    if (importMutation.isPending) return;
+    if (!next) reset();
+    onOpenChange(next);
+  };
+
+  const warnings = preview?.rows.flatMap((r) => r.warnings) ?? [];
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="sm:max-w-[900px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{t("title")}</DialogTitle>
+          <DialogDescription>{t("description")}</DialogDescription>
+        </DialogHeader>
+
+        <div className="flex flex-wrap items-center gap-2">
+          <Button
+            variant="outline"
+            onClick={() => fileInputRef.current?.click()}
+            disabled={previewMutation.isPending || importMutation.isPending}
+          >
+            {previewMutation.isPending ? (
+              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            ) : (
+              <FileUp className="h-4 w-4 mr-2" />
+            )}
+            {fileName ? t("chooseAnother") : t("chooseFile")}
+          </Button>
+          <Button variant="ghost" onClick={downloadTemplate}>
+            <FileDown className="h-4 w-4 mr-2" />
+            {t("template")}
+          </Button>
+          {fileName && <span className="text-sm text-muted-foreground">{fileName}</span>}
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".csv,.xlsx,.xls"
+            className="hidden"
+            onChange={handleFile}
+          />
+        </div>
+
+        {parseErrors.length > 0 && (
+          <Alert variant="destructive">
+            <AlertTriangle className="h-4 w-4" />
+            <AlertDescription>
+              <ul className="text-sm space-y-0.5">
+                {parseErrors.map((message) => (
+                  <li key={message}>{message}</li>
+                ))}
+              </ul>
+            </AlertDescription>
+          </Alert>
+        )}
+
+        {preview && (
+          <div className="space-y-4">
+            <div className="flex flex-wrap gap-2">
+              <Badge variant="secondary">{t("summary.total", { count: preview.summary.total })}</Badge>
+              <Badge variant="outline" className="border-green-300 text-green-700 dark:text-green-400">
+                {t("summary.valid", { count: preview.summary.valid })}
+              </Badge>
+              {preview.summary.invalid > 0 && (
+                <Badge variant="destructive">
+                  {t("summary.invalid", { count: preview.summary.invalid })}
+                </Badge>
+              )}
+              {preview.summary.suggested > 0 && (
+                <Badge variant="outline">
+                  {t("summary.suggested", {
+                    count: preview.summary.suggested,
+                    version: preview.ruleSetVersion,
+                  })}
+                </Badge>
+              )}
+            </div>
+
+            {warnings.length > 0 && (
+              <Alert>
+                <AlertTriangle className="h-4 w-4" />
+                <AlertDescription>
+                  <ul className="text-xs space-y-0.5">
+                    {warnings.slice(0, 10).map((warning) => (
+                      <li key={warning}>{warning}</li>
+                    ))}
+                  </ul>
+                  {warnings.length > 10 && (
+                    <p className="text-xs mt-1">{t("moreWarnings", { count: warnings.length - 10 })}</p>
+                  )}
+                </AlertDescription>
+              </Alert>
+            )}
+
+            <div className="rounded-md border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-[60px]">{t("columns.row")}</TableHead>
+                    <TableHead>{t("columns.title")}</TableHead>
+                    <TableHead>{t("columns.area")}</TableHead>
+                    <TableHead>{t("columns.pq")}</TableHead>
+                    <TableHead>{t("columns.severity")}</TableHead>
+                    <TableHead>{t("columns.issues")}</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {preview.rows.map((row) => {
+                    const source = rows.find((r) => r.row === row.row);
+                    return (
+                      <TableRow
+                        key={row.row}
+                        className={row.errors.length > 0 ? "bg-destructive/5" : undefined}
+                      >
+                        <TableCell className="font-mono text-xs">{row.row}</TableCell>
+                        <TableCell className="max-w-[260px]">
+                          <p className="truncate">{row.finding?.titleEn ?? source?.titleEn ?? "—"}</p>
+                        </TableCell>
+                        <TableCell>{row.finding?.reviewArea ?? source?.reviewArea ?? "—"}</TableCell>
+                        <TableCell className="font-mono text-xs">
+                          {row.finding?.pqNumber ?? source?.pqNumber ?? "—"}
+                        </TableCell>
+                        <TableCell>
+                          {row.severity ? (
+                            <div className="flex items-center gap-1">
+                              <FindingSeverityBadge severity={row.severity} showIcon={false} />
+                              {row.severitySource === "SUGGESTED" && (
+                                <Sparkles
+                                  className="h-3.5 w-3.5 text-muted-foreground"
+                                  aria-label={t("suggestedSeverity")}
+                                />
+                              )}
+                            </div>
+                          ) : (
+                            "—"
+                          )}
+                        </TableCell>
+                        <TableCell>
+                          {row.errors.length === 0 ? (
+                            <span className="text-xs text-green-700 dark:text-green-400">{t("ready")}</span>
+                          ) : (
+                            <ul className="text-xs text-destructive space-y-0.5">
+                              {row.errors.map((error) => (
+                                <li key={`${error.field}-${error.message}`}>{error.message}</li>
+                              ))}
+                            </ul>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            </div>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button
+            variant="outline"
+            onClick={() => handleOpenChange(false)}
+            disabled={importMutation.isPending}
+          >
+            {t("cancel")}
+          </Button>
+          <Button
+            onClick={() => importMutation.mutate({ reviewId, rows })}
+            disabled={
+              !preview ||
+              preview.summary.invalid > 0 ||
+              preview.summary.valid === 0 ||
+              importMutation.isPending
+            }
+          >
+            {importMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            {t("confirm", { count: preview?.summary.valid ?? 0 })}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
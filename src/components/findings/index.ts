@@ -7,3 +7,4 @@
 export { CreateFindingDialog } from "./create-finding-dialog";
 export { FindingCard } from "./finding-card";
 export { EditFindingDialog } from "./edit-finding-dialog";
+export { ImportFindingsDialog } from "./import-findings-dialog";
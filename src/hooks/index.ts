@@ -31,6 +31,12 @@ export {
   type CommentAdded,
 } from "./use-live-findings";
 
+export {
+  useLiveAnnotations,
+  type AnnotationChanged,
+  type AnnotationDeleted,
+} from "./use-live-annotations";
+
 export { useLiveSync } from "./use-live-sync";
 
 export { useConnectionStatus } from "./use-connection-status";
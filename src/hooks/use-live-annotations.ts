@@ -0,0 +1,100 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { getPusherClient } from "@/lib/pusher/client";
+import { CHANNELS, EVENTS } from "@/lib/pusher/server";
+
+export interface AnnotationChanged {
+  documentId: string;
+  annotation: {
+    id: string;
+    pageNumber: number;
+    type: string;
+    content: string | null;
+    findingId: string | null;
+  };
+  actor: { id: string; name: string };
+  timestamp: string;
+}
+
+export interface AnnotationDeleted {
+  documentId: string;
+  annotationId: string;
+  actor: { id: string; name: string };
+  timestamp: string;
+}
+
+interface UseLiveAnnotationsOptions {
+  reviewId: string;
+  documentId: string;
+  userId?: string;
+  onAnnotationCreated?: (data: AnnotationChanged) => void;
+  onAnnotationUpdated?: (data: AnnotationChanged) => void;
+  onAnnotationDeleted?: (data: AnnotationDeleted) => void;
+}
+
+interface UseLiveAnnotationsReturn {
+  isConnected: boolean;
+}
+
+/**
+ * Annotation changes made by teammates on one document, received over the
+ * review channel. Events for other documents and the user's own changes
+ * are ignored.
+ */
+export function useLiveAnnotations({
+  reviewId,
+  documentId,
+  userId,
+  onAnnotationCreated,
+  onAnnotationUpdated,
+  onAnnotationDeleted,
+}: UseLiveAnnotationsOptions): UseLiveAnnotationsReturn {
+  const [isConnected, setIsConnected] = useState(false);
+
+  useEffect(() => {
+    if (!userId || !reviewId || !documentId) return;
+
+    const pusher = getPusherClient();
+    const channel = pusher.subscribe(CHANNELS.review(reviewId));
+
+    const fromTeammate = (data: { documentId: string; actor: { id: string } }) =>
+      data.documentId === documentId && data.actor?.id !== userId;
+
+    const handleSubscribed = () => setIsConnected(true);
+    const handleCreated = (data: AnnotationChanged) => {
+      if (fromTeammate(data)) onAnnotationCreated?.(data);
+    };
+    const handleUpdated = (data: AnnotationChanged) => {
+      if (fromTeammate(data)) onAnnotationUpdated?.(data);
+    };
+    const handleDeleted = (data: AnnotationDeleted) => {
+      if (fromTeammate(data)) onAnnotationDeleted?.(data);
+    };
+
+    channel.bind("pusher:subscription_succeeded", handleSubscribed);
+    channel.bind(EVENTS.ANNOTATION_CREATED, handleCreated);
+    channel.bind(EVENTS.ANNOTATION_UPDATED, handleUpdated);
+    channel.bind(EVENTS.ANNOTATION_DELETED, handleDeleted);
+
+    // Only drop our own handlers: other hooks share this channel
+    return () => {
+      channel.unbind("pusher:subscription_succeeded", handleSubscribed);
+      channel.unbind(EVENTS.ANNOTATION_CREATED, handleCreated);
+      channel.unbind(EVENTS.ANNOTATION_UPDATED, handleUpdated);
+      channel.unbind(EVENTS.ANNOTATION_DELETED, handleDeleted);
+      setIsConnected(false);
+    };
+  }, [
+    userId,
+    reviewId,
+    documentId,
+    onAnnotationCreated,
+    onAnnotationUpdated,
+    onAnnotationDeleted,
+  ]);
+
+  return {
+    isConnected,
+  };
+}
@@ -0,0 +1,135 @@
+/**
+ * PDF Annotation Geometry
+ *
+ * Annotations are stored as fractions (0–1) of the page width and height,
+ * measured from the top-left corner, so they line up at any zoom level.
+ */
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface PagePoint {
+  x: number;
+  y: number;
+}
+
+export interface PageSize {
+  width: number;
+  height: number;
+}
+
+/** Rectangle in page fractions, origin top-left. */
+export interface PageRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/** A run of text on the page with its bounding box in page fractions. */
+export interface PageTextItem {
+  text: string;
+  rect: PageRect;
+}
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+/** Drags smaller than this (in either direction) are treated as clicks. */
+export const MIN_HIGHLIGHT_FRACTION = 0.005;
+
+/** Longest excerpt carried into a finding's evidence. */
+export const MAX_EXCERPT_LENGTH = 300;
+
+// =============================================================================
+// GEOMETRY
+// =============================================================================
+
+function clampFraction(value: number): number {
+  return Math.min(1, Math.max(0, value));
+}
+
+/** Convert a pixel point on a rendered page to page fractions. */
+export function toPageFraction(point: PagePoint, size: PageSize): PagePoint {
+  return {
+    x: clampFraction(point.x / size.width),
+    y: clampFraction(point.y / size.height),
+  };
+}
+
+/**
+ * Build a highlight rectangle from the two corners of a drag, in any
+ * direction. Returns null when the drag is too small to be a highlight.
+ */
+export function rectFromDrag(
+  start: PagePoint,
+  end: PagePoint,
+  size: PageSize
+): PageRect | null {
+  const a = toPageFraction(start, size);
+  const b = toPageFraction(end, size);
+  const rect = {
+    x: Math.min(a.x, b.x),
+    y: Math.min(a.y, b.y),
+    width: Math.abs(a.x - b.x),
+    height: Math.abs(a.y - b.y),
+  };
+
+  if (rect.width < MIN_HIGHLIGHT_FRACTION || rect.height < MIN_HIGHLIGHT_FRACTION) {
+    return null;
+  }
+  return rect;
+}
+
+function intersects(a: PageRect, b: PageRect): boolean {
+  return (
+    a.x < b.x + b.width &&
+    b.x < a.x + a.width &&
+    a.y < b.y + b.height &&
+    b.y < a.y + a.height
+  );
+}
+
+/**
+ * Text covered by a highlight, in reading order (top to bottom, then
+ * left to right), whitespace-collapsed and capped at MAX_EXCERPT_LENGTH.
+ */
+export function textInRect(items: PageTextItem[], rect: PageRect): string {
+  const text = items
+    .filter((item) => item.text.trim() && intersects(item.rect, rect))
+    .sort((a, b) => a.rect.y - b.rect.y || a.rect.x - b.rect.x)
+    .map((item) => item.text)
+    .join(" ")
+    .replace(/\s+/g, " ")
+    .trim();
+
+  return text.length > MAX_EXCERPT_LENGTH
+    ? `${text.slice(0, MAX_EXCERPT_LENGTH - 1).trimEnd()}…`
+    : text;
+}
+
+// =============================================================================
+// EVIDENCE
+// =============================================================================
+
+/**
+ * Page reference written into a finding's evidence when a highlight is
+ * converted, e.g. `ATM Manual.pdf, p. 12: "…"`.
+ */
+export function formatPageReference(params: {
+  documentName: string;
+  pageNumber: number;
+  excerpt?: string | null;
+  locale: "en" | "fr";
+}): string {
+  const { documentName, pageNumber, locale } = params;
+  const excerpt = params.excerpt?.trim();
+  const reference = `${documentName}, p. ${pageNumber}`;
+
+  if (!excerpt) return reference;
+  return locale === "fr"
+    ? `${reference} : « ${excerpt} »`
+    : `${reference}: "${excerpt}"`;
+}
@@ -35,3 +35,17 @@ export {
   getProgressColor,
   canSubmitAssessment,
 } from "./progress";
+
+// Cross-assessment delta
+export {
+  diffAssessmentResponses,
+  summarizeDeltaBy,
+  summarizeDeltaTotals,
+} from "./score-delta";
+export type {
+  DeltaResponseInput,
+  QuestionDelta,
+  QuestionChangeDirection,
+  DeltaGroupSummary,
+  DeltaTotals,
+} from "./score-delta";
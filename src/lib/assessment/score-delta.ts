@@ -0,0 +1,268 @@
+/**
+ * Self-Assessment Module - Cross-Assessment Delta
+ *
+ * Compares the responses of two assessments of the same questionnaire and
+ * explains score movement question by question: regressions
+ * (Satisfactory → Not Satisfactory, or a lower maturity level),
+ * improvements, newly Not Applicable answers and evidence changes.
+ */
+
+import type { MaturityLevel } from "@/types/prisma-enums";
+import { maturityLevelToNumeric } from "@/lib/constants/scoring";
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+/**
+ * A single response, flattened with the question attributes used for grouping
+ */
+export interface DeltaResponseInput {
+  questionId: string;
+  pqNumber: string | null;
+  questionTextEn: string;
+  questionTextFr: string;
+  auditArea: string | null;
+  criticalElement: string | null;
+  smsComponent: string | null;
+  studyArea: string | null;
+  responseValue: string | null;
+  maturityLevel: MaturityLevel | null;
+  /** Evidence URLs and linked document IDs */
+  evidence: string[];
+}
+
+export type QuestionChangeDirection = "REGRESSION" | "IMPROVEMENT" | "NEUTRAL";
+
+export interface QuestionResponseState {
+  responseValue: string | null;
+  maturityLevel: MaturityLevel | null;
+}
+
+export interface QuestionDelta {
+  questionId: string;
+  pqNumber: string | null;
+  questionTextEn: string;
+  questionTextFr: string;
+  auditArea: string | null;
+  criticalElement: string | null;
+  smsComponent: string | null;
+  studyArea: string | null;
+  before: QuestionResponseState;
+  after: QuestionResponseState;
+  direction: QuestionChangeDirection;
+  responseChanged: boolean;
+  newlyNotApplicable: boolean;
+  evidenceChanged: boolean;
+  evidenceAdded: number;
+  evidenceRemoved: number;
+}
+
+export interface DeltaGroupSummary {
+  code: string;
+  changed: number;
+  regressions: number;
+  improvements: number;
+  newlyNotApplicable: number;
+  evidenceChanged: number;
+}
+
+export interface DeltaTotals {
+  compared: number;
+  changed: number;
+  regressions: number;
+  improvements: number;
+  newlyNotApplicable: number;
+  evidenceChanged: number;
+}
+
+export type DeltaGroupKey =
+  | "auditArea"
+  | "criticalElement"
+  | "smsComponent"
+  | "studyArea";
+
+// =============================================================================
+// QUESTION-LEVEL DIFF
+// =============================================================================
+
+function emptyResponse(question: DeltaResponseInput): DeltaResponseInput {
+  return {
+    ...question,
+    responseValue: null,
+    maturityLevel: null,
+    evidence: [],
+  };
+}
+
+function classifyDirection(
+  before: DeltaResponseInput,
+  after: DeltaResponseInput
+): QuestionChangeDirection {
+  if (
+    before.responseValue === "SATISFACTORY" &&
+    after.responseValue === "NOT_SATISFACTORY"
+  ) {
+    return "REGRESSION";
+  }
+  if (
+    before.responseValue === "NOT_SATISFACTORY" &&
+    after.responseValue === "SATISFACTORY"
+  ) {
+    return "IMPROVEMENT";
+  }
+
+  if (before.maturityLevel && after.maturityLevel) {
+    const diff =
+      maturityLevelToNumeric(after.maturityLevel) -
+      maturityLevelToNumeric(before.maturityLevel);
+    if (diff < 0) return "REGRESSION";
+    if (diff > 0) return "IMPROVEMENT";
+  }
+
+  return "NEUTRAL";
+}
+
+/**
+ * Diff two sets of responses to the same questionnaire.
+ *
+ * Questions answered in only one assessment are compared against an empty
+ * response. Only questions where the answer or the evidence changed are
+ * returned, regressions first.
+ */
+export function diffAssessmentResponses(
+  base: DeltaResponseInput[],
+  target: DeltaResponseInput[]
+): QuestionDelta[] {
+  const baseById = new Map(base.map((r) => [r.questionId, r]));
+  const targetById = new Map(target.map((r) => [r.questionId, r]));
+  const questionIds = new Set([...baseById.keys(), ...targetById.keys()]);
+
+  const deltas: QuestionDelta[] = [];
+
+  for (const questionId of questionIds) {
+    const afterInput = targetById.get(questionId);
+    const beforeInput = baseById.get(questionId);
+    // At least one side exists for every id in the union
+    const question = (afterInput ?? beforeInput) as DeltaResponseInput;
+    const before = beforeInput ?? emptyResponse(question);
+    const after = afterInput ?? emptyResponse(question);
+
+    const responseChanged =
+      before.responseValue !== after.responseValue ||
+      before.maturityLevel !== after.maturityLevel;
+
+    const beforeEvidence = new Set(before.evidence);
+    const afterEvidence = new Set(after.evidence);
+    const evidenceAdded = [...afterEvidence].filter((e) => !beforeEvidence.has(e)).length;
+    const evidenceRemoved = [...beforeEvidence].filter((e) => !afterEvidence.has(e)).length;
+    const evidenceChanged = evidenceAdded > 0 || evidenceRemoved > 0;
+
+    if (!responseChanged && !evidenceChanged) continue;
+
+    deltas.push({
+      questionId,
+      pqNumber: question.pqNumber,
+      questionTextEn: question.questionTextEn,
+      questionTextFr: question.questionTextFr,
+      auditArea: question.auditArea,
+      criticalElement: question.criticalElement,
+      smsComponent: question.smsComponent,
+      studyArea: question.studyArea,
+      before: {
+        responseValue: before.responseValue,
+        maturityLevel: before.maturityLevel,
+      },
+      after: {
+        responseValue: after.responseValue,
+        maturityLevel: after.maturityLevel,
+      },
+      direction: classifyDirection(before, after),
+      responseChanged,
+      newlyNotApplicable:
+        after.responseValue === "NOT_APPLICABLE" &&
+        before.responseValue !== "NOT_APPLICABLE",
+      evidenceChanged,
+      evidenceAdded,
+      evidenceRemoved,
+    });
+  }
+
+  const order: Record<QuestionChangeDirection, number> = {
+    REGRESSION: 0,
+    IMPROVEMENT: 1,
+    NEUTRAL: 2,
+  };
+
+  return deltas.sort(
+    (a, b) =>
+      order[a.direction] - order[b.direction] ||
+      (a.pqNumber ?? "").localeCompare(b.pqNumber ?? "", undefined, {
+        numeric: true,
+      })
+  );
+}
+
+// =============================================================================
+// AGGREGATION
+// =============================================================================
+
+function emptySummary(code: string): DeltaGroupSummary {
+  return {
+    code,
+    changed: 0,
+    regressions: 0,
+    improvements: 0,
+    newlyNotApplicable: 0,
+    evidenceChanged: 0,
+  };
+}
+
+function addToSummary(summary: Omit<DeltaGroupSummary, "code">, delta: QuestionDelta) {
+  if (delta.responseChanged) summary.changed++;
+  if (delta.direction === "REGRESSION") summary.regressions++;
+  if (delta.direction === "IMPROVEMENT") summary.improvements++;
+  if (delta.newlyNotApplicable) summary.newlyNotApplicable++;
+  if (delta.evidenceChanged) summary.evidenceChanged++;
+}
+
+/**
+ * Count question changes per audit area, critical element, SMS component
+ * or study area. Questions without a value for the key are not counted.
+ */
+export function summarizeDeltaBy(
+  deltas: QuestionDelta[],
+  key: DeltaGroupKey
+): Record<string, DeltaGroupSummary> {
+  const groups: Record<string, DeltaGroupSummary> = {};
+
+  for (const delta of deltas) {
+    const code = delta[key];
+    if (!code) continue;
+    groups[code] ??= emptySummary(code);
+    addToSummary(groups[code], delta);
+  }
+
+  return groups;
+}
+
+/**
+ * Totals across all changed questions
+ */
+export function summarizeDeltaTotals(
+  deltas: QuestionDelta[],
+  compared: number
+): DeltaTotals {
+  const totals: DeltaTotals = {
+    compared,
+    changed: 0,
+    regressions: 0,
+    improvements: 0,
+    newlyNotApplicable: 0,
+    evidenceChanged: 0,
+  };
+  for (const delta of deltas) {
+    addToSummary(totals, delta);
+  }
+  return totals;
+}
@@ -0,0 +1,208 @@
+/**
+ * Audit Log Hash Chain
+ *
+ * Pure helpers for the tamper-evident audit trail. Each sealed entry
+ * stores the SHA-256 of its canonical JSON together with the previous
+ * entry's hash, so editing, deleting or re-ordering any entry breaks
+ * every link after it. Checkpoints pin the chain head with an HMAC so a
+ * truncated or fully rewritten chain is detectable as well.
+ */
+
+import { createHash, createHmac, timingSafeEqual } from "crypto";
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+/** Hash of the (virtual) entry before the first one. */
+export const AUDIT_CHAIN_GENESIS_HASH = "0".repeat(64);
+
+/** The audit log fields covered by an entry's hash. */
+export interface ChainableAuditEntry {
+  id: string;
+  userId: string;
+  action: string;
+  entityType: string;
+  entityId: string;
+  previousState: unknown;
+  newState: unknown;
+  metadata: unknown;
+  ipAddress: string | null;
+  userAgent: string | null;
+  createdAt: Date;
+}
+
+export interface SealedAuditEntry extends ChainableAuditEntry {
+  sequence: number;
+  previousHash: string;
+  hash: string;
+}
+
+export type ChainBreakReason =
+  /** Entries are missing between two sealed entries */
+  | "SEQUENCE_GAP"
+  /** The entry does not point at its predecessor's hash */
+  | "PREVIOUS_HASH_MISMATCH"
+  /** The entry's content no longer matches its stored hash */
+  | "HASH_MISMATCH";
+
+export interface ChainBreak {
+  reason: ChainBreakReason;
+  entryId: string;
+  sequence: number;
+  expectedSequence: number;
+  expectedHash: string;
+  actualHash: string;
+}
+
+export interface ChainSegmentResult {
+  checked: number;
+  lastSequence: number;
+  lastHash: string;
+  break: ChainBreak | null;
+}
+
+export interface CheckpointPayload {
+  sequence: number;
+  hash: string;
+  entryCount: number;
+  createdAt: Date;
+}
+
+// =============================================================================
+// HASHING
+// =============================================================================
+
+/**
+ * JSON with object keys sorted at every level, so the same data always
+ * serialises to the same bytes whatever order the database returns it in.
+ */
+export function canonicalJson(value: unknown): string {
+  if (value === undefined || value === null) return "null";
+  if (value instanceof Date) return JSON.stringify(value.toISOString());
+  if (Array.isArray(value)) return `[${value.map(canonicalJson).join(",")}]`;
+  if (typeof value === "object") {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+      .map(([k, v]) => `${JSON.stringify(k)}:${canonicalJson(v)}`);
+    return `{${entries.join(",")}}`;
+  }
+  return JSON.stringify(value);
+}
+
+/**
+ * SHA-256 over the entry's canonical JSON, its position and the hash of
+ * the entry before it.
+ */
+export function computeAuditEntryHash(
+  entry: ChainableAuditEntry,
+  sequence: number,
+  previousHash: string
+): string {
+  const payload = canonicalJson({
+    sequence,
+    previousHash,
+    id: entry.id,
+    userId: entry.userId,
+    action: entry.action,
+    entityType: entry.entityType,
+    entityId: entry.entityId,
+    previousState: entry.previousState,
+    newState: entry.newState,
+    metadata: entry.metadata,
+    ipAddress: entry.ipAddress,
+    userAgent: entry.userAgent,
+    createdAt: entry.createdAt,
+  });
+
+  return createHash("sha256").update(payload).digest("hex");
+}
+
+// =============================================================================
+// VERIFICATION
+// =============================================================================
+
+/**
+ * Walk a run of sealed entries, in sequence order, and report the first
+ * break. `start` is where the run is expected to begin: the sequence and
+ * hash following the previous run, or 1 and the genesis hash.
+ */
+export function verifyChainSegment(
+  entries: SealedAuditEntry[],
+  start: { sequence: number; previousHash: string } = {
+    sequence: 1,
+    previousHash: AUDIT_CHAIN_GENESIS_HASH,
+  }
+): ChainSegmentResult {
+  let expectedSequence = start.sequence;
+  let previousHash = start.previousHash;
+  let checked = 0;
+
+  for (const entry of entries) {
+    const base = { entryId: entry.id, sequence: entry.sequence, expectedSequence };
+
+    if (entry.sequence !== expectedSequence) {
+      return {
+        checked,
+        lastSequence: expectedSequence - 1,
+        lastHash: previousHash,
+        break: { ...base, reason: "SEQUENCE_GAP", expectedHash: previousHash, actualHash: entry.previousHash },
+      };
+    }
+
+    if (entry.previousHash !== previousHash) {
+      return {
+        checked,
+        lastSequence: expectedSequence - 1,
+        lastHash: previousHash,
+        break: { ...base, reason: "PREVIOUS_HASH_MISMATCH", expectedHash: previousHash, actualHash: entry.previousHash },
+      };
+    }
+
+    const recomputed = computeAuditEntryHash(entry, entry.sequence, entry.previousHash);
+    if (recomputed !== entry.hash) {
+      return {
+        checked,
+        lastSequence: expectedSequence - 1,
+        lastHash: previousHash,
+        break: { ...base, reason: "HASH_MISMATCH", expectedHash: recomputed, actualHash: entry.hash },
+      };
+    }
+
+    checked++;
+    expectedSequence++;
+    previousHash = entry.hash;
+  }
+
+  return { checked, lastSequence: expectedSequence - 1, lastHash: previousHash, break: null };
+}
+
+// =============================================================================
+// CHECKPOINTS
+// =============================================================================
+
+function checkpointMessage(checkpoint: CheckpointPayload): string {
+  return canonicalJson({
+    type: "audit-checkpoint",
+    sequence: checkpoint.sequence,
+    hash: checkpoint.hash,
+    entryCount: checkpoint.entryCount,
+    createdAt: checkpoint.createdAt,
+  });
+}
+
+/** HMAC-SHA256 signature of a checkpoint, hex encoded. */
+export function signCheckpoint(checkpoint: CheckpointPayload, secret: string): string {
+  return createHmac("sha256", secret).update(checkpointMessage(checkpoint)).digest("hex");
+}
+
+export function verifyCheckpointSignature(
+  checkpoint: CheckpointPayload,
+  signature: string,
+  secret: string
+): boolean {
+  const expected = Buffer.from(signCheckpoint(checkpoint, secret), "hex");
+  const actual = Buffer.from(signature, "hex");
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
@@ -292,112 +292,3 @@ export function formatRelativeDate(date: Date, locale: string = "en"): string {
     year: diffDays > 365 || diffDays < -365 ? "numeric" : undefined,
   });
 }
-
-// =============================================================================
-// RECURRENCE HELPERS (Basic implementation)
-// =============================================================================
-
-/**
- * Parse a simple recurrence pattern
- * Supports basic RRULE format subset: FREQ=WEEKLY;BYDAY=MO,TU,WE,TH,FR
- */
-export function parseRecurrenceRule(rule: string): {
-  frequency: string;
-  interval: number;
-  daysOfWeek?: number[];
-  until?: Date;
-} | null {
-  if (!rule) return null;
-
-  try {
-    const parts = rule.split(";");
-    const result: {
-      frequency: string;
-      interval: number;
-      daysOfWeek?: number[];
-      until?: Date;
-    } = {
-      frequency: "WEEKLY",
-      interval: 1,
-    };
-
-    for (const part of parts) {
-      const [key, value] = part.split("=");
-
-      switch (key) {
-        case "FREQ":
-          result.frequency = value;
-          break;
-        case "INTERVAL":
-          result.interval = parseInt(value, 10);
-          break;
-        case "BYDAY": {
-          const dayMap: Record<string, number> = {
-            SU: 0,
-            MO: 1,
-            TU: 2,
-            WE: 3,
-            TH: 4,
-            FR: 5,
-            SA: 6,
-          };
-          result.daysOfWeek = value
-            .split(",")
-            .map((d) => dayMap[d])
-            .filter((d) => d !== undefined);
-          break;
-        }
-        case "UNTIL":
-          result.until = new Date(value);
-          break;
-      }
-    }
-
-    return result;
-  } catch {
-    return null;
-  }
-}
-
-/**
- * Generate dates based on a recurrence pattern
- */
-export function generateRecurringDates(
-  startDate: Date,
-  endDate: Date,
-  rule: string,
-  maxOccurrences: number = 100
-): Date[] {
-  const parsed = parseRecurrenceRule(rule);
-  if (!parsed) return [startDate];
-
-  const dates: Date[] = [];
-  const current = new Date(startDate);
-  const until = parsed.until
-    ? new Date(Math.min(parsed.until.getTime(), endDate.getTime()))
-    : endDate;
-
-  while (current <= until && dates.length < maxOccurrences) {
-    if (parsed.frequency === "WEEKLY" && parsed.daysOfWeek) {
-      // For weekly recurrence with specific days
-      if (parsed.daysOfWeek.includes(current.getDay())) {
-        dates.push(new Date(current));
-      }
-      current.setDate(current.getDate() + 1);
-    } else if (parsed.frequency === "DAILY") {
-      dates.push(new Date(current));
-      current.setDate(current.getDate() + parsed.interval);
-    } else if (parsed.frequency === "WEEKLY") {
-      dates.push(new Date(current));
-      current.setDate(current.getDate() + 7 * parsed.interval);
-    } else if (parsed.frequency === "MONTHLY") {
-      dates.push(new Date(current));
-      current.setMonth(current.getMonth() + parsed.interval);
-    } else {
-      dates.push(new Date(current));
-      break;
-    }
-  }
-
-  return dates;
-}
@@ -2,7 +2,8 @@
  * Availability Calendar System
  *
  * Comprehensive availability management for peer reviewers.
- * Includes types, validation schemas, utilities, and calendar helpers.
+ * Includes types, validation schemas, utilities, calendar helpers and the
+ * recurrence engine.
  *
  * @module lib/availability
  */
@@ -18,3 +19,6 @@ export * from "./utils";
 
 // Calendar helpers
 export * from "./calendar-helpers";
+
+// Recurrence engine
+export * from "./recurrence";
@@ -0,0 +1,549 @@
+/**
+ * Availability Calendar System - Recurrence Engine
+ *
+ * Expands recurring availability slots (RRULE subset stored in
+ * `ReviewerAvailability.recurrencePattern`) into concrete occurrences.
+ *
+ * Supported rule parts: FREQ (DAILY, WEEKLY, MONTHLY, YEARLY), INTERVAL,
+ * COUNT, UNTIL, BYDAY (with ordinals for MONTHLY/YEARLY), BYMONTHDAY and
+ * EXDATE. The stored slot is the first instance (DTSTART) and its length
+ * is the duration of every occurrence. Day arithmetic is done in UTC,
+ * matching how availability dates are stored.
+ *
+ * @module lib/availability/recurrence
+ */
+
+import type { AvailabilityType, Prisma } from "@prisma/client";
+import type {
+  DateRange,
+  ExpandedSlot,
+  RecurrenceFrequency,
+  RecurrenceInfo,
+  RecurrenceWeekday,
+  RecurringSlotFields,
+} from "./types";
+import { AVAILABILITY_CONFIG } from "./types";
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const WEEKDAY_CODES = ["SU", "MO", "TU", "WE", "TH", "FR", "SA"] as const;
+
+const FREQUENCIES: RecurrenceFrequency[] = ["DAILY", "WEEKLY", "MONTHLY", "YEARLY"];
+
+/** Upper bound on generated occurrences per series and query */
+export const MAX_RECURRENCE_OCCURRENCES = 1000;
+
+/** Upper bound on iterated periods, guards rules that never match */
+const MAX_RECURRENCE_PERIODS = 10000;
+
+/** Types that block a reviewer from being scheduled */
+const BLOCKING_TYPES: AvailabilityType[] = ["UNAVAILABLE", "ON_ASSIGNMENT"];
+
+// =============================================================================
+// DATE HELPERS
+// =============================================================================
+
+function startOfUtcDay(time: number): number {
+  const date = new Date(time);
+  return Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate());
+}
+
+function daysInUtcMonth(year: number, month: number): number {
+  return new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+}
+
+function toDayKey(time: number): string {
+  return new Date(time).toISOString().split("T")[0];
+}
+
+function toRuleDate(date: Date): string {
+  return toDayKey(date.getTime()).replace(/-/g, "");
+}
+
+/**
+ * Parse an RRULE date (YYYYMMDD or YYYYMMDDTHHMMSSZ).
+ * Date-only values are inclusive of the whole day.
+ */
+function parseRuleDate(value: string, endOfDay: boolean): Date | null {
+  const match = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})Z?)?$/.exec(value);
+  if (!match) return null;
+
+  const [, year, month, day, hours, minutes, seconds] = match;
+  if (hours === undefined) {
+    const time = Date.UTC(Number(year), Number(month) - 1, Number(day));
+    return new Date(endOfDay ? time + DAY_MS - 1 : time);
+  }
+  return new Date(
+    Date.UTC(
+      Number(year),
+      Number(month) - 1,
+      Number(day),
+      Number(hours),
+      Number(minutes),
+      Number(seconds)
+    )
+  );
+}
+
+// =============================================================================
+// PARSING
+// =============================================================================
+
+/**
+ * Parse a recurrence rule string.
+ *
+ * Returns null when the rule is empty or invalid. `FREQ=BIWEEKLY`, written
+ * by earlier versions of the bulk availability form, is read as
+ * `FREQ=WEEKLY;INTERVAL=2`.
+ */
+export function parseRecurrenceRule(rule: string | null | undefined): RecurrenceInfo | null {
+  if (!rule) return null;
+
+  const body = rule.trim().replace(/^RRULE:/i, "");
+  if (!body) return null;
+
+  let frequency: RecurrenceFrequency | null = null;
+  let interval = 1;
+  let byDay: RecurrenceWeekday[] | undefined;
+  let byMonthDay: number[] | undefined;
+  let count: number | undefined;
+  let until: Date | undefined;
+  let exceptions: Date[] | undefined;
+
+  for (const part of body.split(";")) {
+    if (!part) continue;
+    const [rawKey, value = ""] = part.split("=");
+    const key = rawKey.trim().toUpperCase();
+
+    switch (key) {
+      case "FREQ": {
+        const upper = value.toUpperCase();
+        if (upper === "BIWEEKLY") {
+          frequency = "WEEKLY";
+          interval = 2;
+        } else if ((FREQUENCIES as string[]).includes(upper)) {
+          frequency = upper as RecurrenceFrequency;
+        } else {
+          return null;
+        }
+        break;
+      }
+      case "INTERVAL": {
+        const parsed = Number(value);
+        if (!Number.isInteger(parsed) || parsed < 1) return null;
+        interval = parsed;
+        break;
+      }
+      case "COUNT": {
+        const parsed = Number(value);
+        if (!Number.isInteger(parsed) || parsed < 1) return null;
+        count = parsed;
+        break;
+      }
+      case "UNTIL": {
+        const parsed = parseRuleDate(value, true);
+        if (!parsed) return null;
+        until = parsed;
+        break;
+      }
+      case "BYDAY": {
+        const days: RecurrenceWeekday[] = [];
+        for (const entry of value.split(",")) {
+          const match = /^([+-]?\d{1,2})?(SU|MO|TU|WE|TH|FR|SA)$/i.exec(entry.trim());
+          if (!match) return null;
+          const ordinal = match[1] ? Number(match[1]) : undefined;
+          if (ordinal !== undefined && (ordinal === 0 || Math.abs(ordinal) > 5)) {
+            return null;
+          }
+          days.push({
+            day: WEEKDAY_CODES.indexOf(match[2].toUpperCase() as (typeof WEEKDAY_CODES)[number]),
+            ordinal,
+          });
+        }
+        byDay = days;
+        break;
+      }
+      case "BYMONTHDAY": {
+        const days = value.split(",").map((entry) => Number(entry));
+        if (days.some((d) => !Number.isInteger(d) || d === 0 || Math.abs(d) > 31)) {
+          return null;
+        }
+        byMonthDay = days;
+        break;
+      }
+      case "EXDATE": {
+        const dates = value.split(",").map((entry) => parseRuleDate(entry.trim(), false));
+        if (dates.some((d) => d === null)) return null;
+        exceptions = dates as Date[];
+        break;
+      }
+      default:
+        // Unsupported parts (WKST, BYSETPOS, ...) are ignored
+        break;
+    }
+  }
+
+  if (!frequency) return null;
+
+  // Ordinals only make sense within a month or year
+  if (
+    byDay?.some((d) => d.ordinal !== undefined) &&
+    frequency !== "MONTHLY" &&
+    frequency !== "YEARLY"
+  ) {
+    return null;
+  }
+
+  return { frequency, interval, byDay, byMonthDay, count, until, exceptions };
+}
+
+/**
+ * Check whether a string is a valid recurrence rule
+ */
+export function isValidRecurrenceRule(rule: string): boolean {
+  return parseRecurrenceRule(rule) !== null;
+}
+
+/**
+ * Serialize recurrence information back to a rule string
+ */
+export function formatRecurrenceRule(info: RecurrenceInfo): string {
+  const parts = [`FREQ=${info.frequency}`];
+
+  if (info.interval > 1) parts.push(`INTERVAL=${info.interval}`);
+  if (info.byDay?.length) {
+    parts.push(
+      `BYDAY=${info.byDay
+        .map((d) => `${d.ordinal ?? ""}${WEEKDAY_CODES[d.day]}`)
+        .join(",")}`
+    );
+  }
+  if (info.byMonthDay?.length) parts.push(`BYMONTHDAY=${info.byMonthDay.join(",")}`);
+  if (info.count) parts.push(`COUNT=${info.count}`);
+  if (info.until) parts.push(`UNTIL=${toRuleDate(info.until)}`);
+  if (info.exceptions?.length) {
+    parts.push(`EXDATE=${info.exceptions.map(toRuleDate).join(",")}`);
+  }
+
+  return parts.join(";");
+}
+
+// =============================================================================
+// EXPANSION
+// =============================================================================
+
+/**
+ * Candidate days (UTC midnight) within a month for MONTHLY/YEARLY rules
+ */
+function monthCandidates(
+  info: RecurrenceInfo,
+  year: number,
+  month: number,
+  defaultDay: number
+): number[] {
+  const dayCount = daysInUtcMonth(year, month);
+  let days: number[];
+
+  const fromMonthDays = info.byMonthDay
+    ?.map((d) => (d > 0 ? d : dayCount + d + 1))
+    .filter((d) => d >= 1 && d <= dayCount);
+
+  if (info.byDay?.length) {
+    const fromWeekdays: number[] = [];
+    for (const { day, ordinal } of info.byDay) {
+      const matches: number[] = [];
+      for (let d = 1; d <= dayCount; d++) {
+        if (new Date(Date.UTC(year, month, d)).getUTCDay() === day) matches.push(d);
+      }
+      if (ordinal === undefined) {
+        fromWeekdays.push(...matches);
+      } else {
+        const picked = ordinal > 0 ? matches[ordinal - 1] : matches[matches.length + ordinal];
+        if (picked !== undefined) fromWeekdays.push(picked);
+      }
+    }
+    days = fromMonthDays
+      ? fromWeekdays.filter((d) => fromMonthDays.includes(d))
+      : fromWeekdays;
+  } else if (fromMonthDays) {
+    days = fromMonthDays;
+  } else {
+    // RFC 5545: months without DTSTART's day are skipped, not clamped
+    days = defaultDay <= dayCount ? [defaultDay] : [];
+  }
+
+  return [...new Set(days)]
+    .sort((a, b) => a - b)
+    .map((d) => Date.UTC(year, month, d));
+}
+
+/**
+ * Period start and sorted candidate days for the n-th period of a rule
+ */
+function periodCandidates(
+  info: RecurrenceInfo,
+  dtstartDay: number,
+  index: number
+): { periodStart: number; days: number[] } {
+  const start = new Date(dtstartDay);
+  const step = index * info.interval;
+  const weekdayMatches = (time: number) =>
+    !info.byDay?.length || info.byDay.some((d) => d.day === new Date(time).getUTCDay());
+  const monthDayMatches = (time: number) => {
+    if (!info.byMonthDay?.length) return true;
+    const date = new Date(time);
+    const dayCount = daysInUtcMonth(date.getUTCFullYear(), date.getUTCMonth());
+    return info.byMonthDay.some(
+      (d) => (d > 0 ? d : dayCount + d + 1) === date.getUTCDate()
+    );
+  };
+
+  switch (info.frequency) {
+    case "DAILY": {
+      const day = dtstartDay + step * DAY_MS;
+      return {
+        periodStart: day,
+        days: weekdayMatches(day) && monthDayMatches(day) ? [day] : [],
+      };
+    }
+    case "WEEKLY": {
+      // Weeks start on Monday (RFC 5545 default WKST)
+      const weekStart = dtstartDay - ((start.getUTCDay() + 6) % 7) * DAY_MS + step * 7 * DAY_MS;
+      const weekdays = info.byDay?.length
+        ? info.byDay.map((d) => d.day)
+        : [start.getUTCDay()];
+      const days = [...new Set(weekdays)]
+        .map((day) => weekStart + ((day + 6) % 7) * DAY_MS)
+        .filter(monthDayMatches)
+        .sort((a, b) => a - b);
+      return { periodStart: weekStart, days };
+    }
+    case "MONTHLY": {
+      const monthIndex = start.getUTCMonth() + step;
+      const year = start.getUTCFullYear() + Math.floor(monthIndex / 12);
+      const month = monthIndex % 12;
+      return {
+        periodStart: Date.UTC(year, month, 1),
+        days: monthCandidates(info, year, month, start.getUTCDate()),
+      };
+    }
+    case "YEARLY": {
+      const year = start.getUTCFullYear() + step;
+      return {
+        periodStart: Date.UTC(year, 0, 1),
+        days: monthCandidates(info, year, start.getUTCMonth(), start.getUTCDate()),
+      };
+    }
+  }
+}
+
+/**
+ * Expand a recurring date range into the occurrences that overlap a window.
+ *
+ * @param startDate - Start of the first instance (DTSTART)
+ * @param endDate - End of the first instance; defines each occurrence's length
+ * @param rule - Recurrence rule string or parsed rule
+ * @param window - Only occurrences overlapping this range are returned
+ * @param maxOccurrences - Safety cap on returned occurrences
+ */
+export function expandRecurrence(
+  startDate: Date,
+  endDate: Date,
+  rule: string | RecurrenceInfo,
+  window: DateRange,
+  maxOccurrences: number = MAX_RECURRENCE_OCCURRENCES
+): DateRange[] {
+  const info = typeof rule === "string" ? parseRecurrenceRule(rule) : rule;
+  const dtstart = startDate.getTime();
+  const duration = Math.max(0, endDate.getTime() - dtstart);
+  const windowStart = window.start.getTime();
+  const windowEnd = window.end.getTime();
+
+  // Invalid rule: treat the slot as a single, non-recurring range
+  if (!info) {
+    return dtstart <= windowEnd && dtstart + duration >= windowStart
+      ? [{ start: new Date(dtstart), end: new Date(dtstart + duration) }]
+      : [];
+  }
+
+  const dtstartDay = startOfUtcDay(dtstart);
+  const timeOfDay = dtstart - dtstartDay;
+  const until = info.until?.getTime() ?? Infinity;
+  const horizon = Math.min(until, windowEnd);
+  const excluded = new Set((info.exceptions ?? []).map((d) => toDayKey(d.getTime())));
+
+  const occurrences: DateRange[] = [];
+  let generated = 0;
+
+  for (let index = 0; index < MAX_RECURRENCE_PERIODS; index++) {
+    const { periodStart, days } = periodCandidates(info, dtstartDay, index);
+    if (periodStart > horizon) break;
+
+    for (const day of days) {
+      const occurrenceStart = day + timeOfDay;
+      if (occurrenceStart < dtstart) continue;
+      if (occurrenceStart > until) return occurrences;
+      if (info.count !== undefined && generated >= info.count) return occurrences;
+
+      generated++;
+      if (excluded.has(toDayKey(day))) continue;
+      if (occurrenceStart > windowEnd) return occurrences;
+
+      if (occurrenceStart + duration >= windowStart) {
+        occurrences.push({
+          start: new Date(occurrenceStart),
+          end: new Date(occurrenceStart + duration),
+        });
+        if (occurrences.length >= maxOccurrences) return occurrences;
+      }
+    }
+  }
+
+  return occurrences;
+}
+
+/**
+ * Replace recurring slots with their occurrences inside a window.
+ *
+ * Non-recurring slots are returned unchanged. Occurrences keep every field
+ * of their series (including the id) with shifted start/end dates, and are
+ * marked with `seriesStartDate` so they are never expanded twice.
+ */
+export function expandAvailabilitySlots<T extends RecurringSlotFields>(
+  slots: T[],
+  window: DateRange
+): ExpandedSlot<T>[] {
+  const expanded: ExpandedSlot<T>[] = [];
+
+  for (const slot of slots) {
+    const alreadyExpanded = (slot as ExpandedSlot<T>).seriesStartDate !== undefined;
+    if (!slot.isRecurring || !slot.recurrencePattern || alreadyExpanded) {
+      expanded.push(slot);
+      continue;
+    }
+
+    const startDate = new Date(slot.startDate);
+    const occurrences = expandRecurrence(
+      startDate,
+      new Date(slot.endDate),
+      slot.recurrencePattern,
+      window
+    );
+    for (const occurrence of occurrences) {
+      expanded.push({
+        ...slot,
+        startDate: occurrence.start,
+        endDate: occurrence.end,
+        seriesStartDate: startDate,
+      });
+    }
+  }
+
+  return expanded.sort(
+    (a, b) => new Date(a.startDate).getTime() - new Date(b.startDate).getTime()
+  );
+}
+
+// =============================================================================
+// AVAILABILITY CHECKS
+// =============================================================================
+
+/**
+ * Resolve the effective availability type for each day of a window.
+ * When slots overlap, the type with the highest priority wins
+ * (ON_ASSIGNMENT > UNAVAILABLE > TENTATIVE > AVAILABLE).
+ *
+ * @returns Map of YYYY-MM-DD to availability type; days without slots are absent
+ */
+export function resolveDailyAvailability<
+  T extends RecurringSlotFields & { availabilityType: AvailabilityType },
+>(slots: T[], window: DateRange): Map<string, AvailabilityType> {
+  const days = new Map<string, AvailabilityType>();
+  const windowStart = startOfUtcDay(window.start.getTime());
+  const windowEnd = window.end.getTime();
+
+  for (const slot of expandAvailabilitySlots(slots, window)) {
+    const slotEnd = new Date(slot.endDate).getTime();
+    let day = Math.max(startOfUtcDay(new Date(slot.startDate).getTime()), windowStart);
+
+    while (day <= slotEnd && day <= windowEnd) {
+      const key = toDayKey(day);
+      const current = days.get(key);
+      if (
+        !current ||
+        AVAILABILITY_CONFIG[slot.availabilityType].priority >
+          AVAILABILITY_CONFIG[current].priority
+      ) {
+        days.set(key, slot.availabilityType);
+      }
+      day += DAY_MS;
+    }
+  }
+
+  return days;
+}
+
+/**
+ * Check whether any blocking occurrence (UNAVAILABLE or ON_ASSIGNMENT)
+ * overlaps a window.
+ *
+ * @param ignoreReviewId - Assignment blocks for this review are not conflicts
+ */
+export function hasBlockingAvailability<
+  T extends RecurringSlotFields & {
+    availabilityType: AvailabilityType;
+    reviewId?: string | null;
+  },
+>(slots: T[], window: DateRange, ignoreReviewId?: string): boolean {
+  return expandAvailabilitySlots(
+    slots.filter(
+      (slot) =>
+        BLOCKING_TYPES.includes(slot.availabilityType) &&
+        (!ignoreReviewId || slot.reviewId !== ignoreReviewId)
+    ),
+    window
+  ).some(
+    (slot) =>
+      new Date(slot.startDate) <= window.end && new Date(slot.endDate) >= window.start
+  );
+}
+
+/**
+ * Check whether AVAILABLE occurrences cover every day of a window with no
+ * blocking occurrence in between.
+ */
+export function isAvailableThroughout<
+  T extends RecurringSlotFields & { availabilityType: AvailabilityType },
+>(slots: T[], window: DateRange): boolean {
+  const days = resolveDailyAvailability(slots, window);
+  const end = startOfUtcDay(window.end.getTime());
+
+  for (let day = startOfUtcDay(window.start.getTime()); day <= end; day += DAY_MS) {
+    if (days.get(toDayKey(day)) !== "AVAILABLE") return false;
+  }
+  return true;
+}
+
+// =============================================================================
+// QUERY HELPERS
+// =============================================================================
+
+/**
+ * Prisma filter for availability rows that can produce an occurrence in a
+ * window: plain slots overlapping it, plus recurring series starting before
+ * its end (their occurrences are resolved with expandAvailabilitySlots).
+ */
+export function availabilityWindowFilter(
+  window: DateRange
+): Prisma.ReviewerAvailabilityWhereInput {
+  return {
+    OR: [
+      { startDate: { lte: window.end }, endDate: { gte: window.start } },
+      { isRecurring: true, startDate: { lte: window.end } },
+    ],
+  };
+}
@@ -7,6 +7,7 @@
  */
 
 import { z } from "zod";
+import { isValidRecurrenceRule } from "./recurrence";
 
 // =============================================================================
 // ENUMS
@@ -23,6 +24,14 @@ export const availabilityTypeSchema = z.enum([
 // BASE SCHEMAS
 // =============================================================================
 
+/**
+ * Schema for a recurrence rule (see recurrence.ts for the supported subset)
+ */
+export const recurrencePatternSchema = z
+  .string()
+  .max(500)
+  .refine(isValidRecurrenceRule, { message: "Invalid recurrence rule" });
+
 /**
  * Schema for a date range
  */
@@ -52,7 +61,7 @@ export const createSlotSchema = z
     title: z.string().max(200).optional(),
     notes: z.string().max(1000).optional(),
     isRecurring: z.boolean().default(false),
-    recurrencePattern: z.string().max(500).optional(),
+    recurrencePattern: recurrencePatternSchema.optional(),
   })
   .refine((data) => data.endDate >= data.startDate, {
     message: "End date must be on or after start date",
@@ -80,6 +89,8 @@ export const bulkCreateSlotsSchema = z.object({
           availabilityType: availabilityTypeSchema.default("AVAILABLE"),
           title: z.string().max(200).optional(),
           notes: z.string().max(1000).optional(),
+          isRecurring: z.boolean().default(false),
+          recurrencePattern: recurrencePatternSchema.optional(),
         })
         .refine((data) => data.endDate >= data.startDate, {
           message: "End date must be on or after start date",
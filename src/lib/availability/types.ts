@@ -280,7 +280,7 @@ export interface CalendarMonth {
 }
 
 // =============================================================================
-// RECURRENCE TYPES (Optional feature)
+// RECURRENCE TYPES
 // =============================================================================
 
 /**
@@ -289,19 +289,45 @@ export interface CalendarMonth {
 export type RecurrenceFrequency = "DAILY" | "WEEKLY" | "MONTHLY" | "YEARLY";
 
 /**
- * Parsed recurrence information
+ * BYDAY entry - weekday with optional ordinal ("2MO" = second Monday, "-1FR" = last Friday)
+ */
+export interface RecurrenceWeekday {
+  day: number; // 0-6, Sunday=0
+  ordinal?: number; // MONTHLY/YEARLY only
+}
+
+/**
+ * Parsed recurrence information (RFC 5545 RRULE subset plus EXDATE)
  */
 export interface RecurrenceInfo {
   frequency: RecurrenceFrequency;
   interval: number; // Every N days/weeks/months/years
-  daysOfWeek?: number[]; // 0-6, Sunday=0 (for WEEKLY)
-  dayOfMonth?: number; // 1-31 (for MONTHLY)
-  monthOfYear?: number; // 1-12 (for YEARLY)
-  count?: number; // Number of occurrences
-  until?: Date; // End date
-  exceptions?: Date[]; // Dates to skip
+  byDay?: RecurrenceWeekday[];
+  byMonthDay?: number[]; // 1-31, negative counts from month end
+  count?: number; // Number of occurrences (EXDATEs still count)
+  until?: Date; // Last possible occurrence start (inclusive)
+  exceptions?: Date[]; // EXDATE - occurrence days to skip
+}
+
+/**
+ * Minimal slot fields needed to expand a recurring slot
+ */
+export interface RecurringSlotFields {
+  startDate: Date;
+  endDate: Date;
+  isRecurring?: boolean | null;
+  recurrencePattern?: string | null;
 }
 
+/**
+ * A slot occurrence produced by expanding a recurring series.
+ * Keeps the series' id so edits and deletes apply to the whole series.
+ */
+export type ExpandedSlot<T extends RecurringSlotFields> = T & {
+  /** Start of the stored series slot when this is a generated occurrence */
+  seriesStartDate?: Date;
+};
+
 // =============================================================================
 // STATS TYPES
 // =============================================================================
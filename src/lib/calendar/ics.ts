@@ -0,0 +1,375 @@
+/**
+ * iCalendar (RFC 5545) Support
+ *
+ * Serializes calendar events to ICS for subscription feeds and reads
+ * VEVENTs back from uploaded ICS files. Events are day-based: dates are
+ * written as all-day `VALUE=DATE` values with an inclusive `end`, matching
+ * how review, CAP and availability dates are stored (UTC midnight).
+ *
+ * @module lib/calendar/ics
+ */
+
+import {
+  formatRecurrenceRule,
+  parseRecurrenceRule,
+} from "@/lib/availability/recurrence";
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface IcsEvent {
+  /** Globally unique, stable identifier (kept across feed refreshes) */
+  uid: string;
+  summary: string;
+  description?: string;
+  location?: string;
+  url?: string;
+  /** First day of the event */
+  start: Date;
+  /** Last day of the event (inclusive) */
+  end: Date;
+  /** Recurrence rule in the stored availability format (may embed EXDATE) */
+  recurrencePattern?: string | null;
+  status?: "CONFIRMED" | "TENTATIVE" | "CANCELLED";
+  /** FREE events do not block time in the subscriber's calendar */
+  transparency?: "OPAQUE" | "TRANSPARENT";
+  categories?: string[];
+  lastModified?: Date;
+}
+
+export interface IcsCalendarOptions {
+  name: string;
+  description?: string;
+  /** Timestamp written to DTSTAMP (defaults to now) */
+  generatedAt?: Date;
+}
+
+export interface ParsedIcsEvent {
+  uid?: string;
+  summary?: string;
+  description?: string;
+  /** First day of the event (UTC midnight) */
+  start: Date;
+  /** Last day of the event (UTC midnight, inclusive) */
+  end: Date;
+  /** Normalized recurrence pattern with EXDATEs, if the RRULE is supported */
+  recurrencePattern?: string;
+  /** RRULE present but not supported by the recurrence engine */
+  unsupportedRecurrence?: boolean;
+  status?: string;
+}
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const PRODUCT_ID = "-//AAPRP//Peer Review Programme//EN";
+
+/** RFC 5545 limits content lines to 75 octets */
+const MAX_LINE_OCTETS = 75;
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+function startOfUtcDay(date: Date): Date {
+  return new Date(
+    Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate())
+  );
+}
+
+function formatDate(date: Date): string {
+  return date.toISOString().slice(0, 10).replace(/-/g, "");
+}
+
+function formatDateTime(date: Date): string {
+  return `${date.toISOString().slice(0, 19).replace(/[-:]/g, "")}Z`;
+}
+
+/**
+ * Escape a TEXT value (RFC 5545 §3.3.11)
+ */
+export function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r?\n/g, "\\n");
+}
+
+function unescapeText(value: string): string {
+  return value.replace(/\\([\\;,nN])/g, (_, char: string) =>
+    char === "n" || char === "N" ? "\n" : char
+  );
+}
+
+/**
+ * Fold a content line at 75 octets without splitting UTF-8 sequences
+ */
+export function foldLine(line: string): string {
+  const encoder = new TextEncoder();
+  if (encoder.encode(line).length <= MAX_LINE_OCTETS) return line;
+
+  const chunks: string[] = [];
+  let current = "";
+  let currentOctets = 0;
+  // Continuation lines start with a space, which counts towards the limit
+  let limit = MAX_LINE_OCTETS;
+
+  for (const char of line) {
+    const octets = encoder.encode(char).length;
+    if (currentOctets + octets > limit) {
+      chunks.push(current);
+      current = "";
+      currentOctets = 0;
+      limit = MAX_LINE_OCTETS - 1;
+    }
+    current += char;
+    currentOctets += octets;
+  }
+  chunks.push(current);
+
+  return chunks.join("\r\n ");
+}
+
+// =============================================================================
+// SERIALIZATION
+// =============================================================================
+
+function serializeEvent(event: IcsEvent, stamp: string): string[] {
+  const start = startOfUtcDay(event.start);
+  const lastDay = startOfUtcDay(event.end < event.start ? event.start : event.end);
+  // DTEND is exclusive for all-day events
+  const end = new Date(lastDay.getTime() + DAY_MS);
+
+  const lines = [
+    "BEGIN:VEVENT",
+    `UID:${event.uid}`,
+    `DTSTAMP:${stamp}`,
+    `DTSTART;VALUE=DATE:${formatDate(start)}`,
+    `DTEND;VALUE=DATE:${formatDate(end)}`,
+    `SUMMARY:${escapeText(event.summary)}`,
+  ];
+
+  if (event.description) lines.push(`DESCRIPTION:${escapeText(event.description)}`);
+  if (event.location) lines.push(`LOCATION:${escapeText(event.location)}`);
+  if (event.url) lines.push(`URL:${event.url}`);
+  if (event.categories?.length) {
+    lines.push(`CATEGORIES:${event.categories.map(escapeText).join(",")}`);
+  }
+  if (event.status) lines.push(`STATUS:${event.status}`);
+  if (event.transparency) lines.push(`TRANSP:${event.transparency}`);
+  if (event.lastModified) {
+    lines.push(`LAST-MODIFIED:${formatDateTime(event.lastModified)}`);
+  }
+
+  // Stored patterns embed EXDATE in the rule; ICS needs a separate property
+  const recurrence = parseRecurrenceRule(event.recurrencePattern);
+  if (recurrence) {
+    const { exceptions, ...rule } = recurrence;
+    lines.push(`RRULE:${formatRecurrenceRule(rule)}`);
+    if (exceptions?.length) {
+      lines.push(`EXDATE;VALUE=DATE:${exceptions.map(formatDate).join(",")}`);
+    }
+  }
+
+  lines.push("END:VEVENT");
+  return lines;
+}
+
+/**
+ * Build an ICS calendar document
+ */
+export function buildCalendar(
+  events: IcsEvent[],
+  options: IcsCalendarOptions
+): string {
+  const stamp = formatDateTime(options.generatedAt ?? new Date());
+
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    `PRODID:${PRODUCT_ID}`,
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    `X-WR-CALNAME:${escapeText(options.name)}`,
+  ];
+  if (options.description) {
+    lines.push(`X-WR-CALDESC:${escapeText(options.description)}`);
+  }
+  // Ask clients to refresh subscriptions every few hours
+  lines.push("REFRESH-INTERVAL;VALUE=DURATION:PT4H", "X-PUBLISHED-TTL:PT4H");
+
+  for (const event of events) {
+    lines.push(...serializeEvent(event, stamp));
+  }
+  lines.push("END:VCALENDAR");
+
+  return `${lines.map(foldLine).join("\r\n")}\r\n`;
+}
+
+// =============================================================================
+// PARSING
+// =============================================================================
+
+interface ContentLine {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+}
+
+function parseContentLine(line: string): ContentLine | null {
+  // The value starts after the first colon outside a quoted parameter
+  let inQuotes = false;
+  let separator = -1;
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (char === '"') inQuotes = !inQuotes;
+    if (char === ":" && !inQuotes) {
+      separator = i;
+      break;
+    }
+  }
+  if (separator === -1) return null;
+
+  const [name, ...rawParams] = line.slice(0, separator).split(";");
+  const params: Record<string, string> = {};
+  for (const param of rawParams) {
+    const [key, value = ""] = param.split("=");
+    params[key.toUpperCase()] = value.replace(/^"|"$/g, "");
+  }
+
+  return { name: name.toUpperCase(), params, value: line.slice(separator + 1) };
+}
+
+/**
+ * Read an ICS date or date-time as the UTC day it falls on.
+ * Floating and TZID times are taken at face value; only the day matters.
+ */
+function parseDayValue(value: string): Date | null {
+  const match = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})Z?)?$/.exec(
+    value.trim()
+  );
+  if (!match) return null;
+
+  const [, year, month, day, hours, minutes, seconds] = match;
+  return new Date(
+    Date.UTC(
+      Number(year),
+      Number(month) - 1,
+      Number(day),
+      Number(hours ?? 0),
+      Number(minutes ?? 0),
+      Number(seconds ?? 0)
+    )
+  );
+}
+
+function isDateOnly(line: ContentLine): boolean {
+  return line.params.VALUE === "DATE" || /^\d{8}$/.test(line.value.trim());
+}
+
+/**
+ * Parse the VEVENTs of an ICS document into day ranges.
+ *
+ * Events without a valid DTSTART and cancelled events are skipped.
+ * Supported RRULEs are converted to the stored availability pattern
+ * format (EXDATEs embedded in the rule).
+ */
+export function parseCalendar(content: string): ParsedIcsEvent[] {
+  // Unfold continuation lines (CRLF or LF followed by space or tab)
+  const lines = content.replace(/\r?\n[ \t]/g, "").split(/\r?\n/);
+
+  const events: ParsedIcsEvent[] = [];
+  let current: ContentLine[] | null = null;
+  let depth = 0;
+
+  for (const raw of lines) {
+    const line = parseContentLine(raw);
+    if (!line) continue;
+
+    if (line.name === "BEGIN") {
+      if (line.value.toUpperCase() === "VEVENT" && !current) {
+        current = [];
+        depth = 0;
+      } else if (current) {
+        // Nested components (VALARM) are skipped
+        depth++;
+      }
+      continue;
+    }
+    if (line.name === "END" && current) {
+      if (depth > 0) {
+        depth--;
+      } else if (line.value.toUpperCase() === "VEVENT") {
+        const event = toParsedEvent(current);
+        if (event) events.push(event);
+        current = null;
+      }
+      continue;
+    }
+    if (current && depth === 0) current.push(line);
+  }
+
+  return events;
+}
+
+function toParsedEvent(lines: ContentLine[]): ParsedIcsEvent | null {
+  const find = (name: string) => lines.find((l) => l.name === name);
+  const text = (name: string) => {
+    const line = find(name);
+    return line ? unescapeText(line.value) : undefined;
+  };
+
+  const dtStart = find("DTSTART");
+  const start = dtStart ? parseDayValue(dtStart.value) : null;
+  if (!dtStart || !start) return null;
+
+  const status = find("STATUS")?.value.toUpperCase();
+  if (status === "CANCELLED") return null;
+
+  const allDay = isDateOnly(dtStart);
+  const dtEnd = find("DTEND");
+  const endValue = dtEnd ? parseDayValue(dtEnd.value) : null;
+
+  let end = startOfUtcDay(start);
+  if (endValue && endValue > start) {
+    // All-day DTEND is exclusive; timed events end on the day of their last instant
+    end = allDay
+      ? new Date(startOfUtcDay(endValue).getTime() - DAY_MS)
+      : startOfUtcDay(new Date(endValue.getTime() - 1));
+  }
+
+  const event: ParsedIcsEvent = {
+    uid: find("UID")?.value,
+    summary: text("SUMMARY"),
+    description: text("DESCRIPTION"),
+    start: startOfUtcDay(start),
+    end,
+    status,
+  };
+
+  const rrule = find("RRULE");
+  if (rrule) {
+    const recurrence = parseRecurrenceRule(rrule.value);
+    if (recurrence) {
+      const exceptions = lines
+        .filter((l) => l.name === "EXDATE")
+        .flatMap((l) => l.value.split(","))
+        .map((value) => parseDayValue(value))
+        .filter((date): date is Date => date !== null)
+        .map(startOfUtcDay);
+      event.recurrencePattern = formatRecurrenceRule({
+        ...recurrence,
+        exceptions: exceptions.length ? exceptions : undefined,
+      });
+    } else {
+      event.unsupportedRecurrence = true;
+    }
+  }
+
+  return event;
+}
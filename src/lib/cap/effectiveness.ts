@@ -0,0 +1,192 @@
+/**
+ * CAP Effectiveness Reviews
+ *
+ * Closing a CAP only shows the corrective actions were carried out. Some
+ * months later an effectiveness review checks that they actually removed
+ * the deficiency: the delay depends on the finding's severity, the
+ * reviewer works through a fixed checklist, attaches evidence and records
+ * whether the CAP was effective, partially effective or ineffective.
+ */
+
+import type {
+  EffectivenessOutcome,
+  FindingSeverity,
+} from "@/types/prisma-enums";
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export type EffectivenessChecklistKey =
+  /** The corrective actions are still implemented and applied */
+  | "ACTIONS_IN_PLACE"
+  /** The root cause identified in the CAP has been removed */
+  | "ROOT_CAUSE_ADDRESSED"
+  /** The deficiency has not reappeared since closure */
+  | "NO_RECURRENCE"
+  | "PROCEDURES_UPDATED"
+  | "STAFF_TRAINED"
+  /** The organisation monitors the area through its SMS or QMS */
+  | "MONITORING_IN_PLACE";
+
+export type EffectivenessAnswer = "YES" | "NO" | "NA";
+
+export interface EffectivenessChecklistItem {
+  key: EffectivenessChecklistKey;
+  answer: EffectivenessAnswer | null;
+  notes?: string;
+}
+
+export interface EffectivenessRates {
+  completed: number;
+  effective: number;
+  partiallyEffective: number;
+  ineffective: number;
+  /** Percentage of completed reviews found effective, null with none completed */
+  effectivenessRate: number | null;
+}
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+export const EFFECTIVENESS_CHECKLIST_KEYS = [
+  "ACTIONS_IN_PLACE",
+  "ROOT_CAUSE_ADDRESSED",
+  "NO_RECURRENCE",
+  "PROCEDURES_UPDATED",
+  "STAFF_TRAINED",
+  "MONITORING_IN_PLACE",
+] as const satisfies readonly EffectivenessChecklistKey[];
+
+/** A "NO" on any of these means the CAP did not work */
+const CRITICAL_CHECKLIST_KEYS = new Set<EffectivenessChecklistKey>([
+  "ACTIONS_IN_PLACE",
+  "NO_RECURRENCE",
+]);
+
+/** Months between CAP closure and its effectiveness review */
+export const EFFECTIVENESS_REVIEW_DELAY_MONTHS: Record<FindingSeverity, number> = {
+  CRITICAL: 3,
+  MAJOR: 6,
+  MINOR: 12,
+  OBSERVATION: 12,
+};
+
+/** Partially effective CAPs are checked again after this many months */
+export const EFFECTIVENESS_RECHECK_MONTHS = 3;
+
+/** Effectiveness reviews open this many days before they are due */
+export const EFFECTIVENESS_REVIEW_LEAD_DAYS = 14;
+
+// =============================================================================
+// SCHEDULING
+// =============================================================================
+
+function addMonths(date: Date, months: number): Date {
+  const result = new Date(date);
+  const day = result.getUTCDate();
+  result.setUTCDate(1);
+  result.setUTCMonth(result.getUTCMonth() + months);
+  // Clamp to the last day of the target month (31 Jan + 1 month → 28/29 Feb)
+  const lastDay = new Date(
+    Date.UTC(result.getUTCFullYear(), result.getUTCMonth() + 1, 0)
+  ).getUTCDate();
+  result.setUTCDate(Math.min(day, lastDay));
+  return result;
+}
+
+/**
+ * Date the first effectiveness review of a CAP closed on `closedAt` is due
+ */
+export function effectivenessReviewDate(
+  closedAt: Date,
+  severity: FindingSeverity
+): Date {
+  return addMonths(closedAt, EFFECTIVENESS_REVIEW_DELAY_MONTHS[severity]);
+}
+
+/**
+ * Date of the follow-up review after a partially effective outcome
+ */
+export function effectivenessRecheckDate(completedAt: Date): Date {
+  return addMonths(completedAt, EFFECTIVENESS_RECHECK_MONTHS);
+}
+
+// =============================================================================
+// CHECKLIST
+// =============================================================================
+
+/**
+ * Checklist with every item unanswered, in display order
+ */
+export function emptyEffectivenessChecklist(): EffectivenessChecklistItem[] {
+  return EFFECTIVENESS_CHECKLIST_KEYS.map((key) => ({ key, answer: null }));
+}
+
+/**
+ * Keys of checklist items still without an answer
+ */
+export function unansweredChecklistItems(
+  checklist: EffectivenessChecklistItem[]
+): EffectivenessChecklistKey[] {
+  const answered = new Set(
+    checklist.filter((item) => item.answer !== null).map((item) => item.key)
+  );
+  return EFFECTIVENESS_CHECKLIST_KEYS.filter((key) => !answered.has(key));
+}
+
+/**
+ * Outcome the checklist points to. The reviewer may record a different
+ * outcome, but an effective CAP with failed critical checks is refused.
+ */
+export function suggestEffectivenessOutcome(
+  checklist: EffectivenessChecklistItem[]
+): EffectivenessOutcome {
+  const failed = checklist.filter((item) => item.answer === "NO");
+  if (failed.some((item) => CRITICAL_CHECKLIST_KEYS.has(item.key))) return "INEFFECTIVE";
+  if (failed.length > 0) return "PARTIALLY_EFFECTIVE";
+  return "EFFECTIVE";
+}
+
+/**
+ * Why an outcome cannot be recorded for this checklist, or null
+ */
+export function validateEffectivenessOutcome(
+  checklist: EffectivenessChecklistItem[],
+  outcome: EffectivenessOutcome
+): string | null {
+  const unanswered = unansweredChecklistItems(checklist);
+  if (unanswered.length > 0) {
+    return `Checklist items not answered: ${unanswered.join(", ")}`;
+  }
+  if (outcome === "EFFECTIVE" && suggestEffectivenessOutcome(checklist) === "INEFFECTIVE") {
+    return "A CAP whose actions are not in place or whose deficiency recurred cannot be rated effective";
+  }
+  return null;
+}
+
+// =============================================================================
+// RATES
+// =============================================================================
+
+/**
+ * Outcome counts and effectiveness rate over completed reviews
+ */
+export function summarizeEffectiveness(
+  outcomes: EffectivenessOutcome[]
+): EffectivenessRates {
+  const count = (outcome: EffectivenessOutcome) =>
+    outcomes.filter((o) => o === outcome).length;
+
+  const effective = count("EFFECTIVE");
+
+  return {
+    completed: outcomes.length,
+    effective,
+    partiallyEffective: count("PARTIALLY_EFFECTIVE"),
+    ineffective: count("INEFFECTIVE"),
+    effectivenessRate:
+      outcomes.length > 0 ? Math.round((effective / outcomes.length) * 1000) / 10 : null,
+  };
+}
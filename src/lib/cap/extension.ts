@@ -0,0 +1,92 @@
+/**
+ * CAP Due-Date Extensions
+ *
+ * The host organization asks for more time on a CAP with a justification,
+ * a proposed date and supporting evidence. The review lead endorses the
+ * request and the programme coordinator approves or rejects it. An approved
+ * extension moves the CAP due date; the due date before the first extension
+ * is kept so slippage stays visible in overdue figures and SLA reports.
+ */
+
+import type { CAPExtensionStatus, CAPStatus } from "@/types/prisma-enums";
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+/** Requests still awaiting a decision; deadline escalation is suspended */
+export const PENDING_EXTENSION_STATUSES: CAPExtensionStatus[] = ["PENDING", "ENDORSED"];
+
+/** CAP statuses in which an extension can be requested */
+export const EXTENDABLE_CAP_STATUSES: CAPStatus[] = [
+  "ACCEPTED",
+  "IN_PROGRESS",
+  "COMPLETED",
+];
+
+/** Longest extension a single request may ask for */
+export const MAX_EXTENSION_DAYS = 365;
+
+export const EXTENSION_TRANSITIONS: Record<CAPExtensionStatus, CAPExtensionStatus[]> = {
+  PENDING: ["ENDORSED", "APPROVED", "REJECTED", "WITHDRAWN"],
+  ENDORSED: ["APPROVED", "REJECTED", "WITHDRAWN"],
+  APPROVED: [],
+  REJECTED: [],
+  WITHDRAWN: [],
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+export function isExtensionPending(status: CAPExtensionStatus): boolean {
+  return PENDING_EXTENSION_STATUSES.includes(status);
+}
+
+export function isValidExtensionTransition(
+  from: CAPExtensionStatus,
+  to: CAPExtensionStatus
+): boolean {
+  return EXTENSION_TRANSITIONS[from].includes(to);
+}
+
+/**
+ * Whole calendar days between two due dates (UTC)
+ */
+export function extensionDays(from: Date, to: Date): number {
+  const start = Date.UTC(from.getUTCFullYear(), from.getUTCMonth(), from.getUTCDate());
+  const end = Date.UTC(to.getUTCFullYear(), to.getUTCMonth(), to.getUTCDate());
+  return Math.round((end - start) / DAY_MS);
+}
+
+/**
+ * Due date the CAP was first committed to
+ */
+export function originalDueDate(cap: { dueDate: Date; originalDueDate: Date | null }): Date {
+  return cap.originalDueDate ?? cap.dueDate;
+}
+
+/**
+ * Why an extension cannot be requested for this CAP, or null
+ */
+export function validateExtensionRequest(
+  cap: { status: CAPStatus; dueDate: Date; hasPendingExtension: boolean },
+  proposedDate: Date
+): string | null {
+  if (!EXTENDABLE_CAP_STATUSES.includes(cap.status)) {
+    return "An extension can only be requested for accepted CAPs that are not yet verified";
+  }
+  if (cap.hasPendingExtension) {
+    return "An extension request is already pending for this CAP";
+  }
+  const days = extensionDays(cap.dueDate, proposedDate);
+  if (days <= 0) {
+    return "The proposed date must be after the current due date";
+  }
+  if (days > MAX_EXTENSION_DAYS) {
+    return `An extension cannot exceed ${MAX_EXTENSION_DAYS} days`;
+  }
+  return null;
+}
@@ -0,0 +1,162 @@
+/**
+ * CAP Portfolio
+ *
+ * Organization-wide view of corrective action plans: the open-findings
+ * burndown by severity and the time axis of the CAP Gantt timeline.
+ */
+
+import type { FindingSeverity } from "@/types/prisma-enums";
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface BurndownFinding {
+  severity: FindingSeverity;
+  identifiedAt: Date;
+  closedAt: Date | null;
+}
+
+export type BurndownPoint = {
+  /** YYYY-MM-DD */
+  date: string;
+  total: number;
+} & Record<FindingSeverity, number>;
+
+export interface GanttSpan {
+  start: Date;
+  end: Date;
+}
+
+export interface GanttRange {
+  start: Date;
+  end: Date;
+  /** First day of each month within the range, for the axis */
+  months: Date[];
+}
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+export const PORTFOLIO_SEVERITIES: FindingSeverity[] = [
+  "CRITICAL",
+  "MAJOR",
+  "MINOR",
+  "OBSERVATION",
+];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Most points in a burndown; the step widens for long ranges */
+const MAX_BURNDOWN_POINTS = 60;
+
+// =============================================================================
+// BURNDOWN
+// =============================================================================
+
+function startOfUTCDay(date: Date): Date {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+}
+
+/**
+ * Open findings by severity at regular points between `from` and `to`.
+ * A finding is open on a day if it was identified on or before it and
+ * not yet closed at its end.
+ */
+export function buildFindingBurndown(
+  findings: BurndownFinding[],
+  from: Date,
+  to: Date,
+  stepDays = 7
+): BurndownPoint[] {
+  const start = startOfUTCDay(from);
+  const end = startOfUTCDay(to);
+  if (end < start) return [];
+
+  const span = Math.round((end.getTime() - start.getTime()) / DAY_MS);
+  const step = Math.max(stepDays, Math.ceil(span / (MAX_BURNDOWN_POINTS - 1)));
+
+  const days: Date[] = [];
+  for (let offset = 0; offset < span; offset += step) {
+    days.push(new Date(start.getTime() + offset * DAY_MS));
+  }
+  days.push(end);
+
+  return days.map((day) => {
+    const dayEnd = new Date(day.getTime() + DAY_MS);
+    const point = {
+      date: day.toISOString().split("T")[0],
+      total: 0,
+      CRITICAL: 0,
+      MAJOR: 0,
+      MINOR: 0,
+      OBSERVATION: 0,
+    };
+
+    for (const finding of findings) {
+      const open =
+        finding.identifiedAt < dayEnd &&
+        (finding.closedAt === null || finding.closedAt >= dayEnd);
+      if (open) {
+        point[finding.severity]++;
+        point.total++;
+      }
+    }
+
+    return point;
+  });
+}
+
+// =============================================================================
+// GANTT TIMELINE
+// =============================================================================
+
+/**
+ * Bar of a CAP on the timeline: from acceptance (or creation) to its due
+ * date, or to its closure when that came later.
+ */
+export function capGanttSpan(cap: {
+  createdAt: Date;
+  acceptedAt: Date | null;
+  dueDate: Date;
+  closedAt: Date | null;
+}): GanttSpan {
+  const start = cap.acceptedAt ?? cap.createdAt;
+  const end = cap.closedAt && cap.closedAt > cap.dueDate ? cap.closedAt : cap.dueDate;
+  return { start, end: end > start ? end : start };
+}
+
+/**
+ * Whole months covering every span, with the first day of each month
+ */
+export function ganttRange(spans: GanttSpan[], today = new Date()): GanttRange {
+  const times = spans.flatMap((s) => [s.start.getTime(), s.end.getTime()]);
+  times.push(today.getTime());
+
+  const min = new Date(Math.min(...times));
+  const max = new Date(Math.max(...times));
+  const start = new Date(Date.UTC(min.getUTCFullYear(), min.getUTCMonth(), 1));
+  const end = new Date(Date.UTC(max.getUTCFullYear(), max.getUTCMonth() + 1, 1));
+
+  const months: Date[] = [];
+  for (
+    let month = start;
+    month < end;
+    month = new Date(Date.UTC(month.getUTCFullYear(), month.getUTCMonth() + 1, 1))
+  ) {
+    months.push(month);
+  }
+
+  return { start, end, months };
+}
+
+/**
+ * Position of a date along the range, as a percentage
+ */
+export function ganttOffset(date: Date, range: GanttRange): number {
+  const total = range.end.getTime() - range.start.getTime();
+  if (total <= 0) return 0;
+  const offset = ((date.getTime() - range.start.getTime()) / total) * 100;
+  return Math.min(100, Math.max(0, Math.round(offset * 100) / 100));
+}
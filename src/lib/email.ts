@@ -83,14 +83,68 @@ export async function sendPasswordResetEmail(
 }
 
 // =============================================================================
-// Join Request Email Functions (stubs for future implementation)
+// Join Request Email Functions
 // =============================================================================
 
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+/**
+ * Wrap applicant email content in the programme layout. Callers escape any
+ * user-supplied values they interpolate into `content`.
+ */
+function renderApplicantEmail(heading: string, content: string): string {
+  return `
+    <!DOCTYPE html>
+    <html>
+    <head>
+      <meta charset="utf-8">
+      <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    </head>
+    <body style="font-family: Arial, sans-serif; line-height: 1.6; color: #333; max-width: 600px; margin: 0 auto; padding: 20px;">
+      <div style="text-align: center; margin-bottom: 30px;">
+        <h1 style="color: #1e40af; margin: 0;">African ANSP Peer Review Programme</h1>
+        <p style="color: #64748b; margin: 5px 0 0 0;">ICAO-Endorsed Aviation Safety Initiative</p>
+      </div>
+
+      <div style="background: #f8fafc; border-radius: 8px; padding: 30px; margin-bottom: 20px;">
+        <h2 style="margin-top: 0; color: #1e293b;">${heading}</h2>
+        ${content}
+      </div>
+
+      <div style="text-align: center; color: #94a3b8; font-size: 12px; border-top: 1px solid #e2e8f0; padding-top: 20px;">
+        <p>This is an automated message from the African ANSP Peer Review Programme.</p>
+        <p style="margin: 0;">&copy; 2026 AAPRP. All rights reserved.</p>
+      </div>
+    </body>
+    </html>
+  `;
+}
+
+function renderStatusButton(statusUrl: string, label: string): string {
+  return `
+    <div style="text-align: center; margin: 30px 0;">
+      <a href="${escapeHtml(statusUrl)}"
+         style="background: #1e40af; color: white; padding: 14px 28px; text-decoration: none; border-radius: 6px; display: inline-block; font-weight: bold;">
+        ${label}
+      </a>
+    </div>
+    <p style="color: #64748b; font-size: 14px;">Keep this email: the link is personal to your application and should not be shared.</p>
+  `;
+}
+
 interface ApplicationReceivedData {
   applicantEmail: string;
   applicantName: string;
   organizationName: string;
   referenceId: string;
+  /** Tokenized applicant status page link */
+  statusUrl?: string;
   isAccessRequest?: boolean;
   orgAdminEmail?: string | null;
 }
@@ -121,6 +175,8 @@ interface MoreInfoRequestData {
   applicantName: string;
   organizationName: string;
   infoRequested: string;
+  /** Tokenized applicant status page link where the applicant can respond */
+  statusUrl?: string;
 }
 
 interface CredentialsEmailData {
@@ -135,9 +191,6 @@ export async function sendApplicationReceivedEmail(
   data: ApplicationReceivedData
 ): Promise<EmailResult> {
   const requestType = data.isAccessRequest ? "Access request" : "Programme join application";
-  console.log(
-    `[EMAIL] ${requestType} confirmation sent to ${data.applicantEmail} for ${data.organizationName}`
-  );
 
   // If access request and org admin exists, notify them too
   if (data.isAccessRequest && data.orgAdminEmail) {
@@ -146,8 +199,41 @@ export async function sendApplicationReceivedEmail(
     );
   }
 
-  // TODO: Implement with Resend when ready
-  return { success: true };
+  // Fallback to console in dev without API key
+  if (!resend) {
+    console.log(
+      `[DEV] ${requestType} confirmation for ${data.applicantEmail}: ${data.statusUrl ?? "no status link"}`
+    );
+    return { success: true };
+  }
+
+  try {
+    const { error } = await resend.emails.send({
+      from: "African ANSP Peer Review <onboarding@resend.dev>", // Use verified domain in production
+      to: data.applicantEmail,
+      subject: `${requestType} received (${data.referenceId}) - African ANSP Peer Review Programme`,
+      html: renderApplicantEmail(
+        `${requestType} received`,
+        `
+          <p>Hello ${escapeHtml(data.applicantName)},</p>
+          <p>We have received the ${requestType.toLowerCase()} for <strong>${escapeHtml(data.organizationName)}</strong>.</p>
+          <p>Your reference is <strong>${escapeHtml(data.referenceId)}</strong>. The programme team will review it and contact you by email.</p>
+          ${data.statusUrl ? renderStatusButton(data.statusUrl, "Track Your Application") : ""}
+        `
+      ),
+    });
+
+    if (error) {
+      console.error("Resend error:", error);
+      return { success: false, error: error.message };
+    }
+
+    console.log(`[EMAIL] ${requestType} confirmation sent to ${data.applicantEmail}`);
+    return { success: true };
+  } catch (err) {
+    console.error("Failed to send email:", err);
+    return { success: false, error: "Failed to send email" };
+  }
 }
 
 export async function sendForwardedToSCEmail(
@@ -179,9 +265,41 @@ export async function sendRejectionEmail(
 export async function sendMoreInfoRequestEmail(
   data: MoreInfoRequestData
 ): Promise<EmailResult> {
-  console.log(`[EMAIL] More info request sent to ${data.applicantEmail}`);
-  // TODO: Implement with Resend when ready
-  return { success: true };
+  // Fallback to console in dev without API key
+  if (!resend) {
+    console.log(
+      `[DEV] More info request for ${data.applicantEmail}: ${data.statusUrl ?? "no response link"}`
+    );
+    return { success: true };
+  }
+
+  try {
+    const { error } = await resend.emails.send({
+      from: "African ANSP Peer Review <onboarding@resend.dev>", // Use verified domain in production
+      to: data.applicantEmail,
+      subject: "More Information Needed - African ANSP Peer Review Programme",
+      html: renderApplicantEmail(
+        "More information needed",
+        `
+          <p>Hello ${escapeHtml(data.applicantName)},</p>
+          <p>The Steering Committee needs more information before deciding on the application for <strong>${escapeHtml(data.organizationName)}</strong>:</p>
+          <p style="white-space: pre-line; border-left: 3px solid #1e40af; padding-left: 12px;">${escapeHtml(data.infoRequested)}</p>
+          ${data.statusUrl ? renderStatusButton(data.statusUrl, "Respond to the Request") : ""}
+        `
+      ),
+    });
+
+    if (error) {
+      console.error("Resend error:", error);
+      return { success: false, error: error.message };
+    }
+
+    console.log(`[EMAIL] More info request sent to ${data.applicantEmail}`);
+    return { success: true };
+  } catch (err) {
+    console.error("Failed to send email:", err);
+    return { success: false, error: "Failed to send email" };
+  }
 }
 
 export async function sendCredentialsEmail(
@@ -0,0 +1,502 @@
+/**
+ * Assessment Workbook
+ *
+ * Excel export of assessment responses for focal points who complete
+ * assessments offline, and the matching reader that turns a completed
+ * workbook back into `assessment.saveResponses` input.
+ *
+ * Layout: a "Summary" sheet with the assessment identity and formatted
+ * scores, followed by one sheet per questionnaire category. The Response
+ * column carries a data-validation dropdown with the allowed codes.
+ */
+
+import * as XLSX from "xlsx";
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export type WorkbookQuestionnaireType = "ANS_USOAP_CMA" | "SMS_CANSO_SOE";
+
+export type WorkbookMaturityLevel = "A" | "B" | "C" | "D" | "E";
+
+export interface AssessmentWorkbookRow {
+  questionId: string;
+  pqNumber: string | null;
+  questionTextEn: string;
+  questionTextFr: string;
+  category: string;
+  /** ANS response code */
+  responseValue: string | null;
+  /** SMS maturity level letter */
+  maturityLevel: WorkbookMaturityLevel | null;
+  score: number | null;
+  notes: string | null;
+  evidence: string[];
+  respondedBy: string | null;
+  respondedAt: Date | null;
+}
+
+export interface AssessmentWorkbookInput {
+  assessment: {
+    id: string;
+    title: string;
+    referenceNumber: string | null;
+    organizationName: string;
+    questionnaireTitle: string;
+    type: WorkbookQuestionnaireType;
+    status: string;
+    eiScore: number | null;
+    overallScore: number | null;
+    maturityLevel: WorkbookMaturityLevel | null;
+  };
+  rows: AssessmentWorkbookRow[];
+  includeNotes: boolean;
+  includeEvidence: boolean;
+  exportedAt?: Date;
+}
+
+export interface WorkbookResponse {
+  questionId: string;
+  responseValue?: string | null;
+  maturityLevel?: WorkbookMaturityLevel | null;
+  notes?: string;
+}
+
+export interface WorkbookRowError {
+  sheet: string;
+  row: number;
+  message: string;
+}
+
+export interface AssessmentWorkbookParseResult {
+  assessmentId: string | null;
+  responses: WorkbookResponse[];
+  errors: WorkbookRowError[];
+}
+
+interface ListValidation {
+  sheetIndex: number;
+  sqref: string;
+  values: string[];
+}
+
+/** Subset of the zip container API bundled with SheetJS */
+interface ZipContainer {
+  FullPaths: string[];
+}
+
+interface ZipApi {
+  read(data: Uint8Array, options: { type: "buffer" }): ZipContainer;
+  find(container: ZipContainer, path: string): { content: Uint8Array } | null;
+  write(container: ZipContainer, options: { fileType: "zip"; type: "buffer" }): Uint8Array;
+  utils: { cfb_add(container: ZipContainer, path: string, content: Uint8Array): void };
+}
+
+type Cell = string | number | boolean | Date | null;
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+export const WORKBOOK_COLUMNS = {
+  questionId: "Question ID",
+  pqNumber: "PQ",
+  questionTextEn: "Question (EN)",
+  questionTextFr: "Question (FR)",
+  response: "Response",
+  score: "Score",
+  notes: "Notes",
+  evidence: "Evidence",
+  respondedBy: "Responded By",
+  respondedAt: "Responded At",
+} as const;
+
+export const SUMMARY_SHEET = "Summary";
+const ASSESSMENT_ID_LABEL = "Assessment ID";
+
+export const ANS_RESPONSE_CODES = [
+  "SATISFACTORY",
+  "NOT_SATISFACTORY",
+  "NOT_APPLICABLE",
+  "NOT_REVIEWED",
+] as const;
+
+export const MATURITY_LEVEL_CODES: WorkbookMaturityLevel[] = ["A", "B", "C", "D", "E"];
+
+/** Spreadsheet spellings accepted for ANS responses on re-import */
+const ANS_RESPONSE_ALIASES: Record<string, string> = {
+  S: "SATISFACTORY",
+  SAT: "SATISFACTORY",
+  SATISFAISANT: "SATISFACTORY",
+  NS: "NOT_SATISFACTORY",
+  UNSATISFACTORY: "NOT_SATISFACTORY",
+  NON_SATISFAISANT: "NOT_SATISFACTORY",
+  NA: "NOT_APPLICABLE",
+  N_A: "NOT_APPLICABLE",
+  NOT_APPLICABLE: "NOT_APPLICABLE",
+  NON_APPLICABLE: "NOT_APPLICABLE",
+  NR: "NOT_REVIEWED",
+};
+
+const MAX_NOTES_LENGTH = 2000;
+
+// =============================================================================
+// EXPORT
+// =============================================================================
+
+/**
+ * Excel limits sheet names to 31 characters and forbids : \ / ? * [ ]
+ */
+function toSheetName(name: string, used: Set<string>): string {
+  const cleaned = name.replace(/[:\\/?*[\]]/g, " ").replace(/\s+/g, " ").trim();
+  const base = (cleaned || "Questions").slice(0, 31).trim();
+  let candidate = base;
+  let suffix = 2;
+  while (used.has(candidate.toLowerCase())) {
+    const tag = ` (${suffix++})`;
+    candidate = base.slice(0, 31 - tag.length) + tag;
+  }
+  used.add(candidate.toLowerCase());
+  return candidate;
+}
+
+function groupByCategory(rows: AssessmentWorkbookRow[]): Map<string, AssessmentWorkbookRow[]> {
+  const groups = new Map<string, AssessmentWorkbookRow[]>();
+  for (const row of rows) {
+    const key = row.category || "Questions";
+    const group = groups.get(key) ?? [];
+    group.push(row);
+    groups.set(key, group);
+  }
+  return groups;
+}
+
+/**
+ * EI for ANS (satisfactory share of applicable answers) or the average
+ * maturity score for SMS
+ */
+function categoryScore(
+  rows: AssessmentWorkbookRow[],
+  type: WorkbookQuestionnaireType
+): { answered: number; score: number | null } {
+  if (type === "ANS_USOAP_CMA") {
+    const answered = rows.filter((r) => r.responseValue && r.responseValue !== "NOT_REVIEWED");
+    const satisfactory = answered.filter((r) => r.responseValue === "SATISFACTORY").length;
+    const applicable = answered.filter(
+      (r) => r.responseValue === "SATISFACTORY" || r.responseValue === "NOT_SATISFACTORY"
+    ).length;
+    return { answered: answered.length, score: applicable > 0 ? satisfactory / applicable : null };
+  }
+
+  const scored = rows.filter((r) => r.maturityLevel && r.score !== null);
+  const total = scored.reduce((sum, r) => sum + (r.score ?? 0), 0);
+  return { answered: scored.length, score: scored.length > 0 ? total / scored.length : null };
+}
+
+function setNumberFormat(sheet: XLSX.WorkSheet, address: string, format: string): void {
+  const cell = sheet[address] as XLSX.CellObject | undefined;
+  if (cell && cell.t === "n") cell.z = format;
+}
+
+function buildSummarySheet(
+  input: AssessmentWorkbookInput,
+  groups: Map<string, AssessmentWorkbookRow[]>,
+  sheetNames: string[]
+): XLSX.WorkSheet {
+  const { assessment } = input;
+  const isANS = assessment.type === "ANS_USOAP_CMA";
+  const scoreFormat = isANS ? "0.0%" : "0.00";
+
+  const aoa: Cell[][] = [
+    [ASSESSMENT_ID_LABEL, assessment.id],
+    ["Title", assessment.title],
+    ["Reference", assessment.referenceNumber ?? ""],
+    ["Organization", assessment.organizationName],
+    ["Questionnaire", assessment.questionnaireTitle],
+    ["Status", assessment.status],
+    ["Exported At", (input.exportedAt ?? new Date()).toISOString()],
+    [],
+  ];
+
+  const overallRow = aoa.length;
+  if (isANS) {
+    aoa.push(["Effective Implementation", assessment.eiScore !== null ? assessment.eiScore / 100 : null]);
+  } else {
+    aoa.push(["Overall Maturity Score", assessment.overallScore]);
+    aoa.push(["Overall Maturity Level", assessment.maturityLevel ?? ""]);
+  }
+  aoa.push([]);
+
+  const tableHeader = aoa.length;
+  aoa.push(["Sheet", "Questions", "Answered", isANS ? "EI" : "Average Score"]);
+  [...groups.values()].forEach((rows, index) => {
+    const { answered, score } = categoryScore(rows, assessment.type);
+    aoa.push([sheetNames[index], rows.length, answered, score]);
+  });
+
+  const sheet = XLSX.utils.aoa_to_sheet(aoa);
+  setNumberFormat(sheet, XLSX.utils.encode_cell({ r: overallRow, c: 1 }), scoreFormat);
+  for (let r = tableHeader + 1; r < aoa.length; r++) {
+    setNumberFormat(sheet, XLSX.utils.encode_cell({ r, c: 3 }), scoreFormat);
+  }
+  sheet["!cols"] = [{ wch: 28 }, { wch: 50 }, { wch: 12 }, { wch: 14 }];
+  return sheet;
+}
+
+function buildCategorySheet(
+  rows: AssessmentWorkbookRow[],
+  input: AssessmentWorkbookInput
+): { sheet: XLSX.WorkSheet; responseColumn: number } {
+  const isANS = input.assessment.type === "ANS_USOAP_CMA";
+
+  const headers: string[] = [
+    WORKBOOK_COLUMNS.questionId,
+    WORKBOOK_COLUMNS.pqNumber,
+    WORKBOOK_COLUMNS.questionTextEn,
+    WORKBOOK_COLUMNS.questionTextFr,
+    WORKBOOK_COLUMNS.response,
+    ...(isANS ? [] : [WORKBOOK_COLUMNS.score]),
+    ...(input.includeNotes ? [WORKBOOK_COLUMNS.notes] : []),
+    ...(input.includeEvidence ? [WORKBOOK_COLUMNS.evidence] : []),
+    WORKBOOK_COLUMNS.respondedBy,
+    WORKBOOK_COLUMNS.respondedAt,
+  ];
+
+  const aoa: Cell[][] = [
+    headers,
+    ...rows.map((r) => [
+      r.questionId,
+      r.pqNumber ?? "",
+      r.questionTextEn,
+      r.questionTextFr,
+      (isANS ? r.responseValue : r.maturityLevel) ?? "",
+      ...(isANS ? [] : [r.score]),
+      ...(input.includeNotes ? [r.notes ?? ""] : []),
+      ...(input.includeEvidence ? [r.evidence.join("\n")] : []),
+      r.respondedBy ?? "",
+      r.respondedAt ? r.respondedAt.toISOString() : "",
+    ]),
+  ];
+
+  const sheet = XLSX.utils.aoa_to_sheet(aoa);
+  const responseColumn = headers.indexOf(WORKBOOK_COLUMNS.response);
+
+  if (!isANS) {
+    const scoreColumn = headers.indexOf(WORKBOOK_COLUMNS.score);
+    for (let r = 1; r <= rows.length; r++) {
+      setNumberFormat(sheet, XLSX.utils.encode_cell({ r, c: scoreColumn }), "0.0");
+    }
+  }
+
+  const widths: Record<string, number> = {
+    [WORKBOOK_COLUMNS.pqNumber]: 12,
+    [WORKBOOK_COLUMNS.questionTextEn]: 60,
+    [WORKBOOK_COLUMNS.questionTextFr]: 60,
+    [WORKBOOK_COLUMNS.response]: 20,
+    [WORKBOOK_COLUMNS.score]: 8,
+    [WORKBOOK_COLUMNS.notes]: 40,
+    [WORKBOOK_COLUMNS.evidence]: 40,
+    [WORKBOOK_COLUMNS.respondedBy]: 20,
+    [WORKBOOK_COLUMNS.respondedAt]: 22,
+  };
+  // The ID column is only needed to match rows on re-import
+  sheet["!cols"] = headers.map((header) =>
+    header === WORKBOOK_COLUMNS.questionId ? { hidden: true, wch: 28 } : { wch: widths[header] ?? 15 }
+  );
+  sheet["!autofilter"] = { ref: XLSX.utils.encode_range({ s: { r: 0, c: 0 }, e: { r: rows.length, c: headers.length - 1 } }) };
+
+  return { sheet, responseColumn };
+}
+
+/**
+ * SheetJS does not write data validations, so they are added to the sheet
+ * XML of the generated package afterwards
+ */
+function addListValidations(file: Uint8Array, validations: ListValidation[]): Uint8Array {
+  const zip = XLSX.CFB as ZipApi;
+  const container = zip.read(file, { type: "buffer" });
+  const encoder = new TextEncoder();
+  const decoder = new TextDecoder();
+
+  for (const { sheetIndex, sqref, values } of validations) {
+    const path = `/xl/worksheets/sheet${sheetIndex + 1}.xml`;
+    const entry = zip.find(container, path);
+    if (!entry) continue;
+
+    const rule =
+      `<dataValidations count="1"><dataValidation type="list" allowBlank="1" showErrorMessage="1" sqref="${sqref}">` +
+      `<formula1>"${values.join(",")}"</formula1></dataValidation></dataValidations>`;
+
+    // dataValidations must precede these elements in the worksheet schema
+    const xml = decoder
+      .decode(entry.content)
+      .replace(/(<hyperlinks|<printOptions|<pageMargins|<pageSetup|<ignoredErrors|<\/worksheet>)/, `${rule}$1`);
+    zip.utils.cfb_add(container, path, encoder.encode(xml));
+  }
+
+  return zip.write(container, { fileType: "zip", type: "buffer" });
+}
+
+/**
+ * Build the assessment workbook and return the XLSX file contents
+ */
+export function buildAssessmentWorkbook(input: AssessmentWorkbookInput): Uint8Array {
+  const workbook = XLSX.utils.book_new();
+  const groups = groupByCategory(input.rows);
+  const usedNames = new Set<string>([SUMMARY_SHEET.toLowerCase()]);
+  const sheetNames = [...groups.keys()].map((name) => toSheetName(name, usedNames));
+
+  XLSX.utils.book_append_sheet(workbook, buildSummarySheet(input, groups, sheetNames), SUMMARY_SHEET);
+
+  const allowed =
+    input.assessment.type === "ANS_USOAP_CMA" ? [...ANS_RESPONSE_CODES] : MATURITY_LEVEL_CODES;
+  const validations: ListValidation[] = [];
+
+  [...groups.values()].forEach((rows, index) => {
+    const { sheet, responseColumn } = buildCategorySheet(rows, input);
+    XLSX.utils.book_append_sheet(workbook, sheet, sheetNames[index]);
+
+    if (rows.length > 0) {
+      validations.push({
+        sheetIndex: index + 1,
+        sqref: XLSX.utils.encode_range({
+          s: { r: 1, c: responseColumn },
+          e: { r: rows.length, c: responseColumn },
+        }),
+        values: allowed,
+      });
+    }
+  });
+
+  const file = XLSX.write(workbook, { type: "buffer", bookType: "xlsx" }) as Uint8Array;
+  return addListValidations(file, validations);
+}
+
+// =============================================================================
+// RE-IMPORT
+// =============================================================================
+
+function normalizeCode(value: Cell): string {
+  return String(value ?? "")
+    .trim()
+    .toUpperCase()
+    .replace(/[^A-Z0-9]+/g, "_")
+    .replace(/^_|_$/g, "");
+}
+
+/**
+ * Map a Response cell onto an ANS response code or SMS maturity letter.
+ * Returns undefined for values that cannot be interpreted.
+ */
+export function parseWorkbookResponse(
+  value: Cell,
+  type: WorkbookQuestionnaireType
+): string | undefined {
+  const code = normalizeCode(value);
+  if (type === "ANS_USOAP_CMA") {
+    if ((ANS_RESPONSE_CODES as readonly string[]).includes(code)) return code;
+    return ANS_RESPONSE_ALIASES[code];
+  }
+
+  const letter = code.replace(/^(LEVEL|NIVEAU)_?/, "");
+  return (MATURITY_LEVEL_CODES as string[]).includes(letter) ? letter : undefined;
+}
+
+function isEmpty(value: Cell | undefined): boolean {
+  return value === null || value === undefined || String(value).trim() === "";
+}
+
+/**
+ * Read a completed assessment workbook. Rows without a response or notes
+ * are left out so blank rows never clear answers saved online.
+ */
+export function parseAssessmentWorkbook(
+  input: ArrayBuffer | Uint8Array,
+  type: WorkbookQuestionnaireType
+): AssessmentWorkbookParseResult {
+  const errors: WorkbookRowError[] = [];
+  const byQuestion = new Map<string, WorkbookResponse>();
+  let assessmentId: string | null = null;
+
+  let workbook: XLSX.WorkBook;
+  try {
+    workbook = XLSX.read(input, { type: "array" });
+  } catch (error) {
+    return {
+      assessmentId,
+      responses: [],
+      errors: [
+        {
+          sheet: "",
+          row: 0,
+          message: `Invalid workbook: ${error instanceof Error ? error.message : "Unknown error"}`,
+        },
+      ],
+    };
+  }
+
+  for (const name of workbook.SheetNames) {
+    const rows = XLSX.utils.sheet_to_json<Cell[]>(workbook.Sheets[name], {
+      header: 1,
+      defval: null,
+      blankrows: true,
+      raw: true,
+    });
+
+    if (name === SUMMARY_SHEET) {
+      const idRow = rows.find((row) => row[0] === ASSESSMENT_ID_LABEL);
+      assessmentId = idRow && !isEmpty(idRow[1]) ? String(idRow[1]).trim() : null;
+      continue;
+    }
+
+    const headerIndex = rows.findIndex((row) => row.includes(WORKBOOK_COLUMNS.questionId));
+    if (headerIndex === -1) continue;
+
+    const headers = rows[headerIndex];
+    const idColumn = headers.indexOf(WORKBOOK_COLUMNS.questionId);
+    const responseColumn = headers.indexOf(WORKBOOK_COLUMNS.response);
+    const notesColumn = headers.indexOf(WORKBOOK_COLUMNS.notes);
+
+    rows.slice(headerIndex + 1).forEach((row, offset) => {
+      const rowNumber = headerIndex + offset + 2;
+      const questionId = row[idColumn];
+      const rawResponse = responseColumn >= 0 ? row[responseColumn] : null;
+      const rawNotes = notesColumn >= 0 ? row[notesColumn] : null;
+
+      if (isEmpty(questionId) || (isEmpty(rawResponse) && isEmpty(rawNotes))) return;
+
+      const response: WorkbookResponse = { questionId: String(questionId).trim() };
+
+      if (!isEmpty(rawResponse)) {
+        const parsed = parseWorkbookResponse(rawResponse, type);
+        if (!parsed) {
+          errors.push({ sheet: name, row: rowNumber, message: `Unrecognised response "${rawResponse}"` });
+          return;
+        }
+        if (type === "ANS_USOAP_CMA") {
+          response.responseValue = parsed;
+        } else {
+          response.maturityLevel = parsed as WorkbookMaturityLevel;
+        }
+      }
+
+      if (!isEmpty(rawNotes)) {
+        const notes = String(rawNotes).trim();
+        if (notes.length > MAX_NOTES_LENGTH) {
+          errors.push({
+            sheet: name,
+            row: rowNumber,
+            message: `Notes exceed ${MAX_NOTES_LENGTH} characters`,
+          });
+          return;
+        }
+        response.notes = notes;
+      }
+
+      byQuestion.set(response.questionId, response);
+    });
+  }
+
+  return { assessmentId, responses: [...byQuestion.values()], errors };
+}
@@ -0,0 +1,293 @@
+/**
+ * CAP Status Pack Export
+ *
+ * Board-ready summary of an organization's corrective action plans:
+ * headline figures, open findings by severity and the status of every CAP.
+ * Supports Excel and PDF formats.
+ */
+
+import * as XLSX from "xlsx";
+import { jsPDF } from "jspdf";
+import autoTable from "jspdf-autotable";
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface CAPStatusPackRow {
+  findingReference: string;
+  findingTitle: string;
+  severity: string;
+  status: string;
+  owner: string;
+  dueDate: Date;
+  /** Due date before the first approved extension */
+  originalDueDate: Date | null;
+  daysRemaining: number;
+  milestonesCompleted: number;
+  milestonesTotal: number;
+  milestonesOverdue: number;
+  percentageComplete: number;
+}
+
+export interface CAPStatusPackData {
+  organizationName: string;
+  organizationCode?: string | null;
+  summary: {
+    total: number;
+    open: number;
+    closed: number;
+    overdue: number;
+    dueSoon: number;
+    milestonesOverdue: number;
+    openFindingsBySeverity: Record<string, number>;
+  };
+  rows: CAPStatusPackRow[];
+}
+
+export type CAPStatusPackFormat = "xlsx" | "pdf";
+
+// =============================================================================
+// EXCEL EXPORT
+// =============================================================================
+
+/**
+ * Export the status pack to Excel: summary, CAPs and severity sheets
+ */
+export function exportStatusPackToExcel(
+  data: CAPStatusPackData,
+  filename = "cap_status_pack"
+): void {
+  const workbook = XLSX.utils.book_new();
+
+  const summarySheet = XLSX.utils.json_to_sheet(
+    summaryRows(data).map(([Field, Value]) => ({ Field, Value }))
+  );
+  summarySheet["!cols"] = [{ wch: 30 }, { wch: 40 }];
+  XLSX.utils.book_append_sheet(workbook, summarySheet, "Summary");
+
+  const capSheet = XLSX.utils.json_to_sheet(
+    data.rows.map((r) => ({
+      Finding: r.findingReference,
+      Title: r.findingTitle,
+      Severity: r.severity,
+      Status: r.status,
+      Owner: r.owner,
+      "Due Date": formatDate(r.dueDate),
+      "Original Due Date": r.originalDueDate ? formatDate(r.originalDueDate) : "",
+      "Days Remaining": r.daysRemaining,
+      "Milestones Completed": `${r.milestonesCompleted}/${r.milestonesTotal}`,
+      "Milestones Overdue": r.milestonesOverdue,
+      "Progress (%)": r.percentageComplete,
+    }))
+  );
+  capSheet["!cols"] = [
+    { wch: 18 }, // Finding
+    { wch: 45 }, // Title
+    { wch: 12 }, // Severity
+    { wch: 15 }, // Status
+    { wch: 25 }, // Owner
+    { wch: 12 }, // Due Date
+    { wch: 18 }, // Original Due Date
+    { wch: 15 }, // Days Remaining
+    { wch: 20 }, // Milestones Completed
+    { wch: 18 }, // Milestones Overdue
+    { wch: 12 }, // Progress
+  ];
+  XLSX.utils.book_append_sheet(workbook, capSheet, "CAPs");
+
+  const severitySheet = XLSX.utils.json_to_sheet(
+    Object.entries(data.summary.openFindingsBySeverity).map(([Severity, count]) => ({
+      Severity,
+      "Open Findings": count,
+    }))
+  );
+  XLSX.utils.book_append_sheet(workbook, severitySheet, "Open Findings");
+
+  XLSX.writeFile(workbook, `${filename}_${formatDate(new Date())}.xlsx`);
+}
+
+// =============================================================================
+// PDF EXPORT
+// =============================================================================
+
+/**
+ * Export the status pack to PDF: summary tables followed by the CAP table
+ */
+export function exportStatusPackToPDF(
+  data: CAPStatusPackData,
+  filename = "cap_status_pack"
+): void {
+  const doc = new jsPDF({ orientation: "landscape" });
+
+  // Header
+  doc.setFontSize(18);
+  doc.setTextColor(40, 40, 40);
+  doc.text(`CAP Status Pack - ${data.organizationName}`, 14, 20);
+
+  doc.setFontSize(10);
+  doc.setTextColor(100, 100, 100);
+  doc.text(
+    `Generated on ${new Date().toLocaleDateString()} | ${data.summary.total} CAPs`,
+    14,
+    28
+  );
+
+  const headStyles = {
+    fillColor: [0, 82, 147] as [number, number, number], // AFI blue
+    textColor: [255, 255, 255] as [number, number, number],
+    fontStyle: "bold" as const,
+  };
+
+  // Headline figures and open findings side by side
+  autoTable(doc, {
+    startY: 35,
+    head: [["Indicator", "Value"]],
+    body: summaryRows(data)
+      .slice(2)
+      .map(([field, value]) => [field, String(value)]),
+    styles: { fontSize: 9, cellPadding: 2 },
+    headStyles,
+    tableWidth: 120,
+    margin: { left: 14 },
+  });
+
+  autoTable(doc, {
+    startY: 35,
+    head: [["Severity", "Open Findings"]],
+    body: Object.entries(data.summary.openFindingsBySeverity).map(([severity, count]) => [
+      severity,
+      String(count),
+    ]),
+    styles: { fontSize: 9, cellPadding: 2 },
+    headStyles,
+    tableWidth: 80,
+    margin: { left: 150 },
+  });
+
+  // CAP table on its own page
+  doc.addPage();
+  autoTable(doc, {
+    startY: 20,
+    head: [
+      [
+        "Finding",
+        "Title",
+        "Severity",
+        "Status",
+        "Owner",
+        "Due Date",
+        "Original",
+        "Days",
+        "Milestones",
+        "Progress",
+      ],
+    ],
+    body: data.rows.map((r) => [
+      r.findingReference,
+      r.findingTitle.length > 50 ? r.findingTitle.substring(0, 50) + "..." : r.findingTitle,
+      r.severity,
+      r.status,
+      r.owner,
+      formatDate(r.dueDate),
+      r.originalDueDate ? formatDate(r.originalDueDate) : "",
+      String(r.daysRemaining),
+      `${r.milestonesCompleted}/${r.milestonesTotal}` +
+        (r.milestonesOverdue > 0 ? ` (${r.milestonesOverdue} overdue)` : ""),
+      `${r.percentageComplete}%`,
+    ]),
+    styles: {
+      fontSize: 8,
+      cellPadding: 2,
+    },
+    headStyles,
+    alternateRowStyles: {
+      fillColor: [245, 247, 250],
+    },
+    columnStyles: {
+      0: { cellWidth: 28 }, // Finding
+      1: { cellWidth: 55 }, // Title
+      2: { cellWidth: 22 }, // Severity
+      3: { cellWidth: 25 }, // Status
+      4: { cellWidth: 30 }, // Owner
+      5: { cellWidth: 22 }, // Due Date
+      6: { cellWidth: 22 }, // Original Due Date
+      7: { cellWidth: 14 }, // Days
+      8: { cellWidth: 32 }, // Milestones
+      9: { cellWidth: 18 }, // Progress
+    },
+  });
+
+  // Footer with page numbers
+  const pageCount = doc.getNumberOfPages();
+  for (let i = 1; i <= pageCount; i++) {
+    doc.setPage(i);
+    doc.setFontSize(8);
+    doc.setTextColor(150, 150, 150);
+
+    doc.text(
+      `Page ${i} of ${pageCount}`,
+      doc.internal.pageSize.width / 2,
+      doc.internal.pageSize.height - 10,
+      { align: "center" }
+    );
+
+    doc.text(
+      "AFI Peer Review Programme - Confidential",
+      14,
+      doc.internal.pageSize.height - 10
+    );
+  }
+
+  doc.save(`${filename}_${formatDate(new Date())}.pdf`);
+}
+
+// =============================================================================
+// MAIN EXPORT FUNCTION
+// =============================================================================
+
+/**
+ * Export the CAP status pack to the specified format
+ */
+export function exportCAPStatusPack(
+  data: CAPStatusPackData,
+  format: CAPStatusPackFormat,
+  filename?: string
+): void {
+  switch (format) {
+    case "xlsx":
+      exportStatusPackToExcel(data, filename);
+      break;
+    case "pdf":
+      exportStatusPackToPDF(data, filename);
+      break;
+  }
+}
+
+// =============================================================================
+// HELPER FUNCTIONS
+// =============================================================================
+
+/**
+ * Summary figures as label/value pairs, organization first
+ */
+function summaryRows(data: CAPStatusPackData): [string, string | number][] {
+  const { summary } = data;
+  return [
+    ["Organization", data.organizationName],
+    ["Organization Code", data.organizationCode || ""],
+    ["Total CAPs", summary.total],
+    ["Open CAPs", summary.open],
+    ["Closed / Verified CAPs", summary.closed],
+    ["Overdue CAPs", summary.overdue],
+    ["Due Within 7 Days", summary.dueSoon],
+    ["Overdue Milestones", summary.milestonesOverdue],
+  ];
+}
+
+/**
+ * Format date as YYYY-MM-DD
+ */
+function formatDate(date: Date): string {
+  return date.toISOString().split("T")[0];
+}
@@ -0,0 +1,523 @@
+/**
+ * Finding Import Parser
+ *
+ * Reads findings drafted offline in a spreadsheet (CSV or XLSX) and checks
+ * each row against the review before anything is created. Column headings
+ * may be in English or French; the first sheet with a recognisable header
+ * row is used.
+ */
+
+import * as XLSX from "xlsx";
+import type { ValidationError } from "@/lib/questionnaire/import-schema";
+import { normalizeCriticalElement } from "@/lib/questionnaire/import-parser";
+import {
+  ANSReviewArea,
+  CriticalElement,
+  FindingSeverity,
+  FindingType,
+} from "@/types/prisma-enums";
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export type FindingImportField =
+  | "titleEn"
+  | "titleFr"
+  | "descriptionEn"
+  | "descriptionFr"
+  | "evidenceEn"
+  | "evidenceFr"
+  | "reviewArea"
+  | "criticalElement"
+  | "pqNumber"
+  | "severity"
+  | "findingType"
+  | "icaoReference";
+
+/** Raw cell text of one spreadsheet row */
+export type FindingImportRow = { row: number } & Partial<Record<FindingImportField, string>>;
+
+export interface FindingImportParseResult {
+  rows: FindingImportRow[];
+  sheet: string | null;
+  errors: ValidationError[];
+}
+
+/** Protocol question a row may reference by PQ number */
+export interface FindingImportQuestion {
+  id: string;
+  pqNumber: string;
+  reviewArea: ANSReviewArea | null;
+  criticalElement: CriticalElement | null;
+}
+
+export interface FindingImportContext {
+  /** Empty when the review covers every area */
+  areasInScope: string[];
+  /** Keyed by `normalizePqNumber` */
+  questions: Map<string, FindingImportQuestion>;
+}
+
+export interface ImportedFinding {
+  titleEn: string;
+  titleFr: string;
+  descriptionEn: string;
+  descriptionFr: string;
+  evidenceEn: string | null;
+  evidenceFr: string | null;
+  icaoReference: string | null;
+  findingType: FindingType;
+  /** Null when the file leaves it to the severity suggestion */
+  severity: FindingSeverity | null;
+  reviewArea: ANSReviewArea | null;
+  criticalElement: CriticalElement | null;
+  questionId: string | null;
+  pqNumber: string | null;
+}
+
+export interface ValidatedFindingRow {
+  row: number;
+  /** Null when the row has errors */
+  finding: ImportedFinding | null;
+  errors: ValidationError[];
+  warnings: string[];
+}
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+/** Most rows accepted in one import */
+export const MAX_IMPORT_ROWS = 500;
+
+/** Headings written to the import template, in column order */
+export const FINDING_IMPORT_COLUMNS: Record<FindingImportField, string> = {
+  titleEn: "Title (EN)",
+  titleFr: "Title (FR)",
+  descriptionEn: "Description (EN)",
+  descriptionFr: "Description (FR)",
+  evidenceEn: "Evidence (EN)",
+  evidenceFr: "Evidence (FR)",
+  reviewArea: "Review Area",
+  criticalElement: "Critical Element",
+  pqNumber: "PQ Number",
+  severity: "Severity",
+  findingType: "Finding Type",
+  icaoReference: "ICAO Reference",
+};
+
+/** Header rows are searched for in the first rows only (title banners above) */
+const HEADER_SEARCH_ROWS = 10;
+
+/** Column headings after `normalizeHeading`, in English and French */
+const HEADING_ALIASES: Record<string, FindingImportField> = {
+  "title en": "titleEn",
+  title: "titleEn",
+  "finding title": "titleEn",
+  "finding title en": "titleEn",
+  "titre en": "titleEn",
+  "titre anglais": "titleEn",
+  "title fr": "titleFr",
+  titre: "titleFr",
+  "titre fr": "titleFr",
+  "titre francais": "titleFr",
+  "finding title fr": "titleFr",
+  "description en": "descriptionEn",
+  description: "descriptionEn",
+  "finding description": "descriptionEn",
+  "description anglais": "descriptionEn",
+  "description fr": "descriptionFr",
+  "description francais": "descriptionFr",
+  "evidence en": "evidenceEn",
+  evidence: "evidenceEn",
+  "objective evidence": "evidenceEn",
+  "evidence fr": "evidenceFr",
+  preuves: "evidenceFr",
+  "preuves fr": "evidenceFr",
+  "elements de preuve": "evidenceFr",
+  "review area": "reviewArea",
+  area: "reviewArea",
+  domaine: "reviewArea",
+  "domaine de revue": "reviewArea",
+  "critical element": "criticalElement",
+  ce: "criticalElement",
+  "element critique": "criticalElement",
+  pq: "pqNumber",
+  "pq number": "pqNumber",
+  "pq no": "pqNumber",
+  "protocol question": "pqNumber",
+  "numero pq": "pqNumber",
+  "question de protocole": "pqNumber",
+  severity: "severity",
+  severite: "severity",
+  gravite: "severity",
+  "finding type": "findingType",
+  type: "findingType",
+  "type de constatation": "findingType",
+  "icao reference": "icaoReference",
+  "icao ref": "icaoReference",
+  reference: "icaoReference",
+  "reference oaci": "icaoReference",
+};
+
+const SEVERITY_ALIASES: Record<string, FindingSeverity> = {
+  CRITICAL: "CRITICAL",
+  CRITIQUE: "CRITICAL",
+  MAJOR: "MAJOR",
+  MAJEUR: "MAJOR",
+  MAJEURE: "MAJOR",
+  MINOR: "MINOR",
+  MINEUR: "MINOR",
+  MINEURE: "MINOR",
+  OBSERVATION: "OBSERVATION",
+};
+
+const FINDING_TYPE_ALIASES: Record<string, FindingType> = {
+  NON_CONFORMITY: "NON_CONFORMITY",
+  NC: "NON_CONFORMITY",
+  NON_CONFORMITE: "NON_CONFORMITY",
+  OBSERVATION: "OBSERVATION",
+  RECOMMENDATION: "RECOMMENDATION",
+  GOOD_PRACTICE: "GOOD_PRACTICE",
+  BONNE_PRATIQUE: "GOOD_PRACTICE",
+  CONCERN: "CONCERN",
+  PREOCCUPATION: "CONCERN",
+};
+
+type Cell = string | number | boolean | Date | null;
+
+// =============================================================================
+// NORMALIZATION
+// =============================================================================
+
+function stripAccents(value: string): string {
+  return value.normalize("NFD").replace(/[\u0300-\u036f]/g, "");
+}
+
+/**
+ * "Titre (FR)", "title_fr" and "Title FR" all become "titre fr" / "title fr"
+ */
+function normalizeHeading(value: string): string {
+  return stripAccents(value)
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, " ")
+    .trim();
+}
+
+/** "Critique", "non-conformité" and "Good practice" become enum-style keys */
+function normalizeEnumValue(value: string): string {
+  return stripAccents(value).trim().toUpperCase().replace(/[\s-]+/g, "_");
+}
+
+/**
+ * Canonical form of a PQ number for matching ("ans 3.045 " → "ANS 3.045")
+ */
+export function normalizePqNumber(value: string): string {
+  return value.trim().replace(/\s+/g, " ").toUpperCase();
+}
+
+function cellText(value: Cell | undefined): string {
+  if (value === null || value === undefined) return "";
+  if (value instanceof Date) return value.toISOString().slice(0, 10);
+  return String(value).trim();
+}
+
+/** Field names themselves ("titleEn") are accepted as headings too */
+const FIELD_HEADINGS = new Map(
+  (Object.keys(FINDING_IMPORT_COLUMNS) as FindingImportField[]).map((field) => [
+    field.toLowerCase(),
+    field,
+  ])
+);
+
+function mapHeadings(row: Cell[]): Map<number, FindingImportField> {
+  const columns = new Map<number, FindingImportField>();
+  row.forEach((cell, index) => {
+    const heading = normalizeHeading(cellText(cell));
+    const field = HEADING_ALIASES[heading] ?? FIELD_HEADINGS.get(heading.replace(/ /g, ""));
+    if (field && ![...columns.values()].includes(field)) {
+      columns.set(index, field);
+    }
+  });
+  return columns;
+}
+
+// =============================================================================
+// PARSING
+// =============================================================================
+
+/**
+ * Read finding rows from a CSV or XLSX file. CSV text may be passed as a
+ * string; workbooks as their bytes.
+ */
+export function parseFindingSpreadsheet(
+  input: ArrayBuffer | Uint8Array | string
+): FindingImportParseResult {
+  let workbook: XLSX.WorkBook;
+  try {
+    workbook =
+      typeof input === "string"
+        ? XLSX.read(input, { type: "string", cellDates: true })
+        : XLSX.read(input, { type: "array", cellDates: true });
+  } catch (error) {
+    return {
+      rows: [],
+      sheet: null,
+      errors: [
+        {
+          row: 0,
+          field: "",
+          message: `Invalid spreadsheet: ${error instanceof Error ? error.message : "Unknown error"}`,
+        },
+      ],
+    };
+  }
+
+  for (const name of workbook.SheetNames) {
+    const cells = XLSX.utils.sheet_to_json<Cell[]>(workbook.Sheets[name], {
+      header: 1,
+      defval: null,
+      blankrows: true,
+      raw: true,
+    });
+
+    const limit = Math.min(cells.length, HEADER_SEARCH_ROWS);
+    for (let headerIndex = 0; headerIndex < limit; headerIndex++) {
+      const columns = mapHeadings(cells[headerIndex] ?? []);
+      const fields = [...columns.values()];
+      if (!fields.includes("titleEn") && !fields.includes("descriptionEn")) continue;
+
+      const rows: FindingImportRow[] = [];
+      cells.slice(headerIndex + 1).forEach((cellRow, offset) => {
+        const row: FindingImportRow = { row: headerIndex + offset + 2 };
+        for (const [index, field] of columns) {
+          const text = cellText(cellRow?.[index]);
+          if (text) row[field] = text;
+        }
+        if (Object.keys(row).length > 1) rows.push(row);
+      });
+
+      const errors: ValidationError[] = [];
+      if (rows.length === 0) {
+        errors.push({ row: 0, field: "", message: `Sheet "${name}" has no finding rows` });
+      } else if (rows.length > MAX_IMPORT_ROWS) {
+        errors.push({
+          row: 0,
+          field: "",
+          message: `A single import is limited to ${MAX_IMPORT_ROWS} findings (found ${rows.length})`,
+        });
+      }
+
+      return { rows, sheet: name, errors };
+    }
+  }
+
+  return {
+    rows: [],
+    sheet: null,
+    errors: [
+      {
+        row: 0,
+        field: "",
+        message: "No sheet has a header row with a title or description column",
+      },
+    ],
+  };
+}
+
+// =============================================================================
+// VALIDATION
+// =============================================================================
+
+function requireText(
+  row: FindingImportRow,
+  field: FindingImportField,
+  label: string,
+  min: number,
+  max: number | null,
+  errors: ValidationError[]
+): string {
+  const value = row[field] ?? "";
+  if (value.length < min) {
+    errors.push({
+      row: row.row,
+      field,
+      message: value
+        ? `${label} must be at least ${min} characters`
+        : `${label} is required`,
+      value,
+    });
+  } else if (max !== null && value.length > max) {
+    errors.push({ row: row.row, field, message: `${label} must be at most ${max} characters`, value });
+  }
+  return value;
+}
+
+/**
+ * Check one row against the review's scope and questionnaire. Review area
+ * and critical element default to those of the referenced PQ.
+ */
+export function validateFindingImportRow(
+  row: FindingImportRow,
+  context: FindingImportContext
+): ValidatedFindingRow {
+  const errors: ValidationError[] = [];
+  const warnings: string[] = [];
+
+  const titleEn = requireText(row, "titleEn", "English title", 5, 200, errors);
+  const titleFr = requireText(row, "titleFr", "French title", 5, 200, errors);
+  const descriptionEn = requireText(row, "descriptionEn", "English description", 20, null, errors);
+  const descriptionFr = requireText(row, "descriptionFr", "French description", 20, null, errors);
+
+  // Protocol question
+  let question: FindingImportQuestion | null = null;
+  if (row.pqNumber) {
+    question = context.questions.get(normalizePqNumber(row.pqNumber)) ?? null;
+    if (!question) {
+      errors.push({
+        row: row.row,
+        field: "pqNumber",
+        message: `PQ ${row.pqNumber} is not in the review's questionnaire`,
+        value: row.pqNumber,
+      });
+    }
+  }
+
+  // Review area
+  let reviewArea: ANSReviewArea | null = question?.reviewArea ?? null;
+  if (row.reviewArea) {
+    const area = normalizeEnumValue(row.reviewArea);
+    if (area in ANSReviewArea) {
+      reviewArea = area as ANSReviewArea;
+      if (question?.reviewArea && question.reviewArea !== reviewArea) {
+        errors.push({
+          row: row.row,
+          field: "reviewArea",
+          message: `PQ ${question.pqNumber} belongs to ${question.reviewArea}, not ${reviewArea}`,
+          value: row.reviewArea,
+        });
+      }
+    } else {
+      errors.push({
+        row: row.row,
+        field: "reviewArea",
+        message: `Unknown review area "${row.reviewArea}"`,
+        value: row.reviewArea,
+      });
+    }
+  }
+  if (reviewArea && context.areasInScope.length > 0 && !context.areasInScope.includes(reviewArea)) {
+    errors.push({
+      row: row.row,
+      field: "reviewArea",
+      message: `${reviewArea} is not in the scope of this review`,
+      value: reviewArea,
+    });
+  }
+
+  // Critical element
+  let criticalElement: CriticalElement | null = question?.criticalElement ?? null;
+  if (row.criticalElement) {
+    const ce = normalizeCriticalElement(row.criticalElement.replace(/\s+/g, ""));
+    if (ce && ce in CriticalElement) {
+      criticalElement = ce as CriticalElement;
+    } else {
+      errors.push({
+        row: row.row,
+        field: "criticalElement",
+        message: `Unknown critical element "${row.criticalElement}"`,
+        value: row.criticalElement,
+      });
+    }
+  }
+
+  // Severity, left empty for the suggestion
+  let severity: FindingSeverity | null = null;
+  if (row.severity) {
+    severity = SEVERITY_ALIASES[normalizeEnumValue(row.severity)] ?? null;
+    if (!severity) {
+      errors.push({
+        row: row.row,
+        field: "severity",
+        message: `Unknown severity "${row.severity}"`,
+        value: row.severity,
+      });
+    }
+  }
+
+  let findingType: FindingType = FindingType.OBSERVATION;
+  if (row.findingType) {
+    const type = FINDING_TYPE_ALIASES[normalizeEnumValue(row.findingType)];
+    if (type) {
+      findingType = type;
+    } else {
+      errors.push({
+        row: row.row,
+        field: "findingType",
+        message: `Unknown finding type "${row.findingType}"`,
+        value: row.findingType,
+      });
+    }
+  } else {
+    warnings.push(`Row ${row.row}: no finding type given, imported as an observation`);
+  }
+
+  if (errors.length > 0) {
+    return { row: row.row, finding: null, errors, warnings };
+  }
+
+  return {
+    row: row.row,
+    finding: {
+      titleEn,
+      titleFr,
+      descriptionEn,
+      descriptionFr,
+      evidenceEn: row.evidenceEn ?? null,
+      evidenceFr: row.evidenceFr ?? null,
+      icaoReference: row.icaoReference ?? null,
+      findingType,
+      severity,
+      reviewArea,
+      criticalElement,
+      questionId: question?.id ?? null,
+      pqNumber: question?.pqNumber ?? null,
+    },
+    errors,
+    warnings,
+  };
+}
+
+/**
+ * CSV template with one heading per column
+ */
+export function buildFindingImportTemplate(): string {
+  return Object.values(FINDING_IMPORT_COLUMNS).join(",") + "\n";
+}
+
+/**
+ * Validate every row and flag rows that repeat an earlier row's title
+ */
+export function validateFindingImportRows(
+  rows: FindingImportRow[],
+  context: FindingImportContext
+): ValidatedFindingRow[] {
+  const seenTitles = new Map<string, number>();
+
+  return rows.map((row) => {
+    const result = validateFindingImportRow(row, context);
+
+    const title = row.titleEn?.trim().toLowerCase();
+    if (title) {
+      const first = seenTitles.get(title);
+      if (first !== undefined) {
+        result.warnings.push(`Row ${row.row}: same English title as row ${first}`);
+      } else {
+        seenTitles.set(title, row.row);
+      }
+    }
+
+    return result;
+  });
+}
@@ -0,0 +1,229 @@
+/**
+ * Recurring Finding Detection
+ *
+ * Scores how likely a new finding restates a deficiency already found in
+ * an earlier review of the same organisation. Evidence is combined from
+ * the protocol question (directly, or through the PQ renumbering chain
+ * across questionnaire editions), the critical element, the review area
+ * and the similarity of the English title and description.
+ */
+
+import type { ANSReviewArea, CriticalElement } from "@/types/prisma-enums";
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export type RecurrenceReason =
+  /** Both findings were raised against the same protocol question */
+  | "SAME_QUESTION"
+  /** The questions are the same PQ in different questionnaire editions */
+  | "PQ_CHAIN"
+  | "SAME_CRITICAL_ELEMENT"
+  | "SAME_REVIEW_AREA"
+  /** Title and description use largely the same wording */
+  | "SIMILAR_TEXT";
+
+export interface RecurrenceSubject {
+  questionId: string | null;
+  pqNumber: string | null;
+  criticalElement: CriticalElement | null;
+  reviewArea: ANSReviewArea | null;
+  titleEn: string;
+  descriptionEn: string;
+}
+
+export interface RecurrenceMatch {
+  /** 0–1 */
+  score: number;
+  reasons: RecurrenceReason[];
+  /** 0–1 */
+  textSimilarity: number;
+}
+
+export interface RepeatRate {
+  key: string;
+  total: number;
+  repeats: number;
+  /** Percentage, 0–100 */
+  rate: number;
+}
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+export const RECURRENCE_WEIGHTS: Record<Exclude<RecurrenceReason, "SIMILAR_TEXT">, number> = {
+  SAME_QUESTION: 0.6,
+  PQ_CHAIN: 0.5,
+  SAME_CRITICAL_ELEMENT: 0.15,
+  SAME_REVIEW_AREA: 0.1,
+};
+
+/** Text similarity is worth up to this much, scaled by the similarity */
+export const TEXT_SIMILARITY_WEIGHT = 0.5;
+
+/** Below this, wording overlap is treated as coincidence */
+export const MIN_TEXT_SIMILARITY = 0.3;
+
+/** Matches scoring at least this are proposed as repeat findings */
+export const RECURRENCE_THRESHOLD = 0.5;
+
+const STOP_WORDS = new Set([
+  "a", "an", "and", "are", "as", "at", "be", "been", "by", "for", "from", "has",
+  "have", "in", "is", "it", "its", "no", "not", "of", "on", "or", "that", "the",
+  "their", "there", "these", "this", "to", "was", "were", "which", "with",
+]);
+
+// =============================================================================
+// TEXT SIMILARITY
+// =============================================================================
+
+/**
+ * Lower-cased word stems of a text, without stop words and short tokens.
+ */
+export function tokenize(text: string): Set<string> {
+  const tokens = text
+    .toLowerCase()
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .split(/[^a-z0-9]+/)
+    .filter((token) => token.length > 2 && !STOP_WORDS.has(token))
+    // Crude stemming so "procedures", "procedure" and "processes",
+    // "process" match
+    .map((token) => token.replace(/(ies|ed|ing|(?<!s)s)$/, "").replace(/e$/, ""));
+
+  return new Set(tokens.filter((token) => token.length > 2));
+}
+
+/**
+ * Dice coefficient of the two texts' token sets, 0–1.
+ */
+export function textSimilarity(a: string, b: string): number {
+  const tokensA = tokenize(a);
+  const tokensB = tokenize(b);
+  if (tokensA.size === 0 || tokensB.size === 0) return 0;
+
+  let shared = 0;
+  for (const token of tokensA) {
+    if (tokensB.has(token)) shared++;
+  }
+  return (2 * shared) / (tokensA.size + tokensB.size);
+}
+
+// =============================================================================
+// PQ CHAIN
+// =============================================================================
+
+/**
+ * Every PQ number linked to `pqNumber` through `previousPqNumber`, in
+ * either direction, across the questions of a questionnaire's editions.
+ */
+export function buildPqChain(
+  pqNumber: string,
+  questions: { pqNumber: string | null; previousPqNumber: string | null }[]
+): Set<string> {
+  const chain = new Set([pqNumber]);
+
+  let grew = true;
+  while (grew) {
+    grew = false;
+    for (const question of questions) {
+      if (!question.pqNumber || !question.previousPqNumber) continue;
+      const hasCurrent = chain.has(question.pqNumber);
+      const hasPrevious = chain.has(question.previousPqNumber);
+      if (hasCurrent !== hasPrevious) {
+        chain.add(question.pqNumber);
+        chain.add(question.previousPqNumber);
+        grew = true;
+      }
+    }
+  }
+
+  return chain;
+}
+
+// =============================================================================
+// MATCHING
+// =============================================================================
+
+/**
+ * Score a prior finding as a possible earlier occurrence of `current`.
+ *
+ * @param pqChain PQ numbers that denote the current finding's question in
+ *   any edition of its questionnaire
+ */
+export function scoreRecurrence(
+  current: RecurrenceSubject,
+  prior: RecurrenceSubject,
+  pqChain: ReadonlySet<string> = new Set()
+): RecurrenceMatch {
+  const reasons: RecurrenceReason[] = [];
+  let score = 0;
+
+  if (current.questionId && current.questionId === prior.questionId) {
+    reasons.push("SAME_QUESTION");
+    score += RECURRENCE_WEIGHTS.SAME_QUESTION;
+  } else if (prior.pqNumber && pqChain.has(prior.pqNumber)) {
+    reasons.push("PQ_CHAIN");
+    score += RECURRENCE_WEIGHTS.PQ_CHAIN;
+  }
+
+  if (current.criticalElement && current.criticalElement === prior.criticalElement) {
+    reasons.push("SAME_CRITICAL_ELEMENT");
+    score += RECURRENCE_WEIGHTS.SAME_CRITICAL_ELEMENT;
+  }
+
+  if (current.reviewArea && current.reviewArea === prior.reviewArea) {
+    reasons.push("SAME_REVIEW_AREA");
+    score += RECURRENCE_WEIGHTS.SAME_REVIEW_AREA;
+  }
+
+  const similarity = textSimilarity(
+    `${current.titleEn} ${current.descriptionEn}`,
+    `${prior.titleEn} ${prior.descriptionEn}`
+  );
+  if (similarity >= MIN_TEXT_SIMILARITY) {
+    reasons.push("SIMILAR_TEXT");
+    score += TEXT_SIMILARITY_WEIGHT * similarity;
+  }
+
+  return {
+    score: Math.round(Math.min(score, 1) * 1000) / 1000,
+    reasons,
+    textSimilarity: Math.round(similarity * 1000) / 1000,
+  };
+}
+
+export function isRecurrence(match: RecurrenceMatch): boolean {
+  return match.score >= RECURRENCE_THRESHOLD;
+}
+
+// =============================================================================
+// RATES
+// =============================================================================
+
+/**
+ * Share of findings flagged as repeats within each group, highest first.
+ */
+export function summarizeRepeatRates(
+  rows: { key: string; isRepeat: boolean }[]
+): RepeatRate[] {
+  const groups = new Map<string, { total: number; repeats: number }>();
+
+  for (const row of rows) {
+    const group = groups.get(row.key) ?? { total: 0, repeats: 0 };
+    group.total++;
+    if (row.isRepeat) group.repeats++;
+    groups.set(row.key, group);
+  }
+
+  return [...groups.entries()]
+    .map(([key, { total, repeats }]) => ({
+      key,
+      total,
+      repeats,
+      rate: Math.round((repeats / total) * 1000) / 10,
+    }))
+    .sort((a, b) => b.rate - a.rate || b.total - a.total);
+}
@@ -0,0 +1,285 @@
+/**
+ * Severity Rule Sets
+ *
+ * The weights and thresholds behind the finding severity suggestion.
+ * Rule sets are versioned and stored in the database so each programme
+ * phase can tune them; DEFAULT_SEVERITY_RULES reproduces the original
+ * hard-coded calculator and is used when no rule set is active.
+ */
+
+import { z } from "zod";
+import {
+  ANSReviewArea,
+  FindingSeverity,
+} from "@/types/prisma-enums";
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface SeverityWeights {
+  /** ANS, OPS, AIR, AIG */
+  safetyCriticalArea: number;
+  /** PEL, AGA, SSP */
+  highRiskArea: number;
+  /** Any other audit area */
+  standardArea: number;
+  /** CE-5 to CE-8 */
+  coreCriticalElement: number;
+  /** CE-1 to CE-4 */
+  criticalElement: number;
+  /** The finding is raised against a priority PQ */
+  priorityPQ: number;
+  icaoStandard: number;
+  icaoAnnex: number;
+  icaoPans: number;
+  icaoRecommended: number;
+  /** Points per critical keyword, and the most they can add */
+  criticalKeyword: number;
+  criticalKeywordCap: number;
+  majorKeyword: number;
+  majorKeywordCap: number;
+  safetyImpact: number;
+  safetyImpactCap: number;
+  nonConformity: number;
+  concern: number;
+  /** Points per similar open finding in the organisation's history */
+  repeatFinding: number;
+  repeatFindingCap: number;
+}
+
+/** Minimum score for each severity; anything lower is an OBSERVATION */
+export interface SeverityThresholds {
+  CRITICAL: number;
+  MAJOR: number;
+  MINOR: number;
+}
+
+/** Minimum number of contributing factors for each confidence level */
+export interface ConfidenceThresholds {
+  HIGH: number;
+  MEDIUM: number;
+}
+
+export interface SeverityAreaOverride {
+  weights?: Partial<SeverityWeights>;
+  thresholds?: Partial<SeverityThresholds>;
+  /** Never suggest less than this in the area */
+  minimumSeverity?: FindingSeverity;
+}
+
+export interface SeverityRuleConfig {
+  weights: SeverityWeights;
+  thresholds: SeverityThresholds;
+  confidence: ConfidenceThresholds;
+  areaOverrides: Partial<Record<ANSReviewArea, SeverityAreaOverride>>;
+}
+
+/** A rule config with the review area's overrides applied */
+export interface ResolvedSeverityRules {
+  weights: SeverityWeights;
+  thresholds: SeverityThresholds;
+  confidence: ConfidenceThresholds;
+  minimumSeverity: FindingSeverity | null;
+}
+
+// =============================================================================
+// DEFAULTS
+// =============================================================================
+
+export const DEFAULT_SEVERITY_RULES: SeverityRuleConfig = {
+  weights: {
+    safetyCriticalArea: 3,
+    highRiskArea: 2,
+    standardArea: 1,
+    coreCriticalElement: 2,
+    criticalElement: 1,
+    priorityPQ: 2,
+    icaoStandard: 3,
+    icaoAnnex: 2,
+    icaoPans: 2,
+    icaoRecommended: 1,
+    criticalKeyword: 2,
+    criticalKeywordCap: 4,
+    majorKeyword: 1,
+    majorKeywordCap: 3,
+    safetyImpact: 2,
+    safetyImpactCap: 4,
+    nonConformity: 2,
+    concern: 1,
+    repeatFinding: 2,
+    repeatFindingCap: 4,
+  },
+  thresholds: {
+    CRITICAL: 8,
+    MAJOR: 5,
+    MINOR: 2,
+  },
+  confidence: {
+    HIGH: 4,
+    MEDIUM: 2,
+  },
+  areaOverrides: {},
+};
+
+/** Least to most severe */
+export const SEVERITY_ORDER: FindingSeverity[] = ["OBSERVATION", "MINOR", "MAJOR", "CRITICAL"];
+
+// =============================================================================
+// VALIDATION
+// =============================================================================
+
+const weight = z.number().min(0).max(20);
+const threshold = z.number().min(0).max(100);
+
+const weightsSchema = z.object({
+  safetyCriticalArea: weight,
+  highRiskArea: weight,
+  standardArea: weight,
+  coreCriticalElement: weight,
+  criticalElement: weight,
+  priorityPQ: weight,
+  icaoStandard: weight,
+  icaoAnnex: weight,
+  icaoPans: weight,
+  icaoRecommended: weight,
+  criticalKeyword: weight,
+  criticalKeywordCap: weight,
+  majorKeyword: weight,
+  majorKeywordCap: weight,
+  safetyImpact: weight,
+  safetyImpactCap: weight,
+  nonConformity: weight,
+  concern: weight,
+  repeatFinding: weight,
+  repeatFindingCap: weight,
+});
+
+const thresholdsSchema = z.object({
+  CRITICAL: threshold,
+  MAJOR: threshold,
+  MINOR: threshold,
+});
+
+function isOrdered(t: Partial<SeverityThresholds>): boolean {
+  const { CRITICAL, MAJOR, MINOR } = { ...DEFAULT_SEVERITY_RULES.thresholds, ...t };
+  return CRITICAL > MAJOR && MAJOR > MINOR;
+}
+
+export const severityRuleConfigSchema = z.object({
+  weights: weightsSchema,
+  thresholds: thresholdsSchema.refine(isOrdered, {
+    message: "Thresholds must satisfy CRITICAL > MAJOR > MINOR",
+  }),
+  confidence: z
+    .object({ HIGH: z.number().int().min(1).max(10), MEDIUM: z.number().int().min(1).max(10) })
+    .refine((c) => c.HIGH > c.MEDIUM, { message: "HIGH confidence must need more factors than MEDIUM" }),
+  areaOverrides: z.partialRecord(
+    z.nativeEnum(ANSReviewArea),
+    z.object({
+      weights: weightsSchema.partial().optional(),
+      thresholds: thresholdsSchema.partial().optional(),
+      minimumSeverity: z.nativeEnum(FindingSeverity).optional(),
+    })
+  ),
+});
+
+/**
+ * Read a stored rule config, falling back to the defaults for anything
+ * missing or invalid so an old or hand-edited row cannot break suggestions.
+ */
+export function parseSeverityRules(value: unknown): SeverityRuleConfig {
+  const result = severityRuleConfigSchema.safeParse(value);
+  return result.success ? (result.data as SeverityRuleConfig) : DEFAULT_SEVERITY_RULES;
+}
+
+// =============================================================================
+// EVALUATION
+// =============================================================================
+
+/**
+ * Apply a review area's overrides on top of the base rules.
+ */
+export function resolveSeverityRules(
+  rules: SeverityRuleConfig,
+  reviewArea?: ANSReviewArea | null
+): ResolvedSeverityRules {
+  const override = reviewArea ? rules.areaOverrides[reviewArea] : undefined;
+
+  return {
+    weights: { ...rules.weights, ...override?.weights },
+    thresholds: { ...rules.thresholds, ...override?.thresholds },
+    confidence: rules.confidence,
+    minimumSeverity: override?.minimumSeverity ?? null,
+  };
+}
+
+/**
+ * Severity for a score, raised to the area's minimum if it has one.
+ */
+export function severityForScore(score: number, rules: ResolvedSeverityRules): FindingSeverity {
+  let severity: FindingSeverity;
+  if (score >= rules.thresholds.CRITICAL) {
+    severity = "CRITICAL";
+  } else if (score >= rules.thresholds.MAJOR) {
+    severity = "MAJOR";
+  } else if (score >= rules.thresholds.MINOR) {
+    severity = "MINOR";
+  } else {
+    severity = "OBSERVATION";
+  }
+
+  if (
+    rules.minimumSeverity &&
+    SEVERITY_ORDER.indexOf(rules.minimumSeverity) > SEVERITY_ORDER.indexOf(severity)
+  ) {
+    return rules.minimumSeverity;
+  }
+  return severity;
+}
+
+export function confidenceForFactors(
+  contributingFactors: number,
+  rules: ResolvedSeverityRules
+): "high" | "medium" | "low" {
+  if (contributingFactors >= rules.confidence.HIGH) return "high";
+  if (contributingFactors >= rules.confidence.MEDIUM) return "medium";
+  return "low";
+}
+
+// =============================================================================
+// SIMULATION
+// =============================================================================
+
+export interface SeverityChangeSummary {
+  total: number;
+  changed: number;
+  raised: number;
+  lowered: number;
+  /** transitions[from][to] = number of findings */
+  transitions: Record<FindingSeverity, Record<FindingSeverity, number>>;
+}
+
+/**
+ * Tally how a set of severities would move from `from` to `to`.
+ */
+export function summarizeSeverityChanges(
+  pairs: { from: FindingSeverity; to: FindingSeverity }[]
+): SeverityChangeSummary {
+  const emptyRow = () =>
+    Object.fromEntries(SEVERITY_ORDER.map((s) => [s, 0])) as Record<FindingSeverity, number>;
+  const transitions = Object.fromEntries(
+    SEVERITY_ORDER.map((s) => [s, emptyRow()])
+  ) as SeverityChangeSummary["transitions"];
+
+  let raised = 0;
+  let lowered = 0;
+  for (const { from, to } of pairs) {
+    transitions[from][to]++;
+    const delta = SEVERITY_ORDER.indexOf(to) - SEVERITY_ORDER.indexOf(from);
+    if (delta > 0) raised++;
+    if (delta < 0) lowered++;
+  }
+
+  return { total: pairs.length, changed: raised + lowered, raised, lowered, transitions };
+}
@@ -2,7 +2,8 @@
  * Severity Suggestion Utility (Client-Side)
  *
  * A simplified version of the server-side severity calculator for real-time UI updates.
- * Does not include database checks for repeat findings.
+ * Does not include database checks for repeat findings. Weights and thresholds
+ * come from the active severity rule set (see severity-rules.ts).
  */
 
 import type {
@@ -10,7 +11,15 @@ import type {
   FindingSeverity,
   USOAPAuditArea,
   CriticalElement,
+  ANSReviewArea,
 } from "@/types/prisma-enums";
+import {
+  DEFAULT_SEVERITY_RULES,
+  confidenceForFactors,
+  resolveSeverityRules,
+  severityForScore,
+  type SeverityRuleConfig,
+} from "./severity-rules";
 
 // =============================================================================
 // TYPES
@@ -23,6 +32,8 @@ export interface SeverityInput {
   titleFr?: string;
   auditArea?: USOAPAuditArea | null;
   criticalElement?: CriticalElement | null;
+  reviewArea?: ANSReviewArea | null;
+  isPriorityPQ?: boolean;
   icaoReference?: string | null;
   findingType?: FindingType;
 }
@@ -46,17 +57,6 @@ export interface SeveritySuggestion {
 // CONSTANTS
 // =============================================================================
 
-const SEVERITY_THRESHOLDS = {
-  CRITICAL: 8,
-  MAJOR: 5,
-  MINOR: 2,
-};
-
-const CONFIDENCE_THRESHOLDS = {
-  HIGH: 4,
-  MEDIUM: 2,
-};
-
 const SAFETY_CRITICAL_AREAS: USOAPAuditArea[] = ["ANS", "OPS", "AIR", "AIG"];
 const HIGH_RISK_AREAS: USOAPAuditArea[] = ["PEL", "AGA", "SSP"];
 const CORE_CRITICAL_ELEMENTS: CriticalElement[] = ["CE_5", "CE_6", "CE_7", "CE_8"];
@@ -112,7 +112,12 @@ function containsSafetyImpact(text: string): string[] {
 // MAIN FUNCTION
 // =============================================================================
 
-export function calculateSeveritySuggestion(input: SeverityInput): SeveritySuggestion {
+export function calculateSeveritySuggestion(
+  input: SeverityInput,
+  ruleConfig: SeverityRuleConfig = DEFAULT_SEVERITY_RULES
+): SeveritySuggestion {
+  const rules = resolveSeverityRules(ruleConfig, input.reviewArea);
+  const w = rules.weights;
   let score = 0;
   const factors: SeverityFactor[] = [];
 
@@ -126,30 +131,30 @@ export function calculateSeveritySuggestion(input: SeverityInput): SeveritySugge
   // Factor 1: Audit Area
   if (input.auditArea) {
     if (SAFETY_CRITICAL_AREAS.includes(input.auditArea)) {
-      score += 3;
+      score += w.safetyCriticalArea;
       factors.push({
         id: "safety_critical_area",
         description: `Safety-critical audit area: ${input.auditArea}`,
         descriptionFr: `Zone d'audit critique pour la sécurité: ${input.auditArea}`,
-        points: 3,
+        points: w.safetyCriticalArea,
         category: "area",
       });
     } else if (HIGH_RISK_AREAS.includes(input.auditArea)) {
-      score += 2;
+      score += w.highRiskArea;
       factors.push({
         id: "high_risk_area",
         description: `High-risk audit area: ${input.auditArea}`,
         descriptionFr: `Zone d'audit à haut risque: ${input.auditArea}`,
-        points: 2,
+        points: w.highRiskArea,
         category: "area",
       });
     } else {
-      score += 1;
+      score += w.standardArea;
       factors.push({
         id: "standard_area",
         description: `Standard audit area: ${input.auditArea}`,
         descriptionFr: `Zone d'audit standard: ${input.auditArea}`,
-        points: 1,
+        points: w.standardArea,
         category: "area",
       });
     }
@@ -158,54 +163,66 @@ export function calculateSeveritySuggestion(input: SeverityInput): SeveritySugge
   // Factor 2: Critical Element
   if (input.criticalElement) {
     if (CORE_CRITICAL_ELEMENTS.includes(input.criticalElement)) {
-      score += 2;
+      score += w.coreCriticalElement;
       factors.push({
         id: "core_critical_element",
         description: `Core Critical Element: ${input.criticalElement}`,
         descriptionFr: `Élément critique principal: ${input.criticalElement}`,
-        points: 2,
+        points: w.coreCriticalElement,
         category: "area",
       });
     } else {
-      score += 1;
+      score += w.criticalElement;
       factors.push({
         id: "critical_element",
         description: `Critical Element: ${input.criticalElement}`,
         descriptionFr: `Élément critique: ${input.criticalElement}`,
-        points: 1,
+        points: w.criticalElement,
         category: "area",
       });
     }
   }
 
+  // Factor 2b: Priority PQ
+  if (input.isPriorityPQ) {
+    score += w.priorityPQ;
+    factors.push({
+      id: "priority_pq",
+      description: "Raised against a priority Protocol Question",
+      descriptionFr: "Relevée sur une question de protocole prioritaire",
+      points: w.priorityPQ,
+      category: "area",
+    });
+  }
+
   // Factor 3: ICAO Reference
   if (input.icaoReference) {
     const refUpper = input.icaoReference.toUpperCase();
     if (refUpper.includes("STANDARD") || refUpper.includes("STD") || refUpper.includes("SHALL")) {
-      score += 3;
+      score += w.icaoStandard;
       factors.push({
         id: "icao_standard",
         description: "References ICAO Standard (mandatory)",
         descriptionFr: "Référence à une Norme OACI (obligatoire)",
-        points: 3,
+        points: w.icaoStandard,
         category: "reference",
       });
     } else if (refUpper.includes("ANNEX") && !refUpper.includes("RP")) {
-      score += 2;
+      score += w.icaoAnnex;
       factors.push({
         id: "icao_annex",
         description: "References ICAO Annex provision",
         descriptionFr: "Référence à une disposition d'Annexe OACI",
-        points: 2,
+        points: w.icaoAnnex,
         category: "reference",
       });
     } else if (refUpper.includes("PANS") || refUpper.includes("DOC")) {
-      score += 2;
+      score += w.icaoPans;
       factors.push({
         id: "icao_pans",
         description: "References ICAO PANS/Doc requirement",
         descriptionFr: "Référence à une exigence PANS/Doc OACI",
-        points: 2,
+        points: w.icaoPans,
         category: "reference",
       });
     }
@@ -214,7 +231,7 @@ export function calculateSeveritySuggestion(input: SeverityInput): SeveritySugge
   // Factor 4: Critical Keywords
   const criticalMatches = containsKeywords(allText, CRITICAL_KEYWORDS);
   if (criticalMatches.length > 0) {
-    const points = Math.min(criticalMatches.length * 2, 4);
+    const points = Math.min(criticalMatches.length * w.criticalKeyword, w.criticalKeywordCap);
     score += points;
     factors.push({
       id: "critical_keywords",
@@ -228,7 +245,7 @@ export function calculateSeveritySuggestion(input: SeverityInput): SeveritySugge
   // Factor 5: Major Keywords
   const majorMatches = containsKeywords(allText, MAJOR_KEYWORDS);
   if (majorMatches.length > 0 && criticalMatches.length === 0) {
-    const points = Math.min(majorMatches.length, 3);
+    const points = Math.min(majorMatches.length * w.majorKeyword, w.majorKeywordCap);
     score += points;
     factors.push({
       id: "major_keywords",
@@ -242,7 +259,7 @@ export function calculateSeveritySuggestion(input: SeverityInput): SeveritySugge
   // Factor 6: Safety Impact
   const safetyMatches = containsSafetyImpact(allText);
   if (safetyMatches.length > 0) {
-    const points = Math.min(safetyMatches.length * 2, 4);
+    const points = Math.min(safetyMatches.length * w.safetyImpact, w.safetyImpactCap);
     score += points;
     factors.push({
       id: "safety_impact",
@@ -255,21 +272,21 @@ export function calculateSeveritySuggestion(input: SeverityInput): SeveritySugge
 
   // Factor 7: Finding Type
   if (input.findingType === "NON_CONFORMITY") {
-    score += 2;
+    score += w.nonConformity;
     factors.push({
       id: "type_non_conformity",
       description: "Non-Conformity finding",
       descriptionFr: "Constatation de non-conformité",
-      points: 2,
+      points: w.nonConformity,
       category: "type",
     });
   } else if (input.findingType === "CONCERN") {
-    score += 1;
+    score += w.concern;
     factors.push({
       id: "type_concern",
       description: "Concern finding",
       descriptionFr: "Constatation de préoccupation",
-      points: 1,
+      points: w.concern,
       category: "type",
     });
   } else if (input.findingType === "GOOD_PRACTICE") {
@@ -279,29 +296,12 @@ export function calculateSeveritySuggestion(input: SeverityInput): SeveritySugge
   }
 
   // Determine severity
-  let suggested: FindingSeverity;
-  if (input.findingType === "GOOD_PRACTICE") {
-    suggested = "OBSERVATION";
-  } else if (score >= SEVERITY_THRESHOLDS.CRITICAL) {
-    suggested = "CRITICAL";
-  } else if (score >= SEVERITY_THRESHOLDS.MAJOR) {
-    suggested = "MAJOR";
-  } else if (score >= SEVERITY_THRESHOLDS.MINOR) {
-    suggested = "MINOR";
-  } else {
-    suggested = "OBSERVATION";
-  }
+  const suggested: FindingSeverity =
+    input.findingType === "GOOD_PRACTICE" ? "OBSERVATION" : severityForScore(score, rules);
 
   // Determine confidence
   const contributingFactors = factors.filter((f) => f.points > 0).length;
-  let confidence: "high" | "medium" | "low";
-  if (contributingFactors >= CONFIDENCE_THRESHOLDS.HIGH) {
-    confidence = "high";
-  } else if (contributingFactors >= CONFIDENCE_THRESHOLDS.MEDIUM) {
-    confidence = "medium";
-  } else {
-    confidence = "low";
-  }
+  const confidence = confidenceForFactors(contributingFactors, rules);
 
   return {
     suggested,
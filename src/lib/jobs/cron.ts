@@ -0,0 +1,253 @@
+/**
+ * Cron Schedules
+ *
+ * Parsing and evaluation of the five-field cron expressions used by the
+ * background job scheduler (minute, hour, day of month, month, day of
+ * week; all in UTC). Supports `*`, lists, ranges and steps, which covers
+ * every schedule the platform uses. Also decides when a job is due and
+ * whether it has gone too long without a successful run.
+ */
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface CronSchedule {
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>;
+  /** Day of month and day of week restricted: a date matching either runs */
+  dayOrWeekday: boolean;
+}
+
+export interface JobHealthInput {
+  schedule: string;
+  /** Last successful run, or null if the job never succeeded */
+  lastSuccessAt: Date | null;
+  /** When the scheduler first registered the job */
+  registeredAt: Date;
+  /** Time a run is allowed to take before it counts as missed */
+  graceMinutes: number;
+  now: Date;
+}
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+const FIELDS = [
+  { name: "minute", min: 0, max: 59 },
+  { name: "hour", min: 0, max: 23 },
+  { name: "day of month", min: 1, max: 31 },
+  { name: "month", min: 1, max: 12 },
+  { name: "day of week", min: 0, max: 7 },
+] as const;
+
+const MINUTE_MS = 60 * 1000;
+
+/** Search horizon for the next/previous occurrence (covers Feb 29 schedules) */
+const SEARCH_LIMIT_MS = 5 * 366 * 24 * 60 * MINUTE_MS;
+
+// =============================================================================
+// PARSING
+// =============================================================================
+
+function parseField(value: string, field: (typeof FIELDS)[number]): Set<number> {
+  const result = new Set<number>();
+
+  for (const part of value.split(",")) {
+    const [range, stepText] = part.split("/");
+    const step = stepText === undefined ? 1 : Number(stepText);
+    if (!Number.isInteger(step) || step < 1) {
+      throw new Error(`Invalid step "${part}" in ${field.name} field`);
+    }
+
+    let start: number;
+    let end: number;
+    if (range === "*") {
+      start = field.min;
+      end = field.max;
+    } else if (range.includes("-")) {
+      [start, end] = range.split("-").map(Number);
+    } else {
+      start = Number(range);
+      end = stepText === undefined ? start : field.max;
+    }
+
+    if (
+      !Number.isInteger(start) ||
+      !Number.isInteger(end) ||
+      start < field.min ||
+      end > field.max ||
+      start > end
+    ) {
+      throw new Error(`Invalid value "${part}" in ${field.name} field`);
+    }
+
+    for (let v = start; v <= end; v += step) {
+      result.add(v);
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Parse a five-field cron expression. Throws with a readable message when
+ * the expression is invalid.
+ */
+export function parseCron(expression: string): CronSchedule {
+  const parts = expression.trim().split(/\s+/);
+  if (parts.length !== 5) {
+    throw new Error(`Expected 5 fields, got ${parts.length}`);
+  }
+
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = parts.map((part, i) =>
+    parseField(part, FIELDS[i])
+  );
+
+  // 7 is an alias for Sunday
+  if (daysOfWeek.has(7)) {
+    daysOfWeek.delete(7);
+    daysOfWeek.add(0);
+  }
+
+  return {
+    minutes,
+    hours,
+    daysOfMonth,
+    months,
+    daysOfWeek,
+    dayOrWeekday: parts[2] !== "*" && parts[4] !== "*",
+  };
+}
+
+export function isValidCron(expression: string): boolean {
+  try {
+    parseCron(expression);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// =============================================================================
+// OCCURRENCES
+// =============================================================================
+
+function matchesDay(schedule: CronSchedule, date: Date): boolean {
+  const dayOfMonth = schedule.daysOfMonth.has(date.getUTCDate());
+  const dayOfWeek = schedule.daysOfWeek.has(date.getUTCDay());
+  return schedule.dayOrWeekday ? dayOfMonth || dayOfWeek : dayOfMonth && dayOfWeek;
+}
+
+function truncateToMinute(date: Date): Date {
+  const d = new Date(date);
+  d.setUTCSeconds(0, 0);
+  return d;
+}
+
+/**
+ * Walk minute by minute in `direction`, skipping whole months, days and
+ * hours that cannot match.
+ */
+function findOccurrence(schedule: CronSchedule, from: Date, direction: 1 | -1): Date | null {
+  const d = new Date(from);
+  const limit = from.getTime() + direction * SEARCH_LIMIT_MS;
+
+  while (direction === 1 ? d.getTime() <= limit : d.getTime() >= limit) {
+    if (!schedule.months.has(d.getUTCMonth() + 1)) {
+      if (direction === 1) {
+        d.setUTCMonth(d.getUTCMonth() + 1, 1);
+        d.setUTCHours(0, 0, 0, 0);
+      } else {
+        d.setUTCDate(0); // last day of the previous month
+        d.setUTCHours(23, 59, 0, 0);
+      }
+      continue;
+    }
+    if (!matchesDay(schedule, d)) {
+      if (direction === 1) {
+        d.setUTCDate(d.getUTCDate() + 1);
+        d.setUTCHours(0, 0, 0, 0);
+      } else {
+        d.setUTCDate(d.getUTCDate() - 1);
+        d.setUTCHours(23, 59, 0, 0);
+      }
+      continue;
+    }
+    if (!schedule.hours.has(d.getUTCHours())) {
+      if (direction === 1) {
+        d.setUTCHours(d.getUTCHours() + 1, 0, 0, 0);
+      } else {
+        d.setUTCHours(d.getUTCHours() - 1, 59, 0, 0);
+      }
+      continue;
+    }
+    if (!schedule.minutes.has(d.getUTCMinutes())) {
+      d.setTime(d.getTime() + direction * MINUTE_MS);
+      continue;
+    }
+    return d;
+  }
+
+  return null;
+}
+
+/**
+ * First occurrence strictly after `after`.
+ */
+export function nextOccurrence(expression: string, after: Date): Date | null {
+  const start = new Date(truncateToMinute(after).getTime() + MINUTE_MS);
+  return findOccurrence(parseCron(expression), start, 1);
+}
+
+/**
+ * Latest occurrence at or before `at`.
+ */
+export function previousOccurrence(expression: string, at: Date): Date | null {
+  return findOccurrence(parseCron(expression), truncateToMinute(at), -1);
+}
+
+// =============================================================================
+// SCHEDULING
+// =============================================================================
+
+/**
+ * The occurrence a scheduler tick at `now` should run, or null when the
+ * latest occurrence has already been run (`lastScheduledFor`).
+ */
+export function dueOccurrence(
+  expression: string,
+  lastScheduledFor: Date | null,
+  now: Date
+): Date | null {
+  const occurrence = previousOccurrence(expression, now);
+  if (!occurrence) return null;
+  if (lastScheduledFor && lastScheduledFor.getTime() >= occurrence.getTime()) return null;
+  return occurrence;
+}
+
+/**
+ * Occurrence by which the job should have succeeded, or null when nothing
+ * is expected yet. A run scheduled less than `graceMinutes` ago is still
+ * allowed to finish, so the occurrence before it is used.
+ */
+export function expectedSuccessSince(input: JobHealthInput): Date | null {
+  const cutoff = new Date(input.now.getTime() - input.graceMinutes * MINUTE_MS);
+  const occurrence = previousOccurrence(input.schedule, cutoff);
+  if (!occurrence || occurrence.getTime() < input.registeredAt.getTime()) return null;
+  return occurrence;
+}
+
+/**
+ * Whether a job has not succeeded within its schedule window: the last
+ * success is older than the latest occurrence that should have finished.
+ */
+export function isJobOverdue(input: JobHealthInput): boolean {
+  const expected = expectedSuccessSince(input);
+  if (!expected) return false;
+  return !input.lastSuccessAt || input.lastSuccessAt.getTime() < expected.getTime();
+}
@@ -0,0 +1,159 @@
+/**
+ * Mentorship Lifecycle
+ *
+ * A mentorship pairs the organization that requested help with a best
+ * practice (mentee) with the organization that owns it (mentor). The mentor
+ * accepts or declines the request; once both sides agree the plan
+ * (objectives, dates and milestones) the mentorship becomes active, sessions
+ * are logged against it, and the mentee closes it with an outcome report.
+ *
+ * Status Flow:
+ * PENDING → ACCEPTED → ACTIVE → COMPLETED
+ *        ↘ DECLINED (mentor)
+ * PENDING / ACCEPTED / ACTIVE → CANCELLED (either side)
+ */
+
+import type { AfricanRegion, MentorshipStatus } from "@/types/prisma-enums";
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export type MentorshipSide = "MENTOR" | "MENTEE";
+
+export interface MentorshipPlan {
+  planObjectives: string | null;
+  planStartDate: Date | null;
+  planEndDate: Date | null;
+  milestoneCount: number;
+}
+
+export interface MilestoneProgress {
+  total: number;
+  completed: number;
+  overdue: number;
+  percent: number;
+}
+
+export interface RegionMentorshipSummary {
+  region: AfricanRegion;
+  pending: number;
+  planning: number;
+  active: number;
+  completed: number;
+  /** Open or completed mentorships whose mentor is in another region */
+  crossRegional: number;
+}
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+/** Mentorships that block a new request for the same practice */
+export const OPEN_MENTORSHIP_STATUSES: MentorshipStatus[] = ["PENDING", "ACCEPTED", "ACTIVE"];
+
+export const MENTORSHIP_TRANSITIONS: Record<MentorshipStatus, MentorshipStatus[]> = {
+  PENDING: ["ACCEPTED", "DECLINED", "CANCELLED"],
+  ACCEPTED: ["ACTIVE", "CANCELLED"],
+  ACTIVE: ["COMPLETED", "CANCELLED"],
+  COMPLETED: [],
+  DECLINED: [],
+  CANCELLED: [],
+};
+
+/** The plan is drafted after acceptance and fixed once both sides agree it */
+export const PLAN_EDITABLE_STATUSES: MentorshipStatus[] = ["ACCEPTED"];
+
+/** Statuses in which sessions can be logged */
+export const SESSION_STATUSES: MentorshipStatus[] = ["ACCEPTED", "ACTIVE"];
+
+const REGIONS: AfricanRegion[] = ["WACAF", "ESAF", "NORTHERN"];
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+export function isValidMentorshipTransition(
+  from: MentorshipStatus,
+  to: MentorshipStatus
+): boolean {
+  return MENTORSHIP_TRANSITIONS[from].includes(to);
+}
+
+/**
+ * Which side of the mentorship an organization is on, or null
+ */
+export function mentorshipSide(
+  mentorship: { requestingOrgId: string; targetOrgId: string },
+  organizationId: string | null | undefined
+): MentorshipSide | null {
+  if (!organizationId) return null;
+  if (organizationId === mentorship.targetOrgId) return "MENTOR";
+  if (organizationId === mentorship.requestingOrgId) return "MENTEE";
+  return null;
+}
+
+/**
+ * Why the plan cannot be agreed yet, or null
+ */
+export function validatePlanForAgreement(plan: MentorshipPlan): string | null {
+  if (!plan.planObjectives?.trim()) {
+    return "The plan needs objectives before it can be agreed";
+  }
+  if (!plan.planStartDate || !plan.planEndDate) {
+    return "The plan needs a start and end date before it can be agreed";
+  }
+  if (plan.planEndDate.getTime() <= plan.planStartDate.getTime()) {
+    return "The plan end date must be after its start date";
+  }
+  if (plan.milestoneCount === 0) {
+    return "The plan needs at least one milestone before it can be agreed";
+  }
+  return null;
+}
+
+export function milestoneProgress(
+  milestones: Array<{ dueDate: Date | null; completedAt: Date | null }>,
+  now: Date = new Date()
+): MilestoneProgress {
+  const completed = milestones.filter((m) => m.completedAt).length;
+  const overdue = milestones.filter(
+    (m) => !m.completedAt && m.dueDate && m.dueDate.getTime() < now.getTime()
+  ).length;
+
+  return {
+    total: milestones.length,
+    completed,
+    overdue,
+    percent: milestones.length === 0 ? 0 : Math.round((completed / milestones.length) * 100),
+  };
+}
+
+/**
+ * Mentorship counts per region of the mentee organization
+ */
+export function summarizeByRegion(
+  mentorships: Array<{
+    status: MentorshipStatus;
+    menteeRegion: AfricanRegion;
+    mentorRegion: AfricanRegion;
+  }>
+): RegionMentorshipSummary[] {
+  return REGIONS.map((region) => {
+    const inRegion = mentorships.filter((m) => m.menteeRegion === region);
+    const count = (status: MentorshipStatus) => inRegion.filter((m) => m.status === status).length;
+
+    return {
+      region,
+      pending: count("PENDING"),
+      planning: count("ACCEPTED"),
+      active: count("ACTIVE"),
+      completed: count("COMPLETED"),
+      crossRegional: inRegion.filter(
+        (m) =>
+          (OPEN_MENTORSHIP_STATUSES.includes(m.status) || m.status === "COMPLETED") &&
+          m.mentorRegion !== region
+      ).length,
+    };
+  });
+}
@@ -0,0 +1,175 @@
+/**
+ * Session Minutes
+ *
+ * Structured minutes of a review session: attendance (review team, host
+ * ANSP staff and other guests, who need not have an account), agenda,
+ * decisions and action items. Closing meetings with the host ANSP and team
+ * debriefs start from a standard agenda. Minutes are drafted while and
+ * after the session runs and are signed once it has ended; signing freezes
+ * them and turns the action items into review tasks.
+ *
+ * Status Flow:
+ * DRAFT → SIGNED
+ */
+
+import type { MinutesAttendeeSide, SessionStatus, SessionType } from "@/types/prisma-enums";
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export type MinutesLocale = "en" | "fr";
+
+export interface MinutesAgendaItem {
+  title: string;
+  notes: string;
+}
+
+export interface MinutesTemplate {
+  agenda: { en: string; fr: string }[];
+  /** Whether a present host ANSP attendee is required before signing */
+  requiresHostAttendance: boolean;
+}
+
+export interface MinutesForSigning {
+  sessionType: SessionType;
+  sessionStatus: SessionStatus;
+  sessionDate: Date;
+  agenda: MinutesAgendaItem[];
+  attendees: { side: MinutesAttendeeSide; isPresent: boolean }[];
+  actionItems: { dueDate: Date }[];
+}
+
+// =============================================================================
+// TEMPLATES
+// =============================================================================
+
+export const MINUTES_TEMPLATES: Partial<Record<SessionType, MinutesTemplate>> = {
+  CLOSING: {
+    requiresHostAttendance: true,
+    agenda: [
+      { en: "Opening and introductions", fr: "Ouverture et présentations" },
+      {
+        en: "Recap of review scope and methodology",
+        fr: "Rappel du périmètre et de la méthodologie de la revue",
+      },
+      {
+        en: "Presentation of preliminary findings",
+        fr: "Présentation des constatations préliminaires",
+      },
+      {
+        en: "Host ANSP comments and clarifications",
+        fr: "Commentaires et clarifications de l'ANSP hôte",
+      },
+      {
+        en: "Next steps: draft report and corrective action plans",
+        fr: "Prochaines étapes : projet de rapport et plans d'actions correctives",
+      },
+      { en: "Closing remarks", fr: "Mot de clôture" },
+    ],
+  },
+  DEBRIEF: {
+    requiresHostAttendance: false,
+    agenda: [
+      {
+        en: "Fieldwork summary by review area",
+        fr: "Synthèse des travaux sur le terrain par domaine",
+      },
+      {
+        en: "Consolidation of findings and severities",
+        fr: "Consolidation des constatations et des niveaux de gravité",
+      },
+      { en: "Good practices identified", fr: "Bonnes pratiques identifiées" },
+      {
+        en: "Open questions and evidence gaps",
+        fr: "Questions en suspens et lacunes de preuves",
+      },
+      { en: "Report drafting assignments", fr: "Répartition de la rédaction du rapport" },
+    ],
+  },
+};
+
+export function getMinutesTemplate(sessionType: SessionType): MinutesTemplate | null {
+  return MINUTES_TEMPLATES[sessionType] ?? null;
+}
+
+/**
+ * Append the template agenda for a session type to an existing agenda,
+ * skipping items whose title is already present.
+ */
+export function applyTemplateAgenda(
+  agenda: MinutesAgendaItem[],
+  sessionType: SessionType,
+  locale: MinutesLocale
+): MinutesAgendaItem[] {
+  const template = getMinutesTemplate(sessionType);
+  if (!template) return agenda;
+
+  const existing = new Set(agenda.map((item) => item.title.trim().toLowerCase()));
+  const additions = template.agenda
+    .map((item) => item[locale])
+    .filter((title) => !existing.has(title.toLowerCase()))
+    .map((title) => ({ title, notes: "" }));
+
+  return [...agenda, ...additions];
+}
+
+// =============================================================================
+// STORED CONTENT
+// =============================================================================
+
+/**
+ * Read the agenda stored in the minutes' JSON column, dropping malformed items
+ */
+export function parseAgenda(value: unknown): MinutesAgendaItem[] {
+  if (!Array.isArray(value)) return [];
+
+  return value.flatMap((item) => {
+    if (!item || typeof item !== "object") return [];
+    const { title, notes } = item as Record<string, unknown>;
+    if (typeof title !== "string") return [];
+    return [{ title, notes: typeof notes === "string" ? notes : "" }];
+  });
+}
+
+/**
+ * Read the decisions stored in the minutes' JSON column
+ */
+export function parseDecisions(value: unknown): string[] {
+  if (!Array.isArray(value)) return [];
+  return value.filter((item): item is string => typeof item === "string");
+}
+
+// =============================================================================
+// SIGNING
+// =============================================================================
+
+/**
+ * Check that minutes are complete enough to sign.
+ * Returns a reason when they are not, or null when they can be signed.
+ */
+export function validateMinutesForSigning(minutes: MinutesForSigning): string | null {
+  if (minutes.sessionStatus !== "COMPLETED") {
+    return "Minutes can only be signed once the session has ended";
+  }
+  if (!minutes.attendees.some((a) => a.isPresent)) {
+    return "Record at least one attendee who was present";
+  }
+  if (
+    getMinutesTemplate(minutes.sessionType)?.requiresHostAttendance &&
+    !minutes.attendees.some((a) => a.isPresent && a.side === "HOST_ORGANIZATION")
+  ) {
+    return "Closing meeting minutes must record the host ANSP attendees";
+  }
+  if (!minutes.agenda.some((item) => item.title.trim())) {
+    return "Add at least one agenda item";
+  }
+
+  const meetingDay = new Date(minutes.sessionDate);
+  meetingDay.setUTCHours(0, 0, 0, 0);
+  if (minutes.actionItems.some((item) => item.dueDate < meetingDay)) {
+    return "Action item due dates cannot be before the meeting";
+  }
+
+  return null;
+}
@@ -0,0 +1,111 @@
+import type {
+  OfflineChecklistItem,
+  OfflineDraftFinding,
+  OfflineFieldEvidence,
+} from "./types";
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/** Offline entity types that can end up in conflict. */
+export type ConflictEntityType = "checklistItem" | "fieldEvidence" | "draftFinding";
+
+interface ConflictEntityMap {
+  checklistItem: OfflineChecklistItem;
+  fieldEvidence: OfflineFieldEvidence;
+  draftFinding: OfflineDraftFinding;
+}
+
+/** Fields the user can merge for each entity type. */
+export const MERGEABLE_FIELDS = {
+  checklistItem: ["isCompleted"],
+  fieldEvidence: ["annotations"],
+  draftFinding: ["title", "description", "severity"],
+} as const satisfies {
+  [K in ConflictEntityType]: readonly (keyof ConflictEntityMap[K])[];
+};
+
+export type MergeableField<T extends ConflictEntityType> =
+  (typeof MERGEABLE_FIELDS)[T][number];
+
+/** Current server copy of an entity, keyed by local field names. */
+export interface ServerVersion {
+  exists: boolean;
+  updatedAt: Date | null;
+  fields: Record<string, unknown>;
+}
+
+export type FieldChoice = "local" | "server";
+
+export interface FieldDiff {
+  field: string;
+  local: unknown;
+  server: unknown;
+  differs: boolean;
+}
+
+// =============================================================================
+// Diff & merge
+// =============================================================================
+
+/**
+ * Compare the mergeable fields of a local record with the server copy.
+ * Fields the server does not report are treated as unchanged.
+ */
+export function diffFields<T extends ConflictEntityType>(
+  entityType: T,
+  local: ConflictEntityMap[T],
+  server: ServerVersion
+): FieldDiff[] {
+  return MERGEABLE_FIELDS[entityType].map((field) => {
+    const localValue = (local as unknown as Record<string, unknown>)[field];
+    const serverValue = field in server.fields ? server.fields[field] : localValue;
+    return {
+      field,
+      local: localValue,
+      server: serverValue,
+      differs: !sameValue(localValue, serverValue),
+    };
+  });
+}
+
+/** Default choice per field: keep the offline edit. */
+export function defaultChoices(diffs: FieldDiff[]): Record<string, FieldChoice> {
+  return Object.fromEntries(diffs.map((d) => [d.field, "local" as const]));
+}
+
+/**
+ * Apply the chosen side of every mergeable field to the local record.
+ * Returns only the fields that change, ready for a Dexie update.
+ */
+export function mergeFields<T extends ConflictEntityType>(
+  entityType: T,
+  local: ConflictEntityMap[T],
+  server: ServerVersion,
+  choices: Record<string, FieldChoice>
+): Partial<ConflictEntityMap[T]> {
+  const updates: Record<string, unknown> = {};
+  for (const diff of diffFields(entityType, local, server)) {
+    if (diff.differs && choices[diff.field] === "server") {
+      updates[diff.field] = diff.server;
+    }
+  }
+  return updates as Partial<ConflictEntityMap[T]>;
+}
+
+/** Whether the chosen values all come from the server, so nothing needs pushing. */
+export function isServerOnly(diffs: FieldDiff[], choices: Record<string, FieldChoice>): boolean {
+  return diffs.every((d) => !d.differs || choices[d.field] === "server");
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+function sameValue(a: unknown, b: unknown): boolean {
+  if (typeof a === "string" && typeof b === "string") {
+    return a.trim() === b.trim();
+  }
+  return (a ?? null) === (b ?? null);
+}
@@ -36,7 +36,20 @@ export {
   SyncRetryableError,
   syncEngine,
 } from "./sync-engine";
-export type { SyncEngineStatus, SyncHandler } from "./sync-engine";
+export type { SyncEngineStatus, SyncHandler, ConflictResolution } from "./sync-engine";
+export {
+  MERGEABLE_FIELDS,
+  diffFields,
+  defaultChoices,
+  mergeFields,
+  isServerOnly,
+} from "./conflict-merge";
+export type {
+  ConflictEntityType,
+  ServerVersion,
+  FieldChoice,
+  FieldDiff,
+} from "./conflict-merge";
 export {
   syncChecklistItem,
   syncFieldEvidence,
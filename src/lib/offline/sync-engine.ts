@@ -1,4 +1,5 @@
 import { fieldworkDB } from "./fieldwork-db";
+import type { ConflictEntityType } from "./conflict-merge";
 import type { SyncQueueEntry, SyncStatus } from "./types";
 
 // =============================================================================
@@ -25,6 +26,14 @@ export interface SyncEngineStatus {
 
 export type SyncHandler = (entry: SyncQueueEntry) => Promise<void>;
 
+/** Outcome of a resolved conflict, applied to the local record. */
+export interface ConflictResolution {
+  /** Field values to write to the local record (merged or server side) */
+  updates: Record<string, unknown>;
+  /** Server updatedAt the resolution was made against — the new precondition */
+  serverUpdatedAt: Date | null;
+}
+
 /** Thrown by a handler to signal a 409 conflict. */
 export class SyncConflictError extends Error {
   constructor(message = "Conflict") {
@@ -89,7 +98,8 @@ export class SyncEngine {
 
   /**
    * Process all pending entries in FIFO order.
-   * Skips entries that have exhausted retries.
+   * Skips entries that have exhausted retries, and holds back later writes
+   * to an entity that is in conflict until the conflict is resolved.
    * Returns the number of entries successfully synced.
    */
   async processQueue(): Promise<number> {
@@ -99,12 +109,15 @@ export class SyncEngine {
     let synced = 0;
 
     try {
-      const entries = await fieldworkDB.syncQueue
-        .orderBy("createdAt")
-        .filter((e) => e.retryCount < e.maxRetries)
-        .toArray();
+      const all = await fieldworkDB.syncQueue.orderBy("createdAt").toArray();
+      const entries = all.filter((e) => e.retryCount < e.maxRetries);
+      const conflicted = new Set(
+        all.filter((e) => e.isConflict).map((e) => entityKey(e))
+      );
 
       for (const entry of entries) {
+        if (conflicted.has(entityKey(entry))) continue;
+
         const handler = this.handlers.get(entry.entityType);
         if (!handler) {
           await this.markFailed(entry, `No handler for entityType "${entry.entityType}"`);
@@ -120,6 +133,7 @@ export class SyncEngine {
         } catch (err) {
           if (err instanceof SyncConflictError) {
             await this.markConflict(entry, err.message);
+            conflicted.add(entityKey(entry));
             // Stop processing this entity but continue with others
           } else {
             await this.markRetry(entry, err instanceof Error ? err.message : "Unknown error");
@@ -153,6 +167,7 @@ export class SyncEngine {
     let conflicts = 0;
 
     for (const entry of all) {
+      if (entry.isConflict) continue;
       if (entry.retryCount >= entry.maxRetries) {
         failed++;
       } else {
@@ -171,10 +186,13 @@ export class SyncEngine {
     return { pending, failed, conflicts, lastSyncAt: this.lastSyncAt };
   }
 
-  /** Reset retryCount for all failed entries so they'll be retried. */
+  /**
+   * Reset retryCount for all failed entries so they'll be retried.
+   * Conflicts are left alone — retrying would hit the same precondition.
+   */
   async retryFailed(): Promise<number> {
     const failed = await fieldworkDB.syncQueue
-      .filter((e) => e.retryCount >= e.maxRetries)
+      .filter((e) => e.retryCount >= e.maxRetries && !e.isConflict)
       .toArray();
 
     if (failed.length === 0) return 0;
@@ -210,10 +228,83 @@ export class SyncEngine {
     return old.length;
   }
 
+  // ---------------------------------------------------------------------------
+  // Conflicts
+  // ---------------------------------------------------------------------------
+
+  /** Queue entries rejected as stale by the server, oldest first. */
+  async getConflicts(): Promise<SyncQueueEntry[]> {
+    return fieldworkDB.syncQueue
+      .orderBy("createdAt")
+      .filter((e) => e.isConflict === true)
+      .toArray();
+  }
+
+  /**
+   * Resolve a conflict in favour of a local or merged version: write the
+   * resolution to the local record and re-enqueue it against the server
+   * version it was merged with. Earlier queued writes for the same entity
+   * are superseded.
+   */
+  async resolveConflict(entryId: string, resolution: ConflictResolution): Promise<string | null> {
+    const entry = await fieldworkDB.syncQueue.get(entryId);
+    if (!entry || !isConflictEntity(entry.entityType)) return null;
+
+    const table = entityTable(entry.entityType);
+    await table.update(entry.entityId, {
+      ...resolution.updates,
+      serverUpdatedAt: resolution.serverUpdatedAt,
+      syncStatus: "pending",
+    });
+    await this.dropQueuedEntries(entry.entityType, entry.entityId);
+
+    const record = await table.get(entry.entityId);
+    if (!record) return null;
+
+    // Evidence payloads never carry the blob — the handler reads it from Dexie
+    const payload =
+      entry.entityType === "fieldEvidence"
+        ? { id: record.id, reviewId: record.reviewId }
+        : record;
+
+    return this.enqueue({
+      entityType: entry.entityType,
+      entityId: entry.entityId,
+      action: entry.action === "DELETE" ? "DELETE" : "UPDATE",
+      payload: JSON.stringify(payload),
+      maxRetries: entry.maxRetries,
+    });
+  }
+
+  /**
+   * Resolve a conflict in favour of the server: overwrite the local record
+   * with the server values and drop the pending writes.
+   */
+  async acceptServerVersion(entryId: string, resolution: ConflictResolution): Promise<void> {
+    const entry = await fieldworkDB.syncQueue.get(entryId);
+    if (!entry || !isConflictEntity(entry.entityType)) return;
+
+    await entityTable(entry.entityType).update(entry.entityId, {
+      ...resolution.updates,
+      serverUpdatedAt: resolution.serverUpdatedAt,
+      syncStatus: "synced",
+    });
+    await this.dropQueuedEntries(entry.entityType, entry.entityId);
+  }
+
   // ---------------------------------------------------------------------------
   // Private helpers
   // ---------------------------------------------------------------------------
 
+  private async dropQueuedEntries(entityType: string, entityId: string): Promise<void> {
+    const ids = await fieldworkDB.syncQueue
+      .where("entityType")
+      .equals(entityType)
+      .filter((e) => e.entityId === entityId)
+      .primaryKeys();
+    await fieldworkDB.syncQueue.bulkDelete(ids);
+  }
+
   private async markFailed(entry: SyncQueueEntry, errorMsg: string): Promise<void> {
     await fieldworkDB.syncQueue.update(entry.id, {
       retryCount: entry.maxRetries, // exhaust retries immediately
@@ -228,6 +319,7 @@ export class SyncEngine {
       retryCount: entry.maxRetries, // don't auto-retry conflicts
       lastAttempt: new Date(),
       error: errorMsg,
+      isConflict: true,
     });
     await this.updateEntitySyncStatus(entry.entityType, entry.entityId, "conflict");
   }
@@ -274,6 +366,29 @@ export const syncEngine = new SyncEngine();
 // Helpers
 // =============================================================================
 
+function entityKey(entry: SyncQueueEntry): string {
+  return `${entry.entityType}:${entry.entityId}`;
+}
+
+function isConflictEntity(entityType: string): entityType is ConflictEntityType {
+  return (
+    entityType === "checklistItem" ||
+    entityType === "fieldEvidence" ||
+    entityType === "draftFinding"
+  );
+}
+
+function entityTable(entityType: ConflictEntityType) {
+  switch (entityType) {
+    case "checklistItem":
+      return fieldworkDB.checklistItems;
+    case "fieldEvidence":
+      return fieldworkDB.fieldEvidence;
+    case "draftFinding":
+      return fieldworkDB.draftFindings;
+  }
+}
+
 function sleep(ms: number): Promise<void> {
   return new Promise((resolve) => setTimeout(resolve, ms));
 }
@@ -1,6 +1,6 @@
 import { fieldworkDB } from "./fieldwork-db";
 import { SyncConflictError, SyncRetryableError } from "./sync-engine";
-import type { SyncQueueEntry } from "./types";
+import type { OfflineChecklistItem, OfflineDraftFinding, SyncQueueEntry } from "./types";
 
 // =============================================================================
 // Constants
@@ -9,20 +9,47 @@ import type { SyncQueueEntry } from "./types";
 const TRPC_BASE = "/api/trpc";
 const MAX_EVIDENCE_BYTES = 10 * 1024 * 1024; // 10 MB
 
+// =============================================================================
+// Types
+// =============================================================================
+
+/** Fields every fieldworkSync mutation returns on success */
+interface SyncResult {
+  status: "synced" | "already_synced";
+  documentId?: string | null;
+  updatedAt?: string | null;
+}
+
 // =============================================================================
 // Checklist item handler
 // =============================================================================
 
 /**
  * Push a checklist-item change to the server via
- * POST /api/trpc/fieldwork.syncChecklistItem
+ * POST /api/trpc/fieldworkSync.syncChecklistItem
+ *
+ * The precondition is read from Dexie at send time, so a merge resolved
+ * after the entry was queued is honoured.
  */
 export async function syncChecklistItem(entry: SyncQueueEntry): Promise<void> {
-  const payload = JSON.parse(entry.payload);
-  await trpcMutation("fieldwork.syncChecklistItem", {
-    ...payload,
-    action: entry.action,
+  const payload = JSON.parse(entry.payload) as OfflineChecklistItem;
+  const local = await fieldworkDB.checklistItems.get(entry.entityId);
+
+  const result = await trpcMutation("fieldworkSync.syncChecklistItem", {
+    itemId: payload.id,
+    reviewId: payload.reviewId,
+    isCompleted: payload.isCompleted,
+    completedAt: payload.completedAt,
+    notes: payload.notes,
+    clientUpdatedAt: payload.updatedAt,
+    baseUpdatedAt: local?.serverUpdatedAt ?? null,
   });
+
+  if (result.updatedAt) {
+    await fieldworkDB.checklistItems.update(entry.entityId, {
+      serverUpdatedAt: new Date(result.updatedAt),
+    });
+  }
 }
 
 // =============================================================================
@@ -31,25 +58,42 @@ export async function syncChecklistItem(entry: SyncQueueEntry): Promise<void> {
 
 /**
  * Upload evidence (binary blob) via
- * POST /api/trpc/fieldwork.uploadEvidence
+ * POST /api/trpc/fieldworkSync.uploadEvidence
  *
- * Uses multipart/form-data since the payload includes a Blob.
+ * The blob is sent base64-encoded. Caption edits go through
+ * fieldworkSync.updateEvidence and deletions through fieldworkSync.deleteEvidence,
+ * both with the last known server updatedAt as precondition.
  * Skips items larger than 10 MB — marks them failed with a user-facing message.
  */
 export async function syncFieldEvidence(entry: SyncQueueEntry): Promise<void> {
+  // Retrieve the actual evidence record from Dexie (it holds the Blob)
+  const evidence = await fieldworkDB.fieldEvidence.get(entry.entityId);
+
   if (entry.action === "DELETE") {
-    await trpcMutation("fieldwork.deleteEvidence", {
-      id: entry.entityId,
+    const { reviewId } = JSON.parse(entry.payload) as { reviewId?: string };
+    await trpcMutation("fieldworkSync.deleteEvidence", {
+      clientId: entry.entityId,
+      reviewId: evidence?.reviewId ?? reviewId,
+      baseUpdatedAt: evidence?.serverUpdatedAt ?? null,
     });
     return;
   }
 
-  // Retrieve the actual evidence record from Dexie (it holds the Blob)
-  const evidence = await fieldworkDB.fieldEvidence.get(entry.entityId);
   if (!evidence) {
     throw new Error(`Evidence ${entry.entityId} not found in local database`);
   }
 
+  if (entry.action === "UPDATE") {
+    const result = await trpcMutation("fieldworkSync.updateEvidence", {
+      clientId: evidence.id,
+      reviewId: evidence.reviewId,
+      caption: evidence.annotations,
+      baseUpdatedAt: evidence.serverUpdatedAt ?? null,
+    });
+    await recordEvidenceResult(evidence.id, result);
+    return;
+  }
+
   if (evidence.fileSize > MAX_EVIDENCE_BYTES) {
     throw new Error(
       `Evidence file "${evidence.fileName}" exceeds 10 MB limit (${(evidence.fileSize / 1024 / 1024).toFixed(1)} MB). ` +
@@ -57,33 +101,29 @@ export async function syncFieldEvidence(entry: SyncQueueEntry): Promise<void> {
     );
   }
 
-  const form = new FormData();
-  form.append("file", evidence.blob, evidence.fileName);
-  form.append(
-    "metadata",
-    JSON.stringify({
-      id: evidence.id,
-      checklistItemId: evidence.checklistItemId,
-      reviewId: evidence.reviewId,
-      type: evidence.type,
-      mimeType: evidence.mimeType,
-      fileName: evidence.fileName,
-      fileSize: evidence.fileSize,
-      gpsLatitude: evidence.gpsLatitude,
-      gpsLongitude: evidence.gpsLongitude,
-      gpsAccuracy: evidence.gpsAccuracy,
-      capturedAt: evidence.capturedAt.toISOString(),
-      annotations: evidence.annotations,
-    })
-  );
-
-  const res = await fetch(`${TRPC_BASE}/fieldwork.uploadEvidence`, {
-    method: "POST",
-    body: form,
-    credentials: "include",
+  const result = await trpcMutation("fieldworkSync.uploadEvidence", {
+    clientId: evidence.id,
+    checklistItemId: evidence.checklistItemId,
+    reviewId: evidence.reviewId,
+    type: evidence.type,
+    mimeType: evidence.mimeType,
+    fileName: evidence.fileName,
+    fileSize: evidence.fileSize,
+    gpsLatitude: evidence.gpsLatitude,
+    gpsLongitude: evidence.gpsLongitude,
+    gpsAccuracy: evidence.gpsAccuracy,
+    capturedAt: evidence.capturedAt,
+    caption: evidence.annotations,
+    base64Data: await blobToBase64(evidence.blob),
   });
+  await recordEvidenceResult(evidence.id, result);
+}
 
-  handleResponse(res);
+async function recordEvidenceResult(id: string, result: SyncResult): Promise<void> {
+  await fieldworkDB.fieldEvidence.update(id, {
+    ...(result.documentId ? { serverId: result.documentId } : {}),
+    ...(result.updatedAt ? { serverUpdatedAt: new Date(result.updatedAt) } : {}),
+  });
 }
 
 // =============================================================================
@@ -92,14 +132,35 @@ export async function syncFieldEvidence(entry: SyncQueueEntry): Promise<void> {
 
 /**
  * Push a draft finding to the server via
- * POST /api/trpc/fieldwork.syncDraftFinding
+ * POST /api/trpc/fieldworkSync.syncDraftFinding
+ *
+ * The server creates the finding on first sync and updates it afterwards;
+ * evidence ids are translated to uploaded document ids.
  */
 export async function syncDraftFinding(entry: SyncQueueEntry): Promise<void> {
-  const payload = JSON.parse(entry.payload);
-  await trpcMutation("fieldwork.syncDraftFinding", {
-    ...payload,
-    action: entry.action,
+  const payload = JSON.parse(entry.payload) as OfflineDraftFinding;
+  const local = await fieldworkDB.draftFindings.get(entry.entityId);
+  const evidence = await fieldworkDB.fieldEvidence.bulkGet(payload.evidenceIds ?? []);
+
+  const result = await trpcMutation("fieldworkSync.syncDraftFinding", {
+    clientId: payload.id,
+    reviewId: payload.reviewId,
+    title: payload.title,
+    description: payload.description,
+    severity: payload.severity,
+    areaCode: payload.areaCode || undefined,
+    questionId: payload.questionId,
+    evidenceDocumentIds: evidence.flatMap((e) => (e?.serverId ? [e.serverId] : [])),
+    gpsLatitude: payload.gpsLatitude,
+    gpsLongitude: payload.gpsLongitude,
+    baseUpdatedAt: local?.serverUpdatedAt ?? null,
   });
+
+  if (result.updatedAt) {
+    await fieldworkDB.draftFindings.update(entry.entityId, {
+      serverUpdatedAt: new Date(result.updatedAt),
+    });
+  }
 }
 
 // =============================================================================
@@ -108,9 +169,10 @@ export async function syncDraftFinding(entry: SyncQueueEntry): Promise<void> {
 
 /**
  * Perform a tRPC-style POST mutation using raw fetch.
- * tRPC batch endpoint expects `{ 0: { json: <input> } }` for a single call.
+ * A single (non-batched) call with the SuperJSON transformer expects
+ * `{ json: <input> }` and answers `{ result: { data: { json: <output> } } }`.
  */
-async function trpcMutation(procedure: string, input: unknown): Promise<unknown> {
+async function trpcMutation(procedure: string, input: unknown): Promise<SyncResult> {
   const res = await fetch(`${TRPC_BASE}/${procedure}`, {
     method: "POST",
     headers: { "Content-Type": "application/json" },
@@ -118,7 +180,19 @@ async function trpcMutation(procedure: string, input: unknown): Promise<unknown>
     credentials: "include",
   });
 
-  return handleResponse(res);
+  const body = (await handleResponse(res)) as {
+    result?: { data?: { json?: SyncResult } };
+  } | null;
+  return body?.result?.data?.json ?? { status: "synced" };
+}
+
+async function blobToBase64(blob: Blob): Promise<string> {
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+  let binary = "";
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
 }
 
 /**
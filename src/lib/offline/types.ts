@@ -46,6 +46,8 @@ export interface OfflineChecklistItem {
   completedById: string | null;
   notes: string;
   updatedAt: Date;
+  /** Server `updatedAt` this copy is based on; sent as the sync precondition */
+  serverUpdatedAt?: Date | null;
   syncStatus: SyncStatus;
 }
 
@@ -65,6 +67,10 @@ export interface OfflineFieldEvidence {
   gpsAccuracy: number | null;
   capturedAt: Date;
   annotations: string;
+  /** Document id once uploaded */
+  serverId?: string | null;
+  /** Server `updatedAt` this copy is based on; sent as the sync precondition */
+  serverUpdatedAt?: Date | null;
   syncStatus: SyncStatus;
 }
 
@@ -82,6 +88,8 @@ export interface OfflineDraftFinding {
   gpsLongitude: number | null;
   createdAt: Date;
   updatedAt: Date;
+  /** Server `updatedAt` this copy is based on; sent as the sync precondition */
+  serverUpdatedAt?: Date | null;
   syncStatus: SyncStatus;
 }
 
@@ -96,6 +104,8 @@ export interface SyncQueueEntry {
   maxRetries: number;
   lastAttempt: Date | null;
   error: string | null;
+  /** Set when the server rejected the write as stale; never auto-retried */
+  isConflict?: boolean;
   createdAt: Date;
 }
 
@@ -55,6 +55,9 @@ export const EVENTS = {
   FINDING_UPDATED: "finding-updated",
   FINDING_DELETED: "finding-deleted",
   COMMENT_ADDED: "comment-added",
+  ANNOTATION_CREATED: "annotation-created",
+  ANNOTATION_UPDATED: "annotation-updated",
+  ANNOTATION_DELETED: "annotation-deleted",
   TASK_UPDATED: "task-updated",
   SESSION_STARTED: "session-started",
   SESSION_ENDED: "session-ended",
@@ -0,0 +1,260 @@
+/**
+ * Questionnaire Edition Diff
+ *
+ * Compares two editions of a questionnaire and maps questions of the older
+ * edition onto the newer one by following `previousPqNumber` links. A PQ
+ * that absorbed several earlier PQs lists them separated by commas or
+ * semicolons (e.g. "7.101; 7.103").
+ */
+
+import type { MaturityLevel, PQAmendmentStatus } from "@/types/prisma-enums";
+import { maturityLevelToNumeric } from "@/lib/constants/scoring";
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface EditionQuestion {
+  id: string;
+  pqNumber: string | null;
+  previousPqNumber: string | null;
+  pqStatus: PQAmendmentStatus;
+  questionTextEn: string;
+  questionTextFr: string;
+  isActive: boolean;
+}
+
+export type EditionChangeType = "ADDED" | "REVISED" | "MERGED" | "DELETED" | "UNCHANGED";
+
+export interface EditionChange {
+  type: EditionChangeType;
+  /** PQ number in the new edition, or in the old one for deleted PQs */
+  pqNumber: string | null;
+  previousPqNumbers: string[];
+  questionId: string | null;
+  previousQuestionIds: string[];
+  textChanged: boolean;
+  questionTextEn: string;
+  previousTextEn: string | null;
+}
+
+export interface EditionDiff {
+  changes: EditionChange[];
+  counts: Record<EditionChangeType, number>;
+}
+
+export interface MigratableResponse {
+  questionId: string;
+  responseValue: string | null;
+  maturityLevel: MaturityLevel | null;
+}
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+/**
+ * Split a `previousPqNumber` value into individual PQ numbers
+ */
+export function parsePreviousPqNumbers(value: string | null | undefined): string[] {
+  if (!value) return [];
+  return value
+    .split(/[,;]/)
+    .map((pq) => pq.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Questions that still belong to an edition (deleted PQs may be kept as
+ * inactive rows for reference)
+ */
+function isLive(question: EditionQuestion): boolean {
+  return question.isActive && question.pqStatus !== "DELETED";
+}
+
+/**
+ * PQ numbers in the previous edition that a question continues. Explicit
+ * `previousPqNumber` links win; otherwise an unchanged PQ number carries
+ * over unless the question is marked NEW.
+ */
+function predecessorsOf(
+  question: EditionQuestion,
+  previousByPq: Map<string, EditionQuestion>
+): EditionQuestion[] {
+  const explicit = parsePreviousPqNumbers(question.previousPqNumber);
+  const candidates =
+    explicit.length > 0
+      ? explicit
+      : question.pqStatus !== "NEW" && question.pqNumber
+        ? [question.pqNumber]
+        : [];
+
+  return candidates
+    .map((pq) => previousByPq.get(pq))
+    .filter((q): q is EditionQuestion => !!q);
+}
+
+function indexByPq(questions: EditionQuestion[]): Map<string, EditionQuestion> {
+  const byPq = new Map<string, EditionQuestion>();
+  for (const question of questions) {
+    if (question.pqNumber && isLive(question)) {
+      byPq.set(question.pqNumber, question);
+    }
+  }
+  return byPq;
+}
+
+function comparePq(a: string | null, b: string | null): number {
+  return (a ?? "").localeCompare(b ?? "", undefined, { numeric: true });
+}
+
+// =============================================================================
+// DIFF
+// =============================================================================
+
+/**
+ * Classify every PQ of the next edition as added, revised, merged or
+ * unchanged, and every PQ of the previous edition that no longer has a
+ * successor as deleted.
+ */
+export function diffEditions(
+  previous: EditionQuestion[],
+  next: EditionQuestion[]
+): EditionDiff {
+  const previousByPq = indexByPq(previous);
+  const consumed = new Set<string>();
+  const changes: EditionChange[] = [];
+
+  for (const question of next.filter(isLive)) {
+    const predecessors = predecessorsOf(question, previousByPq);
+    predecessors.forEach((p) => consumed.add(p.id));
+
+    const textChanged =
+      predecessors.length === 1 &&
+      (predecessors[0].questionTextEn !== question.questionTextEn ||
+        predecessors[0].questionTextFr !== question.questionTextFr);
+
+    let type: EditionChangeType;
+    if (predecessors.length === 0) {
+      type = "ADDED";
+    } else if (predecessors.length > 1 || question.pqStatus === "MERGED") {
+      type = "MERGED";
+    } else if (
+      textChanged ||
+      predecessors[0].pqNumber !== question.pqNumber ||
+      question.pqStatus === "REVISED" ||
+      question.pqStatus === "REFERENCE_REVISED"
+    ) {
+      type = "REVISED";
+    } else {
+      type = "UNCHANGED";
+    }
+
+    changes.push({
+      type,
+      pqNumber: question.pqNumber,
+      previousPqNumbers: predecessors.map((p) => p.pqNumber as string),
+      questionId: question.id,
+      previousQuestionIds: predecessors.map((p) => p.id),
+      textChanged,
+      questionTextEn: question.questionTextEn,
+      previousTextEn: predecessors.length === 1 ? predecessors[0].questionTextEn : null,
+    });
+  }
+
+  for (const question of previousByPq.values()) {
+    if (consumed.has(question.id)) continue;
+    changes.push({
+      type: "DELETED",
+      pqNumber: question.pqNumber,
+      previousPqNumbers: [],
+      questionId: null,
+      previousQuestionIds: [question.id],
+      textChanged: false,
+      questionTextEn: question.questionTextEn,
+      previousTextEn: null,
+    });
+  }
+
+  changes.sort((a, b) => comparePq(a.pqNumber, b.pqNumber));
+
+  const counts: Record<EditionChangeType, number> = {
+    ADDED: 0,
+    REVISED: 0,
+    MERGED: 0,
+    DELETED: 0,
+    UNCHANGED: 0,
+  };
+  for (const change of changes) counts[change.type]++;
+
+  return { changes, counts };
+}
+
+// =============================================================================
+// RESPONSE MIGRATION
+// =============================================================================
+
+/**
+ * Map question IDs of the previous edition to their successor in the next
+ * edition. Deleted questions have no entry.
+ */
+export function buildQuestionMigrationMap(
+  previous: EditionQuestion[],
+  next: EditionQuestion[]
+): Map<string, string> {
+  const map = new Map<string, string>();
+  for (const change of diffEditions(previous, next).changes) {
+    if (!change.questionId) continue;
+    for (const previousId of change.previousQuestionIds) {
+      map.set(previousId, change.questionId);
+    }
+  }
+  return map;
+}
+
+/**
+ * Chain per-edition maps (oldest first) into a single map from the first
+ * edition to the last
+ */
+export function composeMigrationMaps(maps: Map<string, string>[]): Map<string, string> {
+  if (maps.length === 0) return new Map();
+
+  const [first, ...rest] = maps;
+  const composed = new Map<string, string>();
+
+  for (const [from, to] of first) {
+    let current: string | undefined = to;
+    for (const map of rest) {
+      current = current ? map.get(current) : undefined;
+    }
+    if (current) composed.set(from, current);
+  }
+
+  return composed;
+}
+
+/**
+ * Combine responses to PQs that were merged into one. The most
+ * conservative answer wins so a merge never raises a score: Not
+ * Satisfactory over Satisfactory, and the lowest maturity level.
+ */
+export function mergeMigratedResponses<T extends MigratableResponse>(responses: T[]): T {
+  const ranked = [...responses].sort((a, b) => rank(a) - rank(b));
+  return ranked[0];
+}
+
+function rank(response: MigratableResponse): number {
+  if (response.maturityLevel) {
+    return maturityLevelToNumeric(response.maturityLevel);
+  }
+  switch (response.responseValue) {
+    case "NOT_SATISFACTORY":
+      return 0;
+    case "SATISFACTORY":
+      return 10;
+    case "NOT_APPLICABLE":
+      return 20;
+    default:
+      return 30;
+  }
+}
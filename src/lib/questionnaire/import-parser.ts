@@ -257,12 +257,37 @@ export function normalizeFieldNames(data: Record<string, unknown>): Record<strin
     "expiry date": "expiryDate",
     reference_type: "referenceType",
     "reference type": "referenceType",
+    // Column headings used in ICAO and CANSO workbooks
+    pq: "pqNumber",
+    "pq no": "pqNumber",
+    "pq no.": "pqNumber",
+    "pq #": "pqNumber",
+    "question (en)": "questionTextEn",
+    "question (fr)": "questionTextFr",
+    "protocol question": "questionTextEn",
+    "protocol question (en)": "questionTextEn",
+    "protocol question (fr)": "questionTextFr",
+    ce: "criticalElement",
+    "guidance (en)": "guidanceEn",
+    "guidance (fr)": "guidanceFr",
+    "guidance for review of evidence": "guidanceEn",
+    ppq: "isPriorityPQ",
+    "priority pq": "isPriorityPQ",
+    "on-site": "requiresOnSite",
+    "on-site activity": "requiresOnSite",
+    "amendment status": "pqStatus",
+    "previous pq": "previousPqNumber",
+    "previous pq no.": "previousPqNumber",
+    component: "smsComponent",
+    "icao reference": "icaoReferences",
+    references: "icaoReferences",
+    "evidence required": "requiredEvidence",
   };
 
   const normalized: Record<string, unknown> = {};
 
   for (const [key, value] of Object.entries(data)) {
-    const normalizedKey = fieldMappings[key.toLowerCase()] || toCamelCase(key);
+    const normalizedKey = fieldMappings[key.trim().toLowerCase()] || toCamelCase(key.trim());
     normalized[normalizedKey] = value;
   }
 
@@ -273,6 +298,8 @@ export function normalizeFieldNames(data: Record<string, unknown>): Record<strin
  * Convert string to camelCase
  */
 function toCamelCase(str: string): string {
+  // Keys that are already camelCase (e.g. "questionTextEn") are kept
+  if (/^[a-z][a-zA-Z0-9]*$/.test(str)) return str;
   return str
     .toLowerCase()
     .replace(/[_\s-]+(.)?/g, (_, char) => (char ? char.toUpperCase() : ""));
@@ -0,0 +1,275 @@
+/**
+ * Questionnaire Workbook Parser
+ *
+ * Reads questionnaire definitions from Excel workbooks as distributed by
+ * ICAO (one sheet per audit area) and CANSO (one sheet per SMS component).
+ * Sheets are converted into the same structure as a JSON import, so the
+ * result goes through `parseANSImport` / `parseSMSImport` unchanged.
+ *
+ * Recognised sheets:
+ * - "Questionnaire" / "Metadata": key/value pairs in the first two columns
+ * - "Categories": one category per row
+ * - "Readme", "Instructions", "Lists", "Summary": ignored
+ * - any other sheet: questions, with the audit area or SMS component taken
+ *   from the sheet name when the column is missing
+ */
+
+import * as XLSX from "xlsx";
+import type { ValidationError } from "./import-schema";
+import {
+  normalizeAuditArea,
+  normalizeFieldNames,
+  normalizeSMSComponent,
+} from "./import-parser";
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export type WorkbookSheetKind = "METADATA" | "CATEGORIES" | "QUESTIONS" | "IGNORED";
+
+export interface WorkbookSheetSummary {
+  name: string;
+  kind: WorkbookSheetKind;
+  rows: number;
+}
+
+export interface WorkbookImportData {
+  questionnaire?: Record<string, unknown>;
+  categories: Record<string, unknown>[];
+  questions: Record<string, unknown>[];
+}
+
+export interface WorkbookParseResult {
+  data: WorkbookImportData;
+  sheets: WorkbookSheetSummary[];
+  errors: ValidationError[];
+  warnings: string[];
+}
+
+type Cell = string | number | boolean | Date | null;
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+const METADATA_SHEETS = ["questionnaire", "metadata", "info"];
+const CATEGORY_SHEETS = ["categories", "catégories"];
+const IGNORED_SHEETS = ["readme", "instructions", "notes", "lists", "summary", "sommaire"];
+
+/** Header rows are searched for in the first rows only (title banners above) */
+const HEADER_SEARCH_ROWS = 10;
+
+const BOOLEAN_FIELDS = new Set(["isPriorityPQ", "requiresOnSite"]);
+const LIST_FIELDS = new Set(["requiredEvidence"]);
+const ENUM_FIELDS = new Set(["pqStatus", "responseType", "referenceType"]);
+const TEXT_FIELDS = new Set([
+  "pqNumber",
+  "previousPqNumber",
+  "code",
+  "version",
+  "criticalElement",
+  "studyArea",
+]);
+
+// =============================================================================
+// CELL HELPERS
+// =============================================================================
+
+function isEmpty(value: Cell | undefined): boolean {
+  return value === null || value === undefined || String(value).trim() === "";
+}
+
+function parseBoolean(value: Cell): boolean {
+  if (typeof value === "boolean") return value;
+  const str = String(value).trim().toLowerCase();
+  return ["true", "yes", "y", "x", "1", "oui", "o"].includes(str);
+}
+
+/**
+ * Coerce a spreadsheet cell to the type the import schemas expect. Empty
+ * cells are dropped so schema defaults apply.
+ */
+function coerceCell(field: string, value: Cell): unknown {
+  if (BOOLEAN_FIELDS.has(field)) return parseBoolean(value);
+  if (LIST_FIELDS.has(field)) {
+    return String(value)
+      .split(/[\n;]/)
+      .map((item) => item.trim())
+      .filter(Boolean);
+  }
+  if (ENUM_FIELDS.has(field)) {
+    return String(value).trim().toUpperCase().replace(/[\s-]+/g, "_");
+  }
+  if (TEXT_FIELDS.has(field)) return String(value).trim();
+  if (typeof value === "string") return value.trim();
+  return value;
+}
+
+function normalizeRow(headers: Cell[], row: Cell[]): Record<string, unknown> | null {
+  const raw: Record<string, Cell> = {};
+  headers.forEach((header, index) => {
+    if (!isEmpty(header) && !isEmpty(row[index])) {
+      raw[String(header)] = row[index];
+    }
+  });
+
+  if (Object.keys(raw).length === 0) return null;
+
+  const normalized = normalizeFieldNames(raw);
+  for (const [field, value] of Object.entries(normalized)) {
+    normalized[field] = coerceCell(field, value as Cell);
+  }
+  return normalized;
+}
+
+/**
+ * Locate the header row by looking for a row that maps onto at least one
+ * of the given fields
+ */
+function findHeaderRow(rows: Cell[][], fields: string[]): number {
+  const limit = Math.min(rows.length, HEADER_SEARCH_ROWS);
+  for (let i = 0; i < limit; i++) {
+    const keys = Object.keys(
+      normalizeFieldNames(
+        Object.fromEntries(
+          rows[i].filter((cell) => !isEmpty(cell)).map((cell) => [String(cell), true])
+        )
+      )
+    );
+    if (fields.some((field) => keys.includes(field))) return i;
+  }
+  return -1;
+}
+
+function classifySheet(name: string): WorkbookSheetKind {
+  const key = name.trim().toLowerCase();
+  if (METADATA_SHEETS.includes(key)) return "METADATA";
+  if (CATEGORY_SHEETS.includes(key)) return "CATEGORIES";
+  if (IGNORED_SHEETS.includes(key)) return "IGNORED";
+  return "QUESTIONS";
+}
+
+/**
+ * Audit area or SMS component implied by a sheet name such as "ANS",
+ * "ANS - Air Navigation Services" or "Component 1 - Safety Policy"
+ */
+function sheetContext(
+  name: string,
+  type: "ANS_USOAP_CMA" | "SMS_CANSO_SOE"
+): Record<string, string> {
+  const candidates = [name, name.split(/\s[-–:]\s/)[0], name.split(/[\s\-–_:]+/)[0]];
+
+  for (const candidate of candidates) {
+    if (type === "ANS_USOAP_CMA") {
+      const auditArea = normalizeAuditArea(candidate);
+      if (auditArea) return { auditArea };
+    } else {
+      const smsComponent = normalizeSMSComponent(candidate);
+      if (smsComponent) return { smsComponent };
+    }
+  }
+  return {};
+}
+
+// =============================================================================
+// WORKBOOK PARSING
+// =============================================================================
+
+/**
+ * Convert a questionnaire workbook into JSON import data
+ */
+export function parseQuestionnaireWorkbook(
+  input: ArrayBuffer | Uint8Array,
+  type: "ANS_USOAP_CMA" | "SMS_CANSO_SOE"
+): WorkbookParseResult {
+  const data: WorkbookImportData = { categories: [], questions: [] };
+  const sheets: WorkbookSheetSummary[] = [];
+  const errors: ValidationError[] = [];
+  const warnings: string[] = [];
+
+  let workbook: XLSX.WorkBook;
+  try {
+    workbook = XLSX.read(input, { type: "array", cellDates: true });
+  } catch (error) {
+    return {
+      data,
+      sheets,
+      errors: [
+        {
+          row: 0,
+          field: "",
+          message: `Invalid workbook: ${error instanceof Error ? error.message : "Unknown error"}`,
+        },
+      ],
+      warnings,
+    };
+  }
+
+  for (const name of workbook.SheetNames) {
+    const kind = classifySheet(name);
+    const rows = XLSX.utils.sheet_to_json<Cell[]>(workbook.Sheets[name], {
+      header: 1,
+      defval: null,
+      blankrows: false,
+      raw: true,
+    });
+
+    if (kind === "IGNORED" || rows.length === 0) {
+      sheets.push({ name, kind: "IGNORED", rows: 0 });
+      continue;
+    }
+
+    if (kind === "METADATA") {
+      const pairs = Object.fromEntries(
+        rows
+          .filter((row) => !isEmpty(row[0]) && !isEmpty(row[1]))
+          .map((row) => [String(row[0]), row[1]])
+      );
+      const questionnaire = normalizeFieldNames(pairs);
+      for (const [field, value] of Object.entries(questionnaire)) {
+        questionnaire[field] = coerceCell(field, value as Cell);
+      }
+      data.questionnaire = { ...questionnaire, type };
+      sheets.push({ name, kind, rows: Object.keys(pairs).length });
+      continue;
+    }
+
+    const headerFields = kind === "CATEGORIES" ? ["code"] : ["pqNumber", "questionTextEn"];
+    const headerIndex = findHeaderRow(rows, headerFields);
+    if (headerIndex === -1) {
+      warnings.push(`Sheet "${name}" was skipped: no recognisable header row`);
+      sheets.push({ name, kind: "IGNORED", rows: 0 });
+      continue;
+    }
+
+    const headers = rows[headerIndex];
+    const context = kind === "QUESTIONS" ? sheetContext(name, type) : {};
+    const target = kind === "CATEGORIES" ? data.categories : data.questions;
+    let count = 0;
+
+    for (const row of rows.slice(headerIndex + 1)) {
+      const normalized = normalizeRow(headers, row);
+      if (!normalized) continue;
+
+      target.push({
+        ...context,
+        ...normalized,
+        sortOrder: normalized.sortOrder ?? target.length + 1,
+      });
+      count++;
+    }
+
+    sheets.push({ name, kind, rows: count });
+  }
+
+  if (data.questions.length === 0) {
+    errors.push({
+      row: 0,
+      field: "",
+      message: "The workbook does not contain any question rows",
+    });
+  }
+
+  return { data, sheets, errors, warnings };
+}
@@ -0,0 +1,80 @@
+/**
+ * Rate Limiter
+ *
+ * Fixed-window, in-memory rate limiter for unauthenticated endpoints
+ * (public join request form, public uploads). State is per server
+ * instance, which is sufficient to blunt form spam and scripted abuse.
+ */
+
+interface RateLimitWindow {
+  count: number;
+  resetAt: number;
+}
+
+export interface RateLimitOptions {
+  /** Maximum number of hits allowed within the window */
+  limit: number;
+  /** Window length in milliseconds */
+  windowMs: number;
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  remaining: number;
+  retryAfterMs: number;
+}
+
+const windows = new Map<string, RateLimitWindow>();
+
+/**
+ * Register a hit for the given key and report whether it is allowed.
+ */
+export function checkRateLimit(
+  key: string,
+  options: RateLimitOptions
+): RateLimitResult {
+  const now = Date.now();
+  const current = windows.get(key);
+
+  if (!current || current.resetAt <= now) {
+    windows.set(key, { count: 1, resetAt: now + options.windowMs });
+    pruneExpired(now);
+    return { allowed: true, remaining: options.limit - 1, retryAfterMs: 0 };
+  }
+
+  if (current.count >= options.limit) {
+    return {
+      allowed: false,
+      remaining: 0,
+      retryAfterMs: current.resetAt - now,
+    };
+  }
+
+  current.count += 1;
+  return {
+    allowed: true,
+    remaining: options.limit - current.count,
+    retryAfterMs: 0,
+  };
+}
+
+/**
+ * Resolve the client IP from proxy headers (Vercel sets x-forwarded-for).
+ */
+export function getClientIp(headers: Headers): string {
+  const forwarded = headers.get("x-forwarded-for");
+  if (forwarded) {
+    return forwarded.split(",")[0].trim();
+  }
+  return headers.get("x-real-ip") ?? "unknown";
+}
+
+// Prune if the map grows too large (drop expired windows)
+function pruneExpired(now: number): void {
+  if (windows.size <= 5000) return;
+  for (const [key, window] of windows) {
+    if (window.resetAt <= now) {
+      windows.delete(key);
+    }
+  }
+}
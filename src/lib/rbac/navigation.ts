@@ -123,7 +123,12 @@ const allNavItems: NavItem[] = [
     feature: "admin.sessions",
     section: "admin",
     isActive: (path) =>
-      path.includes("/admin/sessions") || path.includes("/audit-logs"),
+      path.includes("/admin/sessions") ||
+      path.includes("/admin/translations") ||
+      path.includes("/admin/severity-rules") ||
+      path.includes("/admin/workflows") ||
+      path.includes("/admin/jobs") ||
+      path.includes("/audit-logs"),
   },
 ];
 
@@ -149,6 +149,10 @@ export async function aggregateReportData(
             select: { reviewArea: true },
           },
           bestPractice: true,
+          recurrences: {
+            where: { status: "CONFIRMED" },
+            select: { priorFinding: { select: { referenceNumber: true } } },
+          },
         },
         orderBy: { createdAt: "asc" },
       },
@@ -573,6 +577,8 @@ function buildFindingsDetail(findings: any[], locale: "en" | "fr"): FindingDetai
       capRequired: f.capRequired,
       capReference: cap ? `CAP-${cap.id.slice(-6).toUpperCase()}` : undefined,
       capStatus: cap?.status,
+      isRepeat: f.isRepeat,
+      repeatOf: f.recurrences?.map((r: any) => r.priorFinding.referenceNumber),
     };
   });
 }
@@ -21,6 +21,8 @@ export const REVIEWER_CAPACITY = {
   MAX_TEAM_SIZE: 5,
   /** Ideal team size for a peer review */
   IDEAL_TEAM_SIZE: 3,
+  /** Default cap on reviews per reviewer when planning a programme batch */
+  MAX_REVIEWS_PER_REVIEWER: 3,
 } as const;
 
 // ============================================
@@ -0,0 +1,562 @@
+/**
+ * Programme Team Scheduler
+ *
+ * Staffs several peer reviews at once. `buildOptimalTeam` picks the best
+ * team for one review in isolation, so planning a programme year review by
+ * review over-allocates the strongest reviewers and leaves later reviews
+ * without a lead. This scheduler shares one reviewer pool across all
+ * reviews in a batch and enforces:
+ *
+ * - hard COI and availability exclusions supplied by the caller
+ * - no reviewer on two reviews whose dates overlap
+ * - a fairness cap on the number of reviews per reviewer
+ * - one lead-qualified reviewer per team
+ * - expertise and language coverage, as far as the pool allows
+ *
+ * Reviews with the fewest usable candidates are staffed first. A repair
+ * pass then moves reviewers between teams when that fills a lead or member
+ * slot without weakening the team they leave. Every constraint that still
+ * cannot be met is reported with the reasons candidates were ruled out.
+ *
+ * @module lib/reviewer/programme-scheduler
+ */
+
+import type { ExpertiseArea, Language } from "@prisma/client";
+import { REVIEWER_CAPACITY } from "./constants";
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+/**
+ * A review to staff, with its requirements resolved by the caller.
+ */
+export interface ProgrammeReview {
+  reviewId: string;
+  referenceNumber: string;
+  hostOrganizationId: string;
+  startDate: Date;
+  endDate: Date;
+  requiredExpertise: ExpertiseArea[];
+  requiredLanguages: Language[];
+  teamSize: number;
+}
+
+/**
+ * Why a candidate cannot join a specific review regardless of the plan.
+ */
+export type CandidateExclusion = "COI" | "UNAVAILABLE";
+
+/**
+ * A reviewer from the pool, with per-review exclusions resolved by the
+ * caller (COI checks, expanded availability).
+ */
+export interface ProgrammeCandidate {
+  reviewerProfileId: string;
+  userId: string;
+  fullName: string;
+  expertise: ExpertiseArea[];
+  languages: Language[];
+  isLeadQualified: boolean;
+  /** Reviews already assigned outside the batch that count toward the cap */
+  existingLoad: number;
+  /** Reviews in the batch this reviewer cannot join, keyed by review id */
+  exclusions: Partial<Record<string, CandidateExclusion>>;
+  /** Soft COI warnings, keyed by review id; assignment is allowed but avoided */
+  coiWarnings?: Partial<Record<string, string>>;
+}
+
+export interface ProgrammeSchedulerOptions {
+  /** Maximum reviews per reviewer, including `existingLoad` */
+  maxReviewsPerReviewer: number;
+}
+
+/**
+ * Reasons a candidate was ruled out for a slot.
+ */
+export type BlockReason =
+  | CandidateExclusion
+  | "FAIRNESS_CAP"
+  | "DOUBLE_BOOKED"
+  | "NOT_LEAD_QUALIFIED";
+
+export type UnmetConstraintCode = "NO_LEAD" | "UNDERSTAFFED" | "EXPERTISE_GAP" | "LANGUAGE_GAP";
+
+/**
+ * A constraint the scheduler could not satisfy, with the number of
+ * candidates ruled out per reason.
+ */
+export interface UnmetConstraint {
+  code: UnmetConstraintCode;
+  message: string;
+  /** Expertise areas or languages left uncovered */
+  missing: string[];
+  blockedBy: Partial<Record<BlockReason, number>>;
+}
+
+export interface ProgrammeAssignment {
+  reviewerProfileId: string;
+  userId: string;
+  fullName: string;
+  role: "LEAD_REVIEWER" | "REVIEWER";
+  expertiseContribution: ExpertiseArea[];
+  languageContribution: Language[];
+  coiWarning?: string;
+}
+
+export interface ProgrammeTeamPlan {
+  review: ProgrammeReview;
+  team: ProgrammeAssignment[];
+  expertiseMissing: ExpertiseArea[];
+  languagesMissing: Language[];
+  hasLead: boolean;
+  unmet: UnmetConstraint[];
+  /** The team has a lead and at least the minimum team size */
+  isAssignable: boolean;
+}
+
+export interface ReviewerLoad {
+  reviewerProfileId: string;
+  fullName: string;
+  existingLoad: number;
+  reviewIds: string[];
+  total: number;
+}
+
+export interface ProgrammeSchedule {
+  plans: ProgrammeTeamPlan[];
+  loads: ReviewerLoad[];
+  summary: {
+    reviews: number;
+    fullyStaffed: number;
+    assignable: number;
+    assignments: number;
+    maxLoad: number;
+  };
+}
+
+interface Slot {
+  candidate: ProgrammeCandidate;
+  role: ProgrammeAssignment["role"];
+}
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+/** Value of covering a required expertise area not yet on the team */
+const NEW_EXPERTISE_VALUE = 10;
+/** Value of covering a required language not yet on the team */
+const NEW_LANGUAGE_VALUE = 8;
+/** Value of each required expertise area matched, covered or not */
+const MATCHED_EXPERTISE_VALUE = 2;
+/** Penalty per review a candidate already carries */
+const LOAD_PENALTY = 4;
+/** Penalty per unscheduled review the candidate could still staff */
+const DEMAND_PENALTY = 1;
+/** Penalty for using a lead-qualified reviewer in a member slot */
+const LEAD_RESERVE_PENALTY = 5;
+/** Penalty for a soft COI with the host organization */
+const SOFT_COI_PENALTY = 6;
+/** Upper bound on repair moves, to guarantee termination */
+const MAX_REPAIR_MOVES = 50;
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+function overlaps(a: ProgrammeReview, b: ProgrammeReview): boolean {
+  return a.startDate <= b.endDate && b.startDate <= a.endDate;
+}
+
+function clampTeamSize(size: number): number {
+  return Math.min(
+    Math.max(size, REVIEWER_CAPACITY.MIN_TEAM_SIZE),
+    REVIEWER_CAPACITY.MAX_TEAM_SIZE
+  );
+}
+
+function coverage(review: ProgrammeReview, team: ProgrammeCandidate[]) {
+  const expertise = new Set(team.flatMap((c) => c.expertise));
+  const languages = new Set(team.flatMap((c) => c.languages));
+  return {
+    expertiseMissing: review.requiredExpertise.filter((e) => !expertise.has(e)),
+    languagesMissing: review.requiredLanguages.filter((l) => !languages.has(l)),
+  };
+}
+
+function gapCount(review: ProgrammeReview, team: ProgrammeCandidate[]): number {
+  const { expertiseMissing, languagesMissing } = coverage(review, team);
+  return expertiseMissing.length + languagesMissing.length;
+}
+
+function increment(
+  counts: Partial<Record<BlockReason, number>>,
+  reason: BlockReason
+): void {
+  counts[reason] = (counts[reason] ?? 0) + 1;
+}
+
+function describeBlocks(blockedBy: Partial<Record<BlockReason, number>>): string {
+  const labels: Record<BlockReason, string> = {
+    COI: "conflict of interest",
+    UNAVAILABLE: "unavailable",
+    FAIRNESS_CAP: "at review cap",
+    DOUBLE_BOOKED: "on an overlapping review",
+    NOT_LEAD_QUALIFIED: "not lead-qualified",
+  };
+  const parts = (Object.entries(blockedBy) as [BlockReason, number][])
+    .filter(([, count]) => count > 0)
+    .map(([reason, count]) => `${count} ${labels[reason]}`);
+  return parts.length > 0 ? ` (${parts.join(", ")})` : "";
+}
+
+// =============================================================================
+// SCHEDULER
+// =============================================================================
+
+/**
+ * Build teams for a batch of reviews from a shared reviewer pool.
+ */
+export function scheduleProgrammeTeams(
+  reviews: ProgrammeReview[],
+  candidates: ProgrammeCandidate[],
+  options: ProgrammeSchedulerOptions
+): ProgrammeSchedule {
+  const reviewById = new Map(reviews.map((r) => [r.reviewId, r]));
+  const teams = new Map<string, Slot[]>(reviews.map((r) => [r.reviewId, []]));
+  const assigned = new Map<string, string[]>(
+    candidates.map((c) => [c.reviewerProfileId, []])
+  );
+  const unscheduled = new Set(reviews.map((r) => r.reviewId));
+
+  const isOnTeam = (candidate: ProgrammeCandidate, reviewId: string) =>
+    teams.get(reviewId)!.some((s) => s.candidate.reviewerProfileId === candidate.reviewerProfileId);
+
+  /** Why the candidate cannot join the review right now, or null if free */
+  const blockFor = (
+    candidate: ProgrammeCandidate,
+    review: ProgrammeReview
+  ): { reason: BlockReason; conflicts: string[] } | null => {
+    const exclusion = candidate.exclusions[review.reviewId];
+    if (exclusion) return { reason: exclusion, conflicts: [] };
+
+    const current = assigned.get(candidate.reviewerProfileId)!;
+    const overlapping = current.filter((id) => overlaps(reviewById.get(id)!, review));
+    if (overlapping.length > 0) return { reason: "DOUBLE_BOOKED", conflicts: overlapping };
+
+    if (candidate.existingLoad + current.length >= options.maxReviewsPerReviewer) {
+      return { reason: "FAIRNESS_CAP", conflicts: current };
+    }
+    return null;
+  };
+
+  const demand = (candidate: ProgrammeCandidate, exceptReviewId: string) =>
+    [...unscheduled].filter(
+      (id) => id !== exceptReviewId && !candidate.exclusions[id]
+    ).length;
+
+  const value = (
+    candidate: ProgrammeCandidate,
+    review: ProgrammeReview,
+    team: Slot[],
+    role: Slot["role"] = "REVIEWER"
+  ) => {
+    const covered = coverage(review, team.map((s) => s.candidate));
+    const newExpertise = candidate.expertise.filter((e) => covered.expertiseMissing.includes(e));
+    const newLanguages = candidate.languages.filter((l) => covered.languagesMissing.includes(l));
+    const matched = candidate.expertise.filter((e) => review.requiredExpertise.includes(e));
+    const load = candidate.existingLoad + assigned.get(candidate.reviewerProfileId)!.length;
+
+    return (
+      newExpertise.length * NEW_EXPERTISE_VALUE +
+      newLanguages.length * NEW_LANGUAGE_VALUE +
+      matched.length * MATCHED_EXPERTISE_VALUE -
+      load * LOAD_PENALTY -
+      demand(candidate, review.reviewId) * DEMAND_PENALTY -
+      (role === "REVIEWER" && candidate.isLeadQualified ? LEAD_RESERVE_PENALTY : 0) -
+      (candidate.coiWarnings?.[review.reviewId] ? SOFT_COI_PENALTY : 0)
+    );
+  };
+
+  const pickBest = (review: ProgrammeReview, leadOnly: boolean): ProgrammeCandidate | null => {
+    const team = teams.get(review.reviewId)!;
+    let best: ProgrammeCandidate | null = null;
+    let bestValue = -Infinity;
+
+    for (const candidate of candidates) {
+      if (leadOnly && !candidate.isLeadQualified) continue;
+      if (isOnTeam(candidate, review.reviewId) || blockFor(candidate, review)) continue;
+
+      const candidateValue = value(
+        candidate,
+        review,
+        team,
+        leadOnly ? "LEAD_REVIEWER" : "REVIEWER"
+      );
+      if (candidateValue > bestValue) {
+        best = candidate;
+        bestValue = candidateValue;
+      }
+    }
+    return best;
+  };
+
+  const place = (candidate: ProgrammeCandidate, reviewId: string, role: Slot["role"]) => {
+    teams.get(reviewId)!.push({ candidate, role });
+    assigned.get(candidate.reviewerProfileId)!.push(reviewId);
+  };
+
+  const unplace = (candidate: ProgrammeCandidate, reviewId: string) => {
+    const team = teams.get(reviewId)!;
+    team.splice(team.findIndex((s) => s.candidate === candidate), 1);
+    const reviewIds = assigned.get(candidate.reviewerProfileId)!;
+    reviewIds.splice(reviewIds.indexOf(reviewId), 1);
+  };
+
+  const fill = (review: ProgrammeReview) => {
+    const team = teams.get(review.reviewId)!;
+    if (!team.some((s) => s.role === "LEAD_REVIEWER")) {
+      const lead = pickBest(review, true);
+      if (lead) place(lead, review.reviewId, "LEAD_REVIEWER");
+    }
+    while (team.length < clampTeamSize(review.teamSize)) {
+      const member = pickBest(review, false);
+      if (!member) break;
+      place(member, review.reviewId, "REVIEWER");
+    }
+  };
+
+  // Most constrained reviews first: least slack in the pool, fewest leads
+  const usable = (review: ProgrammeReview, leadOnly: boolean) =>
+    candidates.filter(
+      (c) => !c.exclusions[review.reviewId] && (!leadOnly || c.isLeadQualified)
+    ).length;
+
+  const order = [...reviews].sort(
+    (a, b) =>
+      usable(a, false) - clampTeamSize(a.teamSize) - (usable(b, false) - clampTeamSize(b.teamSize)) ||
+      usable(a, true) - usable(b, true) ||
+      a.startDate.getTime() - b.startDate.getTime()
+  );
+
+  for (const review of order) {
+    fill(review);
+    unscheduled.delete(review.reviewId);
+  }
+
+  /** Drop the member whose departure costs the least coverage */
+  const trimToSize = (review: ProgrammeReview) => {
+    const team = teams.get(review.reviewId)!;
+    if (team.length <= clampTeamSize(review.teamSize)) return;
+
+    const members = team.filter((s) => s.role === "REVIEWER").map((s) => s.candidate);
+    const gapsWithout = (member: ProgrammeCandidate) =>
+      gapCount(review, team.filter((s) => s.candidate !== member).map((s) => s.candidate));
+    const [leastNeeded] = members.sort(
+      (a, b) => gapsWithout(a) - gapsWithout(b) || b.existingLoad - a.existingLoad
+    );
+    if (leastNeeded) unplace(leastNeeded, review.reviewId);
+  };
+
+  // Repair: free a reviewer held by another team when a replacement keeps
+  // that team's lead and coverage intact
+  const tryRepair = (review: ProgrammeReview, leadOnly: boolean): boolean => {
+    for (const candidate of candidates) {
+      if (leadOnly && !candidate.isLeadQualified) continue;
+      if (isOnTeam(candidate, review.reviewId)) continue;
+
+      const block = blockFor(candidate, review);
+      if (!block || (block.reason !== "DOUBLE_BOOKED" && block.reason !== "FAIRNESS_CAP")) continue;
+
+      for (const otherId of block.conflicts) {
+        const other = reviewById.get(otherId)!;
+        const otherTeam = teams.get(otherId)!;
+        const slot = otherTeam.find((s) => s.candidate === candidate)!;
+        const gapsBefore = gapCount(other, otherTeam.map((s) => s.candidate));
+
+        unplace(candidate, otherId);
+        if (blockFor(candidate, review)) {
+          place(candidate, otherId, slot.role);
+          continue;
+        }
+
+        const replacement = candidates
+          .filter(
+            (c) =>
+              c !== candidate &&
+              (slot.role !== "LEAD_REVIEWER" || c.isLeadQualified) &&
+              !isOnTeam(c, otherId) &&
+              !blockFor(c, other) &&
+              gapCount(other, [...otherTeam.map((s) => s.candidate), c]) <= gapsBefore
+          )
+          .sort(
+            (a, b) =>
+              value(b, other, otherTeam, slot.role) - value(a, other, otherTeam, slot.role)
+          )[0];
+        if (!replacement) {
+          place(candidate, otherId, slot.role);
+          continue;
+        }
+
+        place(replacement, otherId, slot.role);
+        place(candidate, review.reviewId, leadOnly ? "LEAD_REVIEWER" : "REVIEWER");
+        if (leadOnly) trimToSize(review);
+        return true;
+      }
+    }
+    return false;
+  };
+
+  let moves = 0;
+  for (const review of order) {
+    const team = teams.get(review.reviewId)!;
+    while (moves < MAX_REPAIR_MOVES) {
+      const needsLead = !team.some((s) => s.role === "LEAD_REVIEWER");
+      const needsMember = team.length < clampTeamSize(review.teamSize);
+      const repaired =
+        (needsLead && tryRepair(review, true)) || (needsMember && tryRepair(review, false));
+      if (!repaired) break;
+      moves++;
+      fill(review);
+    }
+  }
+
+  const plans = reviews.map((review) =>
+    buildPlan(review, teams.get(review.reviewId)!, candidates, blockFor, isOnTeam)
+  );
+
+  const loads: ReviewerLoad[] = candidates
+    .map((c) => {
+      const reviewIds = assigned.get(c.reviewerProfileId)!;
+      return {
+        reviewerProfileId: c.reviewerProfileId,
+        fullName: c.fullName,
+        existingLoad: c.existingLoad,
+        reviewIds: [...reviewIds],
+        total: c.existingLoad + reviewIds.length,
+      };
+    })
+    .filter((l) => l.reviewIds.length > 0)
+    .sort((a, b) => b.total - a.total || a.fullName.localeCompare(b.fullName));
+
+  return {
+    plans,
+    loads,
+    summary: {
+      reviews: plans.length,
+      fullyStaffed: plans.filter((p) => p.unmet.length === 0).length,
+      assignable: plans.filter((p) => p.isAssignable).length,
+      assignments: plans.reduce((sum, p) => sum + p.team.length, 0),
+      maxLoad: loads.reduce((max, l) => Math.max(max, l.total), 0),
+    },
+  };
+}
+
+// =============================================================================
+// EXPLANATIONS
+// =============================================================================
+
+/**
+ * Describe the final team for a review and explain each unmet constraint
+ * from the reasons the remaining candidates were ruled out.
+ */
+function buildPlan(
+  review: ProgrammeReview,
+  team: Slot[],
+  candidates: ProgrammeCandidate[],
+  blockFor: (c: ProgrammeCandidate, r: ProgrammeReview) => { reason: BlockReason } | null,
+  isOnTeam: (c: ProgrammeCandidate, reviewId: string) => boolean
+): ProgrammeTeamPlan {
+  const members = team.map((s) => s.candidate);
+  const { expertiseMissing, languagesMissing } = coverage(review, members);
+  const hasLead = team.some((s) => s.role === "LEAD_REVIEWER");
+  const teamSize = clampTeamSize(review.teamSize);
+  const others = candidates.filter((c) => !isOnTeam(c, review.reviewId));
+  const unmet: UnmetConstraint[] = [];
+
+  const blocksAmong = (pool: ProgrammeCandidate[]) => {
+    const blockedBy: Partial<Record<BlockReason, number>> = {};
+    for (const candidate of pool) {
+      const block = blockFor(candidate, review);
+      if (block) increment(blockedBy, block.reason);
+    }
+    return blockedBy;
+  };
+
+  if (!hasLead) {
+    const blockedBy = blocksAmong(others.filter((c) => c.isLeadQualified));
+    const unqualified = others.filter((c) => !c.isLeadQualified && !blockFor(c, review)).length;
+    if (unqualified > 0) blockedBy.NOT_LEAD_QUALIFIED = unqualified;
+    unmet.push({
+      code: "NO_LEAD",
+      message: `No lead-qualified reviewer could be assigned${describeBlocks(blockedBy)}`,
+      missing: [],
+      blockedBy,
+    });
+  }
+
+  if (team.length < teamSize) {
+    const blockedBy = blocksAmong(others);
+    unmet.push({
+      code: "UNDERSTAFFED",
+      message: `Only ${team.length} of ${teamSize} team members could be assigned${describeBlocks(blockedBy)}`,
+      missing: [],
+      blockedBy,
+    });
+  }
+
+  if (expertiseMissing.length > 0) {
+    const holders = others.filter((c) => c.expertise.some((e) => expertiseMissing.includes(e)));
+    const blockedBy = blocksAmong(holders);
+    unmet.push({
+      code: "EXPERTISE_GAP",
+      message:
+        holders.length === 0
+          ? `No reviewer in the pool covers ${expertiseMissing.join(", ")}`
+          : `Missing expertise coverage: ${expertiseMissing.join(", ")}${describeBlocks(blockedBy)}`,
+      missing: expertiseMissing,
+      blockedBy,
+    });
+  }
+
+  if (languagesMissing.length > 0) {
+    const speakers = others.filter((c) => c.languages.some((l) => languagesMissing.includes(l)));
+    const blockedBy = blocksAmong(speakers);
+    unmet.push({
+      code: "LANGUAGE_GAP",
+      message:
+        speakers.length === 0
+          ? `No reviewer in the pool speaks ${languagesMissing.join(", ")}`
+          : `Missing language coverage: ${languagesMissing.join(", ")}${describeBlocks(blockedBy)}`,
+      missing: languagesMissing,
+      blockedBy,
+    });
+  }
+
+  const assignments: ProgrammeAssignment[] = [...team]
+    .sort((a, b) => (a.role === b.role ? 0 : a.role === "LEAD_REVIEWER" ? -1 : 1))
+    .map(({ candidate, role }) => ({
+      reviewerProfileId: candidate.reviewerProfileId,
+      userId: candidate.userId,
+      fullName: candidate.fullName,
+      role,
+      expertiseContribution: candidate.expertise.filter((e) =>
+        review.requiredExpertise.includes(e)
+      ),
+      languageContribution: candidate.languages.filter((l) =>
+        review.requiredLanguages.includes(l)
+      ),
+      coiWarning: candidate.coiWarnings?.[review.reviewId],
+    }));
+
+  return {
+    review,
+    team: assignments,
+    expertiseMissing,
+    languagesMissing,
+    hasLead,
+    unmet,
+    isAssignable: hasLead && team.length >= REVIEWER_CAPACITY.MIN_TEAM_SIZE,
+  };
+}
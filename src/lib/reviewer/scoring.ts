@@ -15,6 +15,8 @@ import type {
   AvailabilityType,
 } from "@prisma/client";
 import { MATCHING_WEIGHTS, QUALIFICATION_REQUIREMENTS } from "./constants";
+import { AVAILABILITY_CONFIG } from "@/lib/availability/types";
+import { expandAvailabilitySlots } from "@/lib/availability/recurrence";
 
 // =============================================================================
 // INPUT TYPES (minimal fields required for scoring)
@@ -46,6 +48,8 @@ export interface AvailabilitySlotInput {
   endDate: Date;
   availabilityType: AvailabilityType;
   notes?: string | null;
+  isRecurring?: boolean | null;
+  recurrencePattern?: string | null;
 }
 
 // =============================================================================
@@ -339,6 +343,7 @@ export function scoreAvailability(
 
   // Build a map of each day's availability
   const dayAvailability = new Map<string, "AVAILABLE" | "TENTATIVE" | "UNAVAILABLE" | "ON_ASSIGNMENT">();
+  const coveredDays = new Set<string>();
   const conflicts: string[] = [];
 
   // Initialize all days as unavailable (no slots = not available)
@@ -348,8 +353,8 @@ export function scoreAvailability(
     currentDate.setDate(currentDate.getDate() + 1);
   }
 
-  // Apply availability slots
-  for (const slot of availabilitySlots) {
+  // Apply availability slots (recurring series expanded to their occurrences)
+  for (const slot of expandAvailabilitySlots(availabilitySlots, { start: startDate, end: endDate })) {
     const slotStart = new Date(slot.startDate);
     const slotEnd = new Date(slot.endDate);
 
@@ -362,7 +367,17 @@ export function scoreAvailability(
     const iterDate = new Date(iterStart);
     while (iterDate <= iterEnd) {
       const dateKey = formatDateKey(iterDate);
-      dayAvailability.set(dateKey, slot.availabilityType);
+      const current = dayAvailability.get(dateKey);
+
+      // Overlapping slots: the higher-priority type wins (blackouts beat availability)
+      if (
+        !coveredDays.has(dateKey) ||
+        !current ||
+        AVAILABILITY_CONFIG[slot.availabilityType].priority > AVAILABILITY_CONFIG[current].priority
+      ) {
+        dayAvailability.set(dateKey, slot.availabilityType);
+        coveredDays.add(dateKey);
+      }
 
       // Track conflicts
       if (slot.availabilityType === "ON_ASSIGNMENT" && slot.notes) {
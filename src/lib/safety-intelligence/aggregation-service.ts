@@ -5,7 +5,7 @@
 // All functions accept a Prisma client instance and optional team filter.
 // =============================================================================
 
-import type { PrismaClient, MaturityLevel } from "@prisma/client";
+import type { PrismaClient, MaturityLevel, EffectivenessOutcome } from "@prisma/client";
 import type {
   ProgrammeKPIs,
   ANSPPerformanceRecord,
@@ -14,7 +14,11 @@ import type {
   SystemicIssue,
   TrendDataPoint,
   CAPAnalytics,
+  CAPEffectivenessRates,
+  RepeatFindingRates,
 } from "@/types/safety-intelligence";
+import { summarizeRepeatRates } from "@/lib/finding/recurrence";
+import { summarizeEffectiveness } from "@/lib/cap/effectiveness";
 
 type DB = PrismaClient;
 
@@ -949,5 +953,139 @@ export async function getCAPAnalytics(
         : null,
     closureRateByTeam,
     closureRateDistribution,
+    effectiveness: await getCAPEffectivenessRates(db, orgIds),
+  };
+}
+
+/**
+ * Effectiveness review outcomes, overall and by regional team
+ */
+async function getCAPEffectivenessRates(
+  db: DB,
+  orgIds: string[] | undefined
+): Promise<CAPEffectivenessRates> {
+  const reviews = await db.cAPEffectivenessReview.findMany({
+    where: {
+      status: { in: ["SCHEDULED", "OPEN", "COMPLETED"] },
+      ...(orgIds && { cap: { finding: { organizationId: { in: orgIds } } } }),
+    },
+    select: {
+      status: true,
+      outcome: true,
+      cap: {
+        select: {
+          finding: {
+            select: {
+              organization: {
+                select: {
+                  regionalTeam: {
+                    select: { id: true, teamNumber: true, nameEn: true },
+                  },
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+  });
+
+  const completed = reviews.filter((r) => r.status === "COMPLETED" && r.outcome);
+
+  const teamMap = new Map<
+    string,
+    { teamId: string; teamNumber: number; teamName: string; outcomes: EffectivenessOutcome[] }
+  >();
+  for (const review of completed) {
+    const team = review.cap.finding.organization.regionalTeam;
+    if (!team) continue;
+    if (!teamMap.has(team.id)) {
+      teamMap.set(team.id, {
+        teamId: team.id,
+        teamNumber: team.teamNumber,
+        teamName: team.nameEn,
+        outcomes: [],
+      });
+    }
+    teamMap.get(team.id)!.outcomes.push(review.outcome!);
+  }
+
+  return {
+    ...summarizeEffectiveness(completed.map((r) => r.outcome!)),
+    pending: reviews.length - completed.length,
+    byTeam: [...teamMap.values()]
+      .map((t) => {
+        const rates = summarizeEffectiveness(t.outcomes);
+        return {
+          teamId: t.teamId,
+          teamNumber: t.teamNumber,
+          teamName: t.teamName,
+          completed: rates.completed,
+          effectivenessRate: rates.effectivenessRate,
+        };
+      })
+      .sort((a, b) => a.teamNumber - b.teamNumber),
+  };
+}
+
+// =============================================================================
+// 8. REPEAT FINDINGS
+// =============================================================================
+
+export async function getRepeatFindingRates(
+  db: DB,
+  teamId?: string
+): Promise<RepeatFindingRates> {
+  const orgIds = await getTeamOrgIds(db, teamId);
+
+  const findings = await db.finding.findMany({
+    where: orgIds ? { organizationId: { in: orgIds } } : {},
+    select: {
+      isRepeat: true,
+      reviewArea: true,
+      organization: {
+        select: {
+          regionalTeam: {
+            select: {
+              id: true,
+              teamNumber: true,
+              nameEn: true,
+            },
+          },
+        },
+      },
+    },
+  });
+
+  const repeatFindings = findings.filter((f) => f.isRepeat).length;
+
+  const teams = new Map<string, { teamNumber: number; teamName: string }>();
+  const teamRows: Array<{ key: string; isRepeat: boolean }> = [];
+  for (const finding of findings) {
+    const team = finding.organization.regionalTeam;
+    if (!team) continue;
+    teams.set(team.id, { teamNumber: team.teamNumber, teamName: team.nameEn });
+    teamRows.push({ key: team.id, isRepeat: finding.isRepeat });
+  }
+
+  const byTeam = summarizeRepeatRates(teamRows)
+    .map(({ key, ...rate }) => ({ teamId: key, ...teams.get(key)!, ...rate }))
+    .sort((a, b) => a.teamNumber - b.teamNumber);
+
+  const byReviewArea = summarizeRepeatRates(
+    findings
+      .filter((f) => f.reviewArea !== null)
+      .map((f) => ({ key: f.reviewArea!, isRepeat: f.isRepeat }))
+  ).map(({ key, ...rate }) => ({ reviewArea: key, ...rate }));
+
+  return {
+    totalFindings: findings.length,
+    repeatFindings,
+    repeatRate:
+      findings.length > 0
+        ? Math.round((repeatFindings / findings.length) * 1000) / 10
+        : 0,
+    byTeam,
+    byReviewArea,
   };
 }
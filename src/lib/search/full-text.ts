@@ -0,0 +1,203 @@
+/**
+ * Full-Text Search Helpers
+ *
+ * Client-safe pieces of the search subsystem: result and facet types,
+ * query normalisation into a prefix tsquery, parsing of highlighted
+ * snippets and facet aggregation. The SQL side lives in
+ * `server/services/search`.
+ *
+ * @module lib/search/full-text
+ */
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export const SEARCH_ENTITY_TYPES = [
+  "review",
+  "finding",
+  "cap",
+  "organization",
+  "bestPractice",
+  "lesson",
+  "discussion",
+  "document",
+] as const;
+
+export type SearchEntityType = (typeof SEARCH_ENTITY_TYPES)[number];
+
+export interface SearchHit {
+  id: string;
+  type: SearchEntityType;
+  title: string;
+  subtitle?: string;
+  status?: string;
+  /** Snippet with matches wrapped in HIGHLIGHT_START / HIGHLIGHT_END */
+  snippet?: string;
+  /** App path without the locale prefix */
+  href: string;
+  rank: number;
+  reviewId: string | null;
+  reviewReference: string | null;
+  organizationId: string | null;
+  organizationName: string | null;
+  severity: string | null;
+  region: string | null;
+  date: Date;
+}
+
+export interface FacetBucket {
+  value: string;
+  label?: string;
+  count: number;
+}
+
+export interface SearchFacets {
+  type: FacetBucket[];
+  severity: FacetBucket[];
+  region: FacetBucket[];
+  organization: FacetBucket[];
+  review: FacetBucket[];
+  year: FacetBucket[];
+}
+
+export interface HighlightSegment {
+  text: string;
+  match: boolean;
+}
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+/** Markers passed to ts_headline; never present in stored text */
+export const HIGHLIGHT_START = "\u0002";
+export const HIGHLIGHT_END = "\u0003";
+
+/** Buckets returned for high-cardinality facets */
+const MAX_FACET_BUCKETS = 10;
+
+/** Extra rank for a match on a reference number or code */
+export const REFERENCE_MATCH_BOOST = 1;
+
+// =============================================================================
+// QUERY
+// =============================================================================
+
+/**
+ * Extract search terms from free text. Anything that is not a letter or
+ * digit separates terms, so tsquery operators typed by users are inert.
+ */
+export function extractSearchTerms(query: string): string[] {
+  return query.normalize("NFC").toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+}
+
+/**
+ * Build a tsquery expression matching every term, with the last term as
+ * a prefix so results appear while the user is still typing.
+ *
+ * @returns null when the query contains no searchable term
+ */
+export function toPrefixTsQuery(query: string): string | null {
+  const terms = extractSearchTerms(query);
+  if (terms.length === 0) return null;
+  return terms.map((term, i) => (i === terms.length - 1 ? `${term}:*` : term)).join(" & ");
+}
+
+// =============================================================================
+// SNIPPETS
+// =============================================================================
+
+/**
+ * Split a ts_headline snippet into plain and highlighted segments, so the
+ * UI can render matches without injecting HTML.
+ */
+export function parseHighlight(snippet: string): HighlightSegment[] {
+  const segments: HighlightSegment[] = [];
+  let rest = snippet;
+
+  while (rest.length > 0) {
+    const start = rest.indexOf(HIGHLIGHT_START);
+    if (start === -1) {
+      segments.push({ text: rest, match: false });
+      break;
+    }
+    const end = rest.indexOf(HIGHLIGHT_END, start);
+    if (end === -1) {
+      segments.push({ text: rest.replace(HIGHLIGHT_START, ""), match: false });
+      break;
+    }
+    if (start > 0) segments.push({ text: rest.slice(0, start), match: false });
+    segments.push({ text: rest.slice(start + 1, end), match: true });
+    rest = rest.slice(end + 1);
+  }
+
+  // Merge neighbours of the same kind (adjacent highlighted words)
+  return segments.reduce<HighlightSegment[]>((merged, segment) => {
+    const last = merged[merged.length - 1];
+    if (last && last.match === segment.match) last.text += segment.text;
+    else if (segment.text) merged.push({ ...segment });
+    return merged;
+  }, []);
+}
+
+/**
+ * Remove highlight markers, for plain-text contexts such as titles
+ */
+export function stripHighlight(snippet: string): string {
+  return snippet.split(HIGHLIGHT_START).join("").split(HIGHLIGHT_END).join("");
+}
+
+// =============================================================================
+// FACETS
+// =============================================================================
+
+function countBy(
+  hits: SearchHit[],
+  key: (hit: SearchHit) => string | null,
+  label?: (hit: SearchHit) => string | null,
+  limit?: number
+): FacetBucket[] {
+  const buckets = new Map<string, FacetBucket>();
+  for (const hit of hits) {
+    const value = key(hit);
+    if (!value) continue;
+    const bucket = buckets.get(value);
+    if (bucket) bucket.count++;
+    else buckets.set(value, { value, label: label?.(hit) ?? undefined, count: 1 });
+  }
+  const sorted = [...buckets.values()].sort(
+    (a, b) => b.count - a.count || a.value.localeCompare(b.value)
+  );
+  return limit ? sorted.slice(0, limit) : sorted;
+}
+
+/**
+ * Aggregate facet counts over the matched hits
+ */
+export function buildFacets(hits: SearchHit[]): SearchFacets {
+  return {
+    type: countBy(hits, (h) => h.type),
+    severity: countBy(hits, (h) => h.severity),
+    region: countBy(hits, (h) => h.region),
+    organization: countBy(
+      hits,
+      (h) => h.organizationId,
+      (h) => h.organizationName,
+      MAX_FACET_BUCKETS
+    ),
+    review: countBy(hits, (h) => h.reviewId, (h) => h.reviewReference, MAX_FACET_BUCKETS),
+    year: countBy(hits, (h) => String(new Date(h.date).getUTCFullYear())).sort(
+      (a, b) => b.value.localeCompare(a.value)
+    ),
+  };
+}
+
+/**
+ * Order hits from every entity by rank, newest first on ties
+ */
+export function rankHits(hits: SearchHit[]): SearchHit[] {
+  return [...hits].sort(
+    (a, b) => b.rank - a.rank || new Date(b.date).getTime() - new Date(a.date).getTime()
+  );
+}
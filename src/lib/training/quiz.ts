@@ -0,0 +1,134 @@
+/**
+ * Training Knowledge Checks
+ *
+ * Each training module ends with a short bilingual multiple-choice quiz.
+ * A reviewer can take it once every topic of the module is marked complete;
+ * a score at or above the module's pass mark issues a certificate and a
+ * verified ReviewerTraining record. Questions are linked to Protocol
+ * Questions so a failed attempt points at the PQs worth revisiting; the
+ * correct answers are only revealed once the quiz is passed, and a failed
+ * attempt can only be retaken after a cooldown.
+ */
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface QuizAnswerKey {
+  id: string;
+  correctOption: number;
+  relatedPQs: string[];
+}
+
+/** Selected option index per question id */
+export type QuizAnswers = Record<string, number>;
+
+export interface QuizResult {
+  correctCount: number;
+  totalQuestions: number;
+  /** Percentage, rounded down so 69.9% does not pass a 70% mark */
+  score: number;
+  passed: boolean;
+  incorrectQuestionIds: string[];
+  /** PQs linked to missed questions, deduplicated and sorted */
+  missedPQs: string[];
+}
+
+export interface TopicCompletion {
+  completed: number;
+  total: number;
+  percent: number;
+  allComplete: boolean;
+}
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+export const DEFAULT_PASS_MARK = 70;
+
+/** Wait after a failed attempt before the quiz can be retaken */
+export const QUIZ_RETAKE_COOLDOWN_MINUTES = 60;
+
+/** Prefix of certificate numbers, e.g. AAPRP-M3-2026-CK7D2F9Q */
+export const CERTIFICATE_PREFIX = "AAPRP";
+
+// =============================================================================
+// SCORING
+// =============================================================================
+
+/**
+ * Score a quiz submission. Unanswered questions count as incorrect; answers
+ * to questions outside the key are ignored.
+ */
+export function scoreQuiz(
+  key: QuizAnswerKey[],
+  answers: QuizAnswers,
+  passMark: number = DEFAULT_PASS_MARK
+): QuizResult {
+  const incorrect = key.filter((q) => answers[q.id] !== q.correctOption);
+  const totalQuestions = key.length;
+  const correctCount = totalQuestions - incorrect.length;
+  const score = totalQuestions === 0 ? 0 : Math.floor((correctCount / totalQuestions) * 100);
+
+  const missedPQs = [...new Set(incorrect.flatMap((q) => q.relatedPQs))].sort((a, b) =>
+    a.localeCompare(b, undefined, { numeric: true })
+  );
+
+  return {
+    correctCount,
+    totalQuestions,
+    score,
+    passed: totalQuestions > 0 && score >= passMark,
+    incorrectQuestionIds: incorrect.map((q) => q.id),
+    missedPQs,
+  };
+}
+
+/**
+ * Progress through a module's topics. A module without topics counts as
+ * complete so its quiz is not locked.
+ */
+export function topicCompletion(
+  topicIds: string[],
+  completedTopicIds: Iterable<string>
+): TopicCompletion {
+  const done = new Set(completedTopicIds);
+  const completed = topicIds.filter((id) => done.has(id)).length;
+  const total = topicIds.length;
+
+  return {
+    completed,
+    total,
+    percent: total === 0 ? 100 : Math.round((completed / total) * 100),
+    allComplete: completed === total,
+  };
+}
+
+/**
+ * When a failed attempt can be retaken, or null when the quiz is available
+ * now (no attempt yet, last attempt passed, or cooldown elapsed).
+ */
+export function quizRetakeAvailableAt(
+  lastAttempt: { passed: boolean; submittedAt: Date } | null,
+  now: Date = new Date(),
+  cooldownMinutes: number = QUIZ_RETAKE_COOLDOWN_MINUTES
+): Date | null {
+  if (!lastAttempt || lastAttempt.passed) return null;
+
+  const availableAt = new Date(lastAttempt.submittedAt.getTime() + cooldownMinutes * 60_000);
+  return availableAt > now ? availableAt : null;
+}
+
+// =============================================================================
+// CERTIFICATES
+// =============================================================================
+
+/**
+ * Build a certificate number from the module code, the issue year and the
+ * quiz attempt id (unique per certificate).
+ */
+export function certificateNumber(moduleCode: string, issuedAt: Date, attemptId: string): string {
+  const suffix = attemptId.replace(/[^a-z0-9]/gi, "").slice(-8).toUpperCase();
+  return `${CERTIFICATE_PREFIX}-${moduleCode.toUpperCase()}-${issuedAt.getUTCFullYear()}-${suffix}`;
+}
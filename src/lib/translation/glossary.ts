@@ -0,0 +1,171 @@
+/**
+ * Translation Memory & Glossary Helpers
+ *
+ * Pure helpers shared by the translation service and the review queue:
+ * normalising source text for translation-memory lookups, and enforcing
+ * the bilingual aviation glossary on machine translations.
+ */
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export type TranslationLanguage = "en" | "fr";
+
+export interface GlossaryEntry {
+  termEn: string;
+  termFr: string;
+}
+
+/** A glossary entry oriented for one translation direction. */
+export interface GlossaryPair {
+  source: string;
+  target: string;
+}
+
+// =============================================================================
+// TRANSLATION MEMORY
+// =============================================================================
+
+/**
+ * Canonical form of a source text used as the translation-memory key:
+ * Unicode NFC, whitespace collapsed, case-folded.
+ */
+export function normalizeSourceText(text: string): string {
+  return text.normalize("NFC").replace(/\s+/g, " ").trim().toLowerCase();
+}
+
+/** Whether two texts are the same once whitespace differences are ignored. */
+export function isSameText(a: string | null | undefined, b: string | null | undefined): boolean {
+  const clean = (value: string | null | undefined) =>
+    (value ?? "").normalize("NFC").replace(/\s+/g, " ").trim();
+  return clean(a) === clean(b);
+}
+
+// =============================================================================
+// GLOSSARY
+// =============================================================================
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+function unescapeHtml(value: string): string {
+  return value
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;|&#x27;/g, "'")
+    .replace(/&amp;/g, "&");
+}
+
+/** Whole-term, case-insensitive matcher that treats letters and digits as word characters. */
+function termPattern(term: string): RegExp {
+  return new RegExp(`(?<![\\p{L}\\p{N}])${escapeRegExp(term.trim())}(?![\\p{L}\\p{N}])`, "giu");
+}
+
+/**
+ * Orient glossary entries for a translation direction, longest source term
+ * first so "Corrective Action Plan" wins over "Corrective Action".
+ */
+export function glossaryPairs(
+  entries: GlossaryEntry[],
+  sourceLanguage: TranslationLanguage
+): GlossaryPair[] {
+  return entries
+    .map((entry) =>
+      sourceLanguage === "en"
+        ? { source: entry.termEn.trim(), target: entry.termFr.trim() }
+        : { source: entry.termFr.trim(), target: entry.termEn.trim() }
+    )
+    .filter((pair) => pair.source && pair.target)
+    .sort((a, b) => b.source.length - a.source.length);
+}
+
+/** Glossary pairs whose source term occurs in the text. */
+export function findGlossaryTerms(
+  text: string,
+  entries: GlossaryEntry[],
+  sourceLanguage: TranslationLanguage
+): GlossaryPair[] {
+  return glossaryPairs(entries, sourceLanguage).filter((pair) =>
+    termPattern(pair.source).test(text)
+  );
+}
+
+/**
+ * HTML-escape the text and wrap every glossary term, already replaced by
+ * its target-language equivalent, in `<span translate="no">` so an
+ * HTML-aware machine translator leaves it untouched.
+ */
+export function protectGlossaryTerms(
+  text: string,
+  entries: GlossaryEntry[],
+  sourceLanguage: TranslationLanguage
+): string {
+  const pairs = findGlossaryTerms(text, entries, sourceLanguage);
+  if (pairs.length === 0) return escapeHtml(text);
+
+  // One alternation so longer terms match before their sub-terms
+  const targets = new Map(pairs.map((p) => [p.source.toLowerCase(), p.target]));
+  const pattern = new RegExp(
+    `(?<![\\p{L}\\p{N}])(${pairs.map((p) => escapeRegExp(p.source)).join("|")})(?![\\p{L}\\p{N}])`,
+    "giu"
+  );
+
+  let result = "";
+  let lastIndex = 0;
+  for (const match of text.matchAll(pattern)) {
+    const target = targets.get(match[0].toLowerCase()) ?? match[0];
+    result += escapeHtml(text.slice(lastIndex, match.index));
+    result += `<span translate="no">${escapeHtml(target)}</span>`;
+    lastIndex = match.index + match[0].length;
+  }
+  return result + escapeHtml(text.slice(lastIndex));
+}
+
+/** Undo protectGlossaryTerms on translated HTML, returning plain text. */
+export function restoreProtectedText(html: string): string {
+  return unescapeHtml(html.replace(/<span translate="no">([\s\S]*?)<\/span>/g, "$1"));
+}
+
+/**
+ * Glossary terms in the source whose required translation is missing from
+ * the translated text — what a reviewer should check first.
+ */
+export function findGlossaryViolations(
+  sourceText: string,
+  translatedText: string,
+  entries: GlossaryEntry[],
+  sourceLanguage: TranslationLanguage
+): GlossaryPair[] {
+  return findGlossaryTerms(sourceText, entries, sourceLanguage).filter(
+    (pair) => !termPattern(pair.target).test(translatedText)
+  );
+}
+
+/** Tab-separated entries in the format DeepL's glossary API expects. */
+export function toGlossaryTsv(
+  entries: GlossaryEntry[],
+  sourceLanguage: TranslationLanguage
+): string {
+  const seen = new Set<string>();
+  return glossaryPairs(entries, sourceLanguage)
+    .filter((pair) => {
+      // DeepL rejects duplicate source terms
+      const key = pair.source.toLowerCase();
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    })
+    .map((pair) => `${pair.source.replace(/\s+/g, " ")}\t${pair.target.replace(/\s+/g, " ")}`)
+    .join("\n");
+}
@@ -0,0 +1,101 @@
+/**
+ * Join Request Validation Schemas
+ *
+ * Zod schemas for the public programme application form and the
+ * applicant status page. Shared between the client wizard and the
+ * joinRequest tRPC router.
+ */
+
+import { z } from "zod";
+import { MaturityLevelInput } from "./response";
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+/** Public upload route prefix for commitment letters */
+export const COMMITMENT_LETTER_PATH_PREFIX = "/uploads/commitment-letters/";
+
+/** Minimum motivation statement length (mirrors joinRequest.form help text) */
+export const MOTIVATION_MIN_LENGTH = 100;
+
+// =============================================================================
+// APPLICATION FORM
+// =============================================================================
+
+export const joinApplicationSchema = z.object({
+  // Step 1 - Organization
+  organizationName: z.string().trim().min(3).max(200),
+  organizationCountry: z.string().trim().min(2).max(100),
+  organizationCode: z
+    .string()
+    .trim()
+    .toUpperCase()
+    .regex(/^([A-Z]{4})?$/, "ICAO location indicator must be 4 letters")
+    .optional(),
+
+  // Step 2 - Contact (ANSP focal point)
+  contactName: z.string().trim().min(2).max(200),
+  contactJobTitle: z.string().trim().min(2).max(200),
+  contactEmail: z.string().trim().toLowerCase().email(),
+  contactPhone: z.string().trim().max(50).optional(),
+
+  // Step 3 - SMS maturity self-declaration
+  currentSmsMaturity: MaturityLevelInput,
+  motivationStatement: z.string().trim().min(MOTIVATION_MIN_LENGTH).max(5000),
+  proposedReviewerCount: z.number().int().min(1).max(10),
+
+  // Step 4 - Commitment letter (uploaded through /api/upload/public)
+  commitmentLetterUrl: z
+    .string()
+    .refine((url) => url.startsWith(COMMITMENT_LETTER_PATH_PREFIX), {
+      message: "Invalid commitment letter reference",
+    })
+    .optional(),
+
+  // Step 5 - Team preference
+  preferredTeam: z.number().int().min(1).max(5).optional(),
+  preferredLanguage: z.enum(["en", "fr", "both"]),
+  additionalNotes: z.string().trim().max(2000).optional(),
+
+  // Spam protection - honeypot must stay empty; signed token issued when
+  // the form is opened (joinRequest.getFormToken)
+  website: z.string().max(0).optional(),
+  formToken: z.string().max(500),
+});
+
+export type JoinApplicationInput = z.infer<typeof joinApplicationSchema>;
+
+/**
+ * Fields validated on each wizard step before moving forward
+ */
+export const JOIN_APPLICATION_STEP_FIELDS = [
+  ["organizationName", "organizationCountry", "organizationCode"],
+  ["contactName", "contactJobTitle", "contactEmail", "contactPhone"],
+  ["currentSmsMaturity", "motivationStatement", "proposedReviewerCount"],
+  ["commitmentLetterUrl"],
+  ["preferredTeam", "preferredLanguage", "additionalNotes"],
+] as const satisfies ReadonlyArray<ReadonlyArray<keyof JoinApplicationInput>>;
+
+// =============================================================================
+// APPLICANT STATUS PAGE
+// =============================================================================
+
+export const joinRequestStatusTokenSchema = z.object({
+  token: z.string().min(10).max(500),
+});
+
+export const joinRequestInfoResponseSchema = z.object({
+  token: z.string().min(10).max(500),
+  response: z.string().trim().min(20).max(5000),
+  commitmentLetterUrl: z
+    .string()
+    .refine((url) => url.startsWith(COMMITMENT_LETTER_PATH_PREFIX), {
+      message: "Invalid commitment letter reference",
+    })
+    .optional(),
+});
+
+export type JoinRequestInfoResponseInput = z.infer<
+  typeof joinRequestInfoResponseSchema
+>;
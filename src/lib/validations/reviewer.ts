@@ -6,6 +6,7 @@
  */
 
 import { z } from "zod";
+import { recurrencePatternSchema } from "@/lib/availability/schemas";
 
 // ============================================
 // ENUM SCHEMAS
@@ -335,7 +336,7 @@ export const createAvailabilitySchemaBase = z.object({
   availabilityType: availabilityTypeSchema.default("AVAILABLE"),
   notes: z.string().max(500).optional().nullable(),
   isRecurring: z.boolean().default(false),
-  recurrencePattern: z.string().max(100).optional().nullable(),
+  recurrencePattern: recurrencePatternSchema.optional().nullable(),
 });
 
 // Full schema with date validation refinement
@@ -0,0 +1,405 @@
+/**
+ * Workflow Definition Graph
+ *
+ * Editable form of a workflow definition (states, transitions and
+ * escalation rules keyed by state code) with the static checks run before a
+ * version is published, the fields the condition builder offers for each
+ * entity type, and a layered layout for the designer's graph view.
+ */
+
+import {
+  CAPStatus,
+  FindingSeverity,
+  FindingStatus,
+  FindingType,
+  ReviewStatus,
+  ReviewType,
+  UserRole,
+  type EscalationAction,
+  type TransitionTrigger,
+  type WorkflowEntityType,
+  type WorkflowStateType,
+} from "@/types/prisma-enums";
+import type {
+  Condition,
+  ConditionGroup,
+  ConditionOperator,
+  EscalationConfig,
+  TransitionAction,
+  TransitionConditions,
+} from "@/types/workflow";
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface WorkflowGraphState {
+  code: string;
+  labelEn: string;
+  labelFr: string;
+  stateType: WorkflowStateType;
+  color: string | null;
+  icon: string | null;
+  defaultSLADays: number | null;
+}
+
+export interface WorkflowGraphTransition {
+  code: string;
+  labelEn: string;
+  labelFr: string;
+  fromStateCode: string;
+  toStateCode: string;
+  trigger: TransitionTrigger;
+  allowedRoles: UserRole[];
+  conditions: TransitionConditions | null;
+  /** Not edited in the designer; carried over between versions */
+  onTransitionActions: TransitionAction[] | null;
+  buttonVariant: string | null;
+  confirmRequired: boolean;
+  confirmMessageEn: string | null;
+  confirmMessageFr: string | null;
+}
+
+export interface WorkflowGraphEscalationRule {
+  stateCode: string;
+  nameEn: string;
+  nameFr: string;
+  triggerAfterDays: number;
+  action: EscalationAction;
+  actionConfig: EscalationConfig | null;
+  repeatIntervalDays: number | null;
+  maxRepeats: number | null;
+  isActive: boolean;
+}
+
+export interface WorkflowGraph {
+  states: WorkflowGraphState[];
+  transitions: WorkflowGraphTransition[];
+  escalationRules: WorkflowGraphEscalationRule[];
+}
+
+export type WorkflowIssueCode =
+  | "NO_STATES"
+  | "NO_INITIAL_STATE"
+  | "MULTIPLE_INITIAL_STATES"
+  | "NO_TERMINAL_STATE"
+  | "INVALID_CODE"
+  | "DUPLICATE_STATE_CODE"
+  | "DUPLICATE_TRANSITION_CODE"
+  | "UNKNOWN_STATE"
+  | "UNREACHABLE_STATE"
+  | "DEAD_END"
+  | "NO_PATH_TO_TERMINAL"
+  | "TERMINAL_HAS_EXIT"
+  | "SLA_ON_TERMINAL"
+  | "ESCALATION_ON_TERMINAL"
+  | "ESCALATION_ACTION_UNSUPPORTED"
+  | "INVALID_CONDITION";
+
+export interface WorkflowIssue {
+  severity: "error" | "warning";
+  code: WorkflowIssueCode;
+  stateCode?: string;
+  transitionCode?: string;
+  /** Offending value or condition problem, for the message */
+  detail?: string;
+}
+
+export type ConditionFieldType = "string" | "number" | "boolean";
+
+export interface ConditionField {
+  field: string;
+  type: ConditionFieldType;
+  options?: readonly string[];
+}
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+export const WORKFLOW_CODE_PATTERN = /^[A-Z][A-Z0-9_]*$/;
+
+/** Escalation actions the escalation service applies to each entity type */
+export const SUPPORTED_ESCALATION_ACTIONS: Record<WorkflowEntityType, EscalationAction[]> = {
+  CAP: ["NOTIFY", "REASSIGN", "ESCALATE", "AUTO_REJECT"],
+  FINDING: ["NOTIFY", "REASSIGN", "ESCALATE", "AUTO_CLOSE"],
+  REVIEW: ["NOTIFY", "ESCALATE"],
+};
+
+export const OPERATORS_BY_TYPE: Record<ConditionFieldType, ConditionOperator[]> = {
+  string: ["eq", "neq", "in", "nin", "exists", "regex"],
+  number: ["eq", "neq", "gt", "gte", "lt", "lte", "exists"],
+  boolean: ["eq", "exists"],
+};
+
+const ROLES = Object.values(UserRole);
+const DOCUMENT_COUNT: ConditionField = { field: "relations.documents.count", type: "number" };
+
+/**
+ * Entity context paths the ConditionEvaluator can read, per entity type
+ * (mirrors WorkflowService.buildEntityContext)
+ */
+export const CONDITION_FIELDS: Record<WorkflowEntityType, ConditionField[]> = {
+  CAP: [
+    { field: "currentStatus", type: "string", options: Object.values(CAPStatus) },
+    { field: "data.rootCauseEn", type: "string" },
+    { field: "data.isOverdue", type: "boolean" },
+    DOCUMENT_COUNT,
+    { field: "relations.assignedTo.role", type: "string", options: ROLES },
+  ],
+  FINDING: [
+    { field: "currentStatus", type: "string", options: Object.values(FindingStatus) },
+    { field: "data.severity", type: "string", options: Object.values(FindingSeverity) },
+    { field: "data.findingType", type: "string", options: Object.values(FindingType) },
+    { field: "data.capRequired", type: "boolean" },
+    DOCUMENT_COUNT,
+    { field: "relations.assignedTo.role", type: "string", options: ROLES },
+    { field: "relations.organization.code", type: "string" },
+    { field: "relations.review.status", type: "string", options: Object.values(ReviewStatus) },
+  ],
+  REVIEW: [
+    { field: "currentStatus", type: "string", options: Object.values(ReviewStatus) },
+    { field: "data.reviewType", type: "string", options: Object.values(ReviewType) },
+    DOCUMENT_COUNT,
+    { field: "relations.organization.code", type: "string" },
+  ],
+};
+
+// =============================================================================
+// CONDITIONS
+// =============================================================================
+
+export function isConditionGroup(rule: Condition | ConditionGroup): rule is ConditionGroup {
+  return "logic" in rule;
+}
+
+/**
+ * Problems in a condition tree that would make the ConditionEvaluator
+ * reject or mis-evaluate it
+ */
+export function validateConditions(conditions: TransitionConditions | null): string[] {
+  if (!conditions) return [];
+
+  const problems: string[] = [];
+  const allOperators = new Set(Object.values(OPERATORS_BY_TYPE).flat());
+
+  const visit = (rules: (Condition | ConditionGroup)[]) => {
+    for (const rule of rules) {
+      if (isConditionGroup(rule)) {
+        if (rule.conditions.length === 0) problems.push("empty group");
+        visit(rule.conditions);
+        continue;
+      }
+      if (!rule.field.trim()) {
+        problems.push("missing field");
+        continue;
+      }
+      if (!allOperators.has(rule.operator)) {
+        problems.push(`${rule.field}: unknown operator ${rule.operator}`);
+      } else if ((rule.operator === "in" || rule.operator === "nin") && !Array.isArray(rule.value)) {
+        problems.push(`${rule.field}: ${rule.operator} needs a list of values`);
+      } else if (["gt", "gte", "lt", "lte"].includes(rule.operator) && typeof rule.value !== "number") {
+        problems.push(`${rule.field}: ${rule.operator} needs a number`);
+      } else if (rule.operator === "regex") {
+        try {
+          new RegExp(String(rule.value));
+        } catch {
+          problems.push(`${rule.field}: invalid pattern`);
+        }
+      }
+    }
+  };
+
+  visit(conditions.rules);
+  return problems;
+}
+
+// =============================================================================
+// STATIC CHECKS
+// =============================================================================
+
+function reachableFrom(starts: string[], edges: Map<string, string[]>): Set<string> {
+  const seen = new Set(starts);
+  const queue = [...starts];
+  while (queue.length > 0) {
+    const code = queue.shift()!;
+    for (const next of edges.get(code) ?? []) {
+      if (!seen.has(next)) {
+        seen.add(next);
+        queue.push(next);
+      }
+    }
+  }
+  return seen;
+}
+
+/**
+ * Static checks on a workflow graph. Errors block publishing; warnings are
+ * shown in the designer only.
+ */
+export function validateWorkflowGraph(
+  graph: WorkflowGraph,
+  entityType: WorkflowEntityType
+): WorkflowIssue[] {
+  const issues: WorkflowIssue[] = [];
+  const { states, transitions, escalationRules } = graph;
+
+  if (states.length === 0) {
+    return [{ severity: "error", code: "NO_STATES" }];
+  }
+
+  const stateCodes = new Set<string>();
+  for (const state of states) {
+    if (!WORKFLOW_CODE_PATTERN.test(state.code)) {
+      issues.push({ severity: "error", code: "INVALID_CODE", stateCode: state.code, detail: state.code });
+    }
+    if (stateCodes.has(state.code)) {
+      issues.push({ severity: "error", code: "DUPLICATE_STATE_CODE", stateCode: state.code });
+    }
+    stateCodes.add(state.code);
+  }
+
+  const initial = states.filter((s) => s.stateType === "INITIAL");
+  const terminal = states.filter((s) => s.stateType === "TERMINAL");
+  if (initial.length === 0) issues.push({ severity: "error", code: "NO_INITIAL_STATE" });
+  if (initial.length > 1) issues.push({ severity: "error", code: "MULTIPLE_INITIAL_STATES" });
+  if (terminal.length === 0) issues.push({ severity: "error", code: "NO_TERMINAL_STATE" });
+
+  const forward = new Map<string, string[]>();
+  const backward = new Map<string, string[]>();
+  const transitionKeys = new Set<string>();
+
+  for (const transition of transitions) {
+    const ref = { transitionCode: transition.code, stateCode: transition.fromStateCode };
+
+    if (!WORKFLOW_CODE_PATTERN.test(transition.code)) {
+      issues.push({ severity: "error", code: "INVALID_CODE", ...ref, detail: transition.code });
+    }
+
+    const key = `${transition.fromStateCode}:${transition.code}`;
+    if (transitionKeys.has(key)) {
+      issues.push({ severity: "error", code: "DUPLICATE_TRANSITION_CODE", ...ref });
+    }
+    transitionKeys.add(key);
+
+    const missing = [transition.fromStateCode, transition.toStateCode].filter((c) => !stateCodes.has(c));
+    for (const code of missing) {
+      issues.push({ severity: "error", code: "UNKNOWN_STATE", ...ref, detail: code });
+    }
+
+    for (const problem of validateConditions(transition.conditions)) {
+      issues.push({ severity: "error", code: "INVALID_CONDITION", ...ref, detail: problem });
+    }
+
+    if (missing.length === 0) {
+      forward.set(transition.fromStateCode, [...(forward.get(transition.fromStateCode) ?? []), transition.toStateCode]);
+      backward.set(transition.toStateCode, [...(backward.get(transition.toStateCode) ?? []), transition.fromStateCode]);
+    }
+  }
+
+  const reachable = reachableFrom(initial.map((s) => s.code), forward);
+  const canFinish = reachableFrom(terminal.map((s) => s.code), backward);
+  const checked = new Set<string>();
+
+  for (const state of states) {
+    if (checked.has(state.code)) continue;
+    checked.add(state.code);
+
+    const exits = forward.get(state.code) ?? [];
+    const isTerminal = state.stateType === "TERMINAL";
+
+    if (initial.length > 0 && !reachable.has(state.code)) {
+      issues.push({ severity: "error", code: "UNREACHABLE_STATE", stateCode: state.code });
+    }
+    if (!isTerminal && exits.length === 0) {
+      issues.push({ severity: "error", code: "DEAD_END", stateCode: state.code });
+    } else if (!isTerminal && terminal.length > 0 && !canFinish.has(state.code)) {
+      issues.push({ severity: "warning", code: "NO_PATH_TO_TERMINAL", stateCode: state.code });
+    }
+    if (isTerminal && exits.length > 0) {
+      issues.push({ severity: "warning", code: "TERMINAL_HAS_EXIT", stateCode: state.code });
+    }
+    if (isTerminal && state.defaultSLADays) {
+      issues.push({ severity: "warning", code: "SLA_ON_TERMINAL", stateCode: state.code });
+    }
+  }
+
+  const terminalCodes = new Set(terminal.map((s) => s.code));
+  for (const rule of escalationRules) {
+    if (!stateCodes.has(rule.stateCode)) {
+      issues.push({ severity: "error", code: "UNKNOWN_STATE", stateCode: rule.stateCode, detail: rule.nameEn });
+    } else if (terminalCodes.has(rule.stateCode)) {
+      issues.push({ severity: "warning", code: "ESCALATION_ON_TERMINAL", stateCode: rule.stateCode, detail: rule.nameEn });
+    }
+    if (!SUPPORTED_ESCALATION_ACTIONS[entityType].includes(rule.action)) {
+      issues.push({
+        severity: "warning",
+        code: "ESCALATION_ACTION_UNSUPPORTED",
+        stateCode: rule.stateCode,
+        detail: rule.action,
+      });
+    }
+  }
+
+  return issues;
+}
+
+export function hasBlockingIssues(issues: WorkflowIssue[]): boolean {
+  return issues.some((issue) => issue.severity === "error");
+}
+
+// =============================================================================
+// VERSIONS & LAYOUT
+// =============================================================================
+
+/**
+ * Definition code of a new version: CAP_WORKFLOW_V1 → CAP_WORKFLOW_V2
+ */
+export function versionCode(code: string, version: number): string {
+  return `${code.replace(/_V\d+$/, "")}_V${version}`;
+}
+
+export interface WorkflowLayout {
+  /** Column (distance from the initial state) and row of each state */
+  positions: Record<string, { column: number; row: number }>;
+  columns: number;
+  rows: number;
+}
+
+/**
+ * Layered layout for the designer graph: states are placed in columns by
+ * their shortest distance from the initial state, unreachable states last
+ */
+export function layoutWorkflowGraph(graph: WorkflowGraph): WorkflowLayout {
+  const depth = new Map<string, number>();
+  const queue = graph.states.filter((s) => s.stateType === "INITIAL").map((s) => s.code);
+  for (const code of queue) depth.set(code, 0);
+
+  while (queue.length > 0) {
+    const code = queue.shift()!;
+    for (const t of graph.transitions) {
+      if (t.fromStateCode === code && !depth.has(t.toStateCode)) {
+        depth.set(t.toStateCode, depth.get(code)! + 1);
+        queue.push(t.toStateCode);
+      }
+    }
+  }
+
+  const reachedColumns = depth.size > 0 ? Math.max(...depth.values()) + 1 : 0;
+  const positions: WorkflowLayout["positions"] = {};
+  const rowsPerColumn: number[] = [];
+
+  for (const state of graph.states) {
+    if (positions[state.code]) continue;
+    const column = depth.get(state.code) ?? reachedColumns;
+    const row = rowsPerColumn[column] ?? 0;
+    rowsPerColumn[column] = row + 1;
+    positions[state.code] = { column, row };
+  }
+
+  return {
+    positions,
+    columns: rowsPerColumn.length,
+    rows: Math.max(0, ...rowsPerColumn.filter((n) => n !== undefined)),
+  };
+}
@@ -7,6 +7,10 @@
 
 import { db } from "@/lib/db";
 import { Prisma } from "@prisma/client";
+import {
+  availabilityWindowFilter,
+  isAvailableThroughout,
+} from "@/lib/availability/recurrence";
 
 // ============================================
 // REVIEWER PROFILE INCLUDE RELATIONS
@@ -50,7 +54,8 @@ export const reviewerProfileInclude = {
   },
   availabilityPeriods: {
     where: {
-      endDate: { gte: new Date() },
+      // Recurring series are kept so matching can expand future occurrences
+      OR: [{ endDate: { gte: new Date() } }, { isRecurring: true }],
     },
     orderBy: { startDate: "asc" as const },
   },
@@ -270,8 +275,11 @@ export async function searchReviewers(params: ReviewerSearchParams) {
         availabilityPeriods: {
           some: {
             availabilityType: "AVAILABLE",
-            startDate: { lte: availableFrom },
-            endDate: { gte: availableTo },
+            OR: [
+              { startDate: { lte: availableFrom }, endDate: { gte: availableTo } },
+              // Recurring series may cover the period; resolved when matching
+              { isRecurring: true, startDate: { lte: availableTo } },
+            ],
           },
         },
       }),
@@ -498,14 +506,14 @@ export async function getAvailableReviewers(
     requireLeadQualified?: boolean;
   }
 ) {
+  const window = { start: startDate, end: endDate };
   const where: Prisma.ReviewerProfileWhereInput = {
     selectionStatus: "SELECTED",
     isAvailable: true,
     availabilityPeriods: {
       some: {
         availabilityType: "AVAILABLE",
-        startDate: { lte: startDate },
-        endDate: { gte: endDate },
+        ...availabilityWindowFilter(window),
       },
     },
     ...(options?.excludeOrganizationId && {
@@ -542,11 +550,19 @@ export async function getAvailableReviewers(
     }),
   };
 
-  return db.reviewerProfile.findMany({
+  const candidates = await db.reviewerProfile.findMany({
     where,
-    include: reviewerProfileListInclude,
+    include: {
+      ...reviewerProfileListInclude,
+      availabilityPeriods: { where: availabilityWindowFilter(window) },
+    },
     orderBy: { reviewsCompleted: "desc" },
   });
+
+  // Require full coverage once recurring series and blackouts are expanded
+  return candidates.filter((reviewer) =>
+    isAvailableThroughout(reviewer.availabilityPeriods, window)
+  );
 }
 
 // ============================================
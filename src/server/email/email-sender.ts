@@ -25,6 +25,9 @@ import {
   CAPOverdueEmail,
   getCAPOverdueSubject,
   type CAPOverdueEmailProps,
+  NotificationDigestEmail,
+  getNotificationDigestSubject,
+  type NotificationDigestEmailProps,
 } from "./templates";
 
 // =============================================================================
@@ -48,6 +51,14 @@ export interface SendEmailResult {
   error?: string;
 }
 
+export interface SendEmailOptions {
+  /**
+   * Deduplication key passed to the provider; retries with the same key
+   * do not deliver the email twice.
+   */
+  idempotencyKey?: string;
+}
+
 // =============================================================================
 // SEND EMAIL HELPER
 // =============================================================================
@@ -55,7 +66,8 @@ export interface SendEmailResult {
 async function sendEmail(
   to: string,
   subject: string,
-  react: React.ReactElement
+  react: React.ReactElement,
+  options: SendEmailOptions = {}
 ): Promise<SendEmailResult> {
   if (!resend) {
     console.warn("Email sending skipped: RESEND_API_KEY not configured");
@@ -66,12 +78,17 @@ async function sendEmail(
   }
 
   try {
-    const result = await resend.emails.send({
-      from: FROM_EMAIL,
-      to,
-      subject: `[AAPRP] ${subject}`,
-      react,
-    });
+    const result = await resend.emails.send(
+      {
+        from: FROM_EMAIL,
+        to,
+        subject: `[AAPRP] ${subject}`,
+        react,
+      },
+      options.idempotencyKey
+        ? { idempotencyKey: options.idempotencyKey }
+        : undefined
+    );
 
     if (result.error) {
       console.error("Failed to send email:", result.error);
@@ -186,6 +203,26 @@ export async function sendCAPOverdueEmail(
   return sendEmail(to, subject, CAPOverdueEmail(props));
 }
 
+// =============================================================================
+// NOTIFICATION EMAILS
+// =============================================================================
+
+/**
+ * Send a daily or weekly notification digest.
+ */
+export async function sendNotificationDigestEmail(
+  to: string,
+  props: NotificationDigestEmailProps,
+  options: SendEmailOptions = {}
+): Promise<SendEmailResult> {
+  const subject = getNotificationDigestSubject(
+    props.totalCount,
+    props.frequency,
+    props.locale
+  );
+  return sendEmail(to, subject, NotificationDigestEmail(props), options);
+}
+
 // =============================================================================
 // BULK SEND HELPER
 // =============================================================================
@@ -12,8 +12,10 @@ export {
   sendFindingNotificationEmail,
   sendCAPDeadlineReminderEmail,
   sendCAPOverdueEmail,
+  sendNotificationDigestEmail,
   sendBulkEmail,
   type SendEmailResult,
+  type SendEmailOptions,
   type BulkEmailRecipient,
 } from "./email-sender";
 
@@ -46,3 +46,13 @@ export {
   getCAPOverdueSubject,
   type CAPOverdueEmailProps,
 } from "./cap-overdue";
+
+// Notification Templates
+export {
+  NotificationDigestEmail,
+  getNotificationDigestSubject,
+  type NotificationDigestEmailProps,
+  type DigestNotificationItem,
+  type DigestReviewGroup,
+  type DigestPriority,
+} from "./notification-digest";
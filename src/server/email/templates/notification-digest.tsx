@@ -0,0 +1,227 @@
+/**
+ * Notification Digest Email Template
+ *
+ * Daily or weekly summary of the notifications a user opted to receive in
+ * batches. Notifications are grouped by review and ordered by priority,
+ * each with a link back to the item in the platform.
+ */
+
+import { Text, Button, Hr, Link, Section } from "@react-email/components";
+import * as React from "react";
+import { BaseLayout, styles } from "./base-layout";
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export type DigestPriority = "LOW" | "NORMAL" | "HIGH" | "URGENT";
+
+export interface DigestNotificationItem {
+  title: string;
+  message: string;
+  priority: DigestPriority;
+  /** Absolute deep link to the related item */
+  url?: string;
+  /** Formatted creation date */
+  date: string;
+}
+
+export interface DigestReviewGroup {
+  /** Null for notifications not tied to a review */
+  reviewReference: string | null;
+  organizationName?: string;
+  reviewUrl?: string;
+  items: DigestNotificationItem[];
+}
+
+export interface NotificationDigestEmailProps {
+  recipientName: string;
+  frequency: "DAILY" | "WEEKLY";
+  totalCount: number;
+  groups: DigestReviewGroup[];
+  locale: "en" | "fr";
+}
+
+// =============================================================================
+// BILINGUAL CONTENT
+// =============================================================================
+
+const content = {
+  en: {
+    subject: (count: number, frequency: "DAILY" | "WEEKLY") =>
+      `Your ${frequency === "DAILY" ? "daily" : "weekly"} summary: ${count} notification${count === 1 ? "" : "s"}`,
+    preview: (count: number) =>
+      `${count} notification${count === 1 ? "" : "s"} since your last summary`,
+    greeting: (name: string) => `Hello ${name},`,
+    intro: (count: number, frequency: "DAILY" | "WEEKLY") =>
+      `Here is your ${frequency === "DAILY" ? "daily" : "weekly"} summary of ${count} notification${count === 1 ? "" : "s"} since your last digest.`,
+    general: "General",
+    viewReview: "Open review",
+    view: "View",
+    openPlatform: "Open AAPRP",
+    priority: {
+      LOW: "Low",
+      NORMAL: "Normal",
+      HIGH: "High",
+      URGENT: "Urgent",
+    } as Record<DigestPriority, string>,
+    preferences:
+      "You receive this summary because you chose digest delivery. You can switch to immediate emails in your notification settings.",
+    signature: "The AAPRP Coordination Team",
+  },
+  fr: {
+    subject: (count: number, frequency: "DAILY" | "WEEKLY") =>
+      `Votre résumé ${frequency === "DAILY" ? "quotidien" : "hebdomadaire"} : ${count} notification${count === 1 ? "" : "s"}`,
+    preview: (count: number) =>
+      `${count} notification${count === 1 ? "" : "s"} depuis votre dernier résumé`,
+    greeting: (name: string) => `Bonjour ${name},`,
+    intro: (count: number, frequency: "DAILY" | "WEEKLY") =>
+      `Voici votre résumé ${frequency === "DAILY" ? "quotidien" : "hebdomadaire"} de ${count} notification${count === 1 ? "" : "s"} depuis votre dernier résumé.`,
+    general: "Général",
+    viewReview: "Ouvrir l'évaluation",
+    view: "Voir",
+    openPlatform: "Ouvrir l'AAPRP",
+    priority: {
+      LOW: "Basse",
+      NORMAL: "Normale",
+      HIGH: "Haute",
+      URGENT: "Urgente",
+    } as Record<DigestPriority, string>,
+    preferences:
+      "Vous recevez ce résumé car vous avez choisi la livraison groupée. Vous pouvez revenir aux e-mails immédiats dans vos paramètres de notification.",
+    signature: "L'équipe de coordination AAPRP",
+  },
+};
+
+// =============================================================================
+// PRIORITY STYLES
+// =============================================================================
+
+const priorityColors: Record<DigestPriority, string> = {
+  LOW: "#94a3b8",
+  NORMAL: "#3b82f6",
+  HIGH: "#f59e0b",
+  URGENT: "#ef4444",
+};
+
+const groupHeading = {
+  color: "#1e3a5f",
+  fontSize: "15px",
+  fontWeight: 700,
+  margin: "24px 0 8px 0",
+};
+
+const itemTitle = {
+  color: "#1f2937",
+  fontSize: "14px",
+  fontWeight: 600,
+  margin: "0 0 4px 0",
+};
+
+const itemMessage = {
+  color: "#4b5563",
+  fontSize: "13px",
+  lineHeight: "20px",
+  margin: "0 0 4px 0",
+};
+
+const itemMeta = {
+  color: "#94a3b8",
+  fontSize: "12px",
+  margin: 0,
+};
+
+// =============================================================================
+// COMPONENT
+// =============================================================================
+
+export function NotificationDigestEmail(props: NotificationDigestEmailProps) {
+  const { recipientName, frequency, totalCount, groups, locale } = props;
+
+  const t = content[locale];
+  const baseUrl = process.env.NEXT_PUBLIC_APP_URL || "https://aaprp.aero";
+
+  return (
+    <BaseLayout locale={locale} previewText={t.preview(totalCount)}>
+      <Text style={styles.greeting}>{t.greeting(recipientName)}</Text>
+
+      <Text style={styles.paragraph}>{t.intro(totalCount, frequency)}</Text>
+
+      {groups.map((group) => (
+        <Section key={group.reviewReference ?? "general"}>
+          <Text style={groupHeading}>
+            {group.reviewReference
+              ? `${group.reviewReference}${group.organizationName ? ` – ${group.organizationName}` : ""}`
+              : t.general}
+            {group.reviewUrl && (
+              <>
+                {"  "}
+                <Link
+                  href={group.reviewUrl}
+                  style={{ ...styles.footerLink, fontSize: "12px", fontWeight: 400 }}
+                >
+                  {t.viewReview}
+                </Link>
+              </>
+            )}
+          </Text>
+
+          {group.items.map((item, index) => (
+            <div
+              key={index}
+              style={{
+                borderLeft: `3px solid ${priorityColors[item.priority]}`,
+                padding: "8px 12px",
+                margin: "0 0 8px 0",
+                backgroundColor: "#f8fafc",
+              }}
+            >
+              <Text style={itemTitle}>{item.title}</Text>
+              <Text style={itemMessage}>{item.message}</Text>
+              <Text style={itemMeta}>
+                <span style={{ color: priorityColors[item.priority], fontWeight: 600 }}>
+                  {t.priority[item.priority]}
+                </span>
+                {` · ${item.date}`}
+                {item.url && (
+                  <>
+                    {" · "}
+                    <Link href={item.url} style={styles.footerLink}>
+                      {t.view}
+                    </Link>
+                  </>
+                )}
+              </Text>
+            </div>
+          ))}
+        </Section>
+      ))}
+
+      <Button href={`${baseUrl}/notifications`} style={styles.button}>
+        {t.openPlatform}
+      </Button>
+
+      <Hr style={styles.hr} />
+
+      <Text style={{ ...styles.paragraph, fontSize: "13px", color: "#64748b" }}>
+        {t.preferences}
+      </Text>
+
+      <Text style={{ ...styles.paragraph, fontWeight: 600 }}>{t.signature}</Text>
+    </BaseLayout>
+  );
+}
+
+// =============================================================================
+// EXPORTS
+// =============================================================================
+
+export function getNotificationDigestSubject(
+  totalCount: number,
+  frequency: "DAILY" | "WEEKLY",
+  locale: "en" | "fr"
+): string {
+  return content[locale].subject(totalCount, frequency);
+}
+
+export default NotificationDigestEmail;
@@ -8,6 +8,9 @@
  * 1. Finds CAPs with deadlines within the next 7 days
  * 2. Finds CAPs that are overdue
  * 3. Sends notifications (avoiding duplicates within 24 hours)
+ *
+ * CAPs with a pending extension request are not escalated until the
+ * request is decided; they are reported as suspended.
  */
 
 import { prisma } from "@/lib/db";
@@ -18,6 +21,7 @@ import {
   type CAPForNotification,
 } from "@/server/services/notification-service";
 import { NotificationType, NotificationPriority } from "@prisma/client";
+import { PENDING_EXTENSION_STATUSES } from "@/lib/cap/extension";
 
 // =============================================================================
 // TYPES
@@ -27,6 +31,7 @@ export interface CAPDeadlineCheckResult {
   checked: number;
   approaching: number;
   overdue: number;
+  suspended: number;
   notificationsSent: number;
   errors: string[];
 }
@@ -47,6 +52,7 @@ export async function checkCAPDeadlines(): Promise<CAPDeadlineCheckResult> {
     checked: 0,
     approaching: 0,
     overdue: 0,
+    suspended: 0,
     notificationsSent: 0,
     errors: [],
   };
@@ -62,6 +68,9 @@ export async function checkCAPDeadlines(): Promise<CAPDeadlineCheckResult> {
           gte: now,
           lte: sevenDaysFromNow,
         },
+        extensionRequests: {
+          none: { status: { in: PENDING_EXTENSION_STATUSES } },
+        },
       },
       include: {
         finding: {
@@ -90,6 +99,9 @@ export async function checkCAPDeadlines(): Promise<CAPDeadlineCheckResult> {
       where: {
         status: { in: ["ACCEPTED", "IN_PROGRESS"] },
         dueDate: { lt: now },
+        extensionRequests: {
+          none: { status: { in: PENDING_EXTENSION_STATUSES } },
+        },
       },
       include: {
         finding: {
@@ -113,6 +125,17 @@ export async function checkCAPDeadlines(): Promise<CAPDeadlineCheckResult> {
       },
     });
 
+    // CAPs held back while their extension request is decided
+    result.suspended = await prisma.correctiveActionPlan.count({
+      where: {
+        status: { in: ["ACCEPTED", "IN_PROGRESS"] },
+        dueDate: { lte: sevenDaysFromNow },
+        extensionRequests: {
+          some: { status: { in: PENDING_EXTENSION_STATUSES } },
+        },
+      },
+    });
+
     result.checked = approachingCAPs.length + overdueCAPs.length;
     result.approaching = approachingCAPs.length;
     result.overdue = overdueCAPs.length;
@@ -0,0 +1,137 @@
+/**
+ * CAP Effectiveness Review Job
+ *
+ * Opens the effectiveness reviews of closed CAPs as they fall due.
+ * Run via: Vercel Cron, GitHub Actions, or manual API endpoint
+ *
+ * This job:
+ * 1. Schedules reviews for closed CAPs that have none pending
+ * 2. Opens scheduled reviews within the lead time of their due date
+ * 3. Notifies the host organization and the review team
+ */
+
+import { prisma } from "@/lib/db";
+import { EFFECTIVENESS_REVIEW_LEAD_DAYS } from "@/lib/cap/effectiveness";
+import { scheduleMissingEffectivenessReviews } from "@/server/services/cap-effectiveness";
+import {
+  sendNotification,
+  getHostOrganizationRecipients,
+  getReviewTeamRecipients,
+} from "@/server/services/notification-service";
+import { NotificationType, NotificationPriority } from "@prisma/client";
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface CAPEffectivenessCheckResult {
+  scheduled: number;
+  checked: number;
+  opened: number;
+  notificationsSent: number;
+  errors: string[];
+}
+
+// =============================================================================
+// MAIN JOB FUNCTION
+// =============================================================================
+
+/**
+ * Open due CAP effectiveness reviews and send notifications
+ */
+export async function checkCAPEffectivenessReviews(): Promise<CAPEffectivenessCheckResult> {
+  const now = new Date();
+  const openBefore = new Date(
+    now.getTime() + EFFECTIVENESS_REVIEW_LEAD_DAYS * 24 * 60 * 60 * 1000
+  );
+
+  const result: CAPEffectivenessCheckResult = {
+    scheduled: 0,
+    checked: 0,
+    opened: 0,
+    notificationsSent: 0,
+    errors: [],
+  };
+
+  console.log("[CAP Effectiveness Checker] Starting check...");
+
+  try {
+    // 1. Catch up on closed CAPs without a pending review
+    result.scheduled = await scheduleMissingEffectivenessReviews();
+
+    // 2. Find scheduled reviews due within the lead time
+    const dueReviews = await prisma.cAPEffectivenessReview.findMany({
+      where: {
+        status: "SCHEDULED",
+        scheduledFor: { lte: openBefore },
+      },
+      include: {
+        cap: {
+          select: {
+            id: true,
+            finding: {
+              select: { referenceNumber: true, reviewId: true },
+            },
+          },
+        },
+      },
+    });
+
+    result.checked = dueReviews.length;
+
+    // 3. Open each review and notify
+    for (const review of dueReviews) {
+      const { finding } = review.cap;
+
+      try {
+        await prisma.cAPEffectivenessReview.update({
+          where: { id: review.id },
+          data: { status: "OPEN", openedAt: now },
+        });
+        result.opened++;
+
+        const [hostRecipients, teamRecipients] = await Promise.all([
+          getHostOrganizationRecipients(finding.reviewId),
+          getReviewTeamRecipients(finding.reviewId),
+        ]);
+        const recipients = [...hostRecipients, ...teamRecipients];
+
+        if (recipients.length > 0) {
+          const dueDate = review.scheduledFor.toISOString().split("T")[0];
+          await sendNotification(recipients, {
+            type: NotificationType.CAP_EFFECTIVENESS_REVIEW_DUE,
+            titleEn: "CAP Effectiveness Review Due",
+            titleFr: "Revue d'efficacité du PAC à effectuer",
+            messageEn: `The effectiveness review of the Corrective Action Plan for finding ${finding.referenceNumber} is due on ${dueDate}. Please upload evidence that the corrective actions remain effective.`,
+            messageFr: `La revue d'efficacité du Plan d'Actions Correctives pour la constatation ${finding.referenceNumber} est prévue le ${dueDate}. Veuillez téléverser les preuves que les actions correctives restent efficaces.`,
+            entityType: "CAP",
+            entityId: review.cap.id,
+            actionUrl: `/caps/${review.cap.id}`,
+            actionLabelEn: "View CAP",
+            actionLabelFr: "Voir le PAC",
+            priority: NotificationPriority.NORMAL,
+          });
+          result.notificationsSent++;
+        }
+
+        console.log(`  [Opened] ${finding.referenceNumber} - cycle ${review.cycle}`);
+      } catch (error) {
+        const message =
+          error instanceof Error ? error.message : "Unknown error";
+        result.errors.push(`Effectiveness review ${finding.referenceNumber}: ${message}`);
+        console.error(
+          `  [Error] Failed to open effectiveness review for ${finding.referenceNumber}:`,
+          error
+        );
+      }
+    }
+
+    console.log("[CAP Effectiveness Checker] Complete:", result);
+    return result;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unknown error";
+    result.errors.push(`Job failed: ${message}`);
+    console.error("[CAP Effectiveness Checker] Job failed:", error);
+    return result;
+  }
+}
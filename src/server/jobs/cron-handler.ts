@@ -0,0 +1,59 @@
+/**
+ * Cron Endpoint Handler
+ *
+ * Shared request handling for /api/cron/* endpoints: checks the optional
+ * CRON_SECRET bearer token and runs the job through the scheduler, so
+ * runs triggered by an external scheduler are locked and recorded like
+ * scheduled ones.
+ */
+
+import { NextResponse } from "next/server";
+import { runJob } from "./scheduler";
+
+/**
+ * Whether the request carries the CRON_SECRET bearer token (or no secret
+ * is configured)
+ */
+export function isAuthorizedCronRequest(request: Request): boolean {
+  const cronSecret = process.env.CRON_SECRET;
+  if (!cronSecret) return true;
+  return request.headers.get("authorization") === `Bearer ${cronSecret}`;
+}
+
+/**
+ * Build a GET handler that runs a registered job
+ */
+export function createCronJobHandler(jobKey: string) {
+  return async function GET(request: Request) {
+    if (!isAuthorizedCronRequest(request)) {
+      console.warn(`[Cron] Unauthorized request attempt for ${jobKey}`);
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    try {
+      const outcome = await runJob(jobKey, { trigger: "EXTERNAL" });
+
+      // A run that completed with errors is reported as a conflict
+      return NextResponse.json(
+        {
+          success: outcome.status !== "FAILED",
+          timestamp: new Date().toISOString(),
+          job: jobKey,
+          ...outcome,
+        },
+        { status: outcome.status === "FAILED" ? 409 : 200 }
+      );
+    } catch (error) {
+      console.error(`[Cron] Failed to run ${jobKey}:`, error);
+
+      return NextResponse.json(
+        {
+          success: false,
+          error: `Failed to run ${jobKey}`,
+          message: error instanceof Error ? error.message : "Unknown error",
+        },
+        { status: 500 }
+      );
+    }
+  };
+}
@@ -1,27 +1,81 @@
 import { db } from "@/lib/db";
+import type { Notification, NotificationPriority } from "@prisma/client";
+import { sendNotificationDigestEmail } from "@/server/email";
+import type {
+  DigestNotificationItem,
+  DigestReviewGroup,
+} from "@/server/email/templates";
+import { resolveTimezone } from "@/server/services/notification/digest-schedule";
+
+/** Digests handled per run */
+const DIGEST_BATCH_SIZE = 100;
+
+/** Give up on a digest after this many failed sends */
+export const MAX_DIGEST_ATTEMPTS = 5;
+
+/** A claimed digest is skipped by other runs for this long */
+const DIGEST_LOCK_MS = 10 * 60 * 1000;
+
+/** Notifications listed in one email; the total is still reported */
+const MAX_DIGEST_ITEMS = 50;
+
+const PRIORITY_RANK: Record<NotificationPriority, number> = {
+  URGENT: 0,
+  HIGH: 1,
+  NORMAL: 2,
+  LOW: 3,
+};
 
 export interface DigestProcessingResult {
+  /** Digests due in this run */
+  due: number;
   sent: number;
   errors: number;
   skipped: number;
+  /** Digests claimed by a concurrent run */
+  locked: number;
+  /** Digests that reached MAX_DIGEST_ATTEMPTS in this run */
+  abandoned: number;
+  notificationsEmailed: number;
+  durationMs: number;
+}
+
+interface DigestReview {
+  id: string;
+  referenceNumber: string;
+  organizationNameEn: string;
+  organizationNameFr: string;
 }
 
 /**
  * Process pending notification digests
- * Should be called periodically (e.g., hourly)
+ * Should be called periodically (hourly, so each timezone's delivery hour is hit)
  */
-export async function processNotificationDigests(): Promise<DigestProcessingResult> {
-  const now = new Date();
-  let sent = 0;
-  let errors = 0;
-  let skipped = 0;
+export async function processNotificationDigests(
+  now: Date = new Date()
+): Promise<DigestProcessingResult> {
+  const startedAt = Date.now();
+  const result: DigestProcessingResult = {
+    due: 0,
+    sent: 0,
+    errors: 0,
+    skipped: 0,
+    locked: 0,
+    abandoned: 0,
+    notificationsEmailed: 0,
+    durationMs: 0,
+  };
 
-  // Find all pending digests that are due
+  // Find all pending digests that are due and not claimed by another run
   const pendingDigests = await db.notificationDigest.findMany({
     where: {
       scheduledFor: { lte: now },
       sentAt: null,
+      attempts: { lt: MAX_DIGEST_ATTEMPTS },
+      OR: [{ lockedUntil: null }, { lockedUntil: { lt: now } }],
     },
+    orderBy: { scheduledFor: "asc" },
+    take: DIGEST_BATCH_SIZE,
     include: {
       user: {
         select: {
@@ -30,114 +84,303 @@ export async function processNotificationDigests(): Promise<DigestProcessingResu
           locale: true,
           firstName: true,
           lastName: true,
+          timezone: true,
+          isActive: true,
+          preferences: { select: { emailNotifications: true } },
+          notificationPreference: { select: { emailEnabled: true, timezone: true } },
         },
       },
     },
   });
+  result.due = pendingDigests.length;
 
   console.log(
     `[NotificationJobs] Processing ${pendingDigests.length} pending digests`
   );
 
   for (const digest of pendingDigests) {
+    // Claim the digest so overlapping runs do not send it twice
+    const claim = await db.notificationDigest.updateMany({
+      where: {
+        id: digest.id,
+        sentAt: null,
+        OR: [{ lockedUntil: null }, { lockedUntil: { lt: now } }],
+      },
+      data: { lockedUntil: new Date(Date.now() + DIGEST_LOCK_MS) },
+    });
+    if (claim.count === 0) {
+      result.locked++;
+      continue;
+    }
+
     try {
-      // Get the notifications in this digest
+      const { user } = digest;
+
+      // Notifications already emailed individually are left out
       const notifications = await db.notification.findMany({
-        where: { id: { in: digest.notificationIds } },
+        where: { id: { in: digest.notificationIds }, emailSentAt: null },
         orderBy: { createdAt: "desc" },
       });
 
-      if (notifications.length === 0) {
-        // No notifications, just mark as sent
+      const emailEnabled =
+        user.isActive &&
+        (user.preferences?.emailNotifications ?? true) &&
+        (user.notificationPreference?.emailEnabled ?? true);
+
+      if (notifications.length === 0 || !emailEnabled) {
+        // Nothing to send, just close the digest
         await db.notificationDigest.update({
           where: { id: digest.id },
-          data: { sentAt: now },
+          data: { sentAt: now, lockedUntil: null },
         });
-        skipped++;
+        result.skipped++;
         continue;
       }
 
-      // Group notifications by type for summary
-      const byType = notifications.reduce(
-        (acc, n) => {
-          acc[n.type] = (acc[n.type] || 0) + 1;
-          return acc;
+      const locale = user.locale === "FR" ? "fr" : "en";
+      const preferredZone = user.notificationPreference?.timezone;
+      const timezone = resolveTimezone(
+        preferredZone && preferredZone !== "UTC" ? preferredZone : user.timezone
+      );
+      const reviews = await resolveNotificationReviews(notifications);
+      const groups = groupDigestNotifications(notifications, reviews, {
+        locale,
+        timezone,
+        baseUrl: process.env.NEXT_PUBLIC_APP_URL || "https://aaprp.aero",
+      });
+
+      const email = await sendNotificationDigestEmail(
+        user.email,
+        {
+          recipientName:
+            [user.firstName, user.lastName].filter(Boolean).join(" ") ||
+            user.email,
+          frequency: digest.frequency === "WEEKLY" ? "WEEKLY" : "DAILY",
+          totalCount: notifications.length,
+          groups,
+          locale,
         },
-        {} as Record<string, number>
+        { idempotencyKey: `notification-digest/${digest.id}` }
       );
 
-      // Determine language
-      const isFrench = digest.user.locale === "FR";
-
-      // Build digest content
-      const subject = isFrench
-        ? `Résumé de vos notifications (${notifications.length})`
-        : `Your Notification Summary (${notifications.length})`;
-
-      const greeting = isFrench
-        ? `Bonjour ${digest.user.firstName || ""},`
-        : `Hello ${digest.user.firstName || ""},`;
-
-      const intro = isFrench
-        ? `Voici un résumé de vos ${notifications.length} notification(s) depuis votre dernier résumé:`
-        : `Here's a summary of your ${notifications.length} notification(s) since your last digest:`;
-
-      // Build type summary
-      const typeSummary = Object.entries(byType)
-        .map(([type, count]) => `  - ${formatNotificationType(type, isFrench)}: ${count}`)
-        .join("\n");
-
-      // Build notification list (limited to top 10)
-      const notificationList = notifications
-        .slice(0, 10)
-        .map((n) => {
-          const title = isFrench ? n.titleFr : n.titleEn;
-          const message = isFrench ? n.messageFr : n.messageEn;
-          return `• ${title}\n  ${message.substring(0, 100)}${message.length > 100 ? "..." : ""}`;
-        })
-        .join("\n\n");
-
-      const moreText =
-        notifications.length > 10
-          ? isFrench
-            ? `\n\n... et ${notifications.length - 10} autre(s) notification(s)`
-            : `\n\n... and ${notifications.length - 10} more notification(s)`
-          : "";
-
-      // TODO: Send actual email via Resend or other service
-      console.log(`[Digest Email] To: ${digest.user.email}`);
-      console.log(`Subject: ${subject}`);
-      console.log(`---`);
-      console.log(greeting);
-      console.log(intro);
-      console.log(`\nSummary by type:\n${typeSummary}`);
-      console.log(`\nRecent notifications:\n${notificationList}${moreText}`);
-      console.log(`---\n`);
-
-      // Mark digest as sent
-      await db.notificationDigest.update({
-        where: { id: digest.id },
-        data: { sentAt: now },
-      });
+      if (!email.success) {
+        throw new Error(email.error || "Email delivery failed");
+      }
 
-      // Update notifications to mark them as emailed
-      await db.notification.updateMany({
-        where: { id: { in: digest.notificationIds } },
-        data: { emailSentAt: now },
-      });
+      // Only mark notifications as emailed once the send succeeded
+      const sentAt = new Date();
+      await db.$transaction([
+        db.notificationDigest.update({
+          where: { id: digest.id },
+          data: {
+            sentAt,
+            messageId: email.messageId ?? null,
+            lastError: null,
+            lockedUntil: null,
+          },
+        }),
+        db.notification.updateMany({
+          where: { id: { in: notifications.map((n) => n.id) } },
+          data: { emailSentAt: sentAt },
+        }),
+      ]);
 
-      sent++;
+      result.sent++;
+      result.notificationsEmailed += notifications.length;
     } catch (error) {
-      console.error(`[NotificationJobs] Failed to process digest ${digest.id}:`, error);
-      errors++;
+      const message = error instanceof Error ? error.message : String(error);
+      console.error(
+        `[NotificationJobs] Failed to process digest ${digest.id}:`,
+        message
+      );
+
+      // Release the claim so the next run retries
+      await db.notificationDigest
+        .update({
+          where: { id: digest.id },
+          data: {
+            attempts: { increment: 1 },
+            lastError: message.slice(0, 1000),
+            lockedUntil: null,
+          },
+        })
+        .catch(() => {});
+
+      result.errors++;
+      if (digest.attempts + 1 >= MAX_DIGEST_ATTEMPTS) {
+        result.abandoned++;
+      }
     }
   }
 
+  result.durationMs = Date.now() - startedAt;
+
   console.log(
-    `[NotificationJobs] Completed: ${sent} sent, ${skipped} skipped, ${errors} errors`
+    `[NotificationJobs] Completed: ${result.sent} sent, ${result.skipped} skipped, ${result.errors} errors, ${result.locked} locked (${result.durationMs}ms)`
   );
 
-  return { sent, errors, skipped };
+  return result;
+}
+
+/**
+ * Find the review each notification relates to, directly or through its
+ * finding or CAP
+ */
+async function resolveNotificationReviews(
+  notifications: Notification[]
+): Promise<Map<string, DigestReview>> {
+  const reviewIdByNotification = new Map<string, string>();
+  const findingIds = new Set<string>();
+  const capIds = new Set<string>();
+
+  for (const n of notifications) {
+    const data = n.data as Record<string, unknown> | null;
+    if (typeof data?.reviewId === "string") {
+      reviewIdByNotification.set(n.id, data.reviewId);
+      continue;
+    }
+    if (!n.entityId) continue;
+
+    const entityType = n.entityType?.toLowerCase();
+    if (entityType === "review") {
+      reviewIdByNotification.set(n.id, n.entityId);
+    } else if (entityType === "finding") {
+      findingIds.add(n.entityId);
+    } else if (entityType === "cap" || entityType === "correctiveactionplan") {
+      capIds.add(n.entityId);
+    }
+  }
+
+  const [findings, caps] = await Promise.all([
+    findingIds.size
+      ? db.finding.findMany({
+          where: { id: { in: [...findingIds] } },
+          select: { id: true, reviewId: true },
+        })
+      : [],
+    capIds.size
+      ? db.correctiveActionPlan.findMany({
+          where: { id: { in: [...capIds] } },
+          select: { id: true, finding: { select: { reviewId: true } } },
+        })
+      : [],
+  ]);
+  const findingReview = new Map(findings.map((f) => [f.id, f.reviewId]));
+  const capReview = new Map(caps.map((c) => [c.id, c.finding.reviewId]));
+
+  for (const n of notifications) {
+    if (reviewIdByNotification.has(n.id) || !n.entityId) continue;
+    const reviewId = findingReview.get(n.entityId) ?? capReview.get(n.entityId);
+    if (reviewId) reviewIdByNotification.set(n.id, reviewId);
+  }
+
+  const reviewIds = [...new Set(reviewIdByNotification.values())];
+  const reviews = reviewIds.length
+    ? await db.review.findMany({
+        where: { id: { in: reviewIds } },
+        select: {
+          id: true,
+          referenceNumber: true,
+          hostOrganization: { select: { nameEn: true, nameFr: true } },
+        },
+      })
+    : [];
+  const reviewById = new Map(reviews.map((r) => [r.id, r]));
+
+  const byNotification = new Map<string, DigestReview>();
+  for (const [notificationId, reviewId] of reviewIdByNotification) {
+    const review = reviewById.get(reviewId);
+    if (!review) continue;
+    byNotification.set(notificationId, {
+      id: review.id,
+      referenceNumber: review.referenceNumber,
+      organizationNameEn: review.hostOrganization.nameEn,
+      organizationNameFr: review.hostOrganization.nameFr,
+    });
+  }
+  return byNotification;
+}
+
+/**
+ * Group digest notifications by review, most urgent groups and items first.
+ * Notifications without a review form a trailing general group.
+ */
+export function groupDigestNotifications(
+  notifications: Pick<
+    Notification,
+    | "id"
+    | "titleEn"
+    | "titleFr"
+    | "messageEn"
+    | "messageFr"
+    | "priority"
+    | "actionUrl"
+    | "createdAt"
+  >[],
+  reviews: Map<string, DigestReview>,
+  options: { locale: "en" | "fr"; timezone: string; baseUrl: string }
+): DigestReviewGroup[] {
+  const { locale, timezone, baseUrl } = options;
+  const dateFormat = new Intl.DateTimeFormat(
+    locale === "fr" ? "fr-FR" : "en-GB",
+    { dateStyle: "medium", timeStyle: "short", timeZone: timezone }
+  );
+  const absolute = (url: string | null) =>
+    url ? (url.startsWith("/") ? `${baseUrl}${url}` : url) : undefined;
+
+  const sorted = [...notifications]
+    .sort(
+      (a, b) =>
+        PRIORITY_RANK[a.priority] - PRIORITY_RANK[b.priority] ||
+        b.createdAt.getTime() - a.createdAt.getTime()
+    )
+    .slice(0, MAX_DIGEST_ITEMS);
+
+  const groups = new Map<string, DigestReviewGroup & { rank: number }>();
+
+  for (const n of sorted) {
+    const review = reviews.get(n.id);
+    const key = review?.id ?? "";
+
+    let group = groups.get(key);
+    if (!group) {
+      group = {
+        reviewReference: review?.referenceNumber ?? null,
+        organizationName: review
+          ? locale === "fr"
+            ? review.organizationNameFr
+            : review.organizationNameEn
+          : undefined,
+        reviewUrl: review ? `${baseUrl}/reviews/${review.id}` : undefined,
+        items: [],
+        // Items arrive most urgent first, so the first one sets the rank
+        rank: PRIORITY_RANK[n.priority],
+      };
+      groups.set(key, group);
+    }
+
+    const message = locale === "fr" ? n.messageFr : n.messageEn;
+    const item: DigestNotificationItem = {
+      title: locale === "fr" ? n.titleFr : n.titleEn,
+      message: message.length > 200 ? `${message.substring(0, 200)}...` : message,
+      priority: n.priority,
+      url: absolute(n.actionUrl),
+      date: dateFormat.format(n.createdAt),
+    };
+    group.items.push(item);
+  }
+
+  return [...groups.values()]
+    .sort((a, b) => {
+      if (!a.reviewReference !== !b.reviewReference) {
+        return a.reviewReference ? -1 : 1;
+      }
+      return (
+        a.rank - b.rank ||
+        (a.reviewReference ?? "").localeCompare(b.reviewReference ?? "")
+      );
+    })
+    .map(({ rank: _rank, ...group }) => group);
 }
 
 /**
@@ -157,58 +400,12 @@ export async function cleanupOldDigests(daysOld: number = 30): Promise<number> {
   return result.count;
 }
 
-/**
- * Format notification type for display
- */
-function formatNotificationType(type: string, isFrench: boolean): string {
-  const typeLabels: Record<string, { en: string; fr: string }> = {
-    REVIEW_ASSIGNED: { en: "Review Assigned", fr: "Évaluation assigné" },
-    REVIEW_STATUS_CHANGE: {
-      en: "Review Status Change",
-      fr: "Changement de statut d'évaluation",
-    },
-    FINDING_CREATED: { en: "Finding Created", fr: "Constatation créée" },
-    FINDING_STATUS_CHANGE: {
-      en: "Finding Status Change",
-      fr: "Changement de statut de constatation",
-    },
-    CAP_ASSIGNED: { en: "CAP Assigned", fr: "PAC assigné" },
-    CAP_STATUS_CHANGE: {
-      en: "CAP Status Change",
-      fr: "Changement de statut de PAC",
-    },
-    CAP_OVERDUE: { en: "CAP Overdue", fr: "PAC en retard" },
-    CAP_DEADLINE_APPROACHING: {
-      en: "CAP Deadline Approaching",
-      fr: "Échéance PAC approchante",
-    },
-    COMMENT_ADDED: { en: "Comment Added", fr: "Commentaire ajouté" },
-    DOCUMENT_UPLOADED: { en: "Document Uploaded", fr: "Document téléchargé" },
-    TEAM_INVITATION: { en: "Team Invitation", fr: "Invitation d'équipe" },
-    SYSTEM_ANNOUNCEMENT: {
-      en: "System Announcement",
-      fr: "Annonce système",
-    },
-    REMINDER: { en: "Reminder", fr: "Rappel" },
-  };
-
-  const label = typeLabels[type];
-  if (label) {
-    return isFrench ? label.fr : label.en;
-  }
-
-  // Fallback: format the enum value
-  return type
-    .split("_")
-    .map((word) => word.charAt(0) + word.slice(1).toLowerCase())
-    .join(" ");
-}
-
 /**
  * Get digest statistics
  */
 export async function getDigestStats(): Promise<{
   pending: number;
+  failed: number;
   sentToday: number;
   sentThisWeek: number;
 }> {
@@ -218,9 +415,16 @@ export async function getDigestStats(): Promise<{
   const weekStart = new Date(now);
   weekStart.setDate(weekStart.getDate() - 7);
 
-  const [pending, sentToday, sentThisWeek] = await Promise.all([
+  const [pending, failed, sentToday, sentThisWeek] = await Promise.all([
+    db.notificationDigest.count({
+      where: {
+        sentAt: null,
+        scheduledFor: { lte: now },
+        attempts: { lt: MAX_DIGEST_ATTEMPTS },
+      },
+    }),
     db.notificationDigest.count({
-      where: { sentAt: null, scheduledFor: { lte: now } },
+      where: { sentAt: null, attempts: { gte: MAX_DIGEST_ATTEMPTS } },
     }),
     db.notificationDigest.count({
       where: { sentAt: { gte: todayStart } },
@@ -230,5 +434,5 @@ export async function getDigestStats(): Promise<{
     }),
   ]);
 
-  return { pending, sentToday, sentThisWeek };
+  return { pending, failed, sentToday, sentThisWeek };
 }
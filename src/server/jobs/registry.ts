@@ -0,0 +1,188 @@
+/**
+ * Background Job Registry
+ *
+ * Every background job the platform runs, with its cron schedule (UTC).
+ * The scheduler (scheduler.ts) runs due jobs on each tick of
+ * /api/cron/scheduler, so adding a job here is all it takes to schedule it.
+ *
+ * A job returns the number of items it processed and the errors it hit;
+ * a run with errors is recorded as failed.
+ */
+
+import { checkCAPDeadlines } from "./cap-deadline-checker";
+import { checkCAPEffectivenessReviews } from "./cap-effectiveness-checker";
+import { cleanupOldDigests, processNotificationDigests } from "./notification-jobs";
+import { processWorkflowJobs } from "./workflow-jobs";
+import { processPendingNotificationEmails } from "@/lib/email/notification-service";
+import { createAuditCheckpoint } from "@/server/services/audit";
+import { documentSharingService } from "@/server/services/document/sharing-service";
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface JobOutcome {
+  itemsProcessed: number;
+  errors: string[];
+  /** Job-specific figures kept with the run */
+  result?: Record<string, unknown>;
+}
+
+export interface JobDefinition {
+  key: string;
+  nameEn: string;
+  nameFr: string;
+  descriptionEn: string;
+  descriptionFr: string;
+  /** Five-field cron expression, UTC */
+  schedule: string;
+  /** Lock lifetime; a crashed run frees the job after this */
+  maxDurationSeconds: number;
+  /** How long after a scheduled time a missing success raises an alert */
+  alertGraceMinutes: number;
+  run: () => Promise<JobOutcome>;
+}
+
+// =============================================================================
+// JOBS
+// =============================================================================
+
+export const JOBS: JobDefinition[] = [
+  {
+    key: "workflow-sla",
+    nameEn: "Workflow SLAs and escalations",
+    nameFr: "SLA et escalades des workflows",
+    descriptionEn:
+      "Records SLA breaches, applies escalation rules and warns assignees of approaching deadlines.",
+    descriptionFr:
+      "Enregistre les dépassements de SLA, applique les règles d'escalade et avertit les responsables des échéances proches.",
+    schedule: "0 * * * *",
+    maxDurationSeconds: 300,
+    alertGraceMinutes: 30,
+    run: async () => {
+      const result = await processWorkflowJobs();
+      return {
+        itemsProcessed: result.breaches + result.escalations + result.warnings,
+        errors: result.errors,
+        result: { breaches: result.breaches, escalations: result.escalations, warnings: result.warnings },
+      };
+    },
+  },
+  {
+    key: "cap-deadlines",
+    nameEn: "CAP deadlines",
+    nameFr: "Échéances des PAC",
+    descriptionEn: "Notifies organizations of CAPs approaching their due date or overdue.",
+    descriptionFr: "Informe les organisations des PAC proches de leur échéance ou en retard.",
+    schedule: "0 8 * * *",
+    maxDurationSeconds: 300,
+    alertGraceMinutes: 60,
+    run: async () => {
+      const { errors, ...result } = await checkCAPDeadlines();
+      return { itemsProcessed: result.notificationsSent, errors, result };
+    },
+  },
+  {
+    key: "cap-effectiveness",
+    nameEn: "CAP effectiveness reviews",
+    nameFr: "Revues d'efficacité des PAC",
+    descriptionEn: "Opens the effectiveness reviews of closed CAPs as they fall due.",
+    descriptionFr: "Ouvre les revues d'efficacité des PAC clôturés à leur échéance.",
+    schedule: "0 7 * * *",
+    maxDurationSeconds: 300,
+    alertGraceMinutes: 60,
+    run: async () => {
+      const { errors, ...result } = await checkCAPEffectivenessReviews();
+      return { itemsProcessed: result.opened, errors, result };
+    },
+  },
+  {
+    key: "process-emails",
+    nameEn: "Notification emails",
+    nameFr: "E-mails de notification",
+    descriptionEn: "Sends pending notification emails.",
+    descriptionFr: "Envoie les e-mails de notification en attente.",
+    schedule: "*/5 * * * *",
+    maxDurationSeconds: 120,
+    alertGraceMinutes: 30,
+    run: async () => {
+      const sent = await processPendingNotificationEmails(100);
+      return { itemsProcessed: sent, errors: [] };
+    },
+  },
+  {
+    key: "notification-digests",
+    nameEn: "Notification digests",
+    nameFr: "Résumés de notifications",
+    descriptionEn: "Emails the daily and weekly notification digests that are due.",
+    descriptionFr: "Envoie par e-mail les résumés quotidiens et hebdomadaires dus.",
+    schedule: "0 * * * *",
+    maxDurationSeconds: 300,
+    alertGraceMinutes: 30,
+    run: async () => {
+      const result = await processNotificationDigests();
+      return {
+        itemsProcessed: result.sent,
+        errors: result.errors > 0 ? [`${result.errors} digest(s) failed to send`] : [],
+        result: { ...result },
+      };
+    },
+  },
+  {
+    key: "audit-checkpoint",
+    nameEn: "Audit log checkpoint",
+    nameFr: "Point de contrôle du journal d'audit",
+    descriptionEn: "Verifies the audit log hash chain and signs a checkpoint over its head.",
+    descriptionFr:
+      "Vérifie la chaîne de hachage du journal d'audit et signe un point de contrôle.",
+    schedule: "0 2 * * *",
+    maxDurationSeconds: 600,
+    alertGraceMinutes: 120,
+    run: async () => {
+      const { checkpoint, verification } = await createAuditCheckpoint();
+      return {
+        itemsProcessed: verification.checkedEntries,
+        errors: verification.isValid
+          ? []
+          : [`Audit chain broken at sequence ${verification.break?.sequence ?? "unknown"}`],
+        result: {
+          headSequence: verification.headSequence,
+          checkpointSequence: checkpoint?.sequence ?? null,
+          checkpointIssues: verification.checkpoints.issues.length,
+        },
+      };
+    },
+  },
+  {
+    key: "document-token-cleanup",
+    nameEn: "Expired document links",
+    nameFr: "Liens de documents expirés",
+    descriptionEn: "Deletes expired document sharing tokens.",
+    descriptionFr: "Supprime les jetons de partage de documents expirés.",
+    schedule: "30 3 * * *",
+    maxDurationSeconds: 120,
+    alertGraceMinutes: 120,
+    run: async () => {
+      const deleted = await documentSharingService.cleanupExpiredTokens();
+      return { itemsProcessed: deleted, errors: [] };
+    },
+  },
+  {
+    key: "digest-cleanup",
+    nameEn: "Sent digest cleanup",
+    nameFr: "Nettoyage des résumés envoyés",
+    descriptionEn: "Deletes notification digests sent more than 30 days ago.",
+    descriptionFr: "Supprime les résumés de notifications envoyés il y a plus de 30 jours.",
+    schedule: "0 4 * * 0",
+    maxDurationSeconds: 120,
+    alertGraceMinutes: 240,
+    run: async () => {
+      const deleted = await cleanupOldDigests(30);
+      return { itemsProcessed: deleted, errors: [] };
+    },
+  },
+];
+
+export function getJobDefinition(key: string): JobDefinition | undefined {
+  return JOBS.find((job) => job.key === key);
+}
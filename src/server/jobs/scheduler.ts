@@ -0,0 +1,338 @@
+/**
+ * Background Job Scheduler
+ *
+ * Runs the jobs in registry.ts. A single cron tick (/api/cron/scheduler,
+ * every five minutes) runs each enabled job whose latest schedule
+ * occurrence has not been run yet, then raises alerts for jobs that have
+ * not succeeded within their window.
+ *
+ * Several instances may tick at once. Each occurrence is claimed with a
+ * conditional update on `lastScheduledFor`, and each run holds a lock on
+ * the job row (`lockedBy`/`lockedUntil`), so a job never runs twice
+ * concurrently and escalations are not sent twice. An occurrence that
+ * finds the job locked is released and retried on the next tick. Every run is recorded
+ * in ScheduledJobRun with its duration, items processed and errors.
+ */
+
+import { hostname } from "os";
+import { randomUUID } from "crypto";
+import { prisma } from "@/lib/db";
+import { Prisma, NotificationType, NotificationPriority, type JobRunTrigger } from "@prisma/client";
+import { dueOccurrence, expectedSuccessSince, isJobOverdue } from "@/lib/jobs/cron";
+import { JOBS, getJobDefinition, type JobDefinition } from "./registry";
+import { sendNotification, getRecipientsByRole } from "@/server/services/notification-service";
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export type JobRunOutcome =
+  | { status: "SUCCEEDED" | "FAILED"; runId: string; itemsProcessed: number; errors: string[]; durationMs: number }
+  /** Another run holds the lock */
+  | { status: "LOCKED" }
+  /** Scheduled run of a disabled job */
+  | { status: "DISABLED" };
+
+export interface RunJobOptions {
+  trigger: JobRunTrigger;
+  triggeredById?: string;
+  scheduledFor?: Date;
+}
+
+export interface SchedulerTickResult {
+  ran: Array<{ key: string; status: JobRunOutcome["status"] }>;
+  alerts: string[];
+}
+
+const INSTANCE_ID = `${hostname()}:${process.pid}`;
+
+// =============================================================================
+// JOB STATE
+// =============================================================================
+
+/**
+ * Create the scheduler rows for registered jobs. A new job starts with its
+ * latest occurrence marked as scheduled, so it first runs at its next one.
+ */
+async function ensureJobRows(jobs: JobDefinition[], now: Date) {
+  const existing = await prisma.scheduledJob.findMany({
+    where: { key: { in: jobs.map((j) => j.key) } },
+  });
+  const known = new Set(existing.map((j) => j.key));
+
+  const missing = jobs.filter((j) => !known.has(j.key));
+  if (missing.length > 0) {
+    await prisma.scheduledJob.createMany({
+      data: missing.map((job) => ({
+        key: job.key,
+        lastScheduledFor: dueOccurrence(job.schedule, null, now),
+      })),
+      skipDuplicates: true,
+    });
+  }
+}
+
+async function acquireLock(key: string, token: string, maxDurationSeconds: number): Promise<boolean> {
+  const now = new Date();
+  const { count } = await prisma.scheduledJob.updateMany({
+    where: {
+      key,
+      OR: [{ lockedUntil: null }, { lockedUntil: { lt: now } }],
+    },
+    data: {
+      lockedBy: token,
+      lockedUntil: new Date(now.getTime() + maxDurationSeconds * 1000),
+    },
+  });
+  return count === 1;
+}
+
+async function releaseLock(key: string, token: string) {
+  await prisma.scheduledJob.updateMany({
+    where: { key, lockedBy: token },
+    data: { lockedBy: null, lockedUntil: null },
+  });
+}
+
+// =============================================================================
+// RUNNING
+// =============================================================================
+
+/**
+ * Run a job now, holding its lock and recording the run.
+ */
+export async function runJob(key: string, options: RunJobOptions): Promise<JobRunOutcome> {
+  const job = getJobDefinition(key);
+  if (!job) {
+    throw new Error(`Unknown job: ${key}`);
+  }
+
+  await ensureJobRows([job], new Date());
+
+  if (options.trigger === "SCHEDULE") {
+    const state = await prisma.scheduledJob.findUnique({
+      where: { key },
+      select: { isEnabled: true },
+    });
+    if (!state?.isEnabled) return { status: "DISABLED" };
+  }
+
+  const token = randomUUID();
+  if (!(await acquireLock(key, token, job.maxDurationSeconds))) {
+    console.log(`[Scheduler] ${key} is already running, skipping`);
+    return { status: "LOCKED" };
+  }
+
+  const run = await prisma.scheduledJobRun.create({
+    data: {
+      jobKey: key,
+      trigger: options.trigger,
+      scheduledFor: options.scheduledFor,
+      triggeredById: options.triggeredById,
+      instanceId: INSTANCE_ID,
+    },
+  });
+  const startedAt = Date.now();
+
+  let itemsProcessed = 0;
+  let errors: string[];
+  let result: Record<string, unknown> | undefined;
+
+  try {
+    const outcome = await job.run();
+    itemsProcessed = outcome.itemsProcessed;
+    errors = outcome.errors;
+    result = outcome.result;
+  } catch (error) {
+    errors = [`Job failed: ${error instanceof Error ? error.message : "Unknown error"}`];
+    console.error(`[Scheduler] ${key} failed:`, error);
+  }
+
+  const durationMs = Date.now() - startedAt;
+  const status = errors.length > 0 ? "FAILED" : "SUCCEEDED";
+
+  try {
+    await prisma.scheduledJobRun.update({
+      where: { id: run.id },
+      data: {
+        status,
+        finishedAt: new Date(),
+        durationMs,
+        itemsProcessed,
+        errors,
+        result: result === undefined ? Prisma.DbNull : (result as Prisma.InputJsonValue),
+      },
+    });
+  } finally {
+    await releaseLock(key, token);
+  }
+
+  console.log(`[Scheduler] ${key} ${status} in ${durationMs}ms (${itemsProcessed} items)`);
+  return { status, runId: run.id, itemsProcessed, errors, durationMs };
+}
+
+/**
+ * Scheduler tick: run every enabled job whose latest occurrence has not
+ * been claimed yet, then check job health.
+ */
+export async function runDueJobs(now: Date = new Date()): Promise<SchedulerTickResult> {
+  await ensureJobRows(JOBS, now);
+
+  const states = await prisma.scheduledJob.findMany({
+    where: { key: { in: JOBS.map((j) => j.key) } },
+  });
+  const stateByKey = new Map(states.map((s) => [s.key, s]));
+
+  const ran: SchedulerTickResult["ran"] = [];
+
+  for (const job of JOBS) {
+    const state = stateByKey.get(job.key);
+    if (!state?.isEnabled) continue;
+
+    const occurrence = dueOccurrence(job.schedule, state.lastScheduledFor, now);
+    if (!occurrence) continue;
+
+    // Claim the occurrence; a concurrent tick that claimed it first wins
+    const { count } = await prisma.scheduledJob.updateMany({
+      where: {
+        key: job.key,
+        OR: [{ lastScheduledFor: null }, { lastScheduledFor: { lt: occurrence } }],
+      },
+      data: { lastScheduledFor: occurrence },
+    });
+    if (count === 0) continue;
+
+    const outcome = await runJob(job.key, { trigger: "SCHEDULE", scheduledFor: occurrence });
+
+    // Another run still holds the lock: hand the occurrence back so the
+    // next tick runs it once the lock is released
+    if (outcome.status === "LOCKED") {
+      await prisma.scheduledJob.updateMany({
+        where: { key: job.key, lastScheduledFor: occurrence },
+        data: { lastScheduledFor: state.lastScheduledFor },
+      });
+    }
+
+    ran.push({ key: job.key, status: outcome.status });
+  }
+
+  const alerts = await alertOverdueJobs(now);
+  return { ran, alerts };
+}
+
+// =============================================================================
+// HEALTH
+// =============================================================================
+
+/**
+ * Scheduler state, last run and health of every registered job.
+ */
+export async function getJobStatuses(now: Date = new Date()) {
+  await ensureJobRows(JOBS, now);
+
+  const [states, lastRuns, lastSuccesses] = await Promise.all([
+    prisma.scheduledJob.findMany({ where: { key: { in: JOBS.map((j) => j.key) } } }),
+    prisma.scheduledJobRun.findMany({
+      where: { jobKey: { in: JOBS.map((j) => j.key) } },
+      orderBy: { startedAt: "desc" },
+      distinct: ["jobKey"],
+    }),
+    prisma.scheduledJobRun.groupBy({
+      by: ["jobKey"],
+      where: { status: "SUCCEEDED" },
+      _max: { startedAt: true },
+    }),
+  ]);
+
+  const stateByKey = new Map(states.map((s) => [s.key, s]));
+  const lastRunByKey = new Map(lastRuns.map((r) => [r.jobKey, r]));
+  const lastSuccessByKey = new Map(lastSuccesses.map((r) => [r.jobKey, r._max.startedAt]));
+
+  return JOBS.map((job) => {
+    const state = stateByKey.get(job.key);
+    const lastSuccessAt = lastSuccessByKey.get(job.key) ?? null;
+    const isRunning = !!state?.lockedUntil && state.lockedUntil > now;
+
+    return {
+      key: job.key,
+      nameEn: job.nameEn,
+      nameFr: job.nameFr,
+      descriptionEn: job.descriptionEn,
+      descriptionFr: job.descriptionFr,
+      schedule: job.schedule,
+      alertGraceMinutes: job.alertGraceMinutes,
+      isEnabled: state?.isEnabled ?? true,
+      isRunning,
+      lastRun: lastRunByKey.get(job.key) ?? null,
+      lastSuccessAt,
+      isOverdue:
+        !!state?.isEnabled &&
+        isJobOverdue({
+          schedule: job.schedule,
+          lastSuccessAt,
+          registeredAt: state.createdAt,
+          graceMinutes: job.alertGraceMinutes,
+          now,
+        }),
+    };
+  });
+}
+
+/**
+ * Notify system administrators of jobs that have not succeeded in their
+ * window, once per missed occurrence.
+ */
+async function alertOverdueJobs(now: Date): Promise<string[]> {
+  const statuses = await getJobStatuses(now);
+  const overdue = statuses.filter((s) => s.isOverdue);
+  if (overdue.length === 0) return [];
+
+  const alerted: string[] = [];
+
+  for (const job of overdue) {
+    const expected = expectedSuccessSince({
+      schedule: job.schedule,
+      lastSuccessAt: job.lastSuccessAt,
+      registeredAt: new Date(0),
+      graceMinutes: job.alertGraceMinutes,
+      now,
+    });
+    if (!expected) continue;
+
+    // One alert per missed occurrence, even with concurrent ticks
+    const { count } = await prisma.scheduledJob.updateMany({
+      where: {
+        key: job.key,
+        OR: [{ lastAlertedAt: null }, { lastAlertedAt: { lt: expected } }],
+      },
+      data: { lastAlertedAt: now },
+    });
+    if (count === 0) continue;
+
+    alerted.push(job.key);
+    const lastError = job.lastRun?.errors[0];
+
+    try {
+      const recipients = await getRecipientsByRole(["SUPER_ADMIN", "SYSTEM_ADMIN"]);
+      if (recipients.length > 0) {
+        await sendNotification(recipients, {
+          type: NotificationType.SCHEDULED_JOB_ALERT,
+          titleEn: `Background job not succeeding: ${job.nameEn}`,
+          titleFr: `Tâche de fond en échec : ${job.nameFr}`,
+          messageEn: `"${job.nameEn}" has not completed successfully since ${expected.toISOString()}.${lastError ? ` Last error: ${lastError}` : ""}`,
+          messageFr: `« ${job.nameFr} » ne s'est pas terminée avec succès depuis le ${expected.toISOString()}.${lastError ? ` Dernière erreur : ${lastError}` : ""}`,
+          entityType: "ScheduledJob",
+          entityId: job.key,
+          actionUrl: "/admin/jobs",
+          actionLabelEn: "View jobs",
+          actionLabelFr: "Voir les tâches",
+          priority: NotificationPriority.HIGH,
+        });
+      }
+    } catch (error) {
+      console.error(`[Scheduler] Failed to send alert for ${job.key}:`, error);
+    }
+  }
+
+  return alerted;
+}
@@ -0,0 +1,70 @@
+import { describe, it, expect, vi } from "vitest";
+import {
+  getNextDigestTime,
+  resolveTimezone,
+} from "../notification/digest-schedule";
+
+vi.mock("@/lib/db", () => ({
+  db: {
+    notificationDigest: {
+      findFirst: vi.fn(),
+      update: vi.fn(),
+      create: vi.fn(),
+    },
+  },
+}));
+
+describe("digest schedule", () => {
+  describe("resolveTimezone", () => {
+    it("keeps known timezones and falls back to UTC", () => {
+      expect(resolveTimezone("Africa/Nairobi")).toBe("Africa/Nairobi");
+      expect(resolveTimezone("Mars/Olympus_Mons")).toBe("UTC");
+      expect(resolveTimezone(null)).toBe("UTC");
+    });
+  });
+
+  describe("getNextDigestTime", () => {
+    it("schedules daily digests at 08:00 local time", () => {
+      // 06:00 in Nairobi (UTC+3) -> 08:00 the same day
+      const now = new Date("2026-03-10T03:00:00.000Z");
+      expect(getNextDigestTime("DAILY", "Africa/Nairobi", now).toISOString()).toBe(
+        "2026-03-10T05:00:00.000Z"
+      );
+
+      // 09:00 in Nairobi -> 08:00 the next day
+      const later = new Date("2026-03-10T06:00:00.000Z");
+      expect(getNextDigestTime("DAILY", "Africa/Nairobi", later).toISOString()).toBe(
+        "2026-03-11T05:00:00.000Z"
+      );
+    });
+
+    it("uses the local calendar day, not the UTC day", () => {
+      // 23:30 UTC on the 10th is already 00:30 on the 11th in Lagos (UTC+1)
+      const now = new Date("2026-03-10T23:30:00.000Z");
+      expect(getNextDigestTime("DAILY", "Africa/Lagos", now).toISOString()).toBe(
+        "2026-03-11T07:00:00.000Z"
+      );
+    });
+
+    it("schedules weekly digests on the next Monday", () => {
+      // Wednesday 2026-03-11
+      const now = new Date("2026-03-11T12:00:00.000Z");
+      expect(getNextDigestTime("WEEKLY", "UTC", now).toISOString()).toBe(
+        "2026-03-16T08:00:00.000Z"
+      );
+    });
+
+    it("follows daylight saving changes", () => {
+      // Europe/Paris switches to UTC+2 on 2026-03-29
+      const now = new Date("2026-03-28T12:00:00.000Z");
+      expect(getNextDigestTime("DAILY", "Europe/Paris", now).toISOString()).toBe(
+        "2026-03-29T06:00:00.000Z"
+      );
+    });
+
+    it("returns now for immediate delivery", () => {
+      const now = new Date("2026-03-10T12:00:00.000Z");
+      expect(getNextDigestTime("IMMEDIATE", "UTC", now)).toBe(now);
+    });
+  });
+});
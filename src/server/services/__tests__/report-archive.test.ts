@@ -0,0 +1,183 @@
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { createHash } from "crypto";
+import { Prisma } from "@prisma/client";
+import { ArchivedReportUnavailableError, archiveFinalReport } from "../report/report-archive";
+import { prisma } from "@/lib/db";
+import { downloadFile, isStorageConfigured, uploadFile } from "@/server/services/storage.service";
+import { generateReviewReport } from "../report/report-generator";
+
+vi.mock("@/lib/db", () => ({
+  prisma: {
+    reviewReport: {
+      findUnique: vi.fn(),
+      update: vi.fn(),
+    },
+    reviewReportArtifact: {
+      findUnique: vi.fn(),
+      findUniqueOrThrow: vi.fn(),
+      create: vi.fn(),
+    },
+  },
+}));
+
+vi.mock("@/server/services/audit", () => ({
+  logCreate: vi.fn().mockResolvedValue(undefined),
+}));
+
+vi.mock("@/server/services/document", () => ({
+  documentIntegrityService: {
+    calculateHash: (buffer: Buffer) => ({
+      hash: createHash("sha256").update(buffer).digest("hex"),
+      algorithm: "SHA256",
+    }),
+  },
+}));
+
+vi.mock("@/server/services/storage.service", () => ({
+  downloadFile: vi.fn(),
+  isStorageConfigured: vi.fn(),
+  uploadFile: vi.fn(),
+}));
+
+vi.mock("../report/report-generator", () => ({
+  generateReviewReport: vi.fn(),
+  getReportFilename: vi.fn(() => "AAPRP-Report-REF-001-v2-en.pdf"),
+}));
+
+const sha256 = (buffer: Buffer) => createHash("sha256").update(buffer).digest("hex");
+
+const archivedPdf = Buffer.from("%PDF archived");
+const finalizedAt = new Date("2026-03-01T10:00:00Z");
+
+const report = {
+  id: "report-1",
+  status: "FINALIZED",
+  version: 2,
+  finalizedAt,
+  review: { referenceNumber: "REF-001" },
+};
+
+const artifact = {
+  id: "artifact-1",
+  reportId: "report-1",
+  version: 2,
+  locale: "en",
+  fileName: "AAPRP-Report-REF-001-v2-en.pdf",
+  fileHash: sha256(archivedPdf),
+  storagePath: "reviews/review-1/reports/v2-en.pdf",
+  content: null as Uint8Array | null,
+};
+
+describe("archiveFinalReport", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(prisma.reviewReport.findUnique).mockResolvedValue(report as never);
+    vi.mocked(prisma.reviewReport.update).mockResolvedValue({} as never);
+    vi.mocked(generateReviewReport).mockResolvedValue(archivedPdf);
+  });
+
+  describe("first archive", () => {
+    beforeEach(() => {
+      vi.mocked(prisma.reviewReportArtifact.findUnique).mockResolvedValue(null);
+      vi.mocked(prisma.reviewReportArtifact.create).mockImplementation(
+        (async ({ data }: { data: object }) => ({ id: "artifact-1", ...data })) as never
+      );
+    });
+
+    it("stores the render and records its hash", async () => {
+      vi.mocked(isStorageConfigured).mockReturnValue(true);
+      vi.mocked(uploadFile).mockResolvedValue({ success: true, path: artifact.storagePath });
+
+      const result = await archiveFinalReport("review-1", "en", "user-1");
+
+      expect(result).toMatchObject({
+        fileHash: sha256(archivedPdf),
+        version: 2,
+        archived: true,
+      });
+      expect(generateReviewReport).toHaveBeenCalledWith("review-1", "en", {
+        asOf: finalizedAt,
+        reportVersion: 2,
+      });
+      expect(prisma.reviewReportArtifact.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          storagePath: artifact.storagePath,
+          content: null,
+          fileHash: sha256(archivedPdf),
+        }),
+      });
+    });
+
+    it("keeps the bytes in the artifact row when storage is unavailable", async () => {
+      vi.mocked(isStorageConfigured).mockReturnValue(false);
+
+      await archiveFinalReport("review-1", "en");
+
+      expect(uploadFile).not.toHaveBeenCalled();
+      expect(prisma.reviewReportArtifact.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          storagePath: null,
+          content: new Uint8Array(archivedPdf),
+        }),
+      });
+    });
+
+    it("serves the existing artifact when a concurrent request archived it first", async () => {
+      vi.mocked(isStorageConfigured).mockReturnValue(false);
+      vi.mocked(prisma.reviewReportArtifact.create).mockRejectedValue(
+        new Prisma.PrismaClientKnownRequestError("Unique constraint failed", {
+          code: "P2002",
+          clientVersion: "test",
+        })
+      );
+      vi.mocked(prisma.reviewReportArtifact.findUniqueOrThrow).mockResolvedValue({
+        ...artifact,
+        storagePath: null,
+        content: new Uint8Array(archivedPdf),
+      } as never);
+
+      const result = await archiveFinalReport("review-1", "en");
+
+      expect(result.archived).toBe(true);
+      expect(result.buffer.equals(archivedPdf)).toBe(true);
+      expect(prisma.reviewReport.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("existing artifact", () => {
+    it("serves the stored copy when it matches the recorded hash", async () => {
+      vi.mocked(prisma.reviewReportArtifact.findUnique).mockResolvedValue(artifact as never);
+      vi.mocked(downloadFile).mockResolvedValue(archivedPdf);
+
+      const result = await archiveFinalReport("review-1", "en");
+
+      expect(result).toMatchObject({ fileHash: artifact.fileHash, archived: true });
+      expect(generateReviewReport).not.toHaveBeenCalled();
+    });
+
+    it("falls back to the database copy when the stored copy is tampered with", async () => {
+      vi.mocked(prisma.reviewReportArtifact.findUnique).mockResolvedValue({
+        ...artifact,
+        content: new Uint8Array(archivedPdf),
+      } as never);
+      vi.mocked(downloadFile).mockResolvedValue(Buffer.from("tampered"));
+      vi.spyOn(console, "error").mockImplementation(() => {});
+
+      const result = await archiveFinalReport("review-1", "en");
+
+      expect(result.buffer.equals(archivedPdf)).toBe(true);
+      expect(result.archived).toBe(true);
+    });
+
+    it("refuses to serve a re-render when no verified copy is available", async () => {
+      vi.mocked(prisma.reviewReportArtifact.findUnique).mockResolvedValue(artifact as never);
+      vi.mocked(downloadFile).mockResolvedValue(Buffer.from("tampered"));
+      vi.spyOn(console, "error").mockImplementation(() => {});
+
+      await expect(archiveFinalReport("review-1", "en")).rejects.toBeInstanceOf(
+        ArchivedReportUnavailableError
+      );
+      expect(generateReviewReport).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,343 @@
+/**
+ * Audit Chain Service
+ *
+ * Seals audit log entries into a SHA-256 hash chain and verifies it.
+ * Entries are written unsealed by whichever code path logs them; sealing
+ * assigns each one the next sequence number and links it to the previous
+ * entry's hash under a Postgres advisory lock, so concurrent writers
+ * cannot fork the chain. Signed checkpoints pin the head periodically and
+ * can be exported for safekeeping outside the database.
+ */
+
+import { createHash } from "crypto";
+import type { AuditCheckpoint } from "@prisma/client";
+import { prisma } from "@/lib/db";
+import {
+  AUDIT_CHAIN_GENESIS_HASH,
+  computeAuditEntryHash,
+  signCheckpoint,
+  verifyChainSegment,
+  verifyCheckpointSignature,
+  type ChainBreak,
+  type SealedAuditEntry,
+} from "@/lib/audit/hash-chain";
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+/** Advisory lock key serialising chain writers ("AUDITLOG" in ASCII) */
+const AUDIT_CHAIN_LOCK_KEY = 0x4155444954;
+
+const SEAL_BATCH_SIZE = 500;
+const VERIFY_BATCH_SIZE = 1000;
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface ChainEntrySummary {
+  id: string;
+  sequence: number | null;
+  action: string;
+  entityType: string;
+  entityId: string;
+  createdAt: Date;
+  user: { firstName: string; lastName: string; email: string };
+}
+
+export type CheckpointIssueReason =
+  /** The signature does not match the checkpoint's contents */
+  | "SIGNATURE_INVALID"
+  /** The entry at the checkpoint's sequence has a different hash */
+  | "HASH_MISMATCH"
+  /** The chain no longer reaches the checkpoint's sequence */
+  | "ENTRY_MISSING";
+
+export interface CheckpointIssue {
+  checkpointId: string;
+  sequence: number;
+  reason: CheckpointIssueReason;
+  createdAt: Date;
+}
+
+export interface AuditChainVerification {
+  isValid: boolean;
+  checkedEntries: number;
+  headSequence: number;
+  headHash: string;
+  unsealedEntries: number;
+  break:
+    | (ChainBreak & {
+        entry: ChainEntrySummary | null;
+        previousEntry: ChainEntrySummary | null;
+      })
+    | null;
+  checkpoints: {
+    total: number;
+    issues: CheckpointIssue[];
+  };
+  checkedAt: Date;
+}
+
+// =============================================================================
+// SIGNING KEY
+// =============================================================================
+
+function getCheckpointKey(): { secret: string; keyId: string } {
+  const secret =
+    process.env.AUDIT_CHECKPOINT_SECRET || process.env.AUTH_SECRET || process.env.NEXTAUTH_SECRET;
+  if (!secret) {
+    throw new Error("AUDIT_CHECKPOINT_SECRET or AUTH_SECRET is required to sign audit checkpoints");
+  }
+  // Identifies the key in exports without revealing it
+  const keyId = createHash("sha256").update(secret).digest("hex").slice(0, 12);
+  return { secret, keyId };
+}
+
+// =============================================================================
+// SEALING
+// =============================================================================
+
+/**
+ * Append all unsealed entries to the chain, oldest first.
+ *
+ * @returns Number of entries sealed
+ */
+export async function sealAuditLog(): Promise<number> {
+  let sealed = 0;
+
+  for (;;) {
+    const count = await prisma.$transaction(
+      async (tx) => {
+        await tx.$executeRaw`SELECT pg_advisory_xact_lock(${AUDIT_CHAIN_LOCK_KEY})`;
+
+        const head = await tx.auditLog.findFirst({
+          where: { sequence: { not: null } },
+          orderBy: { sequence: "desc" },
+          select: { sequence: true, hash: true },
+        });
+        const pending = await tx.auditLog.findMany({
+          where: { sequence: null },
+          orderBy: [{ createdAt: "asc" }, { id: "asc" }],
+          take: SEAL_BATCH_SIZE,
+        });
+
+        let sequence = head?.sequence ?? 0;
+        let previousHash = head?.hash ?? AUDIT_CHAIN_GENESIS_HASH;
+
+        for (const entry of pending) {
+          sequence++;
+          const hash = computeAuditEntryHash(entry, sequence, previousHash);
+          await tx.auditLog.update({
+            where: { id: entry.id },
+            data: { sequence, previousHash, hash },
+          });
+          previousHash = hash;
+        }
+
+        return pending.length;
+      },
+      { timeout: 60_000 }
+    );
+
+    sealed += count;
+    if (count < SEAL_BATCH_SIZE) return sealed;
+  }
+}
+
+// =============================================================================
+// VERIFICATION
+// =============================================================================
+
+async function getEntrySummary(
+  where: { id: string } | { sequence: number }
+): Promise<ChainEntrySummary | null> {
+  return prisma.auditLog.findUnique({
+    where,
+    select: {
+      id: true,
+      sequence: true,
+      action: true,
+      entityType: true,
+      entityId: true,
+      createdAt: true,
+      user: { select: { firstName: true, lastName: true, email: true } },
+    },
+  });
+}
+
+/**
+ * Recompute the whole chain and check every checkpoint against it.
+ * Stops at the first break, which is where tampering began.
+ */
+export async function verifyAuditLogChain(): Promise<AuditChainVerification> {
+  await sealAuditLog();
+
+  const { secret } = getCheckpointKey();
+  const checkpoints = await prisma.auditCheckpoint.findMany({ orderBy: { sequence: "asc" } });
+  const checkpointsBySequence = new Map(checkpoints.map((c) => [c.sequence, c]));
+  const issues: CheckpointIssue[] = [];
+
+  for (const checkpoint of checkpoints) {
+    if (!verifyCheckpointSignature(checkpoint, checkpoint.signature, secret)) {
+      issues.push({
+        checkpointId: checkpoint.id,
+        sequence: checkpoint.sequence,
+        reason: "SIGNATURE_INVALID",
+        createdAt: checkpoint.createdAt,
+      });
+    }
+  }
+
+  let checked = 0;
+  let position = { sequence: 1, previousHash: AUDIT_CHAIN_GENESIS_HASH };
+  let chainBreak: ChainBreak | null = null;
+
+  for (;;) {
+    const batch = await prisma.auditLog.findMany({
+      where: { sequence: { gte: position.sequence } },
+      orderBy: { sequence: "asc" },
+      take: VERIFY_BATCH_SIZE,
+    });
+    if (batch.length === 0) break;
+
+    const result = verifyChainSegment(batch as SealedAuditEntry[], position);
+    checked += result.checked;
+
+    for (const entry of batch.slice(0, result.checked)) {
+      const checkpoint = checkpointsBySequence.get(entry.sequence!);
+      if (checkpoint && checkpoint.hash !== entry.hash) {
+        issues.push({
+          checkpointId: checkpoint.id,
+          sequence: checkpoint.sequence,
+          reason: "HASH_MISMATCH",
+          createdAt: checkpoint.createdAt,
+        });
+      }
+    }
+
+    position = { sequence: result.lastSequence + 1, previousHash: result.lastHash };
+    if (result.break) {
+      chainBreak = result.break;
+      break;
+    }
+    if (batch.length < VERIFY_BATCH_SIZE) break;
+  }
+
+  const headSequence = position.sequence - 1;
+
+  // Entries deleted from the end leave no gap; only a checkpoint shows them
+  if (!chainBreak) {
+    for (const checkpoint of checkpoints) {
+      if (checkpoint.sequence > headSequence) {
+        issues.push({
+          checkpointId: checkpoint.id,
+          sequence: checkpoint.sequence,
+          reason: "ENTRY_MISSING",
+          createdAt: checkpoint.createdAt,
+        });
+      }
+    }
+  }
+
+  const unsealedEntries = await prisma.auditLog.count({ where: { sequence: null } });
+
+  return {
+    isValid: !chainBreak && issues.length === 0,
+    checkedEntries: checked,
+    headSequence,
+    headHash: position.previousHash,
+    unsealedEntries,
+    break: chainBreak
+      ? {
+          ...chainBreak,
+          entry: await getEntrySummary({ id: chainBreak.entryId }),
+          previousEntry:
+            chainBreak.expectedSequence > 1
+              ? await getEntrySummary({ sequence: chainBreak.expectedSequence - 1 })
+              : null,
+        }
+      : null,
+    checkpoints: { total: checkpoints.length, issues },
+    checkedAt: new Date(),
+  };
+}
+
+// =============================================================================
+// CHECKPOINTS
+// =============================================================================
+
+/**
+ * Sign the current chain head. Refuses to sign a broken chain, and does
+ * nothing when no entries were sealed since the last checkpoint.
+ */
+export async function createAuditCheckpoint(createdById?: string): Promise<{
+  checkpoint: AuditCheckpoint | null;
+  verification: AuditChainVerification;
+}> {
+  const verification = await verifyAuditLogChain();
+  if (!verification.isValid || verification.headSequence === 0) {
+    return { checkpoint: null, verification };
+  }
+
+  const latest = await prisma.auditCheckpoint.findFirst({ orderBy: { sequence: "desc" } });
+  if (latest && latest.sequence >= verification.headSequence) {
+    return { checkpoint: null, verification };
+  }
+
+  const { secret, keyId } = getCheckpointKey();
+  const payload = {
+    sequence: verification.headSequence,
+    hash: verification.headHash,
+    entryCount: verification.headSequence - (latest?.sequence ?? 0),
+    createdAt: new Date(),
+  };
+
+  const checkpoint = await prisma.auditCheckpoint.create({
+    data: {
+      ...payload,
+      signature: signCheckpoint(payload, secret),
+      keyId,
+      createdById: createdById ?? null,
+    },
+  });
+
+  return { checkpoint, verification };
+}
+
+/**
+ * Most recent checkpoints, newest first
+ */
+export async function listAuditCheckpoints(limit = 20) {
+  return prisma.auditCheckpoint.findMany({
+    include: { createdBy: { select: { firstName: true, lastName: true } } },
+    orderBy: { sequence: "desc" },
+    take: limit,
+  });
+}
+
+/**
+ * All checkpoints as a JSON document to archive outside the database
+ */
+export async function exportAuditCheckpoints(): Promise<string> {
+  const checkpoints = await prisma.auditCheckpoint.findMany({ orderBy: { sequence: "asc" } });
+
+  return JSON.stringify(
+    {
+      exportedAt: new Date().toISOString(),
+      hashAlgorithm: "SHA-256",
+      signatureAlgorithm: "HMAC-SHA256",
+      checkpoints: checkpoints.map((c) => ({
+        sequence: c.sequence,
+        hash: c.hash,
+        entryCount: c.entryCount,
+        createdAt: c.createdAt.toISOString(),
+        keyId: c.keyId,
+        signature: c.signature,
+      })),
+    },
+    null,
+    2
+  );
+}
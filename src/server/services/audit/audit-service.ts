@@ -9,6 +9,7 @@
 import { headers as getRequestHeaders } from "next/headers";
 import { prisma } from "@/lib/db";
 import { AuditAction, Prisma } from "@prisma/client";
+import { sealAuditLog } from "./audit-chain";
 
 // =============================================================================
 // TYPES
@@ -102,6 +103,12 @@ export async function logAudit(params: AuditLogParams): Promise<void> {
         userAgent,
       },
     });
+
+    // Chain the entry without holding up the caller; the next write or
+    // verification seals it if this attempt fails
+    sealAuditLog().catch((error) => {
+      console.error("[Audit] Failed to seal audit log:", error);
+    });
   } catch (error) {
     // Log error but don't throw - audit logging should not break operations
     console.error("[Audit] Failed to log audit event:", error, {
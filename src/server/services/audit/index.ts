@@ -33,3 +33,17 @@ export {
   type AuditLogFilters,
   type PaginatedAuditLogs,
 } from "./audit-service";
+
+export {
+  // Hash chain
+  sealAuditLog,
+  verifyAuditLogChain,
+  createAuditCheckpoint,
+  listAuditCheckpoints,
+  exportAuditCheckpoints,
+  // Types
+  type AuditChainVerification,
+  type ChainEntrySummary,
+  type CheckpointIssue,
+  type CheckpointIssueReason,
+} from "./audit-chain";
@@ -0,0 +1,346 @@
+/**
+ * Calendar Feed Service
+ *
+ * Manages per-user ICS subscription tokens and builds the feed content:
+ * review assignments (planned fieldwork dates), CAP due dates and
+ * milestones, review task due dates and the user's own availability
+ * blocks. Calendar clients cannot send session cookies, so feeds are
+ * authenticated by an unguessable token in the URL.
+ */
+
+import crypto from "crypto";
+import { subDays } from "date-fns";
+import type {
+  AvailabilityType,
+  CAPStatus,
+  Prisma,
+  TaskStatus,
+  UserRole,
+} from "@prisma/client";
+import { prisma } from "@/lib/db";
+import { buildCalendar, type IcsEvent } from "@/lib/calendar/ics";
+import { isAnspRole } from "@/lib/permissions";
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+/** Past events kept in the feed so recent history stays visible */
+const FEED_HISTORY_DAYS = 90;
+
+/** Domain used to scope event UIDs */
+const UID_DOMAIN = "aaprp.calendar";
+
+const CLOSED_CAP_STATUSES: CAPStatus[] = ["VERIFIED", "CLOSED"];
+const CLOSED_TASK_STATUSES: TaskStatus[] = ["COMPLETED", "CANCELLED"];
+
+const AVAILABILITY_LABELS_EN: Record<AvailabilityType, string> = {
+  AVAILABLE: "Available for reviews",
+  TENTATIVE: "Tentatively available",
+  UNAVAILABLE: "Unavailable",
+  ON_ASSIGNMENT: "On assignment",
+};
+
+const AVAILABILITY_LABELS_FR: Record<AvailabilityType, string> = {
+  AVAILABLE: "Disponible pour les revues",
+  TENTATIVE: "Disponibilité provisoire",
+  UNAVAILABLE: "Indisponible",
+  ON_ASSIGNMENT: "En mission",
+};
+
+// =============================================================================
+// TOKENS
+// =============================================================================
+
+function generateFeedToken(): string {
+  return crypto.randomBytes(32).toString("hex");
+}
+
+/**
+ * Public URL of a feed. The `.ics` suffix helps clients that sniff the
+ * extension; the route accepts the token with or without it.
+ */
+export function getCalendarFeedUrl(token: string): string {
+  const baseUrl = process.env.NEXT_PUBLIC_APP_URL || "http://localhost:3000";
+  return `${baseUrl}/api/calendar/${token}.ics`;
+}
+
+export async function getCalendarFeedToken(userId: string) {
+  return prisma.calendarFeedToken.findUnique({ where: { userId } });
+}
+
+/**
+ * Create the user's feed token, replacing any existing one so previously
+ * shared URLs stop working.
+ */
+export async function rotateCalendarFeedToken(userId: string) {
+  return prisma.calendarFeedToken.upsert({
+    where: { userId },
+    create: { userId, token: generateFeedToken() },
+    update: {
+      token: generateFeedToken(),
+      createdAt: new Date(),
+      lastAccessedAt: null,
+    },
+  });
+}
+
+export async function revokeCalendarFeedToken(userId: string) {
+  await prisma.calendarFeedToken.deleteMany({ where: { userId } });
+}
+
+// =============================================================================
+// FEED CONTENT
+// =============================================================================
+
+function uid(kind: string, id: string): string {
+  return `${kind}-${id}@${UID_DOMAIN}`;
+}
+
+/**
+ * Build the ICS feed for a token. Returns null for unknown tokens and
+ * inactive users.
+ */
+export async function buildCalendarFeed(
+  token: string,
+  now: Date = new Date()
+): Promise<string | null> {
+  const feedToken = await prisma.calendarFeedToken.findUnique({
+    where: { token },
+    include: {
+      user: {
+        select: {
+          id: true,
+          firstName: true,
+          lastName: true,
+          role: true,
+          locale: true,
+          organizationId: true,
+          isActive: true,
+        },
+      },
+    },
+  });
+
+  if (!feedToken || !feedToken.user.isActive) {
+    return null;
+  }
+
+  const { user } = feedToken;
+  const isFr = user.locale === "FR";
+  const since = subDays(now, FEED_HISTORY_DAYS);
+  const baseUrl = process.env.NEXT_PUBLIC_APP_URL || "";
+
+  const [assignments, caps, tasks, availability] = await Promise.all([
+    getReviewAssignments(user.id, since),
+    getCAPs(user, since),
+    getTasks(user.id, since),
+    getAvailability(user.id, since),
+  ]);
+
+  const events: IcsEvent[] = [];
+
+  for (const { review, role } of assignments) {
+    if (!review.plannedStartDate) continue;
+    const host = isFr
+      ? review.hostOrganization.nameFr
+      : review.hostOrganization.nameEn;
+    events.push({
+      uid: uid("review", review.id),
+      summary: isFr
+        ? `Revue par les pairs ${review.referenceNumber} – ${host}`
+        : `Peer review ${review.referenceNumber} – ${host}`,
+      description: isFr ? `Rôle : ${role}` : `Role: ${role}`,
+      location: [review.hostOrganization.city, review.hostOrganization.country]
+        .filter(Boolean)
+        .join(", "),
+      url: `${baseUrl}/reviews/${review.id}`,
+      start: review.plannedStartDate,
+      end: review.plannedEndDate ?? review.plannedStartDate,
+      status: review.status === "CANCELLED" ? "CANCELLED" : "CONFIRMED",
+      categories: ["REVIEW"],
+      lastModified: review.updatedAt,
+    });
+  }
+
+  for (const cap of caps) {
+    const title = isFr ? cap.finding.titleFr : cap.finding.titleEn;
+    events.push({
+      uid: uid("cap", cap.id),
+      summary: isFr
+        ? `Échéance PAC ${cap.finding.referenceNumber} – ${title}`
+        : `CAP due ${cap.finding.referenceNumber} – ${title}`,
+      url: `${baseUrl}/caps/${cap.id}`,
+      start: cap.dueDate,
+      end: cap.dueDate,
+      transparency: "TRANSPARENT",
+      categories: ["CAP"],
+      lastModified: cap.updatedAt,
+    });
+
+    for (const milestone of cap.milestones) {
+      const milestoneTitle = isFr
+        ? milestone.titleFr || milestone.titleEn
+        : milestone.titleEn;
+      events.push({
+        uid: uid("cap-milestone", milestone.id),
+        summary: `${cap.finding.referenceNumber} – ${milestoneTitle}`,
+        description:
+          (isFr ? milestone.descriptionFr : milestone.descriptionEn) ?? undefined,
+        url: `${baseUrl}/caps/${cap.id}`,
+        start: milestone.targetDate,
+        end: milestone.targetDate,
+        transparency: "TRANSPARENT",
+        categories: ["CAP"],
+        lastModified: milestone.updatedAt,
+      });
+    }
+  }
+
+  for (const task of tasks) {
+    if (!task.dueDate) continue;
+    events.push({
+      uid: uid("task", task.id),
+      summary: `${task.review.referenceNumber} – ${task.title}`,
+      description: task.description ?? undefined,
+      url: `${baseUrl}/reviews/${task.reviewId}`,
+      start: task.dueDate,
+      end: task.dueDate,
+      transparency: "TRANSPARENT",
+      categories: ["TASK"],
+      lastModified: task.updatedAt,
+    });
+  }
+
+  for (const slot of availability) {
+    events.push({
+      uid: uid("availability", slot.id),
+      summary:
+        slot.title ||
+        (isFr
+          ? AVAILABILITY_LABELS_FR[slot.availabilityType]
+          : AVAILABILITY_LABELS_EN[slot.availabilityType]),
+      description: slot.notes ?? undefined,
+      start: slot.startDate,
+      end: slot.endDate,
+      recurrencePattern: slot.isRecurring ? slot.recurrencePattern : null,
+      status: slot.availabilityType === "TENTATIVE" ? "TENTATIVE" : "CONFIRMED",
+      transparency:
+        slot.availabilityType === "AVAILABLE" ? "TRANSPARENT" : "OPAQUE",
+      categories: ["AVAILABILITY"],
+      lastModified: slot.updatedAt,
+    });
+  }
+
+  await prisma.calendarFeedToken.update({
+    where: { id: feedToken.id },
+    data: { lastAccessedAt: now },
+  });
+
+  return buildCalendar(events, {
+    name: `AAPRP – ${user.firstName} ${user.lastName}`,
+    description: isFr
+      ? "Revues, PAC, tâches et disponibilités"
+      : "Reviews, CAPs, tasks and availability",
+    generatedAt: now,
+  });
+}
+
+// =============================================================================
+// QUERIES
+// =============================================================================
+
+async function getReviewAssignments(userId: string, since: Date) {
+  return prisma.reviewTeamMember.findMany({
+    where: {
+      userId,
+      invitationStatus: { not: "DECLINED" },
+      review: {
+        plannedStartDate: { not: null },
+        OR: [{ plannedEndDate: { gte: since } }, { plannedEndDate: null }],
+      },
+    },
+    select: {
+      role: true,
+      review: {
+        select: {
+          id: true,
+          referenceNumber: true,
+          status: true,
+          plannedStartDate: true,
+          plannedEndDate: true,
+          updatedAt: true,
+          hostOrganization: {
+            select: { nameEn: true, nameFr: true, city: true, country: true },
+          },
+        },
+      },
+    },
+  });
+}
+
+/**
+ * CAPs assigned to the user and, for ANSP staff, the open CAPs of their
+ * organization.
+ */
+async function getCAPs(
+  user: { id: string; role: UserRole; organizationId: string | null },
+  since: Date
+) {
+  const scope: Prisma.CorrectiveActionPlanWhereInput[] = [{ assignedToId: user.id }];
+  if (isAnspRole(user.role) && user.organizationId) {
+    scope.push({ finding: { organizationId: user.organizationId } });
+  }
+
+  return prisma.correctiveActionPlan.findMany({
+    where: {
+      OR: scope,
+      status: { notIn: CLOSED_CAP_STATUSES },
+      dueDate: { gte: since },
+    },
+    select: {
+      id: true,
+      dueDate: true,
+      updatedAt: true,
+      finding: {
+        select: { referenceNumber: true, titleEn: true, titleFr: true },
+      },
+      milestones: {
+        where: {
+          status: { notIn: ["COMPLETED", "CANCELLED"] },
+          targetDate: { gte: since },
+        },
+        orderBy: { sortOrder: "asc" },
+      },
+    },
+  });
+}
+
+async function getTasks(userId: string, since: Date) {
+  return prisma.reviewTask.findMany({
+    where: {
+      assignedToId: userId,
+      status: { notIn: CLOSED_TASK_STATUSES },
+      dueDate: { gte: since },
+    },
+    select: {
+      id: true,
+      reviewId: true,
+      title: true,
+      description: true,
+      dueDate: true,
+      updatedAt: true,
+      review: { select: { referenceNumber: true } },
+    },
+  });
+}
+
+async function getAvailability(userId: string, since: Date) {
+  return prisma.reviewerAvailability.findMany({
+    where: {
+      reviewerProfile: { userId },
+      OR: [{ endDate: { gte: since } }, { isRecurring: true }],
+    },
+    orderBy: { startDate: "asc" },
+  });
+}
@@ -17,7 +17,9 @@ import {
   type CorrectiveActionPlan,
   type CAPMilestone,
 } from "@prisma/client";
-import { addDays, differenceInDays, isPast, isToday, isFuture, startOfDay } from "date-fns";
+import { addDays, differenceInDays, isPast, isToday, isFuture, startOfDay, subMonths } from "date-fns";
+import { buildFindingBurndown, type BurndownPoint } from "@/lib/cap/portfolio";
+import { originalDueDate, PENDING_EXTENSION_STATUSES } from "@/lib/cap/extension";
 
 // =============================================================================
 // TYPES
@@ -25,6 +27,8 @@ import { addDays, differenceInDays, isPast, isToday, isFuture, startOfDay } from
 
 export interface DeadlineInfo {
   dueDate: Date;
+  originalDueDate: Date | null; // Due date before the first approved extension
+  daysExtended: number;
   daysRemaining: number;
   isOverdue: boolean;
   isDueToday: boolean;
@@ -58,6 +62,30 @@ export interface CAPWithDeadlineInfo {
   };
 }
 
+export interface CAPPortfolio {
+  organization: {
+    id: string;
+    nameEn: string;
+    nameFr: string | null;
+    organizationCode: string | null;
+  };
+  items: (CAPWithDeadlineInfo & {
+    owner: { id: string; firstName: string; lastName: string } | null;
+  })[];
+  summary: {
+    total: number;
+    open: number;
+    closed: number;
+    overdue: number;
+    dueSoon: number;
+    milestonesOverdue: number;
+    openFindingsBySeverity: Record<string, number>;
+  };
+  burndown: BurndownPoint[];
+  /** Organization members a CAP can be assigned to */
+  owners: { id: string; firstName: string; lastName: string; role: string }[];
+}
+
 export interface EscalationEvent {
   type: "7_DAYS_BEFORE" | "1_DAY_BEFORE" | "DUE_TODAY" | "OVERDUE" | "MILESTONE_OVERDUE";
   capId: string;
@@ -108,7 +136,8 @@ export function calculateDeadlineInfo(
   dueDate: Date,
   status: CAPStatus,
   milestonesCompleted: number = 0,
-  milestonesTotal: number = 0
+  milestonesTotal: number = 0,
+  originalDueDate: Date | null = null
 ): DeadlineInfo {
   const today = startOfDay(new Date());
   const dueDateNormalized = startOfDay(dueDate);
@@ -139,6 +168,10 @@ export function calculateDeadlineInfo(
 
   return {
     dueDate,
+    originalDueDate,
+    daysExtended: originalDueDate
+      ? differenceInDays(dueDateNormalized, startOfDay(originalDueDate))
+      : 0,
     daysRemaining,
     isOverdue,
     isDueToday,
@@ -270,7 +303,8 @@ export async function getCAPsWithDeadlineInfo(options?: {
       cap.dueDate,
       cap.status,
       milestoneProgress.completed,
-      milestoneProgress.total
+      milestoneProgress.total,
+      cap.originalDueDate
     );
 
     return {
@@ -288,6 +322,93 @@ export async function getCAPsWithDeadlineInfo(options?: {
   return results;
 }
 
+/**
+ * CAP portfolio of an organization: every CAP with its deadline and
+ * milestone progress, and the open-findings burndown over `months`
+ */
+export async function getCAPPortfolio(
+  organizationId: string,
+  months: number = 12
+): Promise<CAPPortfolio | null> {
+  const organization = await db.organization.findUnique({
+    where: { id: organizationId },
+    select: { id: true, nameEn: true, nameFr: true, organizationCode: true },
+  });
+
+  if (!organization) return null;
+
+  const [caps, findings, members] = await Promise.all([
+    getCAPsWithDeadlineInfo({ organizationId, includeCompleted: true }),
+    db.finding.findMany({
+      where: { organizationId },
+      select: { severity: true, identifiedAt: true, closedAt: true, status: true },
+    }),
+    db.user.findMany({
+      where: {
+        organizationId,
+        isActive: true,
+        role: { in: ["ANSP_ADMIN", "SAFETY_MANAGER", "QUALITY_MANAGER", "STAFF"] },
+      },
+      select: { id: true, firstName: true, lastName: true, role: true },
+      orderBy: [{ lastName: "asc" }, { firstName: "asc" }],
+    }),
+  ]);
+
+  // Owners may have left the organization since assignment
+  const ownerIds = [...new Set(caps.map((c) => c.cap.assignedToId).filter((id): id is string => !!id))];
+  const owners = new Map(
+    (
+      await db.user.findMany({
+        where: { id: { in: ownerIds } },
+        select: { id: true, firstName: true, lastName: true },
+      })
+    ).map((u) => [u.id, u])
+  );
+
+  const items = caps.map((item) => ({
+    ...item,
+    owner: item.cap.assignedToId ? owners.get(item.cap.assignedToId) ?? null : null,
+  }));
+
+  const open = caps.filter((c) => TRACKABLE_STATUSES.includes(c.cap.status));
+  const openFindingsBySeverity: Record<string, number> = {
+    CRITICAL: 0,
+    MAJOR: 0,
+    MINOR: 0,
+    OBSERVATION: 0,
+  };
+  for (const finding of findings) {
+    if (finding.status !== "CLOSED") openFindingsBySeverity[finding.severity]++;
+  }
+
+  const now = new Date();
+
+  return {
+    organization,
+    items,
+    summary: {
+      total: caps.length,
+      open: open.length,
+      closed: caps.length - open.length,
+      overdue: open.filter((c) => c.deadlineInfo.isOverdue).length,
+      dueSoon: open.filter((c) => c.deadlineInfo.isDueSoon || c.deadlineInfo.isDueToday).length,
+      milestonesOverdue: open.reduce((sum, c) => sum + c.milestoneProgress.overdue, 0),
+      openFindingsBySeverity,
+    },
+    burndown: buildFindingBurndown(
+      findings.map((f) => ({
+        severity: f.severity,
+        identifiedAt: f.identifiedAt,
+        // Findings closed without a recorded date still count as closed
+        closedAt: f.closedAt ?? (f.status === "CLOSED" ? f.identifiedAt : null),
+      })),
+      subMonths(now, months),
+      now
+    ),
+    owners: members,
+  };
+}
+
 /**
  * Get overdue CAPs
  */
@@ -340,7 +461,8 @@ export async function getCAPsDueWithinDays(days: number): Promise<CAPWithDeadlin
       cap.dueDate,
       cap.status,
       milestoneProgress.completed,
-      milestoneProgress.total
+      milestoneProgress.total,
+      cap.originalDueDate
     );
 
     return {
@@ -410,9 +532,13 @@ export async function detectEscalationEvents(): Promise<EscalationEvent[]> {
   const today = startOfDay(new Date());
 
   // Get all trackable CAPs with their findings and assigned users
+  // CAPs awaiting an extension decision are not escalated
   const caps = await db.correctiveActionPlan.findMany({
     where: {
       status: { in: TRACKABLE_STATUSES },
+      extensionRequests: {
+        none: { status: { in: PENDING_EXTENSION_STATUSES } },
+      },
     },
     include: {
       finding: {
@@ -642,9 +768,12 @@ export async function getCAPStatistics(organizationId?: string): Promise<{
   total: number;
   byStatus: Record<CAPStatus, number>;
   overdue: number;
+  overdueAgainstOriginal: number;
+  extended: number;
   dueSoon: number;
   averageDaysToClose: number | null;
   onTimeCompletionRate: number | null;
+  onTimeAgainstOriginalRate: number | null;
 }> {
   const where: Prisma.CorrectiveActionPlanWhereInput = {};
 
@@ -659,6 +788,7 @@ export async function getCAPStatistics(organizationId?: string): Promise<{
       id: true,
       status: true,
       dueDate: true,
+      originalDueDate: true,
       createdAt: true,
       closedAt: true,
       verifiedAt: true,
@@ -680,14 +810,23 @@ export async function getCAPStatistics(organizationId?: string): Promise<{
 
   const today = startOfDay(new Date());
   let overdue = 0;
+  let overdueAgainstOriginal = 0;
+  let extended = 0;
   let dueSoon = 0;
   let totalDaysToClose = 0;
   let closedCount = 0;
   let onTimeCount = 0;
+  let onTimeAgainstOriginalCount = 0;
 
   for (const cap of caps) {
     byStatus[cap.status]++;
 
+    // Extensions move dueDate; slippage is measured against the original
+    const committedDueDate = originalDueDate(cap);
+    if (cap.originalDueDate) {
+      extended++;
+    }
+
     // Check if trackable and overdue/due soon
     if (TRACKABLE_STATUSES.includes(cap.status)) {
       const dueDate = startOfDay(cap.dueDate);
@@ -698,6 +837,10 @@ export async function getCAPStatistics(organizationId?: string): Promise<{
       } else if (daysUntilDue <= WARNING_THRESHOLD_DAYS) {
         dueSoon++;
       }
+
+      if (differenceInDays(startOfDay(committedDueDate), today) < 0) {
+        overdueAgainstOriginal++;
+      }
     }
 
     // Calculate closure statistics
@@ -711,6 +854,9 @@ export async function getCAPStatistics(organizationId?: string): Promise<{
       if (closeDate <= cap.dueDate) {
         onTimeCount++;
       }
+      if (closeDate <= committedDueDate) {
+        onTimeAgainstOriginalCount++;
+      }
     }
   }
 
@@ -718,8 +864,12 @@ export async function getCAPStatistics(organizationId?: string): Promise<{
     total: caps.length,
     byStatus,
     overdue,
+    overdueAgainstOriginal,
+    extended,
     dueSoon,
     averageDaysToClose: closedCount > 0 ? Math.round(totalDaysToClose / closedCount) : null,
     onTimeCompletionRate: closedCount > 0 ? Math.round((onTimeCount / closedCount) * 100) : null,
+    onTimeAgainstOriginalRate:
+      closedCount > 0 ? Math.round((onTimeAgainstOriginalCount / closedCount) * 100) : null,
   };
 }
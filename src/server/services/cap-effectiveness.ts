@@ -0,0 +1,293 @@
+/**
+ * CAP Effectiveness Review Service
+ *
+ * Schedules the effectiveness review of a closed CAP, opens reviews when
+ * they fall due and records their outcome. An ineffective CAP is either
+ * re-opened for further corrective action or replaced by a follow-up
+ * finding linked to the original one as a confirmed repeat.
+ */
+
+import { TRPCError } from "@trpc/server";
+import type {
+  EffectivenessFollowUp,
+  EffectivenessOutcome,
+  Prisma,
+} from "@prisma/client";
+import { prisma } from "@/lib/db";
+import {
+  effectivenessRecheckDate,
+  effectivenessReviewDate,
+  emptyEffectivenessChecklist,
+  validateEffectivenessOutcome,
+  type EffectivenessChecklistItem,
+} from "@/lib/cap/effectiveness";
+import { scoreRecurrence } from "@/lib/finding/recurrence";
+import { formatFindingReference } from "@/server/services/finding-import";
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface CompleteEffectivenessReviewInput {
+  reviewId: string;
+  checklist: EffectivenessChecklistItem[];
+  outcome: EffectivenessOutcome;
+  summary: string;
+  /** Required when the outcome is INEFFECTIVE */
+  followUpAction?: EffectivenessFollowUp;
+  /** New due date of a re-opened CAP */
+  dueDate?: Date;
+}
+
+// =============================================================================
+// SCHEDULING
+// =============================================================================
+
+/**
+ * Schedule the next effectiveness review of a closed CAP. Each closure
+ * starts a new cycle, so a re-opened and re-closed CAP is checked again.
+ */
+export async function scheduleEffectivenessReview(capId: string) {
+  const cap = await prisma.correctiveActionPlan.findUnique({
+    where: { id: capId },
+    select: {
+      status: true,
+      closedAt: true,
+      finding: { select: { severity: true } },
+      effectivenessReviews: {
+        select: { cycle: true, status: true },
+        orderBy: { cycle: "desc" },
+      },
+    },
+  });
+
+  if (!cap || cap.status !== "CLOSED" || !cap.closedAt) return null;
+
+  // Already waiting on a review for this closure
+  if (cap.effectivenessReviews.some((r) => r.status === "SCHEDULED" || r.status === "OPEN")) {
+    return null;
+  }
+
+  return prisma.cAPEffectivenessReview.create({
+    data: {
+      capId,
+      cycle: (cap.effectivenessReviews[0]?.cycle ?? 0) + 1,
+      scheduledFor: effectivenessReviewDate(cap.closedAt, cap.finding.severity),
+      checklist: emptyEffectivenessChecklist() as unknown as Prisma.InputJsonValue,
+    },
+  });
+}
+
+/**
+ * Schedule reviews for CAPs closed before effectiveness reviews existed,
+ * or whose scheduling failed at closure. Returns the number scheduled.
+ */
+export async function scheduleMissingEffectivenessReviews(): Promise<number> {
+  const caps = await prisma.correctiveActionPlan.findMany({
+    where: {
+      status: "CLOSED",
+      closedAt: { not: null },
+      effectivenessReviews: { none: { status: { in: ["SCHEDULED", "OPEN"] } } },
+    },
+    select: {
+      id: true,
+      closedAt: true,
+      effectivenessReviews: { select: { completedAt: true } },
+    },
+  });
+
+  let scheduled = 0;
+  for (const cap of caps) {
+    // A review completed after the latest closure already covers it
+    if (cap.effectivenessReviews.some((r) => r.completedAt && r.completedAt >= cap.closedAt!)) {
+      continue;
+    }
+    if (await scheduleEffectivenessReview(cap.id)) scheduled++;
+  }
+  return scheduled;
+}
+
+// =============================================================================
+// COMPLETION
+// =============================================================================
+
+/**
+ * Record the outcome of an open effectiveness review and apply its
+ * consequences to the CAP.
+ */
+export async function completeEffectivenessReview(
+  input: CompleteEffectivenessReviewInput,
+  userId: string
+) {
+  const review = await prisma.cAPEffectivenessReview.findUnique({
+    where: { id: input.reviewId },
+    include: {
+      _count: { select: { evidence: true } },
+      cap: {
+        include: {
+          finding: { include: { question: { select: { pqNumber: true } } } },
+        },
+      },
+    },
+  });
+
+  if (!review) {
+    throw new TRPCError({ code: "NOT_FOUND", message: "Effectiveness review not found" });
+  }
+
+  if (review.status !== "OPEN") {
+    throw new TRPCError({
+      code: "BAD_REQUEST",
+      message: `Cannot complete an effectiveness review with status ${review.status}`,
+    });
+  }
+
+  if (review._count.evidence === 0) {
+    throw new TRPCError({
+      code: "BAD_REQUEST",
+      message: "Upload at least one piece of evidence before completing the review",
+    });
+  }
+
+  const checklistError = validateEffectivenessOutcome(input.checklist, input.outcome);
+  if (checklistError) {
+    throw new TRPCError({ code: "BAD_REQUEST", message: checklistError });
+  }
+
+  const followUpAction = input.outcome === "INEFFECTIVE" ? input.followUpAction : undefined;
+
+  if (input.outcome === "INEFFECTIVE" && !followUpAction) {
+    throw new TRPCError({
+      code: "BAD_REQUEST",
+      message: "An ineffective CAP must be re-opened or followed up with a new finding",
+    });
+  }
+
+  if (followUpAction === "REOPEN_CAP" && (!input.dueDate || input.dueDate <= new Date())) {
+    throw new TRPCError({
+      code: "BAD_REQUEST",
+      message: "A re-opened CAP needs a due date in the future",
+    });
+  }
+
+  const { cap } = review;
+  const completedAt = new Date();
+
+  return prisma.$transaction(async (tx) => {
+    // Claim the review first so a concurrent completion cannot re-open the
+    // CAP or raise a follow-up finding twice
+    const claimed = await tx.cAPEffectivenessReview.updateMany({
+      where: { id: review.id, status: "OPEN" },
+      data: {
+        status: "COMPLETED",
+        checklist: input.checklist as unknown as Prisma.InputJsonValue,
+        outcome: input.outcome,
+        summary: input.summary,
+        followUpAction: followUpAction ?? null,
+        reviewedById: userId,
+        completedAt,
+      },
+    });
+    if (claimed.count === 0) {
+      throw new TRPCError({
+        code: "CONFLICT",
+        message: "This effectiveness review has already been completed",
+      });
+    }
+
+    let followUpFindingId: string | null = null;
+
+    if (followUpAction === "REOPEN_CAP") {
+      await tx.correctiveActionPlan.update({
+        where: { id: cap.id },
+        data: {
+          status: "IN_PROGRESS",
+          dueDate: input.dueDate,
+          completedAt: null,
+          verifiedAt: null,
+          closedAt: null,
+          closedById: null,
+        },
+      });
+      await tx.finding.update({
+        where: { id: cap.findingId },
+        data: { status: "IN_PROGRESS", closedAt: null },
+      });
+    }
+
+    if (followUpAction === "FOLLOW_UP_FINDING") {
+      const { finding } = cap;
+      const [organization, existing] = await Promise.all([
+        tx.organization.findUnique({
+          where: { id: finding.organizationId },
+          select: { organizationCode: true },
+        }),
+        tx.finding.count({ where: { reviewId: finding.reviewId } }),
+      ]);
+
+      const followUp = await tx.finding.create({
+        data: {
+          reviewId: finding.reviewId,
+          organizationId: finding.organizationId,
+          questionId: finding.questionId,
+          referenceNumber: formatFindingReference(organization?.organizationCode, existing + 1),
+          findingType: finding.findingType,
+          severity: finding.severity,
+          titleEn: `Ineffective corrective action: ${finding.titleEn}`,
+          titleFr: `Action corrective inefficace : ${finding.titleFr}`,
+          descriptionEn: `The corrective action plan for finding ${finding.referenceNumber} was found ineffective during its effectiveness review.\n\n${input.summary}`,
+          descriptionFr: `Le plan d'actions correctives de la constatation ${finding.referenceNumber} a été jugé inefficace lors de sa revue d'efficacité.\n\n${input.summary}`,
+          icaoReference: finding.icaoReference,
+          criticalElement: finding.criticalElement,
+          reviewArea: finding.reviewArea,
+          isRepeat: true,
+          status: "CAP_REQUIRED",
+        },
+      });
+
+      const subject = {
+        questionId: finding.questionId,
+        pqNumber: finding.question?.pqNumber ?? null,
+        criticalElement: finding.criticalElement,
+        reviewArea: finding.reviewArea,
+        titleEn: finding.titleEn,
+        descriptionEn: finding.descriptionEn,
+      };
+      const match = scoreRecurrence(subject, subject);
+
+      await tx.findingRecurrence.create({
+        data: {
+          findingId: followUp.id,
+          priorFindingId: finding.id,
+          score: match.score,
+          reasons: match.reasons,
+          textSimilarity: match.textSimilarity,
+          status: "CONFIRMED",
+          reviewedById: userId,
+          reviewedAt: completedAt,
+        },
+      });
+
+      followUpFindingId = followUp.id;
+    }
+
+    const completed = await tx.cAPEffectivenessReview.update({
+      where: { id: review.id },
+      data: { followUpFindingId },
+    });
+
+    // Partially effective CAPs stay closed but are looked at again
+    if (input.outcome === "PARTIALLY_EFFECTIVE") {
+      await tx.cAPEffectivenessReview.create({
+        data: {
+          capId: cap.id,
+          cycle: review.cycle + 1,
+          scheduledFor: effectivenessRecheckDate(completedAt),
+          checklist: emptyEffectivenessChecklist() as unknown as Prisma.InputJsonValue,
+        },
+      });
+    }
+
+    return { review: completed, previousCapStatus: cap.status, followUpFindingId };
+  });
+}
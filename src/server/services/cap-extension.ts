@@ -0,0 +1,281 @@
+/**
+ * CAP Extension Service
+ *
+ * Records due-date extension requests, routes them to the review lead and
+ * programme coordinators, and applies approved extensions: the CAP due date
+ * moves, the first committed date is kept in `originalDueDate` and the CAP's
+ * running SLA is extended by the same number of days.
+ */
+
+import { TRPCError } from "@trpc/server";
+import { prisma } from "@/lib/db";
+import {
+  extensionDays,
+  isValidExtensionTransition,
+  PENDING_EXTENSION_STATUSES,
+  validateExtensionRequest,
+} from "@/lib/cap/extension";
+import { slaService } from "@/server/services/workflow";
+import {
+  sendNotification,
+  getRecipientsByRole,
+  getReviewTeamRecipients,
+  type NotificationRecipient,
+} from "@/server/services/notification-service";
+import { NotificationType, NotificationPriority } from "@prisma/client";
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface RequestExtensionInput {
+  capIds: string[];
+  proposedDate: Date;
+  justification: string;
+}
+
+export interface ExtensionDecisionInput {
+  requestId: string;
+  approve: boolean;
+  comment?: string;
+}
+
+// =============================================================================
+// REQUESTS
+// =============================================================================
+
+/**
+ * Create one extension request per CAP and notify the approvers.
+ * Every CAP must accept an extension; nothing is created otherwise.
+ */
+export async function requestExtensions(input: RequestExtensionInput, userId: string) {
+  const caps = await prisma.correctiveActionPlan.findMany({
+    where: { id: { in: input.capIds } },
+    select: {
+      id: true,
+      status: true,
+      dueDate: true,
+      finding: { select: { referenceNumber: true, reviewId: true } },
+      extensionRequests: {
+        where: { status: { in: PENDING_EXTENSION_STATUSES } },
+        select: { id: true },
+      },
+    },
+  });
+
+  const errors = caps
+    .map((cap) => {
+      const error = validateExtensionRequest(
+        {
+          status: cap.status,
+          dueDate: cap.dueDate,
+          hasPendingExtension: cap.extensionRequests.length > 0,
+        },
+        input.proposedDate
+      );
+      return error && `${cap.finding.referenceNumber}: ${error}`;
+    })
+    .filter((error): error is string => !!error);
+
+  if (errors.length > 0) {
+    throw new TRPCError({
+      code: "BAD_REQUEST",
+      message: errors.join("; "),
+    });
+  }
+
+  const requests = await prisma.$transaction(
+    caps.map((cap) =>
+      prisma.cAPExtensionRequest.create({
+        data: {
+          capId: cap.id,
+          currentDueDate: cap.dueDate,
+          proposedDate: input.proposedDate,
+          justification: input.justification,
+          requestedById: userId,
+        },
+      })
+    )
+  );
+
+  // One notification per review, listing its findings
+  const byReview = new Map<string, typeof caps>();
+  for (const cap of caps) {
+    byReview.set(cap.finding.reviewId, [...(byReview.get(cap.finding.reviewId) ?? []), cap]);
+  }
+
+  const coordinators = await getRecipientsByRole(["SUPER_ADMIN", "PROGRAMME_COORDINATOR"]);
+  const proposed = formatDate(input.proposedDate);
+
+  for (const [reviewId, reviewCaps] of byReview) {
+    const leads = await getReviewTeamRecipients(reviewId, ["LEAD_REVIEWER"]);
+    const references = reviewCaps.map((cap) => cap.finding.referenceNumber).join(", ");
+
+    await sendNotification(uniqueRecipients([...leads, ...coordinators]), {
+      type: NotificationType.CAP_EXTENSION_REQUESTED,
+      titleEn: "CAP Extension Requested",
+      titleFr: "Demande de prolongation de PAC",
+      messageEn: `An extension to ${proposed} has been requested for the Corrective Action Plan of finding(s) ${references}.`,
+      messageFr: `Une prolongation jusqu'au ${proposed} a été demandée pour le Plan d'Actions Correctives de la ou des constatation(s) ${references}.`,
+      entityType: "CAP",
+      entityId: reviewCaps[0].id,
+      actionUrl: `/caps/${reviewCaps[0].id}`,
+      actionLabelEn: "Review Request",
+      actionLabelFr: "Examiner la demande",
+      priority: NotificationPriority.NORMAL,
+    });
+  }
+
+  return requests;
+}
+
+// =============================================================================
+// DECISIONS
+// =============================================================================
+
+/**
+ * Approve or reject a pending extension request. Approval moves the CAP
+ * due date and extends its running SLA.
+ */
+export async function decideExtension(input: ExtensionDecisionInput, userId: string) {
+  const request = await prisma.cAPExtensionRequest.findUnique({
+    where: { id: input.requestId },
+    include: {
+      cap: {
+        select: {
+          id: true,
+          dueDate: true,
+          originalDueDate: true,
+          finding: { select: { referenceNumber: true } },
+        },
+      },
+    },
+  });
+
+  if (!request) {
+    throw new TRPCError({
+      code: "NOT_FOUND",
+      message: "Extension request not found",
+    });
+  }
+
+  const newStatus = input.approve ? "APPROVED" : "REJECTED";
+  if (!isValidExtensionTransition(request.status, newStatus)) {
+    throw new TRPCError({
+      code: "BAD_REQUEST",
+      message: `Cannot ${input.approve ? "approve" : "reject"} a ${request.status.toLowerCase()} extension request`,
+    });
+  }
+
+  const now = new Date();
+  const previousDueDate = request.cap.dueDate;
+
+  const updated = await prisma.$transaction(async (tx) => {
+    // Claim the request: only one decision can move it out of a pending status
+    const claimed = await tx.cAPExtensionRequest.updateMany({
+      where: { id: request.id, status: { in: PENDING_EXTENSION_STATUSES } },
+      data: {
+        status: newStatus,
+        decidedById: userId,
+        decidedAt: now,
+        decisionComment: input.comment,
+      },
+    });
+    if (claimed.count === 0) {
+      throw new TRPCError({
+        code: "CONFLICT",
+        message: "This extension request has already been decided or withdrawn",
+      });
+    }
+
+    const decided = await tx.cAPExtensionRequest.findUniqueOrThrow({
+      where: { id: request.id },
+    });
+
+    if (input.approve) {
+      await tx.correctiveActionPlan.update({
+        where: { id: request.capId },
+        data: {
+          dueDate: request.proposedDate,
+          originalDueDate: request.cap.originalDueDate ?? previousDueDate,
+        },
+      });
+    }
+
+    return decided;
+  });
+
+  if (input.approve) {
+    const sla = await slaService.getCurrentSLA("CAP", request.capId);
+    const days = extensionDays(previousDueDate, request.proposedDate);
+    if (sla && days > 0) {
+      await slaService.extendSLA(sla.id, days);
+    }
+  }
+
+  await notifyExtensionDecided(request.capId, request.requestedById, {
+    approved: input.approve,
+    referenceNumber: request.cap.finding.referenceNumber,
+    proposedDate: request.proposedDate,
+    comment: input.comment,
+  });
+
+  return { request: updated, previousDueDate };
+}
+
+// =============================================================================
+// NOTIFICATIONS
+// =============================================================================
+
+async function notifyExtensionDecided(
+  capId: string,
+  requestedById: string,
+  decision: { approved: boolean; referenceNumber: string; proposedDate: Date; comment?: string }
+) {
+  const requester = await prisma.user.findUnique({
+    where: { id: requestedById },
+    select: { organizationId: true },
+  });
+
+  const recipients = requester?.organizationId
+    ? await getRecipientsByRole(
+        ["ANSP_ADMIN", "SAFETY_MANAGER", "QUALITY_MANAGER"],
+        requester.organizationId
+      )
+    : [];
+
+  const date = formatDate(decision.proposedDate);
+  const comment = decision.comment ? ` ${decision.comment}` : "";
+
+  await sendNotification(recipients, {
+    type: NotificationType.CAP_EXTENSION_DECIDED,
+    titleEn: decision.approved ? "CAP Extension Approved" : "CAP Extension Rejected",
+    titleFr: decision.approved ? "Prolongation du PAC approuvée" : "Prolongation du PAC refusée",
+    messageEn: decision.approved
+      ? `The Corrective Action Plan for finding ${decision.referenceNumber} is now due on ${date}.${comment}`
+      : `The extension to ${date} for the Corrective Action Plan of finding ${decision.referenceNumber} was rejected.${comment}`,
+    messageFr: decision.approved
+      ? `Le Plan d'Actions Correctives pour la constatation ${decision.referenceNumber} est désormais dû le ${date}.${comment}`
+      : `La prolongation jusqu'au ${date} du Plan d'Actions Correctives pour la constatation ${decision.referenceNumber} a été refusée.${comment}`,
+    entityType: "CAP",
+    entityId: capId,
+    actionUrl: `/caps/${capId}`,
+    actionLabelEn: "View CAP",
+    actionLabelFr: "Voir le PAC",
+    priority: decision.approved ? NotificationPriority.NORMAL : NotificationPriority.HIGH,
+  });
+}
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+function uniqueRecipients(recipients: NotificationRecipient[]): NotificationRecipient[] {
+  return recipients.filter(
+    (recipient, index) => recipients.findIndex((r) => r.userId === recipient.userId) === index
+  );
+}
+
+function formatDate(date: Date): string {
+  return date.toISOString().split("T")[0];
+}
@@ -0,0 +1,266 @@
+/**
+ * Finding Import Service
+ *
+ * Bulk creation of findings drafted offline in a spreadsheet. Rows are
+ * checked against the review's areas in scope and its ANS questionnaire,
+ * rows without a severity get the active rule set's suggestion, and the
+ * findings are created with consecutive reference numbers in a single
+ * transaction.
+ */
+
+import { TRPCError } from "@trpc/server";
+import type { FindingSeverity, Prisma, USOAPAuditArea } from "@prisma/client";
+import { prisma } from "@/lib/db";
+import {
+  normalizePqNumber,
+  validateFindingImportRows,
+  type FindingImportQuestion,
+  type FindingImportRow,
+  type ValidatedFindingRow,
+} from "@/lib/finding/import-parser";
+import {
+  calculateSeveritySuggestionSync,
+  getActiveSeverityRuleSet,
+} from "@/server/services/severity-calculator";
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface ImportReview {
+  id: string;
+  hostOrganizationId: string;
+  areasInScope: string[];
+}
+
+export interface FindingImportPreviewRow extends ValidatedFindingRow {
+  /** Severity the finding will be created with */
+  severity: FindingSeverity | null;
+  severitySource: "FILE" | "SUGGESTED" | null;
+}
+
+export interface FindingImportPreview {
+  rows: FindingImportPreviewRow[];
+  summary: {
+    total: number;
+    valid: number;
+    invalid: number;
+    suggested: number;
+  };
+  ruleSetId: string | null;
+  ruleSetVersion: number;
+}
+
+interface QuestionDetails extends FindingImportQuestion {
+  auditArea: USOAPAuditArea | null;
+  isPriorityPQ: boolean;
+}
+
+// =============================================================================
+// REFERENCE NUMBERS
+// =============================================================================
+
+/**
+ * Finding reference number, e.g. FND-ASECNA-2026-007
+ */
+export function formatFindingReference(
+  organizationCode: string | null | undefined,
+  sequence: number,
+  year = new Date().getFullYear()
+): string {
+  return `FND-${organizationCode || "UNK"}-${year}-${String(sequence).padStart(3, "0")}`;
+}
+
+/**
+ * Next reference number for a finding of the review, numbered after the
+ * review's existing findings. Shared by every path that creates a single
+ * finding so they cannot drift apart.
+ */
+export async function generateFindingReference(
+  db: Prisma.TransactionClient,
+  organizationId: string,
+  reviewId: string
+): Promise<string> {
+  const [org, count] = await Promise.all([
+    db.organization.findUnique({
+      where: { id: organizationId },
+      select: { organizationCode: true },
+    }),
+    db.finding.count({ where: { reviewId } }),
+  ]);
+
+  return formatFindingReference(org?.organizationCode, count + 1);
+}
+
+// =============================================================================
+// PREVIEW
+// =============================================================================
+
+/**
+ * Questions of the review's ANS questionnaire, keyed by PQ number. Falls
+ * back to the active ANS questionnaires when the review has no assessment.
+ */
+async function getReviewQuestions(reviewId: string): Promise<Map<string, QuestionDetails>> {
+  const assessments = await prisma.assessment.findMany({
+    where: { reviewId, questionnaire: { type: "ANS_USOAP_CMA" } },
+    select: { questionnaireId: true },
+  });
+
+  const questions = await prisma.question.findMany({
+    where: {
+      pqNumber: { not: null },
+      questionnaire:
+        assessments.length > 0
+          ? { id: { in: assessments.map((a) => a.questionnaireId) } }
+          : { type: "ANS_USOAP_CMA", isActive: true },
+    },
+    select: {
+      id: true,
+      pqNumber: true,
+      reviewArea: true,
+      criticalElement: true,
+      auditArea: true,
+      isPriorityPQ: true,
+    },
+    orderBy: { questionnaire: { createdAt: "desc" } },
+  });
+
+  const byPq = new Map<string, QuestionDetails>();
+  for (const question of questions) {
+    const key = normalizePqNumber(question.pqNumber!);
+    // Latest edition wins when several are active
+    if (!byPq.has(key)) byPq.set(key, { ...question, pqNumber: question.pqNumber! });
+  }
+  return byPq;
+}
+
+/**
+ * Validate the rows and work out the severity each finding will get
+ */
+export async function previewFindingImport(
+  review: ImportReview,
+  rows: FindingImportRow[]
+): Promise<FindingImportPreview> {
+  const [questions, ruleSet] = await Promise.all([
+    getReviewQuestions(review.id),
+    getActiveSeverityRuleSet(),
+  ]);
+  const questionsById = new Map([...questions.values()].map((q) => [q.id, q]));
+
+  const validated = validateFindingImportRows(rows, {
+    areasInScope: review.areasInScope,
+    questions,
+  });
+
+  const previewRows = validated.map((result): FindingImportPreviewRow => {
+    const { finding } = result;
+    if (!finding) return { ...result, severity: null, severitySource: null };
+    if (finding.severity) return { ...result, severity: finding.severity, severitySource: "FILE" };
+
+    const question = finding.questionId ? questionsById.get(finding.questionId) : undefined;
+    const suggestion = calculateSeveritySuggestionSync(
+      {
+        titleEn: finding.titleEn,
+        titleFr: finding.titleFr,
+        descriptionEn: finding.descriptionEn,
+        descriptionFr: finding.descriptionFr,
+        findingType: finding.findingType,
+        icaoReference: finding.icaoReference,
+        criticalElement: finding.criticalElement,
+        reviewArea: finding.reviewArea,
+        auditArea: question?.auditArea,
+        isPriorityPQ: question?.isPriorityPQ ?? false,
+      },
+      ruleSet
+    );
+
+    return { ...result, severity: suggestion.suggested, severitySource: "SUGGESTED" };
+  });
+
+  const valid = previewRows.filter((r) => r.finding).length;
+
+  return {
+    rows: previewRows,
+    summary: {
+      total: previewRows.length,
+      valid,
+      invalid: previewRows.length - valid,
+      suggested: previewRows.filter((r) => r.severitySource === "SUGGESTED").length,
+    },
+    ruleSetId: ruleSet.id,
+    ruleSetVersion: ruleSet.version,
+  };
+}
+
+// =============================================================================
+// IMPORT
+// =============================================================================
+
+/**
+ * Create the findings of a fully valid import. Nothing is created when any
+ * row has errors.
+ */
+export async function importFindings(review: ImportReview, rows: FindingImportRow[]) {
+  const preview = await previewFindingImport(review, rows);
+
+  if (preview.summary.invalid > 0) {
+    throw new TRPCError({
+      code: "BAD_REQUEST",
+      message: `${preview.summary.invalid} of ${preview.summary.total} rows have errors. Correct them and import again.`,
+    });
+  }
+
+  const organization = await prisma.organization.findUnique({
+    where: { id: review.hostOrganizationId },
+    select: { organizationCode: true, id: true },
+  });
+
+  if (!organization) {
+    throw new TRPCError({ code: "NOT_FOUND", message: "Host organization not found" });
+  }
+
+  const identifiedAt = new Date();
+
+  return prisma.$transaction(
+    async (tx) => {
+      const existing = await tx.finding.count({ where: { reviewId: review.id } });
+
+      const created = [];
+      for (const [index, row] of preview.rows.entries()) {
+        const { pqNumber: _pqNumber, severity: _severity, ...finding } = row.finding!;
+        created.push(
+          await tx.finding.create({
+            data: {
+              ...finding,
+              reviewId: review.id,
+              organizationId: organization.id,
+              referenceNumber: formatFindingReference(
+                organization.organizationCode,
+                existing + index + 1
+              ),
+              severity: row.severity!,
+              suggestedSeverity: row.severitySource === "SUGGESTED" ? row.severity : null,
+              severityRuleSetId: row.severitySource === "SUGGESTED" ? preview.ruleSetId : null,
+              status: "OPEN",
+              identifiedAt,
+            },
+            select: {
+              id: true,
+              reviewId: true,
+              referenceNumber: true,
+              findingType: true,
+              severity: true,
+              titleEn: true,
+              titleFr: true,
+              descriptionEn: true,
+              descriptionFr: true,
+            },
+          })
+        );
+      }
+
+      return created;
+    },
+    { timeout: 60_000 }
+  );
+}
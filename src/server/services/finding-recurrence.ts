@@ -0,0 +1,268 @@
+/**
+ * Finding Recurrence Service
+ *
+ * Links a new finding to the same deficiency found in earlier reviews of
+ * the organisation. Matches are proposed automatically when a finding is
+ * created; a reviewer confirms or dismisses each proposal, and a finding
+ * counts as a repeat once one of its links is confirmed.
+ */
+
+import { TRPCError } from "@trpc/server";
+import type { ANSReviewArea, CriticalElement, FindingRecurrenceStatus } from "@prisma/client";
+import { prisma } from "@/lib/db";
+import {
+  buildPqChain,
+  isRecurrence,
+  scoreRecurrence,
+  type RecurrenceReason,
+  type RecurrenceSubject,
+} from "@/lib/finding/recurrence";
+import { getEditionChain } from "@/server/services/questionnaire-edition";
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+/** Most proposals kept per finding */
+const MAX_CANDIDATES = 10;
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface RecurrenceQuery {
+  organizationId: string;
+  /** Findings from this review are never treated as prior occurrences */
+  reviewId?: string;
+  /** Only findings created before this time are prior occurrences (default: now) */
+  before?: Date;
+  questionId?: string | null;
+  criticalElement?: CriticalElement | null;
+  reviewArea?: ANSReviewArea | null;
+  titleEn?: string;
+  descriptionEn: string;
+}
+
+export interface RecurrenceCandidate {
+  priorFindingId: string;
+  referenceNumber: string;
+  reviewReference: string;
+  score: number;
+  reasons: RecurrenceReason[];
+  textSimilarity: number;
+}
+
+// =============================================================================
+// MATCHING
+// =============================================================================
+
+/**
+ * PQ numbers and questionnaire editions the question belongs to
+ */
+async function getQuestionLineage(questionId: string) {
+  const question = await prisma.question.findUnique({
+    where: { id: questionId },
+    select: { pqNumber: true, questionnaireId: true },
+  });
+  if (!question?.pqNumber) return null;
+
+  const editions = await getEditionChain(question.questionnaireId);
+  const questionnaireIds = editions.map((e) => e.id);
+  const questions = await prisma.question.findMany({
+    where: { questionnaireId: { in: questionnaireIds } },
+    select: { pqNumber: true, previousPqNumber: true },
+  });
+
+  return {
+    questionnaireIds: new Set(questionnaireIds),
+    pqChain: buildPqChain(question.pqNumber, questions),
+  };
+}
+
+/**
+ * Prior findings of the organisation that look like earlier occurrences,
+ * best match first and the most recent first among equal matches
+ */
+export async function findRecurrenceCandidates(
+  query: RecurrenceQuery
+): Promise<RecurrenceCandidate[]> {
+  const lineage = query.questionId ? await getQuestionLineage(query.questionId) : null;
+
+  const priors = await prisma.finding.findMany({
+    where: {
+      organizationId: query.organizationId,
+      createdAt: { lt: query.before ?? new Date() },
+      ...(query.reviewId && { reviewId: { not: query.reviewId } }),
+    },
+    select: {
+      id: true,
+      referenceNumber: true,
+      questionId: true,
+      criticalElement: true,
+      reviewArea: true,
+      titleEn: true,
+      descriptionEn: true,
+      review: { select: { referenceNumber: true } },
+      question: { select: { pqNumber: true, questionnaireId: true } },
+    },
+    orderBy: { createdAt: "desc" },
+  });
+
+  const current: RecurrenceSubject = {
+    questionId: query.questionId ?? null,
+    pqNumber: null,
+    criticalElement: query.criticalElement ?? null,
+    reviewArea: query.reviewArea ?? null,
+    titleEn: query.titleEn ?? "",
+    descriptionEn: query.descriptionEn,
+  };
+
+  const candidates: RecurrenceCandidate[] = [];
+  for (const prior of priors) {
+    // PQ numbers are only comparable within the same questionnaire lineage
+    const inLineage =
+      !!prior.question && !!lineage?.questionnaireIds.has(prior.question.questionnaireId);
+
+    const match = scoreRecurrence(
+      current,
+      { ...prior, pqNumber: inLineage ? prior.question!.pqNumber : null },
+      lineage?.pqChain
+    );
+    if (!isRecurrence(match)) continue;
+
+    candidates.push({
+      priorFindingId: prior.id,
+      referenceNumber: prior.referenceNumber,
+      reviewReference: prior.review.referenceNumber,
+      ...match,
+    });
+  }
+
+  // Stable sort: equal scores keep the most recent finding first
+  return candidates.sort((a, b) => b.score - a.score).slice(0, MAX_CANDIDATES);
+}
+
+/**
+ * Store candidates as proposed links. Links a reviewer already confirmed
+ * or dismissed are left as they are.
+ *
+ * @returns Number of new proposals
+ */
+export async function saveRecurrenceProposals(
+  findingId: string,
+  candidates: RecurrenceCandidate[]
+): Promise<number> {
+  if (candidates.length === 0) return 0;
+
+  const result = await prisma.findingRecurrence.createMany({
+    data: candidates.map((c) => ({
+      findingId,
+      priorFindingId: c.priorFindingId,
+      score: c.score,
+      reasons: c.reasons,
+      textSimilarity: c.textSimilarity,
+    })),
+    skipDuplicates: true,
+  });
+
+  return result.count;
+}
+
+/**
+ * Run the matcher for an existing finding and store its proposals
+ */
+export async function detectRecurrences(findingId: string): Promise<number> {
+  const finding = await prisma.finding.findUnique({
+    where: { id: findingId },
+    select: {
+      organizationId: true,
+      reviewId: true,
+      questionId: true,
+      criticalElement: true,
+      reviewArea: true,
+      titleEn: true,
+      descriptionEn: true,
+      createdAt: true,
+    },
+  });
+
+  if (!finding) {
+    throw new TRPCError({ code: "NOT_FOUND", message: "Finding not found" });
+  }
+
+  const { createdAt, ...query } = finding;
+  return saveRecurrenceProposals(
+    findingId,
+    await findRecurrenceCandidates({ ...query, before: createdAt })
+  );
+}
+
+// =============================================================================
+// REVIEW
+// =============================================================================
+
+/**
+ * Confirm or dismiss a proposed link and refresh the finding's repeat flag
+ */
+export async function reviewRecurrence(
+  id: string,
+  status: Exclude<FindingRecurrenceStatus, "PROPOSED">,
+  reviewedById: string
+) {
+  const link = await prisma.findingRecurrence.findUnique({ where: { id } });
+
+  if (!link) {
+    throw new TRPCError({ code: "NOT_FOUND", message: "Repeat finding link not found" });
+  }
+
+  return prisma.$transaction(async (tx) => {
+    const updated = await tx.findingRecurrence.update({
+      where: { id },
+      data: { status, reviewedById, reviewedAt: new Date() },
+    });
+
+    const confirmed = await tx.findingRecurrence.count({
+      where: { findingId: link.findingId, status: "CONFIRMED" },
+    });
+    await tx.finding.update({
+      where: { id: link.findingId },
+      data: { isRepeat: confirmed > 0 },
+    });
+
+    return updated;
+  });
+}
+
+const linkedFindingSelect = {
+  id: true,
+  referenceNumber: true,
+  titleEn: true,
+  titleFr: true,
+  severity: true,
+  status: true,
+  createdAt: true,
+  review: { select: { id: true, referenceNumber: true } },
+} as const;
+
+/**
+ * Earlier occurrences of a finding and later findings that repeat it
+ */
+export async function getFindingRecurrences(findingId: string) {
+  const [priors, later] = await Promise.all([
+    prisma.findingRecurrence.findMany({
+      where: { findingId, status: { not: "DISMISSED" } },
+      include: {
+        priorFinding: { select: linkedFindingSelect },
+        reviewedBy: { select: { firstName: true, lastName: true } },
+      },
+      orderBy: { score: "desc" },
+    }),
+    prisma.findingRecurrence.findMany({
+      where: { priorFindingId: findingId, status: "CONFIRMED" },
+      include: { finding: { select: linkedFindingSelect } },
+      orderBy: { createdAt: "desc" },
+    }),
+  ]);
+
+  return { priors, later };
+}
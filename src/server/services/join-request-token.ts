@@ -0,0 +1,175 @@
+/**
+ * Join Request Tokens
+ *
+ * Signed, stateless tokens for the public application flow:
+ * - Status tokens let applicants follow their programme application and
+ *   answer information requests without an account.
+ * - Form tokens record, server-side, when the application form was opened
+ *   so implausibly fast submissions can be rejected as automated.
+ * Format: base64url(payload).base64url(HMAC-SHA256(payload)).
+ */
+
+import crypto from "crypto";
+
+/** Applications can spend months in SC review; keep links valid for a year */
+const TOKEN_TTL_MS = 365 * 24 * 60 * 60 * 1000;
+
+/** A form left open longer than this must be reloaded before submitting */
+const FORM_TOKEN_TTL_MS = 24 * 60 * 60 * 1000;
+
+/** Submissions faster than this after the form was opened are automated */
+export const MIN_FORM_FILL_MS = 5_000;
+
+interface StatusTokenPayload {
+  /** Join request ID */
+  rid: string;
+  /** Expiry (epoch milliseconds) */
+  exp: number;
+}
+
+interface FormTokenPayload {
+  /** Time the form was opened (epoch milliseconds) */
+  iat: number;
+}
+
+type TokenPurpose = "join-request-status" | "join-request-form";
+
+function getSigningSecret(): string {
+  const secret = process.env.AUTH_SECRET || process.env.NEXTAUTH_SECRET;
+  if (!secret) {
+    throw new Error("AUTH_SECRET is required to sign join request tokens");
+  }
+  return secret;
+}
+
+function sign(purpose: TokenPurpose, encodedPayload: string): string {
+  return crypto
+    .createHmac("sha256", getSigningSecret())
+    .update(`${purpose}:${encodedPayload}`)
+    .digest("base64url");
+}
+
+function encode(purpose: TokenPurpose, payload: object): string {
+  const encodedPayload = Buffer.from(JSON.stringify(payload)).toString(
+    "base64url"
+  );
+  return `${encodedPayload}.${sign(purpose, encodedPayload)}`;
+}
+
+/**
+ * Check the signature and decode the payload; null when malformed or
+ * tampered with.
+ */
+function decode<T>(purpose: TokenPurpose, token: string): Partial<T> | null {
+  const [encodedPayload, signature, ...rest] = token.split(".");
+  if (!encodedPayload || !signature || rest.length > 0) {
+    return null;
+  }
+
+  const expected = Buffer.from(sign(purpose, encodedPayload));
+  const provided = Buffer.from(signature);
+  if (
+    expected.length !== provided.length ||
+    !crypto.timingSafeEqual(expected, provided)
+  ) {
+    return null;
+  }
+
+  try {
+    return JSON.parse(
+      Buffer.from(encodedPayload, "base64url").toString("utf8")
+    ) as Partial<T>;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Create a status token for a join request
+ */
+export function createJoinRequestStatusToken(
+  joinRequestId: string,
+  now: Date = new Date()
+): string {
+  const payload: StatusTokenPayload = {
+    rid: joinRequestId,
+    exp: now.getTime() + TOKEN_TTL_MS,
+  };
+  return encode("join-request-status", payload);
+}
+
+/**
+ * Verify a status token and return the join request ID it grants access to.
+ * Returns null for malformed, tampered or expired tokens.
+ */
+export function verifyJoinRequestStatusToken(
+  token: string,
+  now: Date = new Date()
+): string | null {
+  const payload = decode<StatusTokenPayload>("join-request-status", token);
+  if (!payload) {
+    return null;
+  }
+  if (typeof payload.rid !== "string" || typeof payload.exp !== "number") {
+    return null;
+  }
+  if (payload.exp < now.getTime()) {
+    return null;
+  }
+  return payload.rid;
+}
+
+/**
+ * Create a form token stamped with the time the application form was opened
+ */
+export function createJoinFormToken(now: Date = new Date()): string {
+  const payload: FormTokenPayload = { iat: now.getTime() };
+  return encode("join-request-form", payload);
+}
+
+/**
+ * Verify a form token and return when the form was opened (epoch
+ * milliseconds). Returns null for malformed, tampered, future or expired
+ * tokens.
+ */
+export function verifyJoinFormToken(
+  token: string,
+  now: Date = new Date()
+): number | null {
+  const payload = decode<FormTokenPayload>("join-request-form", token);
+  if (!payload || typeof payload.iat !== "number") {
+    return null;
+  }
+  if (payload.iat > now.getTime() || now.getTime() - payload.iat > FORM_TOKEN_TTL_MS) {
+    return null;
+  }
+  return payload.iat;
+}
+
+/**
+ * Spam check for a public application: the honeypot must be empty and the
+ * form must have been opened, per a valid form token, at least
+ * MIN_FORM_FILL_MS earlier.
+ */
+export function isAutomatedSubmission(
+  input: { website?: string; formToken: string },
+  now: Date = new Date()
+): boolean {
+  if (input.website) {
+    return true;
+  }
+  const openedAt = verifyJoinFormToken(input.formToken, now);
+  return openedAt === null || now.getTime() - openedAt < MIN_FORM_FILL_MS;
+}
+
+/**
+ * Build the absolute URL of the applicant status page
+ */
+export function buildJoinRequestStatusUrl(
+  joinRequestId: string,
+  locale: string = "en"
+): string {
+  const baseUrl = process.env.NEXT_PUBLIC_APP_URL || "http://localhost:3000";
+  const token = createJoinRequestStatusToken(joinRequestId);
+  return `${baseUrl}/${locale}/join/status/${token}`;
+}
@@ -0,0 +1,276 @@
+/**
+ * Mentorship Service
+ *
+ * Access checks, outcome reporting and notifications for mentorships
+ * between ANSPs. Completing a mentorship records the mentee's outcome and
+ * creates or updates its BestPracticeAdoption of the practice, so adoption
+ * figures reflect practices implemented through mentoring.
+ */
+
+import { TRPCError } from "@trpc/server";
+import { prisma } from "@/lib/db";
+import { OVERSIGHT_ROLES } from "@/lib/permissions";
+import {
+  isValidMentorshipTransition,
+  mentorshipSide,
+  type MentorshipSide,
+} from "@/lib/mentorship/lifecycle";
+import { getRecipientsByRole, notifyUsers } from "@/server/services/notification-service";
+import { NotificationType, NotificationPriority, UserRole } from "@prisma/client";
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface MentorshipUser {
+  id: string;
+  role: UserRole;
+  organizationId: string | null;
+}
+
+export interface CompleteMentorshipInput {
+  mentorshipId: string;
+  outcomeSummary: string;
+  outcomeRating: number;
+  implementationStatus: "PLANNED" | "IN_PROGRESS" | "COMPLETED";
+}
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+/**
+ * Organization roles that accept, decline and close mentorships
+ */
+export const MENTORSHIP_MANAGE_ROLES: UserRole[] = [
+  "ANSP_ADMIN",
+  "SAFETY_MANAGER",
+  "QUALITY_MANAGER",
+];
+
+// =============================================================================
+// ACCESS
+// =============================================================================
+
+/**
+ * Load a mentorship the user can see, with the user's side (null for
+ * programme oversight roles, who see every mentorship).
+ */
+export async function getMentorshipForUser(mentorshipId: string, user: MentorshipUser) {
+  const mentorship = await prisma.mentorshipRequest.findUnique({
+    where: { id: mentorshipId },
+    include: {
+      bestPractice: { select: { id: true, referenceNumber: true, titleEn: true, titleFr: true } },
+      requestingOrg: { select: { nameEn: true, nameFr: true } },
+      targetOrg: { select: { nameEn: true, nameFr: true } },
+    },
+  });
+
+  if (!mentorship) {
+    throw new TRPCError({
+      code: "NOT_FOUND",
+      message: "Mentorship not found",
+    });
+  }
+
+  const side = mentorshipSide(mentorship, user.organizationId);
+  if (!side && !OVERSIGHT_ROLES.includes(user.role)) {
+    throw new TRPCError({
+      code: "FORBIDDEN",
+      message: "You do not have access to this mentorship",
+    });
+  }
+
+  return { mentorship, side };
+}
+
+/**
+ * Require the user to be on one side of the mentorship (optionally a
+ * specific side) and, for management actions, to hold a management role.
+ * The original requester can always act for the mentee side.
+ */
+export function assertMentorshipActor(
+  mentorship: { requesterId: string },
+  side: MentorshipSide | null,
+  user: MentorshipUser,
+  options: { side?: MentorshipSide; manage?: boolean } = {}
+): MentorshipSide {
+  if (!side || (options.side && side !== options.side)) {
+    throw new TRPCError({
+      code: "FORBIDDEN",
+      message:
+        options.side === "MENTOR"
+          ? "Only the mentoring organization can do this"
+          : options.side === "MENTEE"
+            ? "Only the mentored organization can do this"
+            : "Only the organizations in this mentorship can do this",
+    });
+  }
+
+  if (
+    options.manage &&
+    !MENTORSHIP_MANAGE_ROLES.includes(user.role) &&
+    !(side === "MENTEE" && mentorship.requesterId === user.id)
+  ) {
+    throw new TRPCError({
+      code: "FORBIDDEN",
+      message: "Only organization managers can do this",
+    });
+  }
+
+  return side;
+}
+
+// =============================================================================
+// OUTCOME
+// =============================================================================
+
+/**
+ * Close an active mentorship with the mentee's outcome report and record
+ * the result as the mentee's adoption of the practice.
+ */
+export async function completeMentorship(input: CompleteMentorshipInput, userId: string) {
+  const mentorship = await prisma.mentorshipRequest.findUnique({
+    where: { id: input.mentorshipId },
+    select: { id: true, status: true, bestPracticeId: true, requestingOrgId: true },
+  });
+
+  if (!mentorship) {
+    throw new TRPCError({
+      code: "NOT_FOUND",
+      message: "Mentorship not found",
+    });
+  }
+
+  if (!isValidMentorshipTransition(mentorship.status, "COMPLETED")) {
+    throw new TRPCError({
+      code: "BAD_REQUEST",
+      message: "Only active mentorships can be completed",
+    });
+  }
+
+  const now = new Date();
+  const completedAt = input.implementationStatus === "COMPLETED" ? now : null;
+
+  return prisma.$transaction(async (tx) => {
+    // Claim the mentorship so a repeated completion cannot record twice
+    const claimed = await tx.mentorshipRequest.updateMany({
+      where: { id: mentorship.id, status: mentorship.status },
+      data: {
+        status: "COMPLETED",
+        closedAt: now,
+        closedById: userId,
+        outcomeSummary: input.outcomeSummary,
+        outcomeRating: input.outcomeRating,
+      },
+    });
+    if (claimed.count === 0) {
+      throw new TRPCError({
+        code: "CONFLICT",
+        message: "This mentorship has already been closed",
+      });
+    }
+
+    const adoption = await tx.bestPracticeAdoption.upsert({
+      where: {
+        bestPracticeId_organizationId: {
+          bestPracticeId: mentorship.bestPracticeId,
+          organizationId: mentorship.requestingOrgId,
+        },
+      },
+      create: {
+        bestPracticeId: mentorship.bestPracticeId,
+        organizationId: mentorship.requestingOrgId,
+        adoptedById: userId,
+        implementationNotes: input.outcomeSummary,
+        implementationStatus: input.implementationStatus,
+        completedAt,
+      },
+      update: {
+        implementationStatus: input.implementationStatus,
+        completedAt,
+      },
+    });
+
+    return tx.mentorshipRequest.update({
+      where: { id: mentorship.id },
+      data: { adoptionId: adoption.id },
+    });
+  });
+}
+
+// =============================================================================
+// NOTIFICATIONS
+// =============================================================================
+
+/**
+ * Managers of one side of the mentorship, plus the requester on the
+ * mentee side
+ */
+async function getSideRecipientIds(
+  mentorship: { requestingOrgId: string; targetOrgId: string; requesterId: string },
+  side: MentorshipSide
+): Promise<string[]> {
+  const orgId = side === "MENTOR" ? mentorship.targetOrgId : mentorship.requestingOrgId;
+  const managers = await getRecipientsByRole(MENTORSHIP_MANAGE_ROLES, orgId);
+  const userIds = managers.map((r) => r.userId);
+
+  if (side === "MENTEE" && !userIds.includes(mentorship.requesterId)) {
+    userIds.push(mentorship.requesterId);
+  }
+
+  return userIds;
+}
+
+/**
+ * Tell the mentoring organization about a new request
+ */
+export async function notifyMentorshipRequested(mentorshipId: string) {
+  const mentorship = await prisma.mentorshipRequest.findUnique({
+    where: { id: mentorshipId },
+    include: {
+      bestPractice: { select: { referenceNumber: true, titleEn: true, titleFr: true } },
+      requestingOrg: { select: { nameEn: true, nameFr: true } },
+    },
+  });
+  if (!mentorship) return;
+
+  const recipientIds = await getSideRecipientIds(mentorship, "MENTOR");
+
+  await notifyUsers(recipientIds, {
+    type: NotificationType.MENTORSHIP_REQUESTED,
+    titleEn: "Mentorship Requested",
+    titleFr: "Demande d'accompagnement",
+    messageEn: `${mentorship.requestingOrg.nameEn} has asked your organization for mentorship on "${mentorship.bestPractice.titleEn}" (${mentorship.bestPractice.referenceNumber}).`,
+    messageFr: `${mentorship.requestingOrg.nameFr} sollicite l'accompagnement de votre organisation pour « ${mentorship.bestPractice.titleFr} » (${mentorship.bestPractice.referenceNumber}).`,
+    entityType: "MentorshipRequest",
+    entityId: mentorship.id,
+    actionUrl: `/best-practices/mentorships/${mentorship.id}`,
+    actionLabelEn: "Review Request",
+    actionLabelFr: "Examiner la demande",
+    priority: NotificationPriority.NORMAL,
+  });
+}
+
+/**
+ * Tell one side of the mentorship that the other side changed it
+ */
+export async function notifyMentorshipUpdated(
+  mentorship: { id: string; requestingOrgId: string; targetOrgId: string; requesterId: string },
+  recipientSide: MentorshipSide,
+  content: { titleEn: string; titleFr: string; messageEn: string; messageFr: string },
+  priority: NotificationPriority = NotificationPriority.NORMAL
+) {
+  const recipientIds = await getSideRecipientIds(mentorship, recipientSide);
+
+  await notifyUsers(recipientIds, {
+    type: NotificationType.MENTORSHIP_UPDATED,
+    ...content,
+    entityType: "MentorshipRequest",
+    entityId: mentorship.id,
+    actionUrl: `/best-practices/mentorships/${mentorship.id}`,
+    actionLabelEn: "View Mentorship",
+    actionLabelFr: "Voir l'accompagnement",
+    priority,
+  });
+}
@@ -7,10 +7,13 @@
 
 import { prisma } from "@/lib/db";
 import { Resend } from "resend";
+import { queueNotificationsForDigest } from "@/server/services/notification/digest-schedule";
 import type {
+  DigestFrequency,
   NotificationType,
   NotificationPriority,
   UserRole,
+  TeamRole,
   Locale,
   Prisma,
 } from "@prisma/client";
@@ -50,6 +53,10 @@ export interface NotificationRecipient {
   email: string;
   locale: Locale;
   emailNotifications: boolean;
+  /** DAILY/WEEKLY recipients get emails batched into digests */
+  digestFrequency?: DigestFrequency;
+  /** IANA timezone used to schedule digests */
+  timezone?: string;
   firstName?: string;
   lastName?: string;
 }
@@ -131,6 +138,11 @@ export async function sendNotification(
 
     for (const recipient of emailRecipients) {
       try {
+        if (usesDigest(recipient, payload)) {
+          await addToDigest(recipient, payload);
+          continue;
+        }
+
         const sent = await sendNotificationEmail(recipient, payload, options);
         if (sent) {
           result.emailCount++;
@@ -163,6 +175,50 @@ export async function sendNotification(
   return result;
 }
 
+/**
+ * Whether a recipient's email should be batched into a digest.
+ * URGENT notifications are always emailed immediately.
+ */
+function usesDigest(
+  recipient: NotificationRecipient,
+  payload: NotificationPayload
+): boolean {
+  return (
+    (recipient.digestFrequency === "DAILY" ||
+      recipient.digestFrequency === "WEEKLY") &&
+    payload.priority !== "URGENT"
+  );
+}
+
+/**
+ * Queue the recipient's just-created notification for their next digest.
+ */
+async function addToDigest(
+  recipient: NotificationRecipient,
+  payload: NotificationPayload
+): Promise<void> {
+  const notification = await prisma.notification.findFirst({
+    where: {
+      userId: recipient.userId,
+      type: payload.type,
+      entityType: payload.entityType ?? undefined,
+      entityId: payload.entityId ?? undefined,
+      emailSentAt: null,
+    },
+    orderBy: { createdAt: "desc" },
+    select: { id: true },
+  });
+
+  if (!notification || !recipient.digestFrequency) return;
+
+  await queueNotificationsForDigest(
+    recipient.userId,
+    [notification.id],
+    recipient.digestFrequency,
+    recipient.timezone ?? "UTC"
+  );
+}
+
 /**
  * Send a single notification email.
  * Uses locale to select EN/FR content.
@@ -310,6 +366,7 @@ export async function getRecipientsByRole(
       preferences: {
         select: {
           emailNotifications: true,
+          digestFrequency: true,
         },
       },
     },
@@ -320,6 +377,8 @@ export async function getRecipientsByRole(
     email: user.email,
     locale: user.locale,
     emailNotifications: user.preferences?.emailNotifications ?? true,
+    digestFrequency: user.preferences?.digestFrequency,
+    timezone: user.timezone,
     firstName: user.firstName,
     lastName: user.lastName,
   }));
@@ -327,17 +386,21 @@ export async function getRecipientsByRole(
 
 /**
  * Get notification recipients for a specific review team.
- * Returns all team members (lead, reviewers, experts, observers, trainees).
+ * Returns all team members (lead, reviewers, experts, observers, trainees)
+ * unless restricted to some roles.
  *
  * @param reviewId - The review ID to get team members for
+ * @param roles - Optional team roles to restrict to (e.g. the lead reviewer)
  * @returns Array of notification recipients
  */
 export async function getReviewTeamRecipients(
-  reviewId: string
+  reviewId: string,
+  roles?: TeamRole[]
 ): Promise<NotificationRecipient[]> {
   const teamMembers = await prisma.reviewTeamMember.findMany({
     where: {
       reviewId,
+      ...(roles && { role: { in: roles } }),
     },
     include: {
       user: {
@@ -345,6 +408,7 @@ export async function getReviewTeamRecipients(
           preferences: {
             select: {
               emailNotifications: true,
+              digestFrequency: true,
             },
           },
         },
@@ -359,6 +423,8 @@ export async function getReviewTeamRecipients(
       email: tm.user.email,
       locale: tm.user.locale,
       emailNotifications: tm.user.preferences?.emailNotifications ?? true,
+      digestFrequency: tm.user.preferences?.digestFrequency,
+      timezone: tm.user.timezone,
       firstName: tm.user.firstName,
       lastName: tm.user.lastName,
     }));
@@ -422,6 +488,7 @@ export async function notifyUser(
       preferences: {
         select: {
           emailNotifications: true,
+          digestFrequency: true,
         },
       },
     },
@@ -436,6 +503,8 @@ export async function notifyUser(
     email: user.email,
     locale: user.locale,
     emailNotifications: user.preferences?.emailNotifications ?? true,
+    digestFrequency: user.preferences?.digestFrequency,
+    timezone: user.timezone,
     firstName: user.firstName,
     lastName: user.lastName,
   };
@@ -457,6 +526,7 @@ export async function notifyUsers(
       preferences: {
         select: {
           emailNotifications: true,
+          digestFrequency: true,
         },
       },
     },
@@ -467,6 +537,8 @@ export async function notifyUsers(
     email: user.email,
     locale: user.locale,
     emailNotifications: user.preferences?.emailNotifications ?? true,
+    digestFrequency: user.preferences?.digestFrequency,
+    timezone: user.timezone,
     firstName: user.firstName,
     lastName: user.lastName,
   }));
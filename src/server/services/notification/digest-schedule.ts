@@ -0,0 +1,169 @@
+import { db } from "@/lib/db";
+import type { DigestFrequency } from "@prisma/client";
+
+/** Local hour at which digests are delivered */
+export const DIGEST_DELIVERY_HOUR = 8;
+
+/** Weekly digests go out on Mondays (0 = Sunday) */
+const WEEKLY_DELIVERY_DAY = 1;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+interface ZonedParts {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+  weekday: number;
+}
+
+const WEEKDAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+/**
+ * Return the timezone if the runtime knows it, otherwise UTC
+ */
+export function resolveTimezone(timezone: string | null | undefined): string {
+  if (!timezone) return "UTC";
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: timezone });
+    return timezone;
+  } catch {
+    return "UTC";
+  }
+}
+
+function getZonedParts(date: Date, timezone: string): ZonedParts {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone: timezone,
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    weekday: "short",
+    hour12: false,
+  }).formatToParts(date);
+
+  const get = (type: Intl.DateTimeFormatPartTypes) =>
+    parts.find((p) => p.type === type)?.value ?? "";
+
+  return {
+    year: Number(get("year")),
+    month: Number(get("month")),
+    day: Number(get("day")),
+    // Some runtimes format midnight as "24"
+    hour: Number(get("hour")) % 24,
+    minute: Number(get("minute")),
+    weekday: WEEKDAYS.indexOf(get("weekday")),
+  };
+}
+
+/**
+ * Convert a wall-clock time in a timezone to a UTC instant
+ */
+function zonedTimeToUtc(
+  year: number,
+  month: number,
+  day: number,
+  hour: number,
+  timezone: string
+): Date {
+  const wallClock = Date.UTC(year, month - 1, day, hour);
+  let instant = wallClock;
+
+  // Two passes settle the offset across DST transitions
+  for (let i = 0; i < 2; i++) {
+    const parts = getZonedParts(new Date(instant), timezone);
+    const observed = Date.UTC(
+      parts.year,
+      parts.month - 1,
+      parts.day,
+      parts.hour,
+      parts.minute
+    );
+    instant += wallClock - observed;
+  }
+
+  return new Date(instant);
+}
+
+/**
+ * Next digest delivery time for a frequency, at DIGEST_DELIVERY_HOUR in the
+ * user's timezone: the next such hour for daily digests, the next Monday
+ * for weekly ones. IMMEDIATE returns `now`.
+ */
+export function getNextDigestTime(
+  frequency: DigestFrequency,
+  timezone: string,
+  now: Date = new Date()
+): Date {
+  if (frequency !== "DAILY" && frequency !== "WEEKLY") {
+    return now;
+  }
+
+  const zone = resolveTimezone(timezone);
+  const local = getZonedParts(now, zone);
+
+  // Walk forward over local calendar days until a matching slot is after now
+  for (let offset = 0; offset <= 8; offset++) {
+    const date = new Date(
+      Date.UTC(local.year, local.month - 1, local.day) + offset * DAY_MS
+    );
+    if (frequency === "WEEKLY" && date.getUTCDay() !== WEEKLY_DELIVERY_DAY) {
+      continue;
+    }
+
+    const candidate = zonedTimeToUtc(
+      date.getUTCFullYear(),
+      date.getUTCMonth() + 1,
+      date.getUTCDate(),
+      DIGEST_DELIVERY_HOUR,
+      zone
+    );
+    if (candidate > now) {
+      return candidate;
+    }
+  }
+
+  // Unreachable: a matching day always exists within 8 days
+  return new Date(now.getTime() + DAY_MS);
+}
+
+/**
+ * Add notifications to the user's next pending digest for a frequency,
+ * creating the digest if none is scheduled yet.
+ */
+export async function queueNotificationsForDigest(
+  userId: string,
+  notificationIds: string[],
+  frequency: DigestFrequency,
+  timezone: string,
+  now: Date = new Date()
+) {
+  const pending = await db.notificationDigest.findFirst({
+    where: {
+      userId,
+      frequency,
+      sentAt: null,
+      scheduledFor: { gt: now },
+    },
+    orderBy: { scheduledFor: "asc" },
+  });
+
+  if (pending) {
+    return db.notificationDigest.update({
+      where: { id: pending.id },
+      data: { notificationIds: { push: notificationIds } },
+    });
+  }
+
+  return db.notificationDigest.create({
+    data: {
+      userId,
+      frequency,
+      scheduledFor: getNextDigestTime(frequency, timezone, now),
+      notificationIds,
+    },
+  });
+}
@@ -6,6 +6,11 @@ export {
   notificationService,
   NotificationService,
 } from "./notification-service";
+export {
+  getNextDigestTime,
+  queueNotificationsForDigest,
+  resolveTimezone,
+} from "./digest-schedule";
 export type { NotificationPreferences } from "./preference-service";
 export type {
   CreateNotificationInput,
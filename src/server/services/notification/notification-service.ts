@@ -6,6 +6,7 @@ import type {
   Prisma,
 } from "@prisma/client";
 import { notificationPreferenceService } from "./preference-service";
+import { queueNotificationsForDigest } from "./digest-schedule";
 
 export interface CreateNotificationInput {
   userId: string;
@@ -206,37 +207,14 @@ export class NotificationService {
       },
     });
 
-    // Find or create digest for this user/frequency
-    const scheduledFor = this.getNextDigestTime(frequency);
-
-    let digest = await db.notificationDigest.findFirst({
-      where: {
-        userId,
-        frequency,
-        scheduledFor,
-        sentAt: null,
-      },
-    });
-
-    if (digest) {
-      // Add to existing digest
-      await db.notificationDigest.update({
-        where: { id: digest.id },
-        data: {
-          notificationIds: [...digest.notificationIds, notification.id],
-        },
-      });
-    } else {
-      // Create new digest
-      digest = await db.notificationDigest.create({
-        data: {
-          userId,
-          frequency,
-          scheduledFor,
-          notificationIds: [notification.id],
-        },
-      });
-    }
+    // Add to the user's next digest, scheduled in their timezone
+    const prefs = await notificationPreferenceService.getPreferences(userId);
+    const digest = await queueNotificationsForDigest(
+      userId,
+      [notification.id],
+      frequency,
+      prefs.timezone
+    );
 
     return {
       created: true,
@@ -245,28 +223,6 @@ export class NotificationService {
     };
   }
 
-  /**
-   * Calculate next digest delivery time
-   */
-  private getNextDigestTime(frequency: DigestFrequency): Date {
-    const now = new Date();
-
-    if (frequency === "DAILY") {
-      const next = new Date(now);
-      next.setDate(next.getDate() + 1);
-      next.setHours(8, 0, 0, 0); // 8 AM next day
-      return next;
-    } else if (frequency === "WEEKLY") {
-      const next = new Date(now);
-      const daysUntilMonday = (8 - next.getDay()) % 7 || 7;
-      next.setDate(next.getDate() + daysUntilMonday);
-      next.setHours(8, 0, 0, 0); // 8 AM next Monday
-      return next;
-    }
-
-    return now;
-  }
-
   /**
    * Queue an email notification for sending
    */
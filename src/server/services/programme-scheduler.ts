@@ -0,0 +1,399 @@
+/**
+ * Programme Scheduler Service
+ *
+ * Loads unstaffed PLANNING reviews and the selected reviewer pool, resolves
+ * per-review exclusions (COI via `checkReviewerCOI`, expanded availability,
+ * lead qualification via `getLeadQualificationStatus`) and hands them to the
+ * programme scheduler. Applying a plan re-checks every assignment against
+ * the database before team members are created.
+ */
+
+import type { ANSReviewArea, ExpertiseArea, Language, LanguagePreference } from "@prisma/client";
+import { prisma } from "@/lib/db";
+import { checkReviewerCOI } from "@/lib/coi/detection";
+import {
+  availabilityWindowFilter,
+  isAvailableThroughout,
+} from "@/lib/availability/recurrence";
+import { AAPRP_REVIEW_AREAS, reviewAreaToExpertise } from "@/lib/review-areas";
+import { REVIEWER_CAPACITY } from "@/lib/reviewer/constants";
+import {
+  scheduleProgrammeTeams,
+  type ProgrammeCandidate,
+  type ProgrammeReview,
+  type ProgrammeSchedule,
+} from "@/lib/reviewer/programme-scheduler";
+import { getLeadQualificationStatus } from "@/server/services/reviewer-eligibility";
+import { notifyTeamAssigned } from "@/server/services/notification-service";
+import { logAssignment } from "@/server/services/audit";
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface ProgrammePlanOptions {
+  /** Restrict the batch to these reviews; defaults to every unstaffed PLANNING review */
+  reviewIds?: string[];
+  teamSize: number;
+  maxReviewsPerReviewer: number;
+}
+
+export interface SkippedReview {
+  reviewId: string;
+  referenceNumber: string;
+  reason: "NO_DATES" | "ALREADY_STAFFED";
+}
+
+export interface ProgrammePlanResult extends ProgrammeSchedule {
+  skipped: SkippedReview[];
+}
+
+export interface ProgrammeTeamInput {
+  reviewId: string;
+  members: {
+    userId: string;
+    reviewerProfileId: string;
+    role: "LEAD_REVIEWER" | "REVIEWER";
+  }[];
+}
+
+export interface ApplyProgrammeResult {
+  applied: string[];
+  rejected: { reviewId: string; reason: string }[];
+}
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+/** Reviews that already hold a reviewer's time and count toward the cap */
+const COMMITTED_STATUSES = ["PLANNING", "SCHEDULED", "IN_PROGRESS"] as const;
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+function languagesFor(preference: LanguagePreference): Language[] {
+  return preference === "BOTH" ? ["EN", "FR"] : [preference];
+}
+
+function expertiseFor(areasInScope: string[]): ExpertiseArea[] {
+  const areas = areasInScope.filter((a): a is ANSReviewArea =>
+    AAPRP_REVIEW_AREAS.includes(a as ANSReviewArea)
+  );
+  return [...new Set(areas.flatMap(reviewAreaToExpertise))];
+}
+
+function overlaps(
+  a: { startDate: Date; endDate: Date },
+  b: { startDate: Date; endDate: Date }
+): boolean {
+  return a.startDate <= b.endDate && b.startDate <= a.endDate;
+}
+
+// =============================================================================
+// PLANNING
+// =============================================================================
+
+/**
+ * Build a team plan for a batch of unstaffed PLANNING reviews.
+ */
+export async function planProgrammeTeams(
+  options: ProgrammePlanOptions
+): Promise<ProgrammePlanResult> {
+  const rows = await prisma.review.findMany({
+    where: {
+      status: "PLANNING",
+      ...(options.reviewIds && { id: { in: options.reviewIds } }),
+    },
+    select: {
+      id: true,
+      referenceNumber: true,
+      hostOrganizationId: true,
+      plannedStartDate: true,
+      plannedEndDate: true,
+      requestedStartDate: true,
+      requestedEndDate: true,
+      areasInScope: true,
+      languagePreference: true,
+      _count: { select: { teamMembers: true } },
+    },
+    orderBy: { plannedStartDate: "asc" },
+  });
+
+  const skipped: SkippedReview[] = [];
+  const reviews: ProgrammeReview[] = [];
+
+  for (const row of rows) {
+    const startDate = row.plannedStartDate ?? row.requestedStartDate;
+    const endDate = row.plannedEndDate ?? row.requestedEndDate;
+
+    if (row._count.teamMembers > 0) {
+      skipped.push({ reviewId: row.id, referenceNumber: row.referenceNumber, reason: "ALREADY_STAFFED" });
+    } else if (!startDate || !endDate) {
+      skipped.push({ reviewId: row.id, referenceNumber: row.referenceNumber, reason: "NO_DATES" });
+    } else {
+      reviews.push({
+        reviewId: row.id,
+        referenceNumber: row.referenceNumber,
+        hostOrganizationId: row.hostOrganizationId,
+        startDate,
+        endDate,
+        requiredExpertise: expertiseFor(row.areasInScope),
+        requiredLanguages: languagesFor(row.languagePreference),
+        teamSize: options.teamSize,
+      });
+    }
+  }
+
+  if (reviews.length === 0) {
+    return {
+      plans: [],
+      loads: [],
+      summary: { reviews: 0, fullyStaffed: 0, assignable: 0, assignments: 0, maxLoad: 0 },
+      skipped,
+    };
+  }
+
+  const horizon = {
+    start: new Date(Math.min(...reviews.map((r) => r.startDate.getTime()))),
+    end: new Date(Math.max(...reviews.map((r) => r.endDate.getTime()))),
+  };
+  const batchIds = reviews.map((r) => r.reviewId);
+
+  const profiles = await prisma.reviewerProfile.findMany({
+    where: { selectionStatus: "SELECTED" },
+    select: {
+      id: true,
+      userId: true,
+      isAvailable: true,
+      user: { select: { firstName: true, lastName: true } },
+      expertiseRecords: { select: { area: true } },
+      languages: { select: { language: true } },
+      availabilityPeriods: { where: availabilityWindowFilter(horizon) },
+      teamAssignments: {
+        where: {
+          reviewId: { notIn: batchIds },
+          review: {
+            status: { in: [...COMMITTED_STATUSES] },
+            plannedStartDate: { lte: horizon.end },
+            plannedEndDate: { gte: horizon.start },
+          },
+        },
+        select: { id: true },
+      },
+    },
+  });
+
+  const candidates: ProgrammeCandidate[] = await Promise.all(
+    profiles.map(async (profile) => {
+      const [lead, coiChecks] = await Promise.all([
+        getLeadQualificationStatus(profile.id),
+        Promise.all(
+          reviews.map((review) =>
+            checkReviewerCOI(prisma, profile.id, review.hostOrganizationId, review.reviewId)
+          )
+        ),
+      ]);
+
+      const exclusions: ProgrammeCandidate["exclusions"] = {};
+      const coiWarnings: NonNullable<ProgrammeCandidate["coiWarnings"]> = {};
+
+      reviews.forEach((review, index) => {
+        const coi = coiChecks[index];
+        if (coi.hasHardBlock) {
+          exclusions[review.reviewId] = "COI";
+        } else if (
+          !profile.isAvailable ||
+          !isAvailableThroughout(profile.availabilityPeriods, {
+            start: review.startDate,
+            end: review.endDate,
+          })
+        ) {
+          exclusions[review.reviewId] = "UNAVAILABLE";
+        } else if (coi.hasSoftWarning && !coi.activeOverride) {
+          coiWarnings[review.reviewId] = coi.softWarnings
+            .map((w) => w.reasonEn ?? w.config.labelEn)
+            .join("; ");
+        }
+      });
+
+      return {
+        reviewerProfileId: profile.id,
+        userId: profile.userId,
+        fullName: `${profile.user.firstName} ${profile.user.lastName}`,
+        expertise: profile.expertiseRecords.map((e) => e.area),
+        languages: profile.languages.map((l) => l.language),
+        isLeadQualified: lead.isQualified,
+        existingLoad: profile.teamAssignments.length,
+        exclusions,
+        coiWarnings,
+      };
+    })
+  );
+
+  return {
+    ...scheduleProgrammeTeams(reviews, candidates, {
+      maxReviewsPerReviewer: options.maxReviewsPerReviewer,
+    }),
+    skipped,
+  };
+}
+
+// =============================================================================
+// APPLYING
+// =============================================================================
+
+/**
+ * Create team members for reviewed plans. Each team is re-validated: the
+ * review must still be an unstaffed PLANNING review, the lead must be
+ * qualified, no member may have a hard COI, and no reviewer may be placed
+ * on two overlapping reviews of the batch. Invalid teams are rejected with
+ * a reason; the others are applied.
+ */
+export async function applyProgrammeTeams(
+  teams: ProgrammeTeamInput[],
+  userId: string
+): Promise<ApplyProgrammeResult> {
+  const rejected: ApplyProgrammeResult["rejected"] = [];
+
+  const reviews = await prisma.review.findMany({
+    where: { id: { in: teams.map((t) => t.reviewId) } },
+    select: {
+      id: true,
+      status: true,
+      referenceNumber: true,
+      hostOrganizationId: true,
+      plannedStartDate: true,
+      plannedEndDate: true,
+      requestedStartDate: true,
+      requestedEndDate: true,
+      hostOrganization: { select: { id: true, nameEn: true, nameFr: true } },
+      _count: { select: { teamMembers: true } },
+    },
+  });
+  const reviewById = new Map(reviews.map((r) => [r.id, r]));
+
+  const profiles = await prisma.reviewerProfile.findMany({
+    where: { id: { in: teams.flatMap((t) => t.members.map((m) => m.reviewerProfileId)) } },
+    select: { id: true, userId: true },
+  });
+  const userByProfile = new Map(profiles.map((p) => [p.id, p.userId]));
+
+  const accepted: (ProgrammeTeamInput & { startDate: Date; endDate: Date })[] = [];
+
+  for (const team of teams) {
+    const review = reviewById.get(team.reviewId);
+    const reject = (reason: string) => rejected.push({ reviewId: team.reviewId, reason });
+
+    if (!review) {
+      reject("Review not found");
+      continue;
+    }
+    if (review.status !== "PLANNING" || review._count.teamMembers > 0) {
+      reject(`${review.referenceNumber} is no longer an unstaffed PLANNING review`);
+      continue;
+    }
+
+    const startDate = review.plannedStartDate ?? review.requestedStartDate;
+    const endDate = review.plannedEndDate ?? review.requestedEndDate;
+    if (!startDate || !endDate) {
+      reject(`${review.referenceNumber} has no review dates`);
+      continue;
+    }
+
+    const leads = team.members.filter((m) => m.role === "LEAD_REVIEWER");
+    if (leads.length !== 1) {
+      reject(`${review.referenceNumber} must have exactly one Lead Reviewer`);
+      continue;
+    }
+    if (team.members.length < REVIEWER_CAPACITY.MIN_TEAM_SIZE) {
+      reject(`${review.referenceNumber} needs at least ${REVIEWER_CAPACITY.MIN_TEAM_SIZE} team members`);
+      continue;
+    }
+    if (team.members.some((m) => userByProfile.get(m.reviewerProfileId) !== m.userId)) {
+      reject("User ID does not match reviewer profile");
+      continue;
+    }
+
+    const window = { startDate, endDate };
+    const doubleBooked = team.members.find((m) =>
+      accepted.some(
+        (other) =>
+          overlaps(other, window) &&
+          other.members.some((o) => o.reviewerProfileId === m.reviewerProfileId)
+      )
+    );
+    if (doubleBooked) {
+      reject(`${review.referenceNumber} overlaps another review in the plan with the same reviewer`);
+      continue;
+    }
+
+    const lead = await getLeadQualificationStatus(leads[0].reviewerProfileId);
+    if (!lead.isQualified) {
+      reject(`${review.referenceNumber}: Lead Reviewer requirements not met`);
+      continue;
+    }
+
+    const coiChecks = await Promise.all(
+      team.members.map((m) =>
+        checkReviewerCOI(prisma, m.reviewerProfileId, review.hostOrganizationId, review.id)
+      )
+    );
+    if (coiChecks.some((c) => c.hasHardBlock)) {
+      reject(`${review.referenceNumber}: a team member has a conflict of interest with the host organization`);
+      continue;
+    }
+
+    accepted.push({ ...team, startDate, endDate });
+  }
+
+  if (accepted.length > 0) {
+    await prisma.reviewTeamMember.createMany({
+      data: accepted.flatMap((team) =>
+        team.members.map((m) => ({
+          reviewId: team.reviewId,
+          userId: m.userId,
+          reviewerProfileId: m.reviewerProfileId,
+          role: m.role,
+        }))
+      ),
+    });
+  }
+
+  for (const team of accepted) {
+    const review = reviewById.get(team.reviewId)!;
+
+    try {
+      await notifyTeamAssigned(
+        {
+          id: review.id,
+          referenceNumber: review.referenceNumber,
+          hostOrganization: {
+            id: review.hostOrganization.id,
+            nameEn: review.hostOrganization.nameEn,
+            nameFr: review.hostOrganization.nameFr ?? review.hostOrganization.nameEn,
+          },
+          plannedStartDate: review.plannedStartDate,
+          plannedEndDate: review.plannedEndDate,
+        },
+        team.members.map((m) => ({ userId: m.userId, role: m.role }))
+      );
+    } catch (error) {
+      console.error("[Programme Scheduler] Failed to send notifications:", error);
+    }
+
+    logAssignment({
+      userId,
+      entityType: "ReviewTeam",
+      entityId: review.id,
+      assigneeId: team.members.find((m) => m.role === "LEAD_REVIEWER")!.userId,
+      metadata: {
+        action: "programme_team_assignment",
+        memberCount: team.members.length,
+      },
+    }).catch(() => {});
+  }
+
+  return { applied: accepted.map((t) => t.reviewId), rejected };
+}
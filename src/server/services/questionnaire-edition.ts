@@ -0,0 +1,531 @@
+/**
+ * Questionnaire Edition Service
+ *
+ * Editions of a questionnaire form a chain through `previousEditionId`.
+ * Assessments stay on the edition they were started on; once completed
+ * they can be migrated to a later edition so EI scores remain comparable
+ * after ICAO amends the PQs. Migration copies the assessment onto the
+ * later edition and leaves the original, its responses and its scores
+ * untouched. Responses follow `previousPqNumber` links edition by edition,
+ * merged PQs keep the most conservative answer and responses to deleted
+ * PQs are not carried into the copy.
+ */
+
+import { TRPCError } from "@trpc/server";
+import { Prisma, type AssessmentStatus } from "@prisma/client";
+import { prisma } from "@/lib/db";
+import {
+  buildQuestionMigrationMap,
+  composeMigrationMaps,
+  diffEditions,
+  mergeMigratedResponses,
+  type EditionQuestion,
+} from "@/lib/questionnaire/edition-diff";
+import { scoringService } from "@/server/services/scoring.service";
+import { logCreate, logUpdate } from "@/server/services/audit";
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+/** Assessments that are no longer being worked on and may be migrated */
+export const MIGRATABLE_STATUSES: AssessmentStatus[] = ["COMPLETED", "ARCHIVED"];
+
+const editionQuestionSelect = {
+  id: true,
+  pqNumber: true,
+  previousPqNumber: true,
+  pqStatus: true,
+  questionTextEn: true,
+  questionTextFr: true,
+  isActive: true,
+} as const;
+
+// =============================================================================
+// EDITION CHAIN
+// =============================================================================
+
+/**
+ * All editions linked to a questionnaire, oldest first
+ */
+export async function getEditionChain(questionnaireId: string) {
+  const select = {
+    id: true,
+    code: true,
+    version: true,
+    titleEn: true,
+    titleFr: true,
+    type: true,
+    isActive: true,
+    effectiveDate: true,
+    publishedAt: true,
+    previousEditionId: true,
+    _count: { select: { questions: true, assessments: true } },
+  } as const;
+
+  const start = await prisma.questionnaire.findUnique({
+    where: { id: questionnaireId },
+    select,
+  });
+
+  if (!start) {
+    throw new TRPCError({ code: "NOT_FOUND", message: "Questionnaire not found" });
+  }
+
+  const chain = [start];
+  const seen = new Set([start.id]);
+
+  // Walk back to the first edition
+  let previousId = start.previousEditionId;
+  while (previousId && !seen.has(previousId)) {
+    const edition = await prisma.questionnaire.findUnique({
+      where: { id: previousId },
+      select,
+    });
+    if (!edition) break;
+    chain.unshift(edition);
+    seen.add(edition.id);
+    previousId = edition.previousEditionId;
+  }
+
+  // Walk forward to the latest edition
+  let currentId = start.id;
+  for (;;) {
+    const next = await prisma.questionnaire.findUnique({
+      where: { previousEditionId: currentId },
+      select,
+    });
+    if (!next || seen.has(next.id)) break;
+    chain.push(next);
+    seen.add(next.id);
+    currentId = next.id;
+  }
+
+  return chain;
+}
+
+async function loadEditionQuestions(questionnaireId: string): Promise<EditionQuestion[]> {
+  return prisma.question.findMany({
+    where: { questionnaireId },
+    select: editionQuestionSelect,
+    orderBy: { sortOrder: "asc" },
+  });
+}
+
+/**
+ * Added, revised, merged and deleted PQs of an edition compared with the
+ * edition it supersedes
+ */
+export async function getEditionDiff(editionId: string) {
+  const edition = await prisma.questionnaire.findUnique({
+    where: { id: editionId },
+    select: { id: true, previousEditionId: true },
+  });
+
+  if (!edition) {
+    throw new TRPCError({ code: "NOT_FOUND", message: "Questionnaire not found" });
+  }
+
+  if (!edition.previousEditionId) {
+    throw new TRPCError({
+      code: "BAD_REQUEST",
+      message: "This questionnaire is the first edition and has nothing to compare with",
+    });
+  }
+
+  const [previous, next] = await Promise.all([
+    loadEditionQuestions(edition.previousEditionId),
+    loadEditionQuestions(edition.id),
+  ]);
+
+  return {
+    editionId: edition.id,
+    previousEditionId: edition.previousEditionId,
+    ...diffEditions(previous, next),
+  };
+}
+
+/**
+ * Make an edition the active one for new assessments. The superseded
+ * edition is deactivated but its in-flight assessments keep using it.
+ */
+export async function publishEdition(editionId: string, userId: string) {
+  const edition = await prisma.questionnaire.findUnique({
+    where: { id: editionId },
+    include: { previousEdition: true, _count: { select: { questions: true } } },
+  });
+
+  if (!edition) {
+    throw new TRPCError({ code: "NOT_FOUND", message: "Questionnaire not found" });
+  }
+
+  if (edition.publishedAt) {
+    throw new TRPCError({
+      code: "BAD_REQUEST",
+      message: "This edition has already been published",
+    });
+  }
+
+  if (edition._count.questions === 0) {
+    throw new TRPCError({
+      code: "PRECONDITION_FAILED",
+      message: "Cannot publish an edition without questions",
+    });
+  }
+
+  const now = new Date();
+  const previous = edition.previousEdition;
+
+  await prisma.$transaction([
+    prisma.questionnaire.update({
+      where: { id: edition.id },
+      data: { isActive: true, publishedAt: now },
+    }),
+    ...(previous
+      ? [
+          prisma.questionnaire.update({
+            where: { id: previous.id },
+            data: {
+              isActive: false,
+              expiryDate: previous.expiryDate ?? edition.effectiveDate,
+            },
+          }),
+        ]
+      : []),
+  ]);
+
+  logUpdate({
+    userId,
+    entityType: "Questionnaire",
+    entityId: edition.id,
+    previousState: { isActive: edition.isActive, publishedAt: null },
+    newState: { isActive: true, publishedAt: now },
+    metadata: { supersededEditionId: previous?.id ?? null },
+  }).catch(() => {});
+
+  return { id: edition.id, publishedAt: now, supersededEditionId: previous?.id ?? null };
+}
+
+// =============================================================================
+// RESPONSE MIGRATION
+// =============================================================================
+
+/**
+ * Editions an assessment passes through to reach the target, including
+ * both ends
+ */
+async function getMigrationPath(fromId: string, toId: string) {
+  const chain = await getEditionChain(toId);
+  const fromIndex = chain.findIndex((e) => e.id === fromId);
+  const toIndex = chain.findIndex((e) => e.id === toId);
+
+  if (fromIndex === -1 || fromIndex >= toIndex) {
+    throw new TRPCError({
+      code: "BAD_REQUEST",
+      message: "The target must be a later edition of the assessment's questionnaire",
+    });
+  }
+
+  return chain.slice(fromIndex, toIndex + 1);
+}
+
+async function buildMigrationPlan(assessmentId: string, targetEditionId: string) {
+  const assessment = await prisma.assessment.findUnique({
+    where: { id: assessmentId },
+    select: {
+      id: true,
+      type: true,
+      title: true,
+      description: true,
+      organizationId: true,
+      status: true,
+      dueDate: true,
+      startedAt: true,
+      submittedAt: true,
+      completedAt: true,
+      selectedAuditAreas: true,
+      selectedReviewAreas: true,
+      questionnaireId: true,
+      migratedFromQuestionnaireId: true,
+      migratedTo: { select: { id: true } },
+      responses: {
+        select: {
+          id: true,
+          questionId: true,
+          responseValue: true,
+          maturityLevel: true,
+          score: true,
+          notes: true,
+          evidenceUrls: true,
+          respondedById: true,
+          respondedAt: true,
+          question: { select: { pqNumber: true } },
+          documents: { select: { documentId: true, notes: true, addedById: true } },
+        },
+      },
+    },
+  });
+
+  if (!assessment) {
+    throw new TRPCError({ code: "NOT_FOUND", message: "Assessment not found" });
+  }
+
+  const path = await getMigrationPath(assessment.questionnaireId, targetEditionId);
+
+  const questionsByEdition = await Promise.all(path.map((e) => loadEditionQuestions(e.id)));
+  const maps = questionsByEdition
+    .slice(1)
+    .map((next, i) => buildQuestionMigrationMap(questionsByEdition[i], next));
+  const migrationMap = composeMigrationMaps(maps);
+
+  const groups = new Map<string, typeof assessment.responses>();
+  const dropped: typeof assessment.responses = [];
+
+  for (const response of assessment.responses) {
+    const targetQuestionId = migrationMap.get(response.questionId);
+    if (!targetQuestionId) {
+      dropped.push(response);
+      continue;
+    }
+    const group = groups.get(targetQuestionId) ?? [];
+    group.push(response);
+    groups.set(targetQuestionId, group);
+  }
+
+  const targetQuestionCount = questionsByEdition[questionsByEdition.length - 1].filter(
+    (q) => q.isActive && q.pqStatus !== "DELETED"
+  ).length;
+
+  return { assessment, path, groups, dropped, targetQuestionCount };
+}
+
+/**
+ * What a migration would do, without changing anything
+ */
+export async function previewAssessmentMigration(
+  assessmentId: string,
+  targetEditionId: string
+) {
+  const plan = await buildMigrationPlan(assessmentId, targetEditionId);
+  const merged = [...plan.groups.values()].filter((g) => g.length > 1);
+
+  return {
+    assessmentId,
+    status: plan.assessment.status,
+    canMigrate:
+      MIGRATABLE_STATUSES.includes(plan.assessment.status) && !plan.assessment.migratedTo,
+    path: plan.path.map((e) => ({ id: e.id, code: e.code, version: e.version })),
+    carriedOver: plan.groups.size,
+    mergedGroups: merged.length,
+    droppedPqNumbers: plan.dropped.map((r) => r.question.pqNumber).filter(Boolean),
+    unansweredInTarget: Math.max(plan.targetQuestionCount - plan.groups.size, 0),
+  };
+}
+
+/**
+ * Copy a completed assessment onto a later edition and score the copy.
+ * The original keeps its responses and scores as they were finalized;
+ * in-flight assessments stay on their edition.
+ */
+export async function migrateAssessment(
+  assessmentId: string,
+  targetEditionId: string,
+  userId: string
+) {
+  const plan = await buildMigrationPlan(assessmentId, targetEditionId);
+  const { assessment } = plan;
+  const targetEdition = plan.path[plan.path.length - 1];
+
+  if (!MIGRATABLE_STATUSES.includes(assessment.status)) {
+    throw new TRPCError({
+      code: "PRECONDITION_FAILED",
+      message: "Assessments in progress stay on the edition they started on",
+    });
+  }
+
+  if (!targetEdition.isActive) {
+    throw new TRPCError({
+      code: "PRECONDITION_FAILED",
+      message: "Publish the edition before migrating assessments to it",
+    });
+  }
+
+  if (assessment.migratedTo) {
+    throw new TRPCError({
+      code: "CONFLICT",
+      message: "This assessment has already been migrated; migrate its copy instead",
+    });
+  }
+
+  const now = new Date();
+  let mergedGroups = 0;
+
+  const copy = await prisma
+    .$transaction(
+      async (tx) => {
+        const created = await tx.assessment.create({
+          data: {
+            type: assessment.type,
+            title: assessment.title,
+            description: assessment.description,
+            questionnaireId: targetEditionId,
+            organizationId: assessment.organizationId,
+            status: assessment.status,
+            dueDate: assessment.dueDate,
+            startedAt: assessment.startedAt,
+            submittedAt: assessment.submittedAt,
+            completedAt: assessment.completedAt,
+            selectedAuditAreas: assessment.selectedAuditAreas,
+            selectedReviewAreas: assessment.selectedReviewAreas,
+            migratedFromQuestionnaireId:
+              assessment.migratedFromQuestionnaireId ?? assessment.questionnaireId,
+            migratedFromAssessmentId: assessment.id,
+            migratedAt: now,
+          },
+        });
+
+        for (const [targetQuestionId, group] of plan.groups) {
+          const kept = mergeMigratedResponses(group);
+          if (group.length > 1) mergedGroups++;
+
+          const notes = group.map((r) => r.notes).filter((n): n is string => !!n);
+
+          const response = await tx.assessmentResponse.create({
+            data: {
+              assessmentId: created.id,
+              questionId: targetQuestionId,
+              responseValue: kept.responseValue,
+              maturityLevel: kept.maturityLevel,
+              score: kept.score,
+              notes: notes.length > 0 ? notes.join("\n\n") : null,
+              evidenceUrls: [...new Set(group.flatMap((r) => r.evidenceUrls))],
+              respondedById: kept.respondedById,
+              respondedAt: kept.respondedAt,
+            },
+          });
+
+          const documents = group.flatMap((r) => r.documents);
+          if (documents.length > 0) {
+            await tx.responseDocument.createMany({
+              data: documents.map((d) => ({ ...d, responseId: response.id })),
+              skipDuplicates: true,
+            });
+          }
+        }
+
+        const metadata = {
+          fromAssessmentId: assessment.id,
+          toAssessmentId: created.id,
+          fromQuestionnaireId: assessment.questionnaireId,
+          toQuestionnaireId: targetEditionId,
+          carriedOver: plan.groups.size,
+          mergedGroups,
+          notCarriedOver: plan.dropped.length,
+        };
+
+        await tx.assessmentEvent.createMany({
+          data: [
+            {
+              assessmentId: assessment.id,
+              type: "MIGRATED",
+              description: `Copied to questionnaire edition ${targetEdition.code}`,
+              metadata,
+              userId,
+            },
+            {
+              assessmentId: created.id,
+              type: "MIGRATED",
+              description: `Migrated from questionnaire edition ${plan.path[0].code}`,
+              metadata,
+              userId,
+            },
+          ],
+        });
+
+        return created;
+      },
+      { timeout: 30000 }
+    )
+    .catch((error) => {
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === "P2002") {
+        throw new TRPCError({
+          code: "CONFLICT",
+          message: "This assessment has already been migrated; migrate its copy instead",
+        });
+      }
+      throw error;
+    });
+
+  await scoringService.calculateAndSaveScores(copy.id).catch((error) => {
+    console.error(`[Questionnaire] Failed to score migrated assessment ${copy.id}:`, error);
+  });
+
+  logCreate({
+    userId,
+    entityType: "Assessment",
+    entityId: copy.id,
+    newState: {
+      questionnaireId: targetEditionId,
+      migratedFromAssessmentId: assessment.id,
+    },
+    metadata: {
+      action: "MIGRATE_EDITION",
+      notCarriedOver: plan.dropped.map((r) => r.question.pqNumber).filter(Boolean),
+    },
+  }).catch(() => {});
+
+  return {
+    assessmentId: copy.id,
+    migratedFromAssessmentId: assessment.id,
+    carriedOver: plan.groups.size,
+    mergedGroups,
+    dropped: plan.dropped.length,
+  };
+}
+
+/**
+ * Assessments on earlier editions of the chain, grouped by whether they
+ * can be migrated to the given edition
+ */
+export async function getMigrationCandidates(targetEditionId: string) {
+  const chain = await getEditionChain(targetEditionId);
+  const targetIndex = chain.findIndex((e) => e.id === targetEditionId);
+  const earlier = chain.slice(0, targetIndex);
+
+  if (earlier.length === 0) {
+    return { migratable: [], pinned: 0 };
+  }
+
+  const assessments = await prisma.assessment.findMany({
+    where: {
+      questionnaireId: { in: earlier.map((e) => e.id) },
+      migratedTo: { is: null },
+    },
+    select: {
+      id: true,
+      title: true,
+      referenceNumber: true,
+      status: true,
+      completedAt: true,
+      overallScore: true,
+      questionnaireId: true,
+      organization: { select: { nameEn: true, nameFr: true } },
+    },
+    orderBy: { completedAt: "desc" },
+  });
+
+  const editionById = new Map(earlier.map((e) => [e.id, e]));
+
+  return {
+    migratable: assessments
+      .filter((a) => MIGRATABLE_STATUSES.includes(a.status))
+      .map((a) => ({
+        ...a,
+        edition: {
+          code: editionById.get(a.questionnaireId)?.code ?? "",
+          version: editionById.get(a.questionnaireId)?.version ?? "",
+        },
+      })),
+    pinned: assessments.filter((a) => !MIGRATABLE_STATUSES.includes(a.status)).length,
+  };
+}
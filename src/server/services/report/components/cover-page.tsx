@@ -171,6 +171,12 @@ export function CoverPage({ review, locale }: ReportPageProps) {
               {format(review.reportDate, "d MMMM yyyy", { locale: dateLocale })}
             </Text>
           </View>
+          {review.reportVersion !== undefined && (
+            <View style={coverStyles.infoRow}>
+              <Text style={coverStyles.infoLabel}>{t.reportVersion}:</Text>
+              <Text style={coverStyles.infoValue}>v{review.reportVersion}</Text>
+            </View>
+          )}
           <View style={{ ...coverStyles.infoRow, marginBottom: 0 }}>
             <Text style={coverStyles.infoLabel}>{t.leadReviewer}:</Text>
             <Text style={coverStyles.infoValue}>
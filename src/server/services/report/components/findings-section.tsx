@@ -291,6 +291,11 @@ function FindingCard({ finding, locale }: FindingCardProps) {
             <Text style={{ fontSize: 10, color: colors.gray[700], marginTop: 2 }}>
               {finding.title}
             </Text>
+            {finding.repeatOf && finding.repeatOf.length > 0 && (
+              <Text style={{ fontSize: 8, fontWeight: "bold", color: colors.primary, marginTop: 2 }}>
+                {t.repeatFinding.toUpperCase()} · {t.repeatOf} {finding.repeatOf.join(", ")}
+              </Text>
+            )}
           </View>
           <View
             style={{
@@ -5,5 +5,12 @@
  */
 
 export { generateReviewReport, getReportFilename } from "./report-generator";
+export type { ReportRenderOptions } from "./report-generator";
+export {
+  ArchivedReportUnavailableError,
+  archiveFinalReport,
+  getReviewReportPdf,
+} from "./report-archive";
+export type { ReportLocale, ReportPdfResult } from "./report-archive";
 export * from "./types";
 export { labels, colors, styles } from "./styles";
@@ -0,0 +1,305 @@
+/**
+ * Report Archive Service
+ *
+ * Renders finalized review reports once, stores the PDF through the
+ * storage service (or in the artifact row when storage is unavailable) and
+ * records a version-stamped SHA-256 artifact so the archived copy can be
+ * served and verified independently of the browser. Finalized reports are
+ * only ever served from that copy: findings and CAPs keep changing after
+ * finalization, so a later render would not be the report that was signed off.
+ */
+
+import { Prisma } from "@prisma/client";
+import { prisma } from "@/lib/db";
+import { logCreate } from "@/server/services/audit";
+import { documentIntegrityService } from "@/server/services/document";
+import {
+  downloadFile,
+  isStorageConfigured,
+  uploadFile,
+} from "@/server/services/storage.service";
+import { generateReviewReport, getReportFilename } from "./report-generator";
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export type ReportLocale = "en" | "fr";
+
+export interface ReportPdfResult {
+  buffer: Buffer;
+  fileName: string;
+  fileHash: string;
+  version: number | null;
+  /**
+   * True when the bytes served are the archived artifact of a finalized
+   * report and match its recorded hash
+   */
+  archived: boolean;
+}
+
+/**
+ * Raised when neither the stored nor the database copy of an archived
+ * report matches its recorded hash
+ */
+export class ArchivedReportUnavailableError extends Error {
+  constructor(reviewId: string, version: number, locale: ReportLocale) {
+    super(`Archived report v${version} (${locale}) of review ${reviewId} could not be verified`);
+    this.name = "ArchivedReportUnavailableError";
+  }
+}
+
+type StoredArtifact = {
+  version: number;
+  fileName: string;
+  fileHash: string;
+  storagePath: string | null;
+  content: Uint8Array | null;
+};
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+/**
+ * Path of the archived PDF inside the review-documents bucket
+ */
+function getArchivePath(
+  reviewId: string,
+  version: number,
+  locale: ReportLocale
+): string {
+  return `reviews/${reviewId}/reports/v${version}-${locale}.pdf`;
+}
+
+async function getReportForArchive(reviewId: string) {
+  return prisma.reviewReport.findUnique({
+    where: { reviewId },
+    select: {
+      id: true,
+      status: true,
+      version: true,
+      finalizedAt: true,
+      review: { select: { referenceNumber: true } },
+    },
+  });
+}
+
+// =============================================================================
+// ARCHIVING
+// =============================================================================
+
+/**
+ * Render and archive the PDF of a finalized report.
+ *
+ * Normally called right after finalization; the render is pinned to
+ * `finalizedAt`. Existing artifacts for the version/locale are served
+ * unchanged and never re-rendered.
+ */
+export async function archiveFinalReport(
+  reviewId: string,
+  locale: ReportLocale,
+  generatedById?: string
+): Promise<ReportPdfResult> {
+  const report = await getReportForArchive(reviewId);
+
+  if (!report) {
+    throw new Error(`Report for review ${reviewId} not found`);
+  }
+  if (report.status !== "FINALIZED" || !report.finalizedAt) {
+    throw new Error("Only finalized reports can be archived");
+  }
+
+  const existing = await prisma.reviewReportArtifact.findUnique({
+    where: {
+      reportId_version_locale: {
+        reportId: report.id,
+        version: report.version,
+        locale,
+      },
+    },
+  });
+  if (existing) {
+    return serveArtifact(reviewId, locale, existing);
+  }
+
+  const buffer = await generateReviewReport(reviewId, locale, {
+    asOf: report.finalizedAt,
+    reportVersion: report.version,
+  });
+  const { hash, algorithm } = documentIntegrityService.calculateHash(buffer);
+  const fileName = getReportFilename(
+    report.review.referenceNumber,
+    locale,
+    report.version
+  );
+
+  let storagePath: string | null = null;
+  if (isStorageConfigured()) {
+    const path = getArchivePath(reviewId, report.version, locale);
+    const upload = await uploadFile(buffer, path, "application/pdf");
+    if (upload.success && upload.path) {
+      storagePath = upload.path;
+    } else {
+      console.error(`[Report] Failed to store ${path}: ${upload.error}`);
+    }
+  }
+
+  let artifact;
+  try {
+    artifact = await prisma.reviewReportArtifact.create({
+      data: {
+        reportId: report.id,
+        version: report.version,
+        locale,
+        fileName,
+        fileSize: buffer.length,
+        storagePath,
+        // Without a stored copy the archived bytes live in the artifact row
+        content: storagePath ? null : new Uint8Array(buffer),
+        hashAlgorithm: algorithm,
+        fileHash: hash,
+        generatedById: generatedById ?? null,
+      },
+    });
+  } catch (error) {
+    // A concurrent first download archived this version/locale already
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === "P2002") {
+      const winner = await prisma.reviewReportArtifact.findUniqueOrThrow({
+        where: {
+          reportId_version_locale: {
+            reportId: report.id,
+            version: report.version,
+            locale,
+          },
+        },
+      });
+      return serveArtifact(reviewId, locale, winner);
+    }
+    throw error;
+  }
+
+  await prisma.reviewReport.update({
+    where: { id: report.id },
+    data: { pdfUrl: `/api/reviews/${reviewId}/report` },
+  });
+
+  if (generatedById) {
+    await logCreate({
+      userId: generatedById,
+      entityType: "ReviewReportArtifact",
+      entityId: artifact.id,
+      newState: {
+        reviewId,
+        version: report.version,
+        locale,
+        fileHash: hash,
+        stored: storagePath !== null,
+      },
+    }).catch(() => {});
+  }
+
+  return {
+    buffer,
+    fileName,
+    fileHash: hash,
+    version: report.version,
+    archived: true,
+  };
+}
+
+/**
+ * Read the archived bytes from storage or from the artifact row, returning
+ * only a copy that matches the recorded hash.
+ */
+async function loadArchivedBytes(artifact: StoredArtifact): Promise<Buffer | null> {
+  const sources: { label: string; load: () => Promise<Buffer | null> }[] = [];
+  if (artifact.storagePath) {
+    sources.push({ label: artifact.storagePath, load: () => downloadFile(artifact.storagePath!) });
+  }
+  if (artifact.content) {
+    sources.push({ label: "database copy", load: async () => Buffer.from(artifact.content!) });
+  }
+
+  for (const source of sources) {
+    const buffer = await source.load();
+    if (!buffer) continue;
+
+    const { hash } = documentIntegrityService.calculateHash(buffer);
+    if (hash === artifact.fileHash) {
+      return buffer;
+    }
+    console.error(
+      `[Report] Archived PDF (${source.label}) v${artifact.version} failed integrity check`
+    );
+  }
+
+  return null;
+}
+
+/**
+ * Serve an archived artifact, verifying it against the recorded hash.
+ * Without a verified copy nothing is served.
+ */
+async function serveArtifact(
+  reviewId: string,
+  locale: ReportLocale,
+  artifact: StoredArtifact
+): Promise<ReportPdfResult> {
+  const buffer = await loadArchivedBytes(artifact);
+  if (!buffer) {
+    throw new ArchivedReportUnavailableError(reviewId, artifact.version, locale);
+  }
+
+  return {
+    buffer,
+    fileName: artifact.fileName,
+    fileHash: artifact.fileHash,
+    version: artifact.version,
+    archived: true,
+  };
+}
+
+// =============================================================================
+// RETRIEVAL
+// =============================================================================
+
+/**
+ * Get the PDF for a review report.
+ *
+ * Finalized reports are served from their archived artifact (archiving on
+ * first access); drafts are rendered live.
+ */
+export async function getReviewReportPdf(
+  reviewId: string,
+  locale: ReportLocale,
+  userId?: string
+): Promise<ReportPdfResult> {
+  const report = await getReportForArchive(reviewId);
+
+  if (report?.status === "FINALIZED" && report.finalizedAt) {
+    return archiveFinalReport(reviewId, locale, userId);
+  }
+
+  const buffer = await generateReviewReport(reviewId, locale, {
+    reportVersion: report?.version,
+  });
+  const { hash } = documentIntegrityService.calculateHash(buffer);
+  const reference =
+    report?.review.referenceNumber ??
+    (
+      await prisma.review.findUnique({
+        where: { id: reviewId },
+        select: { referenceNumber: true },
+      })
+    )?.referenceNumber ??
+    reviewId;
+
+  return {
+    buffer,
+    fileName: getReportFilename(reference, locale),
+    fileHash: hash,
+    version: report?.version ?? null,
+    archived: false,
+  };
+}
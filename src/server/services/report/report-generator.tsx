@@ -2,6 +2,10 @@
  * Report Generator Service
  *
  * Generates professional PDF reports for completed peer reviews.
+ * Rendering is pinned to an `asOf` date: PDF metadata dates, overdue
+ * calculations and record ordering all use it. Finalized reports are
+ * rendered once at finalization and then served from their archived copy
+ * (see report-archive.ts), since findings and CAPs are read live.
  */
 
 import React from "react";
@@ -55,6 +59,7 @@ function ReportPage({ review, locale, children }: ReportPageProps) {
       <View style={styles.footer} fixed>
         <Text style={styles.footerText}>
           {review.classification ? `${review.classification} | ` : ""}
+          {review.reportVersion !== undefined ? `v${review.reportVersion} | ` : ""}
           {t.preparedBy}
         </Text>
         <Text
@@ -86,6 +91,9 @@ function ReportDocument({ review, locale }: ReportDocumentProps) {
       keywords="peer review, AAPRP, aviation safety, ANSP"
       creator="African ANSP Peer Review Programme"
       producer="AAPRP Report Generator"
+      // Pinned dates keep the PDF info dictionary and file ID reproducible
+      creationDate={review.reportDate}
+      modificationDate={review.reportDate}
     >
       {/* Cover Page */}
       <CoverPage review={review} locale={locale} />
@@ -159,12 +167,16 @@ function ReportDocument({ review, locale }: ReportDocumentProps) {
 // DATA FETCHING
 // =============================================================================
 
-async function getReviewWithAllDetails(reviewId: string): Promise<ReviewReportData> {
+async function getReviewWithAllDetails(
+  reviewId: string,
+  asOf: Date
+): Promise<ReviewReportData> {
   const review = await prisma.review.findUnique({
     where: { id: reviewId },
     include: {
       hostOrganization: true,
       teamMembers: {
+        orderBy: { id: "asc" },
         include: {
           user: true,
           reviewerProfile: {
@@ -175,12 +187,17 @@ async function getReviewWithAllDetails(reviewId: string): Promise<ReviewReportDa
         },
       },
       findings: {
+        orderBy: { referenceNumber: "asc" },
         include: {
           correctiveActionPlan: {
             include: {
-              milestones: true,
+              milestones: { orderBy: { id: "asc" } },
             },
           },
+          recurrences: {
+            where: { status: "CONFIRMED" },
+            select: { priorFinding: { select: { referenceNumber: true } } },
+          },
         },
       },
     },
@@ -222,7 +239,9 @@ async function getReviewWithAllDetails(reviewId: string): Promise<ReviewReportDa
     evidenceEn: string | null;
     icaoReference: string | null;
     capRequired: boolean;
+    isRepeat: boolean;
     correctiveActionPlan: { rootCauseEn: string } | null;
+    recurrences: { priorFinding: { referenceNumber: string } }[];
   }) => ({
     id: f.id,
     reference: f.referenceNumber,
@@ -236,6 +255,7 @@ async function getReviewWithAllDetails(reviewId: string): Promise<ReviewReportDa
     capRequired: f.capRequired,
     rootCause: f.correctiveActionPlan?.rootCauseEn || undefined,
     recommendation: undefined,
+    repeatOf: f.isRepeat ? f.recurrences.map((r) => r.priorFinding.referenceNumber) : undefined,
   }));
 
   // Calculate findings summary
@@ -264,7 +284,7 @@ async function getReviewWithAllDetails(reviewId: string): Promise<ReviewReportDa
     .filter((f) => f.capRequired && f.correctiveActionPlan)
     .map((f) => {
       const cap = f.correctiveActionPlan!;
-      const isOverdue = cap.dueDate && new Date(cap.dueDate) < new Date() && cap.status !== "VERIFIED";
+      const isOverdue = cap.dueDate && new Date(cap.dueDate) < asOf && cap.status !== "VERIFIED";
       // Calculate progress from milestones
       const completedMilestones = cap.milestones.filter((m) => m.status === "COMPLETED").length;
       const progress = cap.milestones.length > 0 ? Math.round((completedMilestones / cap.milestones.length) * 100) : 0;
@@ -274,7 +294,7 @@ async function getReviewWithAllDetails(reviewId: string): Promise<ReviewReportDa
         findingReference: f.referenceNumber,
         findingTitle: f.titleEn,
         status: (isOverdue ? "OVERDUE" : cap.status) as "PENDING" | "IN_PROGRESS" | "SUBMITTED" | "ACCEPTED" | "VERIFIED" | "OVERDUE",
-        dueDate: cap.dueDate || new Date(),
+        dueDate: cap.dueDate || asOf,
         progress,
         description: cap.correctiveActionEn || undefined,
       };
@@ -319,9 +339,9 @@ async function getReviewWithAllDetails(reviewId: string): Promise<ReviewReportDa
     },
     status: review.status,
     classification: undefined,
-    startDate: review.actualStartDate || review.plannedStartDate || new Date(),
-    endDate: review.actualEndDate || review.plannedEndDate || new Date(),
-    reportDate: new Date(),
+    startDate: review.actualStartDate || review.plannedStartDate || asOf,
+    endDate: review.actualEndDate || review.plannedEndDate || asOf,
+    reportDate: asOf,
     leadReviewer: {
       id: leadMember.id,
       firstName: leadMember.user.firstName || "",
@@ -353,19 +373,32 @@ async function getReviewWithAllDetails(reviewId: string): Promise<ReviewReportDa
 // PUBLIC API
 // =============================================================================
 
+export interface ReportRenderOptions {
+  /** Reference date for the report (defaults to now; finalized reports use finalizedAt) */
+  asOf?: Date;
+  /** ReviewReport.version to stamp on the cover page and footer */
+  reportVersion?: number;
+}
+
 /**
  * Generate a PDF report for a peer review.
  *
  * @param reviewId - The ID of the review to generate a report for
  * @param locale - The language for the report (en or fr)
+ * @param options - Reference date and version stamp
  * @returns Buffer containing the PDF data
  */
 export async function generateReviewReport(
   reviewId: string,
-  locale: "en" | "fr" = "en"
+  locale: "en" | "fr" = "en",
+  options: ReportRenderOptions = {}
 ): Promise<Buffer> {
   // Fetch review data
-  const review = await getReviewWithAllDetails(reviewId);
+  const review = await getReviewWithAllDetails(
+    reviewId,
+    options.asOf ?? new Date()
+  );
+  review.reportVersion = options.reportVersion;
 
   // Generate PDF
   const pdfBuffer = await renderToBuffer(
@@ -378,7 +411,14 @@ export async function generateReviewReport(
 /**
  * Get the filename for a review report.
  */
-export function getReportFilename(reference: string, locale: "en" | "fr"): string {
+export function getReportFilename(
+  reference: string,
+  locale: "en" | "fr",
+  version?: number
+): string {
+  if (version !== undefined) {
+    return `AAPRP-Report-${reference}-v${version}-${locale.toUpperCase()}.pdf`;
+  }
   const dateStr = new Date().toISOString().split("T")[0];
   return `AAPRP-Report-${reference}-${locale.toUpperCase()}-${dateStr}.pdf`;
 }
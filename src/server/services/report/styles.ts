@@ -424,6 +424,7 @@ export const labels = {
     confidential: "CONFIDENTIAL",
     reviewReference: "Review Reference",
     reportDate: "Report Date",
+    reportVersion: "Report Version",
     page: "Page",
     of: "of",
     preparedBy: "Prepared by the AAPRP Review Team",
@@ -473,6 +474,8 @@ export const labels = {
     description: "Description",
     evidence: "Evidence",
     icaoReference: "ICAO Reference",
+    repeatFinding: "Repeat finding",
+    repeatOf: "Repeat of",
     capRequired: "CAP Required",
     yes: "Yes",
     no: "No",
@@ -524,6 +527,7 @@ export const labels = {
     confidential: "CONFIDENTIEL",
     reviewReference: "Référence de l'évaluation",
     reportDate: "Date du rapport",
+    reportVersion: "Version du rapport",
     page: "Page",
     of: "sur",
     preparedBy: "Préparé par l'équipe d'évaluation AAPRP",
@@ -573,6 +577,8 @@ export const labels = {
     description: "Description",
     evidence: "Preuves",
     icaoReference: "Référence OACI",
+    repeatFinding: "Constatation répétée",
+    repeatOf: "Répétition de",
     capRequired: "PAC Requis",
     yes: "Oui",
     no: "Non",
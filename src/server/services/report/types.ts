@@ -17,6 +17,8 @@ export interface ReviewReportData {
   hostOrganization: OrganizationInfo;
   status: string;
   classification?: string;
+  /** ReviewReport.version stamped on finalized/archived PDFs */
+  reportVersion?: number;
 
   // Dates
   startDate: Date;
@@ -106,6 +108,8 @@ export interface FindingInfo {
   capRequired: boolean;
   rootCause?: string;
   recommendation?: string;
+  /** Earlier finding references, when confirmed as a repeat finding */
+  repeatOf?: string[];
 }
 
 export interface FindingsSummary {
@@ -1,5 +1,13 @@
 import { db } from "@/lib/db";
 import { TeamRole } from "@prisma/client";
+import {
+  availabilityWindowFilter,
+  hasBlockingAvailability,
+} from "@/lib/availability/recurrence";
+import {
+  getRequiredTrainingModules,
+  getVerifiedModuleIds,
+} from "@/server/services/training-progress";
 
 // =============================================================================
 // TYPES
@@ -54,6 +62,10 @@ interface ReviewerWithDetails {
  *
  * Rule 1: SAME TEAM - Reviewer must be from same team as host ANSP
  * Rule 2: NO SELF-REVIEW - Reviewer cannot be from host organization
+ * Rule 4: AVAILABILITY - No blackout or other assignment during the review
+ *         dates (recurring availability is expanded to its occurrences)
+ * Rule 5: TRAINING - Verified completion (passed knowledge check) of every
+ *         required reviewer training module
  */
 export async function getEligibleReviewers(
   reviewId: string,
@@ -77,6 +89,14 @@ export async function getEligibleReviewers(
   const today = new Date();
   today.setHours(0, 0, 0, 0); // Start of day for accurate comparison
 
+  // Review period for calendar conflicts (only known once dates are planned)
+  const reviewWindow =
+    review.plannedStartDate && review.plannedEndDate
+      ? { start: review.plannedStartDate, end: review.plannedEndDate }
+      : null;
+
+  const requiredModules = (await getRequiredTrainingModules()).reviewer;
+
   // Get all certified/lead-qualified reviewers with date-aware availability filtering
   // Logic: isAvailable = true AND (availableFrom is null OR <= today) AND (availableTo is null OR >= today)
   const allReviewers = await db.reviewerProfile.findMany({
@@ -110,6 +130,13 @@ export async function getEligibleReviewers(
         },
       },
       languages: true,
+      availabilityPeriods: reviewWindow
+        ? { where: availabilityWindowFilter(reviewWindow) }
+        : { take: 0 },
+      trainingRecords: {
+        where: { status: "COMPLETED", certificateId: { not: null } },
+        select: { certificate: { select: { moduleId: true } } },
+      },
     },
   });
 
@@ -121,6 +148,13 @@ export async function getEligibleReviewers(
 
       const isSameOrg = reviewerOrgId === hostOrgId;
       const isSameTeam = hostTeamId !== null && reviewerTeamId === hostTeamId;
+      const isBlocked =
+        reviewWindow !== null &&
+        hasBlockingAvailability(reviewer.availabilityPeriods, reviewWindow, reviewId);
+      const verifiedModuleIds = new Set(
+        reviewer.trainingRecords.map((t) => t.certificate?.moduleId)
+      );
+      const missingTraining = requiredModules.filter((m) => !verifiedModuleIds.has(m.id));
 
       let isEligible = true;
       let ineligibilityReason: string | undefined;
@@ -135,6 +169,18 @@ export async function getEligibleReviewers(
         isEligible = false;
         ineligibilityReason = "Different team - requires cross-team approval";
       }
+      // Rule 4: Calendar blocked during the review period
+      else if (isBlocked) {
+        isEligible = false;
+        ineligibilityReason = "Unavailable during review dates";
+      }
+      // Rule 5: Required training not verified
+      else if (missingTraining.length > 0) {
+        isEligible = false;
+        ineligibilityReason = `Required training not completed: ${missingTraining
+          .map((m) => m.code)
+          .join(", ")}`;
+      }
 
       return {
         id: reviewer.id,
@@ -151,7 +197,7 @@ export async function getEligibleReviewers(
         },
         status: reviewer.status,
         expertiseAreas: reviewer.expertiseAreas,
-        isAvailable: reviewer.isAvailable,
+        isAvailable: reviewer.isAvailable && !isBlocked,
         isSameTeam,
         isSameOrg,
         isEligible,
@@ -493,6 +539,12 @@ export async function getLeadQualificationStatus(
   const hasMinReviews = profile.reviewsCompleted >= MIN_REVIEWS_FOR_LEAD;
   const hasLeadCert = profile.certifications.length > 0;
 
+  // Verified lead training only counts once lead modules are marked required
+  const leadModules = (await getRequiredTrainingModules()).lead;
+  const verifiedModuleIds = await getVerifiedModuleIds(reviewerProfileId);
+  const verifiedLeadModules = leadModules.filter((m) => verifiedModuleIds.has(m.id));
+  const hasLeadTraining = verifiedLeadModules.length === leadModules.length;
+
   const requirements = [
     {
       name: "Lead Qualified Status",
@@ -512,10 +564,20 @@ export async function getLeadQualificationStatus(
       current: hasLeadCert ? "Active" : "None",
       required: "Valid certification",
     },
+    ...(leadModules.length > 0
+      ? [
+          {
+            name: "Verified Lead Reviewer Training",
+            met: hasLeadTraining,
+            current: `${verifiedLeadModules.length} of ${leadModules.length} modules`,
+            required: leadModules.map((m) => m.code).join(", "),
+          },
+        ]
+      : []),
   ];
 
   return {
-    isQualified: hasLeadStatus && hasMinReviews,
+    isQualified: hasLeadStatus && hasMinReviews && hasLeadTraining,
     requirements,
   };
 }
@@ -31,6 +31,15 @@ import {
   isANSResponseAnswered,
   isSMSResponseAnswered,
 } from "@/lib/utils/assessment-helpers";
+import {
+  diffAssessmentResponses,
+  summarizeDeltaBy,
+  summarizeDeltaTotals,
+  type DeltaGroupSummary,
+  type DeltaResponseInput,
+  type DeltaTotals,
+  type QuestionDelta,
+} from "@/lib/assessment/score-delta";
 
 // =============================================================================
 // TYPES
@@ -158,6 +167,40 @@ export interface ScoreComparison {
   lowestScore: number;
 }
 
+export interface DeltaAssessmentSummary {
+  id: string;
+  title: string;
+  status: AssessmentStatus;
+  submittedAt: Date | null;
+  completedAt: Date | null;
+  score: number;
+  level?: MaturityLevel;
+}
+
+export interface GroupScoreDelta extends DeltaGroupSummary {
+  nameEn: string;
+  nameFr: string;
+  /** Null when the group had no scorable answers in that assessment */
+  before: number | null;
+  after: number | null;
+  delta: number | null;
+  beforeLevel?: MaturityLevel;
+  afterLevel?: MaturityLevel;
+}
+
+export interface AssessmentDelta {
+  type: "ANS_USOAP_CMA" | "SMS_CANSO_SOE";
+  base: DeltaAssessmentSummary;
+  target: DeltaAssessmentSummary;
+  overallDelta: number;
+  totals: DeltaTotals;
+  byAuditArea: GroupScoreDelta[];
+  byCriticalElement: GroupScoreDelta[];
+  byComponent: GroupScoreDelta[];
+  byStudyArea: GroupScoreDelta[];
+  questions: QuestionDelta[];
+}
+
 export interface ValidationResult {
   isValid: boolean;
   canCalculate: boolean;
@@ -774,12 +817,227 @@ export class ScoringService {
 
     return this.compareScores(assessments.map((a: { id: string }) => a.id));
   }
+
+  /**
+   * Explain score movement between two assessments of the same
+   * questionnaire and organization. Scores are recalculated from the
+   * responses so both sides use the current methodology.
+   */
+  async getAssessmentDelta(
+    baseAssessmentId: string,
+    targetAssessmentId: string
+  ): Promise<AssessmentDelta> {
+    const include = {
+      questionnaire: true,
+      responses: {
+        include: {
+          question: true,
+          documents: { select: { documentId: true } },
+        },
+      },
+    } as const;
+
+    const [base, target] = await Promise.all([
+      prisma.assessment.findUnique({ where: { id: baseAssessmentId }, include }),
+      prisma.assessment.findUnique({ where: { id: targetAssessmentId }, include }),
+    ]);
+
+    if (!base || !target) {
+      throw new Error(
+        `Assessment not found: ${!base ? baseAssessmentId : targetAssessmentId}`
+      );
+    }
+
+    if (
+      base.questionnaireId !== target.questionnaireId ||
+      base.organizationId !== target.organizationId
+    ) {
+      throw new Error(
+        "Assessments must use the same questionnaire for the same organization"
+      );
+    }
+
+    const toDeltaInput = (
+      responses: typeof base.responses
+    ): DeltaResponseInput[] =>
+      responses.map((r) => ({
+        questionId: r.questionId,
+        pqNumber: r.question.pqNumber,
+        questionTextEn: r.question.questionTextEn,
+        questionTextFr: r.question.questionTextFr,
+        auditArea: r.question.auditArea,
+        criticalElement: r.question.criticalElement,
+        smsComponent: r.question.smsComponent,
+        studyArea: r.question.studyArea,
+        responseValue: r.responseValue,
+        maturityLevel: r.maturityLevel,
+        evidence: [...r.evidenceUrls, ...r.documents.map((d) => d.documentId)],
+      }));
+
+    const questions = diffAssessmentResponses(
+      toDeltaInput(base.responses),
+      toDeltaInput(target.responses)
+    );
+    const compared = new Set([
+      ...base.responses.map((r) => r.questionId),
+      ...target.responses.map((r) => r.questionId),
+    ]).size;
+
+    const summarize = (
+      a: { id: string; title: string; status: AssessmentStatus; submittedAt: Date | null; completedAt: Date | null },
+      score: number,
+      level?: MaturityLevel
+    ): DeltaAssessmentSummary => ({
+      id: a.id,
+      title: a.title,
+      status: a.status,
+      submittedAt: a.submittedAt,
+      completedAt: a.completedAt,
+      score,
+      level,
+    });
+
+    const result: AssessmentDelta = {
+      type: base.questionnaire.type as AssessmentDelta["type"],
+      base: summarize(base, 0),
+      target: summarize(target, 0),
+      overallDelta: 0,
+      totals: summarizeDeltaTotals(questions, compared),
+      byAuditArea: [],
+      byCriticalElement: [],
+      byComponent: [],
+      byStudyArea: [],
+      questions,
+    };
+
+    if (base.questionnaire.type === "ANS_USOAP_CMA") {
+      const [before, after] = await Promise.all([
+        this.calculateEIScore(base.id),
+        this.calculateEIScore(target.id),
+      ]);
+      result.base = summarize(base, before.overall);
+      result.target = summarize(target, after.overall);
+      result.byAuditArea = buildGroupDeltas(
+        before.byAuditArea,
+        after.byAuditArea,
+        summarizeDeltaBy(questions, "auditArea"),
+        (area) => (area.applicable > 0 ? { score: area.eiScore } : null)
+      );
+      result.byCriticalElement = buildGroupDeltas(
+        before.byCriticalElement,
+        after.byCriticalElement,
+        summarizeDeltaBy(questions, "criticalElement"),
+        (ce) => (ce.applicable > 0 ? { score: ce.eiScore } : null)
+      );
+    } else {
+      const [before, after] = await Promise.all([
+        this.calculateSMSMaturity(base.id),
+        this.calculateSMSMaturity(target.id),
+      ]);
+      result.base = summarize(base, before.overallScore, before.overallLevel);
+      result.target = summarize(target, after.overallScore, after.overallLevel);
+      result.byComponent = buildGroupDeltas(
+        before.byComponent,
+        after.byComponent,
+        summarizeDeltaBy(questions, "smsComponent"),
+        (comp) =>
+          comp.answeredCount > 0 ? { score: comp.score, level: comp.level } : null
+      );
+      result.byStudyArea = buildGroupDeltas(
+        before.byStudyArea,
+        after.byStudyArea,
+        summarizeDeltaBy(questions, "studyArea"),
+        (sa) => (sa.answeredCount > 0 ? { score: sa.score, level: sa.level } : null)
+      );
+    }
+
+    result.overallDelta =
+      Math.round((result.target.score - result.base.score) * 10) / 10;
+
+    return result;
+  }
+
+  /**
+   * Other submitted assessments of the same questionnaire and organization,
+   * newest first, that can be compared with the given assessment
+   */
+  async getComparableAssessments(assessmentId: string) {
+    const assessment = await prisma.assessment.findUnique({
+      where: { id: assessmentId },
+      select: { organizationId: true, questionnaireId: true },
+    });
+
+    if (!assessment) {
+      throw new Error(`Assessment not found: ${assessmentId}`);
+    }
+
+    return prisma.assessment.findMany({
+      where: {
+        id: { not: assessmentId },
+        organizationId: assessment.organizationId,
+        questionnaireId: assessment.questionnaireId,
+        status: { in: ["SUBMITTED", "UNDER_REVIEW", "COMPLETED", "ARCHIVED"] },
+      },
+      select: {
+        id: true,
+        title: true,
+        status: true,
+        submittedAt: true,
+        completedAt: true,
+        overallScore: true,
+        maturityLevel: true,
+      },
+      orderBy: [{ submittedAt: "desc" }, { createdAt: "desc" }],
+    });
+  }
 }
 
 // =============================================================================
 // HELPER FUNCTIONS
 // =============================================================================
 
+/**
+ * Pair per-group scores from two calculations with the question change
+ * counts, keeping only groups that were scored or changed
+ */
+function buildGroupDeltas<T extends { code: string; nameEn: string; nameFr: string }>(
+  before: Record<string, T>,
+  after: Record<string, T>,
+  changes: Record<string, DeltaGroupSummary>,
+  scoreOf: (group: T) => { score: number; level?: MaturityLevel } | null
+): GroupScoreDelta[] {
+  const deltas: GroupScoreDelta[] = [];
+
+  for (const [code, group] of Object.entries(after)) {
+    const previous = before[code] ? scoreOf(before[code]) : null;
+    const current = scoreOf(group);
+    const change = changes[code];
+
+    if (!previous && !current && !change) continue;
+
+    deltas.push({
+      code,
+      nameEn: group.nameEn,
+      nameFr: group.nameFr,
+      changed: change?.changed ?? 0,
+      regressions: change?.regressions ?? 0,
+      improvements: change?.improvements ?? 0,
+      newlyNotApplicable: change?.newlyNotApplicable ?? 0,
+      evidenceChanged: change?.evidenceChanged ?? 0,
+      before: previous?.score ?? null,
+      after: current?.score ?? null,
+      delta:
+        previous && current
+          ? Math.round((current.score - previous.score) * 10) / 10
+          : null,
+      beforeLevel: previous?.level,
+      afterLevel: current?.level,
+    });
+  }
+
+  return deltas;
+}
+
 function initializeAuditAreaScores(): Record<USOAPAuditArea, AuditAreaScore> {
   const scores: Partial<Record<USOAPAuditArea, AuditAreaScore>> = {};
 
@@ -0,0 +1,131 @@
+/**
+ * Search Documents
+ *
+ * Columns that make up the English and French full-text documents of each
+ * searchable table. The same expressions are used by the search queries
+ * and by `scripts/create-search-indexes.ts`, so the GIN expression indexes
+ * always match what the planner sees.
+ */
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export type SearchLanguage = "en" | "fr";
+
+interface LanguageColumns {
+  /** Weighted A: titles, subjects and names */
+  title: string[];
+  /** Weighted B: descriptions and other body text */
+  body: string[];
+}
+
+export interface SearchDocument {
+  table: string;
+  en: LanguageColumns;
+  fr: LanguageColumns;
+}
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+export const TEXT_SEARCH_CONFIG: Record<SearchLanguage, string> = {
+  en: "english",
+  fr: "french",
+};
+
+/**
+ * Searchable text per entity. Single-language text (discussions, document
+ * metadata, actionable advice) appears in both documents so it is stemmed
+ * with either configuration.
+ */
+export const SEARCH_DOCUMENTS = {
+  finding: {
+    table: "findings",
+    en: { title: ["title_en"], body: ["description_en", "evidence_en"] },
+    fr: { title: ["title_fr"], body: ["description_fr", "evidence_fr"] },
+  },
+  cap: {
+    table: "corrective_action_plans",
+    en: { title: [], body: ["root_cause_en", "corrective_action_en", "preventive_action_en"] },
+    fr: { title: [], body: ["root_cause_fr", "corrective_action_fr", "preventive_action_fr"] },
+  },
+  bestPractice: {
+    table: "best_practices",
+    en: {
+      title: ["title_en"],
+      body: ["summary_en", "description_en", "implementation_en", "benefits_en"],
+    },
+    fr: {
+      title: ["title_fr"],
+      body: ["summary_fr", "description_fr", "implementation_fr", "benefits_fr"],
+    },
+  },
+  lesson: {
+    table: "lessons_learned",
+    en: { title: ["title_en"], body: ["content_en", "actionable_advice"] },
+    fr: { title: ["title_fr"], body: ["content_fr", "actionable_advice"] },
+  },
+  discussion: {
+    table: "review_discussions",
+    en: { title: ["subject"], body: ["content"] },
+    fr: { title: ["subject"], body: ["content"] },
+  },
+  document: {
+    table: "documents",
+    en: { title: ["name", "original_name"], body: ["description"] },
+    fr: { title: ["name", "original_name"], body: ["description"] },
+  },
+} satisfies Record<string, SearchDocument>;
+
+export type SearchDocumentKey = keyof typeof SEARCH_DOCUMENTS;
+
+// =============================================================================
+// SQL EXPRESSIONS
+// =============================================================================
+
+function qualify(column: string, alias?: string): string {
+  return alias ? `${alias}.${column}` : column;
+}
+
+/**
+ * Concatenated text of the given columns, NULLs treated as empty
+ */
+export function textExpression(columns: string[], alias?: string): string {
+  return columns.map((c) => `coalesce(${qualify(c, alias)}, '')`).join(" || ' ' || ");
+}
+
+/**
+ * Weighted tsvector expression for one language of a document
+ */
+export function vectorExpression(
+  document: SearchDocument,
+  language: SearchLanguage,
+  alias?: string
+): string {
+  const config = `'${TEXT_SEARCH_CONFIG[language]}'::regconfig`;
+  const { title, body } = document[language];
+  const parts: string[] = [];
+
+  if (title.length > 0) {
+    parts.push(`setweight(to_tsvector(${config}, ${textExpression(title, alias)}), 'A')`);
+  }
+  if (body.length > 0) {
+    parts.push(`setweight(to_tsvector(${config}, ${textExpression(body, alias)}), 'B')`);
+  }
+  return `(${parts.join(" || ")})`;
+}
+
+/**
+ * CREATE INDEX statements for every searchable table and language
+ */
+export function searchIndexStatements(): string[] {
+  return Object.values(SEARCH_DOCUMENTS).flatMap((document) =>
+    (Object.keys(TEXT_SEARCH_CONFIG) as SearchLanguage[]).map(
+      (language) =>
+        `CREATE INDEX IF NOT EXISTS ${document.table}_search_${language}_idx ` +
+        `ON ${document.table} USING gin (${vectorExpression(document, language)})`
+    )
+  );
+}
@@ -0,0 +1,14 @@
+/**
+ * Search Service Index
+ *
+ * Central export point for full-text search.
+ */
+
+export {
+  search,
+  type SearchViewer,
+  type SearchFilters,
+  type SearchOptions,
+  type SearchResponse,
+} from "./search-service";
+export { SEARCH_DOCUMENTS, searchIndexStatements } from "./documents";
@@ -0,0 +1,521 @@
+/**
+ * Search Service
+ *
+ * Ranked full-text search over findings, CAPs, best practices, lessons
+ * learned, review discussions and document metadata using PostgreSQL
+ * `english` and `french` text search configurations. Reviews and
+ * organizations are matched on reference numbers, codes and names.
+ *
+ * Every entity query carries its own access condition so results follow
+ * the same visibility rules as the entity routers. Facets are computed over
+ * all matches before the type filter is applied and results are paginated.
+ */
+
+import { Prisma, type AfricanRegion, type FindingSeverity, type UserRole } from "@prisma/client";
+import { prisma } from "@/lib/db";
+import { OVERSIGHT_ROLES } from "@/lib/permissions";
+import {
+  HIGHLIGHT_END,
+  HIGHLIGHT_START,
+  REFERENCE_MATCH_BOOST,
+  buildFacets,
+  rankHits,
+  toPrefixTsQuery,
+  type SearchEntityType,
+  type SearchFacets,
+  type SearchHit,
+} from "@/lib/search/full-text";
+import {
+  SEARCH_DOCUMENTS,
+  TEXT_SEARCH_CONFIG,
+  textExpression,
+  vectorExpression,
+  type SearchDocumentKey,
+  type SearchLanguage,
+} from "./documents";
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface SearchViewer {
+  id: string;
+  role: UserRole;
+  organizationId: string | null;
+}
+
+export interface SearchFilters {
+  types?: SearchEntityType[];
+  reviewId?: string;
+  organizationId?: string;
+  severities?: FindingSeverity[];
+  regions?: AfricanRegion[];
+  dateFrom?: Date;
+  dateTo?: Date;
+}
+
+export interface SearchOptions {
+  query: string;
+  locale: SearchLanguage;
+  filters?: SearchFilters;
+  limit: number;
+  offset?: number;
+}
+
+export interface SearchResponse {
+  hits: SearchHit[];
+  total: number;
+  facets: SearchFacets;
+}
+
+/** Row shape shared by every entity query */
+interface SearchRow {
+  id: string;
+  type: SearchEntityType;
+  reference: string | null;
+  title_en: string | null;
+  title_fr: string | null;
+  status: string | null;
+  snippet: string | null;
+  rank: number;
+  review_id: string | null;
+  review_reference: string | null;
+  organization_id: string | null;
+  organization_name: string | null;
+  severity: string | null;
+  region: string | null;
+  date: Date;
+  finding_id: string | null;
+  cap_id: string | null;
+}
+
+interface QueryContext {
+  viewer: SearchViewer;
+  filters: SearchFilters;
+  locale: SearchLanguage;
+  tsQuery: string;
+  like: string;
+  prefix: string;
+}
+
+/** Columns an entity exposes to the common filters */
+interface FilterColumns {
+  reviewId: string;
+  organizationId: string;
+  severity: string;
+  region: string;
+  date: string;
+}
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+/** Matches fetched per entity; facets and totals are computed over these */
+const MAX_MATCHES_PER_TYPE = 100;
+
+const HEADLINE_OPTIONS =
+  `StartSel=${HIGHLIGHT_START}, StopSel=${HIGHLIGHT_END}, ` +
+  `MaxWords=30, MinWords=12, MaxFragments=2, FragmentDelimiter=" … "`;
+
+// =============================================================================
+// SQL HELPERS
+// =============================================================================
+
+function escapeLike(value: string): string {
+  return value.replace(/[\\%_]/g, (c) => `\\${c}`);
+}
+
+function tsQuery(ctx: QueryContext, language: SearchLanguage): Prisma.Sql {
+  return Prisma.sql`to_tsquery(${Prisma.raw(`'${TEXT_SEARCH_CONFIG[language]}'::regconfig`)}, ${ctx.tsQuery})`;
+}
+
+/** Whether either language document matches the query */
+function matches(ctx: QueryContext, key: SearchDocumentKey, alias: string): Prisma.Sql {
+  const document = SEARCH_DOCUMENTS[key];
+  return Prisma.sql`(${Prisma.raw(vectorExpression(document, "en", alias))} @@ ${tsQuery(ctx, "en")}
+    OR ${Prisma.raw(vectorExpression(document, "fr", alias))} @@ ${tsQuery(ctx, "fr")})`;
+}
+
+function rank(ctx: QueryContext, key: SearchDocumentKey, alias: string): Prisma.Sql {
+  const document = SEARCH_DOCUMENTS[key];
+  return Prisma.sql`(ts_rank(${Prisma.raw(vectorExpression(document, "en", alias))}, ${tsQuery(ctx, "en")})
+    + ts_rank(${Prisma.raw(vectorExpression(document, "fr", alias))}, ${tsQuery(ctx, "fr")}))`;
+}
+
+/** Highlighted snippet from the body text in the viewer's language */
+function snippet(ctx: QueryContext, key: SearchDocumentKey, alias: string): Prisma.Sql {
+  const { title, body } = SEARCH_DOCUMENTS[key][ctx.locale];
+  const text = textExpression(body.length > 0 ? body : title, alias);
+  return Prisma.sql`ts_headline(${Prisma.raw(`'${TEXT_SEARCH_CONFIG[ctx.locale]}'::regconfig`)}, ${Prisma.raw(text)}, ${tsQuery(ctx, ctx.locale)}, ${HEADLINE_OPTIONS})`;
+}
+
+function referenceBoost(ctx: QueryContext, column: string): Prisma.Sql {
+  return Prisma.sql`(CASE WHEN ${Prisma.raw(column)} ILIKE ${ctx.prefix} THEN ${REFERENCE_MATCH_BOOST} ELSE 0 END)`;
+}
+
+function isOversight(viewer: SearchViewer): boolean {
+  return OVERSIGHT_ROLES.includes(viewer.role);
+}
+
+/**
+ * Viewer is on the review team or belongs to the given organization
+ */
+function reviewAccess(viewer: SearchViewer, reviewIdColumn: string, orgColumn: string): Prisma.Sql {
+  if (isOversight(viewer)) return Prisma.sql`TRUE`;
+  return Prisma.sql`(${Prisma.raw(orgColumn)} = ${viewer.organizationId}
+    OR EXISTS (SELECT 1 FROM review_team_members tm
+      WHERE tm.review_id = ${Prisma.raw(reviewIdColumn)} AND tm.user_id = ${viewer.id}))`;
+}
+
+function filterSql(filters: SearchFilters, columns: FilterColumns): Prisma.Sql {
+  const conditions: Prisma.Sql[] = [Prisma.sql`TRUE`];
+
+  if (filters.reviewId) {
+    conditions.push(Prisma.sql`${Prisma.raw(columns.reviewId)} = ${filters.reviewId}`);
+  }
+  if (filters.organizationId) {
+    conditions.push(Prisma.sql`${Prisma.raw(columns.organizationId)} = ${filters.organizationId}`);
+  }
+  if (filters.severities?.length) {
+    conditions.push(Prisma.sql`${Prisma.raw(columns.severity)}::text = ANY(${filters.severities})`);
+  }
+  if (filters.regions?.length) {
+    conditions.push(Prisma.sql`${Prisma.raw(columns.region)}::text = ANY(${filters.regions})`);
+  }
+  if (filters.dateFrom) {
+    conditions.push(Prisma.sql`${Prisma.raw(columns.date)} >= ${filters.dateFrom}`);
+  }
+  if (filters.dateTo) {
+    conditions.push(Prisma.sql`${Prisma.raw(columns.date)} <= ${filters.dateTo}`);
+  }
+  return Prisma.join(conditions, " AND ");
+}
+
+// =============================================================================
+// ENTITY QUERIES
+// =============================================================================
+
+const ENTITY_QUERIES: Record<SearchEntityType, (ctx: QueryContext) => Prisma.Sql> = {
+  review: (ctx) => Prisma.sql`
+    SELECT r.id, 'review' AS type, r.reference_number AS reference,
+      r.reference_number AS title_en, r.reference_number AS title_fr, r.status::text AS status,
+      NULL::text AS snippet,
+      (${referenceBoost(ctx, "r.reference_number")} + 0.1)::real AS rank,
+      r.id AS review_id, r.reference_number AS review_reference,
+      r.host_organization_id AS organization_id, o.name_en AS organization_name,
+      NULL::text AS severity, o.region::text AS region, r.created_at AS date,
+      NULL::text AS finding_id, NULL::text AS cap_id
+    FROM reviews r
+    JOIN organizations o ON o.id = r.host_organization_id
+    WHERE (r.reference_number ILIKE ${ctx.like} OR o.name_en ILIKE ${ctx.like}
+        OR o.name_fr ILIKE ${ctx.like} OR o.organization_code ILIKE ${ctx.like})
+      AND ${reviewAccess(ctx.viewer, "r.id", "r.host_organization_id")}
+      AND ${filterSql(ctx.filters, {
+        reviewId: "r.id",
+        organizationId: "r.host_organization_id",
+        severity: "NULL",
+        region: "o.region",
+        date: "r.created_at",
+      })}
+    ORDER BY rank DESC, r.created_at DESC
+    LIMIT ${MAX_MATCHES_PER_TYPE}`,
+
+  organization: (ctx) => Prisma.sql`
+    SELECT o.id, 'organization' AS type, o.organization_code AS reference,
+      o.name_en AS title_en, o.name_fr AS title_fr, NULL::text AS status,
+      NULL::text AS snippet,
+      (${referenceBoost(ctx, "o.organization_code")} + 0.1)::real AS rank,
+      NULL::text AS review_id, NULL::text AS review_reference,
+      o.id AS organization_id, o.name_en AS organization_name,
+      NULL::text AS severity, o.region::text AS region, o.created_at AS date,
+      NULL::text AS finding_id, NULL::text AS cap_id
+    FROM organizations o
+    WHERE (o.name_en ILIKE ${ctx.like} OR o.name_fr ILIKE ${ctx.like}
+        OR o.organization_code ILIKE ${ctx.like})
+      AND ${filterSql(ctx.filters, {
+        reviewId: "NULL",
+        organizationId: "o.id",
+        severity: "NULL",
+        region: "o.region",
+        date: "o.created_at",
+      })}
+    ORDER BY rank DESC, o.name_en
+    LIMIT ${MAX_MATCHES_PER_TYPE}`,
+
+  finding: (ctx) => Prisma.sql`
+    SELECT f.id, 'finding' AS type, f.reference_number AS reference,
+      f.title_en, f.title_fr, f.status::text AS status,
+      ${snippet(ctx, "finding", "f")} AS snippet,
+      (${rank(ctx, "finding", "f")} + ${referenceBoost(ctx, "f.reference_number")})::real AS rank,
+      f.review_id, r.reference_number AS review_reference,
+      f.organization_id, o.name_en AS organization_name,
+      f.severity::text AS severity, o.region::text AS region, f.created_at AS date,
+      f.id AS finding_id, NULL::text AS cap_id
+    FROM findings f
+    JOIN reviews r ON r.id = f.review_id
+    JOIN organizations o ON o.id = f.organization_id
+    WHERE (${matches(ctx, "finding", "f")} OR f.reference_number ILIKE ${ctx.like})
+      AND ${reviewAccess(ctx.viewer, "f.review_id", "f.organization_id")}
+      AND ${filterSql(ctx.filters, {
+        reviewId: "f.review_id",
+        organizationId: "f.organization_id",
+        severity: "f.severity",
+        region: "o.region",
+        date: "f.created_at",
+      })}
+    ORDER BY rank DESC
+    LIMIT ${MAX_MATCHES_PER_TYPE}`,
+
+  cap: (ctx) => Prisma.sql`
+    SELECT c.id, 'cap' AS type, f.reference_number AS reference,
+      f.title_en, f.title_fr, c.status::text AS status,
+      ${snippet(ctx, "cap", "c")} AS snippet,
+      (${rank(ctx, "cap", "c")} + ${referenceBoost(ctx, "f.reference_number")})::real AS rank,
+      f.review_id, r.reference_number AS review_reference,
+      f.organization_id, o.name_en AS organization_name,
+      f.severity::text AS severity, o.region::text AS region, c.created_at AS date,
+      f.id AS finding_id, c.id AS cap_id
+    FROM corrective_action_plans c
+    JOIN findings f ON f.id = c.finding_id
+    JOIN reviews r ON r.id = f.review_id
+    JOIN organizations o ON o.id = f.organization_id
+    WHERE (${matches(ctx, "cap", "c")} OR f.reference_number ILIKE ${ctx.like})
+      AND ${reviewAccess(ctx.viewer, "f.review_id", "f.organization_id")}
+      AND ${filterSql(ctx.filters, {
+        reviewId: "f.review_id",
+        organizationId: "f.organization_id",
+        severity: "f.severity",
+        region: "o.region",
+        date: "c.created_at",
+      })}
+    ORDER BY rank DESC
+    LIMIT ${MAX_MATCHES_PER_TYPE}`,
+
+  bestPractice: (ctx) => Prisma.sql`
+    SELECT bp.id, 'bestPractice' AS type, bp.reference_number AS reference,
+      bp.title_en, bp.title_fr, bp.status::text AS status,
+      ${snippet(ctx, "bestPractice", "bp")} AS snippet,
+      (${rank(ctx, "bestPractice", "bp")} + ${referenceBoost(ctx, "bp.reference_number")})::real AS rank,
+      f.review_id, r.reference_number AS review_reference,
+      bp.organization_id, o.name_en AS organization_name,
+      NULL::text AS severity, o.region::text AS region, bp.created_at AS date,
+      NULL::text AS finding_id, NULL::text AS cap_id
+    FROM best_practices bp
+    JOIN organizations o ON o.id = bp.organization_id
+    LEFT JOIN findings f ON f.id = bp.finding_id
+    LEFT JOIN reviews r ON r.id = f.review_id
+    WHERE (${matches(ctx, "bestPractice", "bp")} OR bp.reference_number ILIKE ${ctx.like})
+      AND ${
+        isOversight(ctx.viewer)
+          ? Prisma.sql`TRUE`
+          : Prisma.sql`(bp.status = 'PUBLISHED' OR bp.organization_id = ${ctx.viewer.organizationId})`
+      }
+      AND ${filterSql(ctx.filters, {
+        reviewId: "f.review_id",
+        organizationId: "bp.organization_id",
+        severity: "NULL",
+        region: "o.region",
+        date: "bp.created_at",
+      })}
+    ORDER BY rank DESC
+    LIMIT ${MAX_MATCHES_PER_TYPE}`,
+
+  lesson: (ctx) => Prisma.sql`
+    SELECT l.id, 'lesson' AS type, NULL::text AS reference,
+      l.title_en, l.title_fr, l.status::text AS status,
+      ${snippet(ctx, "lesson", "l")} AS snippet,
+      ${rank(ctx, "lesson", "l")}::real AS rank,
+      CASE WHEN l.is_anonymized THEN NULL ELSE rt.review_id END AS review_id,
+      CASE WHEN l.is_anonymized THEN NULL ELSE r.reference_number END AS review_reference,
+      NULL::text AS organization_id, NULL::text AS organization_name,
+      NULL::text AS severity, l.host_region::text AS region, l.created_at AS date,
+      NULL::text AS finding_id, NULL::text AS cap_id
+    FROM lessons_learned l
+    JOIN review_retrospectives rt ON rt.id = l.retrospective_id
+    JOIN reviews r ON r.id = rt.review_id
+    WHERE ${matches(ctx, "lesson", "l")}
+      AND ${
+        isOversight(ctx.viewer)
+          ? Prisma.sql`TRUE`
+          : Prisma.sql`(l.status = 'PUBLISHED' OR l.author_id = ${ctx.viewer.id})`
+      }
+      AND ${filterSql(ctx.filters, {
+        reviewId: "CASE WHEN l.is_anonymized THEN NULL ELSE rt.review_id END",
+        organizationId: "NULL",
+        severity: "NULL",
+        region: "l.host_region",
+        date: "l.created_at",
+      })}
+    ORDER BY rank DESC
+    LIMIT ${MAX_MATCHES_PER_TYPE}`,
+
+  discussion: (ctx) => Prisma.sql`
+    SELECT d.id, 'discussion' AS type, NULL::text AS reference,
+      coalesce(d.subject, left(d.content, 80)) AS title_en,
+      coalesce(d.subject, left(d.content, 80)) AS title_fr,
+      CASE WHEN d.is_resolved THEN 'RESOLVED' ELSE NULL END AS status,
+      ${snippet(ctx, "discussion", "d")} AS snippet,
+      ${rank(ctx, "discussion", "d")}::real AS rank,
+      d.review_id, r.reference_number AS review_reference,
+      r.host_organization_id AS organization_id, o.name_en AS organization_name,
+      NULL::text AS severity, o.region::text AS region, d.created_at AS date,
+      NULL::text AS finding_id, NULL::text AS cap_id
+    FROM review_discussions d
+    JOIN reviews r ON r.id = d.review_id
+    JOIN organizations o ON o.id = r.host_organization_id
+    WHERE ${matches(ctx, "discussion", "d")}
+      AND NOT d.is_deleted
+      AND ${reviewAccess(ctx.viewer, "d.review_id", "r.host_organization_id")}
+      AND ${filterSql(ctx.filters, {
+        reviewId: "d.review_id",
+        organizationId: "r.host_organization_id",
+        severity: "NULL",
+        region: "o.region",
+        date: "d.created_at",
+      })}
+    ORDER BY rank DESC
+    LIMIT ${MAX_MATCHES_PER_TYPE}`,
+
+  document: (ctx) => Prisma.sql`
+    SELECT doc.id, 'document' AS type, NULL::text AS reference,
+      doc.name AS title_en, doc.name AS title_fr, doc.status::text AS status,
+      ${snippet(ctx, "document", "doc")} AS snippet,
+      ${rank(ctx, "document", "doc")}::real AS rank,
+      doc.review_id, r.reference_number AS review_reference,
+      o.id AS organization_id, o.name_en AS organization_name,
+      NULL::text AS severity, o.region::text AS region, doc.uploaded_at AS date,
+      doc.finding_id, doc.cap_id
+    FROM documents doc
+    LEFT JOIN reviews r ON r.id = doc.review_id
+    LEFT JOIN organizations o ON o.id = coalesce(doc.organization_id, r.host_organization_id)
+    WHERE ${matches(ctx, "document", "doc")}
+      AND NOT doc.is_deleted
+      AND ${
+        isOversight(ctx.viewer)
+          ? Prisma.sql`TRUE`
+          : Prisma.sql`(doc.uploaded_by_id = ${ctx.viewer.id}
+              OR EXISTS (SELECT 1 FROM review_team_members tm
+                WHERE tm.review_id = doc.review_id AND tm.user_id = ${ctx.viewer.id})
+              OR (NOT doc.is_confidential AND o.id = ${ctx.viewer.organizationId}))`
+      }
+      AND ${filterSql(ctx.filters, {
+        reviewId: "doc.review_id",
+        organizationId: "o.id",
+        severity: "NULL",
+        region: "o.region",
+        date: "doc.uploaded_at",
+      })}
+    ORDER BY rank DESC
+    LIMIT ${MAX_MATCHES_PER_TYPE}`,
+};
+
+// =============================================================================
+// RESULT MAPPING
+// =============================================================================
+
+function hrefFor(row: SearchRow): string {
+  switch (row.type) {
+    case "review":
+      return `/reviews/${row.id}`;
+    case "organization":
+      return `/organizations/${row.id}`;
+    case "finding":
+      return `/findings/${row.id}`;
+    case "cap":
+      return `/caps/${row.id}`;
+    case "bestPractice":
+      return `/best-practices/${row.id}`;
+    case "lesson":
+      return `/lessons/${row.id}`;
+    case "discussion":
+      return `/reviews/${row.review_id}?tab=workspace`;
+    case "document":
+      if (row.finding_id) return `/findings/${row.finding_id}`;
+      if (row.cap_id) return `/caps/${row.cap_id}`;
+      if (row.review_id) return `/reviews/${row.review_id}?tab=documents`;
+      return row.organization_id ? `/organizations/${row.organization_id}` : "/dashboard";
+  }
+}
+
+function toHit(row: SearchRow, locale: SearchLanguage): SearchHit {
+  const title = (locale === "fr" ? row.title_fr : row.title_en) ?? row.title_en ?? "";
+
+  const display: Record<SearchEntityType, { title: string; subtitle?: string | null }> = {
+    review: { title: row.reference ?? title, subtitle: row.organization_name },
+    organization: { title, subtitle: row.reference },
+    finding: { title: title || (row.reference ?? ""), subtitle: row.reference },
+    cap: { title: `CAP - ${row.reference}`, subtitle: title },
+    bestPractice: { title, subtitle: row.reference },
+    lesson: { title, subtitle: row.review_reference },
+    discussion: { title, subtitle: row.review_reference },
+    document: { title, subtitle: row.review_reference ?? row.organization_name },
+  };
+
+  return {
+    id: row.id,
+    type: row.type,
+    title: display[row.type].title,
+    subtitle: display[row.type].subtitle ?? undefined,
+    status: row.status ?? undefined,
+    snippet: row.snippet ?? undefined,
+    href: hrefFor(row),
+    rank: Number(row.rank),
+    reviewId: row.review_id,
+    reviewReference: row.review_reference,
+    organizationId: row.organization_id,
+    organizationName: row.organization_name,
+    severity: row.severity,
+    region: row.region,
+    date: row.date,
+  };
+}
+
+// =============================================================================
+// SEARCH
+// =============================================================================
+
+/**
+ * Search every entity the viewer can see, rank the merged matches and
+ * return one page with facet counts.
+ */
+export async function search(
+  viewer: SearchViewer,
+  options: SearchOptions
+): Promise<SearchResponse> {
+  const tsQueryText = toPrefixTsQuery(options.query);
+  const filters = options.filters ?? {};
+
+  if (!tsQueryText) {
+    return { hits: [], total: 0, facets: buildFacets([]) };
+  }
+
+  const trimmed = options.query.trim();
+  const ctx: QueryContext = {
+    viewer,
+    filters,
+    locale: options.locale,
+    tsQuery: tsQueryText,
+    like: `%${escapeLike(trimmed)}%`,
+    prefix: `${escapeLike(trimmed)}%`,
+  };
+
+  const rows = await Promise.all(
+    (Object.keys(ENTITY_QUERIES) as SearchEntityType[]).map((type) =>
+      prisma.$queryRaw<SearchRow[]>(ENTITY_QUERIES[type](ctx))
+    )
+  );
+
+  const matched = rankHits(rows.flat().map((row) => toHit(row, options.locale)));
+  const facets = buildFacets(matched);
+  const visible = filters.types?.length
+    ? matched.filter((hit) => filters.types!.includes(hit.type))
+    : matched;
+  const offset = options.offset ?? 0;
+
+  return {
+    hits: visible.slice(offset, offset + options.limit),
+    total: visible.length,
+    facets,
+  };
+}
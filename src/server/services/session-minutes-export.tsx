@@ -0,0 +1,480 @@
+/**
+ * Session Minutes Export
+ *
+ * Renders review session minutes as PDF and DOCX. Signed minutes are
+ * rendered from the frozen record and stamped with the signature date, so
+ * the filed copies and later downloads carry the same content.
+ */
+
+import React from "react";
+import {
+  Document as PdfDocument,
+  Page,
+  View,
+  Text,
+  StyleSheet,
+  renderToBuffer,
+} from "@react-pdf/renderer";
+import {
+  Document as DocxDocument,
+  Packer,
+  Paragraph,
+  TextRun,
+  Table,
+  TableRow,
+  TableCell,
+  WidthType,
+  HeadingLevel,
+} from "docx";
+import type { MinutesAttendeeSide, MinutesStatus, SessionType } from "@prisma/client";
+import { colors } from "@/server/services/report";
+import type { MinutesAgendaItem, MinutesLocale } from "@/lib/minutes/session-minutes";
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export type MinutesFormat = "pdf" | "docx";
+
+export interface MinutesExportData {
+  reviewReference: string;
+  hostOrganization: string;
+  sessionType: SessionType;
+  sessionTitle: string | null;
+  startedAt: Date;
+  endedAt: Date | null;
+  status: MinutesStatus;
+  summary: string | null;
+  agenda: MinutesAgendaItem[];
+  decisions: string[];
+  attendees: {
+    name: string;
+    organization: string | null;
+    position: string | null;
+    side: MinutesAttendeeSide;
+    isPresent: boolean;
+  }[];
+  actionItems: { description: string; owner: string; dueDate: Date }[];
+  signedBy: string | null;
+  signedAt: Date | null;
+}
+
+export const MINUTES_MIME_TYPES: Record<MinutesFormat, string> = {
+  pdf: "application/pdf",
+  docx: "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+};
+
+// =============================================================================
+// LABELS
+// =============================================================================
+
+const labels = {
+  en: {
+    title: "Minutes of Meeting",
+    draft: "DRAFT",
+    review: "Review",
+    host: "Host organization",
+    meeting: "Meeting",
+    date: "Date",
+    summary: "Summary",
+    attendance: "Attendance",
+    name: "Name",
+    organization: "Organization",
+    position: "Position",
+    present: "Present",
+    yes: "Yes",
+    no: "Apologies",
+    agenda: "Agenda",
+    decisions: "Decisions",
+    actionItems: "Action Items",
+    action: "Action",
+    owner: "Owner",
+    dueDate: "Due date",
+    none: "None recorded.",
+    signedBy: "Signed by",
+    on: "on",
+    sessionTypes: {
+      FIELDWORK: "Fieldwork session",
+      REMOTE: "Remote session",
+      DOCUMENT_REVIEW: "Document review",
+      DEBRIEF: "Team debrief",
+      PLANNING: "Planning session",
+      CLOSING: "Closing meeting",
+    } as Record<SessionType, string>,
+    sides: {
+      REVIEW_TEAM: "Review team",
+      HOST_ORGANIZATION: "Host ANSP",
+      OTHER: "Other",
+    } as Record<MinutesAttendeeSide, string>,
+  },
+  fr: {
+    title: "Procès-verbal de réunion",
+    draft: "PROJET",
+    review: "Revue",
+    host: "Organisation hôte",
+    meeting: "Réunion",
+    date: "Date",
+    summary: "Résumé",
+    attendance: "Participants",
+    name: "Nom",
+    organization: "Organisation",
+    position: "Fonction",
+    present: "Présent",
+    yes: "Oui",
+    no: "Excusé",
+    agenda: "Ordre du jour",
+    decisions: "Décisions",
+    actionItems: "Actions",
+    action: "Action",
+    owner: "Responsable",
+    dueDate: "Échéance",
+    none: "Aucun élément consigné.",
+    signedBy: "Signé par",
+    on: "le",
+    sessionTypes: {
+      FIELDWORK: "Session de terrain",
+      REMOTE: "Session à distance",
+      DOCUMENT_REVIEW: "Revue documentaire",
+      DEBRIEF: "Débriefing de l'équipe",
+      PLANNING: "Session de planification",
+      CLOSING: "Réunion de clôture",
+    } as Record<SessionType, string>,
+    sides: {
+      REVIEW_TEAM: "Équipe de revue",
+      HOST_ORGANIZATION: "ANSP hôte",
+      OTHER: "Autre",
+    } as Record<MinutesAttendeeSide, string>,
+  },
+};
+
+function formatDate(date: Date, locale: MinutesLocale, withTime = false): string {
+  return date.toLocaleString(locale === "fr" ? "fr-FR" : "en-GB", {
+    day: "numeric",
+    month: "long",
+    year: "numeric",
+    ...(withTime ? { hour: "2-digit", minute: "2-digit" } : {}),
+    timeZone: "UTC",
+  });
+}
+
+/**
+ * Meeting name shown in the minutes: the session title, or its type
+ */
+export function meetingName(
+  data: Pick<MinutesExportData, "sessionTitle" | "sessionType">,
+  locale: MinutesLocale
+): string {
+  return data.sessionTitle || labels[locale].sessionTypes[data.sessionType];
+}
+
+function meetingDate(data: MinutesExportData, locale: MinutesLocale): string {
+  const start = formatDate(data.startedAt, locale, true);
+  return data.endedAt ? `${start} – ${formatDate(data.endedAt, locale, true)} UTC` : `${start} UTC`;
+}
+
+export function getMinutesFilename(
+  reviewReference: string,
+  startedAt: Date,
+  format: MinutesFormat
+): string {
+  return `${reviewReference}-minutes-${startedAt.toISOString().slice(0, 10)}.${format}`;
+}
+
+// =============================================================================
+// PDF
+// =============================================================================
+
+const minutesStyles = StyleSheet.create({
+  page: {
+    fontFamily: "Helvetica",
+    fontSize: 10,
+    padding: 40,
+    color: colors.gray[800],
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: "bold",
+    color: colors.primary,
+    marginBottom: 4,
+  },
+  draft: {
+    fontSize: 10,
+    color: colors.danger,
+    marginBottom: 8,
+  },
+  meta: {
+    marginBottom: 2,
+    color: colors.gray[600],
+  },
+  heading: {
+    fontSize: 13,
+    fontWeight: "bold",
+    color: colors.primaryLight,
+    marginTop: 16,
+    marginBottom: 6,
+  },
+  row: {
+    flexDirection: "row",
+    borderBottomWidth: 1,
+    borderBottomColor: colors.gray[200],
+    paddingVertical: 3,
+  },
+  headerRow: {
+    flexDirection: "row",
+    borderBottomWidth: 1,
+    borderBottomColor: colors.gray[400],
+    paddingVertical: 3,
+    fontWeight: "bold",
+  },
+  cell: {
+    flex: 1,
+    paddingRight: 4,
+  },
+  wideCell: {
+    flex: 2,
+    paddingRight: 4,
+  },
+  item: {
+    marginBottom: 4,
+  },
+  notes: {
+    marginLeft: 12,
+    marginBottom: 4,
+    color: colors.gray[600],
+  },
+  signature: {
+    marginTop: 24,
+    paddingTop: 8,
+    borderTopWidth: 1,
+    borderTopColor: colors.gray[400],
+  },
+});
+
+function MinutesPdf({ data, locale }: { data: MinutesExportData; locale: MinutesLocale }) {
+  const t = labels[locale];
+  const pinnedDate = data.signedAt ?? undefined;
+
+  return (
+    <PdfDocument
+      title={`${t.title} - ${data.reviewReference}`}
+      author="AAPRP"
+      creationDate={pinnedDate}
+      modificationDate={pinnedDate}
+    >
+      <Page size="A4" style={minutesStyles.page}>
+        <Text style={minutesStyles.title}>{t.title}</Text>
+        {data.status === "DRAFT" && <Text style={minutesStyles.draft}>{t.draft}</Text>}
+        <Text style={minutesStyles.meta}>
+          {t.review}: {data.reviewReference} — {t.host}: {data.hostOrganization}
+        </Text>
+        <Text style={minutesStyles.meta}>
+          {t.meeting}: {meetingName(data, locale)}
+        </Text>
+        <Text style={minutesStyles.meta}>
+          {t.date}: {meetingDate(data, locale)}
+        </Text>
+
+        {data.summary && (
+          <>
+            <Text style={minutesStyles.heading}>{t.summary}</Text>
+            <Text>{data.summary}</Text>
+          </>
+        )}
+
+        <Text style={minutesStyles.heading}>{t.attendance}</Text>
+        <View style={minutesStyles.headerRow}>
+          <Text style={minutesStyles.wideCell}>{t.name}</Text>
+          <Text style={minutesStyles.wideCell}>{t.organization}</Text>
+          <Text style={minutesStyles.cell}>{t.present}</Text>
+        </View>
+        {data.attendees.map((attendee, i) => (
+          <View key={i} style={minutesStyles.row}>
+            <Text style={minutesStyles.wideCell}>
+              {attendee.name}
+              {attendee.position ? `, ${attendee.position}` : ""}
+            </Text>
+            <Text style={minutesStyles.wideCell}>
+              {attendee.organization || t.sides[attendee.side]}
+            </Text>
+            <Text style={minutesStyles.cell}>{attendee.isPresent ? t.yes : t.no}</Text>
+          </View>
+        ))}
+
+        <Text style={minutesStyles.heading}>{t.agenda}</Text>
+        {data.agenda.map((item, i) => (
+          <View key={i}>
+            <Text style={minutesStyles.item}>
+              {i + 1}. {item.title}
+            </Text>
+            {item.notes && <Text style={minutesStyles.notes}>{item.notes}</Text>}
+          </View>
+        ))}
+
+        <Text style={minutesStyles.heading}>{t.decisions}</Text>
+        {data.decisions.length === 0 ? (
+          <Text>{t.none}</Text>
+        ) : (
+          data.decisions.map((decision, i) => (
+            <Text key={i} style={minutesStyles.item}>
+              {i + 1}. {decision}
+            </Text>
+          ))
+        )}
+
+        <Text style={minutesStyles.heading}>{t.actionItems}</Text>
+        {data.actionItems.length === 0 ? (
+          <Text>{t.none}</Text>
+        ) : (
+          <>
+            <View style={minutesStyles.headerRow}>
+              <Text style={minutesStyles.wideCell}>{t.action}</Text>
+              <Text style={minutesStyles.cell}>{t.owner}</Text>
+              <Text style={minutesStyles.cell}>{t.dueDate}</Text>
+            </View>
+            {data.actionItems.map((item, i) => (
+              <View key={i} style={minutesStyles.row}>
+                <Text style={minutesStyles.wideCell}>{item.description}</Text>
+                <Text style={minutesStyles.cell}>{item.owner}</Text>
+                <Text style={minutesStyles.cell}>{formatDate(item.dueDate, locale)}</Text>
+              </View>
+            ))}
+          </>
+        )}
+
+        {data.signedBy && data.signedAt && (
+          <Text style={minutesStyles.signature}>
+            {t.signedBy} {data.signedBy} {t.on} {formatDate(data.signedAt, locale, true)} UTC
+          </Text>
+        )}
+      </Page>
+    </PdfDocument>
+  );
+}
+
+/**
+ * Render minutes as PDF
+ */
+export async function renderMinutesPdf(
+  data: MinutesExportData,
+  locale: MinutesLocale
+): Promise<Buffer> {
+  return renderToBuffer(<MinutesPdf data={data} locale={locale} />);
+}
+
+// =============================================================================
+// DOCX
+// =============================================================================
+
+function docxTable(header: string[], rows: string[][]): Table {
+  const row = (cells: string[], bold = false) =>
+    new TableRow({
+      children: cells.map(
+        (text) =>
+          new TableCell({
+            children: [new Paragraph({ children: [new TextRun({ text, bold })] })],
+          })
+      ),
+    });
+
+  return new Table({
+    width: { size: 100, type: WidthType.PERCENTAGE },
+    rows: [row(header, true), ...rows.map((cells) => row(cells))],
+  });
+}
+
+/**
+ * Render minutes as DOCX
+ */
+export async function renderMinutesDocx(
+  data: MinutesExportData,
+  locale: MinutesLocale
+): Promise<Buffer> {
+  const t = labels[locale];
+  const heading = (text: string) => new Paragraph({ text, heading: HeadingLevel.HEADING_2 });
+  const none = () => new Paragraph({ text: t.none });
+
+  const children: (Paragraph | Table)[] = [
+    new Paragraph({ text: t.title, heading: HeadingLevel.TITLE }),
+    ...(data.status === "DRAFT" ? [new Paragraph({ children: [new TextRun({ text: t.draft, bold: true })] })] : []),
+    new Paragraph({ text: `${t.review}: ${data.reviewReference} — ${t.host}: ${data.hostOrganization}` }),
+    new Paragraph({ text: `${t.meeting}: ${meetingName(data, locale)}` }),
+    new Paragraph({ text: `${t.date}: ${meetingDate(data, locale)}` }),
+  ];
+
+  if (data.summary) {
+    children.push(heading(t.summary), new Paragraph({ text: data.summary }));
+  }
+
+  children.push(
+    heading(t.attendance),
+    docxTable(
+      [t.name, t.position, t.organization, t.present],
+      data.attendees.map((a) => [
+        a.name,
+        a.position ?? "",
+        a.organization || t.sides[a.side],
+        a.isPresent ? t.yes : t.no,
+      ])
+    ),
+    heading(t.agenda)
+  );
+  data.agenda.forEach((item, i) => {
+    children.push(
+      new Paragraph({ children: [new TextRun({ text: `${i + 1}. ${item.title}`, bold: true })] })
+    );
+    if (item.notes) children.push(new Paragraph({ text: item.notes }));
+  });
+
+  children.push(heading(t.decisions));
+  if (data.decisions.length === 0) children.push(none());
+  data.decisions.forEach((decision, i) => {
+    children.push(new Paragraph({ text: `${i + 1}. ${decision}` }));
+  });
+
+  children.push(heading(t.actionItems));
+  children.push(
+    data.actionItems.length === 0
+      ? none()
+      : docxTable(
+          [t.action, t.owner, t.dueDate],
+          data.actionItems.map((item) => [
+            item.description,
+            item.owner,
+            formatDate(item.dueDate, locale),
+          ])
+        )
+  );
+
+  if (data.signedBy && data.signedAt) {
+    children.push(
+      new Paragraph({ text: "" }),
+      new Paragraph({
+        children: [
+          new TextRun({
+            text: `${t.signedBy} ${data.signedBy} ${t.on} ${formatDate(data.signedAt, locale, true)} UTC`,
+            italics: true,
+          }),
+        ],
+      })
+    );
+  }
+
+  const doc = new DocxDocument({
+    creator: "AAPRP",
+    title: `${t.title} - ${data.reviewReference}`,
+    sections: [{ children }],
+  });
+
+  return Packer.toBuffer(doc);
+}
+
+/**
+ * Render minutes in the requested format
+ */
+export function renderMinutes(
+  data: MinutesExportData,
+  locale: MinutesLocale,
+  format: MinutesFormat
+): Promise<Buffer> {
+  return format === "pdf" ? renderMinutesPdf(data, locale) : renderMinutesDocx(data, locale);
+}
@@ -0,0 +1,478 @@
+/**
+ * Session Minutes Service
+ *
+ * Access checks, signing and filing for review session minutes. Signing
+ * freezes the minutes, creates a ReviewTask for every action item and
+ * files PDF and DOCX copies as review Documents classified as
+ * correspondence. Copies are uploaded to storage when it is configured;
+ * otherwise the documents point at the minutes export endpoint, which
+ * renders the same content from the signed record.
+ */
+
+import { TRPCError } from "@trpc/server";
+import { prisma } from "@/lib/db";
+import { OVERSIGHT_ROLES } from "@/lib/permissions";
+import {
+  parseAgenda,
+  parseDecisions,
+  validateMinutesForSigning,
+  type MinutesLocale,
+} from "@/lib/minutes/session-minutes";
+import { logStatusChange } from "@/server/services/audit";
+import { notifyUsers } from "@/server/services/notification-service";
+import {
+  generateFilePath,
+  isStorageConfigured,
+  uploadFile,
+} from "@/server/services/storage.service";
+import {
+  getMinutesFilename,
+  meetingName,
+  MINUTES_MIME_TYPES,
+  renderMinutes,
+  type MinutesExportData,
+  type MinutesFormat,
+} from "@/server/services/session-minutes-export";
+import { NotificationPriority, NotificationType, UserRole } from "@prisma/client";
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface MinutesUser {
+  id: string;
+  role: UserRole;
+  organizationId: string | null;
+}
+
+export interface MinutesAccess {
+  canEdit: boolean;
+  canSign: boolean;
+}
+
+// =============================================================================
+// ACCESS
+// =============================================================================
+
+const minutesInclude = {
+  attendees: {
+    orderBy: { sortOrder: "asc" as const },
+    include: { user: { select: { id: true, firstName: true, lastName: true } } },
+  },
+  actionItems: {
+    orderBy: { sortOrder: "asc" as const },
+    include: {
+      owner: { select: { id: true, firstName: true, lastName: true } },
+      task: { select: { id: true, status: true } },
+    },
+  },
+  signedBy: { select: { id: true, firstName: true, lastName: true } },
+  pdfDocument: { select: { id: true, name: true } },
+  docxDocument: { select: { id: true, name: true } },
+};
+
+/**
+ * Load a review session with its minutes and the user's access.
+ *
+ * The review team, the host organization and programme oversight can read
+ * minutes; team members and oversight edit drafts; the session host and the
+ * lead reviewer sign them.
+ */
+export async function getSessionForMinutes(sessionId: string, user: MinutesUser) {
+  const session = await prisma.reviewSession.findUnique({
+    where: { id: sessionId },
+    include: {
+      review: {
+        select: {
+          id: true,
+          referenceNumber: true,
+          hostOrganizationId: true,
+          hostOrganization: { select: { nameEn: true, nameFr: true } },
+          teamMembers: { select: { userId: true, role: true } },
+        },
+      },
+      participants: {
+        include: {
+          user: { select: { id: true, firstName: true, lastName: true, organizationId: true } },
+        },
+      },
+      minutes: { include: minutesInclude },
+    },
+  });
+
+  if (!session) {
+    throw new TRPCError({
+      code: "NOT_FOUND",
+      message: "Session not found",
+    });
+  }
+
+  const membership = session.review.teamMembers.find((m) => m.userId === user.id);
+  const isOversight = OVERSIGHT_ROLES.includes(user.role);
+  const isHostOrg = user.organizationId === session.review.hostOrganizationId;
+
+  if (!membership && !isOversight && !isHostOrg) {
+    throw new TRPCError({
+      code: "FORBIDDEN",
+      message: "You do not have access to this review",
+    });
+  }
+
+  const access: MinutesAccess = {
+    canEdit: !!membership || isOversight,
+    canSign: session.startedById === user.id || membership?.role === "LEAD_REVIEWER",
+  };
+
+  return { session, access };
+}
+
+/**
+ * Load the draft minutes of a session for editing, or fail
+ */
+export async function getEditableMinutes(minutesId: string, user: MinutesUser) {
+  const minutes = await prisma.sessionMinutes.findUnique({
+    where: { id: minutesId },
+    select: { id: true, sessionId: true, status: true },
+  });
+
+  if (!minutes) {
+    throw new TRPCError({
+      code: "NOT_FOUND",
+      message: "Minutes not found",
+    });
+  }
+
+  const { session, access } = await getSessionForMinutes(minutes.sessionId, user);
+
+  if (!access.canEdit) {
+    throw new TRPCError({
+      code: "FORBIDDEN",
+      message: "Only the review team can edit minutes",
+    });
+  }
+  if (minutes.status !== "DRAFT") {
+    throw new TRPCError({
+      code: "BAD_REQUEST",
+      message: "Signed minutes cannot be changed",
+    });
+  }
+
+  return { minutes, session, access };
+}
+
+/**
+ * Users who can own action items: the review team and active staff of the
+ * host organization.
+ */
+export async function getAssignableUsers(review: {
+  hostOrganizationId: string;
+  teamMembers: { userId: string }[];
+}) {
+  return prisma.user.findMany({
+    where: {
+      isActive: true,
+      OR: [
+        { id: { in: review.teamMembers.map((m) => m.userId) } },
+        { organizationId: review.hostOrganizationId },
+      ],
+    },
+    select: { id: true, firstName: true, lastName: true, organizationId: true },
+    orderBy: [{ lastName: "asc" }, { firstName: "asc" }],
+  });
+}
+
+// =============================================================================
+// EXPORT
+// =============================================================================
+
+type SessionWithMinutes = Awaited<ReturnType<typeof getSessionForMinutes>>["session"];
+
+/**
+ * Build the export content of a session's minutes
+ */
+export function buildMinutesExport(
+  session: SessionWithMinutes,
+  locale: MinutesLocale
+): MinutesExportData {
+  const minutes = session.minutes;
+  if (!minutes) {
+    throw new TRPCError({
+      code: "NOT_FOUND",
+      message: "Minutes not found",
+    });
+  }
+
+  const fullName = (u: { firstName: string; lastName: string }) => `${u.firstName} ${u.lastName}`;
+
+  return {
+    reviewReference: session.review.referenceNumber,
+    hostOrganization:
+      locale === "fr"
+        ? session.review.hostOrganization.nameFr
+        : session.review.hostOrganization.nameEn,
+    sessionType: session.sessionType,
+    sessionTitle: session.title,
+    startedAt: session.startedAt,
+    endedAt: session.endedAt,
+    status: minutes.status,
+    summary: minutes.summary,
+    agenda: parseAgenda(minutes.agenda),
+    decisions: parseDecisions(minutes.decisions),
+    attendees: minutes.attendees.map((a) => ({
+      name: a.name,
+      organization: a.organization,
+      position: a.position,
+      side: a.side,
+      isPresent: a.isPresent,
+    })),
+    actionItems: minutes.actionItems.map((item) => ({
+      description: item.description,
+      owner: fullName(item.owner),
+      dueDate: item.dueDate,
+    })),
+    signedBy: minutes.signedBy ? fullName(minutes.signedBy) : null,
+    signedAt: minutes.signedAt,
+  };
+}
+
+/**
+ * Export endpoint for a session's minutes. Used as the document URL when
+ * storage is not configured.
+ */
+export function getMinutesExportUrl(reviewId: string, sessionId: string, format: MinutesFormat) {
+  return `/api/reviews/${reviewId}/sessions/${sessionId}/minutes?format=${format}`;
+}
+
+/**
+ * Upload a rendered copy of the minutes, falling back to the export
+ * endpoint when storage is unavailable.
+ */
+async function storeMinutesFile(
+  session: SessionWithMinutes,
+  buffer: Buffer,
+  fileName: string,
+  format: MinutesFormat
+): Promise<string> {
+  if (isStorageConfigured()) {
+    const path = generateFilePath(session.reviewId, "CORRESPONDENCE", fileName);
+    const upload = await uploadFile(buffer, path, MINUTES_MIME_TYPES[format]);
+    if (upload.success && upload.url) {
+      return upload.url;
+    }
+    console.error(`[Minutes] Failed to store ${path}: ${upload.error}`);
+  }
+
+  return getMinutesExportUrl(session.reviewId, session.id, format);
+}
+
+// =============================================================================
+// SIGNING
+// =============================================================================
+
+/**
+ * Render, store and file the claimed minutes: one review task per action
+ * item and the PDF/DOCX copies as review documents.
+ */
+async function fileSignedMinutes(
+  sessionId: string,
+  user: MinutesUser,
+  locale: MinutesLocale,
+  signer: { id: string; firstName: string; lastName: string },
+  signedAt: Date
+) {
+  // Reload after the claim so the filed copy is exactly what was frozen
+  const { session } = await getSessionForMinutes(sessionId, user);
+  const draft = session.minutes!;
+
+  const invalid = validateMinutesForSigning({
+    sessionType: session.sessionType,
+    sessionStatus: session.status,
+    sessionDate: session.startedAt,
+    agenda: parseAgenda(draft.agenda),
+    attendees: draft.attendees,
+    actionItems: draft.actionItems,
+  });
+  if (invalid) {
+    throw new TRPCError({
+      code: "BAD_REQUEST",
+      message: invalid,
+    });
+  }
+
+  const signedSession: SessionWithMinutes = {
+    ...session,
+    minutes: { ...draft, signedAt, signedById: signer.id, signedBy: signer },
+  };
+  const exportData = buildMinutesExport(signedSession, locale);
+
+  const files = await Promise.all(
+    (["pdf", "docx"] as const).map(async (format) => {
+      const buffer = await renderMinutes(exportData, locale, format);
+      const fileName = getMinutesFilename(session.review.referenceNumber, session.startedAt, format);
+      const fileUrl = await storeMinutesFile(session, buffer, fileName, format);
+      return { format, buffer, fileName, fileUrl };
+    })
+  );
+
+  const meeting = { en: meetingName(exportData, "en"), fr: meetingName(exportData, "fr") };
+
+  const signed = await prisma.$transaction(async (tx) => {
+    for (const item of draft.actionItems) {
+      const task = await tx.reviewTask.create({
+        data: {
+          reviewId: session.reviewId,
+          createdById: signer.id,
+          assignedToId: item.ownerId,
+          title: item.description.slice(0, 200),
+          description: `Action item from the minutes of ${meeting.en} (${session.review.referenceNumber}).\n\n${item.description}`,
+          priority: item.priority,
+          dueDate: item.dueDate,
+          checklist: [],
+        },
+      });
+      await tx.minutesActionItem.update({
+        where: { id: item.id },
+        data: { taskId: task.id },
+      });
+    }
+
+    const [pdfDocument, docxDocument] = await Promise.all(
+      files.map((file) =>
+        tx.document.create({
+          data: {
+            name: file.fileName,
+            originalName: file.fileName,
+            description: `Signed minutes of ${meeting[locale]}`,
+            fileUrl: file.fileUrl,
+            fileType: MINUTES_MIME_TYPES[file.format],
+            fileSize: file.buffer.length,
+            category: "CORRESPONDENCE",
+            classification: "CORRESPONDENCE",
+            tags: ["minutes", session.sessionType.toLowerCase()],
+            language: locale === "fr" ? "FR" : "EN",
+            organizationId: session.review.hostOrganizationId,
+            reviewId: session.reviewId,
+            uploadedById: signer.id,
+          },
+        })
+      )
+    );
+
+    return tx.sessionMinutes.update({
+      where: { id: draft.id },
+      data: {
+        pdfDocumentId: pdfDocument.id,
+        docxDocumentId: docxDocument.id,
+      },
+      include: minutesInclude,
+    });
+  });
+
+  return { session, draft, meeting, signed };
+}
+
+/**
+ * Sign a session's minutes: freeze them, create review tasks for the
+ * action items and file the PDF and DOCX copies as review correspondence.
+ *
+ * The minutes are claimed (DRAFT → SIGNED) before anything is rendered or
+ * filed, so concurrent signatures cannot create duplicate tasks, uploads or
+ * notifications. The claim is released if filing fails.
+ */
+export async function signMinutes(minutesId: string, user: MinutesUser, locale: MinutesLocale) {
+  const minutes = await prisma.sessionMinutes.findUnique({
+    where: { id: minutesId },
+    select: { sessionId: true, status: true, language: true },
+  });
+  if (!minutes) {
+    throw new TRPCError({
+      code: "NOT_FOUND",
+      message: "Minutes not found",
+    });
+  }
+
+  const { access } = await getSessionForMinutes(minutes.sessionId, user);
+
+  if (!access.canSign) {
+    throw new TRPCError({
+      code: "FORBIDDEN",
+      message: "Only the session host or the lead reviewer can sign minutes",
+    });
+  }
+  if (minutes.status !== "DRAFT") {
+    throw new TRPCError({
+      code: "BAD_REQUEST",
+      message: "Minutes are already signed",
+    });
+  }
+
+  const signer = await prisma.user.findUniqueOrThrow({
+    where: { id: user.id },
+    select: { id: true, firstName: true, lastName: true },
+  });
+  const signedAt = new Date();
+
+  const claimed = await prisma.sessionMinutes.updateMany({
+    where: { id: minutesId, status: "DRAFT" },
+    data: {
+      status: "SIGNED",
+      signedAt,
+      signedById: signer.id,
+      language: locale === "fr" ? "FR" : "EN",
+    },
+  });
+  if (claimed.count === 0) {
+    throw new TRPCError({
+      code: "CONFLICT",
+      message: "Minutes are already signed",
+    });
+  }
+
+  let filed;
+  try {
+    filed = await fileSignedMinutes(minutes.sessionId, user, locale, signer, signedAt);
+  } catch (error) {
+    await prisma.sessionMinutes.updateMany({
+      where: { id: minutesId, status: "SIGNED", pdfDocumentId: null },
+      data: { status: "DRAFT", signedAt: null, signedById: null, language: minutes.language },
+    });
+    throw error;
+  }
+
+  const { session, draft, meeting, signed } = filed;
+
+  await logStatusChange({
+    userId: user.id,
+    entityType: "SessionMinutes",
+    entityId: draft.id,
+    previousStatus: "DRAFT",
+    newStatus: "SIGNED",
+    metadata: {
+      sessionId: session.id,
+      reviewId: session.reviewId,
+      actionItems: draft.actionItems.length,
+    },
+  }).catch(() => {});
+
+  const recipientIds = new Set([
+    ...session.review.teamMembers.map((m) => m.userId),
+    ...draft.actionItems.map((item) => item.ownerId),
+  ]);
+  recipientIds.delete(user.id);
+
+  await notifyUsers([...recipientIds], {
+    type: NotificationType.SESSION_MINUTES_SIGNED,
+    titleEn: "Meeting Minutes Signed",
+    titleFr: "Procès-verbal signé",
+    messageEn: `The minutes of "${meeting.en}" for review ${session.review.referenceNumber} were signed. ${draft.actionItems.length} action item(s) were added to the review tasks.`,
+    messageFr: `Le procès-verbal « ${meeting.fr} » de la revue ${session.review.referenceNumber} a été signé. ${draft.actionItems.length} action(s) ont été ajoutées aux tâches de la revue.`,
+    entityType: "SessionMinutes",
+    entityId: draft.id,
+    actionUrl: `/reviews/${session.reviewId}?tab=workspace`,
+    actionLabelEn: "View Minutes",
+    actionLabelFr: "Voir le procès-verbal",
+    priority: NotificationPriority.NORMAL,
+  }).catch((err) => console.error("[Minutes] Failed to notify:", err));
+
+  return signed;
+}
@@ -8,8 +8,13 @@
  * - Repetition (same issue found before)
  * - Safety impact indicators
  * - Critical Element involvement
+ * - Priority PQ
  * - Finding type
  *
+ * Weights and thresholds come from the active severity rule set, with
+ * per-review-area overrides; every suggestion records the rule set
+ * version that produced it.
+ *
  * Severity levels: CRITICAL > MAJOR > MINOR > OBSERVATION
  */
 
@@ -19,7 +24,16 @@ import {
   FindingType,
   USOAPAuditArea,
   CriticalElement,
+  ANSReviewArea,
 } from "@prisma/client";
+import {
+  DEFAULT_SEVERITY_RULES,
+  confidenceForFactors,
+  parseSeverityRules,
+  resolveSeverityRules,
+  severityForScore,
+  type SeverityRuleConfig,
+} from "@/lib/finding/severity-rules";
 
 // =============================================================================
 // TYPES
@@ -38,6 +52,10 @@ export interface FindingInput {
   auditArea?: USOAPAuditArea | null;
   /** Critical Element */
   criticalElement?: CriticalElement | null;
+  /** ANS review area (selects the rule set's area overrides) */
+  reviewArea?: ANSReviewArea | null;
+  /** Whether the linked PQ is a priority PQ */
+  isPriorityPQ?: boolean;
   /** ICAO Reference string (e.g., "Annex 11, Chapter 2") */
   icaoReference?: string | null;
   /** Finding type */
@@ -48,6 +66,12 @@ export interface FindingInput {
   reviewId?: string;
   /** Question ID (if linked to a PQ) */
   questionId?: string | null;
+  /** Existing finding whose confirmed repeat links are counted */
+  findingId?: string;
+  /** Confirmed prior occurrences already counted by the caller (skips the lookup) */
+  priorOccurrences?: number;
+  /** Proposed, not yet confirmed matches; listed as a possible repeat without points */
+  possibleRepeats?: number;
 }
 
 export interface SeverityFactor {
@@ -76,30 +100,27 @@ export interface SeveritySuggestion {
   isRepeat: boolean;
   /** Number of previous similar findings */
   previousOccurrences: number;
+  /** Rule set that produced the suggestion (null = built-in defaults) */
+  ruleSetId: string | null;
+  /** Version of that rule set (0 = built-in defaults) */
+  ruleSetVersion: number;
+}
+
+export interface SeverityRuleSetSnapshot {
+  id: string | null;
+  version: number;
+  rules: SeverityRuleConfig;
 }
 
 // =============================================================================
-// CONSTANTS - SCORING WEIGHTS
+// CONSTANTS
 // =============================================================================
 
-/**
- * Thresholds for severity determination
- * Higher scores = more severe
- */
-const SEVERITY_THRESHOLDS = {
-  CRITICAL: 8, // Score >= 8 → CRITICAL
-  MAJOR: 5, // Score >= 5 → MAJOR
-  MINOR: 2, // Score >= 2 → MINOR
-  // Score < 2 → OBSERVATION
-};
-
-/**
- * Confidence thresholds based on number of factors
- */
-const CONFIDENCE_THRESHOLDS = {
-  HIGH: 4, // 4+ factors contributing
-  MEDIUM: 2, // 2-3 factors
-  // < 2 → LOW
+/** Used when no rule set has been activated */
+const DEFAULT_RULE_SET: SeverityRuleSetSnapshot = {
+  id: null,
+  version: 0,
+  rules: DEFAULT_SEVERITY_RULES,
 };
 
 /**
@@ -264,6 +285,24 @@ const SAFETY_IMPACT_PHRASES = [
   "procédure d'urgence",
 ];
 
+// =============================================================================
+// RULE SET
+// =============================================================================
+
+/**
+ * The active severity rule set, or the built-in defaults if none is active
+ */
+export async function getActiveSeverityRuleSet(): Promise<SeverityRuleSetSnapshot> {
+  const ruleSet = await db.severityRuleSet.findFirst({
+    where: { status: "ACTIVE" },
+    orderBy: { version: "desc" },
+    select: { id: true, version: true, rules: true },
+  });
+
+  if (!ruleSet) return DEFAULT_RULE_SET;
+  return { id: ruleSet.id, version: ruleSet.version, rules: parseSeverityRules(ruleSet.rules) };
+}
+
 // =============================================================================
 // KEYWORD MATCHING
 // =============================================================================
@@ -294,8 +333,13 @@ function containsSafetyImpact(text: string): string[] {
  * Calculate severity suggestion based on finding characteristics
  */
 export async function calculateSeveritySuggestion(
-  input: FindingInput
+  input: FindingInput,
+  ruleSet?: SeverityRuleSetSnapshot
 ): Promise<SeveritySuggestion> {
+  const { id: ruleSetId, version: ruleSetVersion, rules: ruleConfig } =
+    ruleSet ?? (await getActiveSeverityRuleSet());
+  const rules = resolveSeverityRules(ruleConfig, input.reviewArea);
+  const w = rules.weights;
   let score = 0;
   const factors: SeverityFactor[] = [];
 
@@ -313,30 +357,30 @@ export async function calculateSeveritySuggestion(
 
   if (input.auditArea) {
     if (SAFETY_CRITICAL_AREAS.includes(input.auditArea)) {
-      score += 3;
+      score += w.safetyCriticalArea;
       factors.push({
         id: "safety_critical_area",
         description: `Safety-critical audit area: ${input.auditArea}`,
         descriptionFr: `Zone d'audit critique pour la sécurité: ${input.auditArea}`,
-        points: 3,
+        points: w.safetyCriticalArea,
         category: "area",
       });
     } else if (HIGH_RISK_AREAS.includes(input.auditArea)) {
-      score += 2;
+      score += w.highRiskArea;
       factors.push({
         id: "high_risk_area",
         description: `High-risk audit area: ${input.auditArea}`,
         descriptionFr: `Zone d'audit à haut risque: ${input.auditArea}`,
-        points: 2,
+        points: w.highRiskArea,
         category: "area",
       });
     } else {
-      score += 1;
+      score += w.standardArea;
       factors.push({
         id: "standard_area",
         description: `Standard audit area: ${input.auditArea}`,
         descriptionFr: `Zone d'audit standard: ${input.auditArea}`,
-        points: 1,
+        points: w.standardArea,
         category: "area",
       });
     }
@@ -348,26 +392,41 @@ export async function calculateSeveritySuggestion(
 
   if (input.criticalElement) {
     if (CORE_CRITICAL_ELEMENTS.includes(input.criticalElement)) {
-      score += 2;
+      score += w.coreCriticalElement;
       factors.push({
         id: "core_critical_element",
         description: `Core implementation Critical Element: ${input.criticalElement}`,
         descriptionFr: `Élément critique de mise en œuvre: ${input.criticalElement}`,
-        points: 2,
+        points: w.coreCriticalElement,
         category: "area",
       });
     } else {
-      score += 1;
+      score += w.criticalElement;
       factors.push({
         id: "critical_element",
         description: `Critical Element involved: ${input.criticalElement}`,
         descriptionFr: `Élément critique impliqué: ${input.criticalElement}`,
-        points: 1,
+        points: w.criticalElement,
         category: "area",
       });
     }
   }
 
+  // =========================================================================
+  // FACTOR 2b: Priority PQ
+  // =========================================================================
+
+  if (input.isPriorityPQ) {
+    score += w.priorityPQ;
+    factors.push({
+      id: "priority_pq",
+      description: "Raised against a priority Protocol Question",
+      descriptionFr: "Relevée sur une question de protocole prioritaire",
+      points: w.priorityPQ,
+      category: "area",
+    });
+  }
+
   // =========================================================================
   // FACTOR 3: ICAO Reference Type Analysis
   // =========================================================================
@@ -377,39 +436,39 @@ export async function calculateSeveritySuggestion(
 
     // Check reference type based on content
     if (refUpper.includes("STANDARD") || refUpper.includes("STD") || refUpper.includes("SHALL")) {
-      score += 3;
+      score += w.icaoStandard;
       factors.push({
         id: "icao_standard",
         description: "References ICAO Standard (mandatory requirement)",
         descriptionFr: "Référence à une Norme OACI (exigence obligatoire)",
-        points: 3,
+        points: w.icaoStandard,
         category: "reference",
       });
     } else if (refUpper.includes("ANNEX") && !refUpper.includes("RP") && !refUpper.includes("RECOMMENDED")) {
-      score += 2;
+      score += w.icaoAnnex;
       factors.push({
         id: "icao_annex",
         description: "References ICAO Annex provision",
         descriptionFr: "Référence à une disposition d'Annexe OACI",
-        points: 2,
+        points: w.icaoAnnex,
         category: "reference",
       });
     } else if (refUpper.includes("PANS") || refUpper.includes("DOC")) {
-      score += 2;
+      score += w.icaoPans;
       factors.push({
         id: "icao_pans",
         description: "References ICAO PANS/Doc requirement",
         descriptionFr: "Référence à une exigence PANS/Doc OACI",
-        points: 2,
+        points: w.icaoPans,
         category: "reference",
       });
     } else if (refUpper.includes("RP") || refUpper.includes("RECOMMENDED")) {
-      score += 1;
+      score += w.icaoRecommended;
       factors.push({
         id: "icao_recommended",
         description: "References ICAO Recommended Practice",
         descriptionFr: "Référence à une Pratique recommandée OACI",
-        points: 1,
+        points: w.icaoRecommended,
         category: "reference",
       });
     } else if (refUpper.includes("GUIDANCE") || refUpper.includes("GM")) {
@@ -430,7 +489,7 @@ export async function calculateSeveritySuggestion(
 
   const criticalMatches = containsKeywords(allText, CRITICAL_KEYWORDS);
   if (criticalMatches.length > 0) {
-    const points = Math.min(criticalMatches.length * 2, 4); // Cap at 4 points
+    const points = Math.min(criticalMatches.length * w.criticalKeyword, w.criticalKeywordCap);
     score += points;
     factors.push({
       id: "critical_keywords",
@@ -447,7 +506,7 @@ export async function calculateSeveritySuggestion(
 
   const majorMatches = containsKeywords(allText, MAJOR_KEYWORDS);
   if (majorMatches.length > 0 && criticalMatches.length === 0) {
-    const points = Math.min(majorMatches.length, 3); // Cap at 3 points
+    const points = Math.min(majorMatches.length * w.majorKeyword, w.majorKeywordCap);
     score += points;
     factors.push({
       id: "major_keywords",
@@ -480,7 +539,7 @@ export async function calculateSeveritySuggestion(
 
   const safetyMatches = containsSafetyImpact(allText);
   if (safetyMatches.length > 0) {
-    const points = Math.min(safetyMatches.length * 2, 4); // Cap at 4 points
+    const points = Math.min(safetyMatches.length * w.safetyImpact, w.safetyImpactCap);
     score += points;
     factors.push({
       id: "safety_impact",
@@ -498,22 +557,22 @@ export async function calculateSeveritySuggestion(
   if (input.findingType) {
     switch (input.findingType) {
       case "NON_CONFORMITY":
-        score += 2;
+        score += w.nonConformity;
         factors.push({
           id: "type_non_conformity",
           description: "Finding type: Non-Conformity",
           descriptionFr: "Type de constatation: Non-conformité",
-          points: 2,
+          points: w.nonConformity,
           category: "type",
         });
         break;
       case "CONCERN":
-        score += 1;
+        score += w.concern;
         factors.push({
           id: "type_concern",
           description: "Finding type: Concern",
           descriptionFr: "Type de constatation: Préoccupation",
-          points: 1,
+          points: w.concern,
           category: "type",
         });
         break;
@@ -558,37 +617,18 @@ export async function calculateSeveritySuggestion(
   let isRepeat = false;
   let previousOccurrences = 0;
 
-  if (input.organizationId) {
+  if (input.priorOccurrences !== undefined || input.findingId) {
     try {
-      // Check for similar findings in the organization
-      const similarFindings = await db.finding.findMany({
-        where: {
-          organizationId: input.organizationId,
-          reviewId: { not: input.reviewId }, // Exclude current review
-          status: { not: "CLOSED" }, // Only open/in-progress findings
-          OR: [
-            // Same question
-            input.questionId
-              ? { questionId: input.questionId }
-              : {},
-            // Same audit area and similar description
-            input.auditArea
-              ? {
-                  question: {
-                    auditArea: input.auditArea,
-                  },
-                }
-              : {},
-          ].filter((cond) => Object.keys(cond).length > 0),
-        },
-        select: { id: true, severity: true, referenceNumber: true },
-      });
-
-      previousOccurrences = similarFindings.length;
+      // Only earlier occurrences a reviewer confirmed count as repeats
+      previousOccurrences =
+        input.priorOccurrences ??
+        (await db.findingRecurrence.count({
+          where: { findingId: input.findingId, status: "CONFIRMED" },
+        }));
 
       if (previousOccurrences > 0) {
         isRepeat = true;
-        const points = Math.min(previousOccurrences * 2, 4); // Cap at 4 points
+        const points = Math.min(previousOccurrences * w.repeatFinding, w.repeatFindingCap);
         score += points;
         factors.push({
           id: "repeat_finding",
@@ -604,33 +644,28 @@ export async function calculateSeveritySuggestion(
     }
   }
 
+  // Unconfirmed matches are shown for the reviewer but do not raise severity
+  if (!isRepeat && input.possibleRepeats) {
+    factors.push({
+      id: "possible_repeat",
+      description: `Possible repeat: ${input.possibleRepeats} similar issue(s) in organization history awaiting confirmation`,
+      descriptionFr: `Répétition possible: ${input.possibleRepeats} problème(s) similaire(s) dans l'historique de l'organisation en attente de confirmation`,
+      points: 0,
+      category: "repetition",
+    });
+  }
+
   // =========================================================================
   // DETERMINE SEVERITY AND CONFIDENCE
   // =========================================================================
 
-  let suggested: FindingSeverity;
-  if (input.findingType === "GOOD_PRACTICE") {
-    suggested = "OBSERVATION"; // Good practices don't have severity
-  } else if (score >= SEVERITY_THRESHOLDS.CRITICAL) {
-    suggested = "CRITICAL";
-  } else if (score >= SEVERITY_THRESHOLDS.MAJOR) {
-    suggested = "MAJOR";
-  } else if (score >= SEVERITY_THRESHOLDS.MINOR) {
-    suggested = "MINOR";
-  } else {
-    suggested = "OBSERVATION";
-  }
+  // Good practices don't have severity
+  const suggested: FindingSeverity =
+    input.findingType === "GOOD_PRACTICE" ? "OBSERVATION" : severityForScore(score, rules);
 
   // Calculate confidence based on number of contributing factors
   const contributingFactors = factors.filter((f) => f.points > 0).length;
-  let confidence: "high" | "medium" | "low";
-  if (contributingFactors >= CONFIDENCE_THRESHOLDS.HIGH) {
-    confidence = "high";
-  } else if (contributingFactors >= CONFIDENCE_THRESHOLDS.MEDIUM) {
-    confidence = "medium";
-  } else {
-    confidence = "low";
-  }
+  const confidence = confidenceForFactors(contributingFactors, rules);
 
   return {
     suggested,
@@ -639,6 +674,8 @@ export async function calculateSeveritySuggestion(
     score,
     isRepeat,
     previousOccurrences,
+    ruleSetId,
+    ruleSetVersion,
   };
 }
 
@@ -651,9 +688,12 @@ export async function calculateSeveritySuggestion(
  * Does not check for repeat findings
  */
 export function calculateSeveritySuggestionSync(
-  input: Omit<FindingInput, "organizationId" | "reviewId">
+  input: Omit<FindingInput, "organizationId" | "reviewId">,
+  ruleSet: SeverityRuleSetSnapshot = DEFAULT_RULE_SET
 ): Omit<SeveritySuggestion, "isRepeat" | "previousOccurrences"> {
   // This is a synchronous version for client-side use
+  const rules = resolveSeverityRules(ruleSet.rules, input.reviewArea);
+  const w = rules.weights;
   let score = 0;
   const factors: SeverityFactor[] = [];
 
@@ -667,21 +707,21 @@ export function calculateSeveritySuggestionSync(
   // Audit Area
   if (input.auditArea) {
     if (SAFETY_CRITICAL_AREAS.includes(input.auditArea)) {
-      score += 3;
+      score += w.safetyCriticalArea;
       factors.push({
         id: "safety_critical_area",
         description: `Safety-critical audit area: ${input.auditArea}`,
         descriptionFr: `Zone d'audit critique pour la sécurité: ${input.auditArea}`,
-        points: 3,
+        points: w.safetyCriticalArea,
         category: "area",
       });
     } else if (HIGH_RISK_AREAS.includes(input.auditArea)) {
-      score += 2;
+      score += w.highRiskArea;
       factors.push({
         id: "high_risk_area",
         description: `High-risk audit area: ${input.auditArea}`,
         descriptionFr: `Zone d'audit à haut risque: ${input.auditArea}`,
-        points: 2,
+        points: w.highRiskArea,
         category: "area",
       });
     }
@@ -690,30 +730,42 @@ export function calculateSeveritySuggestionSync(
   // Critical Element
   if (input.criticalElement) {
     if (CORE_CRITICAL_ELEMENTS.includes(input.criticalElement)) {
-      score += 2;
+      score += w.coreCriticalElement;
       factors.push({
         id: "core_critical_element",
         description: `Core Critical Element: ${input.criticalElement}`,
         descriptionFr: `Élément critique principal: ${input.criticalElement}`,
-        points: 2,
+        points: w.coreCriticalElement,
         category: "area",
       });
     } else {
-      score += 1;
+      score += w.criticalElement;
       factors.push({
         id: "critical_element",
         description: `Critical Element: ${input.criticalElement}`,
         descriptionFr: `Élément critique: ${input.criticalElement}`,
-        points: 1,
+        points: w.criticalElement,
         category: "area",
       });
     }
   }
 
+  // Priority PQ
+  if (input.isPriorityPQ) {
+    score += w.priorityPQ;
+    factors.push({
+      id: "priority_pq",
+      description: "Priority Protocol Question",
+      descriptionFr: "Question de protocole prioritaire",
+      points: w.priorityPQ,
+      category: "area",
+    });
+  }
+
   // Keywords
   const criticalMatches = containsKeywords(allText, CRITICAL_KEYWORDS);
   if (criticalMatches.length > 0) {
-    const points = Math.min(criticalMatches.length * 2, 4);
+    const points = Math.min(criticalMatches.length * w.criticalKeyword, w.criticalKeywordCap);
     score += points;
     factors.push({
       id: "critical_keywords",
@@ -726,7 +778,7 @@ export function calculateSeveritySuggestionSync(
 
   const majorMatches = containsKeywords(allText, MAJOR_KEYWORDS);
   if (majorMatches.length > 0 && criticalMatches.length === 0) {
-    const points = Math.min(majorMatches.length, 3);
+    const points = Math.min(majorMatches.length * w.majorKeyword, w.majorKeywordCap);
     score += points;
     factors.push({
       id: "major_keywords",
@@ -740,7 +792,7 @@ export function calculateSeveritySuggestionSync(
   // Safety impact
   const safetyMatches = containsSafetyImpact(allText);
   if (safetyMatches.length > 0) {
-    const points = Math.min(safetyMatches.length * 2, 4);
+    const points = Math.min(safetyMatches.length * w.safetyImpact, w.safetyImpactCap);
     score += points;
     factors.push({
       id: "safety_impact",
@@ -753,21 +805,21 @@ export function calculateSeveritySuggestionSync(
 
   // Finding type
   if (input.findingType === "NON_CONFORMITY") {
-    score += 2;
+    score += w.nonConformity;
     factors.push({
       id: "type_non_conformity",
       description: "Non-Conformity finding",
       descriptionFr: "Constatation de non-conformité",
-      points: 2,
+      points: w.nonConformity,
       category: "type",
     });
   } else if (input.findingType === "CONCERN") {
-    score += 1;
+    score += w.concern;
     factors.push({
       id: "type_concern",
       description: "Concern finding",
       descriptionFr: "Constatation de préoccupation",
-      points: 1,
+      points: w.concern,
       category: "type",
     });
   } else if (input.findingType === "GOOD_PRACTICE") {
@@ -776,34 +828,19 @@ export function calculateSeveritySuggestionSync(
   }
 
   // Determine severity
-  let suggested: FindingSeverity;
-  if (input.findingType === "GOOD_PRACTICE") {
-    suggested = "OBSERVATION";
-  } else if (score >= SEVERITY_THRESHOLDS.CRITICAL) {
-    suggested = "CRITICAL";
-  } else if (score >= SEVERITY_THRESHOLDS.MAJOR) {
-    suggested = "MAJOR";
-  } else if (score >= SEVERITY_THRESHOLDS.MINOR) {
-    suggested = "MINOR";
-  } else {
-    suggested = "OBSERVATION";
-  }
+  const suggested: FindingSeverity =
+    input.findingType === "GOOD_PRACTICE" ? "OBSERVATION" : severityForScore(score, rules);
 
   const contributingFactors = factors.filter((f) => f.points > 0).length;
-  let confidence: "high" | "medium" | "low";
-  if (contributingFactors >= CONFIDENCE_THRESHOLDS.HIGH) {
-    confidence = "high";
-  } else if (contributingFactors >= CONFIDENCE_THRESHOLDS.MEDIUM) {
-    confidence = "medium";
-  } else {
-    confidence = "low";
-  }
+  const confidence = confidenceForFactors(contributingFactors, rules);
 
   return {
     suggested,
     confidence,
     factors,
     score,
+    ruleSetId: ruleSet.id,
+    ruleSetVersion: ruleSet.version,
   };
 }
 
@@ -0,0 +1,128 @@
+/**
+ * Severity Rules Service
+ *
+ * Previews a candidate severity rule set against historical findings
+ * before it is activated. Each finding is re-scored with the candidate
+ * and with the active rule set, so the preview shows how many suggestions
+ * would move and how they compare with the severities reviewers recorded.
+ * The repeat-finding factor depends on the data at the time a finding was
+ * raised, so it is left out of both scores.
+ */
+
+import type { FindingSeverity } from "@prisma/client";
+import { prisma } from "@/lib/db";
+import {
+  summarizeSeverityChanges,
+  type SeverityChangeSummary,
+  type SeverityRuleConfig,
+} from "@/lib/finding/severity-rules";
+import {
+  calculateSeveritySuggestionSync,
+  getActiveSeverityRuleSet,
+} from "@/server/services/severity-calculator";
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+const DEFAULT_SIMULATION_LIMIT = 2000;
+const SAMPLE_SIZE = 25;
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface SeverityChangeSample {
+  findingId: string;
+  referenceNumber: string;
+  titleEn: string;
+  recorded: FindingSeverity;
+  current: FindingSeverity;
+  simulated: FindingSeverity;
+}
+
+export interface SeveritySimulationResult {
+  /** Version the candidate was compared with (0 = built-in defaults) */
+  activeVersion: number;
+  findingsAnalyzed: number;
+  /** Active-rules suggestion → candidate suggestion */
+  againstActive: SeverityChangeSummary;
+  /** Severity recorded on the finding → candidate suggestion */
+  againstRecorded: SeverityChangeSummary;
+  /** Findings whose suggestion would change, most recent first */
+  samples: SeverityChangeSample[];
+}
+
+// =============================================================================
+// SIMULATION
+// =============================================================================
+
+/**
+ * Re-score the most recent findings with a candidate rule config.
+ */
+export async function simulateSeverityRules(
+  rules: SeverityRuleConfig,
+  limit = DEFAULT_SIMULATION_LIMIT
+): Promise<SeveritySimulationResult> {
+  const active = await getActiveSeverityRuleSet();
+  const candidate = { id: null, version: -1, rules };
+
+  const findings = await prisma.finding.findMany({
+    select: {
+      id: true,
+      referenceNumber: true,
+      titleEn: true,
+      descriptionEn: true,
+      findingType: true,
+      severity: true,
+      icaoReference: true,
+      criticalElement: true,
+      reviewArea: true,
+      question: { select: { auditArea: true, criticalElement: true, isPriorityPQ: true } },
+    },
+    orderBy: { createdAt: "desc" },
+    take: limit,
+  });
+
+  const againstActive: { from: FindingSeverity; to: FindingSeverity }[] = [];
+  const againstRecorded: { from: FindingSeverity; to: FindingSeverity }[] = [];
+  const samples: SeverityChangeSample[] = [];
+
+  for (const finding of findings) {
+    const input = {
+      titleEn: finding.titleEn,
+      descriptionEn: finding.descriptionEn,
+      findingType: finding.findingType,
+      icaoReference: finding.icaoReference,
+      criticalElement: finding.criticalElement ?? finding.question?.criticalElement,
+      auditArea: finding.question?.auditArea,
+      reviewArea: finding.reviewArea,
+      isPriorityPQ: finding.question?.isPriorityPQ ?? false,
+    };
+
+    const current = calculateSeveritySuggestionSync(input, active).suggested;
+    const simulated = calculateSeveritySuggestionSync(input, candidate).suggested;
+
+    againstActive.push({ from: current, to: simulated });
+    againstRecorded.push({ from: finding.severity, to: simulated });
+
+    if (current !== simulated && samples.length < SAMPLE_SIZE) {
+      samples.push({
+        findingId: finding.id,
+        referenceNumber: finding.referenceNumber,
+        titleEn: finding.titleEn,
+        recorded: finding.severity,
+        current,
+        simulated,
+      });
+    }
+  }
+
+  return {
+    activeVersion: active.version,
+    findingsAnalyzed: findings.length,
+    againstActive: summarizeSeverityChanges(againstActive),
+    againstRecorded: summarizeSeverityChanges(againstRecorded),
+    samples,
+  };
+}
@@ -242,6 +242,33 @@ export async function getSignedDownloadUrl(
   }
 }
 
+/**
+ * Download a file's contents from storage
+ * @returns File contents, or null if missing or storage is not configured
+ */
+export async function downloadFile(filePath: string): Promise<Buffer | null> {
+  if (!supabase) {
+    console.error("[Storage] Supabase client not configured");
+    return null;
+  }
+
+  try {
+    const { data, error } = await supabase.storage
+      .from(BUCKET_NAME)
+      .download(filePath);
+
+    if (error || !data) {
+      console.error("[Storage] Download error:", error);
+      return null;
+    }
+
+    return Buffer.from(await data.arrayBuffer());
+  } catch (error) {
+    console.error("[Storage] Download exception:", error);
+    return null;
+  }
+}
+
 // =============================================================================
 // DELETE FUNCTIONS
 // =============================================================================
@@ -344,6 +371,7 @@ export const storageService = {
   upload: uploadFile,
   getSignedUrl,
   getSignedDownloadUrl,
+  download: downloadFile,
   delete: deleteFile,
   deleteMany: deleteFiles,
   listReviewFiles,
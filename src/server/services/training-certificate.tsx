@@ -0,0 +1,171 @@
+/**
+ * Training Certificate Service
+ *
+ * Renders the PDF certificate issued when a reviewer passes a training
+ * module's knowledge check. Certificates are rendered on download from the
+ * stored certificate record, so the PDF always matches the issued number,
+ * score and date.
+ */
+
+import React from "react";
+import { Document, Page, View, Text, StyleSheet, renderToBuffer } from "@react-pdf/renderer";
+import { prisma } from "@/lib/db";
+import { colors } from "@/server/services/report";
+
+export type CertificateLocale = "en" | "fr";
+
+const labels = {
+  en: {
+    title: "Certificate of Completion",
+    certifies: "This certifies that",
+    completed: "has successfully completed the training module",
+    score: "Knowledge check score",
+    issued: "Issued on",
+    number: "Certificate No.",
+    programme: "AFI ANSP Peer Review Programme",
+  },
+  fr: {
+    title: "Certificat de réussite",
+    certifies: "Il est certifié que",
+    completed: "a suivi avec succès le module de formation",
+    score: "Score au contrôle des connaissances",
+    issued: "Délivré le",
+    number: "Certificat n°",
+    programme: "Programme d'examen par les pairs des ANSP AFI",
+  },
+};
+
+const certificateStyles = StyleSheet.create({
+  page: {
+    fontFamily: "Helvetica",
+    padding: 40,
+    backgroundColor: colors.white,
+  },
+  frame: {
+    flex: 1,
+    borderWidth: 3,
+    borderColor: colors.primary,
+    padding: 40,
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  programme: {
+    fontSize: 12,
+    color: colors.gray[600],
+    letterSpacing: 1,
+    marginBottom: 24,
+  },
+  title: {
+    fontSize: 30,
+    fontWeight: "bold",
+    color: colors.primary,
+    marginBottom: 28,
+  },
+  text: {
+    fontSize: 12,
+    color: colors.gray[700],
+    marginBottom: 10,
+  },
+  name: {
+    fontSize: 24,
+    fontWeight: "bold",
+    color: colors.gray[900],
+    marginBottom: 10,
+  },
+  module: {
+    fontSize: 16,
+    fontWeight: "bold",
+    color: colors.primaryLight,
+    marginBottom: 28,
+    textAlign: "center",
+  },
+  footer: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    width: "100%",
+    marginTop: 24,
+    fontSize: 10,
+    color: colors.gray[600],
+  },
+});
+
+/**
+ * Load a certificate with its holder and module, or null when it does not exist
+ */
+export async function getTrainingCertificate(certificateId: string) {
+  return prisma.trainingCertificate.findUnique({
+    where: { id: certificateId },
+    include: {
+      user: { select: { id: true, firstName: true, lastName: true } },
+      module: { select: { code: true, titleEn: true, titleFr: true } },
+    },
+  });
+}
+
+type CertificateData = NonNullable<Awaited<ReturnType<typeof getTrainingCertificate>>>;
+
+function CertificateDocument({
+  certificate,
+  locale,
+}: {
+  certificate: CertificateData;
+  locale: CertificateLocale;
+}) {
+  const t = labels[locale];
+  const moduleTitle = locale === "fr" ? certificate.module.titleFr : certificate.module.titleEn;
+  const issuedOn = certificate.issuedAt.toLocaleDateString(locale === "fr" ? "fr-FR" : "en-GB", {
+    day: "numeric",
+    month: "long",
+    year: "numeric",
+    timeZone: "UTC",
+  });
+
+  return (
+    <Document
+      title={`${t.title} - ${certificate.certificateNumber}`}
+      author="AAPRP"
+      creationDate={certificate.issuedAt}
+      modificationDate={certificate.issuedAt}
+    >
+      <Page size="A4" orientation="landscape" style={certificateStyles.page}>
+        <View style={certificateStyles.frame}>
+          <Text style={certificateStyles.programme}>{t.programme.toUpperCase()}</Text>
+          <Text style={certificateStyles.title}>{t.title}</Text>
+          <Text style={certificateStyles.text}>{t.certifies}</Text>
+          <Text style={certificateStyles.name}>
+            {certificate.user.firstName} {certificate.user.lastName}
+          </Text>
+          <Text style={certificateStyles.text}>{t.completed}</Text>
+          <Text style={certificateStyles.module}>
+            {certificate.module.code} — {moduleTitle}
+          </Text>
+          <Text style={certificateStyles.text}>
+            {t.score}: {certificate.score}%
+          </Text>
+          <View style={certificateStyles.footer}>
+            <Text>
+              {t.issued} {issuedOn}
+            </Text>
+            <Text>
+              {t.number} {certificate.certificateNumber}
+            </Text>
+          </View>
+        </View>
+      </Page>
+    </Document>
+  );
+}
+
+/**
+ * Render a certificate PDF
+ */
+export async function renderTrainingCertificate(
+  certificate: CertificateData,
+  locale: CertificateLocale
+): Promise<Buffer> {
+  return renderToBuffer(<CertificateDocument certificate={certificate} locale={locale} />);
+}
+
+export function getCertificateFilename(certificateNumber: string, locale: CertificateLocale): string {
+  return `${certificateNumber}-${locale.toUpperCase()}.pdf`;
+}
@@ -0,0 +1,440 @@
+/**
+ * Training Progress Service
+ *
+ * Tracks which topics of a training module each user has completed, serves
+ * and scores the module knowledge checks, and issues certificates. Passing a
+ * quiz also records a verified, completed ReviewerTraining on the user's
+ * reviewer profile so eligibility checks no longer depend on self-reported
+ * training. Certificates earned before the user had a reviewer profile are
+ * carried over when the profile is created or its eligibility is checked.
+ */
+
+import { TRPCError } from "@trpc/server";
+import { Prisma, type TrainingType } from "@prisma/client";
+import { prisma } from "@/lib/db";
+import {
+  certificateNumber,
+  quizRetakeAvailableAt,
+  scoreQuiz,
+  topicCompletion,
+  type QuizAnswers,
+  type QuizResult,
+} from "@/lib/training/quiz";
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface SubmitQuizInput {
+  moduleId: string;
+  answers: QuizAnswers;
+}
+
+export interface SubmitQuizResult extends QuizResult {
+  attemptId: string;
+  passMark: number;
+  certificate: { id: string; certificateNumber: string; issuedAt: Date } | null;
+  /** When a failed attempt can be retaken */
+  retakeAvailableAt: Date | null;
+  /** Correct option and explanation per question, revealed only on a pass */
+  review: Array<{
+    questionId: string;
+    selectedOption: number | null;
+    correctOption: number;
+    explanationEn: string | null;
+    explanationFr: string | null;
+  }>;
+}
+
+/** Download path of a certificate PDF, stored on the ReviewerTraining record */
+export function certificateDownloadUrl(certificateId: string): string {
+  return `/api/training/certificates/${certificateId}`;
+}
+
+/**
+ * Verified, completed ReviewerTraining issued from a module certificate
+ */
+function certificateTrainingData(
+  reviewerProfileId: string,
+  trainingModule: {
+    code: string;
+    titleEn: string;
+    titleFr: string;
+    trainingType: TrainingType;
+    hours: number | null;
+  },
+  certificate: { id: string; score: number; issuedAt: Date }
+): Prisma.ReviewerTrainingCreateManyInput {
+  return {
+    reviewerProfileId,
+    trainingType: trainingModule.trainingType,
+    trainingName: `${trainingModule.code}: ${trainingModule.titleEn}`,
+    trainingNameFr: `${trainingModule.code} : ${trainingModule.titleFr}`,
+    provider: "AAPRP",
+    startDate: certificate.issuedAt,
+    completionDate: certificate.issuedAt,
+    status: "COMPLETED",
+    grade: `${certificate.score}%`,
+    isOnline: true,
+    hoursCompleted: trainingModule.hours,
+    certificateUrl: certificateDownloadUrl(certificate.id),
+    certificateId: certificate.id,
+  };
+}
+
+// =============================================================================
+// PROGRESS
+// =============================================================================
+
+/**
+ * Topic completion, best quiz score and certificate for every active module.
+ */
+export async function getUserTrainingProgress(userId: string) {
+  const [modules, completedTopics, attempts, lastAttempts, certificates] = await Promise.all([
+    prisma.trainingModule.findMany({
+      where: { isActive: true },
+      orderBy: { sortOrder: "asc" },
+      select: {
+        id: true,
+        code: true,
+        passMark: true,
+        isRequired: true,
+        trainingType: true,
+        topics: { select: { id: true } },
+        _count: { select: { quizQuestions: { where: { isActive: true } } } },
+      },
+    }),
+    prisma.trainingTopicProgress.findMany({
+      where: { userId },
+      select: { topicId: true },
+    }),
+    prisma.trainingQuizAttempt.groupBy({
+      by: ["moduleId"],
+      where: { userId },
+      _max: { score: true },
+      _count: { _all: true },
+    }),
+    prisma.trainingQuizAttempt.findMany({
+      where: { userId },
+      orderBy: { submittedAt: "desc" },
+      distinct: ["moduleId"],
+      select: { moduleId: true, passed: true, submittedAt: true },
+    }),
+    prisma.trainingCertificate.findMany({
+      where: { userId },
+      select: { id: true, moduleId: true, certificateNumber: true, score: true, issuedAt: true },
+    }),
+  ]);
+
+  const completedIds = completedTopics.map((t) => t.topicId);
+  const attemptsByModule = new Map(attempts.map((a) => [a.moduleId, a]));
+  const lastAttemptByModule = new Map(lastAttempts.map((a) => [a.moduleId, a]));
+  const certificateByModule = new Map(certificates.map((c) => [c.moduleId, c]));
+
+  return modules.map((trainingModule) => {
+    const attempt = attemptsByModule.get(trainingModule.id);
+    const topicIds = trainingModule.topics.map((t) => t.id);
+
+    return {
+      moduleId: trainingModule.id,
+      code: trainingModule.code,
+      passMark: trainingModule.passMark,
+      isRequired: trainingModule.isRequired,
+      trainingType: trainingModule.trainingType,
+      completedTopicIds: topicIds.filter((id) => completedIds.includes(id)),
+      topics: topicCompletion(topicIds, completedIds),
+      questionCount: trainingModule._count.quizQuestions,
+      attemptCount: attempt?._count._all ?? 0,
+      bestScore: attempt?._max.score ?? null,
+      retakeAvailableAt: quizRetakeAvailableAt(lastAttemptByModule.get(trainingModule.id) ?? null),
+      certificate: certificateByModule.get(trainingModule.id) ?? null,
+    };
+  });
+}
+
+/**
+ * Mark a topic as completed or not completed for a user.
+ */
+export async function setTopicCompletion(userId: string, topicId: string, completed: boolean) {
+  const topic = await prisma.trainingTopic.findUnique({
+    where: { id: topicId },
+    select: { id: true, moduleId: true },
+  });
+  if (!topic) {
+    throw new TRPCError({ code: "NOT_FOUND", message: "Training topic not found" });
+  }
+
+  if (completed) {
+    await prisma.trainingTopicProgress.upsert({
+      where: { userId_topicId: { userId, topicId } },
+      create: { userId, topicId },
+      update: {},
+    });
+  } else {
+    await prisma.trainingTopicProgress.deleteMany({ where: { userId, topicId } });
+  }
+
+  return topic;
+}
+
+// =============================================================================
+// KNOWLEDGE CHECK
+// =============================================================================
+
+/**
+ * Ensure the user may take the module quiz: every topic is completed and
+ * the cooldown after a failed attempt has elapsed.
+ */
+async function assertQuizAvailable(userId: string, moduleId: string) {
+  const trainingModule = await prisma.trainingModule.findUnique({
+    where: { id: moduleId },
+    select: {
+      id: true,
+      code: true,
+      titleEn: true,
+      titleFr: true,
+      passMark: true,
+      trainingType: true,
+      hours: true,
+      isActive: true,
+      topics: { select: { id: true } },
+    },
+  });
+  if (!trainingModule || !trainingModule.isActive) {
+    throw new TRPCError({ code: "NOT_FOUND", message: "Training module not found" });
+  }
+
+  const completed = await prisma.trainingTopicProgress.findMany({
+    where: { userId, topicId: { in: trainingModule.topics.map((t) => t.id) } },
+    select: { topicId: true },
+  });
+  const progress = topicCompletion(
+    trainingModule.topics.map((t) => t.id),
+    completed.map((t) => t.topicId)
+  );
+  if (!progress.allComplete) {
+    throw new TRPCError({
+      code: "PRECONDITION_FAILED",
+      message: `Complete all topics before the knowledge check (${progress.completed}/${progress.total})`,
+    });
+  }
+
+  const lastAttempt = await prisma.trainingQuizAttempt.findFirst({
+    where: { userId, moduleId },
+    orderBy: { submittedAt: "desc" },
+    select: { passed: true, submittedAt: true },
+  });
+  const retakeAvailableAt = quizRetakeAvailableAt(lastAttempt);
+  if (retakeAvailableAt) {
+    throw new TRPCError({
+      code: "TOO_MANY_REQUESTS",
+      message: `The knowledge check can be retaken after ${retakeAvailableAt.toISOString()}`,
+    });
+  }
+
+  return trainingModule;
+}
+
+/**
+ * Quiz questions for a module, without the correct answers.
+ */
+export async function getQuiz(userId: string, moduleId: string) {
+  const trainingModule = await assertQuizAvailable(userId, moduleId);
+
+  const questions = await prisma.trainingQuizQuestion.findMany({
+    where: { moduleId, isActive: true },
+    orderBy: { sortOrder: "asc" },
+    select: {
+      id: true,
+      questionEn: true,
+      questionFr: true,
+      optionsEn: true,
+      optionsFr: true,
+      relatedPQs: true,
+    },
+  });
+
+  return { moduleId: trainingModule.id, passMark: trainingModule.passMark, questions };
+}
+
+/**
+ * Score a quiz submission. A passing first attempt issues the module
+ * certificate and, for users with a reviewer profile, a verified completed
+ * ReviewerTraining record. Later passing attempts keep the original
+ * certificate. Correct answers are only returned for a passing attempt.
+ */
+export async function submitQuiz(input: SubmitQuizInput, userId: string): Promise<SubmitQuizResult> {
+  const trainingModule = await assertQuizAvailable(userId, input.moduleId);
+
+  const questions = await prisma.trainingQuizQuestion.findMany({
+    where: { moduleId: trainingModule.id, isActive: true },
+    orderBy: { sortOrder: "asc" },
+    select: {
+      id: true,
+      correctOption: true,
+      relatedPQs: true,
+      explanationEn: true,
+      explanationFr: true,
+    },
+  });
+  if (questions.length === 0) {
+    throw new TRPCError({
+      code: "PRECONDITION_FAILED",
+      message: "This module has no knowledge check",
+    });
+  }
+
+  const result = scoreQuiz(questions, input.answers, trainingModule.passMark);
+
+  const recordAttempt = async (tx: Prisma.TransactionClient) => {
+    const attempt = await tx.trainingQuizAttempt.create({
+      data: {
+        userId,
+        moduleId: trainingModule.id,
+        answers: input.answers,
+        correctCount: result.correctCount,
+        totalQuestions: result.totalQuestions,
+        score: result.score,
+        passMark: trainingModule.passMark,
+        passed: result.passed,
+        missedPQs: result.missedPQs,
+      },
+    });
+
+    if (!result.passed) return { attempt, certificate: null };
+
+    const existing = await tx.trainingCertificate.findUnique({
+      where: { userId_moduleId: { userId, moduleId: trainingModule.id } },
+      select: { id: true, certificateNumber: true, issuedAt: true },
+    });
+    if (existing) return { attempt, certificate: existing };
+
+    const issuedAt = attempt.submittedAt;
+    const certificate = await tx.trainingCertificate.create({
+      data: {
+        certificateNumber: certificateNumber(trainingModule.code, issuedAt, attempt.id),
+        userId,
+        moduleId: trainingModule.id,
+        attemptId: attempt.id,
+        score: result.score,
+        issuedAt,
+      },
+      select: { id: true, certificateNumber: true, issuedAt: true },
+    });
+
+    const profile = await tx.reviewerProfile.findUnique({
+      where: { userId },
+      select: { id: true },
+    });
+    if (profile) {
+      await tx.reviewerTraining.create({
+        data: certificateTrainingData(profile.id, trainingModule, {
+          id: certificate.id,
+          score: result.score,
+          issuedAt,
+        }),
+      });
+    }
+
+    return { attempt, certificate };
+  };
+
+  let recorded;
+  try {
+    recorded = await prisma.$transaction(recordAttempt);
+  } catch (error) {
+    // A concurrent first pass issued the certificate; record this attempt
+    // again, now keeping that certificate
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === "P2002") {
+      recorded = await prisma.$transaction(recordAttempt);
+    } else {
+      throw error;
+    }
+  }
+  const { attempt, certificate } = recorded;
+
+  return {
+    ...result,
+    attemptId: attempt.id,
+    passMark: trainingModule.passMark,
+    certificate,
+    retakeAvailableAt: quizRetakeAvailableAt(attempt),
+    review: result.passed
+      ? questions.map((q) => ({
+          questionId: q.id,
+          selectedOption: input.answers[q.id] ?? null,
+          correctOption: q.correctOption,
+          explanationEn: q.explanationEn,
+          explanationFr: q.explanationFr,
+        }))
+      : [],
+  };
+}
+
+// =============================================================================
+// VERIFIED COMPLETION
+// =============================================================================
+
+/**
+ * Active required modules, split into those every reviewer needs and those
+ * that qualify a reviewer as lead.
+ */
+export async function getRequiredTrainingModules() {
+  const modules = await prisma.trainingModule.findMany({
+    where: { isActive: true, isRequired: true },
+    orderBy: { sortOrder: "asc" },
+    select: { id: true, code: true, trainingType: true },
+  });
+
+  return {
+    reviewer: modules.filter((m) => m.trainingType !== "LEAD_REVIEWER"),
+    lead: modules.filter((m) => m.trainingType === "LEAD_REVIEWER"),
+  };
+}
+
+/**
+ * Record a verified ReviewerTraining for each of the reviewer's certificates
+ * that has none yet, e.g. quizzes passed before the profile was created.
+ */
+export async function syncCertificateTraining(reviewerProfileId: string): Promise<number> {
+  const profile = await prisma.reviewerProfile.findUnique({
+    where: { id: reviewerProfileId },
+    select: { userId: true },
+  });
+  if (!profile) return 0;
+
+  const certificates = await prisma.trainingCertificate.findMany({
+    where: { userId: profile.userId, reviewerTraining: null },
+    select: {
+      id: true,
+      score: true,
+      issuedAt: true,
+      module: {
+        select: { code: true, titleEn: true, titleFr: true, trainingType: true, hours: true },
+      },
+    },
+  });
+  if (certificates.length === 0) return 0;
+
+  // certificateId is unique, so a concurrent sync cannot record a duplicate
+  const { count } = await prisma.reviewerTraining.createMany({
+    data: certificates.map((c) => certificateTrainingData(reviewerProfileId, c.module, c)),
+    skipDuplicates: true,
+  });
+  return count;
+}
+
+/**
+ * Module ids a reviewer has verified completion for: completed
+ * ReviewerTraining records issued from a certificate.
+ */
+export async function getVerifiedModuleIds(reviewerProfileId: string): Promise<Set<string>> {
+  await syncCertificateTraining(reviewerProfileId);
+
+  const records = await prisma.reviewerTraining.findMany({
+    where: { reviewerProfileId, status: "COMPLETED", certificateId: { not: null } },
+    select: { certificate: { select: { moduleId: true } } },
+  });
+
+  return new Set(records.flatMap((r) => (r.certificate ? [r.certificate.moduleId] : [])));
+}
@@ -0,0 +1,301 @@
+/**
+ * Translation Review Service
+ *
+ * Queue of machine-translated finding texts awaiting a bilingual
+ * coordinator. A French field is queued when it is the unverified
+ * machine output for its English source, or a verbatim copy of it. The
+ * coordinator approves the text or corrects it; either way the result is
+ * stored in the translation memory as verified. A review's final report
+ * cannot be finalized while any of its findings is still queued.
+ */
+
+import { TRPCError } from "@trpc/server";
+import type { Prisma, TranslationReviewStatus } from "@prisma/client";
+import { prisma } from "@/lib/db";
+import { findGlossaryViolations, isSameText } from "@/lib/translation/glossary";
+import {
+  getActiveGlossary,
+  getMemoryEntry,
+  storeTranslation,
+} from "@/server/services/translation-service";
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+const FINDING_ENTITY = "Finding";
+
+/** French finding fields published in the final report, with their source */
+export const FINDING_TRANSLATION_FIELDS = [
+  { sourceField: "titleEn", fieldName: "titleFr" },
+  { sourceField: "descriptionEn", fieldName: "descriptionFr" },
+] as const;
+
+type FindingTranslationField = (typeof FINDING_TRANSLATION_FIELDS)[number]["fieldName"];
+
+interface FindingTexts {
+  id: string;
+  reviewId: string;
+  titleEn: string;
+  titleFr: string;
+  descriptionEn: string;
+  descriptionFr: string;
+}
+
+// =============================================================================
+// QUEUEING
+// =============================================================================
+
+/**
+ * How a French text came about: the provider's unverified output, a copy
+ * of the English, or anything else (typed or verified by a person).
+ */
+async function classifyTranslation(
+  sourceText: string,
+  translatedText: string
+): Promise<{ kind: "machine" | "copy" | "human"; provider: string | null }> {
+  if (!translatedText.trim()) {
+    return { kind: "human", provider: null };
+  }
+  if (isSameText(sourceText, translatedText)) {
+    return { kind: "copy", provider: null };
+  }
+
+  const memory = await getMemoryEntry({ sourceText, sourceLanguage: "en", targetLanguage: "fr" });
+  if (memory && !memory.isVerified && isSameText(memory.translatedText, translatedText)) {
+    return { kind: "machine", provider: memory.provider };
+  }
+  return { kind: "human", provider: null };
+}
+
+/**
+ * Bring a finding's queue entries in line with its current texts.
+ * Already-reviewed texts stay reviewed; edited-by-hand texts leave the queue.
+ */
+export async function queueFindingTranslations(finding: FindingTexts): Promise<void> {
+  for (const { sourceField, fieldName } of FINDING_TRANSLATION_FIELDS) {
+    const sourceText = finding[sourceField];
+    const translatedText = finding[fieldName];
+    const where = {
+      entityType_entityId_fieldName: {
+        entityType: FINDING_ENTITY,
+        entityId: finding.id,
+        fieldName,
+      },
+    };
+
+    const existing = await prisma.translationReview.findUnique({ where });
+    const { kind, provider } = await classifyTranslation(sourceText, translatedText);
+
+    if (kind === "human") {
+      if (existing?.status === "PENDING") {
+        await prisma.translationReview.delete({ where });
+      }
+      continue;
+    }
+
+    const alreadyReviewed =
+      existing &&
+      existing.status !== "PENDING" &&
+      isSameText(existing.sourceText, sourceText) &&
+      isSameText(existing.finalText, translatedText);
+    if (alreadyReviewed) continue;
+
+    const data = {
+      reviewId: finding.reviewId,
+      sourceLanguage: "en",
+      targetLanguage: "fr",
+      sourceText,
+      machineText: translatedText,
+      finalText: null,
+      provider,
+      status: "PENDING" as const,
+      reviewedById: null,
+      reviewedAt: null,
+    };
+
+    await prisma.translationReview.upsert({
+      where,
+      create: { entityType: FINDING_ENTITY, entityId: finding.id, fieldName, ...data },
+      update: data,
+    });
+  }
+}
+
+/**
+ * Re-check every finding of a review. Run before finalizing so findings
+ * created outside the finding form (offline drafts, annotations, imports)
+ * are covered too.
+ */
+export async function scanReviewTranslations(reviewId: string): Promise<number> {
+  const findings = await prisma.finding.findMany({
+    where: { reviewId },
+    select: {
+      id: true,
+      reviewId: true,
+      titleEn: true,
+      titleFr: true,
+      descriptionEn: true,
+      descriptionFr: true,
+    },
+  });
+
+  for (const finding of findings) {
+    await queueFindingTranslations(finding);
+  }
+
+  return prisma.translationReview.count({
+    where: { reviewId, status: "PENDING" },
+  });
+}
+
+/**
+ * Throw unless every finding translation of the review has been reviewed.
+ */
+export async function assertTranslationsReviewed(reviewId: string): Promise<void> {
+  const pending = await scanReviewTranslations(reviewId);
+
+  if (pending > 0) {
+    throw new TRPCError({
+      code: "PRECONDITION_FAILED",
+      message: `${pending} machine-translated finding text(s) must be approved in the translation review queue before the report can be finalized. / ${pending} texte(s) de constatation traduit(s) automatiquement doivent être approuvé(s) dans la file de révision des traductions avant de finaliser le rapport.`,
+    });
+  }
+}
+
+// =============================================================================
+// QUEUE
+// =============================================================================
+
+/**
+ * Queue entries with the finding they belong to and any glossary terms
+ * the machine text fails to use.
+ */
+export async function listTranslationReviews(params: {
+  reviewId?: string;
+  status?: TranslationReviewStatus;
+  page: number;
+  pageSize: number;
+}) {
+  const { reviewId, status, page, pageSize } = params;
+  const where: Prisma.TranslationReviewWhereInput = {
+    entityType: FINDING_ENTITY,
+    ...(reviewId ? { reviewId } : {}),
+    ...(status ? { status } : {}),
+  };
+
+  const [items, total, glossary] = await Promise.all([
+    prisma.translationReview.findMany({
+      where,
+      include: {
+        review: {
+          select: {
+            id: true,
+            referenceNumber: true,
+            hostOrganization: { select: { nameEn: true, nameFr: true } },
+          },
+        },
+        reviewedBy: { select: { id: true, firstName: true, lastName: true } },
+      },
+      orderBy: [{ status: "asc" }, { createdAt: "asc" }],
+      skip: (page - 1) * pageSize,
+      take: pageSize,
+    }),
+    prisma.translationReview.count({ where }),
+    getActiveGlossary(),
+  ]);
+
+  const findings = await prisma.finding.findMany({
+    where: { id: { in: items.map((item) => item.entityId) } },
+    select: { id: true, referenceNumber: true },
+  });
+  const referenceById = new Map(findings.map((f) => [f.id, f.referenceNumber]));
+
+  return {
+    items: items.map((item) => ({
+      ...item,
+      findingReference: referenceById.get(item.entityId) ?? null,
+      glossaryViolations: findGlossaryViolations(
+        item.sourceText,
+        item.finalText ?? item.machineText,
+        glossary,
+        "en"
+      ),
+    })),
+    total,
+    page,
+    pageSize,
+    totalPages: Math.ceil(total / pageSize),
+  };
+}
+
+/**
+ * Approve the machine text as-is, or publish a correction to the finding.
+ */
+export async function resolveTranslationReview(params: {
+  id: string;
+  userId: string;
+  correctedText?: string;
+}) {
+  const { id, userId, correctedText } = params;
+
+  const item = await prisma.translationReview.findUnique({ where: { id } });
+  if (!item) {
+    throw new TRPCError({ code: "NOT_FOUND", message: "Translation review not found" });
+  }
+  if (item.status !== "PENDING") {
+    throw new TRPCError({ code: "BAD_REQUEST", message: "Translation has already been reviewed" });
+  }
+
+  const field = item.fieldName as FindingTranslationField;
+  const finding = await prisma.finding.findUnique({
+    where: { id: item.entityId },
+    select: { id: true, titleFr: true, descriptionFr: true },
+  });
+  if (!finding) {
+    throw new TRPCError({ code: "NOT_FOUND", message: "Finding not found" });
+  }
+
+  // The finding was edited after queueing; reviewing stale text would mislead
+  if (!isSameText(finding[field], item.machineText)) {
+    throw new TRPCError({
+      code: "CONFLICT",
+      message: "The finding text changed since it was queued. Refresh the queue.",
+    });
+  }
+
+  const isCorrection = correctedText !== undefined && !isSameText(correctedText, item.machineText);
+  const finalText = isCorrection ? correctedText.trim() : item.machineText;
+
+  const updated = await prisma.$transaction(async (tx) => {
+    if (isCorrection) {
+      await tx.finding.update({
+        where: { id: finding.id },
+        data: { [field]: finalText },
+      });
+    }
+
+    return tx.translationReview.update({
+      where: { id },
+      data: {
+        status: isCorrection ? "CORRECTED" : "APPROVED",
+        finalText,
+        reviewedById: userId,
+        reviewedAt: new Date(),
+      },
+    });
+  });
+
+  await storeTranslation({
+    sourceText: item.sourceText,
+    translatedText: finalText,
+    sourceLanguage: item.sourceLanguage as "en" | "fr",
+    targetLanguage: item.targetLanguage as "en" | "fr",
+    entityType: item.entityType,
+    entityId: item.entityId,
+    fieldName: item.fieldName,
+    verifiedById: userId,
+  });
+
+  return updated;
+}
@@ -3,10 +3,23 @@
  *
  * Provides auto-translation between English and French using external APIs.
  * Supports DeepL (preferred) and Google Translate as fallback.
- * Includes in-memory caching to reduce API calls.
+ *
+ * Every translation goes through a persistent translation memory (the
+ * TranslationCache table, keyed on normalized source text) with a small
+ * in-memory cache in front of it. Human-verified entries always win over
+ * machine output. The admin-managed glossary is passed to the providers as
+ * forced terminology.
  */
 
+import { createHash } from "crypto";
 import { prisma } from "@/lib/db";
+import {
+  normalizeSourceText,
+  protectGlossaryTerms,
+  restoreProtectedText,
+  toGlossaryTsv,
+  type GlossaryEntry,
+} from "@/lib/translation/glossary";
 
 // =============================================================================
 // TYPES
@@ -27,15 +40,29 @@ export interface TranslationOptions {
   skipCache?: boolean;
 }
 
+/** A translation-memory entry. */
+export interface MemoryEntry {
+  translatedText: string;
+  provider: string | null;
+  isVerified: boolean;
+}
+
 // =============================================================================
 // CACHE
 // =============================================================================
 
-// In-memory cache for translations (cleared on server restart)
-// Format: Map<hash, { text: string, timestamp: number }>
+// In-memory cache in front of the translation memory (cleared on server restart)
+// Format: Map<key, { text: string, timestamp: number }>
 const translationCache = new Map<string, { text: string; timestamp: number }>();
 const CACHE_TTL_MS = 24 * 60 * 60 * 1000; // 24 hours
 
+/**
+ * Translation-memory key: SHA-256 of the normalized source text
+ */
+function memoryKey(text: string): string {
+  return createHash("sha256").update(normalizeSourceText(text)).digest("hex");
+}
+
 /**
  * Generate a cache key from source text and language pair
  */
@@ -44,22 +71,7 @@ function getCacheKey(
   sourceLanguage: string,
   targetLanguage: string
 ): string {
-  // Simple hash for cache key
-  const normalized = text.trim().toLowerCase();
-  return `${sourceLanguage}-${targetLanguage}-${hashString(normalized)}`;
-}
-
-/**
- * Simple string hash function
- */
-function hashString(str: string): string {
-  let hash = 0;
-  for (let i = 0; i < str.length; i++) {
-    const char = str.charCodeAt(i);
-    hash = (hash << 5) - hash + char;
-    hash = hash & hash; // Convert to 32bit integer
-  }
-  return Math.abs(hash).toString(36);
+  return `${sourceLanguage}-${targetLanguage}-${memoryKey(text)}`;
 }
 
 /**
@@ -94,16 +106,109 @@ function setCachedTranslation(key: string, text: string): void {
   }
 }
 
+// =============================================================================
+// GLOSSARY
+// =============================================================================
+
+const GLOSSARY_TTL_MS = 60 * 1000; // 1 minute
+let glossaryCache: { entries: GlossaryEntry[]; timestamp: number } | null = null;
+
+/**
+ * Active glossary terms, cached briefly since every translation needs them
+ */
+export async function getActiveGlossary(): Promise<GlossaryEntry[]> {
+  if (glossaryCache && Date.now() - glossaryCache.timestamp < GLOSSARY_TTL_MS) {
+    return glossaryCache.entries;
+  }
+
+  const entries = await prisma.glossaryTerm.findMany({
+    where: { isActive: true },
+    select: { termEn: true, termFr: true },
+  });
+  glossaryCache = { entries, timestamp: Date.now() };
+  return entries;
+}
+
+/**
+ * Drop the cached glossary after an admin edit. Machine translations cached
+ * in memory are dropped too so new terminology applies immediately.
+ */
+export function invalidateGlossaryCache(): void {
+  glossaryCache = null;
+  translationCache.clear();
+}
+
 // =============================================================================
 // TRANSLATION PROVIDERS
 // =============================================================================
 
+const DEEPL_API_URL = "https://api-free.deepl.com/v2";
+
+// DeepL glossary per direction, recreated when the terms change
+// Format: Map<"en-fr", { signature: string, glossaryId: string }>
+const deeplGlossaries = new Map<string, { signature: string; glossaryId: string }>();
+
+/**
+ * Get (or create) the DeepL glossary holding the current terms for a
+ * language pair. Returns null when there are no terms.
+ */
+async function getDeepLGlossaryId(
+  apiKey: string,
+  glossary: GlossaryEntry[],
+  sourceLanguage: "en" | "fr",
+  targetLanguage: "en" | "fr"
+): Promise<string | null> {
+  const entries = toGlossaryTsv(glossary, sourceLanguage);
+  if (!entries) return null;
+
+  const direction = `${sourceLanguage}-${targetLanguage}`;
+  const signature = createHash("sha256").update(entries).digest("hex");
+  const existing = deeplGlossaries.get(direction);
+  if (existing?.signature === signature) {
+    return existing.glossaryId;
+  }
+
+  const response = await fetch(`${DEEPL_API_URL}/glossaries`, {
+    method: "POST",
+    headers: {
+      Authorization: `DeepL-Auth-Key ${apiKey}`,
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify({
+      name: `aaprp-${direction}-${signature.slice(0, 12)}`,
+      source_lang: sourceLanguage,
+      target_lang: targetLanguage,
+      entries,
+      entries_format: "tsv",
+    }),
+  });
+
+  if (!response.ok) {
+    const error = await response.text();
+    throw new Error(`DeepL glossary error: ${response.status} - ${error}`);
+  }
+
+  const data = await response.json();
+  deeplGlossaries.set(direction, { signature, glossaryId: data.glossary_id });
+
+  // Remove the superseded glossary; failures only leave an unused glossary behind
+  if (existing) {
+    fetch(`${DEEPL_API_URL}/glossaries/${existing.glossaryId}`, {
+      method: "DELETE",
+      headers: { Authorization: `DeepL-Auth-Key ${apiKey}` },
+    }).catch(() => {});
+  }
+
+  return data.glossary_id;
+}
+
 /**
  * Translate using DeepL API
  */
 async function translateWithDeepL(
   text: string,
-  targetLanguage: "en" | "fr"
+  targetLanguage: "en" | "fr",
+  glossary: GlossaryEntry[]
 ): Promise<string> {
   const apiKey = process.env.DEEPL_API_KEY;
   if (!apiKey) {
@@ -112,8 +217,12 @@ async function translateWithDeepL(
 
   // DeepL uses EN-US/EN-GB for English, FR for French
   const targetLang = targetLanguage === "en" ? "EN-US" : "FR";
+  const sourceLanguage = targetLanguage === "en" ? "fr" : "en";
+
+  // Glossaries require an explicit source language
+  const glossaryId = await getDeepLGlossaryId(apiKey, glossary, sourceLanguage, targetLanguage);
 
-  const response = await fetch("https://api-free.deepl.com/v2/translate", {
+  const response = await fetch(`${DEEPL_API_URL}/translate`, {
     method: "POST",
     headers: {
       Authorization: `DeepL-Auth-Key ${apiKey}`,
@@ -122,6 +231,9 @@ async function translateWithDeepL(
     body: JSON.stringify({
       text: [text],
       target_lang: targetLang,
+      ...(glossaryId
+        ? { source_lang: sourceLanguage.toUpperCase(), glossary_id: glossaryId }
+        : {}),
     }),
   });
 
@@ -136,10 +248,14 @@ async function translateWithDeepL(
 
 /**
  * Translate using Google Cloud Translation API
+ *
+ * The basic API has no glossaries, so glossary terms are substituted up front
+ * and sent as HTML marked translate="no", which Google leaves untouched.
  */
 async function translateWithGoogle(
   text: string,
-  targetLanguage: "en" | "fr"
+  targetLanguage: "en" | "fr",
+  glossary: GlossaryEntry[]
 ): Promise<string> {
   const apiKey = process.env.GOOGLE_TRANSLATE_API_KEY;
   if (!apiKey) {
@@ -154,9 +270,10 @@ async function translateWithGoogle(
         "Content-Type": "application/json",
       },
       body: JSON.stringify({
-        q: text,
+        q: protectGlossaryTerms(text, glossary, targetLanguage === "en" ? "fr" : "en"),
+        source: targetLanguage === "en" ? "fr" : "en",
         target: targetLanguage,
-        format: "text",
+        format: "html",
       }),
     }
   );
@@ -167,20 +284,28 @@ async function translateWithGoogle(
   }
 
   const data = await response.json();
-  return data.data.translations[0].translatedText;
+  return restoreProtectedText(data.data.translations[0].translatedText);
 }
 
 /**
  * Mock translation for development/testing
- * Adds a prefix to indicate it's a mock translation
+ * Adds a prefix to indicate it's a mock translation; glossary terms are
+ * still replaced so terminology enforcement can be checked locally.
  */
-function mockTranslate(text: string, targetLanguage: "en" | "fr"): string {
+function mockTranslate(
+  text: string,
+  targetLanguage: "en" | "fr",
+  glossary: GlossaryEntry[]
+): string {
+  const withTerms = restoreProtectedText(
+    protectGlossaryTerms(text, glossary, targetLanguage === "en" ? "fr" : "en")
+  );
   if (targetLanguage === "fr") {
-    // Simple mock: add [FR] prefix and some French-like modifications
-    return `[FR] ${text}`;
+    // Simple mock: add [FR] prefix
+    return `[FR] ${withTerms}`;
   } else {
     // Simple mock: add [EN] prefix
-    return `[EN] ${text}`;
+    return `[EN] ${withTerms}`;
   }
 }
 
@@ -208,6 +333,9 @@ function getConfiguredProvider(): TranslationProvider {
 /**
  * Translate text to the target language
  *
+ * Lookup order: in-memory cache, translation memory, then the provider.
+ * Provider output is written back to the translation memory unverified.
+ *
  * @param text - The text to translate
  * @param targetLanguage - Target language code ('en' or 'fr')
  * @param options - Translation options
@@ -220,10 +348,10 @@ export async function translate(
 ): Promise<TranslationResult> {
   const sourceLanguage = targetLanguage === "en" ? "fr" : "en";
   const { provider = getConfiguredProvider(), skipCache = false } = options;
+  const cacheKey = getCacheKey(text, sourceLanguage, targetLanguage);
 
-  // Check cache first (unless skipCache is true)
+  // Check caches first (unless skipCache is true)
   if (!skipCache) {
-    const cacheKey = getCacheKey(text, sourceLanguage, targetLanguage);
     const cached = getCachedTranslation(cacheKey);
     if (cached) {
       return {
@@ -234,28 +362,47 @@ export async function translate(
         cached: true,
       };
     }
+
+    const remembered = await getMemoryEntry({ sourceText: text, sourceLanguage, targetLanguage });
+    if (remembered) {
+      setCachedTranslation(cacheKey, remembered.translatedText);
+      return {
+        translatedText: remembered.translatedText,
+        sourceLanguage,
+        targetLanguage,
+        provider,
+        cached: true,
+      };
+    }
   }
 
-  // Perform translation
+  // Perform translation with the glossary as forced terminology
+  const glossary = await getActiveGlossary();
   let translatedText: string;
 
   switch (provider) {
     case "deepl":
-      translatedText = await translateWithDeepL(text, targetLanguage);
+      translatedText = await translateWithDeepL(text, targetLanguage, glossary);
       break;
     case "google":
-      translatedText = await translateWithGoogle(text, targetLanguage);
+      translatedText = await translateWithGoogle(text, targetLanguage, glossary);
       break;
     case "mock":
-      translatedText = mockTranslate(text, targetLanguage);
+      translatedText = mockTranslate(text, targetLanguage, glossary);
       break;
     default:
       throw new Error(`Unknown translation provider: ${provider}`);
   }
 
-  // Cache the result
-  const cacheKey = getCacheKey(text, sourceLanguage, targetLanguage);
+  // Remember the result
   setCachedTranslation(cacheKey, translatedText);
+  await rememberMachineTranslation({
+    sourceText: text,
+    translatedText,
+    sourceLanguage,
+    targetLanguage,
+    provider,
+  });
 
   return {
     translatedText,
@@ -319,8 +466,8 @@ export async function translateFields(
 // =============================================================================
 
 /**
- * Store a translation in the database for long-term caching
- * This is useful for frequently translated content
+ * Store a human-provided translation in the translation memory.
+ * Stored translations are verified and take precedence over machine output.
  */
 export async function storeTranslation(params: {
   sourceText: string;
@@ -330,19 +477,21 @@ export async function storeTranslation(params: {
   entityType?: string;
   entityId?: string;
   fieldName?: string;
+  verifiedById?: string;
 }): Promise<void> {
-  const { sourceText, translatedText, sourceLanguage, targetLanguage, entityType, entityId, fieldName } = params;
+  const { sourceText, translatedText, sourceLanguage, targetLanguage, entityType, entityId, fieldName, verifiedById } = params;
+  const verification = { isVerified: true, verifiedById, verifiedAt: new Date() };
 
   await prisma.translationCache.upsert({
     where: {
       sourceHash_sourceLanguage_targetLanguage: {
-        sourceHash: hashString(sourceText.trim().toLowerCase()),
+        sourceHash: memoryKey(sourceText),
         sourceLanguage,
         targetLanguage,
       },
     },
     create: {
-      sourceHash: hashString(sourceText.trim().toLowerCase()),
+      sourceHash: memoryKey(sourceText),
       sourceText,
       translatedText,
       sourceLanguage,
@@ -350,38 +499,102 @@ export async function storeTranslation(params: {
       entityType,
       entityId,
       fieldName,
+      ...verification,
     },
     update: {
       translatedText,
       entityType,
       entityId,
       fieldName,
-      updatedAt: new Date(),
+      ...verification,
     },
   });
+
+  translationCache.set(getCacheKey(sourceText, sourceLanguage, targetLanguage), {
+    text: translatedText,
+    timestamp: Date.now(),
+  });
 }
 
 /**
- * Get a stored translation from the database
+ * Record provider output in the translation memory without overwriting a
+ * human-verified entry.
  */
-export async function getStoredTranslation(params: {
+async function rememberMachineTranslation(params: {
   sourceText: string;
+  translatedText: string;
   sourceLanguage: "en" | "fr";
   targetLanguage: "en" | "fr";
-}): Promise<string | null> {
+  provider: TranslationProvider;
+}): Promise<void> {
+  const { sourceText, translatedText, sourceLanguage, targetLanguage, provider } = params;
+  const where = {
+    sourceHash_sourceLanguage_targetLanguage: {
+      sourceHash: memoryKey(sourceText),
+      sourceLanguage,
+      targetLanguage,
+    },
+  };
+
+  try {
+    const existing = await prisma.translationCache.findUnique({
+      where,
+      select: { isVerified: true },
+    });
+    if (existing?.isVerified) return;
+
+    await prisma.translationCache.upsert({
+      where,
+      create: {
+        sourceHash: memoryKey(sourceText),
+        sourceText,
+        translatedText,
+        sourceLanguage,
+        targetLanguage,
+        provider,
+      },
+      update: { translatedText, provider },
+    });
+  } catch (error) {
+    // The translation itself succeeded; a memory write failure is not fatal
+    console.error("[Translation] Failed to store translation memory:", error);
+  }
+}
+
+/**
+ * Look up a translation-memory entry for a source text
+ */
+export async function getMemoryEntry(params: {
+  sourceText: string;
+  sourceLanguage: "en" | "fr";
+  targetLanguage: "en" | "fr";
+}): Promise<MemoryEntry | null> {
   const { sourceText, sourceLanguage, targetLanguage } = params;
 
-  const cached = await prisma.translationCache.findUnique({
+  const entry = await prisma.translationCache.findUnique({
     where: {
       sourceHash_sourceLanguage_targetLanguage: {
-        sourceHash: hashString(sourceText.trim().toLowerCase()),
+        sourceHash: memoryKey(sourceText),
         sourceLanguage,
         targetLanguage,
       },
     },
+    select: { translatedText: true, provider: true, isVerified: true },
   });
 
-  return cached?.translatedText ?? null;
+  return entry;
+}
+
+/**
+ * Get a stored translation from the database
+ */
+export async function getStoredTranslation(params: {
+  sourceText: string;
+  sourceLanguage: "en" | "fr";
+  targetLanguage: "en" | "fr";
+}): Promise<string | null> {
+  const entry = await getMemoryEntry(params);
+  return entry?.translatedText ?? null;
 }
 
 /**
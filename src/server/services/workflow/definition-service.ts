@@ -0,0 +1,385 @@
+import { db } from "@/lib/db";
+import type { Prisma, UserRole, WorkflowEntityType } from "@prisma/client";
+import { TRPCError } from "@trpc/server";
+import {
+  hasBlockingIssues,
+  validateWorkflowGraph,
+  versionCode,
+  type WorkflowGraph,
+  type WorkflowIssue,
+} from "@/lib/workflow/definition";
+import type { EscalationConfig, TransitionAction, TransitionConditions } from "@/types/workflow";
+
+type Tx = Parameters<Parameters<typeof db.$transaction>[0]>[0];
+
+export interface DefinitionDetailsInput {
+  nameEn: string;
+  nameFr: string;
+  descriptionEn?: string | null;
+  descriptionFr?: string | null;
+}
+
+export interface CreateDefinitionInput extends DefinitionDetailsInput {
+  code: string;
+  entityType: WorkflowEntityType;
+}
+
+/** Issues that would violate the definition's unique constraints on save */
+const STRUCTURAL_ISSUES: WorkflowIssue["code"][] = [
+  "DUPLICATE_STATE_CODE",
+  "DUPLICATE_TRANSITION_CODE",
+  "UNKNOWN_STATE",
+];
+
+/**
+ * Drafting and publishing of workflow definition versions. Each version is
+ * its own WorkflowDefinition row; publishing archives the previous version
+ * without touching its executions, which keep running on it.
+ */
+export class WorkflowDefinitionService {
+  async getGraph(workflowId: string): Promise<WorkflowGraph> {
+    const definition = await db.workflowDefinition.findUnique({
+      where: { id: workflowId },
+      include: {
+        states: { orderBy: { sortOrder: "asc" } },
+        transitions: {
+          include: {
+            fromState: { select: { code: true } },
+            toState: { select: { code: true } },
+          },
+          orderBy: { code: "asc" },
+        },
+        escalationRules: { include: { state: { select: { code: true } } } },
+      },
+    });
+
+    if (!definition) {
+      throw new TRPCError({
+        code: "NOT_FOUND",
+        message: "Workflow definition not found",
+      });
+    }
+
+    return {
+      states: definition.states.map((s) => ({
+        code: s.code,
+        labelEn: s.labelEn,
+        labelFr: s.labelFr,
+        stateType: s.stateType,
+        color: s.color,
+        icon: s.icon,
+        defaultSLADays: s.defaultSLADays,
+      })),
+      transitions: definition.transitions.map((t) => ({
+        code: t.code,
+        labelEn: t.labelEn,
+        labelFr: t.labelFr,
+        fromStateCode: t.fromState.code,
+        toStateCode: t.toState.code,
+        trigger: t.trigger,
+        allowedRoles: t.allowedRoles as UserRole[],
+        conditions: t.conditions as TransitionConditions | null,
+        onTransitionActions: t.onTransitionActions as TransitionAction[] | null,
+        buttonVariant: t.buttonVariant,
+        confirmRequired: t.confirmRequired,
+        confirmMessageEn: t.confirmMessageEn,
+        confirmMessageFr: t.confirmMessageFr,
+      })),
+      escalationRules: definition.escalationRules.map((r) => ({
+        stateCode: r.state.code,
+        nameEn: r.nameEn,
+        nameFr: r.nameFr,
+        triggerAfterDays: r.triggerAfterDays,
+        action: r.action,
+        actionConfig: r.actionConfig as EscalationConfig | null,
+        repeatIntervalDays: r.repeatIntervalDays,
+        maxRepeats: r.maxRepeats,
+        isActive: r.isActive,
+      })),
+    };
+  }
+
+  async listVersions(workflowId: string) {
+    const familyId = await this.getFamilyId(workflowId);
+
+    return db.workflowDefinition.findMany({
+      where: { OR: [{ id: familyId }, { versionOfId: familyId }] },
+      include: {
+        createdBy: { select: { id: true, firstName: true, lastName: true } },
+        publishedBy: { select: { id: true, firstName: true, lastName: true } },
+        _count: { select: { executions: { where: { completedAt: null } } } },
+      },
+      orderBy: { version: "desc" },
+    });
+  }
+
+  /**
+   * Start a new workflow as an empty draft
+   */
+  async createDefinition(input: CreateDefinitionInput, userId: string) {
+    return db.workflowDefinition.create({
+      data: {
+        ...input,
+        status: "DRAFT",
+        isActive: false,
+        isDefault: false,
+        createdById: userId,
+      },
+    });
+  }
+
+  /**
+   * Copy a version into the next draft of its workflow
+   */
+  async createDraft(sourceId: string, userId: string) {
+    const source = await db.workflowDefinition.findUnique({ where: { id: sourceId } });
+    if (!source) {
+      throw new TRPCError({
+        code: "NOT_FOUND",
+        message: "Workflow definition not found",
+      });
+    }
+
+    const familyId = source.versionOfId ?? source.id;
+    const family = await db.workflowDefinition.findMany({
+      where: { OR: [{ id: familyId }, { versionOfId: familyId }] },
+      select: { version: true, status: true },
+    });
+
+    if (family.some((v) => v.status === "DRAFT")) {
+      throw new TRPCError({
+        code: "CONFLICT",
+        message: "This workflow already has a draft version",
+      });
+    }
+
+    const version = Math.max(...family.map((v) => v.version)) + 1;
+    const graph = await this.getGraph(source.id);
+
+    return db.$transaction(async (tx) => {
+      const draft = await tx.workflowDefinition.create({
+        data: {
+          code: versionCode(source.code, version),
+          nameEn: source.nameEn,
+          nameFr: source.nameFr,
+          descriptionEn: source.descriptionEn,
+          descriptionFr: source.descriptionFr,
+          entityType: source.entityType,
+          version,
+          versionOfId: familyId,
+          status: "DRAFT",
+          isActive: false,
+          isDefault: false,
+          createdById: userId,
+        },
+      });
+
+      await this.writeGraph(tx, draft.id, graph);
+      return draft;
+    });
+  }
+
+  /**
+   * Replace a draft's details and graph. Returns the static check results;
+   * only problems that cannot be stored block the save.
+   */
+  async saveDraft(
+    workflowId: string,
+    details: DefinitionDetailsInput,
+    graph: WorkflowGraph
+  ): Promise<{ issues: WorkflowIssue[] }> {
+    const draft = await this.getDraft(workflowId);
+    const issues = validateWorkflowGraph(graph, draft.entityType);
+
+    const structural = issues.filter((i) => STRUCTURAL_ISSUES.includes(i.code));
+    if (structural.length > 0) {
+      throw new TRPCError({
+        code: "BAD_REQUEST",
+        message: `The workflow cannot be saved: ${structural
+          .map((i) => `${i.code} ${i.transitionCode ?? i.stateCode ?? ""}`.trim())
+          .join(", ")}`,
+      });
+    }
+
+    await db.$transaction(async (tx) => {
+      await tx.workflowDefinition.update({
+        where: { id: draft.id },
+        data: details,
+      });
+      await this.writeGraph(tx, draft.id, graph);
+    });
+
+    return { issues };
+  }
+
+  /**
+   * Publish a draft. The previously published version is archived; its
+   * running executions stay on it while new executions start on the draft.
+   */
+  async publish(workflowId: string, userId: string) {
+    const draft = await this.getDraft(workflowId);
+    const issues = validateWorkflowGraph(await this.getGraph(draft.id), draft.entityType);
+
+    if (hasBlockingIssues(issues)) {
+      throw new TRPCError({
+        code: "PRECONDITION_FAILED",
+        message: `Fix ${issues.filter((i) => i.severity === "error").length} problem(s) before publishing`,
+      });
+    }
+
+    const familyId = draft.versionOfId ?? draft.id;
+    const previous = await db.workflowDefinition.findFirst({
+      where: {
+        OR: [{ id: familyId }, { versionOfId: familyId }],
+        status: "PUBLISHED",
+      },
+    });
+
+    const hasDefault = previous
+      ? previous.isDefault
+      : (await db.workflowDefinition.count({
+          where: { entityType: draft.entityType, isDefault: true, isActive: true },
+        })) > 0;
+
+    const published = await db.$transaction(async (tx) => {
+      if (previous) {
+        await tx.workflowDefinition.update({
+          where: { id: previous.id },
+          data: { status: "ARCHIVED", isActive: false, isDefault: false },
+        });
+      }
+
+      return tx.workflowDefinition.update({
+        where: { id: draft.id },
+        data: {
+          status: "PUBLISHED",
+          isActive: true,
+          // Takes over as default from the previous version, or becomes the
+          // default when the entity type has none
+          isDefault: previous ? previous.isDefault : !hasDefault,
+          publishedAt: new Date(),
+          publishedById: userId,
+        },
+      });
+    });
+
+    const runningOnPrevious = previous
+      ? await db.workflowExecution.count({
+          where: { workflowId: previous.id, completedAt: null },
+        })
+      : 0;
+
+    return { definition: published, previous, runningOnPrevious, issues };
+  }
+
+  async discardDraft(workflowId: string) {
+    const draft = await this.getDraft(workflowId);
+    await db.workflowDefinition.delete({ where: { id: draft.id } });
+    return draft;
+  }
+
+  // ===========================================================================
+  // HELPERS
+  // ===========================================================================
+
+  private async getFamilyId(workflowId: string): Promise<string> {
+    const definition = await db.workflowDefinition.findUnique({
+      where: { id: workflowId },
+      select: { id: true, versionOfId: true },
+    });
+
+    if (!definition) {
+      throw new TRPCError({
+        code: "NOT_FOUND",
+        message: "Workflow definition not found",
+      });
+    }
+
+    return definition.versionOfId ?? definition.id;
+  }
+
+  private async getDraft(workflowId: string) {
+    const definition = await db.workflowDefinition.findUnique({ where: { id: workflowId } });
+
+    if (!definition) {
+      throw new TRPCError({
+        code: "NOT_FOUND",
+        message: "Workflow definition not found",
+      });
+    }
+
+    if (definition.status !== "DRAFT") {
+      throw new TRPCError({
+        code: "PRECONDITION_FAILED",
+        message: "Only draft versions can be changed; create a new draft instead",
+      });
+    }
+
+    return definition;
+  }
+
+  private async writeGraph(tx: Tx, workflowId: string, graph: WorkflowGraph): Promise<void> {
+    await tx.escalationRule.deleteMany({ where: { workflowId } });
+    await tx.workflowTransition.deleteMany({ where: { workflowId } });
+    await tx.workflowState.deleteMany({ where: { workflowId } });
+
+    await tx.workflowState.createMany({
+      data: graph.states.map((s, index) => ({
+        workflowId,
+        code: s.code,
+        labelEn: s.labelEn,
+        labelFr: s.labelFr,
+        stateType: s.stateType,
+        color: s.color,
+        icon: s.icon,
+        sortOrder: index + 1,
+        defaultSLADays: s.defaultSLADays,
+      })),
+    });
+
+    const stateIds = new Map(
+      (
+        await tx.workflowState.findMany({
+          where: { workflowId },
+          select: { id: true, code: true },
+        })
+      ).map((s) => [s.code, s.id])
+    );
+
+    await tx.workflowTransition.createMany({
+      data: graph.transitions.map((t) => ({
+        workflowId,
+        fromStateId: stateIds.get(t.fromStateCode)!,
+        toStateId: stateIds.get(t.toStateCode)!,
+        code: t.code,
+        labelEn: t.labelEn,
+        labelFr: t.labelFr,
+        trigger: t.trigger,
+        allowedRoles: t.allowedRoles,
+        conditions: (t.conditions ?? undefined) as Prisma.InputJsonValue | undefined,
+        onTransitionActions: (t.onTransitionActions ?? undefined) as Prisma.InputJsonValue | undefined,
+        buttonVariant: t.buttonVariant,
+        confirmRequired: t.confirmRequired,
+        confirmMessageEn: t.confirmMessageEn,
+        confirmMessageFr: t.confirmMessageFr,
+      })),
+    });
+
+    await tx.escalationRule.createMany({
+      data: graph.escalationRules.map((r) => ({
+        workflowId,
+        stateId: stateIds.get(r.stateCode)!,
+        nameEn: r.nameEn,
+        nameFr: r.nameFr,
+        triggerAfterDays: r.triggerAfterDays,
+        action: r.action,
+        actionConfig: (r.actionConfig ?? undefined) as Prisma.InputJsonValue | undefined,
+        repeatIntervalDays: r.repeatIntervalDays,
+        maxRepeats: r.maxRepeats,
+        isActive: r.isActive,
+      })),
+    });
+  }
+}
+
+export const workflowDefinitionService = new WorkflowDefinitionService();
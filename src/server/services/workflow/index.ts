@@ -2,5 +2,6 @@ export { workflowService, WorkflowService } from "./workflow-service";
 export { conditionEvaluator, ConditionEvaluator } from "./condition-evaluator";
 export { slaService, SLAService } from "./sla-service";
 export { escalationService, EscalationService } from "./escalation-service";
+export { workflowDefinitionService, WorkflowDefinitionService } from "./definition-service";
 export type { SLAInfo, SLABreachResult, ApproachingBreachInfo, SLAStats } from "./sla-service";
 export type { EscalationEvent } from "./escalation-service";
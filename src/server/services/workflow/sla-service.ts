@@ -7,6 +7,8 @@ export interface SLAInfo {
   targetDays: number;
   startedAt: Date;
   dueAt: Date;
+  /** Due date before the first extension, null if never extended */
+  originalDueAt: Date | null;
   status: SLAStatus;
   remainingDays: number;
   percentComplete: number;
@@ -30,6 +32,7 @@ export interface ApproachingBreachInfo {
   entityId: string;
   stateCode: string;
   dueAt: Date;
+  originalDueAt: Date | null;
   daysRemaining: number;
 }
 
@@ -38,6 +41,7 @@ export interface SLAStats {
   running: number;
   breached: number;
   completed: number;
+  extended: number;
   averageCompletionDays: number;
   breachRate: number;
 }
@@ -74,6 +78,7 @@ export class SLAService {
       targetDays: tracker.targetDays,
       startedAt: tracker.startedAt,
       dueAt: tracker.dueAt,
+      originalDueAt: tracker.originalDueAt,
       status: tracker.status,
       remainingDays,
       percentComplete: Math.round(percentComplete),
@@ -177,6 +182,7 @@ export class SLAService {
       entityId: tracker.execution.entityId,
       stateCode: tracker.stateCode,
       dueAt: tracker.dueAt,
+      originalDueAt: tracker.originalDueAt,
       daysRemaining: Math.ceil(
         (tracker.dueAt.getTime() - Date.now()) / (24 * 60 * 60 * 1000)
       ),
@@ -229,11 +235,12 @@ export class SLAService {
       ? { execution: executionFilter }
       : {};
 
-    const [total, running, breached, completed] = await Promise.all([
+    const [total, running, breached, completed, extended] = await Promise.all([
       db.sLATracker.count({ where: baseWhere }),
       db.sLATracker.count({ where: { ...baseWhere, status: "RUNNING" } }),
       db.sLATracker.count({ where: { ...baseWhere, status: "BREACHED" } }),
       db.sLATracker.count({ where: { ...baseWhere, status: "COMPLETED" } }),
+      db.sLATracker.count({ where: { ...baseWhere, originalDueAt: { not: null } } }),
     ]);
 
     // Calculate average completion time for completed SLAs
@@ -271,6 +278,7 @@ export class SLAService {
       running,
       breached,
       completed,
+      extended,
       averageCompletionDays: Math.round(avgDays * 10) / 10,
       breachRate: Math.round(breachRate * 10) / 10,
     };
@@ -293,6 +301,7 @@ export class SLAService {
       where: { id: slaId },
       data: {
         dueAt: newDueAt,
+        originalDueAt: tracker.originalDueAt ?? tracker.dueAt,
         targetDays: tracker.targetDays + additionalDays,
         status: newStatus,
         ...(newStatus === "RUNNING" && tracker.status === "BREACHED"
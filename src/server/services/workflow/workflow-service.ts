@@ -35,7 +35,7 @@ export class WorkflowService {
     if (existing) return existing;
 
     const workflow = await db.workflowDefinition.findFirst({
-      where: { entityType, isActive: true, isDefault: true },
+      where: { entityType, status: "PUBLISHED", isActive: true, isDefault: true },
       include: { states: { where: { stateType: "INITIAL" } } },
     });
 
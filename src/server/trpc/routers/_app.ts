@@ -14,6 +14,8 @@ import { reviewRouter } from "./review";
 import { findingRouter } from "./finding";
 import { capRouter } from "./cap";
 import { capEvidenceRouter } from "./cap-evidence";
+import { capEffectivenessRouter } from "./cap-effectiveness";
+import { capExtensionRouter } from "./cap-extension";
 import { reportRouter } from "./report";
 import { trainingRouter } from "./training";
 import { settingsRouter } from "./settings";
@@ -29,11 +31,14 @@ import { publicRouter } from "./public";
 import { checklistRouter } from "./checklist";
 import { bestPracticeRouter } from "./best-practice";
 import { bestPracticePromotionRouter } from "./best-practice-promotion";
+import { mentorshipRouter } from "./mentorship";
 import { reviewDiscussionRouter } from "./review-discussion";
 import { reviewTaskRouter } from "./review-task";
 import { collaborationRouter } from "./collaboration";
+import { sessionMinutesRouter } from "./session-minutes";
 import { workflowRouter } from "./workflow";
 import { documentEnhancedRouter } from "./document-enhanced";
+import { documentAnnotationRouter } from "./document-annotation";
 import { searchRouter } from "./search";
 import { retrospectiveRouter } from "./retrospective";
 import { lessonsRouter } from "./lessons";
@@ -42,6 +47,8 @@ import { loginSessionRouter } from "./login-session";
 import { safetyIntelligenceRouter } from "./safety-intelligence";
 import { fieldworkSyncRouter } from "./fieldwork-sync";
 import { retrospectiveAnalyticsRouter } from "./retrospective-analytics";
+import { severityRulesRouter } from "./severity-rules";
+import { scheduledJobsRouter } from "./scheduled-jobs";
 
 /**
  * Main app router combining all sub-routers
@@ -62,6 +69,8 @@ export const appRouter = router({
   finding: findingRouter,
   cap: capRouter,
   capEvidence: capEvidenceRouter,
+  capEffectiveness: capEffectivenessRouter,
+  capExtension: capExtensionRouter,
   report: reportRouter,
   training: trainingRouter,
   settings: settingsRouter,
@@ -77,11 +86,14 @@ export const appRouter = router({
   checklist: checklistRouter,
   bestPractice: bestPracticeRouter,
   bestPracticePromotion: bestPracticePromotionRouter,
+  mentorship: mentorshipRouter,
   reviewDiscussion: reviewDiscussionRouter,
   reviewTask: reviewTaskRouter,
   collaboration: collaborationRouter,
+  sessionMinutes: sessionMinutesRouter,
   workflow: workflowRouter,
   documentEnhanced: documentEnhancedRouter,
+  documentAnnotation: documentAnnotationRouter,
   search: searchRouter,
   retrospective: retrospectiveRouter,
   lessons: lessonsRouter,
@@ -90,6 +102,8 @@ export const appRouter = router({
   safetyIntelligence: safetyIntelligenceRouter,
   fieldworkSync: fieldworkSyncRouter,
   retrospectiveAnalytics: retrospectiveAnalyticsRouter,
+  severityRules: severityRulesRouter,
+  scheduledJobs: scheduledJobsRouter,
 });
 
 /**
@@ -18,6 +18,14 @@ import {
   parseANSImport,
   parseSMSImport,
 } from "@/lib/questionnaire/import-parser";
+import {
+  getEditionChain,
+  getEditionDiff,
+  getMigrationCandidates,
+  migrateAssessment,
+  previewAssessmentMigration,
+  publishEdition,
+} from "@/server/services/questionnaire-edition";
 
 // =============================================================================
 // INPUT SCHEMAS
@@ -53,6 +61,22 @@ const BulkImportInput = z.object({
   data: z.string(), // JSON string
   createQuestionnaire: z.boolean().default(true),
   updateExisting: z.boolean().default(false),
+  // Create the import as a new, unpublished edition of this questionnaire
+  previousEditionId: z.string().cuid().optional(),
+});
+
+const EditionInput = z.object({
+  id: z.string().cuid(),
+});
+
+const MigrationPreviewInput = z.object({
+  assessmentId: z.string().cuid(),
+  targetEditionId: z.string().cuid(),
+});
+
+const MigrateAssessmentsInput = z.object({
+  assessmentIds: z.array(z.string().cuid()).min(1).max(50),
+  targetEditionId: z.string().cuid(),
 });
 
 // =============================================================================
@@ -358,6 +382,7 @@ export const adminQuestionnaireRouter = router({
     .mutation(async ({ input, ctx }) => {
       const questionnaire = await prisma.questionnaire.findUnique({
         where: { id: input.questionnaireId },
+        include: { _count: { select: { assessments: true } } },
       });
 
       if (!questionnaire) {
@@ -367,6 +392,14 @@ export const adminQuestionnaireRouter = router({
         });
       }
 
+      // Assessments are pinned to their edition, so its questions must not change
+      if (questionnaire._count.assessments > 0) {
+        throw new TRPCError({
+          code: "PRECONDITION_FAILED",
+          message: `This edition is used by ${questionnaire._count.assessments} assessments. Import the amended PQs as a new edition instead.`,
+        });
+      }
+
       const errors: ValidationError[] = [];
       let createdCount = 0;
       let updatedCount = 0;
@@ -571,12 +604,60 @@ export const adminQuestionnaireRouter = router({
 
       let questionnaireId: string;
 
+      let previousEditionId: string | null = null;
+      if (input.previousEditionId) {
+        const previousEdition = await prisma.questionnaire.findUnique({
+          where: { id: input.previousEditionId },
+          include: { nextEdition: { select: { id: true } } },
+        });
+
+        if (!previousEdition) {
+          throw new TRPCError({
+            code: "NOT_FOUND",
+            message: "Previous edition not found",
+          });
+        }
+
+        if (previousEdition.type !== input.type) {
+          throw new TRPCError({
+            code: "BAD_REQUEST",
+            message: "A new edition must have the same questionnaire type",
+          });
+        }
+
+        if (previousEdition.nextEdition) {
+          throw new TRPCError({
+            code: "CONFLICT",
+            message: "This questionnaire already has a newer edition",
+          });
+        }
+
+        previousEditionId = previousEdition.id;
+      }
+
       if (input.createQuestionnaire && parseResult.questionnaire) {
         // Check for existing
         const existing = await prisma.questionnaire.findUnique({
           where: { code: parseResult.questionnaire.code },
+          include: { _count: { select: { assessments: true } } },
         });
 
+        if (existing && (previousEditionId || existing._count.assessments > 0)) {
+          return {
+            success: false,
+            errors: [
+              {
+                row: 0,
+                field: "questionnaire.code",
+                message: previousEditionId
+                  ? `A new edition needs its own code; "${parseResult.questionnaire.code}" is already used`
+                  : `Questionnaire "${parseResult.questionnaire.code}" is used by assessments. Import the amended PQs as a new edition instead.`,
+              },
+            ],
+            questionnaireId: null,
+          };
+        }
+
         if (existing && !input.updateExisting) {
           return {
             success: false,
@@ -601,6 +682,8 @@ export const adminQuestionnaireRouter = router({
               expiryDate: parseResult.questionnaire.expiryDate
                 ? new Date(parseResult.questionnaire.expiryDate)
                 : null,
+              // New editions stay inactive until published
+              ...(previousEditionId && { previousEditionId, isActive: false }),
             },
           });
           questionnaireId = created.id;
@@ -722,6 +805,86 @@ export const adminQuestionnaireRouter = router({
       };
     }),
 
+  /**
+   * List the editions of a questionnaire, oldest first
+   */
+  getEditions: adminProcedure
+    .input(EditionInput)
+    .query(async ({ input }) => {
+      return getEditionChain(input.id);
+    }),
+
+  /**
+   * Added, revised, merged and deleted PQs compared with the previous edition
+   */
+  getEditionDiff: adminProcedure
+    .input(EditionInput)
+    .query(async ({ input }) => {
+      return getEditionDiff(input.id);
+    }),
+
+  /**
+   * Activate an edition for new assessments and retire the one it supersedes
+   */
+  publishEdition: adminProcedure
+    .input(EditionInput)
+    .mutation(async ({ input, ctx }) => {
+      const result = await publishEdition(input.id, ctx.user.id);
+
+      console.log(
+        `[Admin] User ${ctx.user.id} published questionnaire edition ${input.id}`
+      );
+
+      return result;
+    }),
+
+  /**
+   * Assessments on earlier editions that can be migrated to this one
+   */
+  getMigrationCandidates: adminProcedure
+    .input(EditionInput)
+    .query(async ({ input }) => {
+      return getMigrationCandidates(input.id);
+    }),
+
+  /**
+   * Preview how an assessment's responses map onto a later edition
+   */
+  previewMigration: adminProcedure
+    .input(MigrationPreviewInput)
+    .query(async ({ input }) => {
+      return previewAssessmentMigration(input.assessmentId, input.targetEditionId);
+    }),
+
+  /**
+   * Migrate completed assessments to a later edition
+   */
+  migrateAssessments: adminProcedure
+    .input(MigrateAssessmentsInput)
+    .mutation(async ({ input, ctx }) => {
+      const results = [];
+      const errors: Array<{ assessmentId: string; message: string }> = [];
+
+      for (const assessmentId of input.assessmentIds) {
+        try {
+          results.push(
+            await migrateAssessment(assessmentId, input.targetEditionId, ctx.user.id)
+          );
+        } catch (error) {
+          errors.push({
+            assessmentId,
+            message: error instanceof Error ? error.message : "Unknown error",
+          });
+        }
+      }
+
+      console.log(
+        `[Admin] User ${ctx.user.id} migrated ${results.length} assessments to questionnaire edition ${input.targetEditionId}`
+      );
+
+      return { migrated: results, errors };
+    }),
+
   /**
    * Get import statistics for a questionnaire
    */
@@ -77,7 +77,9 @@ interface OverdueCAP {
   findingTitle: string;
   organizationName: string;
   dueDate: Date;
+  originalDueDate: Date | null;
   daysOverdue: number;
+  daysOverdueAgainstOriginal: number;
   status: CAPStatus;
 }
 
@@ -85,6 +87,8 @@ interface CAPStatistics {
   total: number;
   byStatus: CAPStatusCount[];
   overdueCount: number;
+  overdueAgainstOriginalCount: number;
+  extendedCount: number;
   overdueCaps: OverdueCAP[];
   averageClosureTimeDays: number | null;
   completionRate: number;
@@ -467,10 +471,28 @@ export const analyticsRouter = router({
       findingTitle: c.finding.titleEn,
       organizationName: c.finding.review.hostOrganization.nameEn,
       dueDate: c.dueDate,
+      originalDueDate: c.originalDueDate,
       daysOverdue: differenceInDays(now, c.dueDate),
+      daysOverdueAgainstOriginal: differenceInDays(now, c.originalDueDate ?? c.dueDate),
       status: c.status,
     }));
 
+    // Approved extensions move dueDate; count slippage against the original
+    const [extendedCount, overdueAgainstOriginalCount] = await Promise.all([
+      db.correctiveActionPlan.count({
+        where: { originalDueDate: { not: null } },
+      }),
+      db.correctiveActionPlan.count({
+        where: {
+          status: { notIn: ["COMPLETED", "VERIFIED", "CLOSED"] },
+          OR: [
+            { originalDueDate: { lt: now } },
+            { originalDueDate: null, dueDate: { lt: now } },
+          ],
+        },
+      }),
+    ]);
+
     // Calculate average closure time
     const closedCaps = await db.correctiveActionPlan.findMany({
       where: {
@@ -510,6 +532,8 @@ export const analyticsRouter = router({
       total,
       byStatus,
       overdueCount: overdueCapRecords.length,
+      overdueAgainstOriginalCount,
+      extendedCount,
       overdueCaps,
       averageClosureTimeDays,
       completionRate,
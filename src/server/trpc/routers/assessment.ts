@@ -52,6 +52,10 @@ import {
   isANSResponseAnswered,
   isSMSResponseAnswered,
 } from "@/lib/utils/assessment-helpers";
+import {
+  buildAssessmentWorkbook,
+  type WorkbookMaturityLevel,
+} from "@/lib/export/assessment-workbook";
 
 // =============================================================================
 // CONSTANTS & HELPERS
@@ -390,7 +394,7 @@ const AddEvidenceInput = z.object({
 
 const ExportInput = z.object({
   assessmentId: z.string().cuid(),
-  format: z.enum(["JSON", "CSV"]),
+  format: z.enum(["JSON", "CSV", "XLSX"]),
   includeEvidence: z.boolean().default(true),
   includeNotes: z.boolean().default(true),
 });
@@ -1984,7 +1988,8 @@ export const assessmentRouter = router({
 
           if (questionnaireType === "ANS_USOAP_CMA") {
             updateData.responseValue = response.responseValue;
-          } else {
+          } else if (response.maturityLevel !== undefined) {
+            // Omitted levels are left as-is (e.g. notes-only rows from a workbook)
             updateData.maturityLevel = response.maturityLevel
               ? MATURITY_LEVEL_MAP[response.maturityLevel]
               : null;
@@ -2770,6 +2775,9 @@ export const assessmentRouter = router({
               respondedBy: {
                 select: { firstName: true, lastName: true },
               },
+              documents: {
+                include: { document: { select: { name: true } } },
+              },
             },
             orderBy: { question: { sortOrder: "asc" } },
           },
@@ -2795,6 +2803,50 @@ export const assessmentRouter = router({
         };
       }
 
+      if (input.format === "XLSX") {
+        const isANS = assessment.questionnaire.type === "ANS_USOAP_CMA";
+        const file = buildAssessmentWorkbook({
+          assessment: {
+            id: fullAssessment.id,
+            title: fullAssessment.title,
+            referenceNumber: fullAssessment.referenceNumber,
+            organizationName: fullAssessment.organization.nameEn,
+            questionnaireTitle: fullAssessment.questionnaire.titleEn,
+            type: fullAssessment.questionnaire.type,
+            status: fullAssessment.status,
+            eiScore: fullAssessment.eiScore,
+            overallScore: fullAssessment.overallScore,
+            maturityLevel: fullAssessment.maturityLevel
+              ? (MATURITY_LEVEL_REVERSE[fullAssessment.maturityLevel] as WorkbookMaturityLevel)
+              : null,
+          },
+          rows: fullAssessment.responses.map((r) => ({
+            questionId: r.questionId,
+            pqNumber: r.question.pqNumber,
+            questionTextEn: r.question.questionTextEn,
+            questionTextFr: r.question.questionTextFr,
+            category: r.question.category?.nameEn || "",
+            responseValue: isANS ? r.responseValue : null,
+            maturityLevel: !isANS && r.maturityLevel
+              ? (MATURITY_LEVEL_REVERSE[r.maturityLevel] as WorkbookMaturityLevel)
+              : null,
+            score: r.score,
+            notes: r.notes,
+            evidence: [...r.documents.map((d) => d.document.name), ...r.evidenceUrls],
+            respondedBy: r.respondedBy ? `${r.respondedBy.firstName} ${r.respondedBy.lastName}` : null,
+            respondedAt: r.respondedAt,
+          })),
+          includeNotes: input.includeNotes,
+          includeEvidence: input.includeEvidence,
+        });
+
+        return {
+          format: "XLSX" as const,
+          data: Buffer.from(file).toString("base64"),
+          filename: `assessment-${fullAssessment.id}-${new Date().toISOString().split("T")[0]}.xlsx`,
+        };
+      }
+
       // CSV format
       const headers = [
         "Question ID",
@@ -15,6 +15,12 @@ import {
   getUserAuditLogs,
   getEntityTypes,
   exportAuditLogsToCSV,
+  logAudit,
+  logExport,
+  verifyAuditLogChain,
+  createAuditCheckpoint,
+  listAuditCheckpoints,
+  exportAuditCheckpoints,
 } from "@/server/services/audit";
 
 export const auditRouter = router({
@@ -224,6 +230,77 @@ export const auditRouter = router({
         })),
       };
     }),
+
+  // ===========================================================================
+  // Hash chain
+  // ===========================================================================
+
+  /**
+   * Recompute the audit log hash chain and report the first break
+   */
+  verifyChain: adminProcedure.mutation(async ({ ctx }) => {
+    const result = await verifyAuditLogChain();
+
+    await logAudit({
+      userId: ctx.user.id,
+      action: "INTEGRITY_CHECK",
+      entityType: "AuditLog",
+      entityId: "chain",
+      newState: {
+        isValid: result.isValid,
+        checkedEntries: result.checkedEntries,
+        headSequence: result.headSequence,
+        breakSequence: result.break?.sequence ?? null,
+        checkpointIssues: result.checkpoints.issues.length,
+      },
+    });
+
+    return result;
+  }),
+
+  /**
+   * Most recent signed checkpoints
+   */
+  getCheckpoints: adminProcedure
+    .input(
+      z.object({
+        limit: z.number().min(1).max(100).default(20),
+      })
+    )
+    .query(async ({ input }) => {
+      return listAuditCheckpoints(input.limit);
+    }),
+
+  /**
+   * Sign the current chain head
+   */
+  createCheckpoint: adminProcedure.mutation(async ({ ctx }) => {
+    const { checkpoint, verification } = await createAuditCheckpoint(ctx.user.id);
+
+    if (!verification.isValid) {
+      throw new TRPCError({
+        code: "PRECONDITION_FAILED",
+        message: "The audit chain failed verification; a checkpoint cannot be signed over it",
+      });
+    }
+
+    return { checkpoint, headSequence: verification.headSequence };
+  }),
+
+  /**
+   * Export all checkpoints as JSON
+   */
+  exportCheckpoints: adminProcedure.mutation(async ({ ctx }) => {
+    const json = await exportAuditCheckpoints();
+
+    await logExport({
+      userId: ctx.user.id,
+      entityType: "AuditCheckpoint",
+      format: "json",
+    });
+
+    return json;
+  }),
 });
 
 export default auditRouter;
@@ -18,6 +18,8 @@ import {
   UserRole,
 } from "@prisma/client";
 import { canPerformAnspActions } from "@/lib/permissions";
+import { OPEN_MENTORSHIP_STATUSES } from "@/lib/mentorship/lifecycle";
+import { notifyMentorshipRequested } from "@/server/services/mentorship";
 
 // =============================================================================
 // INPUT SCHEMAS
@@ -1297,19 +1299,19 @@ export const bestPracticeRouter = router({
         });
       }
 
-      // Check if there's already a pending request
+      // Check if there's already an open mentorship
       const existingRequest = await ctx.db.mentorshipRequest.findFirst({
         where: {
           bestPracticeId: input.bestPracticeId,
           requestingOrgId: userOrgId,
-          status: "PENDING",
+          status: { in: OPEN_MENTORSHIP_STATUSES },
         },
       });
 
       if (existingRequest) {
         throw new TRPCError({
           code: "CONFLICT",
-          message: "Your organization already has a pending mentorship request for this practice",
+          message: "Your organization already has an open mentorship for this practice",
         });
       }
 
@@ -1331,7 +1333,7 @@ export const bestPracticeRouter = router({
         },
       });
 
-      // TODO: Send email notification to target organization
+      await notifyMentorshipRequested(request.id).catch(() => {});
 
       return request;
     }),
@@ -1371,6 +1373,7 @@ export const bestPracticeRouter = router({
       if (!userOrgId) {
         return {
           hasPendingRequest: false,
+          hasOpenMentorship: false,
           totalRequests: isOversightRole ? totalRequests : 0,
           pendingRequests: isOversightRole ? pendingRequests : 0,
         };
@@ -1391,6 +1394,7 @@ export const bestPracticeRouter = router({
 
       return {
         hasPendingRequest: request?.status === "PENDING",
+        hasOpenMentorship: !!request && OPEN_MENTORSHIP_STATUSES.includes(request.status),
         lastRequest: request,
         totalRequests,
         pendingRequests,
@@ -0,0 +1,276 @@
+/**
+ * CAP Effectiveness Review Router
+ *
+ * Follow-up verification that a closed CAP remains effective. Reviews are
+ * scheduled when a CAP closes and opened by the cap-effectiveness cron job;
+ * the host organization uploads evidence through cap-evidence and a
+ * reviewer records the checklist and outcome here.
+ *
+ * Outcomes:
+ * EFFECTIVE → done
+ * PARTIALLY_EFFECTIVE → checked again in a later cycle
+ * INEFFECTIVE → CAP re-opened (IN_PROGRESS) or follow-up finding raised
+ */
+
+import { z } from "zod";
+import { TRPCError } from "@trpc/server";
+import {
+  router,
+  protectedProcedure,
+  roleProcedure,
+} from "../trpc";
+import { EffectivenessFollowUp, EffectivenessOutcome, UserRole } from "@prisma/client";
+import { logStatusChange, logVerification } from "@/server/services/audit";
+import { completeEffectivenessReview } from "@/server/services/cap-effectiveness";
+import { EFFECTIVENESS_CHECKLIST_KEYS } from "@/lib/cap/effectiveness";
+
+// =============================================================================
+// ROLE DEFINITIONS
+// =============================================================================
+
+/**
+ * Roles that can complete effectiveness reviews (same as CAP verification)
+ */
+const EFFECTIVENESS_REVIEW_ROLES: UserRole[] = [
+  "SUPER_ADMIN",
+  "SYSTEM_ADMIN",
+  "PROGRAMME_COORDINATOR",
+  "STEERING_COMMITTEE",
+  "LEAD_REVIEWER",
+  "PEER_REVIEWER",
+];
+
+/**
+ * Roles that can see effectiveness reviews across organizations
+ */
+const EFFECTIVENESS_VIEW_ALL_ROLES: UserRole[] = [
+  "SUPER_ADMIN",
+  "SYSTEM_ADMIN",
+  "PROGRAMME_COORDINATOR",
+  "STEERING_COMMITTEE",
+];
+
+// =============================================================================
+// INPUT SCHEMAS
+// =============================================================================
+
+const checklistItemSchema = z.object({
+  key: z.enum(EFFECTIVENESS_CHECKLIST_KEYS),
+  answer: z.enum(["YES", "NO", "NA"]).nullable(),
+  notes: z.string().max(1000).optional(),
+});
+
+const completeReviewSchema = z.object({
+  id: z.string().cuid(),
+  checklist: z.array(checklistItemSchema).min(1),
+  outcome: z.nativeEnum(EffectivenessOutcome),
+  summary: z.string().min(10, "Summary must be at least 10 characters"),
+  followUpAction: z.nativeEnum(EffectivenessFollowUp).optional(),
+  dueDate: z.coerce.date().optional(),
+});
+
+const listReviewsSchema = z.object({
+  status: z.enum(["SCHEDULED", "OPEN", "COMPLETED", "CANCELLED"]).optional(),
+  page: z.number().min(1).default(1),
+  pageSize: z.number().min(1).max(100).default(20),
+});
+
+// =============================================================================
+// ROUTER
+// =============================================================================
+
+export const capEffectivenessRouter = router({
+  /**
+   * Effectiveness reviews of a CAP, latest cycle first
+   */
+  listByCap: protectedProcedure
+    .input(z.object({ capId: z.string().cuid() }))
+    .query(async ({ ctx, input }) => {
+      const { user } = ctx.session;
+
+      const cap = await ctx.db.correctiveActionPlan.findUnique({
+        where: { id: input.capId },
+        select: {
+          finding: {
+            select: {
+              organizationId: true,
+              review: { select: { teamMembers: { select: { userId: true } } } },
+            },
+          },
+        },
+      });
+
+      if (!cap) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "CAP not found",
+        });
+      }
+
+      const canViewAll = EFFECTIVENESS_VIEW_ALL_ROLES.includes(user.role);
+      const isOrgMember = user.organizationId === cap.finding.organizationId;
+      const isTeamMember = cap.finding.review.teamMembers.some(
+        (tm) => tm.userId === user.id
+      );
+
+      if (!canViewAll && !isOrgMember && !isTeamMember) {
+        throw new TRPCError({
+          code: "FORBIDDEN",
+          message: "You do not have permission to view this CAP",
+        });
+      }
+
+      return ctx.db.cAPEffectivenessReview.findMany({
+        where: { capId: input.capId },
+        include: {
+          reviewedBy: {
+            select: { id: true, firstName: true, lastName: true },
+          },
+          followUpFinding: {
+            select: { id: true, referenceNumber: true },
+          },
+          evidence: {
+            select: {
+              id: true,
+              titleEn: true,
+              titleFr: true,
+              fileName: true,
+              fileUrl: true,
+              status: true,
+              uploadedAt: true,
+            },
+            orderBy: { uploadedAt: "desc" },
+          },
+        },
+        orderBy: { cycle: "desc" },
+      });
+    }),
+
+  /**
+   * Effectiveness reviews across organizations (programme management)
+   */
+  list: roleProcedure(...EFFECTIVENESS_VIEW_ALL_ROLES)
+    .input(listReviewsSchema)
+    .query(async ({ ctx, input }) => {
+      const where = input.status ? { status: input.status } : {};
+
+      const [items, total] = await Promise.all([
+        ctx.db.cAPEffectivenessReview.findMany({
+          where,
+          include: {
+            cap: {
+              select: {
+                id: true,
+                finding: {
+                  select: {
+                    id: true,
+                    referenceNumber: true,
+                    titleEn: true,
+                    titleFr: true,
+                    severity: true,
+                    organization: {
+                      select: { id: true, nameEn: true, nameFr: true, organizationCode: true },
+                    },
+                  },
+                },
+              },
+            },
+            _count: { select: { evidence: true } },
+          },
+          orderBy: { scheduledFor: "asc" },
+          skip: (input.page - 1) * input.pageSize,
+          take: input.pageSize,
+        }),
+        ctx.db.cAPEffectivenessReview.count({ where }),
+      ]);
+
+      return {
+        items,
+        total,
+        page: input.page,
+        pageSize: input.pageSize,
+        totalPages: Math.ceil(total / input.pageSize),
+      };
+    }),
+
+  /**
+   * Record the checklist and outcome of an open effectiveness review
+   */
+  complete: roleProcedure(...EFFECTIVENESS_REVIEW_ROLES)
+    .input(completeReviewSchema)
+    .mutation(async ({ ctx, input }) => {
+      const { user } = ctx.session;
+
+      const existing = await ctx.db.cAPEffectivenessReview.findUnique({
+        where: { id: input.id },
+        select: {
+          capId: true,
+          cap: {
+            select: {
+              finding: {
+                select: {
+                  review: { select: { teamMembers: { select: { userId: true } } } },
+                },
+              },
+            },
+          },
+        },
+      });
+
+      if (!existing) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "Effectiveness review not found",
+        });
+      }
+
+      // Reviewers may only assess CAPs from reviews they took part in
+      const isTeamMember = existing.cap.finding.review.teamMembers.some(
+        (tm) => tm.userId === user.id
+      );
+      if (!EFFECTIVENESS_VIEW_ALL_ROLES.includes(user.role) && !isTeamMember) {
+        throw new TRPCError({
+          code: "FORBIDDEN",
+          message: "Only the review team or programme management can assess this CAP",
+        });
+      }
+
+      const result = await completeEffectivenessReview(
+        {
+          reviewId: input.id,
+          checklist: input.checklist,
+          outcome: input.outcome,
+          summary: input.summary,
+          followUpAction: input.followUpAction,
+          dueDate: input.dueDate,
+        },
+        user.id
+      );
+
+      await logVerification({
+        userId: user.id,
+        entityType: "CorrectiveActionPlan",
+        entityId: existing.capId,
+        verified: input.outcome === "EFFECTIVE",
+        metadata: {
+          effectivenessReviewId: input.id,
+          outcome: input.outcome,
+          followUpAction: result.review.followUpAction,
+          followUpFindingId: result.followUpFindingId,
+        },
+      });
+
+      if (result.review.followUpAction === "REOPEN_CAP") {
+        await logStatusChange({
+          userId: user.id,
+          entityType: "CorrectiveActionPlan",
+          entityId: existing.capId,
+          previousStatus: result.previousCapStatus,
+          newStatus: "IN_PROGRESS",
+          metadata: { reason: "Ineffective at effectiveness review", effectivenessReviewId: input.id },
+        });
+      }
+
+      return result;
+    }),
+});
@@ -19,6 +19,7 @@ import {
   roleProcedure,
 } from "../trpc";
 import { EvidenceCategory, EvidenceStatus, UserRole, MilestoneStatus, AuditAction } from "@prisma/client";
+import { isExtensionPending } from "@/lib/cap/extension";
 
 // =============================================================================
 // ROLE DEFINITIONS
@@ -54,6 +55,10 @@ const EVIDENCE_VIEW_ALL_ROLES: UserRole[] = [
 const createEvidenceSchema = z.object({
   capId: z.string().cuid(),
   milestoneId: z.string().cuid().optional(),
+  /** Evidence supporting an effectiveness review after closure */
+  effectivenessReviewId: z.string().cuid().optional(),
+  /** Evidence supporting a due-date extension request */
+  extensionRequestId: z.string().cuid().optional(),
   category: z.nativeEnum(EvidenceCategory),
   titleEn: z.string().min(3, "Title must be at least 3 characters"),
   titleFr: z.string().optional(),
@@ -66,6 +71,18 @@ const createEvidenceSchema = z.object({
   fileSize: z.number().positive(),
 });
 
+/** One file filed against several CAPs of the same organization */
+const createSharedEvidenceSchema = createEvidenceSchema
+  .omit({
+    capId: true,
+    milestoneId: true,
+    effectivenessReviewId: true,
+    extensionRequestId: true,
+  })
+  .extend({
+    capIds: z.array(z.string().cuid()).min(1).max(100),
+  });
+
 const reviewEvidenceSchema = z.object({
   evidenceId: z.string().cuid(),
   status: z.enum(["ACCEPTED", "REJECTED", "MORE_INFO_REQUIRED"]),
@@ -147,11 +164,57 @@ export const capEvidenceRouter = router({
         }
       }
 
+      // Validate effectiveness review if provided
+      if (input.effectivenessReviewId) {
+        const effectivenessReview = await ctx.db.cAPEffectivenessReview.findUnique({
+          where: { id: input.effectivenessReviewId },
+          select: { capId: true, status: true },
+        });
+
+        if (!effectivenessReview || effectivenessReview.capId !== input.capId) {
+          throw new TRPCError({
+            code: "BAD_REQUEST",
+            message: "Invalid effectiveness review for this CAP",
+          });
+        }
+
+        if (effectivenessReview.status !== "OPEN") {
+          throw new TRPCError({
+            code: "BAD_REQUEST",
+            message: "Evidence can only be added to an open effectiveness review",
+          });
+        }
+      }
+
+      // Validate extension request if provided
+      if (input.extensionRequestId) {
+        const extensionRequest = await ctx.db.cAPExtensionRequest.findUnique({
+          where: { id: input.extensionRequestId },
+          select: { capId: true, status: true },
+        });
+
+        if (!extensionRequest || extensionRequest.capId !== input.capId) {
+          throw new TRPCError({
+            code: "BAD_REQUEST",
+            message: "Invalid extension request for this CAP",
+          });
+        }
+
+        if (!isExtensionPending(extensionRequest.status)) {
+          throw new TRPCError({
+            code: "BAD_REQUEST",
+            message: "Evidence can only be added to a pending extension request",
+          });
+        }
+      }
+
       // Create evidence
       const evidence = await ctx.db.cAPEvidence.create({
         data: {
           capId: input.capId,
           milestoneId: input.milestoneId,
+          effectivenessReviewId: input.effectivenessReviewId,
+          extensionRequestId: input.extensionRequestId,
           category: input.category,
           titleEn: input.titleEn,
           titleFr: input.titleFr,
@@ -206,6 +269,102 @@ export const capEvidenceRouter = router({
       return evidence;
     }),
 
+  /**
+   * Upload one piece of evidence shared by several CAPs (portfolio bulk
+   * action). Each CAP gets its own evidence record so it is reviewed in
+   * the context of that CAP.
+   */
+  createShared: protectedProcedure
+    .input(createSharedEvidenceSchema)
+    .mutation(async ({ ctx, input }) => {
+      const { user } = ctx.session;
+      const { capIds, ...fields } = input;
+
+      const caps = await ctx.db.correctiveActionPlan.findMany({
+        where: { id: { in: capIds } },
+        select: {
+          id: true,
+          finding: {
+            select: {
+              organizationId: true,
+              review: {
+                select: {
+                  teamMembers: {
+                    where: { role: "LEAD_REVIEWER" },
+                    select: { userId: true },
+                  },
+                },
+              },
+            },
+          },
+        },
+      });
+
+      if (caps.length !== new Set(capIds).size) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "One or more CAPs not found",
+        });
+      }
+
+      if (
+        user.role !== "SUPER_ADMIN" &&
+        caps.some((cap) => cap.finding.organizationId !== user.organizationId)
+      ) {
+        throw new TRPCError({
+          code: "FORBIDDEN",
+          message: "You can only upload evidence for your organization's CAPs",
+        });
+      }
+
+      const evidence = await ctx.db.$transaction(
+        caps.map((cap) =>
+          ctx.db.cAPEvidence.create({
+            data: {
+              ...fields,
+              capId: cap.id,
+              status: "PENDING",
+              uploadedById: user.id,
+            },
+          })
+        )
+      );
+
+      // One notification per lead reviewer, whatever the number of CAPs
+      const leadReviewerIds = new Set(
+        caps.flatMap((cap) => cap.finding.review.teamMembers.map((tm) => tm.userId))
+      );
+      if (leadReviewerIds.size > 0) {
+        await ctx.db.notification.createMany({
+          data: [...leadReviewerIds].map((userId) => ({
+            userId,
+            type: "CAP_SUBMITTED" as const,
+            titleEn: "New CAP Evidence Uploaded",
+            titleFr: "Nouvelle preuve de PAC téléchargée",
+            messageEn: `New evidence "${input.titleEn}" has been uploaded for ${caps.length} CAP(s) and requires your review.`,
+            messageFr: `Une nouvelle preuve "${input.titleEn}" a été téléchargée pour ${caps.length} PAC et nécessite votre révision.`,
+            entityType: "CAPEvidence",
+            entityId: evidence[0].id,
+            actionUrl: `/caps/${evidence[0].capId}`,
+            priority: "NORMAL" as const,
+          })),
+        });
+      }
+
+      await ctx.db.auditLog.createMany({
+        data: evidence.map((e) => ({
+          userId: user.id,
+          action: AuditAction.CREATE,
+          entityType: "CAPEvidence",
+          entityId: e.id,
+          newState: JSON.parse(JSON.stringify(e)),
+          metadata: { sharedWith: capIds },
+        })),
+      });
+
+      return { count: evidence.length };
+    }),
+
   /**
    * Get evidence by ID
    */
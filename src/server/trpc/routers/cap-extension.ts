@@ -0,0 +1,481 @@
+/**
+ * CAP Extension Request Router
+ *
+ * Formal due-date extensions for accepted CAPs. The host organization
+ * requests an extension with a justification, a proposed date and
+ * supporting evidence (uploaded through cap-evidence), the review lead
+ * endorses it and a programme coordinator takes the decision.
+ *
+ * Status Flow:
+ * PENDING → ENDORSED → APPROVED
+ *        ↘ REJECTED (lead or coordinator)
+ *        ↘ WITHDRAWN (requester's organization)
+ *
+ * Reviews without a lead reviewer go straight to the coordinator.
+ * While a request is pending, the cap-deadlines cron does not escalate.
+ */
+
+import { z } from "zod";
+import { TRPCError } from "@trpc/server";
+import {
+  router,
+  protectedProcedure,
+  roleProcedure,
+} from "../trpc";
+import { UserRole } from "@prisma/client";
+import { logApproval, logCreate, logRejection, logStatusChange, logUpdate } from "@/server/services/audit";
+import { decideExtension, requestExtensions } from "@/server/services/cap-extension";
+import { isValidExtensionTransition, PENDING_EXTENSION_STATUSES } from "@/lib/cap/extension";
+
+// =============================================================================
+// ROLE DEFINITIONS
+// =============================================================================
+
+/**
+ * Roles that can request extensions (organization members)
+ */
+const EXTENSION_REQUEST_ROLES: UserRole[] = [
+  "SUPER_ADMIN",
+  "ANSP_ADMIN",
+  "SAFETY_MANAGER",
+  "QUALITY_MANAGER",
+];
+
+/**
+ * Roles that take the final decision on an extension
+ */
+const EXTENSION_DECIDE_ROLES: UserRole[] = ["SUPER_ADMIN", "PROGRAMME_COORDINATOR"];
+
+/**
+ * Roles that can see extension requests across organizations
+ */
+const EXTENSION_VIEW_ALL_ROLES: UserRole[] = [
+  "SUPER_ADMIN",
+  "SYSTEM_ADMIN",
+  "PROGRAMME_COORDINATOR",
+  "STEERING_COMMITTEE",
+];
+
+// =============================================================================
+// INPUT SCHEMAS
+// =============================================================================
+
+const requestExtensionSchema = z.object({
+  capId: z.string().cuid(),
+  proposedDate: z.coerce.date(),
+  justification: z
+    .string()
+    .min(10, "Justification must be at least 10 characters"),
+});
+
+const endorseExtensionSchema = z.object({
+  id: z.string().cuid(),
+  endorse: z.boolean(),
+  comment: z.string().max(2000).optional(),
+});
+
+const decideExtensionSchema = z.object({
+  id: z.string().cuid(),
+  approve: z.boolean(),
+  comment: z.string().max(2000).optional(),
+});
+
+const listPendingSchema = z.object({
+  page: z.number().min(1).default(1),
+  pageSize: z.number().min(1).max(100).default(20),
+});
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+const requestAccessSelect = {
+  id: true,
+  capId: true,
+  status: true,
+  currentDueDate: true,
+  proposedDate: true,
+  requestedById: true,
+  cap: {
+    select: {
+      finding: {
+        select: {
+          organizationId: true,
+          review: {
+            select: {
+              teamMembers: { select: { userId: true, role: true } },
+            },
+          },
+        },
+      },
+    },
+  },
+} as const;
+
+// =============================================================================
+// ROUTER
+// =============================================================================
+
+export const capExtensionRouter = router({
+  /**
+   * Extension requests of a CAP, latest first
+   */
+  listByCap: protectedProcedure
+    .input(z.object({ capId: z.string().cuid() }))
+    .query(async ({ ctx, input }) => {
+      const { user } = ctx.session;
+
+      const cap = await ctx.db.correctiveActionPlan.findUnique({
+        where: { id: input.capId },
+        select: {
+          finding: {
+            select: {
+              organizationId: true,
+              review: { select: { teamMembers: { select: { userId: true } } } },
+            },
+          },
+        },
+      });
+
+      if (!cap) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "CAP not found",
+        });
+      }
+
+      const canViewAll = EXTENSION_VIEW_ALL_ROLES.includes(user.role);
+      const isOrgMember = user.organizationId === cap.finding.organizationId;
+      const isTeamMember = cap.finding.review.teamMembers.some(
+        (tm) => tm.userId === user.id
+      );
+
+      if (!canViewAll && !isOrgMember && !isTeamMember) {
+        throw new TRPCError({
+          code: "FORBIDDEN",
+          message: "You do not have permission to view this CAP",
+        });
+      }
+
+      return ctx.db.cAPExtensionRequest.findMany({
+        where: { capId: input.capId },
+        include: {
+          requestedBy: { select: { id: true, firstName: true, lastName: true } },
+          endorsedBy: { select: { id: true, firstName: true, lastName: true } },
+          decidedBy: { select: { id: true, firstName: true, lastName: true } },
+          evidence: {
+            select: {
+              id: true,
+              titleEn: true,
+              titleFr: true,
+              fileName: true,
+              fileUrl: true,
+              status: true,
+              uploadedAt: true,
+            },
+            orderBy: { uploadedAt: "desc" },
+          },
+        },
+        orderBy: { createdAt: "desc" },
+      });
+    }),
+
+  /**
+   * Requests awaiting the current user: endorsement for lead reviewers,
+   * the decision for programme coordinators
+   */
+  listPending: protectedProcedure
+    .input(listPendingSchema)
+    .query(async ({ ctx, input }) => {
+      const { user } = ctx.session;
+
+      const where = EXTENSION_VIEW_ALL_ROLES.includes(user.role)
+        ? { status: { in: PENDING_EXTENSION_STATUSES } }
+        : {
+            status: "PENDING" as const,
+            cap: {
+              finding: {
+                review: {
+                  teamMembers: { some: { userId: user.id, role: "LEAD_REVIEWER" as const } },
+                },
+              },
+            },
+          };
+
+      const [items, total] = await Promise.all([
+        ctx.db.cAPExtensionRequest.findMany({
+          where,
+          include: {
+            requestedBy: { select: { id: true, firstName: true, lastName: true } },
+            cap: {
+              select: {
+                id: true,
+                finding: {
+                  select: {
+                    id: true,
+                    referenceNumber: true,
+                    titleEn: true,
+                    titleFr: true,
+                    severity: true,
+                    organization: {
+                      select: { id: true, nameEn: true, nameFr: true, organizationCode: true },
+                    },
+                  },
+                },
+              },
+            },
+            _count: { select: { evidence: true } },
+          },
+          orderBy: { createdAt: "asc" },
+          skip: (input.page - 1) * input.pageSize,
+          take: input.pageSize,
+        }),
+        ctx.db.cAPExtensionRequest.count({ where }),
+      ]);
+
+      return {
+        items,
+        total,
+        page: input.page,
+        pageSize: input.pageSize,
+        totalPages: Math.ceil(total / input.pageSize),
+      };
+    }),
+
+  /**
+   * Request more time on a CAP
+   */
+  request: roleProcedure(...EXTENSION_REQUEST_ROLES)
+    .input(requestExtensionSchema)
+    .mutation(async ({ ctx, input }) => {
+      const { user } = ctx.session;
+
+      const cap = await ctx.db.correctiveActionPlan.findUnique({
+        where: { id: input.capId },
+        select: { finding: { select: { organizationId: true } } },
+      });
+
+      if (!cap) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "CAP not found",
+        });
+      }
+
+      if (user.role !== "SUPER_ADMIN" && user.organizationId !== cap.finding.organizationId) {
+        throw new TRPCError({
+          code: "FORBIDDEN",
+          message: "You can only request extensions for your organization's CAPs",
+        });
+      }
+
+      const [request] = await requestExtensions(
+        {
+          capIds: [input.capId],
+          proposedDate: input.proposedDate,
+          justification: input.justification,
+        },
+        user.id
+      );
+
+      await logCreate({
+        userId: user.id,
+        entityType: "CAPExtensionRequest",
+        entityId: request.id,
+        newState: {
+          capId: input.capId,
+          currentDueDate: request.currentDueDate,
+          proposedDate: request.proposedDate,
+        },
+      });
+
+      return request;
+    }),
+
+  /**
+   * Withdraw a pending request (requester's organization)
+   */
+  withdraw: protectedProcedure
+    .input(z.object({ id: z.string().cuid() }))
+    .mutation(async ({ ctx, input }) => {
+      const { user } = ctx.session;
+
+      const request = await ctx.db.cAPExtensionRequest.findUnique({
+        where: { id: input.id },
+        select: requestAccessSelect,
+      });
+
+      if (!request) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "Extension request not found",
+        });
+      }
+
+      if (
+        user.role !== "SUPER_ADMIN" &&
+        user.organizationId !== request.cap.finding.organizationId
+      ) {
+        throw new TRPCError({
+          code: "FORBIDDEN",
+          message: "Only the requesting organization can withdraw this request",
+        });
+      }
+
+      if (!isValidExtensionTransition(request.status, "WITHDRAWN")) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: "Only pending extension requests can be withdrawn",
+        });
+      }
+
+      const updated = await ctx.db.cAPExtensionRequest.update({
+        where: { id: input.id },
+        data: { status: "WITHDRAWN" },
+      });
+
+      await logStatusChange({
+        userId: user.id,
+        entityType: "CAPExtensionRequest",
+        entityId: input.id,
+        previousStatus: request.status,
+        newStatus: "WITHDRAWN",
+      });
+
+      return updated;
+    }),
+
+  /**
+   * Lead reviewer endorses the request for the coordinator, or rejects it
+   */
+  endorse: roleProcedure("SUPER_ADMIN", "LEAD_REVIEWER", "PEER_REVIEWER")
+    .input(endorseExtensionSchema)
+    .mutation(async ({ ctx, input }) => {
+      const { user } = ctx.session;
+
+      const request = await ctx.db.cAPExtensionRequest.findUnique({
+        where: { id: input.id },
+        select: requestAccessSelect,
+      });
+
+      if (!request) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "Extension request not found",
+        });
+      }
+
+      const isLead = request.cap.finding.review.teamMembers.some(
+        (tm) => tm.userId === user.id && tm.role === "LEAD_REVIEWER"
+      );
+      if (!isLead && user.role !== "SUPER_ADMIN") {
+        throw new TRPCError({
+          code: "FORBIDDEN",
+          message: "Only the lead reviewer of the review can endorse this request",
+        });
+      }
+
+      if (request.status !== "PENDING") {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: "Only pending extension requests can be endorsed",
+        });
+      }
+
+      if (!input.endorse) {
+        const result = await decideExtension(
+          { requestId: input.id, approve: false, comment: input.comment },
+          user.id
+        );
+        await logRejection({
+          userId: user.id,
+          entityType: "CAPExtensionRequest",
+          entityId: input.id,
+          metadata: { comment: input.comment },
+        });
+        return result.request;
+      }
+
+      const updated = await ctx.db.cAPExtensionRequest.update({
+        where: { id: input.id },
+        data: {
+          status: "ENDORSED",
+          endorsedById: user.id,
+          endorsedAt: new Date(),
+          endorsementComment: input.comment,
+        },
+      });
+
+      await logStatusChange({
+        userId: user.id,
+        entityType: "CAPExtensionRequest",
+        entityId: input.id,
+        previousStatus: "PENDING",
+        newStatus: "ENDORSED",
+      });
+
+      return updated;
+    }),
+
+  /**
+   * Programme coordinator approves or rejects the request. Approval needs
+   * the lead reviewer's endorsement when the review has a lead.
+   */
+  decide: roleProcedure(...EXTENSION_DECIDE_ROLES)
+    .input(decideExtensionSchema)
+    .mutation(async ({ ctx, input }) => {
+      const { user } = ctx.session;
+
+      const request = await ctx.db.cAPExtensionRequest.findUnique({
+        where: { id: input.id },
+        select: requestAccessSelect,
+      });
+
+      if (!request) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "Extension request not found",
+        });
+      }
+
+      const hasLead = request.cap.finding.review.teamMembers.some(
+        (tm) => tm.role === "LEAD_REVIEWER"
+      );
+      if (input.approve && request.status === "PENDING" && hasLead) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: "The lead reviewer must endorse this request before it can be approved",
+        });
+      }
+
+      const result = await decideExtension(
+        { requestId: input.id, approve: input.approve, comment: input.comment },
+        user.id
+      );
+
+      if (input.approve) {
+        await logApproval({
+          userId: user.id,
+          entityType: "CAPExtensionRequest",
+          entityId: input.id,
+          metadata: { comment: input.comment },
+        });
+        await logUpdate({
+          userId: user.id,
+          entityType: "CorrectiveActionPlan",
+          entityId: request.capId,
+          previousState: { dueDate: result.previousDueDate },
+          newState: { dueDate: request.proposedDate, extensionRequestId: input.id },
+        });
+      } else {
+        await logRejection({
+          userId: user.id,
+          entityType: "CAPExtensionRequest",
+          entityId: input.id,
+          metadata: { comment: input.comment },
+        });
+      }
+
+      return result.request;
+    }),
+});
@@ -8,6 +8,9 @@
  * DRAFT → SUBMITTED → UNDER_REVIEW → ACCEPTED → IN_PROGRESS → COMPLETED → VERIFIED → CLOSED
  *                                  ↘ REJECTED → DRAFT (revision cycle)
  *
+ * Closing a CAP schedules its effectiveness review (see cap-effectiveness
+ * router), which may re-open it as IN_PROGRESS.
+ *
  * NOTE: Overdue CAP notifications (notifyCAPOverdue) should be triggered by a
  * scheduled job (cron) rather than user actions. See src/server/jobs/ for
  * scheduled notification jobs.
@@ -20,7 +23,7 @@ import {
   protectedProcedure,
   roleProcedure,
 } from "../trpc";
-import { CAPStatus, UserRole } from "@prisma/client";
+import { CAPStatus, UserRole, type PrismaClient } from "@prisma/client";
 import {
   logCreate,
   logUpdate,
@@ -36,6 +39,9 @@ import {
   getRecipientsByRole,
   getProgrammeManagementRecipients,
 } from "@/server/services/notification-service";
+import { scheduleEffectivenessReview } from "@/server/services/cap-effectiveness";
+import { getCAPPortfolio } from "@/server/services/cap-deadline-service";
+import { requestExtensions } from "@/server/services/cap-extension";
 import { NotificationType, NotificationPriority } from "@prisma/client";
 
 // =============================================================================
@@ -171,6 +177,27 @@ const failVerificationSchema = z.object({
   verificationNotes: z.string().optional(),
 });
 
+const portfolioSchema = z.object({
+  /** Required for programme management; organization members see their own */
+  organizationId: z.string().cuid().optional(),
+  months: z.number().int().min(1).max(36).default(12),
+});
+
+const bulkCAPIdsSchema = z.array(z.string().cuid()).min(1).max(100);
+
+const bulkReassignSchema = z.object({
+  capIds: bulkCAPIdsSchema,
+  assignedToId: z.string().cuid(),
+});
+
+const bulkExtensionSchema = z.object({
+  capIds: bulkCAPIdsSchema,
+  proposedDate: z.coerce.date(),
+  justification: z
+    .string()
+    .min(10, "Justification must be at least 10 characters"),
+});
+
 // =============================================================================
 // STATUS TRANSITION RULES
 // =============================================================================
@@ -200,6 +227,50 @@ function isValidTransition(
   return VALID_STATUS_TRANSITIONS[currentStatus]?.includes(newStatus) ?? false;
 }
 
+/**
+ * Load the CAPs of a portfolio bulk action, checking they exist and belong
+ * to the user's organization (SUPER_ADMIN may act on any single organization)
+ */
+async function getBulkCAPs(
+  db: PrismaClient,
+  user: { role: UserRole; organizationId?: string | null },
+  capIds: string[]
+) {
+  const caps = await db.correctiveActionPlan.findMany({
+    where: { id: { in: capIds } },
+    select: {
+      id: true,
+      status: true,
+      dueDate: true,
+      assignedToId: true,
+      finding: {
+        select: { organizationId: true, reviewId: true, referenceNumber: true },
+      },
+    },
+  });
+
+  if (caps.length !== new Set(capIds).size) {
+    throw new TRPCError({
+      code: "NOT_FOUND",
+      message: "One or more CAPs not found",
+    });
+  }
+
+  const organizationIds = new Set(caps.map((cap) => cap.finding.organizationId));
+  const ownOrganization =
+    user.role === "SUPER_ADMIN" ||
+    (organizationIds.size === 1 && organizationIds.has(user.organizationId ?? ""));
+
+  if (organizationIds.size > 1 || !ownOrganization) {
+    throw new TRPCError({
+      code: "FORBIDDEN",
+      message: "Bulk actions are limited to CAPs of your organization",
+    });
+  }
+
+  return { caps, organizationId: caps[0].finding.organizationId };
+}
+
 // =============================================================================
 // ROUTER
 // =============================================================================
@@ -1248,10 +1319,14 @@ export const capRouter = router({
         });
       }
 
+      const closedAt = new Date();
+
       const updated = await ctx.db.correctiveActionPlan.update({
         where: { id: input.id },
         data: {
           status: "CLOSED",
+          closedAt,
+          closedById: user.id,
         },
       });
 
@@ -1260,10 +1335,15 @@ export const capRouter = router({
         where: { id: cap.findingId },
         data: {
           status: "CLOSED",
-          closedAt: new Date(),
+          closedAt,
         },
       });
 
+      // Schedule the follow-up check that the actions remain effective
+      await scheduleEffectivenessReview(input.id).catch((error) =>
+        console.error("[CAP Close] Failed to schedule effectiveness review:", error)
+      );
+
       // Log the closure
       await logStatusChange({
         userId: user.id,
@@ -1453,6 +1533,114 @@ export const capRouter = router({
       };
     }),
 
+  /**
+   * CAP portfolio of an organization: deadline and milestone progress of
+   * every CAP, open-findings burndown and assignable owners
+   */
+  getPortfolio: protectedProcedure
+    .input(portfolioSchema)
+    .query(async ({ ctx, input }) => {
+      const { user } = ctx.session;
+
+      const organizationId = CAP_VIEW_ALL_ROLES.includes(user.role)
+        ? input.organizationId
+        : user.organizationId;
+
+      if (!organizationId) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: "An organization is required to view a CAP portfolio",
+        });
+      }
+
+      const portfolio = await getCAPPortfolio(organizationId, input.months);
+
+      if (!portfolio) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "Organization not found",
+        });
+      }
+
+      return portfolio;
+    }),
+
+  /**
+   * Reassign the owner of several CAPs at once
+   */
+  bulkReassign: roleProcedure(...CAP_CREATE_ROLES)
+    .input(bulkReassignSchema)
+    .mutation(async ({ ctx, input }) => {
+      const { user } = ctx.session;
+      const { caps, organizationId } = await getBulkCAPs(ctx.db, user, input.capIds);
+
+      const assignee = await ctx.db.user.findUnique({
+        where: { id: input.assignedToId },
+        select: { id: true, isActive: true, organizationId: true },
+      });
+
+      if (!assignee || !assignee.isActive || assignee.organizationId !== organizationId) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: "CAPs can only be assigned to active members of the organization",
+        });
+      }
+
+      const toUpdate = caps.filter((cap) => cap.assignedToId !== input.assignedToId);
+
+      await ctx.db.correctiveActionPlan.updateMany({
+        where: { id: { in: toUpdate.map((cap) => cap.id) } },
+        data: { assignedToId: input.assignedToId },
+      });
+
+      for (const cap of toUpdate) {
+        await logUpdate({
+          userId: user.id,
+          entityType: "CorrectiveActionPlan",
+          entityId: cap.id,
+          previousState: { assignedToId: cap.assignedToId },
+          newState: { assignedToId: input.assignedToId },
+        });
+      }
+
+      return { count: toUpdate.length };
+    }),
+
+  /**
+   * Request an extension on several CAPs at once. One extension request is
+   * recorded per CAP and routed like a single request (see capExtension).
+   */
+  bulkRequestExtension: roleProcedure(...CAP_CREATE_ROLES)
+    .input(bulkExtensionSchema)
+    .mutation(async ({ ctx, input }) => {
+      const { user } = ctx.session;
+      const { caps } = await getBulkCAPs(ctx.db, user, input.capIds);
+
+      const requests = await requestExtensions(
+        {
+          capIds: caps.map((cap) => cap.id),
+          proposedDate: input.proposedDate,
+          justification: input.justification,
+        },
+        user.id
+      );
+
+      for (const request of requests) {
+        await logCreate({
+          userId: user.id,
+          entityType: "CAPExtensionRequest",
+          entityId: request.id,
+          newState: {
+            capId: request.capId,
+            currentDueDate: request.currentDueDate,
+            proposedDate: request.proposedDate,
+          },
+        });
+      }
+
+      return { count: requests.length };
+    }),
+
   /**
    * Get overdue CAPs
    */
@@ -0,0 +1,464 @@
+/**
+ * Document Annotation Router
+ *
+ * Highlights and comments that reviewers place on a review's PDF documents.
+ * Coordinates are page fractions (0–1, origin top-left) so they are
+ * independent of zoom. Every change is broadcast on the review channel so
+ * teammates see annotations appear live, and a highlight can be converted
+ * into a finding with its page reference prefilled as evidence.
+ */
+
+import { z } from "zod";
+import { TRPCError } from "@trpc/server";
+import { router, protectedProcedure } from "../trpc";
+import {
+  AnnotationType,
+  FindingSeverity,
+  FindingType,
+  ANSReviewArea,
+  type PrismaClient,
+  type UserRole,
+} from "@prisma/client";
+import { logCreate, logDelete } from "@/server/services/audit";
+import { generateFindingReference } from "@/server/services/finding-import";
+import { getPusherServer, CHANNELS, EVENTS } from "@/lib/pusher/server";
+import { formatPageReference, MAX_EXCERPT_LENGTH } from "@/lib/annotations/page-geometry";
+
+// ============================================================================
+// Role Definitions
+// ============================================================================
+
+/**
+ * Roles that can annotate any review's documents without being on the team
+ */
+const ANNOTATION_ADMIN_ROLES: UserRole[] = [
+  "SUPER_ADMIN",
+  "SYSTEM_ADMIN",
+  "STEERING_COMMITTEE",
+  "PROGRAMME_COORDINATOR",
+];
+
+// ============================================================================
+// Zod Schemas
+// ============================================================================
+
+const pageFraction = z.number().min(0).max(1);
+
+const listAnnotationsSchema = z.object({
+  documentId: z.string().cuid(),
+});
+
+const createAnnotationSchema = z.object({
+  documentId: z.string().cuid(),
+  pageNumber: z.number().int().min(1),
+  x: pageFraction,
+  y: pageFraction,
+  width: pageFraction.optional(),
+  height: pageFraction.optional(),
+  type: z.nativeEnum(AnnotationType),
+  content: z.string().max(2000).optional(),
+  color: z
+    .string()
+    .regex(/^#[0-9A-Fa-f]{6}$/, "Color must be a hex value")
+    .optional(),
+  sessionId: z.string().cuid().optional(),
+});
+
+const updateAnnotationSchema = z.object({
+  id: z.string().cuid(),
+  content: z.string().max(2000).optional().nullable(),
+  color: z
+    .string()
+    .regex(/^#[0-9A-Fa-f]{6}$/, "Color must be a hex value")
+    .optional(),
+  x: pageFraction.optional(),
+  y: pageFraction.optional(),
+  width: pageFraction.optional().nullable(),
+  height: pageFraction.optional().nullable(),
+});
+
+const convertToFindingSchema = z.object({
+  id: z.string().cuid(),
+  findingType: z.nativeEnum(FindingType).default("OBSERVATION"),
+  severity: z.nativeEnum(FindingSeverity).default("MINOR"),
+  titleEn: z.string().min(5, "Title must be at least 5 characters").max(200),
+  titleFr: z.string().min(5, "Title must be at least 5 characters").max(200).optional(),
+  descriptionEn: z
+    .string()
+    .min(20, "Description must be at least 20 characters"),
+  descriptionFr: z
+    .string()
+    .min(20, "Description must be at least 20 characters")
+    .optional(),
+  reviewArea: z.nativeEnum(ANSReviewArea).optional(),
+  /** Text under the highlight, extracted by the viewer */
+  excerpt: z.string().max(MAX_EXCERPT_LENGTH).optional(),
+});
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+const annotationInclude = {
+  createdBy: {
+    select: { id: true, firstName: true, lastName: true },
+  },
+  finding: {
+    select: { id: true, referenceNumber: true, status: true },
+  },
+} as const;
+
+/**
+ * Load a review document and check the user may annotate it.
+ * Annotations are reviewer working notes: only the review team and
+ * programme administrators can read or write them.
+ */
+async function getAnnotatableDocument(
+  db: PrismaClient,
+  user: { id: string; role: UserRole },
+  documentId: string
+) {
+  const document = await db.document.findUnique({
+    where: { id: documentId },
+    select: {
+      id: true,
+      name: true,
+      originalName: true,
+      isDeleted: true,
+      reviewId: true,
+      review: {
+        select: {
+          hostOrganizationId: true,
+          teamMembers: { where: { userId: user.id }, select: { id: true } },
+        },
+      },
+    },
+  });
+
+  if (!document || document.isDeleted) {
+    throw new TRPCError({
+      code: "NOT_FOUND",
+      message: "Document not found",
+    });
+  }
+
+  if (!document.reviewId || !document.review) {
+    throw new TRPCError({
+      code: "BAD_REQUEST",
+      message: "Only review documents can be annotated",
+    });
+  }
+
+  const isOnTeam = document.review.teamMembers.length > 0;
+  const isAdmin = ANNOTATION_ADMIN_ROLES.includes(user.role);
+
+  if (!isOnTeam && !isAdmin) {
+    throw new TRPCError({
+      code: "FORBIDDEN",
+      message: "You must be a member of the review team to annotate documents",
+    });
+  }
+
+  return {
+    id: document.id,
+    name: document.originalName || document.name,
+    reviewId: document.reviewId,
+    hostOrganizationId: document.review.hostOrganizationId,
+    isAdmin,
+  };
+}
+
+/**
+ * Load an annotation with its document, checking access to the document.
+ */
+async function getAccessibleAnnotation(
+  db: PrismaClient,
+  user: { id: string; role: UserRole },
+  annotationId: string
+) {
+  const annotation = await db.documentAnnotation.findUnique({
+    where: { id: annotationId },
+  });
+
+  if (!annotation) {
+    throw new TRPCError({
+      code: "NOT_FOUND",
+      message: "Annotation not found",
+    });
+  }
+
+  const document = await getAnnotatableDocument(db, user, annotation.documentId);
+  return { annotation, document };
+}
+
+/**
+ * Only the author, or an administrator, may change or remove an annotation.
+ */
+function assertCanModify(
+  annotation: { createdById: string },
+  user: { id: string },
+  isAdmin: boolean
+): void {
+  if (annotation.createdById !== user.id && !isAdmin) {
+    throw new TRPCError({
+      code: "FORBIDDEN",
+      message: "You can only modify your own annotations",
+    });
+  }
+}
+
+async function broadcast(
+  reviewId: string,
+  event: string,
+  payload: Record<string, unknown>
+): Promise<void> {
+  try {
+    const pusher = getPusherServer();
+    await pusher.trigger(CHANNELS.review(reviewId), event, {
+      ...payload,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (e) {
+    console.warn("[Pusher] Failed to broadcast annotation event:", e);
+  }
+}
+
+// ============================================================================
+// Router
+// ============================================================================
+
+export const documentAnnotationRouter = router({
+  /**
+   * List annotations on a document, in page order
+   */
+  list: protectedProcedure
+    .input(listAnnotationsSchema)
+    .query(async ({ ctx, input }) => {
+      await getAnnotatableDocument(ctx.db, ctx.user, input.documentId);
+
+      return ctx.db.documentAnnotation.findMany({
+        where: { documentId: input.documentId },
+        include: annotationInclude,
+        orderBy: [{ pageNumber: "asc" }, { y: "asc" }, { createdAt: "asc" }],
+      });
+    }),
+
+  /**
+   * Place a highlight or comment on a page
+   */
+  create: protectedProcedure
+    .input(createAnnotationSchema)
+    .mutation(async ({ ctx, input }) => {
+      const { user } = ctx;
+      const document = await getAnnotatableDocument(ctx.db, user, input.documentId);
+
+      if (input.type === "HIGHLIGHT" && (!input.width || !input.height)) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: "Highlights need a width and height",
+        });
+      }
+
+      const annotation = await ctx.db.documentAnnotation.create({
+        data: {
+          ...input,
+          createdById: user.id,
+        },
+        include: annotationInclude,
+      });
+
+      await broadcast(document.reviewId, EVENTS.ANNOTATION_CREATED, {
+        documentId: document.id,
+        annotation,
+        actor: { id: user.id, name: `${user.firstName} ${user.lastName}` },
+      });
+
+      return annotation;
+    }),
+
+  /**
+   * Edit the comment, colour or position of an annotation
+   */
+  update: protectedProcedure
+    .input(updateAnnotationSchema)
+    .mutation(async ({ ctx, input }) => {
+      const { user } = ctx;
+      const { id, ...data } = input;
+      const { annotation, document } = await getAccessibleAnnotation(ctx.db, user, id);
+
+      assertCanModify(annotation, user, document.isAdmin);
+
+      const updated = await ctx.db.documentAnnotation.update({
+        where: { id },
+        data,
+        include: annotationInclude,
+      });
+
+      await broadcast(document.reviewId, EVENTS.ANNOTATION_UPDATED, {
+        documentId: document.id,
+        annotation: updated,
+        actor: { id: user.id, name: `${user.firstName} ${user.lastName}` },
+      });
+
+      return updated;
+    }),
+
+  /**
+   * Remove an annotation. A finding created from it is kept.
+   */
+  delete: protectedProcedure
+    .input(z.object({ id: z.string().cuid() }))
+    .mutation(async ({ ctx, input }) => {
+      const { user } = ctx;
+      const { annotation, document } = await getAccessibleAnnotation(ctx.db, user, input.id);
+
+      assertCanModify(annotation, user, document.isAdmin);
+
+      await ctx.db.documentAnnotation.delete({ where: { id: input.id } });
+
+      logDelete({
+        userId: user.id,
+        entityType: "DocumentAnnotation",
+        entityId: annotation.id,
+        previousState: {
+          documentId: annotation.documentId,
+          pageNumber: annotation.pageNumber,
+          type: annotation.type,
+          content: annotation.content,
+        },
+      }).catch(() => {});
+
+      await broadcast(document.reviewId, EVENTS.ANNOTATION_DELETED, {
+        documentId: document.id,
+        annotationId: annotation.id,
+        actor: { id: user.id, name: `${user.firstName} ${user.lastName}` },
+      });
+
+      return { success: true };
+    }),
+
+  /**
+   * Turn a highlight into an open finding against the host organization.
+   * The document name, page and highlighted text become the evidence, and
+   * the document is linked to the finding as referenced evidence.
+   */
+  convertToFinding: protectedProcedure
+    .input(convertToFindingSchema)
+    .mutation(async ({ ctx, input }) => {
+      const { user } = ctx;
+      const { annotation, document } = await getAccessibleAnnotation(ctx.db, user, input.id);
+
+      if (annotation.type !== "HIGHLIGHT") {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: "Only highlights can be converted into findings",
+        });
+      }
+
+      if (annotation.findingId) {
+        throw new TRPCError({
+          code: "CONFLICT",
+          message: "This highlight has already been converted into a finding",
+        });
+      }
+
+      const page = {
+        documentName: document.name,
+        pageNumber: annotation.pageNumber,
+        excerpt: input.excerpt,
+      };
+      const evidenceEn = formatPageReference({ ...page, locale: "en" });
+      const evidenceFr = formatPageReference({ ...page, locale: "fr" });
+
+      const { finding, updated } = await ctx.db.$transaction(async (tx) => {
+        const referenceNumber = await generateFindingReference(
+          tx,
+          document.hostOrganizationId,
+          document.reviewId
+        );
+
+        const finding = await tx.finding.create({
+          data: {
+            reviewId: document.reviewId,
+            organizationId: document.hostOrganizationId,
+            referenceNumber,
+            findingType: input.findingType,
+            severity: input.severity,
+            titleEn: input.titleEn,
+            titleFr: input.titleFr ?? input.titleEn,
+            descriptionEn: input.descriptionEn,
+            descriptionFr: input.descriptionFr ?? input.descriptionEn,
+            evidenceEn,
+            evidenceFr,
+            reviewArea: input.reviewArea,
+            status: "OPEN",
+            identifiedAt: new Date(),
+            capRequired: input.severity !== "OBSERVATION",
+          },
+        });
+
+        await tx.evidenceLink.create({
+          data: {
+            documentId: document.id,
+            entityType: "FINDING",
+            entityId: finding.id,
+            linkType: "REFERENCES",
+            notesEn: evidenceEn,
+            notesFr: evidenceFr,
+            createdById: user.id,
+          },
+        });
+
+        // Claim the highlight: a concurrent conversion rolls back its finding
+        const claimed = await tx.documentAnnotation.updateMany({
+          where: { id: annotation.id, findingId: null },
+          data: { findingId: finding.id },
+        });
+        if (claimed.count === 0) {
+          throw new TRPCError({
+            code: "CONFLICT",
+            message: "This highlight has already been converted into a finding",
+          });
+        }
+
+        const updated = await tx.documentAnnotation.findUniqueOrThrow({
+          where: { id: annotation.id },
+          include: annotationInclude,
+        });
+
+        return { finding, updated };
+      });
+
+      logCreate({
+        userId: user.id,
+        entityType: "Finding",
+        entityId: finding.id,
+        newState: {
+          referenceNumber: finding.referenceNumber,
+          findingType: finding.findingType,
+          severity: finding.severity,
+        },
+        metadata: { source: "annotation", annotationId: annotation.id, documentId: document.id },
+      }).catch(() => {});
+
+      const actor = { id: user.id, name: `${user.firstName} ${user.lastName}` };
+
+      await broadcast(document.reviewId, EVENTS.FINDING_CREATED, {
+        finding: {
+          id: finding.id,
+          referenceNumber: finding.referenceNumber,
+          titleEn: finding.titleEn,
+          severity: finding.severity,
+          status: finding.status,
+        },
+        createdBy: actor,
+      });
+      await broadcast(document.reviewId, EVENTS.ANNOTATION_UPDATED, {
+        documentId: document.id,
+        annotation: updated,
+        actor,
+      });
+
+      return { finding, annotation: updated };
+    }),
+});
@@ -30,9 +30,12 @@ const syncChecklistItemSchema = z.object({
   completedAt: z.coerce.date().optional().nullable(),
   notes: z.string().optional(),
   clientUpdatedAt: z.coerce.date(),
+  /** Server updatedAt the offline copy is based on */
+  baseUpdatedAt: z.coerce.date().optional().nullable(),
 });
 
 const uploadEvidenceSchema = z.object({
+  clientId: z.string(),
   checklistItemId: z.string(),
   reviewId: z.string(),
   type: z.string(),
@@ -47,6 +50,19 @@ const uploadEvidenceSchema = z.object({
   base64Data: z.string(),
 });
 
+const updateEvidenceSchema = z.object({
+  clientId: z.string(),
+  reviewId: z.string(),
+  caption: z.string(),
+  baseUpdatedAt: z.coerce.date().optional().nullable(),
+});
+
+const deleteEvidenceSchema = z.object({
+  clientId: z.string(),
+  reviewId: z.string(),
+  baseUpdatedAt: z.coerce.date().optional().nullable(),
+});
+
 const syncDraftFindingSchema = z.object({
   clientId: z.string(),
   reviewId: z.string(),
@@ -58,6 +74,13 @@ const syncDraftFindingSchema = z.object({
   evidenceDocumentIds: z.array(z.string()).optional(),
   gpsLatitude: z.number().optional().nullable(),
   gpsLongitude: z.number().optional().nullable(),
+  baseUpdatedAt: z.coerce.date().optional().nullable(),
+});
+
+const getServerVersionSchema = z.object({
+  entityType: z.enum(["checklistItem", "fieldEvidence", "draftFinding"]),
+  entityId: z.string(),
+  reviewId: z.string(),
 });
 
 const getReviewOfflineDataSchema = z.object({
@@ -89,6 +112,44 @@ async function verifyTeamMembership(
   }
 }
 
+/**
+ * Reject a write whose offline copy is older than the server record.
+ * Surfaces as HTTP 409 so the client SyncEngine marks the entity as a conflict.
+ */
+function assertNotStale(
+  serverUpdatedAt: Date,
+  baseUpdatedAt: Date | null | undefined,
+  entity: string
+): void {
+  if (baseUpdatedAt && serverUpdatedAt.getTime() > baseUpdatedAt.getTime()) {
+    throw new TRPCError({
+      code: "CONFLICT",
+      message: `${entity} was changed on the server after your offline copy`,
+    });
+  }
+}
+
+/** Idempotency key stored on a Finding created from an offline draft. */
+function draftFindingKey(clientId: string): string {
+  return `OFFLINE:${clientId}`;
+}
+
+/** Tag linking an uploaded Document to the offline evidence it came from. */
+function evidenceTag(clientId: string): string {
+  return `offline:${clientId}`;
+}
+
+async function findEvidenceDocument(
+  db: PrismaClient,
+  reviewId: string,
+  clientId: string
+) {
+  return db.document.findFirst({
+    where: { reviewId, tags: { has: evidenceTag(clientId) } },
+    select: { id: true, description: true, isDeleted: true, updatedAt: true },
+  });
+}
+
 /**
  * Generate a unique finding reference number.
  * Format: FND-{ORG_CODE}-{YEAR}-{SEQUENCE}
@@ -131,25 +192,20 @@ export const fieldworkSyncRouter = router({
         where: { id: input.itemId },
       });
 
-      if (!item) {
+      if (!item || item.reviewId !== input.reviewId) {
         throw new TRPCError({
           code: "NOT_FOUND",
           message: "Checklist item not found",
         });
       }
 
-      // Conflict detection: server wins if its data is newer
-      if (item.updatedAt > input.clientUpdatedAt) {
-        return {
-          status: "conflict" as const,
-          serverData: {
-            id: item.id,
-            isCompleted: item.isCompleted,
-            completedAt: item.completedAt,
-            updatedAt: item.updatedAt,
-          },
-        };
-      }
+      // Precondition: clients that never saw a server copy fall back to their
+      // own edit time
+      assertNotStale(
+        item.updatedAt,
+        input.baseUpdatedAt ?? input.clientUpdatedAt,
+        "Checklist item"
+      );
 
       const updated = await ctx.db.fieldworkChecklistItem.update({
         where: { id: input.itemId },
@@ -187,6 +243,16 @@ export const fieldworkSyncRouter = router({
         });
       }
 
+      // Idempotency: a retried upload returns the existing document
+      const existing = await findEvidenceDocument(ctx.db, input.reviewId, input.clientId);
+      if (existing) {
+        return {
+          status: "already_synced" as const,
+          documentId: existing.id,
+          updatedAt: existing.updatedAt,
+        };
+      }
+
       // Decode base64
       const buffer = Buffer.from(input.base64Data, "base64");
       if (buffer.length > MAX_BASE64_SIZE) {
@@ -224,6 +290,7 @@ export const fieldworkSyncRouter = router({
           category: DocumentCategory.EVIDENCE,
           tags: [
             "fieldwork",
+            evidenceTag(input.clientId),
             input.type.toLowerCase(),
             ...(input.gpsLatitude != null
               ? [`geo:${input.gpsLatitude},${input.gpsLongitude}`]
@@ -239,11 +306,69 @@ export const fieldworkSyncRouter = router({
         status: "synced" as const,
         documentId: document.id,
         url: uploadResult.url,
+        updatedAt: document.updatedAt,
       };
     }),
 
   // ---------------------------------------------------------------------------
-  // syncDraftFinding — create Finding with idempotency
+  // updateEvidence — caption edits with conflict detection
+  // ---------------------------------------------------------------------------
+
+  updateEvidence: protectedProcedure
+    .input(updateEvidenceSchema)
+    .mutation(async ({ ctx, input }) => {
+      await verifyTeamMembership(ctx.db, ctx.session.user.id, input.reviewId);
+
+      const existing = await findEvidenceDocument(ctx.db, input.reviewId, input.clientId);
+      if (!existing || existing.isDeleted) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "Evidence not found",
+        });
+      }
+
+      assertNotStale(existing.updatedAt, input.baseUpdatedAt, "Evidence");
+
+      const document = await ctx.db.document.update({
+        where: { id: existing.id },
+        data: { description: input.caption || null },
+      });
+
+      return {
+        status: "synced" as const,
+        documentId: document.id,
+        updatedAt: document.updatedAt,
+      };
+    }),
+
+  // ---------------------------------------------------------------------------
+  // deleteEvidence — soft delete with conflict detection
+  // ---------------------------------------------------------------------------
+
+  deleteEvidence: protectedProcedure
+    .input(deleteEvidenceSchema)
+    .mutation(async ({ ctx, input }) => {
+      await verifyTeamMembership(ctx.db, ctx.session.user.id, input.reviewId);
+
+      const existing = await findEvidenceDocument(ctx.db, input.reviewId, input.clientId);
+
+      // Never uploaded, or already gone — nothing to do
+      if (!existing || existing.isDeleted) {
+        return { status: "synced" as const, documentId: existing?.id ?? null };
+      }
+
+      assertNotStale(existing.updatedAt, input.baseUpdatedAt, "Evidence");
+
+      await ctx.db.document.update({
+        where: { id: existing.id },
+        data: { isDeleted: true, deletedAt: new Date() },
+      });
+
+      return { status: "synced" as const, documentId: existing.id };
+    }),
+
+  // ---------------------------------------------------------------------------
+  // syncDraftFinding — create or update Finding with idempotency
   // ---------------------------------------------------------------------------
 
   syncDraftFinding: protectedProcedure
@@ -253,20 +378,77 @@ export const fieldworkSyncRouter = router({
 
       // Idempotency check: look for existing finding with this clientId
       // stored in icaoReference as "OFFLINE:{clientId}"
-      const idempotencyKey = `OFFLINE:${input.clientId}`;
+      const idempotencyKey = draftFindingKey(input.clientId);
       const existing = await ctx.db.finding.findFirst({
         where: {
           reviewId: input.reviewId,
           icaoReference: idempotencyKey,
         },
-        select: { id: true, referenceNumber: true },
+        select: {
+          id: true,
+          referenceNumber: true,
+          titleEn: true,
+          titleFr: true,
+          descriptionEn: true,
+          descriptionFr: true,
+          severity: true,
+          updatedAt: true,
+        },
       });
 
       if (existing) {
+        const unchanged =
+          existing.titleEn === input.title &&
+          existing.descriptionEn === input.description &&
+          existing.severity === input.severity;
+
+        // A replayed create, or an edit from a client that never saw the
+        // server copy: only safe when nothing differs
+        if (!input.baseUpdatedAt) {
+          if (!unchanged) {
+            throw new TRPCError({
+              code: "CONFLICT",
+              message: "Finding was changed on the server after your offline copy",
+            });
+          }
+          return {
+            status: "already_synced" as const,
+            findingId: existing.id,
+            referenceNumber: existing.referenceNumber,
+            updatedAt: existing.updatedAt,
+          };
+        }
+
+        assertNotStale(existing.updatedAt, input.baseUpdatedAt, "Finding");
+
+        // French text still mirroring the English draft follows the edit;
+        // a translation made on the server is kept
+        const updated = await ctx.db.finding.update({
+          where: { id: existing.id },
+          data: {
+            titleEn: input.title,
+            descriptionEn: input.description,
+            ...(existing.titleFr === existing.titleEn ? { titleFr: input.title } : {}),
+            ...(existing.descriptionFr === existing.descriptionEn
+              ? { descriptionFr: input.description }
+              : {}),
+            severity: input.severity,
+            capRequired: input.severity !== "OBSERVATION",
+            ...(input.evidenceDocumentIds?.length
+              ? {
+                  documents: {
+                    connect: input.evidenceDocumentIds.map((id) => ({ id })),
+                  },
+                }
+              : {}),
+          },
+        });
+
         return {
-          status: "already_synced" as const,
-          findingId: existing.id,
-          referenceNumber: existing.referenceNumber,
+          status: "synced" as const,
+          findingId: updated.id,
+          referenceNumber: updated.referenceNumber,
+          updatedAt: updated.updatedAt,
         };
       }
 
@@ -328,9 +510,68 @@ export const fieldworkSyncRouter = router({
         status: "synced" as const,
         findingId: finding.id,
         referenceNumber: finding.referenceNumber,
+        updatedAt: finding.updatedAt,
       };
     }),
 
+  // ---------------------------------------------------------------------------
+  // getServerVersion — current server copy of a conflicted offline entity
+  // ---------------------------------------------------------------------------
+
+  getServerVersion: protectedProcedure
+    .input(getServerVersionSchema)
+    .query(async ({ ctx, input }) => {
+      await verifyTeamMembership(ctx.db, ctx.session.user.id, input.reviewId);
+
+      const missing = { exists: false, updatedAt: null, fields: {} };
+
+      // Fields are keyed by the offline record's field names
+      switch (input.entityType) {
+        case "checklistItem": {
+          const item = await ctx.db.fieldworkChecklistItem.findUnique({
+            where: { id: input.entityId },
+            select: { reviewId: true, isCompleted: true, updatedAt: true },
+          });
+          if (!item || item.reviewId !== input.reviewId) return missing;
+          return {
+            exists: true,
+            updatedAt: item.updatedAt,
+            fields: { isCompleted: item.isCompleted },
+          };
+        }
+
+        case "draftFinding": {
+          const finding = await ctx.db.finding.findFirst({
+            where: {
+              reviewId: input.reviewId,
+              icaoReference: draftFindingKey(input.entityId),
+            },
+            select: { titleEn: true, descriptionEn: true, severity: true, updatedAt: true },
+          });
+          if (!finding) return missing;
+          return {
+            exists: true,
+            updatedAt: finding.updatedAt,
+            fields: {
+              title: finding.titleEn,
+              description: finding.descriptionEn,
+              severity: finding.severity,
+            },
+          };
+        }
+
+        case "fieldEvidence": {
+          const document = await findEvidenceDocument(ctx.db, input.reviewId, input.entityId);
+          if (!document || document.isDeleted) return missing;
+          return {
+            exists: true,
+            updatedAt: document.updatedAt,
+            fields: { annotations: document.description ?? "" },
+          };
+        }
+      }
+    }),
+
   // ---------------------------------------------------------------------------
   // getReviewOfflineData — prefetch for offline caching
   // ---------------------------------------------------------------------------
@@ -24,6 +24,21 @@ import {
 } from "@/server/services/notification-service";
 import { logCreate, logUpdate, logDelete, logStatusChange, logAssignment } from "@/server/services/audit";
 import { getPusherServer, CHANNELS, EVENTS } from "@/lib/pusher/server";
+import { queueFindingTranslations } from "@/server/services/translation-review";
+import { calculateSeveritySuggestion } from "@/server/services/severity-calculator";
+import {
+  findRecurrenceCandidates,
+  getFindingRecurrences,
+  detectRecurrences,
+  reviewRecurrence,
+  saveRecurrenceProposals,
+} from "@/server/services/finding-recurrence";
+import {
+  generateFindingReference,
+  importFindings,
+  previewFindingImport,
+} from "@/server/services/finding-import";
+import { MAX_IMPORT_ROWS } from "@/lib/finding/import-parser";
 
 // ============================================================================
 // Role Definitions
@@ -139,6 +154,32 @@ const updateStatusSchema = z.object({
   notes: z.string().optional(),
 });
 
+const importCell = z.string().max(10000).optional();
+
+const importFindingsSchema = z.object({
+  reviewId: z.string().cuid(),
+  rows: z
+    .array(
+      z.object({
+        row: z.number().int().positive(),
+        titleEn: importCell,
+        titleFr: importCell,
+        descriptionEn: importCell,
+        descriptionFr: importCell,
+        evidenceEn: importCell,
+        evidenceFr: importCell,
+        reviewArea: importCell,
+        criticalElement: importCell,
+        pqNumber: importCell,
+        severity: importCell,
+        findingType: importCell,
+        icaoReference: importCell,
+      })
+    )
+    .min(1)
+    .max(MAX_IMPORT_ROWS),
+});
+
 // ============================================================================
 // Status Transition Validation
 // ============================================================================
@@ -170,29 +211,75 @@ function isValidStatusTransition(
 // ============================================================================
 
 /**
- * Generate reference number for a finding
- * Format: FND-{ORG_CODE}-{YEAR}-{SEQUENCE}
+ * Review a user may add findings to: review team members, or programme
+ * management
  */
-async function generateReferenceNumber(
+async function getReviewForFindingEntry(
   db: PrismaClient,
-  organizationId: string,
-  reviewId: string
-): Promise<string> {
-  const [org, count] = await Promise.all([
-    db.organization.findUnique({
-      where: { id: organizationId },
-      select: { organizationCode: true },
-    }),
-    db.finding.count({
-      where: { reviewId },
-    }),
-  ]);
+  reviewId: string,
+  user: { id: string; role: UserRole }
+) {
+  const review = await db.review.findUnique({
+    where: { id: reviewId },
+    select: {
+      id: true,
+      hostOrganizationId: true,
+      areasInScope: true,
+      teamMembers: { where: { userId: user.id }, select: { id: true } },
+    },
+  });
+
+  if (!review) {
+    throw new TRPCError({
+      code: "NOT_FOUND",
+      message: "Review not found",
+    });
+  }
 
-  const orgCode = org?.organizationCode || "UNK";
-  const year = new Date().getFullYear();
-  const sequence = String(count + 1).padStart(3, "0");
+  if (review.teamMembers.length === 0 && !FINDING_VIEW_ALL_ROLES.includes(user.role)) {
+    throw new TRPCError({
+      code: "FORBIDDEN",
+      message: "You must be a member of the review team to create findings",
+    });
+  }
 
-  return `FND-${orgCode}-${year}-${sequence}`;
+  return review;
+}
+
+/**
+ * Ensure a user may edit a finding: review team members, or programme
+ * management (same rule as finding.update)
+ */
+async function assertCanEditFinding(
+  db: PrismaClient,
+  findingId: string,
+  user: { id: string; role: UserRole }
+) {
+  const finding = await db.finding.findUnique({
+    where: { id: findingId },
+    select: {
+      review: {
+        select: { teamMembers: { where: { userId: user.id }, select: { id: true } } },
+      },
+    },
+  });
+
+  if (!finding) {
+    throw new TRPCError({
+      code: "NOT_FOUND",
+      message: "Finding not found",
+    });
+  }
+
+  const isAdmin = FINDING_VIEW_ALL_ROLES.includes(user.role);
+  const isOnTeam = finding.review.teamMembers.length > 0;
+
+  if (!isAdmin && !isOnTeam) {
+    throw new TRPCError({
+      code: "FORBIDDEN",
+      message: "You do not have permission to update this finding",
+    });
+  }
 }
 
 /**
@@ -269,18 +356,58 @@ export const findingRouter = router({
       }
 
       // Generate unique reference number
-      const referenceNumber = await generateReferenceNumber(
+      const referenceNumber = await generateFindingReference(
         ctx.db,
         input.organizationId,
         input.reviewId
       );
 
+      // Record the suggested severity and the rule set version behind it
+      const question = input.questionId
+        ? await ctx.db.question.findUnique({
+            where: { id: input.questionId },
+            select: { auditArea: true, criticalElement: true, isPriorityPQ: true },
+          })
+        : null;
+
+      // Earlier occurrences of the same deficiency in this organization
+      const recurrences = await findRecurrenceCandidates({
+        organizationId: input.organizationId,
+        reviewId: input.reviewId,
+        questionId: input.questionId,
+        criticalElement: input.criticalElement ?? question?.criticalElement,
+        reviewArea: input.reviewArea,
+        titleEn: input.titleEn,
+        descriptionEn: input.descriptionEn,
+      });
+
+      const suggestion = await calculateSeveritySuggestion({
+        titleEn: input.titleEn,
+        titleFr: input.titleFr,
+        descriptionEn: input.descriptionEn,
+        descriptionFr: input.descriptionFr,
+        findingType: input.findingType,
+        icaoReference: input.icaoReference,
+        criticalElement: input.criticalElement ?? question?.criticalElement,
+        auditArea: question?.auditArea,
+        reviewArea: input.reviewArea,
+        isPriorityPQ: question?.isPriorityPQ ?? false,
+        organizationId: input.organizationId,
+        reviewId: input.reviewId,
+        questionId: input.questionId,
+        // A new finding has no confirmed repeat links yet
+        priorOccurrences: 0,
+        possibleRepeats: recurrences.length,
+      });
+
       const finding = await ctx.db.finding.create({
         data: {
           ...input,
           referenceNumber,
           status: "OPEN",
           identifiedAt: new Date(),
+          suggestedSeverity: suggestion.suggested,
+          severityRuleSetId: suggestion.ruleSetId,
         },
         include: {
           review: {
@@ -330,6 +457,16 @@ export const findingRouter = router({
         newState: { referenceNumber: finding.referenceNumber, findingType: finding.findingType, severity: finding.severity },
       }).catch(() => {});
 
+      // Propose repeat-finding links for a reviewer to confirm
+      saveRecurrenceProposals(finding.id, recurrences).catch((error) =>
+        console.error("[Finding] Failed to save repeat finding proposals:", error)
+      );
+
+      // Queue machine-translated French text for coordinator review
+      queueFindingTranslations(finding).catch((error) =>
+        console.error("[Finding] Failed to queue translation review:", error)
+      );
+
       // Send notification to host organization
       try {
         await notifyFindingCreated({
@@ -557,6 +694,9 @@ export const findingRouter = router({
                 lastName: true,
               },
             },
+            _count: {
+              select: { recurrences: { where: { status: "PROPOSED" } } },
+            },
           },
           orderBy: { [sortBy]: sortOrder },
           skip: (page - 1) * pageSize,
@@ -672,6 +812,12 @@ export const findingRouter = router({
         newState: { updatedFields: Object.keys(input).filter((k) => k !== "id") },
       }).catch(() => {});
 
+      if (input.titleEn || input.titleFr || input.descriptionEn || input.descriptionFr) {
+        queueFindingTranslations(updated).catch((error) =>
+          console.error("[Finding] Failed to queue translation review:", error)
+        );
+      }
+
       // Broadcast via Pusher
       try {
         const pusher = getPusherServer();
@@ -1197,6 +1343,140 @@ export const findingRouter = router({
       };
     }),
 
+  /**
+   * Earlier occurrences of a finding in previous reviews, and later
+   * findings confirmed as repeats of it
+   */
+  getRecurrences: protectedProcedure
+    .input(z.object({ findingId: z.string().cuid() }))
+    .query(async ({ ctx, input }) => {
+      const { user } = ctx.session;
+
+      const finding = await ctx.db.finding.findUnique({
+        where: { id: input.findingId },
+        select: {
+          organizationId: true,
+          review: { select: { teamMembers: { select: { userId: true } } } },
+        },
+      });
+
+      if (!finding) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "Finding not found",
+        });
+      }
+
+      const isAdmin = FINDING_VIEW_ALL_ROLES.includes(user.role);
+      const isOrgMember = user.organizationId === finding.organizationId;
+      const isOnTeam = finding.review.teamMembers.some((m) => m.userId === user.id);
+
+      if (!isAdmin && !isOrgMember && !isOnTeam) {
+        throw new TRPCError({
+          code: "FORBIDDEN",
+          message: "You do not have permission to view this finding",
+        });
+      }
+
+      return getFindingRecurrences(input.findingId);
+    }),
+
+  /**
+   * Re-run repeat-finding detection, e.g. after the finding was edited
+   */
+  detectRecurrences: roleProcedure(...FINDING_EDIT_ROLES)
+    .input(z.object({ findingId: z.string().cuid() }))
+    .mutation(async ({ ctx, input }) => {
+      await assertCanEditFinding(ctx.db, input.findingId, ctx.session.user);
+
+      const proposed = await detectRecurrences(input.findingId);
+      return { proposed };
+    }),
+
+  /**
+   * Confirm or dismiss a proposed repeat-finding link
+   */
+  reviewRecurrence: roleProcedure(...FINDING_EDIT_ROLES)
+    .input(
+      z.object({
+        id: z.string().cuid(),
+        status: z.enum(["CONFIRMED", "DISMISSED"]),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      const existing = await ctx.db.findingRecurrence.findUnique({
+        where: { id: input.id },
+        select: { findingId: true },
+      });
+      if (!existing) {
+        throw new TRPCError({ code: "NOT_FOUND", message: "Repeat finding link not found" });
+      }
+      await assertCanEditFinding(ctx.db, existing.findingId, ctx.session.user);
+
+      const link = await reviewRecurrence(input.id, input.status, ctx.user.id);
+
+      logUpdate({
+        userId: ctx.user.id,
+        entityType: "Finding",
+        entityId: link.findingId,
+        newState: { repeatOf: link.priorFindingId, recurrenceStatus: link.status },
+      }).catch(() => {});
+
+      return link;
+    }),
+
+  /**
+   * Validate spreadsheet rows for a bulk import without creating anything
+   */
+  previewImport: roleProcedure(...FINDING_EDIT_ROLES)
+    .input(importFindingsSchema)
+    .mutation(async ({ ctx, input }) => {
+      const review = await getReviewForFindingEntry(ctx.db, input.reviewId, ctx.session.user);
+      return previewFindingImport(review, input.rows);
+    }),
+
+  /**
+   * Create all findings of a spreadsheet import in one transaction
+   */
+  bulkImport: roleProcedure(...FINDING_EDIT_ROLES)
+    .input(importFindingsSchema)
+    .mutation(async ({ ctx, input }) => {
+      const { user } = ctx.session;
+      const review = await getReviewForFindingEntry(ctx.db, input.reviewId, user);
+
+      const findings = await importFindings(review, input.rows);
+
+      for (const finding of findings) {
+        logCreate({
+          userId: user.id,
+          entityType: "Finding",
+          entityId: finding.id,
+          newState: {
+            referenceNumber: finding.referenceNumber,
+            findingType: finding.findingType,
+            severity: finding.severity,
+            source: "IMPORT",
+          },
+        }).catch(() => {});
+      }
+
+      // Repeat-finding proposals and translation review are not needed to
+      // finish the import
+      (async () => {
+        for (const finding of findings) {
+          await detectRecurrences(finding.id);
+          await queueFindingTranslations(finding);
+        }
+      })().catch((error) =>
+        console.error("[Finding Import] Post-import processing failed:", error)
+      );
+
+      return {
+        created: findings.length,
+        findings: findings.map(({ id, referenceNumber }) => ({ id, referenceNumber })),
+      };
+    }),
+
   /**
    * Delete a finding (admin only)
    */
@@ -1,7 +1,9 @@
 /**
  * JoinRequest Router - Programme Participation Application API
  *
- * Handles the admin lifecycle of join requests:
+ * Handles the full lifecycle of join requests:
+ * - Public submission by prospective ANSPs (rate-limited, spam-protected)
+ * - Applicant status page and information responses via signed token
  * - Coordinator review and recommendation
  * - Steering Committee decision
  * - Organization status updates
@@ -12,11 +14,13 @@ import { TRPCError } from "@trpc/server";
 import {
   router,
   protectedProcedure,
+  publicProcedure,
 } from "@/server/trpc/trpc";
 import { prisma } from "@/lib/db";
 import { JoinRequestStatus, ParticipationStatus, UserRole } from "@prisma/client";
 import { createUserFromJoinRequest } from "@/lib/services/user-service";
 import {
+  sendApplicationReceivedEmail,
   sendForwardedToSCEmail,
   sendApprovalEmail,
   sendRejectionEmail,
@@ -24,6 +28,19 @@ import {
   sendCredentialsEmail,
 } from "@/lib/email";
 import { logUpdate, logApproval, logRejection } from "@/server/services/audit";
+import {
+  buildJoinRequestStatusUrl,
+  createJoinFormToken,
+  createJoinRequestStatusToken,
+  isAutomatedSubmission,
+  verifyJoinRequestStatusToken,
+} from "@/server/services/join-request-token";
+import { checkRateLimit, getClientIp } from "@/lib/rate-limit";
+import {
+  joinApplicationSchema,
+  joinRequestStatusTokenSchema,
+  joinRequestInfoResponseSchema,
+} from "@/lib/validations/join-request";
 
 // =============================================================================
 // INPUT SCHEMAS
@@ -51,6 +68,51 @@ const listSchema = z.object({
   cursor: z.string().optional(),
 });
 
+// =============================================================================
+// PUBLIC ACCESS LIMITS
+// =============================================================================
+
+/** Application submissions per IP per hour */
+const SUBMIT_RATE_LIMIT = { limit: 3, windowMs: 60 * 60 * 1000 };
+
+/** Status page lookups and responses per IP per 15 minutes */
+const STATUS_RATE_LIMIT = { limit: 30, windowMs: 15 * 60 * 1000 };
+
+/** Statuses in which an application is still open */
+const OPEN_STATUSES: JoinRequestStatus[] = [
+  JoinRequestStatus.PENDING,
+  JoinRequestStatus.COORDINATOR_REVIEW,
+  JoinRequestStatus.SC_REVIEW,
+  JoinRequestStatus.MORE_INFO,
+];
+
+function enforceRateLimit(
+  scope: string,
+  headers: Headers,
+  options: { limit: number; windowMs: number }
+) {
+  const result = checkRateLimit(`${scope}:${getClientIp(headers)}`, options);
+  if (!result.allowed) {
+    throw new TRPCError({
+      code: "TOO_MANY_REQUESTS",
+      message: `Too many requests. Please try again in ${Math.ceil(
+        result.retryAfterMs / 60000
+      )} minute(s).`,
+    });
+  }
+}
+
+function resolveStatusToken(token: string): string {
+  const joinRequestId = verifyJoinRequestStatusToken(token);
+  if (!joinRequestId) {
+    throw new TRPCError({
+      code: "UNAUTHORIZED",
+      message: "This status link is invalid or has expired",
+    });
+  }
+  return joinRequestId;
+}
+
 // =============================================================================
 // ROLE DEFINITIONS
 // =============================================================================
@@ -73,6 +135,202 @@ const scRoles: UserRole[] = [
 // =============================================================================
 
 export const joinRequestRouter = router({
+  /**
+   * Issue a signed token recording when the application form was opened
+   * (Public - used by the submit spam check)
+   */
+  getFormToken: publicProcedure.query(({ ctx }) => {
+    enforceRateLimit("join-request:form", ctx.headers, STATUS_RATE_LIMIT);
+    return { formToken: createJoinFormToken() };
+  }),
+
+  /**
+   * Submit a programme application (Public - no account required)
+   */
+  submit: publicProcedure
+    .input(joinApplicationSchema)
+    .mutation(async ({ ctx, input }) => {
+      enforceRateLimit("join-request:submit", ctx.headers, SUBMIT_RATE_LIMIT);
+
+      // Honeypot filled, missing/forged form token or form completed
+      // implausibly fast - reject quietly
+      if (isAutomatedSubmission(input)) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: "Your submission could not be processed. Please try again.",
+        });
+      }
+
+      const existing = await prisma.joinRequest.findFirst({
+        where: {
+          status: { in: OPEN_STATUSES },
+          OR: [
+            { contactEmail: input.contactEmail },
+            {
+              organizationName: {
+                equals: input.organizationName,
+                mode: "insensitive",
+              },
+            },
+          ],
+        },
+        select: { id: true },
+      });
+
+      if (existing) {
+        throw new TRPCError({
+          code: "CONFLICT",
+          message: "Your organization already has a pending application",
+        });
+      }
+
+      if (input.organizationCode) {
+        const activeOrg = await prisma.organization.findFirst({
+          where: {
+            organizationCode: input.organizationCode,
+            participationStatus: ParticipationStatus.ACTIVE,
+          },
+          select: { id: true },
+        });
+        if (activeOrg) {
+          throw new TRPCError({
+            code: "CONFLICT",
+            message: "Your organization is already an active participant",
+          });
+        }
+      }
+
+      const created = await prisma.joinRequest.create({
+        data: {
+          organizationName: input.organizationName,
+          organizationCountry: input.organizationCountry,
+          organizationCode: input.organizationCode || null,
+          contactName: input.contactName,
+          contactEmail: input.contactEmail,
+          contactPhone: input.contactPhone || null,
+          contactJobTitle: input.contactJobTitle,
+          currentSmsMaturity: input.currentSmsMaturity,
+          commitmentLetterUrl: input.commitmentLetterUrl,
+          motivationStatement: input.motivationStatement,
+          preferredTeam: input.preferredTeam,
+          preferredLanguage: input.preferredLanguage,
+          proposedReviewerCount: input.proposedReviewerCount,
+          additionalNotes: input.additionalNotes || null,
+        },
+      });
+
+      const referenceId = created.id.slice(-8).toUpperCase();
+      const locale = input.preferredLanguage === "fr" ? "fr" : "en";
+
+      await sendApplicationReceivedEmail({
+        applicantEmail: created.contactEmail,
+        applicantName: created.contactName,
+        organizationName: input.organizationName,
+        referenceId,
+        statusUrl: buildJoinRequestStatusUrl(created.id, locale),
+      });
+
+      return {
+        referenceId,
+        statusToken: createJoinRequestStatusToken(created.id),
+      };
+    }),
+
+  /**
+   * Get application status via signed token (Public - applicant status page)
+   *
+   * Only exposes applicant-facing fields; internal coordinator and SC notes
+   * are never returned.
+   */
+  getStatusByToken: publicProcedure
+    .input(joinRequestStatusTokenSchema)
+    .query(async ({ ctx, input }) => {
+      enforceRateLimit("join-request:status", ctx.headers, STATUS_RATE_LIMIT);
+      const joinRequestId = resolveStatusToken(input.token);
+
+      const joinRequest = await prisma.joinRequest.findUnique({
+        where: { id: joinRequestId },
+        select: {
+          id: true,
+          status: true,
+          organizationName: true,
+          organizationCountry: true,
+          contactName: true,
+          contactEmail: true,
+          preferredLanguage: true,
+          commitmentLetterUrl: true,
+          additionalInfoRequest: true,
+          applicantResponse: true,
+          applicantRespondedAt: true,
+          rejectionReason: true,
+          scAssignedTeam: true,
+          createdAt: true,
+          updatedAt: true,
+          organization: {
+            select: { nameEn: true, nameFr: true },
+          },
+        },
+      });
+
+      if (!joinRequest) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "Join request not found",
+        });
+      }
+
+      return {
+        ...joinRequest,
+        referenceId: joinRequest.id.slice(-8).toUpperCase(),
+        canRespond: joinRequest.status === JoinRequestStatus.MORE_INFO,
+      };
+    }),
+
+  /**
+   * Answer an additional information request (Public - via signed token)
+   *
+   * Sends the application back to the Programme Coordinator for review.
+   */
+  respondToInfoRequest: publicProcedure
+    .input(joinRequestInfoResponseSchema)
+    .mutation(async ({ ctx, input }) => {
+      enforceRateLimit("join-request:status", ctx.headers, STATUS_RATE_LIMIT);
+      const joinRequestId = resolveStatusToken(input.token);
+
+      const joinRequest = await prisma.joinRequest.findUnique({
+        where: { id: joinRequestId },
+      });
+
+      if (!joinRequest) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "Join request not found",
+        });
+      }
+
+      if (joinRequest.status !== JoinRequestStatus.MORE_INFO) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: "No additional information has been requested",
+        });
+      }
+
+      const updated = await prisma.joinRequest.update({
+        where: { id: joinRequestId },
+        data: {
+          status: JoinRequestStatus.COORDINATOR_REVIEW,
+          applicantResponse: input.response,
+          applicantRespondedAt: new Date(),
+          ...(input.commitmentLetterUrl && {
+            commitmentLetterUrl: input.commitmentLetterUrl,
+          }),
+        },
+        select: { status: true, applicantRespondedAt: true },
+      });
+
+      return updated;
+    }),
+
   /**
    * List join requests (Protected - Coordinators and SC)
    */
@@ -445,6 +703,10 @@ export const joinRequestRouter = router({
           applicantName: updated.contactName,
           organizationName: orgName,
           infoRequested: input.additionalInfoRequest!,
+          statusUrl: buildJoinRequestStatusUrl(
+            updated.id,
+            updated.preferredLanguage === "fr" ? "fr" : "en"
+          ),
         });
       }
 
@@ -0,0 +1,754 @@
+/**
+ * Mentorship Router
+ *
+ * Mentorships between ANSPs, started from a best practice with
+ * `bestPractice.requestMentorship`. The mentoring organization (owner of
+ * the practice) accepts or declines; both sides then agree a plan with
+ * milestones, log their sessions, and the mentored organization reports
+ * the outcome, which is recorded as its adoption of the practice.
+ *
+ * Status Flow:
+ * PENDING → ACCEPTED (plan drafting) → ACTIVE (plan agreed) → COMPLETED
+ *        ↘ DECLINED (mentor)
+ * PENDING / ACCEPTED / ACTIVE → CANCELLED (either side)
+ *
+ * Programme roles see every mentorship and the regional overview.
+ */
+
+import { z } from "zod";
+import { TRPCError } from "@trpc/server";
+import { router, protectedProcedure, roleProcedure } from "../trpc";
+import {
+  AfricanRegion,
+  MentorshipSessionFormat,
+  MentorshipStatus,
+  NotificationPriority,
+  Prisma,
+} from "@prisma/client";
+import { logCreate, logDelete, logStatusChange, logUpdate } from "@/server/services/audit";
+import {
+  assertMentorshipActor,
+  completeMentorship,
+  getMentorshipForUser,
+  notifyMentorshipUpdated,
+  MENTORSHIP_MANAGE_ROLES,
+} from "@/server/services/mentorship";
+import { OVERSIGHT_ROLES } from "@/lib/permissions";
+import {
+  isValidMentorshipTransition,
+  mentorshipSide,
+  milestoneProgress,
+  summarizeByRegion,
+  validatePlanForAgreement,
+  PLAN_EDITABLE_STATUSES,
+  SESSION_STATUSES,
+  type MentorshipSide,
+} from "@/lib/mentorship/lifecycle";
+
+// =============================================================================
+// INPUT SCHEMAS
+// =============================================================================
+
+const listMentorshipsSchema = z.object({
+  scope: z.enum(["organization", "programme"]).default("organization"),
+  status: z.nativeEnum(MentorshipStatus).optional(),
+  region: z.nativeEnum(AfricanRegion).optional(),
+});
+
+const respondSchema = z.object({
+  mentorshipId: z.string().cuid(),
+  accept: z.boolean(),
+  message: z.string().max(2000).optional(),
+});
+
+const updatePlanSchema = z.object({
+  mentorshipId: z.string().cuid(),
+  planObjectives: z.string().min(10).max(5000),
+  planStartDate: z.coerce.date(),
+  planEndDate: z.coerce.date(),
+});
+
+const saveMilestoneSchema = z.object({
+  mentorshipId: z.string().cuid(),
+  id: z.string().cuid().optional(),
+  title: z.string().min(3).max(200),
+  description: z.string().max(2000).optional(),
+  dueDate: z.coerce.date().optional().nullable(),
+});
+
+const logSessionSchema = z.object({
+  mentorshipId: z.string().cuid(),
+  sessionDate: z.coerce.date(),
+  durationMinutes: z.number().int().min(15).max(24 * 60),
+  format: z.nativeEnum(MentorshipSessionFormat),
+  topics: z.string().min(5).max(2000),
+  notes: z.string().max(5000).optional(),
+  actionItems: z.string().max(5000).optional(),
+});
+
+const completeSchema = z.object({
+  mentorshipId: z.string().cuid(),
+  outcomeSummary: z.string().min(20).max(5000),
+  outcomeRating: z.number().int().min(1).max(5),
+  implementationStatus: z.enum(["PLANNED", "IN_PROGRESS", "COMPLETED"]),
+});
+
+const cancelSchema = z.object({
+  mentorshipId: z.string().cuid(),
+  reason: z.string().min(10).max(2000),
+});
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+const otherSide = (side: MentorshipSide): MentorshipSide =>
+  side === "MENTOR" ? "MENTEE" : "MENTOR";
+
+function assertPlanEditable(status: MentorshipStatus) {
+  if (!PLAN_EDITABLE_STATUSES.includes(status)) {
+    throw new TRPCError({
+      code: "BAD_REQUEST",
+      message:
+        status === "ACTIVE"
+          ? "The plan has been agreed and can no longer be changed"
+          : "The plan can only be edited once the mentorship is accepted",
+    });
+  }
+}
+
+/** Any change to the plan needs both sides to agree it again */
+const CLEAR_AGREEMENT = { mentorAgreedAt: null, menteeAgreedAt: null } as const;
+
+const mentorshipListSelect = {
+  id: true,
+  status: true,
+  createdAt: true,
+  startedAt: true,
+  closedAt: true,
+  planEndDate: true,
+  requestingOrgId: true,
+  targetOrgId: true,
+  bestPractice: { select: { id: true, referenceNumber: true, titleEn: true, titleFr: true } },
+  requestingOrg: { select: { id: true, nameEn: true, nameFr: true, region: true } },
+  targetOrg: { select: { id: true, nameEn: true, nameFr: true, region: true } },
+  milestones: { select: { dueDate: true, completedAt: true } },
+  _count: { select: { sessions: true } },
+} satisfies Prisma.MentorshipRequestSelect;
+
+// =============================================================================
+// ROUTER
+// =============================================================================
+
+export const mentorshipRouter = router({
+  /**
+   * Mentorships of the user's organization (both sides), or of the whole
+   * programme for programme roles
+   */
+  list: protectedProcedure.input(listMentorshipsSchema).query(async ({ ctx, input }) => {
+    const { user } = ctx.session;
+    const where: Prisma.MentorshipRequestWhereInput = {
+      ...(input.status && { status: input.status }),
+      ...(input.region && { requestingOrg: { region: input.region } }),
+    };
+
+    if (input.scope === "programme") {
+      if (!OVERSIGHT_ROLES.includes(user.role)) {
+        throw new TRPCError({
+          code: "FORBIDDEN",
+          message: "Only programme roles can view all mentorships",
+        });
+      }
+    } else {
+      if (!user.organizationId) {
+        return [];
+      }
+      where.OR = [{ requestingOrgId: user.organizationId }, { targetOrgId: user.organizationId }];
+    }
+
+    const mentorships = await ctx.db.mentorshipRequest.findMany({
+      where,
+      select: mentorshipListSelect,
+      orderBy: { updatedAt: "desc" },
+    });
+
+    return mentorships.map(({ milestones, ...mentorship }) => ({
+      ...mentorship,
+      side: mentorshipSide(mentorship, user.organizationId),
+      progress: milestoneProgress(milestones),
+    }));
+  }),
+
+  /**
+   * Programme overview: mentorships per region of the mentored organization
+   */
+  getProgrammeOverview: roleProcedure(...OVERSIGHT_ROLES).query(async ({ ctx }) => {
+    const [mentorships, sessionTotals, outcomes] = await Promise.all([
+      ctx.db.mentorshipRequest.findMany({
+        select: {
+          status: true,
+          requestingOrg: { select: { region: true } },
+          targetOrg: { select: { region: true } },
+        },
+      }),
+      ctx.db.mentorshipSession.aggregate({
+        _count: true,
+        _sum: { durationMinutes: true },
+      }),
+      ctx.db.mentorshipRequest.aggregate({
+        where: { status: "COMPLETED" },
+        _avg: { outcomeRating: true },
+      }),
+    ]);
+
+    return {
+      regions: summarizeByRegion(
+        mentorships.map((m) => ({
+          status: m.status,
+          menteeRegion: m.requestingOrg.region,
+          mentorRegion: m.targetOrg.region,
+        }))
+      ),
+      sessionCount: sessionTotals._count,
+      sessionHours: Math.round((sessionTotals._sum.durationMinutes ?? 0) / 60),
+      averageOutcomeRating: outcomes._avg.outcomeRating,
+    };
+  }),
+
+  /**
+   * Full mentorship with plan, milestones, sessions and outcome
+   */
+  getById: protectedProcedure
+    .input(z.object({ id: z.string().cuid() }))
+    .query(async ({ ctx, input }) => {
+      const { user } = ctx.session;
+      const { mentorship, side } = await getMentorshipForUser(input.id, user);
+
+      const [milestones, sessions, people, adoption] = await Promise.all([
+        ctx.db.mentorshipMilestone.findMany({
+          where: { mentorshipId: mentorship.id },
+          orderBy: [{ sortOrder: "asc" }, { createdAt: "asc" }],
+          include: { completedBy: { select: { firstName: true, lastName: true } } },
+        }),
+        ctx.db.mentorshipSession.findMany({
+          where: { mentorshipId: mentorship.id },
+          orderBy: { sessionDate: "desc" },
+          include: { loggedBy: { select: { id: true, firstName: true, lastName: true } } },
+        }),
+        ctx.db.mentorshipRequest.findUnique({
+          where: { id: mentorship.id },
+          select: {
+            requester: { select: { firstName: true, lastName: true } },
+            respondedBy: { select: { firstName: true, lastName: true } },
+            closedBy: { select: { firstName: true, lastName: true } },
+          },
+        }),
+        mentorship.adoptionId
+          ? ctx.db.bestPracticeAdoption.findUnique({
+              where: { id: mentorship.adoptionId },
+              select: { id: true, implementationStatus: true, completedAt: true },
+            })
+          : null,
+      ]);
+
+      const canManage =
+        !!side &&
+        (MENTORSHIP_MANAGE_ROLES.includes(user.role) ||
+          (side === "MENTEE" && mentorship.requesterId === user.id));
+
+      return {
+        ...mentorship,
+        ...people,
+        milestones,
+        sessions,
+        adoption,
+        side,
+        canManage,
+        progress: milestoneProgress(milestones),
+      };
+    }),
+
+  /**
+   * Accept or decline a request (mentoring organization)
+   */
+  respond: protectedProcedure.input(respondSchema).mutation(async ({ ctx, input }) => {
+    const { user } = ctx.session;
+    const { mentorship, side } = await getMentorshipForUser(input.mentorshipId, user);
+    assertMentorshipActor(mentorship, side, user, { side: "MENTOR", manage: true });
+
+    const newStatus = input.accept ? "ACCEPTED" : "DECLINED";
+    if (!isValidMentorshipTransition(mentorship.status, newStatus)) {
+      throw new TRPCError({
+        code: "BAD_REQUEST",
+        message: "Only pending requests can be accepted or declined",
+      });
+    }
+
+    const claimed = await ctx.db.mentorshipRequest.updateMany({
+      where: { id: mentorship.id, status: mentorship.status },
+      data: {
+        status: newStatus,
+        respondedAt: new Date(),
+        respondedById: user.id,
+        responseMessage: input.message,
+      },
+    });
+    if (claimed.count === 0) {
+      throw new TRPCError({
+        code: "CONFLICT",
+        message: "This request has already been answered",
+      });
+    }
+    const updated = await ctx.db.mentorshipRequest.findUniqueOrThrow({
+      where: { id: mentorship.id },
+    });
+
+    await logStatusChange({
+      userId: user.id,
+      entityType: "MentorshipRequest",
+      entityId: mentorship.id,
+      previousStatus: mentorship.status,
+      newStatus,
+      metadata: { message: input.message },
+    }).catch(() => {});
+
+    const message = input.message ? ` ${input.message}` : "";
+    await notifyMentorshipUpdated(mentorship, "MENTEE", {
+      titleEn: input.accept ? "Mentorship Accepted" : "Mentorship Declined",
+      titleFr: input.accept ? "Accompagnement accepté" : "Accompagnement refusé",
+      messageEn: input.accept
+        ? `${mentorship.targetOrg.nameEn} has accepted your mentorship request for "${mentorship.bestPractice.titleEn}". Agree a plan to get started.${message}`
+        : `${mentorship.targetOrg.nameEn} has declined your mentorship request for "${mentorship.bestPractice.titleEn}".${message}`,
+      messageFr: input.accept
+        ? `${mentorship.targetOrg.nameFr} a accepté votre demande d'accompagnement pour « ${mentorship.bestPractice.titleFr} ». Convenez d'un plan pour commencer.${message}`
+        : `${mentorship.targetOrg.nameFr} a refusé votre demande d'accompagnement pour « ${mentorship.bestPractice.titleFr} ».${message}`,
+    }).catch(() => {});
+
+    return updated;
+  }),
+
+  /**
+   * Set the plan objectives and dates (either side, before agreement)
+   */
+  updatePlan: protectedProcedure.input(updatePlanSchema).mutation(async ({ ctx, input }) => {
+    const { user } = ctx.session;
+    const { mentorship, side } = await getMentorshipForUser(input.mentorshipId, user);
+    assertMentorshipActor(mentorship, side, user);
+    assertPlanEditable(mentorship.status);
+
+    if (input.planEndDate <= input.planStartDate) {
+      throw new TRPCError({
+        code: "BAD_REQUEST",
+        message: "The plan end date must be after its start date",
+      });
+    }
+
+    // Changing the plan withdraws any agreement, but never once it is active
+    const claimed = await ctx.db.mentorshipRequest.updateMany({
+      where: { id: mentorship.id, status: { in: PLAN_EDITABLE_STATUSES } },
+      data: {
+        planObjectives: input.planObjectives,
+        planStartDate: input.planStartDate,
+        planEndDate: input.planEndDate,
+        ...CLEAR_AGREEMENT,
+      },
+    });
+    if (claimed.count === 0) {
+      throw new TRPCError({
+        code: "CONFLICT",
+        message: "The plan has been agreed and can no longer be changed",
+      });
+    }
+    const updated = await ctx.db.mentorshipRequest.findUniqueOrThrow({
+      where: { id: mentorship.id },
+    });
+
+    await logUpdate({
+      userId: user.id,
+      entityType: "MentorshipRequest",
+      entityId: mentorship.id,
+      previousState: {
+        planObjectives: mentorship.planObjectives,
+        planStartDate: mentorship.planStartDate,
+        planEndDate: mentorship.planEndDate,
+      },
+      newState: {
+        planObjectives: input.planObjectives,
+        planStartDate: input.planStartDate,
+        planEndDate: input.planEndDate,
+      },
+    }).catch(() => {});
+
+    return updated;
+  }),
+
+  /**
+   * Add or edit a plan milestone (either side, before agreement)
+   */
+  saveMilestone: protectedProcedure.input(saveMilestoneSchema).mutation(async ({ ctx, input }) => {
+    const { user } = ctx.session;
+    const { mentorship, side } = await getMentorshipForUser(input.mentorshipId, user);
+    assertMentorshipActor(mentorship, side, user);
+    assertPlanEditable(mentorship.status);
+
+    const data = {
+      title: input.title,
+      description: input.description,
+      dueDate: input.dueDate ?? null,
+    };
+
+    const milestone = await ctx.db.$transaction(async (tx) => {
+      await tx.mentorshipRequest.update({
+        where: { id: mentorship.id },
+        data: CLEAR_AGREEMENT,
+      });
+
+      if (input.id) {
+        const existing = await tx.mentorshipMilestone.findFirst({
+          where: { id: input.id, mentorshipId: mentorship.id },
+        });
+        if (!existing) {
+          throw new TRPCError({ code: "NOT_FOUND", message: "Milestone not found" });
+        }
+        return tx.mentorshipMilestone.update({ where: { id: input.id }, data });
+      }
+
+      const sortOrder = await tx.mentorshipMilestone.count({
+        where: { mentorshipId: mentorship.id },
+      });
+      return tx.mentorshipMilestone.create({
+        data: { ...data, mentorshipId: mentorship.id, sortOrder },
+      });
+    });
+
+    await (input.id ? logUpdate : logCreate)({
+      userId: user.id,
+      entityType: "MentorshipMilestone",
+      entityId: milestone.id,
+      newState: { mentorshipId: mentorship.id, ...data },
+    }).catch(() => {});
+
+    return milestone;
+  }),
+
+  /**
+   * Remove a plan milestone (either side, before agreement)
+   */
+  deleteMilestone: protectedProcedure
+    .input(z.object({ id: z.string().cuid() }))
+    .mutation(async ({ ctx, input }) => {
+      const { user } = ctx.session;
+
+      const milestone = await ctx.db.mentorshipMilestone.findUnique({ where: { id: input.id } });
+      if (!milestone) {
+        throw new TRPCError({ code: "NOT_FOUND", message: "Milestone not found" });
+      }
+
+      const { mentorship, side } = await getMentorshipForUser(milestone.mentorshipId, user);
+      assertMentorshipActor(mentorship, side, user);
+      assertPlanEditable(mentorship.status);
+
+      await ctx.db.$transaction([
+        ctx.db.mentorshipMilestone.delete({ where: { id: milestone.id } }),
+        ctx.db.mentorshipRequest.update({ where: { id: mentorship.id }, data: CLEAR_AGREEMENT }),
+      ]);
+
+      await logDelete({
+        userId: user.id,
+        entityType: "MentorshipMilestone",
+        entityId: milestone.id,
+        previousState: { mentorshipId: mentorship.id, title: milestone.title },
+      }).catch(() => {});
+
+      return { success: true };
+    }),
+
+  /**
+   * Mark a milestone of an active mentorship as done or not done
+   */
+  setMilestoneComplete: protectedProcedure
+    .input(z.object({ id: z.string().cuid(), completed: z.boolean() }))
+    .mutation(async ({ ctx, input }) => {
+      const { user } = ctx.session;
+
+      const milestone = await ctx.db.mentorshipMilestone.findUnique({ where: { id: input.id } });
+      if (!milestone) {
+        throw new TRPCError({ code: "NOT_FOUND", message: "Milestone not found" });
+      }
+
+      const { mentorship, side } = await getMentorshipForUser(milestone.mentorshipId, user);
+      assertMentorshipActor(mentorship, side, user);
+
+      if (mentorship.status !== "ACTIVE") {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: "Milestones can only be completed while the mentorship is active",
+        });
+      }
+
+      return ctx.db.mentorshipMilestone.update({
+        where: { id: milestone.id },
+        data: input.completed
+          ? { completedAt: new Date(), completedById: user.id }
+          : { completedAt: null, completedById: null },
+      });
+    }),
+
+  /**
+   * Agree the plan for the user's side. The mentorship becomes active once
+   * both sides have agreed the same plan.
+   */
+  agreePlan: protectedProcedure
+    .input(z.object({ mentorshipId: z.string().cuid() }))
+    .mutation(async ({ ctx, input }) => {
+      const { user } = ctx.session;
+      const { mentorship, side } = await getMentorshipForUser(input.mentorshipId, user);
+      const actingSide = assertMentorshipActor(mentorship, side, user, { manage: true });
+      assertPlanEditable(mentorship.status);
+
+      const milestoneCount = await ctx.db.mentorshipMilestone.count({
+        where: { mentorshipId: mentorship.id },
+      });
+      const error = validatePlanForAgreement({ ...mentorship, milestoneCount });
+      if (error) {
+        throw new TRPCError({ code: "BAD_REQUEST", message: error });
+      }
+
+      const now = new Date();
+
+      const { updated, otherAgreed } = await ctx.db.$transaction(async (tx) => {
+        const agreed = await tx.mentorshipRequest.updateMany({
+          where: { id: mentorship.id, status: { in: PLAN_EDITABLE_STATUSES } },
+          data: actingSide === "MENTOR" ? { mentorAgreedAt: now } : { menteeAgreedAt: now },
+        });
+        if (agreed.count === 0) {
+          throw new TRPCError({
+            code: "CONFLICT",
+            message: "The plan has been agreed and can no longer be changed",
+          });
+        }
+
+        // Both agreements are checked against the row as written, so the
+        // later of two simultaneous agreements activates the mentorship
+        const activated = await tx.mentorshipRequest.updateMany({
+          where: {
+            id: mentorship.id,
+            status: { in: PLAN_EDITABLE_STATUSES },
+            mentorAgreedAt: { not: null },
+            menteeAgreedAt: { not: null },
+          },
+          data: { status: "ACTIVE", startedAt: now },
+        });
+
+        return {
+          updated: await tx.mentorshipRequest.findUniqueOrThrow({ where: { id: mentorship.id } }),
+          otherAgreed: activated.count > 0,
+        };
+      });
+
+      if (otherAgreed) {
+        await logStatusChange({
+          userId: user.id,
+          entityType: "MentorshipRequest",
+          entityId: mentorship.id,
+          previousStatus: mentorship.status,
+          newStatus: "ACTIVE",
+        }).catch(() => {});
+      }
+
+      await notifyMentorshipUpdated(
+        mentorship,
+        otherSide(actingSide),
+        otherAgreed
+          ? {
+              titleEn: "Mentorship Plan Agreed",
+              titleFr: "Plan d'accompagnement convenu",
+              messageEn: `Both organizations have agreed the mentorship plan for "${mentorship.bestPractice.titleEn}". The mentorship is now active.`,
+              messageFr: `Les deux organisations ont convenu du plan d'accompagnement pour « ${mentorship.bestPractice.titleFr} ». L'accompagnement est désormais actif.`,
+            }
+          : {
+              titleEn: "Mentorship Plan Awaiting Your Agreement",
+              titleFr: "Plan d'accompagnement en attente de votre accord",
+              messageEn: `The other organization has agreed the mentorship plan for "${mentorship.bestPractice.titleEn}". Review and agree it to start the mentorship.`,
+              messageFr: `L'autre organisation a approuvé le plan d'accompagnement pour « ${mentorship.bestPractice.titleFr} ». Examinez-le et approuvez-le pour démarrer l'accompagnement.`,
+            }
+      ).catch(() => {});
+
+      return updated;
+    }),
+
+  /**
+   * Record a mentoring session (either side)
+   */
+  logSession: protectedProcedure.input(logSessionSchema).mutation(async ({ ctx, input }) => {
+    const { user } = ctx.session;
+    const { mentorship, side } = await getMentorshipForUser(input.mentorshipId, user);
+    const actingSide = assertMentorshipActor(mentorship, side, user);
+
+    if (!SESSION_STATUSES.includes(mentorship.status)) {
+      throw new TRPCError({
+        code: "BAD_REQUEST",
+        message: "Sessions can only be logged for accepted or active mentorships",
+      });
+    }
+
+    const { mentorshipId, ...data } = input;
+    const session = await ctx.db.mentorshipSession.create({
+      data: { ...data, mentorshipId, loggedById: user.id },
+    });
+
+    await logCreate({
+      userId: user.id,
+      entityType: "MentorshipSession",
+      entityId: session.id,
+      newState: { mentorshipId, sessionDate: input.sessionDate, format: input.format },
+    }).catch(() => {});
+
+    await notifyMentorshipUpdated(
+      mentorship,
+      otherSide(actingSide),
+      {
+        titleEn: "Mentorship Session Logged",
+        titleFr: "Séance d'accompagnement enregistrée",
+        messageEn: `A ${input.durationMinutes}-minute session on "${mentorship.bestPractice.titleEn}" was logged: ${input.topics}`,
+        messageFr: `Une séance de ${input.durationMinutes} minutes sur « ${mentorship.bestPractice.titleFr} » a été enregistrée : ${input.topics}`,
+      },
+      NotificationPriority.LOW
+    ).catch(() => {});
+
+    return session;
+  }),
+
+  /**
+   * Remove a session log (the person who logged it)
+   */
+  deleteSession: protectedProcedure
+    .input(z.object({ id: z.string().cuid() }))
+    .mutation(async ({ ctx, input }) => {
+      const { user } = ctx.session;
+
+      const session = await ctx.db.mentorshipSession.findUnique({
+        where: { id: input.id },
+        include: { mentorship: { select: { status: true } } },
+      });
+      if (!session) {
+        throw new TRPCError({ code: "NOT_FOUND", message: "Session not found" });
+      }
+
+      if (session.loggedById !== user.id) {
+        throw new TRPCError({
+          code: "FORBIDDEN",
+          message: "Only the person who logged a session can remove it",
+        });
+      }
+
+      if (!SESSION_STATUSES.includes(session.mentorship.status)) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: "Sessions of a closed mentorship cannot be removed",
+        });
+      }
+
+      await ctx.db.mentorshipSession.delete({ where: { id: session.id } });
+
+      await logDelete({
+        userId: user.id,
+        entityType: "MentorshipSession",
+        entityId: session.id,
+        previousState: { mentorshipId: session.mentorshipId, sessionDate: session.sessionDate },
+      }).catch(() => {});
+
+      return { success: true };
+    }),
+
+  /**
+   * Close an active mentorship with the outcome report (mentored organization)
+   */
+  complete: protectedProcedure.input(completeSchema).mutation(async ({ ctx, input }) => {
+    const { user } = ctx.session;
+    const { mentorship, side } = await getMentorshipForUser(input.mentorshipId, user);
+    assertMentorshipActor(mentorship, side, user, { side: "MENTEE", manage: true });
+
+    const updated = await completeMentorship(input, user.id);
+
+    await logStatusChange({
+      userId: user.id,
+      entityType: "MentorshipRequest",
+      entityId: mentorship.id,
+      previousStatus: mentorship.status,
+      newStatus: "COMPLETED",
+      metadata: {
+        outcomeRating: input.outcomeRating,
+        implementationStatus: input.implementationStatus,
+        adoptionId: updated.adoptionId,
+      },
+    }).catch(() => {});
+
+    await notifyMentorshipUpdated(mentorship, "MENTOR", {
+      titleEn: "Mentorship Completed",
+      titleFr: "Accompagnement terminé",
+      messageEn: `${mentorship.requestingOrg.nameEn} has completed the mentorship on "${mentorship.bestPractice.titleEn}" and reported its outcome.`,
+      messageFr: `${mentorship.requestingOrg.nameFr} a terminé l'accompagnement sur « ${mentorship.bestPractice.titleFr} » et en a communiqué les résultats.`,
+    }).catch(() => {});
+
+    return updated;
+  }),
+
+  /**
+   * Cancel an open mentorship (managers of either side)
+   */
+  cancel: protectedProcedure.input(cancelSchema).mutation(async ({ ctx, input }) => {
+    const { user } = ctx.session;
+    const { mentorship, side } = await getMentorshipForUser(input.mentorshipId, user);
+    const actingSide = assertMentorshipActor(mentorship, side, user, { manage: true });
+
+    if (!isValidMentorshipTransition(mentorship.status, "CANCELLED")) {
+      throw new TRPCError({
+        code: "BAD_REQUEST",
+        message: "Only open mentorships can be cancelled",
+      });
+    }
+
+    const claimed = await ctx.db.mentorshipRequest.updateMany({
+      where: { id: mentorship.id, status: mentorship.status },
+      data: {
+        status: "CANCELLED",
+        closedAt: new Date(),
+        closedById: user.id,
+        closureReason: input.reason,
+      },
+    });
+    if (claimed.count === 0) {
+      throw new TRPCError({
+        code: "CONFLICT",
+        message: "This mentorship has changed since it was loaded. Refresh and try again.",
+      });
+    }
+    const updated = await ctx.db.mentorshipRequest.findUniqueOrThrow({
+      where: { id: mentorship.id },
+    });
+
+    await logStatusChange({
+      userId: user.id,
+      entityType: "MentorshipRequest",
+      entityId: mentorship.id,
+      previousStatus: mentorship.status,
+      newStatus: "CANCELLED",
+      metadata: { reason: input.reason },
+    }).catch(() => {});
+
+    await notifyMentorshipUpdated(
+      mentorship,
+      otherSide(actingSide),
+      {
+        titleEn: "Mentorship Cancelled",
+        titleFr: "Accompagnement annulé",
+        messageEn: `The mentorship on "${mentorship.bestPractice.titleEn}" was cancelled: ${input.reason}`,
+        messageFr: `L'accompagnement sur « ${mentorship.bestPractice.titleFr} » a été annulé : ${input.reason}`,
+      },
+      NotificationPriority.HIGH
+    ).catch(() => {});
+
+    return updated;
+  }),
+});
@@ -490,6 +490,12 @@ export const progressRouter = router({
           icon: "MessageSquare",
           color: "#64748B",
         },
+        MIGRATED: {
+          label: "Migrated to New Edition",
+          labelFr: "Migré vers la nouvelle édition",
+          icon: "ArrowRightLeft",
+          color: "#7C3AED",
+        },
       },
     };
   }),
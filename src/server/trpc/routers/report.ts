@@ -13,6 +13,8 @@ import {
   Prisma,
 } from "@prisma/client";
 import { aggregateReportData } from "@/lib/report/aggregate-report-data";
+import { archiveFinalReport } from "@/server/services/report";
+import { assertTranslationsReviewed } from "@/server/services/translation-review";
 import type { ReportContent, EditableSection, ReportVersionEntry } from "@/types/report";
 
 // ============================================================================
@@ -564,6 +566,24 @@ function maturityLabelToEnum(label: string): MaturityLevel | null {
   return map[label] || null;
 }
 
+// ============================================================================
+// PDF Archiving
+// ============================================================================
+
+/**
+ * Archive the EN and FR PDFs of a just-finalized report.
+ * Failures are logged only; the artifact is created on first download otherwise.
+ */
+async function archiveFinalizedReport(reviewId: string, userId: string): Promise<void> {
+  for (const locale of ["en", "fr"] as const) {
+    try {
+      await archiveFinalReport(reviewId, locale, userId);
+    } catch (error) {
+      console.error(`[Report] Failed to archive ${locale} PDF for review ${reviewId}:`, error);
+    }
+  }
+}
+
 // ============================================================================
 // Router
 // ============================================================================
@@ -1147,6 +1167,11 @@ export const reportRouter = router({
         }
       }
 
+      // French finding texts must be reviewed before they are published
+      if (newStatus === "FINALIZED") {
+        await assertTranslationsReviewed(input.reviewId);
+      }
+
       // Prepare timestamp updates
       const updateData: {
         status: string;
@@ -1165,6 +1190,10 @@ export const reportRouter = router({
         data: updateData,
       });
 
+      if (newStatus === "FINALIZED") {
+        await archiveFinalizedReport(input.reviewId, userId);
+      }
+
       return updatedReport;
     }),
 
@@ -1238,6 +1267,11 @@ export const reportRouter = router({
         }
       }
 
+      // French finding texts must be reviewed before they are published
+      if (newStatus === "FINALIZED") {
+        await assertTranslationsReviewed(report.reviewId);
+      }
+
       // Prepare update data
       const updateData: {
         status: string;
@@ -1259,6 +1293,10 @@ export const reportRouter = router({
         data: updateData,
       });
 
+      if (newStatus === "FINALIZED") {
+        await archiveFinalizedReport(report.reviewId, userId);
+      }
+
       return updatedReport;
     }),
 
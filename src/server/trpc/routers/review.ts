@@ -63,6 +63,9 @@ import {
   getStatusFlow,
 } from "@/server/services/review-state-machine";
 
+// Repeat-finding detection
+import { detectRecurrences } from "@/server/services/finding-recurrence";
+
 // Audit logging
 import {
   logCreate,
@@ -2870,6 +2873,11 @@ export const reviewRouter = router({
         },
       });
 
+      // Propose links to the same deficiency in earlier reviews
+      detectRecurrences(finding.id).catch((error) =>
+        console.error("[Review] Failed to detect repeat findings:", error)
+      );
+
       return finding;
     }),
 
@@ -3119,6 +3127,19 @@ export const reviewRouter = router({
         });
       }
 
+      // Once accepted, the due date only moves through an approved extension
+      // request so that slippage stays visible
+      if (
+        data.dueDate &&
+        data.dueDate.getTime() !== cap.dueDate.getTime() &&
+        !["DRAFT", "SUBMITTED", "UNDER_REVIEW", "REJECTED"].includes(cap.status)
+      ) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: "The due date of an accepted CAP can only be changed through an extension request",
+        });
+      }
+
       const updateData: Prisma.CorrectiveActionPlanUpdateInput = { ...data };
 
       // Handle status transitions
@@ -64,6 +64,11 @@ import {
   getEligibleReviewers,
   validateReviewerAssignment,
 } from "@/server/services/reviewer-eligibility";
+import {
+  planProgrammeTeams,
+  applyProgrammeTeams,
+} from "@/server/services/programme-scheduler";
+import { syncCertificateTraining } from "@/server/services/training-progress";
 import { matchingCriteriaSchema } from "@/lib/validations/reviewer";
 import {
   findMatchingReviewers,
@@ -73,6 +78,13 @@ import {
   type MatchResult,
 } from "@/lib/reviewer/matching";
 import type { ReviewerProfileFull } from "@/types/reviewer";
+import {
+  availabilityWindowFilter,
+  expandAvailabilitySlots,
+  isAvailableThroughout,
+  resolveDailyAvailability,
+} from "@/lib/availability/recurrence";
+import { recurrencePatternSchema } from "@/lib/availability/schemas";
 
 // =============================================================================
 // CONSTANTS
@@ -484,6 +496,9 @@ export const reviewerRouter = router({
         include: reviewerProfileInclude,
       });
 
+      // Knowledge checks the user passed before nomination count as training
+      await syncCertificateTraining(reviewer.id);
+
       await logAuditEntry(user.id, AuditAction.CREATE, reviewer.id, {
         userId: input.userId,
         homeOrganizationId: input.homeOrganizationId,
@@ -1330,20 +1345,13 @@ export const reviewerRouter = router({
       };
 
       if (input.startDate && input.endDate) {
-        where.OR = [
-          {
-            startDate: { gte: input.startDate, lte: input.endDate },
-          },
-          {
-            endDate: { gte: input.startDate, lte: input.endDate },
-          },
-          {
-            AND: [
-              { startDate: { lte: input.startDate } },
-              { endDate: { gte: input.endDate } },
-            ],
-          },
-        ];
+        const window = { start: input.startDate, end: input.endDate };
+        const slots = await prisma.reviewerAvailability.findMany({
+          where: { ...where, ...availabilityWindowFilter(window) },
+          orderBy: { startDate: "asc" },
+        });
+        // Ranged queries return recurring series as individual occurrences
+        return expandAvailabilitySlots(slots, window);
       }
 
       return prisma.reviewerAvailability.findMany({
@@ -1458,6 +1466,8 @@ export const reviewerRouter = router({
             endDate: z.coerce.date(),
             availabilityType: z.enum(["AVAILABLE", "TENTATIVE", "UNAVAILABLE", "ON_ASSIGNMENT"]).default("AVAILABLE"),
             notes: z.string().max(500).optional().nullable(),
+            isRecurring: z.boolean().default(false),
+            recurrencePattern: recurrencePatternSchema.optional().nullable(),
           })
         ),
       })
@@ -1483,6 +1493,8 @@ export const reviewerRouter = router({
         endDate: slot.endDate,
         availabilityType: slot.availabilityType,
         notes: slot.notes,
+        isRecurring: slot.isRecurring,
+        recurrencePattern: slot.recurrencePattern,
       }));
 
       await prisma.reviewerAvailability.createMany({ data: availabilityData });
@@ -1521,19 +1533,11 @@ export const reviewerRouter = router({
       const startDate = new Date(input.year, input.month, 1);
       const endDate = new Date(input.year, input.month + 1, 0, 23, 59, 59);
 
-      return prisma.reviewerAvailability.findMany({
+      const window = { start: startDate, end: endDate };
+      const slots = await prisma.reviewerAvailability.findMany({
         where: {
           reviewerProfileId: input.reviewerId,
-          OR: [
-            { startDate: { gte: startDate, lte: endDate } },
-            { endDate: { gte: startDate, lte: endDate } },
-            {
-              AND: [
-                { startDate: { lte: startDate } },
-                { endDate: { gte: endDate } },
-              ],
-            },
-          ],
+          ...availabilityWindowFilter(window),
         },
         include: {
           review: {
@@ -1548,6 +1552,8 @@ export const reviewerRouter = router({
         },
         orderBy: { startDate: "asc" },
       });
+
+      return expandAvailabilitySlots(slots, window);
     }),
 
   /**
@@ -1564,6 +1570,8 @@ export const reviewerRouter = router({
             availabilityType: z.enum(["AVAILABLE", "TENTATIVE", "UNAVAILABLE"]).default("AVAILABLE"),
             title: z.string().max(200).optional(),
             notes: z.string().max(1000).optional(),
+            isRecurring: z.boolean().default(false),
+            recurrencePattern: recurrencePatternSchema.optional(),
           })
         ).min(1).max(100),
       })
@@ -1586,7 +1594,15 @@ export const reviewerRouter = router({
         },
       });
 
-      for (const slot of input.slots) {
+      // Recurring slots conflict if any occurrence overlaps an assignment
+      const assignmentWindow = existingAssignments.length > 0
+        ? {
+            start: new Date(Math.min(...existingAssignments.map((a) => a.startDate.getTime()))),
+            end: new Date(Math.max(...existingAssignments.map((a) => a.endDate.getTime()))),
+          }
+        : null;
+
+      for (const slot of assignmentWindow ? expandAvailabilitySlots(input.slots, assignmentWindow) : []) {
         for (const assignment of existingAssignments) {
           // Check overlap
           if (slot.startDate <= assignment.endDate && slot.endDate >= assignment.startDate) {
@@ -1605,6 +1621,8 @@ export const reviewerRouter = router({
         availabilityType: slot.availabilityType,
         title: slot.title,
         notes: slot.notes,
+        isRecurring: slot.isRecurring,
+        recurrencePattern: slot.recurrencePattern,
         createdById: ctx.user.id,
       }));
 
@@ -1670,6 +1688,7 @@ export const reviewerRouter = router({
     .query(async ({ ctx, input }) => {
       assertCanCoordinateReviewers(ctx.session);
 
+      const window = { start: input.startDate, end: input.endDate };
       const reviewers = await prisma.reviewerProfile.findMany({
         where: { id: { in: input.reviewerIds } },
         include: {
@@ -1680,18 +1699,7 @@ export const reviewerRouter = router({
             select: { nameEn: true, nameFr: true },
           },
           availabilityPeriods: {
-            where: {
-              OR: [
-                { startDate: { gte: input.startDate, lte: input.endDate } },
-                { endDate: { gte: input.startDate, lte: input.endDate } },
-                {
-                  AND: [
-                    { startDate: { lte: input.startDate } },
-                    { endDate: { gte: input.endDate } },
-                  ],
-                },
-              ],
-            },
+            where: availabilityWindowFilter(window),
             orderBy: { startDate: "asc" },
           },
         },
@@ -1702,7 +1710,7 @@ export const reviewerRouter = router({
         name: `${r.user.firstName} ${r.user.lastName}`,
         organization: r.homeOrganization.nameEn,
         organizationFr: r.homeOrganization.nameFr,
-        slots: r.availabilityPeriods,
+        slots: expandAvailabilitySlots(r.availabilityPeriods, window),
       }));
     }),
 
@@ -1721,42 +1729,27 @@ export const reviewerRouter = router({
     .query(async ({ ctx, input }) => {
       assertCanCoordinateReviewers(ctx.session);
 
+      const window = { start: input.startDate, end: input.endDate };
       const reviewers = await prisma.reviewerProfile.findMany({
         where: { id: { in: input.reviewerIds } },
         include: {
           availabilityPeriods: {
-            where: {
-              availabilityType: { in: ["AVAILABLE", "TENTATIVE"] },
-              OR: [
-                { startDate: { gte: input.startDate, lte: input.endDate } },
-                { endDate: { gte: input.startDate, lte: input.endDate } },
-                {
-                  AND: [
-                    { startDate: { lte: input.startDate } },
-                    { endDate: { gte: input.endDate } },
-                  ],
-                },
-              ],
-            },
+            where: availabilityWindowFilter(window),
           },
         },
       });
 
-      // Build a map of available dates for each reviewer
+      // Build a map of available dates for each reviewer. Blocking occurrences
+      // (including recurring blackouts) take precedence over available slots.
       const reviewerAvailability = new Map<string, Set<string>>();
 
       for (const reviewer of reviewers) {
         const dateSet = new Set<string>();
+        const days = resolveDailyAvailability(reviewer.availabilityPeriods, window);
 
-        for (const slot of reviewer.availabilityPeriods) {
-          const current = new Date(slot.startDate);
-          const end = new Date(slot.endDate);
-
-          while (current <= end && current <= input.endDate) {
-            if (current >= input.startDate) {
-              dateSet.add(current.toISOString().split("T")[0]);
-            }
-            current.setDate(current.getDate() + 1);
+        for (const [dateKey, type] of days) {
+          if (type === "AVAILABLE" || type === "TENTATIVE") {
+            dateSet.add(dateKey);
           }
         }
 
@@ -1863,14 +1856,18 @@ export const reviewerRouter = router({
       const endDate = new Date(today);
       endDate.setDate(endDate.getDate() + input.daysAhead);
 
-      const slots = await prisma.reviewerAvailability.findMany({
-        where: {
-          reviewerProfileId: input.reviewerId,
-          endDate: { gte: today },
-          startDate: { lte: endDate },
-        },
-        orderBy: { startDate: "asc" },
-      });
+      const window = { start: today, end: endDate };
+      const slots = expandAvailabilitySlots(
+        await prisma.reviewerAvailability.findMany({
+          where: {
+            reviewerProfileId: input.reviewerId,
+            ...availabilityWindowFilter(window),
+          },
+          orderBy: { startDate: "asc" },
+        }),
+        window
+      );
+      const dailyAvailability = resolveDailyAvailability(slots, window);
 
       // Count days by type
       let availableDays = 0;
@@ -1880,15 +1877,11 @@ export const reviewerRouter = router({
 
       const current = new Date(today);
       while (current <= endDate) {
-        // Find slot for this date
-        const slot = slots.find((s) => {
-          const start = new Date(s.startDate);
-          const end = new Date(s.endDate);
-          return current >= start && current <= end;
-        });
+        // Effective type for this date
+        const type = dailyAvailability.get(current.toISOString().split("T")[0]);
 
-        if (slot) {
-          switch (slot.availabilityType) {
+        if (type) {
+          switch (type) {
             case "AVAILABLE":
               availableDays++;
               break;
@@ -2128,6 +2121,14 @@ export const reviewerRouter = router({
 
       assertCanEditReviewer(ctx.session, training.reviewerProfile.userId);
 
+      // Records issued from a passed knowledge check are verified completion
+      if (training.certificateId) {
+        throw new TRPCError({
+          code: "FORBIDDEN",
+          message: "Verified training records cannot be edited",
+        });
+      }
+
       return prisma.reviewerTraining.update({
         where: { id: input.id },
         data: {
@@ -2454,6 +2455,8 @@ export const reviewerRouter = router({
     .query(async ({ ctx, input }) => {
       assertCanCoordinateReviewers(ctx.session);
 
+      const window = { start: input.startDate, end: input.endDate };
+
       // Build where clause
       const where: Prisma.ReviewerProfileWhereInput = {
         selectionStatus: "SELECTED",
@@ -2467,12 +2470,12 @@ export const reviewerRouter = router({
             isActive: true,
           },
         },
-        // Check availability period overlap
+        // Candidates with an AVAILABLE slot or series in the period;
+        // full coverage is checked on the expanded occurrences below
         availabilityPeriods: {
           some: {
             availabilityType: "AVAILABLE",
-            startDate: { lte: input.startDate },
-            endDate: { gte: input.endDate },
+            ...availabilityWindowFilter(window),
           },
         },
       };
@@ -2504,16 +2507,22 @@ export const reviewerRouter = router({
         };
       }
 
-      const reviewers = await prisma.reviewerProfile.findMany({
+      const candidates = await prisma.reviewerProfile.findMany({
         where,
-        include: reviewerProfileListInclude,
+        include: {
+          ...reviewerProfileListInclude,
+          availabilityPeriods: { where: availabilityWindowFilter(window) },
+        },
         orderBy: [
           { reviewsCompleted: "desc" },
           { isLeadQualified: "desc" },
         ],
-        take: input.maxResults,
       });
 
+      const reviewers = candidates
+        .filter((r) => isAvailableThroughout(r.availabilityPeriods, window))
+        .slice(0, input.maxResults);
+
       // Check COI for each reviewer and add to result
       const results = await Promise.all(
         reviewers.map(async (reviewer) => {
@@ -2638,11 +2647,7 @@ export const reviewerRouter = router({
         include: {
           ...reviewerProfileListInclude,
           availabilityPeriods: {
-            where: {
-              availabilityType: "AVAILABLE",
-              startDate: { lte: input.startDate },
-              endDate: { gte: input.endDate },
-            },
+            where: availabilityWindowFilter({ start: input.startDate, end: input.endDate }),
           },
         },
       });
@@ -2682,7 +2687,12 @@ export const reviewerRouter = router({
         }
 
         // Availability score (100 if available for full period, 0 otherwise)
-        const availabilityScore = reviewer.availabilityPeriods.length > 0 ? 100 : 0;
+        const availabilityScore = isAvailableThroughout(reviewer.availabilityPeriods, {
+          start: input.startDate,
+          end: input.endDate,
+        })
+          ? 100
+          : 0;
 
         // Experience score (based on reviews completed, max 20 reviews = 100%)
         const experienceScore = Math.min((reviewer.reviewsCompleted / 20) * 100, 100);
@@ -2744,11 +2754,7 @@ export const reviewerRouter = router({
           expertiseRecords: true,
           languages: true,
           availabilityPeriods: {
-            where: {
-              availabilityType: "AVAILABLE",
-              startDate: { lte: input.startDate },
-              endDate: { gte: input.endDate },
-            },
+            where: availabilityWindowFilter({ start: input.startDate, end: input.endDate }),
           },
         },
       });
@@ -2787,7 +2793,12 @@ export const reviewerRouter = router({
         ? (matchedLanguages.length / requiredLanguages.size) * 100
         : 100;
 
-      const availabilityScore = reviewer.availabilityPeriods.length > 0 ? 100 : 0;
+      const availabilityScore = isAvailableThroughout(reviewer.availabilityPeriods, {
+        start: input.startDate,
+        end: input.endDate,
+      })
+        ? 100
+        : 0;
       const experienceScore = Math.min((reviewer.reviewsCompleted / 20) * 100, 100);
 
       const totalScore =
@@ -2852,18 +2863,17 @@ export const reviewerRouter = router({
         include: {
           ...reviewerProfileListInclude,
           availabilityPeriods: {
-            where: {
-              availabilityType: "AVAILABLE",
-              startDate: { lte: input.startDate },
-              endDate: { gte: input.endDate },
-            },
+            where: availabilityWindowFilter({ start: input.startDate, end: input.endDate }),
           },
         },
       });
 
       // Filter to only those available for the full period
-      const availableReviewers = eligibleReviewers.filter(
-        (r) => r.availabilityPeriods.length > 0
+      const availableReviewers = eligibleReviewers.filter((r) =>
+        isAvailableThroughout(r.availabilityPeriods, {
+          start: input.startDate,
+          end: input.endDate,
+        })
       );
 
       if (availableReviewers.length < input.teamSize) {
@@ -3146,6 +3156,61 @@ export const reviewerRouter = router({
       };
     }),
 
+  // ============================================
+  // PROGRAMME PLANNING (several reviews at once)
+  // ============================================
+
+  /**
+   * Plan teams for a batch of unstaffed PLANNING reviews from one shared
+   * pool, with fairness caps and explanations for unmet constraints.
+   */
+  planProgrammeTeams: protectedProcedure
+    .input(
+      z.object({
+        reviewIds: z.array(z.string().cuid()).min(1).max(30).optional(),
+        teamSize: z.number().int().min(REVIEWER_CAPACITY.MIN_TEAM_SIZE).max(REVIEWER_CAPACITY.MAX_TEAM_SIZE).default(REVIEWER_CAPACITY.IDEAL_TEAM_SIZE),
+        maxReviewsPerReviewer: z.number().int().min(1).max(12).default(REVIEWER_CAPACITY.MAX_REVIEWS_PER_REVIEWER),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      assertCanCoordinateReviewers(ctx.session);
+
+      return planProgrammeTeams(input);
+    }),
+
+  /**
+   * Create team members from a reviewed programme plan. Teams that no
+   * longer pass validation are rejected individually.
+   */
+  applyProgrammeTeams: adminProcedure
+    .input(
+      z.object({
+        teams: z.array(
+          z.object({
+            reviewId: z.string().cuid(),
+            members: z.array(
+              z.object({
+                userId: z.string().cuid(),
+                reviewerProfileId: z.string().cuid(),
+                role: z.enum(["LEAD_REVIEWER", "REVIEWER"]),
+              })
+            ).min(1).max(REVIEWER_CAPACITY.MAX_TEAM_SIZE),
+          })
+        ).min(1, "At least one team is required"),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      const reviewIds = input.teams.map((t) => t.reviewId);
+      if (new Set(reviewIds).size !== reviewIds.length) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: "Duplicate reviews in programme plan",
+        });
+      }
+
+      return applyProgrammeTeams(input.teams, ctx.user.id);
+    }),
+
   /**
    * Get detailed match score breakdown for a single reviewer.
    */
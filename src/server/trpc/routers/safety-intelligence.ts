@@ -8,6 +8,7 @@ import {
   getSystemicIssues,
   getTrendData,
   getCAPAnalytics,
+  getRepeatFindingRates,
 } from "@/lib/safety-intelligence/aggregation-service";
 
 // Reusable team filter input
@@ -76,4 +77,13 @@ export const safetyIntelligenceRouter = router({
     .query(async ({ ctx, input }) => {
       return getCAPAnalytics(ctx.db, input.teamId ?? undefined);
     }),
+
+  /**
+   * Repeat-finding rates by regional team and review area
+   */
+  getRepeatFindingRates: adminProcedure
+    .input(teamFilterSchema)
+    .query(async ({ ctx, input }) => {
+      return getRepeatFindingRates(ctx.db, input.teamId ?? undefined);
+    }),
 });
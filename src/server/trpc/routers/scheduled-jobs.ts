@@ -0,0 +1,97 @@
+/**
+ * Scheduled Jobs Router
+ *
+ * Administration of the background jobs in src/server/jobs: their health,
+ * run history, manual re-runs and pausing a job's schedule.
+ */
+
+import { z } from "zod";
+import { TRPCError } from "@trpc/server";
+import type { UserRole } from "@prisma/client";
+import { router, roleProcedure } from "../trpc";
+import { getJobDefinition } from "@/server/jobs/registry";
+import { getJobStatuses, runJob } from "@/server/jobs/scheduler";
+import { logUpdate } from "@/server/services/audit";
+
+/**
+ * Roles that monitor and run background jobs
+ */
+const JOB_ADMIN_ROLES: UserRole[] = ["SUPER_ADMIN", "SYSTEM_ADMIN"];
+
+const jobKeySchema = z.string().refine((key) => !!getJobDefinition(key), {
+  message: "Unknown job",
+});
+
+export const scheduledJobsRouter = router({
+  /**
+   * Every registered job with its schedule, last run and health
+   */
+  list: roleProcedure(...JOB_ADMIN_ROLES).query(async () => {
+    return getJobStatuses();
+  }),
+
+  /**
+   * Run history of a job, newest first
+   */
+  getRuns: roleProcedure(...JOB_ADMIN_ROLES)
+    .input(
+      z.object({
+        jobKey: jobKeySchema,
+        limit: z.number().int().min(1).max(100).default(25),
+      })
+    )
+    .query(async ({ ctx, input }) => {
+      return ctx.db.scheduledJobRun.findMany({
+        where: { jobKey: input.jobKey },
+        include: {
+          triggeredBy: { select: { id: true, firstName: true, lastName: true } },
+        },
+        orderBy: { startedAt: "desc" },
+        take: input.limit,
+      });
+    }),
+
+  /**
+   * Run a job now, outside its schedule
+   */
+  runNow: roleProcedure(...JOB_ADMIN_ROLES)
+    .input(z.object({ jobKey: jobKeySchema }))
+    .mutation(async ({ ctx, input }) => {
+      const outcome = await runJob(input.jobKey, {
+        trigger: "MANUAL",
+        triggeredById: ctx.user.id,
+      });
+
+      if (outcome.status === "LOCKED") {
+        throw new TRPCError({
+          code: "CONFLICT",
+          message: "This job is already running",
+        });
+      }
+
+      return outcome;
+    }),
+
+  /**
+   * Pause or resume a job's schedule (manual runs stay available)
+   */
+  setEnabled: roleProcedure(...JOB_ADMIN_ROLES)
+    .input(z.object({ jobKey: jobKeySchema, isEnabled: z.boolean() }))
+    .mutation(async ({ ctx, input }) => {
+      // Rows are created on first listing; upsert covers a fresh database
+      const job = await ctx.db.scheduledJob.upsert({
+        where: { key: input.jobKey },
+        create: { key: input.jobKey, isEnabled: input.isEnabled },
+        update: { isEnabled: input.isEnabled },
+      });
+
+      await logUpdate({
+        userId: ctx.user.id,
+        entityType: "ScheduledJob",
+        entityId: input.jobKey,
+        newState: { isEnabled: input.isEnabled },
+      }).catch(() => {});
+
+      return job;
+    }),
+});
@@ -10,6 +10,7 @@ import { TRPCError } from "@trpc/server";
 import { router, protectedProcedure } from "../trpc";
 import { scoringService } from "@/server/services/scoring.service";
 import { prisma } from "@/lib/db";
+import { isOversightRole } from "@/lib/permissions";
 
 // =============================================================================
 // INPUT SCHEMAS
@@ -50,6 +51,15 @@ const GetOrganizationHistoryInput = z.object({
   questionnaireType: z.enum(["ANS_USOAP_CMA", "SMS_CANSO_SOE"]).optional(),
 });
 
+const GetAssessmentDeltaInput = z.object({
+  baseAssessmentId: z.string().cuid(),
+  targetAssessmentId: z.string().cuid(),
+});
+
+const GetComparableAssessmentsInput = z.object({
+  assessmentId: z.string().cuid(),
+});
+
 // =============================================================================
 // SCORING ROUTER
 // =============================================================================
@@ -316,6 +326,103 @@ export const scoringRouter = router({
       }
     }),
 
+  /**
+   * Explain what changed between two assessments of the same questionnaire
+   * (ANSP members and programme coordinators)
+   */
+  getAssessmentDelta: protectedProcedure
+    .input(GetAssessmentDeltaInput)
+    .query(async ({ input, ctx }) => {
+      const { baseAssessmentId, targetAssessmentId } = input;
+
+      if (baseAssessmentId === targetAssessmentId) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: "Select two different assessments to compare",
+        });
+      }
+
+      const assessments = await prisma.assessment.findMany({
+        where: { id: { in: [baseAssessmentId, targetAssessmentId] } },
+        select: { id: true, organizationId: true, questionnaireId: true },
+      });
+
+      if (assessments.length !== 2) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "Assessment not found",
+        });
+      }
+
+      const canViewAll = isOversightRole(ctx.user.role);
+      for (const assessment of assessments) {
+        if (!canViewAll && ctx.user.organizationId !== assessment.organizationId) {
+          throw new TRPCError({
+            code: "FORBIDDEN",
+            message: "You do not have permission to access this assessment",
+          });
+        }
+      }
+
+      const [first, second] = assessments;
+      if (
+        first.organizationId !== second.organizationId ||
+        first.questionnaireId !== second.questionnaireId
+      ) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message:
+            "Only assessments of the same questionnaire for the same organization can be compared",
+        });
+      }
+
+      try {
+        return await scoringService.getAssessmentDelta(
+          baseAssessmentId,
+          targetAssessmentId
+        );
+      } catch (error) {
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message:
+            error instanceof Error
+              ? error.message
+              : "Failed to compare assessments",
+        });
+      }
+    }),
+
+  /**
+   * List earlier assessments that can be compared with an assessment
+   */
+  getComparableAssessments: protectedProcedure
+    .input(GetComparableAssessmentsInput)
+    .query(async ({ input, ctx }) => {
+      const assessment = await prisma.assessment.findUnique({
+        where: { id: input.assessmentId },
+        select: { organizationId: true },
+      });
+
+      if (!assessment) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "Assessment not found",
+        });
+      }
+
+      if (
+        !isOversightRole(ctx.user.role) &&
+        ctx.user.organizationId !== assessment.organizationId
+      ) {
+        throw new TRPCError({
+          code: "FORBIDDEN",
+          message: "You do not have permission to access this assessment",
+        });
+      }
+
+      return scoringService.getComparableAssessments(input.assessmentId);
+    }),
+
   /**
    * Force recalculation of scores
    */
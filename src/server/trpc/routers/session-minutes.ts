@@ -0,0 +1,398 @@
+/**
+ * Session Minutes Router
+ *
+ * Structured minutes for review sessions: attendance (including host ANSP
+ * staff without an account), agenda, decisions and action items. Closing
+ * meetings and team debriefs start from a standard agenda.
+ *
+ * Status Flow:
+ * DRAFT (review team edits) → SIGNED (session host or lead reviewer)
+ *
+ * Signing creates a review task for each action item and files PDF/DOCX
+ * copies of the minutes as review correspondence.
+ */
+
+import { z } from "zod";
+import { TRPCError } from "@trpc/server";
+import { router, protectedProcedure } from "../trpc";
+import { MinutesAttendeeSide, Prisma, TaskPriority } from "@prisma/client";
+import { logCreate } from "@/server/services/audit";
+import {
+  getAssignableUsers,
+  getEditableMinutes,
+  getSessionForMinutes,
+  signMinutes,
+} from "@/server/services/session-minutes";
+import { OVERSIGHT_ROLES } from "@/lib/permissions";
+import {
+  applyTemplateAgenda,
+  getMinutesTemplate,
+  parseAgenda,
+  parseDecisions,
+} from "@/lib/minutes/session-minutes";
+
+// =============================================================================
+// INPUT SCHEMAS
+// =============================================================================
+
+const localeSchema = z.enum(["en", "fr"]);
+
+const agendaItemSchema = z.object({
+  title: z.string().max(300),
+  notes: z.string().max(5000),
+});
+
+const updateMinutesSchema = z.object({
+  minutesId: z.string().cuid(),
+  summary: z.string().max(5000).nullable().optional(),
+  agenda: z.array(agendaItemSchema).max(50).optional(),
+  decisions: z.array(z.string().min(1).max(2000)).max(100).optional(),
+});
+
+const saveAttendeeSchema = z.object({
+  minutesId: z.string().cuid(),
+  id: z.string().cuid().optional(),
+  userId: z.string().cuid().nullable().optional(),
+  name: z.string().min(2).max(200),
+  organization: z.string().max(200).nullable().optional(),
+  position: z.string().max(200).nullable().optional(),
+  side: z.nativeEnum(MinutesAttendeeSide),
+  isPresent: z.boolean().default(true),
+});
+
+const saveActionItemSchema = z.object({
+  minutesId: z.string().cuid(),
+  id: z.string().cuid().optional(),
+  description: z.string().min(3).max(2000),
+  ownerId: z.string().cuid(),
+  dueDate: z.coerce.date(),
+  priority: z.nativeEnum(TaskPriority).default("MEDIUM"),
+});
+
+// =============================================================================
+// ROUTER
+// =============================================================================
+
+export const sessionMinutesRouter = router({
+  /**
+   * Sessions of a review with the status of their minutes
+   */
+  listForReview: protectedProcedure
+    .input(z.object({ reviewId: z.string() }))
+    .query(async ({ ctx, input }) => {
+      const { user } = ctx.session;
+
+      const review = await ctx.db.review.findUnique({
+        where: { id: input.reviewId },
+        select: {
+          hostOrganizationId: true,
+          teamMembers: { where: { userId: user.id }, select: { id: true } },
+        },
+      });
+      if (!review) {
+        throw new TRPCError({ code: "NOT_FOUND", message: "Review not found" });
+      }
+      if (
+        review.teamMembers.length === 0 &&
+        review.hostOrganizationId !== user.organizationId &&
+        !OVERSIGHT_ROLES.includes(user.role)
+      ) {
+        throw new TRPCError({
+          code: "FORBIDDEN",
+          message: "You do not have access to this review",
+        });
+      }
+
+      return ctx.db.reviewSession.findMany({
+        where: { reviewId: input.reviewId, status: { in: ["ACTIVE", "COMPLETED"] } },
+        select: {
+          id: true,
+          sessionType: true,
+          title: true,
+          status: true,
+          startedAt: true,
+          endedAt: true,
+          startedBy: { select: { firstName: true, lastName: true } },
+          minutes: {
+            select: {
+              id: true,
+              status: true,
+              signedAt: true,
+              _count: { select: { actionItems: true } },
+            },
+          },
+        },
+        orderBy: { startedAt: "desc" },
+      });
+    }),
+
+  /**
+   * A session with its minutes, the user's access and the possible
+   * action item owners
+   */
+  getBySession: protectedProcedure
+    .input(z.object({ sessionId: z.string() }))
+    .query(async ({ ctx, input }) => {
+      const { session, access } = await getSessionForMinutes(input.sessionId, ctx.session.user);
+      const { minutes, review, participants, ...rest } = session;
+
+      return {
+        session: {
+          ...rest,
+          reviewReference: review.referenceNumber,
+          participantCount: participants.length,
+        },
+        minutes: minutes && {
+          ...minutes,
+          agenda: parseAgenda(minutes.agenda),
+          decisions: parseDecisions(minutes.decisions),
+        },
+        access,
+        hasTemplate: !!getMinutesTemplate(session.sessionType),
+        assignableUsers: access.canEdit ? await getAssignableUsers(review) : [],
+      };
+    }),
+
+  /**
+   * Start the minutes of a session. Attendance is pre-filled from the
+   * session participants and the agenda from the meeting template.
+   */
+  create: protectedProcedure
+    .input(z.object({ sessionId: z.string(), locale: localeSchema }))
+    .mutation(async ({ ctx, input }) => {
+      const { user } = ctx.session;
+      const { session, access } = await getSessionForMinutes(input.sessionId, user);
+
+      if (!access.canEdit) {
+        throw new TRPCError({
+          code: "FORBIDDEN",
+          message: "Only the review team can record minutes",
+        });
+      }
+      if (session.minutes) {
+        throw new TRPCError({
+          code: "CONFLICT",
+          message: "Minutes already exist for this session",
+        });
+      }
+      if (session.status !== "ACTIVE" && session.status !== "COMPLETED") {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: "Minutes can only be recorded for sessions that took place",
+        });
+      }
+
+      const hasTemplate = !!getMinutesTemplate(session.sessionType);
+
+      const minutes = await ctx.db.sessionMinutes.create({
+        data: {
+          sessionId: session.id,
+          language: input.locale === "fr" ? "FR" : "EN",
+          templateType: hasTemplate ? session.sessionType : null,
+          agenda: applyTemplateAgenda(
+            [],
+            session.sessionType,
+            input.locale
+          ) as unknown as Prisma.InputJsonValue,
+          createdById: user.id,
+          attendees: {
+            create: session.participants.map((p, index) => ({
+              userId: p.userId,
+              name: `${p.user.firstName} ${p.user.lastName}`,
+              side:
+                p.user.organizationId === session.review.hostOrganizationId
+                  ? "HOST_ORGANIZATION"
+                  : "REVIEW_TEAM",
+              sortOrder: index,
+            })),
+          },
+        },
+      });
+
+      await logCreate({
+        userId: user.id,
+        entityType: "SessionMinutes",
+        entityId: minutes.id,
+        newState: { sessionId: session.id, reviewId: session.reviewId },
+      }).catch(() => {});
+
+      return minutes;
+    }),
+
+  /**
+   * Update the summary, agenda or decisions of draft minutes
+   */
+  update: protectedProcedure.input(updateMinutesSchema).mutation(async ({ ctx, input }) => {
+    const { minutes } = await getEditableMinutes(input.minutesId, ctx.session.user);
+
+    return ctx.db.sessionMinutes.update({
+      where: { id: minutes.id },
+      data: {
+        ...(input.summary !== undefined && { summary: input.summary?.trim() || null }),
+        ...(input.agenda && {
+          agenda: input.agenda.filter((item) => item.title.trim()) as Prisma.InputJsonValue,
+        }),
+        ...(input.decisions && { decisions: input.decisions }),
+      },
+    });
+  }),
+
+  /**
+   * Add the meeting template's agenda items that are not already listed
+   */
+  applyTemplate: protectedProcedure
+    .input(z.object({ minutesId: z.string().cuid(), locale: localeSchema }))
+    .mutation(async ({ ctx, input }) => {
+      const { minutes, session } = await getEditableMinutes(input.minutesId, ctx.session.user);
+
+      if (!getMinutesTemplate(session.sessionType)) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: "There is no template for this type of session",
+        });
+      }
+
+      const agenda = applyTemplateAgenda(
+        parseAgenda(session.minutes?.agenda),
+        session.sessionType,
+        input.locale
+      );
+
+      return ctx.db.sessionMinutes.update({
+        where: { id: minutes.id },
+        data: {
+          agenda: agenda as unknown as Prisma.InputJsonValue,
+          templateType: session.sessionType,
+        },
+      });
+    }),
+
+  /**
+   * Add or update an attendee. Attendees linked to a user take the user's
+   * name; host ANSP staff and guests without an account are recorded by name.
+   */
+  saveAttendee: protectedProcedure.input(saveAttendeeSchema).mutation(async ({ ctx, input }) => {
+    const { minutes, session } = await getEditableMinutes(input.minutesId, ctx.session.user);
+    const { id, userId } = input;
+
+    let name = input.name.trim();
+    if (userId) {
+      const linked = await ctx.db.user.findUnique({
+        where: { id: userId },
+        select: { firstName: true, lastName: true },
+      });
+      if (!linked) {
+        throw new TRPCError({ code: "BAD_REQUEST", message: "User not found" });
+      }
+      name = `${linked.firstName} ${linked.lastName}`;
+    }
+
+    const values = {
+      name,
+      userId: userId ?? null,
+      organization: input.organization?.trim() || null,
+      position: input.position?.trim() || null,
+      side: input.side,
+      isPresent: input.isPresent,
+    };
+
+    if (id) {
+      const existing = session.minutes?.attendees.find((a) => a.id === id);
+      if (!existing) {
+        throw new TRPCError({ code: "NOT_FOUND", message: "Attendee not found" });
+      }
+      return ctx.db.minutesAttendee.update({ where: { id }, data: values });
+    }
+
+    return ctx.db.minutesAttendee.create({
+      data: {
+        ...values,
+        minutesId: minutes.id,
+        sortOrder: session.minutes?.attendees.length ?? 0,
+      },
+    });
+  }),
+
+  /**
+   * Remove an attendee from draft minutes
+   */
+  deleteAttendee: protectedProcedure
+    .input(z.object({ minutesId: z.string().cuid(), id: z.string().cuid() }))
+    .mutation(async ({ ctx, input }) => {
+      const { session } = await getEditableMinutes(input.minutesId, ctx.session.user);
+
+      if (!session.minutes?.attendees.some((a) => a.id === input.id)) {
+        throw new TRPCError({ code: "NOT_FOUND", message: "Attendee not found" });
+      }
+
+      await ctx.db.minutesAttendee.delete({ where: { id: input.id } });
+      return { success: true };
+    }),
+
+  /**
+   * Add or update an action item. The owner must be on the review team or
+   * in the host organization; the review task is created on signing.
+   */
+  saveActionItem: protectedProcedure
+    .input(saveActionItemSchema)
+    .mutation(async ({ ctx, input }) => {
+      const { minutes, session } = await getEditableMinutes(input.minutesId, ctx.session.user);
+      const { id } = input;
+
+      const assignable = await getAssignableUsers(session.review);
+      if (!assignable.some((u) => u.id === input.ownerId)) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: "The owner must be on the review team or in the host organization",
+        });
+      }
+
+      const values = {
+        description: input.description.trim(),
+        ownerId: input.ownerId,
+        dueDate: input.dueDate,
+        priority: input.priority,
+      };
+
+      if (id) {
+        if (!session.minutes?.actionItems.some((item) => item.id === id)) {
+          throw new TRPCError({ code: "NOT_FOUND", message: "Action item not found" });
+        }
+        return ctx.db.minutesActionItem.update({ where: { id }, data: values });
+      }
+
+      return ctx.db.minutesActionItem.create({
+        data: {
+          ...values,
+          minutesId: minutes.id,
+          sortOrder: session.minutes?.actionItems.length ?? 0,
+        },
+      });
+    }),
+
+  /**
+   * Remove an action item from draft minutes
+   */
+  deleteActionItem: protectedProcedure
+    .input(z.object({ minutesId: z.string().cuid(), id: z.string().cuid() }))
+    .mutation(async ({ ctx, input }) => {
+      const { session } = await getEditableMinutes(input.minutesId, ctx.session.user);
+
+      if (!session.minutes?.actionItems.some((item) => item.id === input.id)) {
+        throw new TRPCError({ code: "NOT_FOUND", message: "Action item not found" });
+      }
+
+      await ctx.db.minutesActionItem.delete({ where: { id: input.id } });
+      return { success: true };
+    }),
+
+  /**
+   * Sign the minutes: action items become review tasks and the signed
+   * minutes are filed as review correspondence (PDF and DOCX)
+   */
+  sign: protectedProcedure
+    .input(z.object({ minutesId: z.string().cuid(), locale: localeSchema }))
+    .mutation(async ({ ctx, input }) => {
+      return signMinutes(input.minutesId, ctx.session.user, input.locale);
+    }),
+});
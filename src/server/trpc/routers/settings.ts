@@ -11,6 +11,12 @@ import { router, protectedProcedure, adminProcedure } from "../trpc";
 import { Locale, Theme, DigestFrequency } from "@prisma/client";
 import bcrypt from "bcryptjs";
 import { logUpdate, logDelete } from "@/server/services/audit";
+import {
+  getCalendarFeedToken,
+  getCalendarFeedUrl,
+  revokeCalendarFeedToken,
+  rotateCalendarFeedToken,
+} from "@/server/services/calendar-feed";
 
 // =============================================================================
 // VALIDATION SCHEMAS
@@ -480,6 +486,67 @@ export const settingsRouter = router({
 
       return { success: true };
     }),
+
+  /**
+   * Get the user's calendar subscription feed (null if not enabled) and
+   * the reviewer profile used for ICS availability imports
+   */
+  getCalendarFeed: protectedProcedure.query(async ({ ctx }) => {
+    const [feedToken, reviewerProfile] = await Promise.all([
+      getCalendarFeedToken(ctx.session.user.id),
+      ctx.db.reviewerProfile.findUnique({
+        where: { userId: ctx.session.user.id },
+        select: { id: true },
+      }),
+    ]);
+
+    return {
+      feed: feedToken
+        ? {
+            url: getCalendarFeedUrl(feedToken.token),
+            createdAt: feedToken.createdAt,
+            lastAccessedAt: feedToken.lastAccessedAt,
+          }
+        : null,
+      reviewerProfileId: reviewerProfile?.id ?? null,
+    };
+  }),
+
+  /**
+   * Create the calendar feed URL, or replace it so the previous URL stops working
+   */
+  regenerateCalendarFeed: protectedProcedure.mutation(async ({ ctx }) => {
+    const feedToken = await rotateCalendarFeedToken(ctx.session.user.id);
+
+    logUpdate({
+      userId: ctx.session.user.id,
+      entityType: "CalendarFeedToken",
+      entityId: feedToken.id,
+      metadata: { action: "calendar_feed_regenerated" },
+    }).catch(() => {});
+
+    return {
+      url: getCalendarFeedUrl(feedToken.token),
+      createdAt: feedToken.createdAt,
+      lastAccessedAt: feedToken.lastAccessedAt,
+    };
+  }),
+
+  /**
+   * Disable the calendar feed
+   */
+  revokeCalendarFeed: protectedProcedure.mutation(async ({ ctx }) => {
+    await revokeCalendarFeedToken(ctx.session.user.id);
+
+    logDelete({
+      userId: ctx.session.user.id,
+      entityType: "CalendarFeedToken",
+      entityId: ctx.session.user.id,
+      metadata: { action: "calendar_feed_revoked" },
+    }).catch(() => {});
+
+    return { success: true };
+  }),
 });
 
 export type SettingsRouter = typeof settingsRouter;
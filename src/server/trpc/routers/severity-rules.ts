@@ -0,0 +1,273 @@
+/**
+ * Severity Rules Router
+ *
+ * Versioned rule sets behind the finding severity suggestion. Drafts are
+ * edited freely and previewed against historical findings; activating a
+ * draft archives the previous rule set, and archived versions stay
+ * read-only so every recorded suggestion can be traced to its rules.
+ */
+
+import { z } from "zod";
+import { TRPCError } from "@trpc/server";
+import { Prisma, type UserRole } from "@prisma/client";
+import { router, protectedProcedure, roleProcedure } from "../trpc";
+import {
+  DEFAULT_SEVERITY_RULES,
+  parseSeverityRules,
+  severityRuleConfigSchema,
+} from "@/lib/finding/severity-rules";
+import { getActiveSeverityRuleSet } from "@/server/services/severity-calculator";
+import { simulateSeverityRules } from "@/server/services/severity-rules";
+import { logCreate, logDelete, logUpdate } from "@/server/services/audit";
+
+/**
+ * Roles that edit and activate severity rule sets
+ */
+const SEVERITY_RULES_ADMIN_ROLES: UserRole[] = [
+  "SUPER_ADMIN",
+  "SYSTEM_ADMIN",
+  "PROGRAMME_COORDINATOR",
+];
+
+const userSelect = { select: { id: true, firstName: true, lastName: true } };
+
+export const severityRulesRouter = router({
+  /**
+   * All rule set versions, newest first
+   */
+  list: roleProcedure(...SEVERITY_RULES_ADMIN_ROLES).query(async ({ ctx }) => {
+    return ctx.db.severityRuleSet.findMany({
+      include: {
+        createdBy: userSelect,
+        activatedBy: userSelect,
+        _count: { select: { findings: true } },
+      },
+      orderBy: { version: "desc" },
+    });
+  }),
+
+  /**
+   * Rules the finding wizard scores with (built-in defaults as version 0)
+   */
+  getActive: protectedProcedure.query(async () => {
+    return getActiveSeverityRuleSet();
+  }),
+
+  /**
+   * A single rule set with its parsed rules
+   */
+  getById: roleProcedure(...SEVERITY_RULES_ADMIN_ROLES)
+    .input(z.object({ id: z.string().cuid() }))
+    .query(async ({ ctx, input }) => {
+      const ruleSet = await ctx.db.severityRuleSet.findUnique({
+        where: { id: input.id },
+        include: { createdBy: userSelect, activatedBy: userSelect },
+      });
+
+      if (!ruleSet) {
+        throw new TRPCError({ code: "NOT_FOUND", message: "Severity rule set not found" });
+      }
+
+      return { ...ruleSet, rules: parseSeverityRules(ruleSet.rules) };
+    }),
+
+  /**
+   * Start a new draft version from an existing rule set, or from the
+   * active rules when none is given
+   */
+  createDraft: roleProcedure(...SEVERITY_RULES_ADMIN_ROLES)
+    .input(
+      z.object({
+        name: z.string().trim().min(1).max(200),
+        description: z.string().max(2000).optional().nullable(),
+        fromId: z.string().cuid().optional(),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      let rules = (await getActiveSeverityRuleSet()).rules;
+      if (input.fromId) {
+        const source = await ctx.db.severityRuleSet.findUnique({ where: { id: input.fromId } });
+        if (!source) {
+          throw new TRPCError({ code: "NOT_FOUND", message: "Severity rule set not found" });
+        }
+        rules = parseSeverityRules(source.rules);
+      }
+
+      const latest = await ctx.db.severityRuleSet.findFirst({
+        orderBy: { version: "desc" },
+        select: { version: true },
+      });
+
+      try {
+        const ruleSet = await ctx.db.severityRuleSet.create({
+          data: {
+            version: (latest?.version ?? 0) + 1,
+            name: input.name,
+            description: input.description ?? null,
+            rules: rules as unknown as Prisma.InputJsonValue,
+            createdById: ctx.user.id,
+          },
+        });
+
+        logCreate({
+          userId: ctx.user.id,
+          entityType: "SeverityRuleSet",
+          entityId: ruleSet.id,
+          newState: { version: ruleSet.version, name: ruleSet.name, fromId: input.fromId ?? null },
+        }).catch(() => {});
+
+        return ruleSet;
+      } catch (error) {
+        if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === "P2002") {
+          throw new TRPCError({
+            code: "CONFLICT",
+            message: "Another rule set version was created at the same time; please retry",
+          });
+        }
+        throw error;
+      }
+    }),
+
+  /**
+   * Edit a draft's name, description or rules
+   */
+  updateDraft: roleProcedure(...SEVERITY_RULES_ADMIN_ROLES)
+    .input(
+      z.object({
+        id: z.string().cuid(),
+        name: z.string().trim().min(1).max(200).optional(),
+        description: z.string().max(2000).optional().nullable(),
+        rules: severityRuleConfigSchema.optional(),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      const { id, rules, ...data } = input;
+      const existing = await ctx.db.severityRuleSet.findUnique({ where: { id } });
+
+      if (!existing) {
+        throw new TRPCError({ code: "NOT_FOUND", message: "Severity rule set not found" });
+      }
+      if (existing.status !== "DRAFT") {
+        throw new TRPCError({
+          code: "PRECONDITION_FAILED",
+          message: "Only draft rule sets can be edited; create a new draft instead",
+        });
+      }
+
+      const ruleSet = await ctx.db.severityRuleSet.update({
+        where: { id },
+        data: {
+          ...data,
+          ...(rules && { rules: rules as unknown as Prisma.InputJsonValue }),
+        },
+      });
+
+      logUpdate({
+        userId: ctx.user.id,
+        entityType: "SeverityRuleSet",
+        entityId: id,
+        previousState: { name: existing.name, rules: existing.rules },
+        newState: { name: ruleSet.name, rules: ruleSet.rules },
+      }).catch(() => {});
+
+      return ruleSet;
+    }),
+
+  /**
+   * Make a draft the active rule set, archiving the current one
+   */
+  activate: roleProcedure(...SEVERITY_RULES_ADMIN_ROLES)
+    .input(z.object({ id: z.string().cuid() }))
+    .mutation(async ({ ctx, input }) => {
+      const existing = await ctx.db.severityRuleSet.findUnique({ where: { id: input.id } });
+
+      if (!existing) {
+        throw new TRPCError({ code: "NOT_FOUND", message: "Severity rule set not found" });
+      }
+      if (existing.status !== "DRAFT") {
+        throw new TRPCError({
+          code: "PRECONDITION_FAILED",
+          message: "Only draft rule sets can be activated",
+        });
+      }
+      if (!severityRuleConfigSchema.safeParse(existing.rules).success) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: "The draft's rules are invalid; save them again before activating",
+        });
+      }
+
+      const [archived, ruleSet] = await ctx.db.$transaction([
+        ctx.db.severityRuleSet.updateMany({
+          where: { status: "ACTIVE" },
+          data: { status: "ARCHIVED" },
+        }),
+        ctx.db.severityRuleSet.update({
+          where: { id: input.id },
+          data: { status: "ACTIVE", activatedById: ctx.user.id, activatedAt: new Date() },
+        }),
+      ]);
+
+      logUpdate({
+        userId: ctx.user.id,
+        entityType: "SeverityRuleSet",
+        entityId: ruleSet.id,
+        previousState: { status: existing.status },
+        newState: { status: ruleSet.status, version: ruleSet.version },
+        metadata: { archivedCount: archived.count },
+      }).catch(() => {});
+
+      return ruleSet;
+    }),
+
+  /**
+   * Discard a draft that was never activated
+   */
+  deleteDraft: roleProcedure(...SEVERITY_RULES_ADMIN_ROLES)
+    .input(z.object({ id: z.string().cuid() }))
+    .mutation(async ({ ctx, input }) => {
+      const existing = await ctx.db.severityRuleSet.findUnique({ where: { id: input.id } });
+
+      if (!existing) {
+        throw new TRPCError({ code: "NOT_FOUND", message: "Severity rule set not found" });
+      }
+      if (existing.status !== "DRAFT") {
+        throw new TRPCError({
+          code: "PRECONDITION_FAILED",
+          message: "Only draft rule sets can be deleted",
+        });
+      }
+
+      await ctx.db.severityRuleSet.delete({ where: { id: input.id } });
+
+      logDelete({
+        userId: ctx.user.id,
+        entityType: "SeverityRuleSet",
+        entityId: existing.id,
+        previousState: { version: existing.version, name: existing.name },
+      }).catch(() => {});
+
+      return { success: true };
+    }),
+
+  /**
+   * Preview how a rule config would change the suggestions for past findings
+   */
+  simulate: roleProcedure(...SEVERITY_RULES_ADMIN_ROLES)
+    .input(
+      z.object({
+        rules: severityRuleConfigSchema,
+        limit: z.number().int().min(1).max(10000).optional(),
+      })
+    )
+    .mutation(async ({ input }) => {
+      return simulateSeverityRules(input.rules, input.limit);
+    }),
+
+  /**
+   * The built-in rules, for resetting a draft
+   */
+  getDefaults: roleProcedure(...SEVERITY_RULES_ADMIN_ROLES).query(() => {
+    return DEFAULT_SEVERITY_RULES;
+  }),
+});
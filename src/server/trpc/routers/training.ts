@@ -1,12 +1,83 @@
 import { z } from "zod";
-import { router, publicProcedure } from "../trpc";
+import { TRPCError } from "@trpc/server";
+import { PrismaClient, TrainingType, UserRole } from "@prisma/client";
+import { router, publicProcedure, protectedProcedure, roleProcedure } from "../trpc";
+import { logCreate, logDelete, logUpdate } from "@/server/services/audit";
+import {
+  getQuiz,
+  getUserTrainingProgress,
+  setTopicCompletion,
+  submitQuiz,
+} from "@/server/services/training-progress";
+
+/**
+ * Roles that maintain knowledge checks and module settings
+ */
+const TRAINING_ADMIN_ROLES: UserRole[] = [
+  "SUPER_ADMIN",
+  "SYSTEM_ADMIN",
+  "PROGRAMME_COORDINATOR",
+];
+
+const quizQuestionSchema = z
+  .object({
+    moduleId: z.string().cuid(),
+    topicId: z.string().cuid().nullable().optional(),
+    questionEn: z.string().min(5).max(1000),
+    questionFr: z.string().min(5).max(1000),
+    optionsEn: z.array(z.string().min(1).max(300)).min(2).max(6),
+    optionsFr: z.array(z.string().min(1).max(300)).min(2).max(6),
+    correctOption: z.number().int().min(0),
+    explanationEn: z.string().max(2000).nullable().optional(),
+    explanationFr: z.string().max(2000).nullable().optional(),
+    relatedPQs: z.array(z.string().min(1).max(30)).default([]),
+    sortOrder: z.number().int().min(0).default(0),
+    isActive: z.boolean().default(true),
+  })
+  .refine((q) => q.optionsEn.length === q.optionsFr.length, {
+    message: "English and French options must match",
+    path: ["optionsFr"],
+  })
+  .refine((q) => q.correctOption < q.optionsEn.length, {
+    message: "Correct option is out of range",
+    path: ["correctOption"],
+  });
+
+/**
+ * Required modules gate reviewer eligibility on a passed knowledge check,
+ * so they must keep at least one active question. Throws when removing or
+ * deactivating `questionId` would leave a required module without one.
+ */
+async function assertKeepsKnowledgeCheck(
+  db: PrismaClient,
+  moduleId: string,
+  questionId: string
+) {
+  const trainingModule = await db.trainingModule.findUnique({
+    where: { id: moduleId },
+    select: { isRequired: true },
+  });
+  if (!trainingModule?.isRequired) return;
+
+  const remaining = await db.trainingQuizQuestion.count({
+    where: { moduleId, isActive: true, id: { not: questionId } },
+  });
+  if (remaining === 0) {
+    throw new TRPCError({
+      code: "PRECONDITION_FAILED",
+      message:
+        "A required module must keep at least one active question. Make the module optional first.",
+    });
+  }
+}
 
 /**
  * Training Module Router
  *
  * Provides access to training modules and their content.
- * All procedures are public as training content should be accessible
+ * Module content is public as training content should be accessible
  * to anyone who wants to learn about the peer review programme.
+ * Progress, knowledge checks and certificates belong to the signed-in user.
  */
 export const trainingRouter = router({
   /**
@@ -91,6 +162,216 @@ export const trainingRouter = router({
       })),
     };
   }),
+
+  // ============================================
+  // PROGRESS & KNOWLEDGE CHECKS
+  // ============================================
+
+  /**
+   * Current user's topic completion, best quiz score and certificate per module
+   */
+  getMyProgress: protectedProcedure.query(async ({ ctx }) => {
+    return getUserTrainingProgress(ctx.session.user.id);
+  }),
+
+  /**
+   * Mark a topic as completed (or not) for the current user
+   */
+  setTopicComplete: protectedProcedure
+    .input(z.object({ topicId: z.string().cuid(), completed: z.boolean() }))
+    .mutation(async ({ ctx, input }) => {
+      return setTopicCompletion(ctx.session.user.id, input.topicId, input.completed);
+    }),
+
+  /**
+   * Knowledge check questions for a module (without answers)
+   */
+  getQuiz: protectedProcedure
+    .input(z.object({ moduleId: z.string().cuid() }))
+    .query(async ({ ctx, input }) => {
+      return getQuiz(ctx.session.user.id, input.moduleId);
+    }),
+
+  /**
+   * Submit a knowledge check; passing issues the module certificate
+   */
+  submitQuiz: protectedProcedure
+    .input(
+      z.object({
+        moduleId: z.string().cuid(),
+        answers: z.record(z.string(), z.number().int().min(0)),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      const result = await submitQuiz(input, ctx.session.user.id);
+
+      if (result.certificate) {
+        await logCreate({
+          userId: ctx.session.user.id,
+          entityType: "TrainingCertificate",
+          entityId: result.certificate.id,
+          newState: {
+            certificateNumber: result.certificate.certificateNumber,
+            moduleId: input.moduleId,
+            score: result.score,
+          },
+        }).catch(() => {});
+      }
+
+      return result;
+    }),
+
+  /**
+   * Current user's certificates
+   */
+  getMyCertificates: protectedProcedure.query(async ({ ctx }) => {
+    return ctx.db.trainingCertificate.findMany({
+      where: { userId: ctx.session.user.id },
+      include: {
+        module: {
+          select: { id: true, code: true, titleEn: true, titleFr: true },
+        },
+      },
+      orderBy: { issuedAt: "desc" },
+    });
+  }),
+
+  // ============================================
+  // ADMINISTRATION
+  // ============================================
+
+  /**
+   * Knowledge check questions with answers, for editing
+   */
+  listQuestions: roleProcedure(...TRAINING_ADMIN_ROLES)
+    .input(z.object({ moduleId: z.string().cuid() }))
+    .query(async ({ ctx, input }) => {
+      return ctx.db.trainingQuizQuestion.findMany({
+        where: { moduleId: input.moduleId },
+        orderBy: { sortOrder: "asc" },
+      });
+    }),
+
+  /**
+   * Create or update a knowledge check question
+   */
+  saveQuestion: roleProcedure(...TRAINING_ADMIN_ROLES)
+    .input(quizQuestionSchema.and(z.object({ id: z.string().cuid().optional() })))
+    .mutation(async ({ ctx, input }) => {
+      const { id, ...data } = input;
+
+      if (data.topicId) {
+        const topic = await ctx.db.trainingTopic.findUnique({
+          where: { id: data.topicId },
+          select: { moduleId: true },
+        });
+        if (topic?.moduleId !== data.moduleId) {
+          throw new TRPCError({
+            code: "BAD_REQUEST",
+            message: "Topic does not belong to this module",
+          });
+        }
+      }
+
+      if (!id) {
+        const question = await ctx.db.trainingQuizQuestion.create({ data });
+        await logCreate({
+          userId: ctx.user.id,
+          entityType: "TrainingQuizQuestion",
+          entityId: question.id,
+          newState: { moduleId: question.moduleId, questionEn: question.questionEn },
+        }).catch(() => {});
+        return question;
+      }
+
+      const existing = await ctx.db.trainingQuizQuestion.findUnique({ where: { id } });
+      if (!existing) {
+        throw new TRPCError({ code: "NOT_FOUND", message: "Question not found" });
+      }
+      if (existing.isActive && (!data.isActive || data.moduleId !== existing.moduleId)) {
+        await assertKeepsKnowledgeCheck(ctx.db, existing.moduleId, id);
+      }
+
+      const question = await ctx.db.trainingQuizQuestion.update({ where: { id }, data });
+      await logUpdate({
+        userId: ctx.user.id,
+        entityType: "TrainingQuizQuestion",
+        entityId: id,
+        previousState: { correctOption: existing.correctOption, isActive: existing.isActive },
+        newState: { correctOption: question.correctOption, isActive: question.isActive },
+      }).catch(() => {});
+      return question;
+    }),
+
+  /**
+   * Delete a knowledge check question
+   */
+  deleteQuestion: roleProcedure(...TRAINING_ADMIN_ROLES)
+    .input(z.object({ id: z.string().cuid() }))
+    .mutation(async ({ ctx, input }) => {
+      const question = await ctx.db.trainingQuizQuestion.findUnique({ where: { id: input.id } });
+      if (!question) {
+        throw new TRPCError({ code: "NOT_FOUND", message: "Question not found" });
+      }
+      if (question.isActive) {
+        await assertKeepsKnowledgeCheck(ctx.db, question.moduleId, question.id);
+      }
+
+      await ctx.db.trainingQuizQuestion.delete({ where: { id: input.id } });
+      await logDelete({
+        userId: ctx.user.id,
+        entityType: "TrainingQuizQuestion",
+        entityId: input.id,
+        previousState: { moduleId: question.moduleId, questionEn: question.questionEn },
+      }).catch(() => {});
+      return { success: true };
+    }),
+
+  /**
+   * Update pass mark, certificate training type and eligibility requirement
+   */
+  updateModuleSettings: roleProcedure(...TRAINING_ADMIN_ROLES)
+    .input(
+      z.object({
+        moduleId: z.string().cuid(),
+        passMark: z.number().int().min(1).max(100),
+        trainingType: z.nativeEnum(TrainingType),
+        isRequired: z.boolean(),
+        hours: z.number().int().min(1).max(200).nullable(),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      const { moduleId, ...data } = input;
+      const existing = await ctx.db.trainingModule.findUnique({
+        where: { id: moduleId },
+        select: { passMark: true, trainingType: true, isRequired: true, hours: true },
+      });
+      if (!existing) {
+        throw new TRPCError({ code: "NOT_FOUND", message: "Training module not found" });
+      }
+
+      if (data.isRequired) {
+        const activeQuestions = await ctx.db.trainingQuizQuestion.count({
+          where: { moduleId, isActive: true },
+        });
+        if (activeQuestions === 0) {
+          throw new TRPCError({
+            code: "PRECONDITION_FAILED",
+            message: "Add at least one active question before making the module required",
+          });
+        }
+      }
+
+      const updated = await ctx.db.trainingModule.update({ where: { id: moduleId }, data });
+      await logUpdate({
+        userId: ctx.user.id,
+        entityType: "TrainingModule",
+        entityId: moduleId,
+        previousState: existing,
+        newState: data,
+      }).catch(() => {});
+      return updated;
+    }),
 });
 
 export type TrainingRouter = typeof trainingRouter;
@@ -2,11 +2,14 @@
  * Translation Router
  *
  * API endpoints for auto-translation functionality.
- * Supports English-French translation for bilingual content.
+ * Supports English-French translation for bilingual content, the
+ * bilingual aviation glossary, and the machine-translation review queue.
  */
 
 import { z } from "zod";
-import { router, protectedProcedure } from "../trpc";
+import { TRPCError } from "@trpc/server";
+import { Prisma, TranslationReviewStatus, type UserRole } from "@prisma/client";
+import { router, protectedProcedure, roleProcedure } from "../trpc";
 import {
   translate,
   translateFields,
@@ -14,7 +17,30 @@ import {
   getTranslationProvider,
   storeTranslation,
   getStoredTranslation,
+  invalidateGlossaryCache,
 } from "@/server/services/translation-service";
+import {
+  listTranslationReviews,
+  resolveTranslationReview,
+  scanReviewTranslations,
+} from "@/server/services/translation-review";
+import { logCreate, logDelete, logUpdate } from "@/server/services/audit";
+
+/**
+ * Roles that manage the glossary and review machine translations
+ */
+const TRANSLATION_ADMIN_ROLES: UserRole[] = [
+  "SUPER_ADMIN",
+  "SYSTEM_ADMIN",
+  "PROGRAMME_COORDINATOR",
+];
+
+const glossaryTermSchema = z.object({
+  termEn: z.string().trim().min(1).max(200),
+  termFr: z.string().trim().min(1).max(200),
+  notes: z.string().max(1000).optional().nullable(),
+  isActive: z.boolean().default(true),
+});
 
 export const translationRouter = router({
   /**
@@ -95,7 +121,7 @@ export const translationRouter = router({
         fieldName: z.string().optional(),
       })
     )
-    .mutation(async ({ input }) => {
+    .mutation(async ({ ctx, input }) => {
       await storeTranslation({
         sourceText: input.sourceText,
         translatedText: input.translatedText,
@@ -104,6 +130,7 @@ export const translationRouter = router({
         entityType: input.entityType,
         entityId: input.entityId,
         fieldName: input.fieldName,
+        verifiedById: ctx.user.id,
       });
 
       return { success: true };
@@ -132,6 +159,181 @@ export const translationRouter = router({
         found: !!translation,
       };
     }),
+
+  // ===========================================================================
+  // Glossary
+  // ===========================================================================
+
+  /**
+   * List glossary terms, optionally filtered by a search string
+   */
+  listGlossary: protectedProcedure
+    .input(
+      z
+        .object({
+          search: z.string().optional(),
+          includeInactive: z.boolean().default(false),
+        })
+        .optional()
+    )
+    .query(async ({ ctx, input }) => {
+      const search = input?.search?.trim();
+
+      return ctx.db.glossaryTerm.findMany({
+        where: {
+          ...(input?.includeInactive ? {} : { isActive: true }),
+          ...(search
+            ? {
+                OR: [
+                  { termEn: { contains: search, mode: "insensitive" } },
+                  { termFr: { contains: search, mode: "insensitive" } },
+                ],
+              }
+            : {}),
+        },
+        orderBy: { termEn: "asc" },
+      });
+    }),
+
+  /**
+   * Add a glossary term
+   */
+  createGlossaryTerm: roleProcedure(...TRANSLATION_ADMIN_ROLES)
+    .input(glossaryTermSchema)
+    .mutation(async ({ ctx, input }) => {
+      try {
+        const term = await ctx.db.glossaryTerm.create({
+          data: { ...input, createdById: ctx.user.id },
+        });
+
+        invalidateGlossaryCache();
+        logCreate({
+          userId: ctx.user.id,
+          entityType: "GlossaryTerm",
+          entityId: term.id,
+          newState: { termEn: term.termEn, termFr: term.termFr },
+        }).catch(() => {});
+
+        return term;
+      } catch (error) {
+        if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === "P2002") {
+          throw new TRPCError({
+            code: "CONFLICT",
+            message: `"${input.termEn}" is already in the glossary`,
+          });
+        }
+        throw error;
+      }
+    }),
+
+  /**
+   * Edit a glossary term
+   */
+  updateGlossaryTerm: roleProcedure(...TRANSLATION_ADMIN_ROLES)
+    .input(glossaryTermSchema.partial().extend({ id: z.string().cuid() }))
+    .mutation(async ({ ctx, input }) => {
+      const { id, ...data } = input;
+      const existing = await ctx.db.glossaryTerm.findUnique({ where: { id } });
+
+      if (!existing) {
+        throw new TRPCError({ code: "NOT_FOUND", message: "Glossary term not found" });
+      }
+
+      const term = await ctx.db.glossaryTerm.update({ where: { id }, data });
+
+      invalidateGlossaryCache();
+      logUpdate({
+        userId: ctx.user.id,
+        entityType: "GlossaryTerm",
+        entityId: id,
+        previousState: { termEn: existing.termEn, termFr: existing.termFr, isActive: existing.isActive },
+        newState: { termEn: term.termEn, termFr: term.termFr, isActive: term.isActive },
+      }).catch(() => {});
+
+      return term;
+    }),
+
+  /**
+   * Remove a glossary term
+   */
+  deleteGlossaryTerm: roleProcedure(...TRANSLATION_ADMIN_ROLES)
+    .input(z.object({ id: z.string().cuid() }))
+    .mutation(async ({ ctx, input }) => {
+      const existing = await ctx.db.glossaryTerm.findUnique({ where: { id: input.id } });
+
+      if (!existing) {
+        throw new TRPCError({ code: "NOT_FOUND", message: "Glossary term not found" });
+      }
+
+      const term = await ctx.db.glossaryTerm.delete({ where: { id: input.id } });
+
+      invalidateGlossaryCache();
+      logDelete({
+        userId: ctx.user.id,
+        entityType: "GlossaryTerm",
+        entityId: term.id,
+        previousState: { termEn: term.termEn, termFr: term.termFr },
+      }).catch(() => {});
+
+      return { success: true };
+    }),
+
+  // ===========================================================================
+  // Review queue
+  // ===========================================================================
+
+  /**
+   * Machine-translated finding texts awaiting (or past) coordinator review
+   */
+  reviewQueue: roleProcedure(...TRANSLATION_ADMIN_ROLES)
+    .input(
+      z.object({
+        reviewId: z.string().cuid().optional(),
+        status: z.nativeEnum(TranslationReviewStatus).optional(),
+        page: z.number().int().min(1).default(1),
+        pageSize: z.number().int().min(1).max(100).default(20),
+      })
+    )
+    .query(async ({ input }) => {
+      return listTranslationReviews(input);
+    }),
+
+  /**
+   * Re-check all findings of a review for unreviewed machine translations
+   */
+  scanReview: roleProcedure(...TRANSLATION_ADMIN_ROLES)
+    .input(z.object({ reviewId: z.string().cuid() }))
+    .mutation(async ({ input }) => {
+      const pending = await scanReviewTranslations(input.reviewId);
+      return { pending };
+    }),
+
+  /**
+   * Approve a machine translation as-is
+   */
+  approveTranslation: roleProcedure(...TRANSLATION_ADMIN_ROLES)
+    .input(z.object({ id: z.string().cuid() }))
+    .mutation(async ({ ctx, input }) => {
+      return resolveTranslationReview({ id: input.id, userId: ctx.user.id });
+    }),
+
+  /**
+   * Replace a machine translation with a corrected text
+   */
+  correctTranslation: roleProcedure(...TRANSLATION_ADMIN_ROLES)
+    .input(
+      z.object({
+        id: z.string().cuid(),
+        correctedText: z.string().trim().min(1),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      return resolveTranslationReview({
+        id: input.id,
+        userId: ctx.user.id,
+        correctedText: input.correctedText,
+      });
+    }),
 });
 
 export default translationRouter;
@@ -1,8 +1,16 @@
 import { z } from "zod";
 import { TRPCError } from "@trpc/server";
-import { router, protectedProcedure, adminProcedure } from "@/server/trpc/trpc";
-import { workflowService, slaService } from "@/server/services/workflow";
-import { WorkflowEntityType, UserRole } from "@prisma/client";
+import { router, protectedProcedure, adminProcedure, roleProcedure } from "@/server/trpc/trpc";
+import { workflowService, slaService, workflowDefinitionService } from "@/server/services/workflow";
+import { logCreate, logDelete, logStatusChange, logUpdate } from "@/server/services/audit";
+import {
+  EscalationAction,
+  TransitionTrigger,
+  WorkflowEntityType,
+  WorkflowStateType,
+  UserRole,
+} from "@prisma/client";
+import type { Condition, ConditionGroup } from "@/types/workflow";
 
 const OVERSIGHT_ROLES: UserRole[] = [
   "SUPER_ADMIN",
@@ -10,6 +18,108 @@ const OVERSIGHT_ROLES: UserRole[] = [
   "PROGRAMME_COORDINATOR",
 ];
 
+/**
+ * Roles that design and publish workflow definitions
+ */
+const WORKFLOW_DESIGNER_ROLES: UserRole[] = [
+  "SUPER_ADMIN",
+  "SYSTEM_ADMIN",
+  "PROGRAMME_COORDINATOR",
+];
+
+const codeSchema = z.string().regex(/^[A-Z][A-Z0-9_]*$/).max(50);
+
+const conditionSchema: z.ZodType<Condition | ConditionGroup> = z.lazy(() =>
+  z.union([
+    z.object({
+      logic: z.enum(["AND", "OR"]),
+      conditions: z.array(conditionSchema),
+    }),
+    z.object({
+      field: z.string().min(1).max(100),
+      operator: z.enum(["eq", "neq", "gt", "gte", "lt", "lte", "in", "nin", "exists", "regex"]),
+      value: z.unknown(),
+    }),
+  ])
+);
+
+const graphSchema = z.object({
+  states: z
+    .array(
+      z.object({
+        code: codeSchema,
+        labelEn: z.string().min(1).max(100),
+        labelFr: z.string().min(1).max(100),
+        stateType: z.nativeEnum(WorkflowStateType),
+        color: z.string().max(20).nullable(),
+        icon: z.string().max(50).nullable(),
+        defaultSLADays: z.number().int().min(1).max(365).nullable(),
+      })
+    )
+    .max(50),
+  transitions: z
+    .array(
+      z.object({
+        code: codeSchema,
+        labelEn: z.string().min(1).max(100),
+        labelFr: z.string().min(1).max(100),
+        fromStateCode: z.string(),
+        toStateCode: z.string(),
+        trigger: z.nativeEnum(TransitionTrigger),
+        allowedRoles: z.array(z.nativeEnum(UserRole)),
+        conditions: z
+          .object({
+            logic: z.enum(["AND", "OR"]).optional(),
+            rules: z.array(conditionSchema),
+          })
+          .nullable(),
+        onTransitionActions: z
+          .array(
+            z.object({
+              type: z.enum(["NOTIFY", "UPDATE_FIELD", "CREATE_TASK", "SEND_EMAIL", "WEBHOOK"]),
+              config: z.record(z.string(), z.unknown()),
+            })
+          )
+          .nullable(),
+        buttonVariant: z.string().max(20).nullable(),
+        confirmRequired: z.boolean(),
+        confirmMessageEn: z.string().max(500).nullable(),
+        confirmMessageFr: z.string().max(500).nullable(),
+      })
+    )
+    .max(200),
+  escalationRules: z
+    .array(
+      z.object({
+        stateCode: z.string(),
+        nameEn: z.string().min(1).max(100),
+        nameFr: z.string().min(1).max(100),
+        triggerAfterDays: z.number().int().min(1).max(365),
+        action: z.nativeEnum(EscalationAction),
+        actionConfig: z
+          .object({
+            notifyRoles: z.array(z.string()).optional(),
+            notifyUsers: z.array(z.string()).optional(),
+            reassignToRole: z.string().optional(),
+            reassignToUserId: z.string().optional(),
+            message: z.object({ en: z.string().max(500), fr: z.string().max(500) }).optional(),
+          })
+          .nullable(),
+        repeatIntervalDays: z.number().int().min(1).max(365).nullable(),
+        maxRepeats: z.number().int().min(1).max(50).nullable(),
+        isActive: z.boolean(),
+      })
+    )
+    .max(100),
+});
+
+const detailsSchema = z.object({
+  nameEn: z.string().min(1).max(200),
+  nameFr: z.string().min(1).max(200),
+  descriptionEn: z.string().max(1000).nullable().optional(),
+  descriptionFr: z.string().max(1000).nullable().optional(),
+});
+
 const entityInput = z.object({
   entityType: z.nativeEnum(WorkflowEntityType),
   entityId: z.string(),
@@ -230,6 +340,151 @@ export const workflowRouter = router({
       return workflow;
     }),
 
+  /**
+   * Editable graph of a definition version (designer)
+   */
+  getGraph: roleProcedure(...WORKFLOW_DESIGNER_ROLES)
+    .input(z.object({ id: z.string() }))
+    .query(async ({ input }) => {
+      return workflowDefinitionService.getGraph(input.id);
+    }),
+
+  /**
+   * All versions of a workflow, newest first, with their running executions
+   */
+  listVersions: roleProcedure(...WORKFLOW_DESIGNER_ROLES)
+    .input(z.object({ id: z.string() }))
+    .query(async ({ input }) => {
+      return workflowDefinitionService.listVersions(input.id);
+    }),
+
+  /**
+   * Start a new workflow as an empty draft
+   */
+  createDefinition: roleProcedure(...WORKFLOW_DESIGNER_ROLES)
+    .input(
+      detailsSchema.extend({
+        code: codeSchema,
+        entityType: z.nativeEnum(WorkflowEntityType),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      const existing = await ctx.db.workflowDefinition.findUnique({
+        where: { code: input.code },
+        select: { id: true },
+      });
+      if (existing) {
+        throw new TRPCError({
+          code: "CONFLICT",
+          message: "A workflow with this code already exists",
+        });
+      }
+
+      const definition = await workflowDefinitionService.createDefinition(input, ctx.user.id);
+
+      logCreate({
+        userId: ctx.user.id,
+        entityType: "WorkflowDefinition",
+        entityId: definition.id,
+        newState: { code: definition.code, entityType: definition.entityType, version: 1 },
+      }).catch(() => {});
+
+      return definition;
+    }),
+
+  /**
+   * Copy a version into the next draft of its workflow
+   */
+  createDraft: roleProcedure(...WORKFLOW_DESIGNER_ROLES)
+    .input(z.object({ fromId: z.string() }))
+    .mutation(async ({ ctx, input }) => {
+      const draft = await workflowDefinitionService.createDraft(input.fromId, ctx.user.id);
+
+      logCreate({
+        userId: ctx.user.id,
+        entityType: "WorkflowDefinition",
+        entityId: draft.id,
+        newState: { code: draft.code, version: draft.version, fromId: input.fromId },
+      }).catch(() => {});
+
+      return draft;
+    }),
+
+  /**
+   * Save a draft's details and graph; returns the static check results
+   */
+  saveDraft: roleProcedure(...WORKFLOW_DESIGNER_ROLES)
+    .input(
+      z.object({
+        id: z.string(),
+        details: detailsSchema,
+        graph: graphSchema,
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      const result = await workflowDefinitionService.saveDraft(input.id, input.details, input.graph);
+
+      logUpdate({
+        userId: ctx.user.id,
+        entityType: "WorkflowDefinition",
+        entityId: input.id,
+        newState: {
+          ...input.details,
+          states: input.graph.states.length,
+          transitions: input.graph.transitions.length,
+          escalationRules: input.graph.escalationRules.length,
+        },
+      }).catch(() => {});
+
+      return result;
+    }),
+
+  /**
+   * Publish a draft. New executions start on it; executions already running
+   * stay on the version they started with.
+   */
+  publishDraft: roleProcedure(...WORKFLOW_DESIGNER_ROLES)
+    .input(z.object({ id: z.string() }))
+    .mutation(async ({ ctx, input }) => {
+      const result = await workflowDefinitionService.publish(input.id, ctx.user.id);
+
+      logStatusChange({
+        userId: ctx.user.id,
+        entityType: "WorkflowDefinition",
+        entityId: result.definition.id,
+        previousStatus: "DRAFT",
+        newStatus: "PUBLISHED",
+        metadata: {
+          version: result.definition.version,
+          archivedId: result.previous?.id ?? null,
+          runningOnPrevious: result.runningOnPrevious,
+        },
+      }).catch(() => {});
+
+      return {
+        definition: result.definition,
+        runningOnPrevious: result.runningOnPrevious,
+      };
+    }),
+
+  /**
+   * Delete a draft version
+   */
+  discardDraft: roleProcedure(...WORKFLOW_DESIGNER_ROLES)
+    .input(z.object({ id: z.string() }))
+    .mutation(async ({ ctx, input }) => {
+      const draft = await workflowDefinitionService.discardDraft(input.id);
+
+      logDelete({
+        userId: ctx.user.id,
+        entityType: "WorkflowDefinition",
+        entityId: draft.id,
+        previousState: { code: draft.code, version: draft.version },
+      }).catch(() => {});
+
+      return { success: true };
+    }),
+
   /**
    * Get workflow analytics (oversight roles only)
    */
@@ -478,6 +478,20 @@ export const FindingSeverity = {
 } as const;
 export type FindingSeverity = (typeof FindingSeverity)[keyof typeof FindingSeverity];
 
+export const FindingRecurrenceStatus = {
+  PROPOSED: "PROPOSED",
+  CONFIRMED: "CONFIRMED",
+  DISMISSED: "DISMISSED",
+} as const;
+export type FindingRecurrenceStatus = (typeof FindingRecurrenceStatus)[keyof typeof FindingRecurrenceStatus];
+
+export const SeverityRuleSetStatus = {
+  DRAFT: "DRAFT",
+  ACTIVE: "ACTIVE",
+  ARCHIVED: "ARCHIVED",
+} as const;
+export type SeverityRuleSetStatus = (typeof SeverityRuleSetStatus)[keyof typeof SeverityRuleSetStatus];
+
 export const FindingStatus = {
   OPEN: "OPEN",
   CAP_REQUIRED: "CAP_REQUIRED",
@@ -507,6 +521,36 @@ export const CAPStatus = {
 } as const;
 export type CAPStatus = (typeof CAPStatus)[keyof typeof CAPStatus];
 
+export const EffectivenessReviewStatus = {
+  SCHEDULED: "SCHEDULED",
+  OPEN: "OPEN",
+  COMPLETED: "COMPLETED",
+  CANCELLED: "CANCELLED",
+} as const;
+export type EffectivenessReviewStatus = (typeof EffectivenessReviewStatus)[keyof typeof EffectivenessReviewStatus];
+
+export const EffectivenessOutcome = {
+  EFFECTIVE: "EFFECTIVE",
+  PARTIALLY_EFFECTIVE: "PARTIALLY_EFFECTIVE",
+  INEFFECTIVE: "INEFFECTIVE",
+} as const;
+export type EffectivenessOutcome = (typeof EffectivenessOutcome)[keyof typeof EffectivenessOutcome];
+
+export const EffectivenessFollowUp = {
+  REOPEN_CAP: "REOPEN_CAP",
+  FOLLOW_UP_FINDING: "FOLLOW_UP_FINDING",
+} as const;
+export type EffectivenessFollowUp = (typeof EffectivenessFollowUp)[keyof typeof EffectivenessFollowUp];
+
+export const CAPExtensionStatus = {
+  PENDING: "PENDING",
+  ENDORSED: "ENDORSED",
+  APPROVED: "APPROVED",
+  REJECTED: "REJECTED",
+  WITHDRAWN: "WITHDRAWN",
+} as const;
+export type CAPExtensionStatus = (typeof CAPExtensionStatus)[keyof typeof CAPExtensionStatus];
+
 export const MilestoneStatus = {
   PENDING: "PENDING",
   IN_PROGRESS: "IN_PROGRESS",
@@ -614,6 +658,7 @@ export const EventType = {
   COMPLETED: "COMPLETED",
   REOPENED: "REOPENED",
   COMMENT_ADDED: "COMMENT_ADDED",
+  MIGRATED: "MIGRATED",
 } as const;
 export type EventType = (typeof EventType)[keyof typeof EventType];
 
@@ -646,6 +691,9 @@ export const NotificationType = {
   CAP_OVERDUE: "CAP_OVERDUE",
   CAP_VERIFIED: "CAP_VERIFIED",
   CAP_CLOSED: "CAP_CLOSED",
+  CAP_EFFECTIVENESS_REVIEW_DUE: "CAP_EFFECTIVENESS_REVIEW_DUE",
+  CAP_EXTENSION_REQUESTED: "CAP_EXTENSION_REQUESTED",
+  CAP_EXTENSION_DECIDED: "CAP_EXTENSION_DECIDED",
   REPORT_DRAFT_READY: "REPORT_DRAFT_READY",
   REPORT_SUBMITTED: "REPORT_SUBMITTED",
   REPORT_APPROVED: "REPORT_APPROVED",
@@ -655,6 +703,10 @@ export const NotificationType = {
   MENTION: "MENTION",
   RETROSPECTIVE_SUBMITTED: "RETROSPECTIVE_SUBMITTED",
   RETROSPECTIVE_PUBLISHED: "RETROSPECTIVE_PUBLISHED",
+  SCHEDULED_JOB_ALERT: "SCHEDULED_JOB_ALERT",
+  MENTORSHIP_REQUESTED: "MENTORSHIP_REQUESTED",
+  MENTORSHIP_UPDATED: "MENTORSHIP_UPDATED",
+  SESSION_MINUTES_SIGNED: "SESSION_MINUTES_SIGNED",
 } as const;
 export type NotificationType = (typeof NotificationType)[keyof typeof NotificationType];
 
@@ -746,10 +798,21 @@ export type LessonStatus = (typeof LessonStatus)[keyof typeof LessonStatus];
 export const MentorshipStatus = {
   PENDING: "PENDING",
   ACCEPTED: "ACCEPTED",
+  ACTIVE: "ACTIVE",
+  COMPLETED: "COMPLETED",
   DECLINED: "DECLINED",
+  CANCELLED: "CANCELLED",
 } as const;
 export type MentorshipStatus = (typeof MentorshipStatus)[keyof typeof MentorshipStatus];
 
+export const MentorshipSessionFormat = {
+  VIRTUAL: "VIRTUAL",
+  ON_SITE: "ON_SITE",
+  HYBRID: "HYBRID",
+} as const;
+export type MentorshipSessionFormat =
+  (typeof MentorshipSessionFormat)[keyof typeof MentorshipSessionFormat];
+
 export const RetrospectiveStatus = {
   DRAFT: "DRAFT",
   SUBMITTED: "SUBMITTED",
@@ -796,6 +859,7 @@ export const SessionType = {
   DOCUMENT_REVIEW: "DOCUMENT_REVIEW",
   DEBRIEF: "DEBRIEF",
   PLANNING: "PLANNING",
+  CLOSING: "CLOSING",
 } as const;
 export type SessionType = (typeof SessionType)[keyof typeof SessionType];
 
@@ -816,6 +880,19 @@ export const ParticipantRole = {
 } as const;
 export type ParticipantRole = (typeof ParticipantRole)[keyof typeof ParticipantRole];
 
+export const MinutesStatus = {
+  DRAFT: "DRAFT",
+  SIGNED: "SIGNED",
+} as const;
+export type MinutesStatus = (typeof MinutesStatus)[keyof typeof MinutesStatus];
+
+export const MinutesAttendeeSide = {
+  REVIEW_TEAM: "REVIEW_TEAM",
+  HOST_ORGANIZATION: "HOST_ORGANIZATION",
+  OTHER: "OTHER",
+} as const;
+export type MinutesAttendeeSide = (typeof MinutesAttendeeSide)[keyof typeof MinutesAttendeeSide];
+
 export const ActivityType = {
   SESSION_JOIN: "SESSION_JOIN",
   SESSION_LEAVE: "SESSION_LEAVE",
@@ -840,6 +917,17 @@ export const ActivityType = {
 } as const;
 export type ActivityType = (typeof ActivityType)[keyof typeof ActivityType];
 
+// =============================================================================
+// TRANSLATION ENUMS
+// =============================================================================
+
+export const TranslationReviewStatus = {
+  PENDING: "PENDING",
+  APPROVED: "APPROVED",
+  CORRECTED: "CORRECTED",
+} as const;
+export type TranslationReviewStatus = (typeof TranslationReviewStatus)[keyof typeof TranslationReviewStatus];
+
 // =============================================================================
 // ANNOTATION ENUMS
 // =============================================================================
@@ -864,6 +952,13 @@ export const WorkflowEntityType = {
 } as const;
 export type WorkflowEntityType = (typeof WorkflowEntityType)[keyof typeof WorkflowEntityType];
 
+export const WorkflowDefinitionStatus = {
+  DRAFT: "DRAFT",
+  PUBLISHED: "PUBLISHED",
+  ARCHIVED: "ARCHIVED",
+} as const;
+export type WorkflowDefinitionStatus = (typeof WorkflowDefinitionStatus)[keyof typeof WorkflowDefinitionStatus];
+
 export const WorkflowStateType = {
   INITIAL: "INITIAL",
   INTERMEDIATE: "INTERMEDIATE",
@@ -897,3 +992,17 @@ export const SLAStatus = {
   COMPLETED: "COMPLETED",
 } as const;
 export type SLAStatus = (typeof SLAStatus)[keyof typeof SLAStatus];
+
+export const JobRunStatus = {
+  RUNNING: "RUNNING",
+  SUCCEEDED: "SUCCEEDED",
+  FAILED: "FAILED",
+} as const;
+export type JobRunStatus = (typeof JobRunStatus)[keyof typeof JobRunStatus];
+
+export const JobRunTrigger = {
+  SCHEDULE: "SCHEDULE",
+  MANUAL: "MANUAL",
+  EXTERNAL: "EXTERNAL",
+} as const;
+export type JobRunTrigger = (typeof JobRunTrigger)[keyof typeof JobRunTrigger];
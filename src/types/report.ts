@@ -197,6 +197,8 @@ export interface FindingDetail {
   capRequired: boolean;
   capReference?: string;              // If CAP exists
   capStatus?: string;
+  isRepeat?: boolean;                 // Confirmed repeat of an earlier finding
+  repeatOf?: string[];                // Earlier finding references
 }
 
 /** Section 8: Corrective Action Plans */
@@ -135,6 +135,45 @@ export interface CAPAnalytics {
     range: string;    // "90-100%", "75-89%", etc.
     count: number;
   }>;
+  effectiveness: CAPEffectivenessRates;
+}
+
+/** Outcomes of effectiveness reviews held after CAP closure */
+export interface CAPEffectivenessRates {
+  completed: number;
+  effective: number;
+  partiallyEffective: number;
+  ineffective: number;
+  effectivenessRate: number | null;  // percentage of completed reviews
+  pending: number;                   // scheduled or open
+  byTeam: Array<{
+    teamId: string;
+    teamNumber: number;
+    teamName: string;
+    completed: number;
+    effectivenessRate: number | null;
+  }>;
+}
+
+/** Share of findings confirmed as repeats of an earlier review's finding */
+export interface RepeatFindingRates {
+  totalFindings: number;
+  repeatFindings: number;
+  repeatRate: number;          // percentage
+  byTeam: Array<{
+    teamId: string;
+    teamNumber: number;
+    teamName: string;
+    total: number;
+    repeats: number;
+    rate: number;
+  }>;
+  byReviewArea: Array<{
+    reviewArea: string;
+    total: number;
+    repeats: number;
+    rate: number;
+  }>;
 }
 
 /** Dashboard filter state */